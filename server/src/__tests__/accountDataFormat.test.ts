@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ACCOUNT_EXPORT_FORMAT,
+  AccountExportFormatError,
+  buildAccountExportEntries,
+  getNuggetMarkdownPath,
+  nuggetToMarkdown,
+  parseAccountExport,
+  type AccountExportData,
+  type ExportedNugget
+} from '../utils/accountDataFormat.js';
+
+const nugget: ExportedNugget = {
+  id: 'n1',
+  title: 'Café "Tips" & Tricks',
+  content: 'Body text',
+  categories: ['Food'],
+  tags: [],
+  visibility: 'private',
+  publishedAt: '2024-03-05T10:00:00.000Z',
+  media: { type: 'link', url: 'https://example.com/tips' },
+  images: [],
+  documents: [],
+  themes: [],
+  mediaIds: []
+};
+
+const data: AccountExportData = {
+  exportedAt: '2024-04-01T00:00:00.000Z',
+  profile: { displayName: 'Ada', username: 'ada', preferences: { theme: 'dark' } },
+  nuggets: [nugget],
+  collections: [{ id: 'c1', name: 'Reading', description: '', type: 'private', sections: [], entries: [{ articleId: 'n1', note: 'first' }] }],
+  bookmarks: { folders: [{ id: 'f1', name: 'General', order: 0, isDefault: true }], bookmarks: [{ nuggetId: 'n1', folderIds: ['f1'] }] },
+  media: []
+};
+
+const toFiles = (entries: ReturnType<typeof buildAccountExportEntries>) =>
+  new Map(entries.map(entry => [entry.name, Buffer.from(entry.data as string, 'utf8')]));
+
+describe('accountDataFormat', () => {
+  it('should name Markdown files by date, title slug and id', () => {
+    expect(getNuggetMarkdownPath(nugget)).toBe('nuggets/2024-03-05-cafe-tips-tricks-n1.md');
+    expect(getNuggetMarkdownPath({ ...nugget, title: undefined, publishedAt: 'unknown' })).toBe('nuggets/undated-nugget-n1.md');
+  });
+
+  it('should write front-matter values as quoted YAML', () => {
+    const markdown = nuggetToMarkdown(nugget);
+    expect(markdown.startsWith('---\nid: "n1"\ntitle: "Café \\"Tips\\" & Tricks"\nurl: "https://example.com/tips"\n')).toBe(true);
+    expect(markdown).toContain('categories: ["Food"]\n');
+    expect(markdown).not.toContain('tags:');
+    expect(markdown.endsWith('---\n\n# Café "Tips" & Tricks\n\nBody text\n')).toBe(true);
+  });
+
+  it('should round-trip the JSON files', () => {
+    const entries = buildAccountExportEntries(data);
+    expect(entries.map(entry => entry.name)).toEqual([
+      'manifest.json',
+      'profile.json',
+      'nuggets.json',
+      'nuggets/2024-03-05-cafe-tips-tricks-n1.md',
+      'collections.json',
+      'bookmarks.json',
+      'media.json'
+    ]);
+    expect(JSON.parse(entries[0].data as string)).toMatchObject({
+      format: ACCOUNT_EXPORT_FORMAT,
+      counts: { nuggets: 1, collections: 1, bookmarkFolders: 1, bookmarks: 1, media: 0 }
+    });
+    expect(parseAccountExport(toFiles(entries))).toEqual(data);
+  });
+
+  it('should default optional sections', () => {
+    const files = toFiles(buildAccountExportEntries(data));
+    files.delete('collections.json');
+    files.delete('bookmarks.json');
+    files.delete('media.json');
+    const parsed = parseAccountExport(files);
+    expect(parsed.collections).toEqual([]);
+    expect(parsed.bookmarks).toEqual({ folders: [], bookmarks: [] });
+  });
+
+  it('should reject other archives and invalid files', () => {
+    const files = toFiles(buildAccountExportEntries(data));
+    expect(() => parseAccountExport(new Map())).toThrow('Missing manifest.json');
+
+    const foreign = new Map(files);
+    foreign.set('manifest.json', Buffer.from(JSON.stringify({ format: 'other', version: 1, exportedAt: '' })));
+    expect(() => parseAccountExport(foreign)).toThrow(AccountExportFormatError);
+
+    const newer = new Map(files);
+    newer.set('manifest.json', Buffer.from(JSON.stringify({ format: ACCOUNT_EXPORT_FORMAT, version: 99, exportedAt: '' })));
+    expect(() => parseAccountExport(newer)).toThrow('newer than this server supports');
+
+    const broken = new Map(files);
+    broken.set('nuggets.json', Buffer.from(JSON.stringify([{ id: 'n2' }])));
+    expect(() => parseAccountExport(broken)).toThrow('nuggets.json: 0.publishedAt');
+  });
+});
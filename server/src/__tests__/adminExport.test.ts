@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  escapeCsvValue,
+  formatExportHeader,
+  formatExportRecord,
+  getExportFileName,
+  normalizeExportColumns
+} from '../utils/adminExport.js';
+
+describe('adminExport', () => {
+  describe('normalizeExportColumns', () => {
+    it('should drop unknown columns and use the canonical order', () => {
+      expect(normalizeExportColumns('users', ['nuggets_count', 'email', 'password', ' id ']))
+        .toEqual(['id', 'email', 'nuggets_count']);
+      expect(normalizeExportColumns('nuggets', ['email'])).toEqual([]);
+    });
+  });
+
+  describe('escapeCsvValue', () => {
+    it('should quote separators, quotes and line breaks', () => {
+      expect(escapeCsvValue('plain')).toBe('plain');
+      expect(escapeCsvValue('a,b')).toBe('"a,b"');
+      expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsvValue('line\nbreak')).toBe('"line\nbreak"');
+    });
+
+    it('should neutralize spreadsheet formulas in text but not numbers', () => {
+      expect(escapeCsvValue('=SUM(A1:A2)')).toBe("'=SUM(A1:A2)");
+      expect(escapeCsvValue('@cmd')).toBe("'@cmd");
+      expect(escapeCsvValue(-5)).toBe('-5');
+    });
+
+    it('should write empty cells for missing values', () => {
+      expect(escapeCsvValue(null)).toBe('');
+      expect(escapeCsvValue(undefined)).toBe('');
+      expect(escapeCsvValue(0)).toBe('0');
+    });
+  });
+
+  describe('formatExportRecord', () => {
+    const record = { id: 'u1', name: 'Doe, Jane', nuggets_count: 3, email: null };
+
+    it('should write CSV rows in column order', () => {
+      expect(formatExportHeader(['id', 'name', 'nuggets_count'], 'csv')).toBe('id,name,nuggets_count\r\n');
+      expect(formatExportRecord(record, ['id', 'name', 'nuggets_count'], 'csv')).toBe('u1,"Doe, Jane",3\r\n');
+    });
+
+    it('should write one JSON object per line with only the selected columns', () => {
+      expect(formatExportHeader(['id'], 'ndjson')).toBe('');
+      expect(formatExportRecord(record, ['id', 'email', 'role'], 'ndjson'))
+        .toBe('{"id":"u1","email":null,"role":null}\n');
+    });
+  });
+
+  it('should name files by entity, date and format', () => {
+    const now = new Date('2024-05-06T12:00:00Z');
+    expect(getExportFileName('users', 'csv', now)).toBe('users-export-2024-05-06.csv');
+    expect(getExportFileName('nuggets', 'ndjson', now)).toBe('nuggets-export-2024-05-06.ndjson');
+  });
+});
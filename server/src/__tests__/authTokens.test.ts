@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { generateOneTimeToken, hashToken } from '../utils/authTokens.js';
+
+describe('authTokens', () => {
+  it('should store only a hash of the raw token', () => {
+    const { token, tokenHash } = generateOneTimeToken(60);
+    expect(tokenHash).not.toBe(token);
+    expect(hashToken(token)).toBe(tokenHash);
+  });
+
+  it('should generate unique tokens', () => {
+    const first = generateOneTimeToken(60);
+    const second = generateOneTimeToken(60);
+    expect(first.token).not.toBe(second.token);
+  });
+
+  it('should set expiry relative to now', () => {
+    const before = Date.now();
+    const { expiresAt } = generateOneTimeToken(30);
+    const expiry = new Date(expiresAt).getTime();
+    expect(expiry).toBeGreaterThanOrEqual(before + 30 * 60 * 1000);
+    expect(expiry).toBeLessThanOrEqual(Date.now() + 30 * 60 * 1000);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getRetryDelayMs,
+  isRowDue,
+  getRowStateAfterFailure,
+  summarizeBatchJob,
+  getNextAttemptAt,
+  BatchJobRowState,
+  BATCH_JOB_MAX_ATTEMPTS,
+  BATCH_JOB_RETRY_BASE_MS,
+  BATCH_JOB_RETRY_MAX_MS
+} from '../utils/batchJobState.js';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+const row = (overrides: Partial<BatchJobRowState> = {}): BatchJobRowState => ({
+  status: 'pending',
+  attempts: 0,
+  ...overrides
+});
+
+describe('getRetryDelayMs', () => {
+  it('should double per attempt up to the cap', () => {
+    expect(getRetryDelayMs(1)).toBe(BATCH_JOB_RETRY_BASE_MS);
+    expect(getRetryDelayMs(2)).toBe(2 * BATCH_JOB_RETRY_BASE_MS);
+    expect(getRetryDelayMs(3)).toBe(4 * BATCH_JOB_RETRY_BASE_MS);
+    expect(getRetryDelayMs(50)).toBe(BATCH_JOB_RETRY_MAX_MS);
+  });
+});
+
+describe('isRowDue', () => {
+  it('should run pending rows once their backoff has elapsed', () => {
+    expect(isRowDue(row(), now)).toBe(true);
+    expect(isRowDue(row({ nextAttemptAt: '2026-03-10T11:59:00.000Z' }), now)).toBe(true);
+    expect(isRowDue(row({ nextAttemptAt: '2026-03-10T12:01:00.000Z' }), now)).toBe(false);
+  });
+
+  it('should never run rows in other states', () => {
+    expect(isRowDue(row({ status: 'processing' }), now)).toBe(false);
+    expect(isRowDue(row({ status: 'success' }), now)).toBe(false);
+    expect(isRowDue(row({ status: 'cancelled' }), now)).toBe(false);
+  });
+});
+
+describe('getRowStateAfterFailure', () => {
+  it('should schedule a retry while attempts remain', () => {
+    const next = getRowStateAfterFailure(row(), 'timeout', now);
+    expect(next.status).toBe('pending');
+    expect(next.attempts).toBe(1);
+    expect(next.errorMessage).toBe('timeout');
+    expect(next.nextAttemptAt).toBe(new Date(now.getTime() + BATCH_JOB_RETRY_BASE_MS).toISOString());
+  });
+
+  it('should fail for good after the last attempt', () => {
+    const next = getRowStateAfterFailure(row({ attempts: BATCH_JOB_MAX_ATTEMPTS - 1 }), 'timeout', now);
+    expect(next.status).toBe('error');
+    expect(next.attempts).toBe(BATCH_JOB_MAX_ATTEMPTS);
+    expect(next.nextAttemptAt).toBeNull();
+  });
+
+  it('should not retry errors marked as permanent', () => {
+    const next = getRowStateAfterFailure(row(), 'invalid', now, false);
+    expect(next.status).toBe('error');
+    expect(next.attempts).toBe(1);
+  });
+});
+
+describe('summarizeBatchJob', () => {
+  it('should count in-progress rows as pending', () => {
+    expect(summarizeBatchJob([
+      row(),
+      row({ status: 'processing' }),
+      row({ status: 'success' }),
+      row({ status: 'error' }),
+      row({ status: 'cancelled' })
+    ])).toEqual({ total: 5, pending: 2, success: 1, error: 1, cancelled: 1, done: 3 });
+  });
+});
+
+describe('getNextAttemptAt', () => {
+  it('should return the earliest pending attempt', () => {
+    expect(getNextAttemptAt([
+      row({ nextAttemptAt: '2026-03-10T12:05:00.000Z' }),
+      row({ nextAttemptAt: '2026-03-10T12:01:00.000Z' }),
+      row({ status: 'error' })
+    ])).toBe('2026-03-10T12:01:00.000Z');
+  });
+
+  it('should treat rows without a backoff as due immediately', () => {
+    expect(getNextAttemptAt([row({ nextAttemptAt: '2026-03-10T12:05:00.000Z' }), row()])).toBe(new Date(0).toISOString());
+  });
+
+  it('should be null when nothing is pending', () => {
+    expect(getNextAttemptAt([row({ status: 'success' }), row({ status: 'cancelled' })])).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  planBatchPublish,
+  parseScheduledPublishAt,
+  BatchPublishCandidate,
+  MAX_SCHEDULE_AHEAD_DAYS
+} from '../utils/batchPublish.js';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+const articles = new Map<string, BatchPublishCandidate>([
+  ['mine-draft', { id: 'mine-draft', authorId: 'u1', visibility: 'private' }],
+  ['mine-public', { id: 'mine-public', authorId: 'u1', visibility: 'public' }],
+  ['mine-legacy', { id: 'mine-legacy', authorId: 'u1' }],
+  ['theirs-draft', { id: 'theirs-draft', authorId: 'u2', visibility: 'private' }]
+]);
+
+const author = { userId: 'u1', isAdmin: false };
+const admin = { userId: 'admin', isAdmin: true };
+
+describe('planBatchPublish', () => {
+  it('should only let authors publish their own drafts', () => {
+    const results = planBatchPublish(
+      ['mine-draft', 'mine-public', 'theirs-draft', 'missing'],
+      articles,
+      author,
+      { type: 'publish' }
+    );
+    expect(results).toEqual([
+      { id: 'mine-draft', outcome: 'published' },
+      { id: 'mine-public', outcome: 'already_public' },
+      { id: 'theirs-draft', outcome: 'forbidden' },
+      { id: 'missing', outcome: 'not_found' }
+    ]);
+  });
+
+  it('should let admins publish anyone\'s drafts', () => {
+    expect(planBatchPublish(['theirs-draft'], articles, admin, { type: 'publish' }))
+      .toEqual([{ id: 'theirs-draft', outcome: 'published' }]);
+  });
+
+  it('should treat missing visibility as public', () => {
+    expect(planBatchPublish(['mine-legacy'], articles, author, { type: 'publish' })[0].outcome).toBe('already_public');
+  });
+
+  it('should carry the schedule for scheduled and unscheduled drafts', () => {
+    const at = '2026-03-11T09:00:00.000Z';
+    expect(planBatchPublish(['mine-draft'], articles, author, { type: 'schedule', at }))
+      .toEqual([{ id: 'mine-draft', outcome: 'scheduled', scheduledPublishAt: at }]);
+    expect(planBatchPublish(['mine-draft'], articles, author, { type: 'unschedule' }))
+      .toEqual([{ id: 'mine-draft', outcome: 'unscheduled', scheduledPublishAt: null }]);
+  });
+
+  it('should report each id once', () => {
+    expect(planBatchPublish(['mine-draft', 'mine-draft'], articles, author, { type: 'publish' })).toHaveLength(1);
+  });
+});
+
+describe('parseScheduledPublishAt', () => {
+  it('should accept future times and normalize to ISO', () => {
+    expect(parseScheduledPublishAt('2026-03-11T10:00:00+01:00', now)).toEqual({ at: '2026-03-11T09:00:00.000Z' });
+  });
+
+  it('should reject invalid, past and far-future times', () => {
+    expect(parseScheduledPublishAt('tomorrow', now)).toEqual({ error: 'Invalid date format' });
+    expect(parseScheduledPublishAt('2026-03-10T11:00:00.000Z', now)).toEqual({ error: 'Scheduled time must be in the future' });
+    const tooFar = new Date(now.getTime() + (MAX_SCHEDULE_AHEAD_DAYS + 1) * 24 * 60 * 60 * 1000).toISOString();
+    expect('error' in parseScheduledPublishAt(tooFar, now)).toBe(true);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { isLikelyBot } from '../utils/botDetection.js';
+
+describe('isLikelyBot', () => {
+  it('should accept regular browsers', () => {
+    expect(isLikelyBot('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15')).toBe(false);
+    expect(isLikelyBot('Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36')).toBe(false);
+  });
+
+  it('should flag crawlers and link preview fetchers', () => {
+    expect(isLikelyBot('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')).toBe(true);
+    expect(isLikelyBot('facebookexternalhit/1.1 (+http://www.facebook.com/externalhit_uatext.php)')).toBe(true);
+    expect(isLikelyBot('Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)')).toBe(true);
+  });
+
+  it('should flag headless browsers and HTTP libraries', () => {
+    expect(isLikelyBot('Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/124.0.0.0 Safari/537.36')).toBe(true);
+    expect(isLikelyBot('curl/8.4.0')).toBe(true);
+    expect(isLikelyBot('python-requests/2.31.0')).toBe(true);
+  });
+
+  it('should treat a missing user agent as automated', () => {
+    expect(isLikelyBot(undefined)).toBe(true);
+    expect(isLikelyBot('')).toBe(true);
+  });
+});
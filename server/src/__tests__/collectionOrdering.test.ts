@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { moveEntry, moveSection, groupEntriesBySection, OrderingError } from '../utils/collectionOrdering.js';
+
+const sections = [{ id: 's1' }, { id: 's2' }];
+const entries = [
+  { articleId: 'a' },
+  { articleId: 'b', sectionId: 's1' },
+  { articleId: 'c' },
+  { articleId: 'd', sectionId: 's1' },
+  { articleId: 'e', sectionId: 's2' }
+];
+
+const ids = (list: Array<{ articleId: string }>) => list.map(entry => entry.articleId);
+
+describe('moveEntry', () => {
+  it('should move within the unsectioned group', () => {
+    const result = moveEntry(entries, sections, { articleId: 'c', sectionId: null, index: 0 });
+    expect(ids(groupEntriesBySection(result, sections)[0].entries)).toEqual(['c', 'a']);
+  });
+
+  it('should move into a section at the given position', () => {
+    const result = moveEntry(entries, sections, { articleId: 'a', sectionId: 's1', index: 1 });
+    const groups = groupEntriesBySection(result, sections);
+    expect(ids(groups[0].entries)).toEqual(['c']);
+    expect(ids(groups[1].entries)).toEqual(['b', 'a', 'd']);
+    expect(result.find(entry => entry.articleId === 'a')?.sectionId).toBe('s1');
+  });
+
+  it('should append when the index is past the end', () => {
+    const result = moveEntry(entries, sections, { articleId: 'b', sectionId: 's2', index: 99 });
+    expect(ids(groupEntriesBySection(result, sections)[2].entries)).toEqual(['e', 'b']);
+  });
+
+  it('should place entries into an empty section', () => {
+    const result = moveEntry(entries, [...sections, { id: 's3' }], { articleId: 'e', sectionId: 's3', index: 0 });
+    expect(result).toHaveLength(entries.length);
+    expect(result.find(entry => entry.articleId === 'e')?.sectionId).toBe('s3');
+  });
+
+  it('should move an entry out of its section', () => {
+    const result = moveEntry(entries, sections, { articleId: 'd', sectionId: null, index: 1 });
+    expect(ids(groupEntriesBySection(result, sections)[0].entries)).toEqual(['a', 'd', 'c']);
+    expect(result.find(entry => entry.articleId === 'd')?.sectionId).toBeUndefined();
+  });
+
+  it('should reject unknown entries and sections', () => {
+    expect(() => moveEntry(entries, sections, { articleId: 'zz', sectionId: null, index: 0 })).toThrow(OrderingError);
+    expect(() => moveEntry(entries, sections, { articleId: 'a', sectionId: 'nope', index: 0 })).toThrow(OrderingError);
+  });
+});
+
+describe('moveSection', () => {
+  it('should reorder sections', () => {
+    expect(moveSection([{ id: 's1' }, { id: 's2' }, { id: 's3' }], 's3', 0).map(section => section.id)).toEqual(['s3', 's1', 's2']);
+  });
+});
+
+describe('groupEntriesBySection', () => {
+  it('should keep entries of deleted sections visible', () => {
+    const groups = groupEntriesBySection(entries, [{ id: 's2' }]);
+    expect(ids(groups[0].entries)).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
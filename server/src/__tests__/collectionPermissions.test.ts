@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCollectionRole,
+  canViewCollection,
+  canAddEntries,
+  canRemoveEntry,
+  canArrangeEntries,
+  canManageCollection,
+  buildVisibilityFilter,
+  CollectionAccessSubject
+} from '../utils/collectionPermissions.js';
+
+const privateCollection: CollectionAccessSubject = {
+  creatorId: 'creator',
+  type: 'private',
+  members: [
+    { userId: 'co-owner', role: 'owner' },
+    { userId: 'editor', role: 'editor' },
+    { userId: 'viewer', role: 'viewer' }
+  ]
+};
+
+const publicCollection: CollectionAccessSubject = { ...privateCollection, type: 'public' };
+
+describe('getCollectionRole', () => {
+  it('should treat the creator as owner and look up members', () => {
+    expect(getCollectionRole(privateCollection, 'creator')).toBe('owner');
+    expect(getCollectionRole(privateCollection, 'editor')).toBe('editor');
+    expect(getCollectionRole(privateCollection, 'stranger')).toBeNull();
+    expect(getCollectionRole(privateCollection, undefined)).toBeNull();
+  });
+});
+
+describe('private collections', () => {
+  it('should only be visible to members and admins', () => {
+    expect(canViewCollection(privateCollection, { userId: 'viewer' })).toBe(true);
+    expect(canViewCollection(privateCollection, { userId: 'stranger' })).toBe(false);
+    expect(canViewCollection(privateCollection, {})).toBe(false);
+    expect(canViewCollection(privateCollection, { userId: 'stranger', isAdmin: true })).toBe(true);
+  });
+
+  it('should only accept entries from editors and owners', () => {
+    expect(canAddEntries(privateCollection, { userId: 'editor' })).toBe(true);
+    expect(canAddEntries(privateCollection, { userId: 'co-owner' })).toBe(true);
+    expect(canAddEntries(privateCollection, { userId: 'viewer' })).toBe(false);
+    expect(canAddEntries(privateCollection, { userId: 'stranger' })).toBe(false);
+  });
+
+  it('should not let former contributors remove entries', () => {
+    expect(canRemoveEntry(privateCollection, { addedByUserId: 'viewer' }, { userId: 'viewer' })).toBe(false);
+    expect(canRemoveEntry(privateCollection, { addedByUserId: 'viewer' }, { userId: 'editor' })).toBe(true);
+  });
+});
+
+describe('public collections', () => {
+  it('should accept entries from any signed-in user', () => {
+    expect(canAddEntries(publicCollection, { userId: 'stranger' })).toBe(true);
+    expect(canAddEntries(publicCollection, {})).toBe(false);
+  });
+
+  it('should let contributors remove only their own entries', () => {
+    expect(canRemoveEntry(publicCollection, { addedByUserId: 'stranger' }, { userId: 'stranger' })).toBe(true);
+    expect(canRemoveEntry(publicCollection, { addedByUserId: 'someone' }, { userId: 'stranger' })).toBe(false);
+  });
+});
+
+describe('canArrangeEntries', () => {
+  it('should require an editor even in public collections', () => {
+    expect(canArrangeEntries(publicCollection, { userId: 'editor' })).toBe(true);
+    expect(canArrangeEntries(publicCollection, { userId: 'viewer' })).toBe(false);
+    expect(canArrangeEntries(publicCollection, { userId: 'stranger' })).toBe(false);
+  });
+});
+
+describe('canManageCollection', () => {
+  it('should require an owner', () => {
+    expect(canManageCollection(publicCollection, { userId: 'co-owner' })).toBe(true);
+    expect(canManageCollection(publicCollection, { userId: 'editor' })).toBe(false);
+  });
+});
+
+describe('buildVisibilityFilter', () => {
+  it('should restrict guests to public collections and skip filtering for admins', () => {
+    expect(buildVisibilityFilter({})).toEqual({ type: 'public' });
+    expect(buildVisibilityFilter({ userId: 'u1', isAdmin: true })).toBeNull();
+    expect(buildVisibilityFilter({ userId: 'u1' })).toEqual({
+      $or: [{ type: 'public' }, { creatorId: 'u1' }, { 'members.userId': 'u1' }]
+    });
+  });
+});
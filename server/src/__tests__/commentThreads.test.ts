@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_COMMENT_DEPTH,
+  COMMENT_EDIT_WINDOW_MS,
+  COMMENT_DELETE_WINDOW_MS,
+  buildCommentTree,
+  getCommentPermissions,
+  resolveReplyPlacement,
+  CommentLike
+} from '../utils/commentThreads.js';
+
+const NOW = new Date('2025-06-01T12:00:00.000Z');
+
+function makeComment(overrides: Partial<CommentLike> & { id: string }): CommentLike {
+  return {
+    parentId: null,
+    depth: 0,
+    author: { id: 'author-1', name: 'Author' },
+    content: 'Hello',
+    status: 'visible',
+    createdAt: NOW.toISOString(),
+    ...overrides
+  };
+}
+
+function ago(ms: number): string {
+  return new Date(NOW.getTime() - ms).toISOString();
+}
+
+describe('resolveReplyPlacement', () => {
+  it('should nest replies one level below the parent', () => {
+    expect(resolveReplyPlacement({ id: 'c1', parentId: null, depth: 0 })).toEqual({ parentId: 'c1', depth: 1 });
+  });
+
+  it('should attach replies at the depth cap as siblings', () => {
+    const parent = { id: 'c4', parentId: 'c3', depth: MAX_COMMENT_DEPTH };
+    expect(resolveReplyPlacement(parent)).toEqual({ parentId: 'c3', depth: MAX_COMMENT_DEPTH });
+  });
+});
+
+describe('getCommentPermissions', () => {
+  it('should let authors edit and delete inside the edit window', () => {
+    const comment = makeComment({ id: 'c1', createdAt: ago(60 * 1000) });
+    const permissions = getCommentPermissions(comment, { userId: 'author-1' }, NOW);
+    expect(permissions.canEdit).toBe(true);
+    expect(permissions.canDelete).toBe(true);
+    expect(permissions.editableUntil).toBe(new Date(NOW.getTime() - 60 * 1000 + COMMENT_EDIT_WINDOW_MS).toISOString());
+  });
+
+  it('should close editing before deleting', () => {
+    const comment = makeComment({ id: 'c1', createdAt: ago(COMMENT_EDIT_WINDOW_MS + 1000) });
+    expect(getCommentPermissions(comment, { userId: 'author-1' }, NOW)).toEqual({ canEdit: false, canDelete: true, editableUntil: undefined });
+  });
+
+  it('should deny authors once the delete window has closed', () => {
+    const comment = makeComment({ id: 'c1', createdAt: ago(COMMENT_DELETE_WINDOW_MS + 1000) });
+    expect(getCommentPermissions(comment, { userId: 'author-1' }, NOW).canDelete).toBe(false);
+  });
+
+  it('should let admins delete but not edit other users\' comments', () => {
+    const comment = makeComment({ id: 'c1', createdAt: ago(COMMENT_DELETE_WINDOW_MS * 10) });
+    const permissions = getCommentPermissions(comment, { userId: 'admin-1', isAdmin: true }, NOW);
+    expect(permissions.canEdit).toBe(false);
+    expect(permissions.canDelete).toBe(true);
+  });
+
+  it('should grant nothing to anonymous viewers or on deleted comments', () => {
+    const comment = makeComment({ id: 'c1' });
+    expect(getCommentPermissions(comment, {}, NOW)).toEqual({ canEdit: false, canDelete: false });
+    expect(getCommentPermissions({ ...comment, status: 'deleted' }, { userId: 'author-1' }, NOW)).toEqual({ canEdit: false, canDelete: false });
+  });
+});
+
+describe('buildCommentTree', () => {
+  it('should nest replies under their parents in chronological order', () => {
+    const tree = buildCommentTree([
+      makeComment({ id: 'r2', parentId: 'c1', depth: 1, createdAt: ago(1000) }),
+      makeComment({ id: 'c1', createdAt: ago(5000) }),
+      makeComment({ id: 'r1', parentId: 'c1', depth: 1, createdAt: ago(3000) }),
+      makeComment({ id: 'c2', createdAt: ago(4000) })
+    ], {}, NOW);
+
+    expect(tree.map(node => node.id)).toEqual(['c1', 'c2']);
+    expect(tree[0].replies.map(node => node.id)).toEqual(['r1', 'r2']);
+  });
+
+  it('should hide author and content of deleted placeholders', () => {
+    const tree = buildCommentTree([
+      makeComment({ id: 'c1', status: 'deleted', content: 'secret', createdAt: ago(2000) }),
+      makeComment({ id: 'r1', parentId: 'c1', depth: 1, createdAt: ago(1000) })
+    ], { userId: 'author-1' }, NOW);
+
+    expect(tree[0].author.name).toBe('[deleted]');
+    expect(tree[0].content).toBe('');
+    expect(tree[0].canDelete).toBe(false);
+    expect(tree[0].replies[0].content).toBe('Hello');
+  });
+
+  it('should surface orphaned replies at the top level', () => {
+    const tree = buildCommentTree([
+      makeComment({ id: 'r1', parentId: 'missing', depth: 1 })
+    ], {}, NOW);
+    expect(tree.map(node => node.id)).toEqual(['r1']);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { isDigestDue, getDigestSince, renderDigest, escapeHtml, DIGEST_MAX_WINDOW_DAYS } from '../utils/digestTemplates.js';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+describe('isDigestDue', () => {
+  it('should be due when no digest was sent yet', () => {
+    expect(isDigestDue(undefined, now, 24)).toBe(true);
+  });
+
+  it('should wait for the interval to pass', () => {
+    expect(isDigestDue('2026-03-10T00:00:00.000Z', now, 24)).toBe(false);
+    expect(isDigestDue('2026-03-09T12:00:00.000Z', now, 24)).toBe(true);
+  });
+});
+
+describe('getDigestSince', () => {
+  it('should start at the last digest', () => {
+    expect(getDigestSince('2026-03-09T12:00:00.000Z', now)).toBe('2026-03-09T12:00:00.000Z');
+  });
+
+  it('should clamp to the maximum window', () => {
+    const windowStart = new Date(now.getTime() - DIGEST_MAX_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    expect(getDigestSince(undefined, now)).toBe(windowStart);
+    expect(getDigestSince('2025-01-01T00:00:00.000Z', now)).toBe(windowStart);
+  });
+});
+
+describe('renderDigest', () => {
+  const content = {
+    recipientName: 'Sam',
+    unsubscribeUrl: 'https://api.example.com/api/digest/unsubscribe?token=abc',
+    settingsUrl: 'https://example.com/account',
+    sections: [
+      { heading: 'In your categories', items: [{ title: 'Tips & <tricks>', url: 'https://example.com/feed/1', meta: 'Ada · Design' }] },
+      { heading: 'From collections you follow', items: [] }
+    ]
+  };
+
+  it('should count items in the subject', () => {
+    expect(renderDigest(content).subject).toBe('Your Nuggets digest: 1 new nugget');
+  });
+
+  it('should escape user content in HTML', () => {
+    const { html } = renderDigest(content);
+    expect(html).toContain('Tips &amp; &lt;tricks&gt;');
+    expect(html).not.toContain('<tricks>');
+  });
+
+  it('should drop empty sections and include the unsubscribe link', () => {
+    const { text, html } = renderDigest(content);
+    expect(text).not.toContain('FROM COLLECTIONS YOU FOLLOW');
+    expect(text).toContain(content.unsubscribeUrl);
+    expect(html).toContain(escapeHtml(content.unsubscribeUrl));
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { getFlagReviewStatus, isEntryAwaitingReview, filterVisibleEntries } from '../utils/entryFlags.js';
+
+describe('getFlagReviewStatus', () => {
+  it('should stay clear below the threshold', () => {
+    expect(getFlagReviewStatus(2, { threshold: 3, action: 'hide' })).toBeNull();
+  });
+
+  it('should follow the policy action at the threshold', () => {
+    expect(getFlagReviewStatus(3, { threshold: 3, action: 'hide' })).toBe('hidden');
+    expect(getFlagReviewStatus(5, { threshold: 3, action: 'queue' })).toBe('queued');
+  });
+
+  it('should treat thresholds below one as one', () => {
+    expect(getFlagReviewStatus(0, { threshold: 0, action: 'queue' })).toBeNull();
+    expect(getFlagReviewStatus(1, { threshold: 0, action: 'queue' })).toBe('queued');
+  });
+});
+
+describe('filterVisibleEntries', () => {
+  const entries = [
+    { articleId: 'a' },
+    { articleId: 'b', reviewStatus: 'queued' as const },
+    { articleId: 'c', reviewStatus: 'hidden' as const }
+  ];
+
+  it('should hide flagged-out entries from everyone but curators', () => {
+    expect(filterVisibleEntries(entries, false).map(entry => entry.articleId)).toEqual(['a', 'b']);
+    expect(filterVisibleEntries(entries, true)).toHaveLength(3);
+  });
+
+  it('should report entries awaiting review', () => {
+    expect(entries.filter(isEntryAwaitingReview).map(entry => entry.articleId)).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeFeedCursor,
+  decodeFeedCursor,
+  buildKeysetCondition,
+  InvalidCursorError
+} from '../utils/feedCursor.js';
+
+const ID = '507f1f77bcf86cd799439011';
+
+describe('feedCursor', () => {
+  it('should round-trip keyset cursors', () => {
+    const raw = encodeFeedCursor({ sort: 'latest', publishedAt: '2024-01-01T00:00:00.000Z', id: ID });
+    expect(decodeFeedCursor(raw, 'latest')).toEqual({ sort: 'latest', publishedAt: '2024-01-01T00:00:00.000Z', id: ID });
+  });
+
+  it('should round-trip offset cursors for non-time sorts', () => {
+    const raw = encodeFeedCursor({ sort: 'relevance', offset: 50 });
+    expect(decodeFeedCursor(raw, 'relevance')).toEqual({ sort: 'relevance', offset: 50 });
+  });
+
+  it('should reject a cursor created for another sort order', () => {
+    const raw = encodeFeedCursor({ sort: 'latest', publishedAt: '2024-01-01T00:00:00.000Z', id: ID });
+    expect(() => decodeFeedCursor(raw, 'oldest')).toThrow(InvalidCursorError);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodeFeedCursor('not-a-cursor', 'latest')).toThrow(InvalidCursorError);
+    const badId = encodeFeedCursor({ sort: 'latest', publishedAt: '2024-01-01', id: 'nope' });
+    expect(() => decodeFeedCursor(badId, 'latest')).toThrow(InvalidCursorError);
+    const badOffset = encodeFeedCursor({ sort: 'title', offset: -1 });
+    expect(() => decodeFeedCursor(badOffset, 'title')).toThrow(InvalidCursorError);
+  });
+
+  it('should select documents after the cursor in sort direction', () => {
+    const condition = buildKeysetCondition({ sort: 'latest', publishedAt: '2024-01-01', id: ID }) as any;
+    expect(condition.$or[0]).toEqual({ publishedAt: { $lt: '2024-01-01' } });
+    expect(condition.$or[1].publishedAt).toBe('2024-01-01');
+    expect(String(condition.$or[1]._id.$lt)).toBe(ID);
+
+    const ascending = buildKeysetCondition({ sort: 'oldest', publishedAt: '2024-01-01', id: ID }) as any;
+    expect(ascending.$or[0]).toEqual({ publishedAt: { $gt: '2024-01-01' } });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCategoryAffinity,
+  getRecencyScore,
+  getEngagementScore,
+  scoreFeedItem,
+  rankFeed,
+  resolveFeedAsOf,
+  FeedCandidate,
+  FeedContext,
+  FEED_RECENCY_HALF_LIFE_HOURS
+} from '../utils/feedScoring.js';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+
+const emptyContext: FeedContext = { affinity: new Map(), followedAuthorIds: new Set() };
+
+const candidate = (overrides: Partial<FeedCandidate> = {}): FeedCandidate => ({
+  id: 'a1',
+  authorId: 'author-1',
+  authorName: 'Ada',
+  categories: [],
+  publishedAt: hoursAgo(1),
+  ...overrides
+});
+
+describe('buildCategoryAffinity', () => {
+  it('should normalize so the strongest category scores 1', () => {
+    const affinity = buildCategoryAffinity({
+      interestedCategories: ['Design'],
+      bookmarkedCategories: [['Design', 'AI'], ['AI']],
+      collectedCategories: []
+    });
+    expect(affinity.get('design')?.score).toBe(1);
+    expect(affinity.get('ai')?.score).toBe(0.75);
+    expect(affinity.get('design')?.source).toBe('interest');
+    expect(affinity.get('ai')?.source).toBe('bookmark');
+  });
+
+  it('should match categories case-insensitively and count a nugget once', () => {
+    const affinity = buildCategoryAffinity({
+      interestedCategories: [],
+      bookmarkedCategories: [['Design', 'design ']],
+      collectedCategories: [['DESIGN'], ['Travel']]
+    });
+    expect(affinity.size).toBe(2);
+    expect(affinity.get('design')?.score).toBe(1);
+    expect(affinity.get('travel')?.score).toBe(0.4);
+  });
+
+  it('should be empty without signals', () => {
+    expect(buildCategoryAffinity({ interestedCategories: [], bookmarkedCategories: [], collectedCategories: [] }).size).toBe(0);
+  });
+});
+
+describe('getRecencyScore', () => {
+  it('should halve every half-life', () => {
+    expect(getRecencyScore(now.toISOString(), now)).toBe(1);
+    expect(getRecencyScore(hoursAgo(FEED_RECENCY_HALF_LIFE_HOURS), now)).toBe(0.5);
+    expect(getRecencyScore(hoursAgo(2 * FEED_RECENCY_HALF_LIFE_HOURS), now)).toBe(0.25);
+  });
+
+  it('should treat future and invalid dates safely', () => {
+    expect(getRecencyScore('2026-03-11T00:00:00.000Z', now)).toBe(1);
+    expect(getRecencyScore('not a date', now)).toBe(0);
+  });
+});
+
+describe('getEngagementScore', () => {
+  it('should grow on a log scale and saturate', () => {
+    expect(getEngagementScore(undefined)).toBe(0);
+    const some = getEngagementScore({ likes: 5 });
+    const more = getEngagementScore({ likes: 5, reactions: { insightful: 3 }, bookmarks: 2 });
+    expect(some).toBeGreaterThan(0);
+    expect(more).toBeGreaterThan(some);
+    expect(getEngagementScore({ likes: 10000 })).toBe(1);
+  });
+});
+
+describe('scoreFeedItem', () => {
+  it('should order signals by contribution', () => {
+    const context: FeedContext = {
+      affinity: buildCategoryAffinity({ interestedCategories: ['Design'], bookmarkedCategories: [], collectedCategories: [] }),
+      followedAuthorIds: new Set(['author-1'])
+    };
+    const scored = scoreFeedItem(candidate({ categories: ['Design'], publishedAt: hoursAgo(200) }), context, now);
+    expect(scored.reason.signals.map(signal => signal.type)).toEqual(['category_affinity', 'followed_author']);
+    expect(scored.reason.summary).toBe("You're interested in Design");
+  });
+
+  it('should describe where an affinity was learned', () => {
+    const context: FeedContext = {
+      affinity: buildCategoryAffinity({ interestedCategories: [], bookmarkedCategories: [['AI']], collectedCategories: [] }),
+      followedAuthorIds: new Set()
+    };
+    expect(scoreFeedItem(candidate({ categories: ['ai'] }), context, now).reason.signals[0].label).toBe('You often bookmark AI');
+  });
+
+  it('should fall back to a generic summary', () => {
+    const scored = scoreFeedItem(candidate({ publishedAt: hoursAgo(500) }), emptyContext, now);
+    expect(scored.reason.signals).toEqual([]);
+    expect(scored.reason.summary).toBe('Recent on Nuggets');
+  });
+});
+
+describe('rankFeed', () => {
+  it('should rank affinity and follows above plain recency', () => {
+    const context: FeedContext = {
+      affinity: buildCategoryAffinity({ interestedCategories: ['Design'], bookmarkedCategories: [], collectedCategories: [] }),
+      followedAuthorIds: new Set(['followed'])
+    };
+    const ranked = rankFeed([
+      candidate({ id: 'fresh', authorId: 'x', publishedAt: hoursAgo(0) }),
+      candidate({ id: 'design', authorId: 'x', categories: ['Design'], publishedAt: hoursAgo(24) }),
+      candidate({ id: 'followed', authorId: 'followed', publishedAt: hoursAgo(12) })
+    ], context, now);
+    expect(ranked.map(item => item.id)).toEqual(['design', 'followed', 'fresh']);
+  });
+
+  it('should break ties by date then id so the order is stable', () => {
+    const items = [
+      candidate({ id: 'b', publishedAt: hoursAgo(500) }),
+      candidate({ id: 'c', publishedAt: hoursAgo(400) }),
+      candidate({ id: 'a', publishedAt: hoursAgo(500) })
+    ];
+    const first = rankFeed(items, emptyContext, now).map(item => item.id);
+    const second = rankFeed([...items].reverse(), emptyContext, now).map(item => item.id);
+    expect(first).toEqual(['c', 'b', 'a']);
+    expect(second).toEqual(first);
+  });
+});
+
+describe('resolveFeedAsOf', () => {
+  it('should accept past timestamps and reject the rest', () => {
+    expect(resolveFeedAsOf('2026-03-09T00:00:00.000Z', now).toISOString()).toBe('2026-03-09T00:00:00.000Z');
+    expect(resolveFeedAsOf('2027-01-01T00:00:00.000Z', now)).toBe(now);
+    expect(resolveFeedAsOf('garbage', now)).toBe(now);
+    expect(resolveFeedAsOf(undefined, now)).toBe(now);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { getFeedWindowStart, getUnreadSince, buildFollowedEntriesStages, FOLLOWING_FEED_WINDOW_DAYS } from '../utils/followingFeed.js';
+
+const now = new Date('2026-03-20T12:00:00.000Z');
+
+describe('getUnreadSince', () => {
+  it('should use the read marker inside the window', () => {
+    expect(getUnreadSince('2026-03-19T08:00:00.000Z', now)).toBe('2026-03-19T08:00:00.000Z');
+  });
+
+  it('should clamp missing or old markers to the window start', () => {
+    const windowStart = getFeedWindowStart(now);
+    expect(new Date(now).getTime() - new Date(windowStart).getTime()).toBe(FOLLOWING_FEED_WINDOW_DAYS * 86400000);
+    expect(getUnreadSince(undefined, now)).toBe(windowStart);
+    expect(getUnreadSince('2025-01-01T00:00:00.000Z', now)).toBe(windowStart);
+  });
+});
+
+describe('buildFollowedEntriesStages', () => {
+  it('should match followed collections and skip own and hidden entries', () => {
+    const stages = buildFollowedEntriesStages('u1', '2026-03-19T00:00:00.000Z', null, 'articles');
+    expect(stages[0]).toEqual({ $match: { followers: 'u1' } });
+    expect(stages[2]).toEqual({
+      $match: {
+        'entries.addedAt': { $gt: '2026-03-19T00:00:00.000Z' },
+        'entries.addedByUserId': { $ne: 'u1' },
+        'entries.reviewStatus': { $ne: 'hidden' }
+      }
+    });
+  });
+
+  it('should apply the visibility filter', () => {
+    const visibility = { $or: [{ type: 'public' }, { creatorId: 'u1' }] };
+    const stages = buildFollowedEntriesStages('u1', '2026-03-19T00:00:00.000Z', visibility, 'articles');
+    expect(stages[0]).toEqual({ $match: { followers: 'u1', $and: [visibility] } });
+  });
+
+  it('should drop entries whose article the user cannot see before paging', () => {
+    const stages = buildFollowedEntriesStages('u1', '2026-03-19T00:00:00.000Z', null, 'articles');
+    const lookup = stages[3].$lookup;
+    expect(lookup.from).toBe('articles');
+    expect(lookup.pipeline[0].$match.$or).toEqual([
+      { visibility: 'public' },
+      { visibility: { $exists: false } },
+      { authorId: 'u1' }
+    ]);
+    expect(stages[4]).toEqual({ $match: { visibleArticle: { $ne: [] } } });
+  });
+});
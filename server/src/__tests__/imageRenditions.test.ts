@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  selectRenditionWidths,
+  getOrientedSize,
+  isProcessableImage,
+  toHexColor,
+  buildSrcSet,
+  buildImageVariant,
+  StoredRendition
+} from '../utils/imageRenditions.js';
+
+const rendition = (width: number, format: 'avif' | 'webp'): StoredRendition => ({
+  publicId: `r/${width}.${format}`,
+  secureUrl: `https://cdn.example.com/r/${width}.${format}`,
+  format,
+  width,
+  height: Math.round(width / 2),
+});
+
+describe('selectRenditionWidths', () => {
+  it('should never upscale and should include the native width', () => {
+    expect(selectRenditionWidths(800)).toEqual([320, 640, 800]);
+    expect(selectRenditionWidths(200)).toEqual([200]);
+    expect(selectRenditionWidths(640)).toEqual([320, 640]);
+  });
+
+  it('should cap large images at the largest rendition width', () => {
+    expect(selectRenditionWidths(4000)).toEqual([320, 640, 960, 1280, 1920]);
+  });
+
+  it('should return nothing for unknown widths', () => {
+    expect(selectRenditionWidths(0)).toEqual([]);
+    expect(selectRenditionWidths(NaN)).toEqual([]);
+  });
+});
+
+describe('getOrientedSize', () => {
+  it('should swap axes for rotated EXIF orientations only', () => {
+    expect(getOrientedSize(4000, 3000, 6)).toEqual({ width: 3000, height: 4000 });
+    expect(getOrientedSize(4000, 3000, 3)).toEqual({ width: 4000, height: 3000 });
+    expect(getOrientedSize(4000, 3000)).toEqual({ width: 4000, height: 3000 });
+  });
+});
+
+describe('isProcessableImage', () => {
+  it('should process still images and leave GIFs alone', () => {
+    expect(isProcessableImage('image/jpeg')).toBe(true);
+    expect(isProcessableImage('image/PNG')).toBe(true);
+    expect(isProcessableImage('image/gif')).toBe(false);
+    expect(isProcessableImage('application/pdf')).toBe(false);
+  });
+});
+
+describe('toHexColor', () => {
+  it('should format and clamp channels', () => {
+    expect(toHexColor({ r: 255, g: 8, b: 0 })).toBe('#ff0800');
+    expect(toHexColor({ r: 300, g: -5, b: 127.6 })).toBe('#ff0080');
+  });
+});
+
+describe('buildSrcSet / buildImageVariant', () => {
+  const renditions = [rendition(640, 'webp'), rendition(320, 'webp'), rendition(320, 'avif')];
+
+  it('should list one format smallest first', () => {
+    expect(buildSrcSet(renditions, 'webp')).toBe(
+      'https://cdn.example.com/r/320.webp 320w, https://cdn.example.com/r/640.webp 640w'
+    );
+  });
+
+  it('should order sources by format preference', () => {
+    const variant = buildImageVariant({
+      width: 640,
+      height: 320,
+      renditions,
+      placeholder: { blurhash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj', dominantColor: '#aabbcc' },
+    });
+    expect(variant?.sources.map(source => source.type)).toEqual(['image/avif', 'image/webp']);
+    expect(variant?.dominantColor).toBe('#aabbcc');
+    expect(variant?.width).toBe(640);
+  });
+
+  it('should return null for unprocessed media', () => {
+    expect(buildImageVariant({ width: 100, height: 100 })).toBeNull();
+  });
+});
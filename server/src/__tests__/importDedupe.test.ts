@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeImportUrl, checkImportUrls } from '../utils/importDedupe.js';
+
+describe('normalizeImportUrl', () => {
+  it('should ignore scheme, www, fragment, trailing slash and default port', () => {
+    const key = 'example.com/blog/post';
+    expect(normalizeImportUrl('https://example.com/blog/post')).toBe(key);
+    expect(normalizeImportUrl('http://www.Example.com/blog/post/')).toBe(key);
+    expect(normalizeImportUrl('https://example.com:443/blog/post#comments')).toBe(key);
+  });
+
+  it('should drop tracking parameters and sort the rest', () => {
+    expect(normalizeImportUrl('https://example.com/a?utm_source=x&b=2&fbclid=y&a=1'))
+      .toBe('example.com/a?a=1&b=2');
+  });
+
+  it('should keep paths case-sensitive and non-default ports', () => {
+    expect(normalizeImportUrl('https://example.com/A')).not.toBe(normalizeImportUrl('https://example.com/a'));
+    expect(normalizeImportUrl('http://localhost:8080/')).toBe('localhost:8080');
+  });
+
+  it('should reject non-http URLs and garbage', () => {
+    expect(normalizeImportUrl('javascript:alert(1)')).toBeNull();
+    expect(normalizeImportUrl('place:sort=8')).toBeNull();
+    expect(normalizeImportUrl('not a url')).toBeNull();
+  });
+});
+
+describe('checkImportUrls', () => {
+  it('should flag repeats within the import against the first occurrence', () => {
+    const results = checkImportUrls(
+      ['https://a.com/x', 'https://b.com', 'http://www.a.com/x/?utm_medium=email'],
+      []
+    );
+    expect(results.map(r => r.status)).toEqual(['new', 'new', 'duplicate_in_import']);
+    expect(results[2].duplicateOfIndex).toBe(0);
+  });
+
+  it('should flag URLs the user already has as nuggets', () => {
+    const results = checkImportUrls(
+      ['https://a.com/x', 'https://a.com/x', 'https://c.com'],
+      [{ url: 'http://a.com/x/', articleId: 'n1' }]
+    );
+    expect(results[0]).toMatchObject({ status: 'duplicate_existing', articleId: 'n1' });
+    expect(results[1]).toMatchObject({ status: 'duplicate_existing', articleId: 'n1' });
+    expect(results[2].status).toBe('new');
+  });
+
+  it('should report invalid URLs', () => {
+    expect(checkImportUrls(['ftp://files.example.com'], [])[0]).toEqual({
+      url: 'ftp://files.example.com',
+      normalizedUrl: null,
+      status: 'invalid'
+    });
+  });
+});
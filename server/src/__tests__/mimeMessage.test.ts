@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { buildMimeMessage, encodeHeaderValue, extractAddress } from '../utils/mimeMessage.js';
+
+describe('extractAddress', () => {
+  it('should read addresses with and without display names', () => {
+    expect(extractAddress('Nuggets <no-reply@nuggets.local>')).toBe('no-reply@nuggets.local');
+    expect(extractAddress('user@example.com')).toBe('user@example.com');
+  });
+});
+
+describe('encodeHeaderValue', () => {
+  it('should leave ASCII alone and encode everything else', () => {
+    expect(encodeHeaderValue('Hello')).toBe('Hello');
+    expect(encodeHeaderValue('Café')).toBe(`=?UTF-8?B?${Buffer.from('Café').toString('base64')}?=`);
+  });
+
+  it('should strip line breaks to prevent header injection', () => {
+    expect(encodeHeaderValue('a\r\nBcc: x@example.com')).toBe('a Bcc: x@example.com');
+  });
+});
+
+describe('buildMimeMessage', () => {
+  const base = { from: 'Nuggets <no-reply@nuggets.local>', to: 'user@example.com', subject: 'Hi', text: 'Plain' };
+
+  it('should send text-only messages as text/plain', () => {
+    const message = buildMimeMessage(base);
+    expect(message).toContain('Content-Type: text/plain; charset=UTF-8');
+    expect(message).not.toContain('multipart');
+  });
+
+  it('should build multipart/alternative with extra headers', () => {
+    const message = buildMimeMessage({ ...base, html: '<p>Hi</p>', headers: { 'List-Unsubscribe': '<https://x/u>' } });
+    expect(message).toContain('multipart/alternative');
+    expect(message).toContain('List-Unsubscribe: <https://x/u>');
+    expect(message).toContain(Buffer.from('<p>Hi</p>').toString('base64'));
+    expect(message.split('\r\n').some(line => line.startsWith('.'))).toBe(false);
+  });
+});
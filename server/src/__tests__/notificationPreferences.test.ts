@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { isNotificationEnabled, NOTIFICATION_TYPES, NOTIFICATION_PREFERENCE_BY_TYPE } from '../utils/notificationPreferences.js';
+
+describe('isNotificationEnabled', () => {
+  it('should treat missing preferences as enabled', () => {
+    expect(isNotificationEnabled('collection_follower', undefined)).toBe(true);
+    expect(isNotificationEnabled('report_resolved', { newFollowers: false })).toBe(true);
+  });
+
+  it('should honour the switch for the type', () => {
+    expect(isNotificationEnabled('collection_follower', { newFollowers: false })).toBe(false);
+    expect(isNotificationEnabled('collection_invitation', { collectionActivity: false })).toBe(false);
+    expect(isNotificationEnabled('feedback_reviewed', { feedbackUpdates: true })).toBe(true);
+  });
+
+  it('should map every type to a preference', () => {
+    for (const type of NOTIFICATION_TYPES) {
+      expect(NOTIFICATION_PREFERENCE_BY_TYPE[type]).toBeTruthy();
+    }
+  });
+});
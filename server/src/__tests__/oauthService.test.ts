@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { exchangeCodeForProfile, OAuthError, OAuthProviderConfig } from '../services/oauthService.js';
+
+/**
+ * Runs the code exchange against a local mock identity provider
+ */
+describe('oauthService.exchangeCodeForProfile', () => {
+  let server: http.Server;
+  let config: OAuthProviderConfig;
+  let lastTokenRequest: URLSearchParams | null = null;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/token' && req.method === 'POST') {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          lastTokenRequest = new URLSearchParams(body);
+          if (lastTokenRequest.get('code') !== 'valid-code') {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'invalid_grant' }));
+            return;
+          }
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ access_token: 'mock-access-token', token_type: 'Bearer' }));
+        });
+        return;
+      }
+      if (req.url === '/userinfo' && req.headers.authorization === 'Bearer mock-access-token') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          sub: 'mock-user-1',
+          email: 'Jane@Example.com',
+          email_verified: true,
+          name: 'Jane Doe'
+        }));
+        return;
+      }
+      res.writeHead(401);
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const base = `http://127.0.0.1:${port}`;
+    config = {
+      provider: 'google',
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      authUrl: `${base}/authorize`,
+      tokenUrl: `${base}/token`,
+      userInfoUrl: `${base}/userinfo`,
+      scope: 'openid email profile'
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('should return the normalized provider profile', async () => {
+    const profile = await exchangeCodeForProfile(config, 'valid-code', 'verifier', 'http://localhost:3000/auth/callback/google');
+    expect(profile).toEqual({
+      providerUserId: 'mock-user-1',
+      email: 'jane@example.com',
+      emailVerified: true,
+      name: 'Jane Doe',
+      avatarUrl: undefined
+    });
+    expect(lastTokenRequest?.get('code_verifier')).toBe('verifier');
+    expect(lastTokenRequest?.get('redirect_uri')).toBe('http://localhost:3000/auth/callback/google');
+  });
+
+  it('should reject codes the provider does not accept', async () => {
+    await expect(
+      exchangeCodeForProfile(config, 'bad-code', 'verifier', 'http://localhost:3000/auth/callback/google')
+    ).rejects.toBeInstanceOf(OAuthError);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import mongoose from 'mongoose';
+import { Article } from '../models/Article.js';
+import { Reaction } from '../models/Reaction.js';
+import { addReaction, removeReaction, getViewerReactions } from '../services/reactionService.js';
+
+describe('Reaction Service Integration Tests', () => {
+  let articleId: string;
+
+  beforeAll(async () => {
+    const mongoUri = process.env.MONGODB_URI || 'mongodb://localhost:27017/test';
+    await mongoose.connect(mongoUri);
+  });
+
+  beforeEach(async () => {
+    await Reaction.deleteMany({});
+    const article = await Article.create({
+      title: 'Reaction test',
+      content: 'Body',
+      authorId: 'author-1',
+      authorName: 'Author',
+      category: 'General',
+      publishedAt: new Date().toISOString()
+    });
+    articleId = article._id.toString();
+  });
+
+  afterEach(async () => {
+    await Reaction.deleteMany({});
+    await Article.deleteMany({ _id: articleId });
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.close();
+  });
+
+  it('should count a repeated like once', async () => {
+    await addReaction('user-1', articleId, 'like');
+    const engagement = await addReaction('user-1', articleId, 'like');
+
+    expect(engagement?.likes).toBe(1);
+    expect(await Reaction.countDocuments({ articleId })).toBe(1);
+  });
+
+  it('should count concurrent likes from the same user once', async () => {
+    await Promise.all([
+      addReaction('user-1', articleId, 'like'),
+      addReaction('user-1', articleId, 'like'),
+      addReaction('user-1', articleId, 'like')
+    ]);
+
+    const article = await Article.findById(articleId).lean();
+    expect(article?.engagement?.likes).toBe(1);
+  });
+
+  it('should keep counters per reaction type', async () => {
+    await addReaction('user-1', articleId, 'like');
+    await addReaction('user-1', articleId, 'insightful');
+    const engagement = await addReaction('user-2', articleId, 'insightful');
+
+    expect(engagement?.likes).toBe(1);
+    expect(engagement?.reactions?.insightful).toBe(2);
+
+    const viewer = await getViewerReactions('user-1', [articleId]);
+    expect(viewer.get(articleId)?.sort()).toEqual(['insightful', 'like']);
+  });
+
+  it('should treat removing a missing reaction as a no-op', async () => {
+    await addReaction('user-1', articleId, 'like');
+    await removeReaction('user-2', articleId, 'like');
+    let engagement = await removeReaction('user-1', articleId, 'like');
+    expect(engagement?.likes).toBe(0);
+
+    engagement = await removeReaction('user-1', articleId, 'like');
+    expect(engagement?.likes).toBe(0);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { parseSearchQuery, buildTextSearch, buildSearchHighlight } from '../utils/searchQuery.js';
+
+describe('parseSearchQuery', () => {
+  it('should split terms, phrases and exclusions', () => {
+    const parsed = parseSearchQuery('react "server components" -angular -"class components"');
+    expect(parsed.terms).toEqual(['react']);
+    expect(parsed.phrases).toEqual(['server components']);
+    expect(parsed.excludedTerms).toEqual(['angular']);
+    expect(parsed.excludedPhrases).toEqual(['class components']);
+  });
+
+  it('should extract operators, including quoted values', () => {
+    const parsed = parseSearchQuery('tag:"machine learning" author:@jane source:YouTube.com hooks');
+    expect(parsed.tags).toEqual(['machine learning']);
+    expect(parsed.authors).toEqual(['jane']);
+    expect(parsed.sources).toEqual(['youtube.com']);
+    expect(parsed.terms).toEqual(['hooks']);
+  });
+
+  it('should treat unknown prefixes as plain terms', () => {
+    const parsed = parseSearchQuery('https://example.com note:draft');
+    expect(parsed.terms).toEqual(['https://example.com', 'note:draft']);
+  });
+
+  it('should drop stray quotes from terms', () => {
+    expect(parseSearchQuery('foo"bar').terms).toEqual(['foobar']);
+  });
+});
+
+describe('buildTextSearch', () => {
+  it('should build a MongoDB $search string', () => {
+    const parsed = parseSearchQuery('react "server components" -angular');
+    expect(buildTextSearch(parsed)).toBe('react "server components" -angular');
+  });
+
+  it('should return an empty string when only exclusions or operators are given', () => {
+    expect(buildTextSearch(parseSearchQuery('-angular tag:react'))).toBe('');
+  });
+});
+
+describe('buildSearchHighlight', () => {
+  it('should return match ranges within the snippet', () => {
+    const highlight = buildSearchHighlight(
+      { title: 'Hooks', content: 'Learn how **React** hooks work' },
+      parseSearchQuery('react')
+    );
+    expect(highlight?.field).toBe('content');
+    const [start, end] = highlight!.ranges[0];
+    expect(highlight!.text.slice(start, end)).toBe('React');
+  });
+
+  it('should center long content around the first match', () => {
+    const content = `${'lorem ipsum '.repeat(50)}the needle is here ${'dolor sit '.repeat(50)}`;
+    const highlight = buildSearchHighlight({ content }, parseSearchQuery('needle'));
+    expect(highlight!.text.startsWith('…')).toBe(true);
+    expect(highlight!.text.endsWith('…')).toBe(true);
+    const [start, end] = highlight!.ranges[0];
+    expect(highlight!.text.slice(start, end)).toBe('needle');
+  });
+
+  it('should fall back to the title', () => {
+    const highlight = buildSearchHighlight({ title: 'Needle in a haystack', content: 'nothing' }, parseSearchQuery('needle'));
+    expect(highlight?.field).toBe('title');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpCode,
+  verifyTotpCode,
+  getTimeStep,
+  generateRecoveryCodes,
+  normalizeRecoveryCode
+} from '../utils/totp.js';
+
+// RFC 6238 appendix B test secret ("12345678901234567890")
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  it('should round-trip base32', () => {
+    const buffer = Buffer.from('12345678901234567890');
+    expect(base32Encode(buffer)).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET).equals(buffer)).toBe(true);
+  });
+
+  it('should match the RFC 6238 SHA1 test vectors', () => {
+    expect(generateTotpCode(RFC_SECRET, getTimeStep(59 * 1000))).toBe('287082');
+    expect(generateTotpCode(RFC_SECRET, getTimeStep(1111111109 * 1000))).toBe('081804');
+  });
+
+  it('should accept codes from adjacent steps for clock drift', () => {
+    const now = 1111111109 * 1000;
+    const previousCode = generateTotpCode(RFC_SECRET, getTimeStep(now) - 1);
+    expect(verifyTotpCode(RFC_SECRET, previousCode, undefined, now)).toBe(getTimeStep(now) - 1);
+
+    const staleCode = generateTotpCode(RFC_SECRET, getTimeStep(now) - 3);
+    expect(verifyTotpCode(RFC_SECRET, staleCode, undefined, now)).toBeNull();
+  });
+
+  it('should reject a code whose step was already used', () => {
+    const now = 1111111109 * 1000;
+    const code = generateTotpCode(RFC_SECRET, getTimeStep(now));
+    const step = verifyTotpCode(RFC_SECRET, code, undefined, now);
+    expect(step).not.toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, code, step!, now)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    expect(verifyTotpCode(RFC_SECRET, '12345')).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, 'abcdef')).toBeNull();
+  });
+
+  it('should normalize recovery codes as typed by users', () => {
+    const [code] = generateRecoveryCodes(1);
+    expect(code).toMatch(/^[a-f0-9]{5}-[a-f0-9]{5}$/);
+    expect(normalizeRecoveryCode(` ${code.toUpperCase().replace('-', ' ')} `)).toBe(code.replace('-', ''));
+  });
+});
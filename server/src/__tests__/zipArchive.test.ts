@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { createZipArchive, readZipArchive, ZipFormatError } from '../utils/zipArchive.js';
+
+describe('zipArchive', () => {
+  it('should round-trip stored and deflated entries with UTF-8 names', () => {
+    const repetitive = 'nugget '.repeat(500);
+    const archive = createZipArchive([
+      { name: 'a.txt', data: 'x' },
+      { name: 'nuggets/ünïcode-note.md', data: repetitive },
+      { name: 'bin.dat', data: Buffer.from([0, 1, 2, 255]) }
+    ]);
+
+    const files = readZipArchive(archive);
+    expect(Array.from(files.keys())).toEqual(['a.txt', 'nuggets/ünïcode-note.md', 'bin.dat']);
+    expect(files.get('a.txt')?.toString('utf8')).toBe('x');
+    expect(files.get('nuggets/ünïcode-note.md')?.toString('utf8')).toBe(repetitive);
+    expect(Array.from(files.get('bin.dat') || [])).toEqual([0, 1, 2, 255]);
+    expect(archive.length).toBeLessThan(repetitive.length);
+  });
+
+  it('should enforce entry and size limits', () => {
+    const archive = createZipArchive([
+      { name: 'a.txt', data: 'a'.repeat(100) },
+      { name: 'b.txt', data: 'b'.repeat(100) }
+    ]);
+    expect(() => readZipArchive(archive, { maxEntries: 1, maxTotalBytes: 1000 })).toThrow('Too many entries');
+    expect(() => readZipArchive(archive, { maxEntries: 10, maxTotalBytes: 150 })).toThrow('too large');
+  });
+
+  it('should reject data that is not a ZIP archive', () => {
+    expect(() => readZipArchive(Buffer.from('definitely not a zip file'))).toThrow(ZipFormatError);
+  });
+
+  it('should detect corrupted entry data', () => {
+    const archive = createZipArchive([{ name: 'a.txt', data: 'abcdef' }]);
+    // Stored entry: data starts after the 30-byte local header and the name
+    archive[30 + 'a.txt'.length] ^= 0xff;
+    expect(() => readZipArchive(archive)).toThrow('Checksum mismatch');
+  });
+});
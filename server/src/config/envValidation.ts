@@ -22,6 +22,19 @@ const envSchema = z.object({
     message: 'PORT must be a number between 1 and 65535'
   }),
   
+  // Session lifetimes
+  // Access tokens are short-lived JWTs; refresh tokens rotate on every use
+  ACCESS_TOKEN_TTL: z.string().optional().default('15m'),
+  REFRESH_TOKEN_TTL_DAYS: z.string().optional().default('30').refine((val) => {
+    const days = parseInt(val, 10);
+    return !isNaN(days) && days >= 1;
+  }, {
+    message: 'REFRESH_TOKEN_TTL_DAYS must be a positive number of days'
+  }),
+  
+  // Key for encrypting stored MFA secrets (falls back to a key derived from JWT_SECRET)
+  MFA_ENCRYPTION_KEY: z.string().min(32, 'MFA_ENCRYPTION_KEY must be at least 32 characters long').optional(),
+  
   // Optional variables with validation
   FRONTEND_URL: z.string().url('FRONTEND_URL must be a valid URL').optional(),
   
@@ -36,6 +49,63 @@ const envSchema = z.object({
   CLOUDINARY_CLOUD_NAME: z.string().min(1, 'CLOUDINARY_CLOUD_NAME is required').optional(),
   CLOUDINARY_API_KEY: z.string().min(1, 'CLOUDINARY_API_KEY is required').optional(),
   CLOUDINARY_API_SECRET: z.string().min(1, 'CLOUDINARY_API_SECRET is required').optional(),
+
+  // Media storage
+  // STORAGE_PROVIDER picks where new uploads go; when unset the first configured of
+  // cloudinary, s3 and local wins. Local disk needs no credentials.
+  STORAGE_PROVIDER: z.enum(['cloudinary', 'local', 's3']).optional(),
+  STORAGE_LOCAL_DIR: z.string().optional(),
+  STORAGE_SIGNING_SECRET: z.string().min(32, 'STORAGE_SIGNING_SECRET must be at least 32 characters long').optional(),
+  STORAGE_PUBLIC_BASE_URL: z.string().url('STORAGE_PUBLIC_BASE_URL must be a valid URL').optional(),
+  S3_ENDPOINT: z.string().url('S3_ENDPOINT must be a valid URL').optional(),
+  S3_REGION: z.string().min(1).optional().default('us-east-1'),
+  S3_BUCKET: z.string().min(1).optional(),
+  S3_ACCESS_KEY_ID: z.string().min(1).optional(),
+  S3_SECRET_ACCESS_KEY: z.string().min(1).optional(),
+  S3_PUBLIC_URL: z.string().url('S3_PUBLIC_URL must be a valid URL').optional(),
+  S3_FORCE_PATH_STYLE: z.enum(['true', 'false']).optional().default('false').transform((val) => val === 'true'),
+
+  // Outbound mail (password reset, verification, etc.)
+  // 'console' logs messages, 'file' writes them to MAIL_FILE_DIR for local inspection,
+  // 'smtp' delivers through SMTP_HOST
+  MAIL_TRANSPORT: z.enum(['console', 'file', 'smtp']).optional().default('console'),
+  MAIL_FROM: z.string().min(1).optional().default('Nuggets <no-reply@nuggets.local>'),
+  MAIL_FILE_DIR: z.string().optional(),
+  SMTP_HOST: z.string().min(1).optional(),
+  SMTP_PORT: z.string().optional().default('587').refine((val) => {
+    const portNum = parseInt(val, 10);
+    return !isNaN(portNum) && portNum >= 1 && portNum <= 65535;
+  }, {
+    message: 'SMTP_PORT must be a number between 1 and 65535'
+  }),
+  SMTP_SECURE: z.enum(['true', 'false']).optional().default('false').transform((val) => val === 'true'),
+  SMTP_USER: z.string().min(1).optional(),
+  SMTP_PASSWORD: z.string().min(1).optional(),
+  // Allow SMTP_USER/SMTP_PASSWORD over a connection without TLS (local test relays only)
+  SMTP_ALLOW_INSECURE_AUTH: z.enum(['true', 'false']).optional().default('false').transform((val) => val === 'true'),
+
+  // Email digest of new nuggets for users with notifications.emailDigest on
+  // Off by default: enable it once MAIL_TRANSPORT delivers mail, since each pass marks digests as sent
+  DIGEST_ENABLED: z.enum(['true', 'false']).optional().default('false').transform((val) => val === 'true'),
+  DIGEST_INTERVAL_HOURS: z.string().optional().default('24').refine((val) => {
+    const hours = parseInt(val, 10);
+    return !isNaN(hours) && hours >= 1;
+  }, {
+    message: 'DIGEST_INTERVAL_HOURS must be a positive number of hours'
+  }),
+
+  // OAuth providers (a provider is enabled when its client ID and secret are set)
+  // Endpoint URLs default to the real providers; override them to point at a mock IdP
+  GOOGLE_CLIENT_ID: z.string().min(1).optional(),
+  GOOGLE_CLIENT_SECRET: z.string().min(1).optional(),
+  GOOGLE_AUTH_URL: z.string().url().optional().default('https://accounts.google.com/o/oauth2/v2/auth'),
+  GOOGLE_TOKEN_URL: z.string().url().optional().default('https://oauth2.googleapis.com/token'),
+  GOOGLE_USERINFO_URL: z.string().url().optional().default('https://openidconnect.googleapis.com/v1/userinfo'),
+  LINKEDIN_CLIENT_ID: z.string().min(1).optional(),
+  LINKEDIN_CLIENT_SECRET: z.string().min(1).optional(),
+  LINKEDIN_AUTH_URL: z.string().url().optional().default('https://www.linkedin.com/oauth/v2/authorization'),
+  LINKEDIN_TOKEN_URL: z.string().url().optional().default('https://www.linkedin.com/oauth/v2/accessToken'),
+  LINKEDIN_USERINFO_URL: z.string().url().optional().default('https://api.linkedin.com/v2/userinfo'),
 });
 
 /**
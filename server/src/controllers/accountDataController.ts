@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import { createRequestLogger } from '../utils/logger.js';
+import { captureException } from '../utils/sentry.js';
+import { AccountExportFormatError } from '../utils/accountDataFormat.js';
+import { ZipFormatError } from '../utils/zipArchive.js';
+import {
+  getAccountDataJob as getJob,
+  hasPendingAccountDataJob,
+  listAccountDataJobs as listJobs,
+  openAccountExportDownload,
+  requestAccountExport as requestExport,
+  requestAccountImport as requestImport
+} from '../services/accountDataService.js';
+
+/**
+ * POST /api/account-data/exports
+ *
+ * Queue a ZIP export of everything the user owns: profile, nuggets (JSON
+ * and Markdown), collections, bookmarks and the uploaded-media manifest.
+ * A pending export is returned instead of queueing another.
+ *
+ * Returns (202): the export job; poll it until `downloadUrl` is set
+ */
+export const requestAccountExport = async (req: Request, res: Response) => {
+  try {
+    const job = await requestExport((req as any).user?.userId);
+    res.status(202).json(job);
+  } catch (error: any) {
+    handleAccountDataError(req, res, error, '[AccountData] Request export error');
+  }
+};
+
+/**
+ * POST /api/account-data/imports
+ *
+ * Restore an export ZIP (from this or another instance) into the user's
+ * account. The body is the ZIP itself (Content-Type: application/zip); it is
+ * checked right away and imported in the background.
+ *
+ * Returns (202): the import job
+ */
+export const requestAccountImport = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ message: 'Upload an export ZIP file (Content-Type: application/zip)' });
+    }
+    if (await hasPendingAccountDataJob(userId, 'import')) {
+      return res.status(409).json({ message: 'An import is already in progress', code: 'IMPORT_IN_PROGRESS' });
+    }
+
+    const job = await requestImport(userId, req.body, `import-${new Date().toISOString().slice(0, 10)}.zip`);
+    res.status(202).json(job);
+  } catch (error: any) {
+    if (error instanceof ZipFormatError || error instanceof AccountExportFormatError) {
+      return res.status(400).json({ message: `Not a valid account export: ${error.message}`, code: 'INVALID_EXPORT' });
+    }
+    handleAccountDataError(req, res, error, '[AccountData] Request import error');
+  }
+};
+
+/**
+ * GET /api/account-data/jobs
+ *
+ * The user's recent exports and imports (newest first)
+ */
+export const listAccountDataJobs = async (req: Request, res: Response) => {
+  try {
+    const jobs = await listJobs((req as any).user?.userId);
+    res.json({ data: jobs });
+  } catch (error: any) {
+    handleAccountDataError(req, res, error, '[AccountData] List jobs error');
+  }
+};
+
+/**
+ * GET /api/account-data/jobs/:id
+ *
+ * One job, for polling
+ */
+export const getAccountDataJob = async (req: Request, res: Response) => {
+  try {
+    const job = await getJob(req.params.id as string, (req as any).user?.userId);
+    if (!job) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+    res.json(job);
+  } catch (error: any) {
+    handleAccountDataError(req, res, error, '[AccountData] Get job error');
+  }
+};
+
+/**
+ * GET /api/account-data/exports/:id/download?token=...
+ *
+ * Public: the token is a short-lived signature issued with the job, so the
+ * link works as a plain browser download.
+ */
+export const downloadAccountExport = async (req: Request, res: Response) => {
+  try {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    const download = await openAccountExportDownload(req.params.id as string, token);
+    if (!download) {
+      return res.status(404).json({ message: 'Export not found or link expired' });
+    }
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${download.fileName}"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    if (download.fileSize !== undefined) {
+      res.setHeader('Content-Length', String(download.fileSize));
+    }
+
+    download.stream.once('error', (error: Error) => {
+      if (!res.headersSent) {
+        handleAccountDataError(req, res, error, '[AccountData] Download error');
+      } else {
+        res.destroy(error);
+      }
+    });
+    download.stream.pipe(res);
+  } catch (error: any) {
+    handleAccountDataError(req, res, error, '[AccountData] Download error');
+  }
+};
+
+function handleAccountDataError(req: Request, res: Response, error: any, msg: string) {
+  const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
+  requestLogger.error({
+    msg,
+    error: {
+      message: error.message,
+      stack: error.stack,
+    },
+  });
+  captureException(error instanceof Error ? error : new Error(String(error)), { requestId: req.id, route: req.path });
+  res.status(500).json({ message: 'Internal server error' });
+}
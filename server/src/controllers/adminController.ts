@@ -4,7 +4,50 @@ import { Article } from '../models/Article.js';
 import { Report } from '../models/Report.js';
 import { Feedback } from '../models/Feedback.js';
 import { LRUCache } from '../utils/lruCache.js';
+import { createRequestLogger } from '../utils/logger.js';
 import { buildModerationQuery, getModerationStats } from '../services/moderationService.js';
+import { getPlatformSettings, updatePlatformSettings } from '../services/platformSettingsService.js';
+import { disableMfa } from '../services/mfaService.js';
+import { revokeAllSessions } from '../services/sessionService.js';
+import { streamAdminExport } from '../services/adminExportService.js';
+import { sendValidationError, sendInternalError, sendConflictError, sendNotFoundError } from '../utils/errorResponse.js';
+import {
+  ADMIN_EXPORT_CONTENT_TYPES,
+  formatExportHeader,
+  formatExportRecord,
+  getExportFileName,
+  normalizeExportColumns
+} from '../utils/adminExport.js';
+import { z } from 'zod';
+
+const updateSettingsSchema = z.object({
+  unverifiedAccountPolicy: z.object({
+    canCreatePublicNuggets: z.boolean().optional(),
+    canCreatePublicCollections: z.boolean().optional()
+  }).strict().optional(),
+  mfaPolicy: z.object({
+    requireForAdmins: z.boolean().optional()
+  }).strict().optional(),
+  collectionFlagPolicy: z.object({
+    threshold: z.number().int().min(1).max(100).optional(),
+    action: z.enum(['hide', 'queue']).optional()
+  }).strict().optional()
+}).strict();
+
+const exportDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').refine(
+  value => !isNaN(Date.parse(value)),
+  { message: 'Invalid date' }
+);
+
+const adminExportQuerySchema = z.object({
+  entity: z.enum(['users', 'nuggets']),
+  format: z.enum(['csv', 'ndjson']).default('csv'),
+  columns: z.string().min(1, 'Select at least one column'), // Comma-separated
+  from: exportDateSchema.optional(),
+  to: exportDateSchema.optional(),
+  role: z.enum(['admin', 'user']).optional(),
+  visibility: z.enum(['public', 'private']).optional()
+});
 
 // Short-lived cache to avoid hammering the database
 // Cache up to 10 entries for 2 minutes each
@@ -156,4 +199,177 @@ export async function getAdminStats(req: Request, res: Response) {
   return res.json(response);
 }
 
+/**
+ * GET /api/admin/settings
+ * Admin-configurable platform policies
+ */
+export async function getSettings(req: Request, res: Response) {
+  try {
+    const settings = await getPlatformSettings();
+    return res.json(settings);
+  } catch (error: any) {
+    console.error('[Admin] Get settings error:', error);
+    sendInternalError(res);
+  }
+}
+
+/**
+ * PATCH /api/admin/settings
+ * Partially update platform policies
+ */
+export async function updateSettings(req: Request, res: Response) {
+  try {
+    const validationResult = updateSettingsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return sendValidationError(res, 'Invalid settings', validationResult.error.issues.map(err => ({
+        path: err.path.map(String),
+        message: err.message,
+        code: err.code
+      })));
+    }
+
+    const adminId = (req as any).userId || (req as any).user?.userId;
+
+    // Enabling the admin MFA requirement without MFA would lock this admin out immediately
+    if (validationResult.data.mfaPolicy?.requireForAdmins) {
+      const admin = await User.findById(adminId).select('security.mfaEnabled').lean();
+      if (!admin?.security?.mfaEnabled) {
+        return sendConflictError(
+          res,
+          'Enable two-factor authentication on your own account before requiring it for admins',
+          'MFA_NOT_ENABLED'
+        );
+      }
+    }
+
+    const settings = await updatePlatformSettings(validationResult.data, adminId);
+    return res.json(settings);
+  } catch (error: any) {
+    console.error('[Admin] Update settings error:', error);
+    sendInternalError(res);
+  }
+}
+
+/**
+ * POST /api/admin/users/:id/mfa/reset
+ * Turn off a user's two-factor authentication (e.g. lost device without recovery codes)
+ * Signs the user out everywhere so the next login starts fresh.
+ */
+export async function resetUserMfa(req: Request, res: Response) {
+  try {
+    const userId = String(req.params.id);
+    if (!/^[a-f0-9]{24}$/.test(userId)) {
+      return sendNotFoundError(res, 'User not found');
+    }
+
+    const user = await User.findById(userId).select('security.mfaEnabled');
+    if (!user) {
+      return sendNotFoundError(res, 'User not found');
+    }
+
+    await disableMfa(userId);
+    await revokeAllSessions(userId, 'admin');
 
+    // Audit trail: security-relevant admin action
+    createRequestLogger(req.id || 'unknown', (req as any).userId, req.path).info({
+      msg: '[Admin] MFA reset',
+      targetUserId: userId,
+      wasEnabled: user.security.mfaEnabled
+    });
+    return res.json({ message: 'Two-factor authentication has been reset', mfaEnabled: false });
+  } catch (error: any) {
+    console.error('[Admin] Reset MFA error:', error);
+    sendInternalError(res);
+  }
+}
+
+/**
+ * GET /api/admin/exports?entity=users|nuggets&columns=id,email&format=csv|ndjson
+ *   &from=YYYY-MM-DD&to=YYYY-MM-DD&role=admin|user&visibility=public|private
+ * Stream users or nuggets as CSV or NDJSON. Dates are inclusive UTC days
+ * (users by join date, nuggets by publication date); role applies to users
+ * and visibility to nuggets.
+ */
+export async function exportAdminData(req: Request, res: Response) {
+  const validationResult = adminExportQuerySchema.safeParse(req.query);
+  if (!validationResult.success) {
+    return sendValidationError(res, 'Invalid export', validationResult.error.issues.map(err => ({
+      path: err.path.map(String),
+      message: err.message,
+      code: err.code
+    })));
+  }
+
+  const { entity, format, from, to, role, visibility } = validationResult.data;
+  const columns = normalizeExportColumns(entity, validationResult.data.columns.split(','));
+  if (columns.length === 0) {
+    return sendValidationError(res, 'Invalid export', [{ path: ['columns'], message: `No known ${entity} columns selected` }]);
+  }
+
+  const filters = {
+    ...(from && { from: new Date(`${from}T00:00:00.000Z`) }),
+    ...(to && { to: new Date(`${to}T23:59:59.999Z`) }),
+    ...(entity === 'users' && role && { role }),
+    ...(entity === 'nuggets' && visibility && { visibility })
+  };
+
+  // Stop reading from the database when the admin cancels the download
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) abort.abort();
+  });
+  const waitForDrain = () => new Promise<void>(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.once('drain', done);
+    res.once('close', done);
+  });
+
+  const requestLogger = createRequestLogger(req.id || 'unknown', (req as any).userId, req.path);
+  let rows = 0;
+  try {
+    res.status(200);
+    res.setHeader('Content-Type', ADMIN_EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${getExportFileName(entity, format)}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.write(formatExportHeader(columns, format));
+
+    for await (const record of streamAdminExport(entity, columns, filters, abort.signal)) {
+      if (!res.write(formatExportRecord(record, columns, format))) {
+        await waitForDrain();
+      }
+      rows++;
+    }
+    res.end();
+
+    // Audit trail: bulk export of user data
+    requestLogger.info({
+      msg: '[Admin] Data export',
+      entity,
+      format,
+      columns,
+      filters: { from, to, role, visibility },
+      rows,
+      completed: !abort.signal.aborted
+    });
+  } catch (error: any) {
+    requestLogger.error({
+      msg: '[Admin] Data export error',
+      entity,
+      rows,
+      error: {
+        message: error.message,
+        stack: error.stack,
+      },
+    });
+    if (!res.headersSent) {
+      sendInternalError(res);
+    } else {
+      // Too late for an error status: abort so the download fails instead of looking complete
+      res.destroy(error);
+    }
+  }
+}
@@ -1,13 +1,33 @@
 import { Request, Response } from 'express';
 import { Article } from '../models/Article.js';
-import { Tag } from '../models/Tag.js';
+import { User } from '../models/User.js';
 import { normalizeDoc, normalizeDocs } from '../utils/db.js';
 import { createArticleSchema, updateArticleSchema } from '../utils/validation.js';
 import { cleanupCollectionEntries } from '../utils/collectionHelpers.js';
+import { resolveCategoryIds } from '../utils/tagUsageHelpers.js';
 import { escapeRegExp, createSearchRegex, createExactMatchRegex } from '../utils/escapeRegExp.js';
-import { verifyToken } from '../utils/jwt.js';
+import {
+  parseSearchQuery,
+  buildTextSearch,
+  buildSearchHighlight,
+  ParsedSearchQuery
+} from '../utils/searchQuery.js';
+import {
+  FeedCursor,
+  decodeFeedCursor,
+  encodeFeedCursor,
+  buildKeysetCondition,
+  isKeysetSort,
+  InvalidCursorError
+} from '../utils/feedCursor.js';
+import { getOptionalViewer } from '../middleware/authenticateToken.js';
+import { getFolloweeIds } from '../services/userFollowService.js';
 import { createRequestLogger } from '../utils/logger.js';
 import { captureException } from '../utils/sentry.js';
+import { isAllowedForUnverified } from '../services/platformSettingsService.js';
+import { getViewerReactions, deleteReactionsForArticle } from '../services/reactionService.js';
+import { attachImageVariants } from '../services/mediaVariantService.js';
+import { Comment } from '../models/Comment.js';
 import {
   sendErrorResponse,
   sendValidationError,
@@ -19,65 +39,55 @@ import {
 } from '../utils/errorResponse.js';
 
 /**
- * Optionally extract user from token (for privacy filtering)
- * Returns userId if token is present and valid, otherwise undefined
- * Does not throw errors - silently fails if token is missing/invalid
+ * Filters for a parsed search query (everything except the $text clause itself)
+ *
+ * @param usesTextIndex - false when the query only has exclusions/operators; exclusions
+ *                        are then applied with regexes since $text needs a positive term
  */
-function getOptionalUserId(req: Request): string | undefined {
-  // First check if middleware already set req.user
-  if ((req as any).user?.userId) {
-    return (req as any).user.userId;
-  }
-  
-  // Try to extract from Authorization header
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
-  
-  if (!token) {
-    return undefined;
+async function buildSearchConditions(parsed: ParsedSearchQuery, usesTextIndex: boolean): Promise<any[]> {
+  const conditions: any[] = [];
+
+  if (parsed.tags.length > 0) {
+    // Every tag: must match (case-insensitive)
+    for (const tag of parsed.tags) {
+      conditions.push({ tags: createExactMatchRegex(tag) });
+    }
   }
-  
-  try {
-    const decoded = verifyToken(token);
-    return decoded.userId;
-  } catch (error) {
-    // Token invalid/expired - silently ignore (this is optional auth)
-    return undefined;
+
+  if (parsed.authors.length > 0) {
+    const authorRegexes = parsed.authors.map(author => createExactMatchRegex(author));
+    const users = await User.find({ 'profile.username': { $in: authorRegexes } }).select('_id').lean();
+    conditions.push({
+      $or: [
+        { authorName: { $in: authorRegexes } },
+        { authorId: { $in: users.map(user => user._id.toString()) } }
+      ]
+    });
   }
-}
 
-/**
- * Phase 2: Resolve tag IDs from category names
- * Maps category names to Tag ObjectIds for stable references
- */
-async function resolveCategoryIds(categoryNames: string[]): Promise<string[]> {
-  if (!categoryNames || categoryNames.length === 0) {
-    return [];
+  for (const source of parsed.sources) {
+    // Domain or provider of the primary media, or the nugget source type
+    const sourceRegex = createSearchRegex(source);
+    conditions.push({
+      $or: [
+        { 'media.url': sourceRegex },
+        { 'media.previewMetadata.providerName': sourceRegex },
+        { 'media.previewMetadata.siteName': sourceRegex },
+        { source_type: createExactMatchRegex(source) }
+      ]
+    });
   }
 
-  try {
-    // Find tags by canonical name (case-insensitive)
-    const canonicalNames = categoryNames.map(name => name.trim().toLowerCase());
-    const tags = await Tag.find({
-      canonicalName: { $in: canonicalNames }
-    }).lean();
-
-    // Map found tags to their ObjectIds
-    const tagMap = new Map(tags.map(tag => [tag.canonicalName, tag._id.toString()]));
-    
-    // Return IDs in the same order as input names
-    const categoryIds = canonicalNames
-      .map(canonical => tagMap.get(canonical))
-      .filter((id): id is string => id !== undefined);
-
-    // Audit Phase-3 Fix: Logging consistency - use structured logging (no req context here, so skip requestId)
-    return categoryIds;
-  } catch (error: any) {
-    // Audit Phase-3 Fix: Logging consistency - use structured logger (no req context in helper function)
-    const { getLogger } = await import('../utils/logger.js');
-    getLogger().warn({ msg: 'Error resolving category IDs', error: { message: error.message } });
-    return []; // Fail gracefully - categoryIds is optional
+  if (!usesTextIndex) {
+    for (const excluded of [...parsed.excludedTerms, ...parsed.excludedPhrases]) {
+      const regex = createSearchRegex(excluded);
+      conditions.push({
+        $nor: [{ title: regex }, { excerpt: regex }, { content: regex }, { tags: regex }]
+      });
+    }
   }
+
+  return conditions;
 }
 
 export const getArticles = async (req: Request, res: Response) => {
@@ -89,7 +99,7 @@ export const getArticles = async (req: Request, res: Response) => {
     
     // Get current user from token (optional - for privacy filtering)
     // This allows authenticated users to see their own private articles
-    const currentUserId = getOptionalUserId(req);
+    const currentUserId = (await getOptionalViewer(req))?.userId;
     
     // Build MongoDB query object
     const query: any = {};
@@ -98,6 +108,18 @@ export const getArticles = async (req: Request, res: Response) => {
     if (authorId) {
       query.authorId = authorId;
     }
+
+    // Following filter: nuggets by the authors the viewer follows
+    // (the privacy filter below still applies)
+    if (req.query.following === 'true') {
+      if (!currentUserId) {
+        return sendUnauthorizedError(res, 'Authentication required');
+      }
+      const followeeIds = await getFolloweeIds(currentUserId);
+      query.authorId = authorId
+        ? (followeeIds.includes(String(authorId)) ? authorId : { $in: [] })
+        : { $in: followeeIds };
+    }
     
     // PRIVACY FILTER: Apply based on context
     // Rule 1: If filtering by authorId and it's the current user, show ALL their articles (public + private)
@@ -115,29 +137,20 @@ export const getArticles = async (req: Request, res: Response) => {
     }
     // If isViewingOwnArticles is true, no privacy filter needed - user can see all their articles
     
-    // Search query (case-insensitive regex with ReDoS protection)
-    // SECURITY: escapeRegExp prevents malicious regex patterns
+    // Search query: full-text ($text index) plus tag:/author:/source: operators
+    // SECURITY: operator values are escaped before being used in regexes
+    let parsedSearch: ParsedSearchQuery | null = null;
+    let textSearch = '';
     if (q && typeof q === 'string' && q.trim().length > 0) {
-      const regex = createSearchRegex(q);
-      const searchConditions = [
-        { title: regex },
-        { excerpt: regex },
-        { content: regex },
-        { tags: regex }
-      ];
-      
-      // Combine search with existing query conditions
-      // If we already have a privacy $or, we need to use $and to combine both
-      if (query.$or) {
-        // We have privacy conditions - combine with search using $and
-        query.$and = [
-          { $or: query.$or }, // Privacy conditions
-          { $or: searchConditions } // Search conditions
-        ];
-        delete query.$or; // Remove top-level $or, now nested in $and
-      } else {
-        // No privacy filter, just add search conditions
-        query.$or = searchConditions;
+      parsedSearch = parseSearchQuery(q);
+      textSearch = buildTextSearch(parsedSearch);
+
+      const searchConditions = await buildSearchConditions(parsedSearch, !!textSearch);
+      if (textSearch) {
+        query.$text = { $search: textSearch };
+      }
+      if (searchConditions.length > 0) {
+        query.$and = searchConditions;
       }
     }
     
@@ -207,13 +220,88 @@ export const getArticles = async (req: Request, res: Response) => {
       'latest': { publishedAt: -1 },
       'oldest': { publishedAt: 1 },
       'title': { title: 1 },
-      'title-desc': { title: -1 }
+      'title-desc': { title: -1 },
+      'most-liked': { 'engagement.likes': -1, publishedAt: -1, _id: -1 }
     };
+    // Relevance needs a text search to score against; otherwise it falls back to latest
+    const sortByRelevance = sort === 'relevance' && !!textSearch;
+    if (sortByRelevance) {
+      sortMap['relevance'] = { score: { $meta: 'textScore' }, publishedAt: -1, _id: -1 };
+    }
     // Add secondary sort by _id for deterministic ordering when publishedAt values are identical
     const sortOrder = sortMap[sort as string] || { publishedAt: -1, _id: -1 }; // Default: latest first
+    const projection = sortByRelevance ? { score: { $meta: 'textScore' } } : undefined;
+
+    const toResponseData = async (articles: any[]) => {
+      let data = await attachImageVariants(normalizeDocs(articles));
+      // normalizeDocs drops unknown fields, so per-request extras are attached by id
+      if (currentUserId) {
+        const viewerReactions = await getViewerReactions(currentUserId, data.map(article => article.id));
+        data = data.map(article => ({ ...article, viewerReactions: viewerReactions.get(article.id) || [] }));
+      }
+      if (!parsedSearch) return data;
+      // Highlighted snippets for search results
+      const highlights = new Map(articles.map(article => [
+        String(article._id),
+        buildSearchHighlight(article, parsedSearch!)
+      ]));
+      return data.map(article => ({ ...article, searchHighlight: highlights.get(article.id) }));
+    };
+
+    // Cursor mode (infinite scroll): `cursor` is present, empty for the first page.
+    // No skip over earlier pages and no count; page mode below is kept for admin tables.
+    if (typeof req.query.cursor === 'string') {
+      const sortKey = sortByRelevance ? 'relevance' : (sortMap[sort as string] ? String(sort) : 'latest');
+      const cursorQuery: any = { ...query };
+      let offset = 0;
+
+      if (req.query.cursor) {
+        let cursor: FeedCursor;
+        try {
+          cursor = decodeFeedCursor(req.query.cursor, sortKey);
+        } catch (error) {
+          if (error instanceof InvalidCursorError) {
+            return sendErrorResponse(res, 400, error.message, 'INVALID_CURSOR');
+          }
+          throw error;
+        }
+        if ('publishedAt' in cursor) {
+          cursorQuery.$and = [...(cursorQuery.$and || []), buildKeysetCondition(cursor)];
+        } else {
+          offset = cursor.offset;
+        }
+      }
+
+      const direction = sortKey === 'oldest' ? 1 : -1;
+      const cursorSort = isKeysetSort(sortKey) ? { publishedAt: direction, _id: direction } : sortOrder;
+
+      // Fetch one extra document to know whether another page exists
+      const articles = await Article.find(cursorQuery, projection)
+        .sort(cursorSort)
+        .skip(offset)
+        .limit(limit + 1)
+        .lean();
+      const hasMore = articles.length > limit;
+      const pageArticles = articles.slice(0, limit);
+      const last = pageArticles[pageArticles.length - 1];
+
+      let nextCursor: string | null = null;
+      if (hasMore && last) {
+        nextCursor = encodeFeedCursor(isKeysetSort(sortKey)
+          ? { sort: sortKey, publishedAt: last.publishedAt, id: String(last._id) }
+          : { sort: sortKey, offset: offset + limit });
+      }
+
+      return res.json({
+        data: await toResponseData(pageArticles),
+        limit,
+        hasMore,
+        nextCursor
+      });
+    }
     
     const [articles, total] = await Promise.all([
-      Article.find(query)
+      Article.find(query, projection)
         .sort(sortOrder)
         .skip(skip)
         .limit(limit)
@@ -221,8 +309,10 @@ export const getArticles = async (req: Request, res: Response) => {
       Article.countDocuments(query)
     ]);
 
+    const data = await toResponseData(articles);
+
     res.json({
-      data: normalizeDocs(articles),
+      data,
       total,
       page,
       limit,
@@ -230,7 +320,7 @@ export const getArticles = async (req: Request, res: Response) => {
     });
   } catch (error: any) {
     // Audit Phase-3 Fix: Logging consistency - use createRequestLogger with requestId + route
-    const requestLogger = createRequestLogger(req.id || 'unknown', getOptionalUserId(req), '/api/articles');
+    const requestLogger = createRequestLogger(req.id || 'unknown', (req as any).user?.userId, '/api/articles');
     requestLogger.error({ msg: 'Get articles error', error: { message: error.message, stack: error.stack } });
     sendInternalError(res);
   }
@@ -242,7 +332,7 @@ export const getArticleById = async (req: Request, res: Response) => {
     if (!article) return sendNotFoundError(res, 'Article not found');
     
     // PRIVACY CHECK: Verify user has access to this article
-    const currentUserId = getOptionalUserId(req);
+    const currentUserId = (await getOptionalViewer(req))?.userId;
     const isPrivate = article.visibility === 'private';
     const isOwner = article.authorId === currentUserId;
     
@@ -256,10 +346,16 @@ export const getArticleById = async (req: Request, res: Response) => {
       return sendUnauthorizedError(res, 'Authentication required to view private articles');
     }
     
-    res.json(normalizeDoc(article));
+    const normalized = normalizeDoc(article);
+    const data = normalized ? (await attachImageVariants([normalized]))[0] : normalized;
+    if (data && currentUserId) {
+      const viewerReactions = await getViewerReactions(currentUserId, [data.id]);
+      return res.json({ ...data, viewerReactions: viewerReactions.get(data.id) || [] });
+    }
+    res.json(data);
   } catch (error: any) {
     // Audit Phase-3 Fix: Logging consistency - use createRequestLogger with requestId + route
-    const requestLogger = createRequestLogger(req.id || 'unknown', getOptionalUserId(req), '/api/articles/:id');
+    const requestLogger = createRequestLogger(req.id || 'unknown', (req as any).user?.userId, '/api/articles/:id');
     requestLogger.error({ msg: 'Get article by ID error', error: { message: error.message, stack: error.stack } });
     sendInternalError(res);
   }
@@ -360,6 +456,19 @@ export const createArticle = async (req: Request, res: Response) => {
       // Just use default timestamp
     }
     
+    // Unverified-account policy: admins may restrict public publishing to verified emails
+    if ((data.visibility || 'public') === 'public' && currentUserId) {
+      const allowed = await isAllowedForUnverified(currentUserId, userRole, 'canCreatePublicNuggets');
+      if (!allowed) {
+        return sendErrorResponse(
+          res,
+          403,
+          'Please verify your email address before publishing public nuggets.',
+          'EMAIL_NOT_VERIFIED'
+        );
+      }
+    }
+    
     const newArticle = await Article.create({
       ...data,
       categoryIds, // Add resolved Tag ObjectIds
@@ -481,6 +590,19 @@ export const updateArticle = async (req: Request, res: Response) => {
       validationResult.data.images = deduplicated;
     }
 
+    // Unverified-account policy: making a private nugget public counts as publishing
+    if (validationResult.data.visibility === 'public' && existingArticle.visibility === 'private') {
+      const allowed = await isAllowedForUnverified(currentUserId, userRole, 'canCreatePublicNuggets');
+      if (!allowed) {
+        return sendErrorResponse(
+          res,
+          403,
+          'Please verify your email address before publishing public nuggets.',
+          'EMAIL_NOT_VERIFIED'
+        );
+      }
+    }
+
     // GUARD: Prevent overwriting existing YouTube titles (backend is source of truth)
     // If backend already has media.previewMetadata.title, don't allow updates to it
     const updates = { ...validationResult.data };
@@ -549,6 +671,11 @@ export const updateArticle = async (req: Request, res: Response) => {
       delete mongoUpdate.customCreatedAt;
     }
     
+    // Changing visibility by hand replaces any pending scheduled publish
+    if (updates.visibility !== undefined) {
+      mongoUpdate.scheduledPublishAt = null;
+    }
+    
     // Phase 2: Resolve categoryIds if categories are being updated
     if (updates.categories && Array.isArray(updates.categories)) {
       const categoryIds = await resolveCategoryIds(updates.categories);
@@ -615,6 +742,9 @@ export const deleteArticle = async (req: Request, res: Response) => {
     if (collectionsUpdated > 0) {
       console.log(`[Articles] Cleaned up article ${articleId} from ${collectionsUpdated} collection(s)`);
     }
+
+    await deleteReactionsForArticle(articleId);
+    await Comment.deleteMany({ articleId });
     
     // Mark associated media as orphaned (MongoDB-first cleanup)
     try {
@@ -829,10 +959,12 @@ export const deleteArticleImage = async (req: Request, res: Response) => {
     }
     await article.save();
 
-    // If the image URL is a Cloudinary URL, try to find and delete the media record
-    // Extract public_id from Cloudinary URL if possible
+    // If the image was uploaded through our media pipeline, try to find and delete the media record
+    // Cloudinary URLs are matched by public_id; local/S3 URLs by the stored URL itself
     console.log(`[Articles] Delete image: ${imageUrl}`);
     try {
+      const { Media } = await import('../models/Media.js');
+      let mediaQuery: Record<string, string> | null = null;
       if (imageUrl.includes('cloudinary.com') || imageUrl.includes('res.cloudinary.com')) {
         // Try to extract public_id from URL
         // Cloudinary URLs can be in format: https://res.cloudinary.com/{cloud_name}/{resource_type}/upload/v{version}/{public_id}.{format}
@@ -840,59 +972,62 @@ export const deleteArticleImage = async (req: Request, res: Response) => {
         if (urlMatch && urlMatch[1]) {
           const publicId = urlMatch[1].replace(/\.[^.]+$/, ''); // Remove extension
           console.log(`[Articles] Extracted publicId from Cloudinary URL: ${publicId}`);
+          mediaQuery = { 'cloudinary.publicId': publicId };
+        } else {
+          console.log(`[Articles] Could not extract publicId from Cloudinary URL: ${imageUrl}`);
+        }
+      } else {
+        mediaQuery = { 'cloudinary.secureUrl': imageUrl };
+      }
+
+      if (mediaQuery) {
+        // Find media record by publicId / URL
+        const mediaRecord = await Media.findOne({ 
+          ...mediaQuery,
+          ownerId: currentUserId,
+          status: 'active'
+        });
+
+        if (mediaRecord) {
+          const publicId = mediaRecord.cloudinary.publicId;
+          console.log(`[Articles] Found media record for deletion: ${mediaRecord._id}`);
           
-          // Find media record by publicId
-          const { Media } = await import('../models/Media.js');
-          const mediaRecord = await Media.findOne({ 
-            'cloudinary.publicId': publicId,
-            ownerId: currentUserId,
-            status: 'active'
-          });
-
-          if (mediaRecord) {
-            console.log(`[Articles] Found media record for deletion: ${mediaRecord._id}`);
-            
-            // CRITICAL: Check if this Media is used by other articles before deleting from Cloudinary
-            const { Article } = await import('../models/Article.js');
-            const otherArticlesUsingMedia = await Article.find({
-              _id: { $ne: id }, // Exclude current article
-              $or: [
-                { mediaIds: mediaRecord._id.toString() },
-                { images: { $regex: publicId, $options: 'i' } } // Also check images array for this publicId
-              ],
-              authorId: currentUserId // Only check user's own articles
-            }).lean();
-            
-            const isSharedAcrossNuggets = otherArticlesUsingMedia.length > 0;
+          // CRITICAL: Check if this Media is used by other articles before deleting from storage
+          const { Article } = await import('../models/Article.js');
+          const otherArticlesUsingMedia = await Article.find({
+            _id: { $ne: id }, // Exclude current article
+            $or: [
+              { mediaIds: mediaRecord._id.toString() },
+              { images: { $regex: escapeRegExp(publicId), $options: 'i' } } // Also check images array for this publicId
+            ],
+            authorId: currentUserId // Only check user's own articles
+          }).lean();
+          
+          const isSharedAcrossNuggets = otherArticlesUsingMedia.length > 0;
+          
+          if (isSharedAcrossNuggets) {
+            console.log(`[Articles] Media ${mediaRecord._id} is used by ${otherArticlesUsingMedia.length} other article(s). Not deleting from storage.`);
+            // Don't delete from storage if shared, but still remove from this article
+          } else {
+            console.log(`[Articles] Media ${mediaRecord._id} is only used by this article. Safe to delete from storage.`);
             
-            if (isSharedAcrossNuggets) {
-              console.log(`[Articles] Media ${mediaRecord._id} is used by ${otherArticlesUsingMedia.length} other article(s). Not deleting from Cloudinary.`);
-              // Don't delete from Cloudinary if shared, but still remove from this article
+            // Mark media as orphaned (soft delete)
+            mediaRecord.status = 'orphaned';
+            await mediaRecord.save();
+            console.log(`[Articles] Media record marked as orphaned: ${mediaRecord._id}`);
+
+            // Best-effort storage deletion (only if not shared)
+            const { deleteMediaAssets } = await import('../services/mediaCleanupService.js');
+            const deleted = await deleteMediaAssets(mediaRecord);
+            if (deleted) {
+              console.log(`[Articles] Stored asset deleted successfully: ${publicId}`);
             } else {
-              console.log(`[Articles] Media ${mediaRecord._id} is only used by this article. Safe to delete from Cloudinary.`);
-              
-              // Mark media as orphaned (soft delete)
-              mediaRecord.status = 'orphaned';
-              await mediaRecord.save();
-              console.log(`[Articles] Media record marked as orphaned: ${mediaRecord._id}`);
-
-              // Best-effort Cloudinary deletion (only if not shared)
-              const { deleteFromCloudinary } = await import('../services/cloudinaryService.js');
-              const deleted = await deleteFromCloudinary(publicId, mediaRecord.cloudinary.resourceType);
-              if (deleted) {
-                console.log(`[Articles] Cloudinary asset deleted successfully: ${publicId}`);
-              } else {
-                console.warn(`[Articles] Cloudinary deletion failed for: ${publicId} (but MongoDB record marked as orphaned)`);
-              }
+              console.warn(`[Articles] Storage deletion failed for: ${publicId} (but MongoDB record marked as orphaned)`);
             }
-          } else {
-            console.log(`[Articles] No media record found for publicId: ${publicId} (may be external URL)`);
           }
         } else {
-          console.log(`[Articles] Could not extract publicId from Cloudinary URL: ${imageUrl}`);
+          console.log(`[Articles] No media record found for image (may be external URL): ${imageUrl}`);
         }
-      } else {
-        console.log(`[Articles] Image URL is not a Cloudinary URL (external image): ${imageUrl}`);
       }
     } catch (mediaError: any) {
       // Log but don't fail if media cleanup fails
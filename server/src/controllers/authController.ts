@@ -2,7 +2,18 @@ import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import { User } from '../models/User.js';
 import { normalizeDoc } from '../utils/db.js';
-import { generateToken } from '../utils/jwt.js';
+import { generateOneTimeToken, hashToken } from '../utils/authTokens.js';
+import { sendMail, buildFrontendUrl } from '../services/mailService.js';
+import { isMfaEnrollmentRequired } from '../services/platformSettingsService.js';
+import { generateMfaChallengeToken } from '../utils/jwt.js';
+import {
+  createSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeAllSessions,
+  listActiveSessions,
+  SessionError
+} from '../services/sessionService.js';
 import { z } from 'zod';
 import {
   sendErrorResponse,
@@ -54,16 +65,19 @@ function formatValidationErrors(errors: z.ZodError['errors']): string {
   return errorMessages.join('. ');
 }
 
+// Shared password policy (signup and password reset)
+const passwordSchema = z.string()
+  .min(8, 'Password must be at least 8 characters long')
+  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+  .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+  .regex(/[0-9]/, 'Password must contain at least one number')
+  .regex(/[^A-Za-z0-9]/, 'Password must contain at least one special character');
+
 const signupSchema = z.object({
   fullName: z.string().min(1, 'Full name is required'),
   username: z.string().min(3, 'Username must be at least 3 characters').transform(val => val.toLowerCase().trim()),
   email: z.string().email('Invalid email format'),
-  password: z.string()
-    .min(8, 'Password must be at least 8 characters long')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/[0-9]/, 'Password must contain at least one number')
-    .regex(/[^A-Za-z0-9]/, 'Password must contain at least one special character'),
+  password: passwordSchema,
   pincode: z.string().optional(),
   city: z.string().optional(),
   country: z.string().optional(),
@@ -71,6 +85,91 @@ const signupSchema = z.object({
   phoneNumber: z.string().optional()
 }).strict();
 
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format')
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: passwordSchema
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required')
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required')
+});
+
+// Reset links are valid for one hour
+const PASSWORD_RESET_TTL_MINUTES = 60;
+
+// Verification links are valid for 24 hours
+const EMAIL_VERIFICATION_TTL_MINUTES = 24 * 60;
+
+/**
+ * Issue a fresh verification token for a user and email the link
+ * Any previously issued token is replaced and stops working.
+ */
+async function sendVerificationEmail(user: { _id: any; auth: { email: string }; profile: { displayName: string } }): Promise<void> {
+  const { token, tokenHash, expiresAt } = generateOneTimeToken(EMAIL_VERIFICATION_TTL_MINUTES);
+  await User.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        'security.emailVerificationTokenHash': tokenHash,
+        'security.emailVerificationExpiresAt': expiresAt
+      }
+    }
+  );
+
+  const verifyUrl = buildFrontendUrl('/verify-email', { token });
+  await sendMail({
+    to: user.auth.email,
+    subject: 'Verify your Nuggets email address',
+    text: [
+      `Hi ${user.profile.displayName},`,
+      '',
+      'Please confirm your email address by opening the link below:',
+      verifyUrl,
+      '',
+      'This link expires in 24 hours.'
+    ].join('\n')
+  });
+}
+
+/**
+ * Issue a fresh password reset token for a user and email the link
+ * Any previously issued token is replaced and stops working.
+ */
+async function sendPasswordResetEmail(user: { _id: any; auth: { email: string }; profile: { displayName: string } }): Promise<void> {
+  const { token, tokenHash, expiresAt } = generateOneTimeToken(PASSWORD_RESET_TTL_MINUTES);
+  await User.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        'security.passwordResetTokenHash': tokenHash,
+        'security.passwordResetExpiresAt': expiresAt
+      }
+    }
+  );
+
+  const resetUrl = buildFrontendUrl('/reset-password', { token });
+  await sendMail({
+    to: user.auth.email,
+    subject: 'Reset your Nuggets password',
+    text: [
+      `Hi ${user.profile.displayName},`,
+      '',
+      'We received a request to reset your password. Open the link below to choose a new one:',
+      resetUrl,
+      '',
+      `This link expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and can only be used once.`,
+      'If you did not request this, you can ignore this email.'
+    ].join('\n')
+  });
+}
 
 /**
  * POST /api/auth/login
@@ -115,16 +214,26 @@ export const login = async (req: Request, res: Response) => {
       return sendUnauthorizedError(res, 'This account was created with social login. Please use social login to continue.');
     }
 
+    // Second factor: no session until POST /auth/mfa/verify succeeds
+    if (user.security.mfaEnabled) {
+      return res.json({ mfaRequired: true, mfaToken: generateMfaChallengeToken(user._id.toString()) });
+    }
+
     // Update last login time
     user.appState.lastLoginAt = new Date().toISOString();
     await user.save();
 
-    // Generate token with userId and role
-    const token = generateToken(user._id.toString(), user.role, user.auth.email);
+    // Start a session: short-lived access token + rotating refresh token
+    const { accessToken, refreshToken } = await createSession(user, req);
 
-    // Return user data (without password) and token
-    const userData = normalizeDoc(user);
-    res.json({ user: userData, token });
+    // Return user data (without password) and tokens
+    const { password: _password, ...userData } = normalizeDoc(user);
+    res.json({
+      user: userData,
+      token: accessToken,
+      refreshToken,
+      mfaEnrollmentRequired: await isMfaEnrollmentRequired(user.role, false)
+    });
   } catch (error: any) {
     console.error('[Auth] Login error:', error);
     sendInternalError(res);
@@ -254,7 +363,10 @@ export const signup = async (req: Request, res: Response) => {
         notifications: {
           emailDigest: true,
           productUpdates: false,
-          newFollowers: true
+          newFollowers: true,
+          collectionActivity: true,
+          moderationUpdates: true,
+          feedbackUpdates: true
         }
       },
       appState: {
@@ -264,12 +376,20 @@ export const signup = async (req: Request, res: Response) => {
 
     await newUser.save();
 
-    // Generate token with userId and role
-    const token = generateToken(newUser._id.toString(), newUser.role, newUser.auth.email);
+    // Send verification link - a mail failure must not fail the signup itself
+    // (the user can request a new link from account settings)
+    try {
+      await sendVerificationEmail(newUser);
+    } catch (mailError: any) {
+      console.error('[Auth] Failed to send verification email:', mailError.message);
+    }
+
+    // Start a session: short-lived access token + rotating refresh token
+    const { accessToken, refreshToken } = await createSession(newUser, req);
 
-    // Return user data (without password) and token
+    // Return user data (without password) and tokens
     const userData = normalizeDoc(newUser);
-    res.status(201).json({ user: userData, token });
+    res.status(201).json({ user: userData, token: accessToken, refreshToken });
   } catch (error: any) {
     console.error('[Auth] Signup error:', error);
     
@@ -351,3 +471,308 @@ export const getMe = async (req: Request, res: Response) => {
     sendInternalError(res);
   }
 };
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a single-use password reset link
+ *
+ * Always responds with the same message so the endpoint cannot be used
+ * to discover which emails are registered.
+ */
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const validationResult = forgotPasswordSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map(err => ({
+        path: err.path.map(String),
+        message: err.message,
+        code: err.code
+      }));
+      return sendValidationError(res, 'Please enter a valid email address.', errors);
+    }
+
+    const genericResponse = { message: 'If an account exists for that email, a reset link has been sent.' };
+    const email = validationResult.data.email.toLowerCase().trim();
+
+    const user = await User.findOne({ 'auth.email': email });
+    // Social-only accounts have no password to reset
+    if (!user || user.auth.provider !== 'email') {
+      return res.json(genericResponse);
+    }
+
+    // Not awaited: a response that waits on the token write and mail delivery
+    // (or fails with them) would reveal that the account exists
+    sendPasswordResetEmail(user).catch(error => {
+      console.error('[Auth] Password reset email failed:', error);
+    });
+
+    res.json(genericResponse);
+  } catch (error: any) {
+    console.error('[Auth] Forgot password error:', error);
+    sendInternalError(res);
+  }
+};
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password using a reset token
+ */
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const validationResult = resetPasswordSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map(err => ({
+        path: err.path.map(String),
+        message: err.message,
+        code: err.code
+      }));
+      const formattedMessage = errors
+        .filter(err => err.path[0] === 'password')
+        .map(err => err.message)
+        .join('. ');
+      return sendValidationError(
+        res,
+        formattedMessage || 'Validation failed. Please check your input and try again.',
+        errors
+      );
+    }
+
+    const { token, password } = validationResult.data;
+    const now = new Date().toISOString();
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    // Consume the token atomically: matching and clearing happen in one update,
+    // so a token can never be used twice even under concurrent requests
+    const user = await User.findOneAndUpdate(
+      {
+        'security.passwordResetTokenHash': hashToken(token),
+        'security.passwordResetExpiresAt': { $gt: now }
+      },
+      {
+        $set: {
+          password: hashedPassword,
+          'security.lastPasswordChangeAt': now,
+          'auth.updatedAt': now
+        },
+        $unset: {
+          'security.passwordResetTokenHash': '',
+          'security.passwordResetExpiresAt': ''
+        }
+      },
+      { new: true }
+    );
+
+    if (!user) {
+      return sendErrorResponse(
+        res,
+        400,
+        'This reset link is invalid or has expired. Please request a new one.',
+        'INVALID_RESET_TOKEN'
+      );
+    }
+
+    // Whoever knew the old password may still hold a session - sign out everywhere
+    await revokeAllSessions(user._id.toString(), 'password_change');
+
+    res.json({ message: 'Password has been reset. You can now sign in with your new password.' });
+  } catch (error: any) {
+    console.error('[Auth] Reset password error:', error);
+    sendInternalError(res);
+  }
+};
+
+/**
+ * POST /api/auth/verify-email
+ * Confirm an email address using the emailed token
+ */
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const validationResult = verifyEmailSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return sendValidationError(res, 'Verification token is required', validationResult.error.issues.map(err => ({
+        path: err.path.map(String),
+        message: err.message,
+        code: err.code
+      })));
+    }
+
+    const now = new Date().toISOString();
+
+    // Match and consume the token in one atomic update (single use)
+    const user = await User.findOneAndUpdate(
+      {
+        'security.emailVerificationTokenHash': hashToken(validationResult.data.token),
+        'security.emailVerificationExpiresAt': { $gt: now }
+      },
+      {
+        $set: {
+          'auth.emailVerified': true,
+          'auth.updatedAt': now
+        },
+        $unset: {
+          'security.emailVerificationTokenHash': '',
+          'security.emailVerificationExpiresAt': ''
+        }
+      },
+      { new: true }
+    );
+
+    if (!user) {
+      return sendErrorResponse(
+        res,
+        400,
+        'This verification link is invalid or has expired. Please request a new one.',
+        'INVALID_VERIFICATION_TOKEN'
+      );
+    }
+
+    res.json({ message: 'Email verified', user: normalizeDoc(user) });
+  } catch (error: any) {
+    console.error('[Auth] Verify email error:', error);
+    sendInternalError(res);
+  }
+};
+
+/**
+ * POST /api/auth/resend-verification
+ * Send a new verification link to the current user (requires authentication)
+ */
+export const resendVerification = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) {
+      return sendUnauthorizedError(res);
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return sendNotFoundError(res, 'User not found');
+    }
+
+    if (user.auth.emailVerified) {
+      return sendConflictError(res, 'Email is already verified', 'EMAIL_ALREADY_VERIFIED');
+    }
+
+    await sendVerificationEmail(user);
+    res.json({ message: `A new verification link has been sent to ${user.auth.email}.` });
+  } catch (error: any) {
+    console.error('[Auth] Resend verification error:', error);
+    sendInternalError(res);
+  }
+};
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access token (the refresh token rotates)
+ */
+export const refresh = async (req: Request, res: Response) => {
+  try {
+    const validationResult = refreshSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return sendValidationError(res, 'Refresh token is required', validationResult.error.issues.map(err => ({
+        path: err.path.map(String),
+        message: err.message,
+        code: err.code
+      })));
+    }
+
+    const { accessToken, refreshToken } = await rotateRefreshToken(
+      validationResult.data.refreshToken,
+      req,
+      async (userId) => User.findById(userId).select('role auth.email').lean()
+    );
+
+    res.json({ token: accessToken, refreshToken });
+  } catch (error: any) {
+    if (error instanceof SessionError) {
+      return sendErrorResponse(res, 401, error.message, error.code);
+    }
+    console.error('[Auth] Refresh error:', error);
+    sendInternalError(res);
+  }
+};
+
+/**
+ * POST /api/auth/logout
+ * Revoke the current session
+ */
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const { userId, sessionId } = (req as any).user || {};
+    if (!userId || !sessionId) {
+      return sendUnauthorizedError(res);
+    }
+
+    await revokeSession(sessionId, 'logout', userId);
+    res.json({ message: 'Logged out' });
+  } catch (error: any) {
+    console.error('[Auth] Logout error:', error);
+    sendInternalError(res);
+  }
+};
+
+/**
+ * POST /api/auth/logout-all
+ * Revoke every session of the current user, including this one
+ */
+export const logoutAll = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) {
+      return sendUnauthorizedError(res);
+    }
+
+    const revoked = await revokeAllSessions(userId, 'logout_all');
+    res.json({ message: 'Logged out of all devices', revoked });
+  } catch (error: any) {
+    console.error('[Auth] Logout all error:', error);
+    sendInternalError(res);
+  }
+};
+
+/**
+ * GET /api/auth/sessions
+ * List active sessions of the current user
+ */
+export const getSessions = async (req: Request, res: Response) => {
+  try {
+    const { userId, sessionId } = (req as any).user || {};
+    if (!userId) {
+      return sendUnauthorizedError(res);
+    }
+
+    const sessions = await listActiveSessions(userId, sessionId);
+    res.json({ sessions });
+  } catch (error: any) {
+    console.error('[Auth] List sessions error:', error);
+    sendInternalError(res);
+  }
+};
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Revoke one of the current user's sessions (e.g. a lost device)
+ */
+export const deleteSession = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) {
+      return sendUnauthorizedError(res);
+    }
+
+    const sessionId = String(req.params.id);
+    if (!/^[a-f0-9]{24}$/.test(sessionId)) {
+      return sendNotFoundError(res, 'Session not found');
+    }
+
+    const revoked = await revokeSession(sessionId, 'logout', userId);
+    if (!revoked) {
+      return sendNotFoundError(res, 'Session not found');
+    }
+
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('[Auth] Revoke session error:', error);
+    sendInternalError(res);
+  }
+};
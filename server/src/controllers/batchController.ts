@@ -4,81 +4,149 @@ import { Article } from '../models/Article.js';
 import mongoose from 'mongoose';
 import { createRequestLogger } from '../utils/logger.js';
 import { captureException } from '../utils/sentry.js';
+import { isAllowedForUnverified } from '../services/platformSettingsService.js';
+import { previewBatchImport as previewImport } from '../services/batchService.js';
+import { BatchPublishAction, parseScheduledPublishAt, planBatchPublish } from '../utils/batchPublish.js';
+import {
+  BATCH_JOB_MAX_ROWS,
+  cancelBatchJob as cancelJob,
+  createBatchJob as createJob,
+  getBatchJob as getJob,
+  listBatchJobs as listJobs
+} from '../services/batchJobService.js';
 
 // Audit Phase-1 Fix: Zod validation schema with max 100 items per batch
 const publishBatchSchema = z.object({
-  ids: z.array(z.string().min(1)).min(1, 'At least one ID is required').max(100, 'Maximum 100 items per batch')
+  ids: z.array(z.string().min(1)).min(1, 'At least one ID is required').max(100, 'Maximum 100 items per batch'),
+  // Omitted: publish now. ISO string: publish at that time. null: drop a pending schedule.
+  scheduledPublishAt: z.string().nullable().optional()
+});
+
+const createBatchJobSchema = z.object({
+  rows: z.array(z.object({
+    rowId: z.string().min(1).max(100),
+    article: z.record(z.string(), z.unknown()),
+    // Bookmark folder for the created nugget (same limit as folder names)
+    folder: z.string().trim().min(1).max(100).optional()
+  }))
+    .min(1, 'At least one row is required')
+    .max(BATCH_JOB_MAX_ROWS, `Maximum ${BATCH_JOB_MAX_ROWS} rows per batch`)
+}).refine(
+  data => new Set(data.rows.map(row => row.rowId)).size === data.rows.length,
+  { message: 'Row ids must be unique', path: ['rows'] }
+);
+
+// Bookmark exports can be large; the import itself is still capped per job
+const MAX_PREVIEW_URLS = 1000;
+
+const previewBatchImportSchema = z.object({
+  urls: z.array(z.string().max(2048)).min(1, 'At least one URL is required').max(MAX_PREVIEW_URLS, `Maximum ${MAX_PREVIEW_URLS} URLs per preview`)
 });
 
 /**
  * POST /api/batch/publish
  * 
- * Publish multiple draft nuggets by setting their visibility to 'public'
+ * Publish multiple private nuggets now, or schedule/unschedule their publication.
+ * Only the author (or an admin) can change a nugget; everything else is
+ * reported per ID rather than failing the whole request.
  * 
  * Body: {
- *   ids: string[] // Array of article IDs to publish
+ *   ids: string[] // Array of article IDs
+ *   scheduledPublishAt?: string | null // Omit to publish now; null clears a schedule
  * }
  * 
  * Returns: {
  *   success: boolean
  *   message: string
  *   updatedCount: number
+ *   requestedCount: number
+ *   results: Array<{ id, outcome, scheduledPublishAt? }>
  * }
  */
 export const publishBatch = async (req: Request, res: Response) => {
   try {
+    const userId = (req as any).user?.userId;
+    const role = (req as any).user?.role;
+
     // Audit Phase-1 Fix: Zod validation for batch request body with max 100 items
     const validationResult = publishBatchSchema.safeParse(req.body);
     if (!validationResult.success) {
       return res.status(400).json({
         success: false,
         message: 'Validation failed',
-        errors: validationResult.error.errors
+        errors: validationResult.error.issues.map(err => ({ path: err.path.map(String), message: err.message }))
       });
     }
 
-    const { ids } = validationResult.data;
+    const { ids, scheduledPublishAt } = validationResult.data;
 
-    // Validate all IDs are valid MongoDB ObjectIds
-    const validIds = ids.filter(id => {
-      if (typeof id !== 'string') return false;
-      return mongoose.Types.ObjectId.isValid(id);
-    });
-
-    if (validIds.length === 0) {
-      return res.status(400).json({
-        success: false,
-        message: 'No valid nugget IDs provided'
-      });
+    let action: BatchPublishAction = { type: 'publish' };
+    if (scheduledPublishAt === null) {
+      action = { type: 'unschedule' };
+    } else if (scheduledPublishAt !== undefined) {
+      const parsed = parseScheduledPublishAt(scheduledPublishAt);
+      if ('error' in parsed) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: [{ path: ['scheduledPublishAt'], message: parsed.error }]
+        });
+      }
+      action = { type: 'schedule', at: parsed.at };
     }
 
-    if (validIds.length !== ids.length) {
-      console.warn(`[BatchPublish] ${ids.length - validIds.length} invalid IDs filtered out`);
-    }
+    // Malformed IDs are reported as not found
+    const validIds = ids.filter(id => mongoose.Types.ObjectId.isValid(id));
+    const articles = validIds.length > 0
+      ? await Article.find({ _id: { $in: validIds } }).select('authorId visibility').lean()
+      : [];
+    const articlesById = new Map(articles.map(article => [
+      article._id.toString(),
+      { id: article._id.toString(), authorId: article.authorId, visibility: article.visibility }
+    ]));
+
+    const results = planBatchPublish(ids, articlesById, { userId, isAdmin: role === 'admin' }, action);
+    const targetIds = results
+      .filter(result => result.outcome === 'published' || result.outcome === 'scheduled' || result.outcome === 'unscheduled')
+      .map(result => result.id);
 
-    // Perform bulk update using updateMany
-    // Set visibility to 'public' for all matching IDs
-    const result = await Article.updateMany(
-      { _id: { $in: validIds } },
-      {
-        $set: {
-          visibility: 'public',
-          updated_at: new Date().toISOString()
-        }
+    // Unverified-account policy: publishing (now or later) counts as creating public nuggets
+    if (targetIds.length > 0 && action.type !== 'unschedule') {
+      const allowed = await isAllowedForUnverified(userId, role, 'canCreatePublicNuggets');
+      if (!allowed) {
+        return res.status(403).json({
+          success: false,
+          message: 'Please verify your email address before publishing public nuggets.',
+          code: 'EMAIL_NOT_VERIFIED'
+        });
       }
-    );
+    }
 
-    console.log(`[BatchPublish] Published ${result.modifiedCount} of ${validIds.length} nuggets`);
+    let updatedCount = 0;
+    if (targetIds.length > 0) {
+      const now = new Date().toISOString();
+      // The visibility filter guards against a nugget going public since it was read
+      const filter = { _id: { $in: targetIds }, visibility: 'private' };
+      const update = action.type === 'publish'
+        ? { $set: { visibility: 'public', updated_at: now }, $unset: { scheduledPublishAt: 1 } }
+        : action.type === 'schedule'
+          ? { $set: { scheduledPublishAt: action.at, updated_at: now } }
+          : { $set: { updated_at: now }, $unset: { scheduledPublishAt: 1 } };
+      const result = await Article.updateMany(filter, update);
+      updatedCount = result.modifiedCount;
+    }
 
+    const verb = action.type === 'publish' ? 'published' : action.type === 'schedule' ? 'scheduled' : 'unscheduled';
     res.json({
       success: true,
-      message: `Successfully published ${result.modifiedCount} nugget${result.modifiedCount !== 1 ? 's' : ''}`,
-      updatedCount: result.modifiedCount,
-      requestedCount: validIds.length
+      message: `Successfully ${verb} ${updatedCount} nugget${updatedCount !== 1 ? 's' : ''}`,
+      updatedCount,
+      requestedCount: results.length,
+      results
     });
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
-    const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.id, req.path);
+    const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
     requestLogger.error({
       msg: '[BatchPublish] Error',
       error: {
@@ -95,8 +163,135 @@ export const publishBatch = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * POST /api/batch/jobs
+ *
+ * Queue a batch import. Rows are created by the background worker, so the
+ * import continues if the client goes away; poll GET /api/batch/jobs/:id.
+ *
+ * Body: {
+ *   rows: Array<{ rowId: string, article: createArticle body, folder?: string }>
+ * }
+ *
+ * Returns: the job with per-row status (202)
+ */
+export const createBatchJob = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    const role = (req as any).user?.role;
+
+    const validationResult = createBatchJobSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: validationResult.error.issues.map(err => ({ path: err.path.map(String), message: err.message }))
+      });
+    }
+
+    const { rows } = validationResult.data;
+
+    // Unverified-account policy: same rule as creating a single public nugget
+    const hasPublicRows = rows.some(row => (row.article.visibility ?? 'public') === 'public');
+    if (hasPublicRows && !(await isAllowedForUnverified(userId, role, 'canCreatePublicNuggets'))) {
+      return res.status(403).json({
+        message: 'Please verify your email address before publishing public nuggets.',
+        code: 'EMAIL_NOT_VERIFIED'
+      });
+    }
+
+    const job = await createJob(userId, rows);
+    res.status(202).json(job);
+  } catch (error: any) {
+    handleBatchJobError(req, res, error, '[BatchJobs] Create job error');
+  }
+};
+
+/**
+ * POST /api/batch/preview
+ *
+ * Dry run of an import: flags invalid URLs, repeats within the import and
+ * URLs the user already has as nuggets (compared by normalized URL).
+ * Nothing is created.
+ *
+ * Body: { urls: string[] }
+ *
+ * Returns: { results: Array<{ url, normalizedUrl, status, duplicateOfIndex?, articleId? }> }
+ * in the order of `urls`
+ */
+export const previewBatchImport = async (req: Request, res: Response) => {
+  try {
+    const validationResult = previewBatchImportSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: validationResult.error.issues.map(err => ({ path: err.path.map(String), message: err.message }))
+      });
+    }
 
+    const results = await previewImport((req as any).user?.userId, validationResult.data.urls);
+    res.json({ results });
+  } catch (error: any) {
+    handleBatchJobError(req, res, error, '[BatchJobs] Preview import error');
+  }
+};
 
+/**
+ * GET /api/batch/jobs
+ *
+ * The current user's recent import jobs (newest first, summaries only)
+ */
+export const listBatchJobs = async (req: Request, res: Response) => {
+  try {
+    const jobs = await listJobs((req as any).user?.userId);
+    res.json({ data: jobs });
+  } catch (error: any) {
+    handleBatchJobError(req, res, error, '[BatchJobs] List jobs error');
+  }
+};
 
+/**
+ * GET /api/batch/jobs/:id
+ *
+ * Job progress with per-row status, for polling
+ */
+export const getBatchJob = async (req: Request, res: Response) => {
+  try {
+    const job = await getJob(req.params.id as string, (req as any).user?.userId);
+    if (!job) {
+      return res.status(404).json({ message: 'Batch job not found' });
+    }
+    res.json(job);
+  } catch (error: any) {
+    handleBatchJobError(req, res, error, '[BatchJobs] Get job error');
+  }
+};
 
+/**
+ * POST /api/batch/jobs/:id/cancel
+ *
+ * Stop an unfinished job; nuggets already created are kept
+ */
+export const cancelBatchJob = async (req: Request, res: Response) => {
+  try {
+    const job = await cancelJob(req.params.id as string, (req as any).user?.userId);
+    if (!job) {
+      return res.status(404).json({ message: 'Batch job not found' });
+    }
+    res.json(job);
+  } catch (error: any) {
+    handleBatchJobError(req, res, error, '[BatchJobs] Cancel job error');
+  }
+};
 
+function handleBatchJobError(req: Request, res: Response, error: any, msg: string) {
+  const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
+  requestLogger.error({
+    msg,
+    error: {
+      message: error.message,
+      stack: error.stack,
+    },
+  });
+  captureException(error instanceof Error ? error : new Error(String(error)), { requestId: req.id, route: req.path });
+  res.status(500).json({ message: 'Internal server error' });
+}
@@ -1,15 +1,113 @@
 import { Request, Response } from 'express';
-import { Collection } from '../models/Collection.js';
+import mongoose, { PipelineStage } from 'mongoose';
+import { Collection, ICollectionMember } from '../models/Collection.js';
 import { Article } from '../models/Article.js';
+import { User } from '../models/User.js';
 import { normalizeDoc, normalizeDocs } from '../utils/db.js';
-import { createCollectionSchema, updateCollectionSchema, addEntrySchema, flagEntrySchema } from '../utils/validation.js';
+import {
+  createCollectionSchema,
+  updateCollectionSchema,
+  addEntrySchema,
+  flagEntrySchema,
+  inviteCollectionMemberSchema,
+  updateCollectionMemberSchema,
+  moveEntrySchema,
+  updateEntrySchema,
+  createSectionSchema,
+  updateSectionSchema,
+  reviewEntrySchema,
+  markFollowingReadSchema
+} from '../utils/validation.js';
+import {
+  CollectionViewer,
+  getCollectionRole,
+  canViewCollection,
+  canAddEntries,
+  canRemoveEntry,
+  canArrangeEntries,
+  canManageCollection,
+  buildVisibilityFilter
+} from '../utils/collectionPermissions.js';
+import { moveEntry, moveSection, OrderingError } from '../utils/collectionOrdering.js';
+import { filterVisibleEntries } from '../utils/entryFlags.js';
+import { getFeedWindowStart, getUnreadSince, buildFollowedEntriesStages } from '../utils/followingFeed.js';
+import { attachImageVariants } from '../services/mediaVariantService.js';
+import { recordEntryFlag, reviewEntry } from '../services/collectionEntryReviewService.js';
+import { notify, quoteTitle } from '../services/notificationService.js';
+import { getOptionalViewer } from '../middleware/authenticateToken.js';
 import { getCommunityCollections, getCommunityCollectionsCount, CollectionQueryFilters } from '../utils/collectionQueryHelpers.js';
 import { createSearchRegex, createExactMatchRegex } from '../utils/escapeRegExp.js';
 import { createRequestLogger } from '../utils/logger.js';
 import { captureException } from '../utils/sentry.js';
+import { isAllowedForUnverified } from '../services/platformSettingsService.js';
+
+/**
+ * Current user for permission checks. Read routes are public, so the token
+ * is checked here when the auth middleware did not run.
+ */
+async function getViewer(req: Request): Promise<CollectionViewer> {
+  const user = await getOptionalViewer(req);
+  return user ? { userId: user.userId, isAdmin: user.role === 'admin' } : {};
+}
+
+/**
+ * Collection as returned to a given viewer: adds their role, hides pending
+ * invitations from everyone but owners and flag-hidden entries from
+ * everyone but curators
+ */
+function toCollectionResponse(doc: any, viewer: CollectionViewer) {
+  const data = normalizeDoc(doc);
+  const { invitations, ...rest } = data;
+  return {
+    ...rest,
+    entries: filterVisibleEntries(data.entries || [], canArrangeEntries(data, viewer)),
+    ...(canManageCollection(data, viewer) ? { invitations: invitations || [] } : {}),
+    viewerRole: getCollectionRole(data, viewer.userId)
+  };
+}
+
+interface UserSummary {
+  name: string;
+  username?: string;
+  avatarUrl?: string;
+}
+
+async function getUserSummaries(userIds: string[]): Promise<Map<string, UserSummary>> {
+  const ids = [...new Set(userIds)].filter(id => mongoose.Types.ObjectId.isValid(id));
+  if (ids.length === 0) return new Map();
+  const users = await User.find({ _id: { $in: ids } })
+    .select('profile.displayName profile.username profile.avatarUrl')
+    .lean();
+  return new Map(users.map(user => [String(user._id), {
+    name: user.profile.displayName,
+    username: user.profile.username,
+    avatarUrl: user.profile.avatarUrl
+  }]));
+}
+
+/**
+ * Attach display info for entry contributors, members and invitees in one query
+ */
+async function withUserSummaries(data: any) {
+  const users = await getUserSummaries([
+    data.creatorId,
+    ...(data.entries || []).map((entry: any) => entry.addedByUserId),
+    ...(data.members || []).map((member: any) => member.userId),
+    ...(data.invitations || []).map((invitation: any) => invitation.userId)
+  ]);
+  const withUser = (item: any, key: string) => ({ ...item, user: users.get(item[key]) });
+  return {
+    ...data,
+    creator: users.has(data.creatorId) ? { id: data.creatorId, ...users.get(data.creatorId) } : undefined,
+    entries: (data.entries || []).map((entry: any) => withUser(entry, 'addedByUserId')),
+    members: (data.members || []).map((member: any) => withUser(member, 'userId')),
+    ...(data.invitations ? { invitations: data.invitations.map((invitation: any) => withUser(invitation, 'userId')) } : {})
+  };
+}
 
 export const getCollections = async (req: Request, res: Response) => {
   try {
+    const viewer = await getViewer(req);
     // Parse query parameters
     const type = req.query.type as 'public' | 'private' | undefined;
     const searchQuery = req.query.q as string | undefined;
@@ -43,14 +141,18 @@ export const getCollections = async (req: Request, res: Response) => {
       ];
     }
     
+    // Private collections are only listed for their members
+    const visibilityFilter = buildVisibilityFilter(viewer);
+    const scopedQuery = visibilityFilter ? { $and: [query, visibilityFilter] } : query;
+
     // Get collections with pagination
     const [collections, total] = await Promise.all([
-      Collection.find(query)
+      Collection.find(scopedQuery)
         .sort({ createdAt: -1 })
         .skip(skip)
         .limit(limit)
         .lean(),
-      Collection.countDocuments(query)
+      Collection.countDocuments(scopedQuery)
     ]);
     
     // Audit Phase-1 Fix: Replace "load all Article IDs" with exists() checks to avoid memory exhaustion
@@ -92,7 +194,7 @@ export const getCollections = async (req: Request, res: Response) => {
     
     // Return paginated response
     res.json({
-      data: normalizeDocs(validatedCollections),
+      data: validatedCollections.map(collection => toCollectionResponse(collection, viewer)),
       total,
       page,
       limit,
@@ -115,8 +217,12 @@ export const getCollections = async (req: Request, res: Response) => {
 
 export const getCollectionById = async (req: Request, res: Response) => {
   try {
+    const viewer = await getViewer(req);
     const collection = await Collection.findById(req.params.id).lean();
-    if (!collection) return res.status(404).json({ message: 'Collection not found' });
+    // Private collections are reported as missing rather than forbidden to non-members
+    if (!collection || !canViewCollection(collection, viewer)) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
     
     // Audit Phase-1 Fix: Replace "load all Article IDs" with exists() checks to avoid memory exhaustion
     // Validate each entry individually using exists() instead of loading all article IDs
@@ -148,7 +254,7 @@ export const getCollectionById = async (req: Request, res: Response) => {
       collection.validEntriesCount = validCount;
     }
     
-    res.json(normalizeDoc(collection));
+    res.json(await withUserSummaries(toCollectionResponse(collection, viewer)));
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
     const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
@@ -175,7 +281,10 @@ export const createCollection = async (req: Request, res: Response) => {
       });
     }
 
-    const { name, description, creatorId, type } = validationResult.data;
+    const { name, description, type } = validationResult.data;
+    // Ownership comes from the session; the body's creatorId is kept for older clients only
+    const currentUser = (req as any).user;
+    const creatorId: string = currentUser?.userId || validationResult.data.creatorId;
     const trimmedName = name.trim();
     const canonicalName = trimmedName.toLowerCase();
 
@@ -193,7 +302,18 @@ export const createCollection = async (req: Request, res: Response) => {
     const existingCollection = await Collection.findOne(query);
     if (existingCollection) {
       // Return existing collection instead of creating duplicate
-      return res.status(200).json(normalizeDoc(existingCollection));
+      return res.status(200).json(toCollectionResponse(existingCollection, await getViewer(req)));
+    }
+
+    // Unverified-account policy: admins may restrict public collections to verified emails
+    if ((type || 'public') === 'public' && currentUser?.userId) {
+      const allowed = await isAllowedForUnverified(currentUser.userId, currentUser.role, 'canCreatePublicCollections');
+      if (!allowed) {
+        return res.status(403).json({
+          message: 'Please verify your email address before creating public collections.',
+          code: 'EMAIL_NOT_VERIFIED'
+        });
+      }
     }
 
     const newCollection = await Collection.create({
@@ -206,10 +326,12 @@ export const createCollection = async (req: Request, res: Response) => {
       updatedAt: new Date().toISOString(),
       followersCount: 0,
       followers: [],
-      entries: []
+      entries: [],
+      members: [],
+      invitations: []
     });
     
-    res.status(201).json(normalizeDoc(newCollection));
+    res.status(201).json(toCollectionResponse(newCollection, await getViewer(req)));
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
     const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
@@ -228,15 +350,16 @@ export const createCollection = async (req: Request, res: Response) => {
       const trimmedName = (req.body.name || '').trim();
       const canonicalName = trimmedName.toLowerCase();
       const query: any = { canonicalName };
-      if (req.body.type === 'private' && req.body.creatorId) {
-        query.creatorId = req.body.creatorId;
+      const creatorId = (req as any).user?.userId || req.body.creatorId;
+      if (req.body.type === 'private' && creatorId) {
+        query.creatorId = creatorId;
         query.type = 'private';
       } else {
         query.type = 'public';
       }
       const existingCollection = await Collection.findOne(query);
       if (existingCollection) {
-        return res.status(200).json(normalizeDoc(existingCollection));
+        return res.status(200).json(toCollectionResponse(existingCollection, await getViewer(req)));
       }
       return res.status(409).json({ message: 'Collection already exists' });
     }
@@ -256,7 +379,29 @@ export const updateCollection = async (req: Request, res: Response) => {
       });
     }
 
+    const viewer = await getViewer(req);
+    const existing = await Collection.findById(req.params.id).lean();
+    if (!existing || !canViewCollection(existing, viewer)) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+    if (!canManageCollection(existing, viewer)) {
+      return res.status(403).json({ message: 'Only collection owners can edit this collection' });
+    }
+
     const updateData: any = { ...validationResult.data, updatedAt: new Date().toISOString() };
+    delete updateData.creatorId; // Ownership is not transferable through edits
+
+    // Unverified-account policy applies when a collection is switched to public
+    const currentUser = (req as any).user;
+    if (updateData.type === 'public' && currentUser?.userId) {
+      const allowed = await isAllowedForUnverified(currentUser.userId, currentUser.role, 'canCreatePublicCollections');
+      if (!allowed) {
+        return res.status(403).json({
+          message: 'Please verify your email address before creating public collections.',
+          code: 'EMAIL_NOT_VERIFIED'
+        });
+      }
+    }
     
     // If name is being updated, update both rawName and canonicalName
     if (updateData.name !== undefined) {
@@ -267,7 +412,7 @@ export const updateCollection = async (req: Request, res: Response) => {
       const existingCollection = await Collection.findOne({
         canonicalName,
         _id: { $ne: req.params.id }, // Exclude current collection
-        ...(updateData.type === 'private' ? { creatorId: updateData.creatorId || (await Collection.findById(req.params.id))?.creatorId } : { type: 'public' })
+        ...(updateData.type === 'private' ? { creatorId: existing.creatorId } : { type: 'public' })
       });
       
       if (existingCollection) {
@@ -286,7 +431,7 @@ export const updateCollection = async (req: Request, res: Response) => {
     );
     
     if (!collection) return res.status(404).json({ message: 'Collection not found' });
-    res.json(normalizeDoc(collection));
+    res.json(toCollectionResponse(collection, viewer));
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
     const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
@@ -310,8 +455,15 @@ export const updateCollection = async (req: Request, res: Response) => {
 
 export const deleteCollection = async (req: Request, res: Response) => {
   try {
-    const collection = await Collection.findByIdAndDelete(req.params.id);
-    if (!collection) return res.status(404).json({ message: 'Collection not found' });
+    const viewer = await getViewer(req);
+    const collection = await Collection.findById(req.params.id).lean();
+    if (!collection || !canViewCollection(collection, viewer)) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+    if (!canManageCollection(collection, viewer)) {
+      return res.status(403).json({ message: 'Only collection owners can delete this collection' });
+    }
+    await Collection.deleteOne({ _id: collection._id });
     res.status(204).send();
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
@@ -339,11 +491,21 @@ export const addEntry = async (req: Request, res: Response) => {
       });
     }
 
-    const { articleId, userId } = validationResult.data;
+    const { articleId } = validationResult.data;
+    const viewer = await getViewer(req);
+    const userId = viewer.userId!; // Route requires authentication
+
+    const target = await Collection.findById(req.params.id).select('creatorId type members').lean();
+    if (!target || !canViewCollection(target, viewer)) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+    if (!canAddEntries(target, viewer)) {
+      return res.status(403).json({ message: 'You do not have permission to add to this collection' });
+    }
     
     // Audit Phase-2 Fix: Validate article exists before adding to collection
-    const articleExists = await Article.exists({ _id: articleId });
-    if (!articleExists) {
+    const article = await Article.findById(articleId).select('authorId title').lean();
+    if (!article) {
       return res.status(400).json({ 
         message: `Article ${articleId} does not exist` 
       });
@@ -385,7 +547,7 @@ export const addEntry = async (req: Request, res: Response) => {
         return res.status(404).json({ message: 'Collection not found' });
       }
       // Entry already exists, return the collection as-is
-      return res.json(normalizeDoc(existingCollection));
+      return res.json(toCollectionResponse(existingCollection, viewer));
     }
 
     // Ensure validEntriesCount is initialized and matches entries length
@@ -401,7 +563,18 @@ export const addEntry = async (req: Request, res: Response) => {
       }
     }
 
-    res.json(normalizeDoc(collection));
+    // Private collections stay private: their name is not sent to the author
+    if (collection.type === 'public') {
+      await notify({
+        userId: article.authorId,
+        type: 'collection_entry_added',
+        actorId: userId,
+        message: `added your nugget ${quoteTitle(article.title, 'Untitled nugget')} to ${quoteTitle(collection.rawName, 'a collection')}`,
+        link: `/collections/${collection._id}`
+      });
+    }
+
+    res.json(toCollectionResponse(collection, viewer));
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
     const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
@@ -419,9 +592,23 @@ export const addEntry = async (req: Request, res: Response) => {
 
 export const removeEntry = async (req: Request, res: Response) => {
   try {
+    const viewer = await getViewer(req);
+    const target = await Collection.findById(req.params.id);
+    if (!target || !canViewCollection(target, viewer)) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+    const entry = target.entries.find(e => e.articleId === req.params.articleId);
+    if (!entry) {
+      // Already removed
+      return res.json(toCollectionResponse(target, viewer));
+    }
+    if (!canRemoveEntry(target, entry, viewer)) {
+      return res.status(403).json({ message: 'You do not have permission to remove this entry' });
+    }
+
     // Use findOneAndUpdate with $pull to atomically remove the entry
     const collection = await Collection.findOneAndUpdate(
-      { _id: req.params.id },
+      { _id: req.params.id, 'entries.articleId': req.params.articleId },
       {
         $pull: {
           entries: { articleId: req.params.articleId }
@@ -439,7 +626,10 @@ export const removeEntry = async (req: Request, res: Response) => {
     );
     
     if (!collection) {
-      return res.status(404).json({ message: 'Collection not found' });
+      // Removed by a concurrent request in the meantime
+      const current = await Collection.findById(req.params.id);
+      if (!current) return res.status(404).json({ message: 'Collection not found' });
+      return res.json(toCollectionResponse(current, viewer));
     }
 
     // Ensure validEntriesCount doesn't go negative and matches entries length
@@ -457,7 +647,7 @@ export const removeEntry = async (req: Request, res: Response) => {
       }
     }
 
-    res.json(normalizeDoc(collection));
+    res.json(toCollectionResponse(collection, viewer));
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
     const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
@@ -484,24 +674,22 @@ export const flagEntry = async (req: Request, res: Response) => {
       });
     }
 
-    const { userId } = validationResult.data;
-    const collection = await Collection.findById(req.params.id);
-    
-    if (!collection) {
+    // Flags count once per signed-in user; any userId in the body is ignored
+    const viewer = await getViewer(req);
+    if (!viewer.userId) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    const target = await Collection.findById(req.params.id).lean();
+    if (!target || !canViewCollection(target, viewer)) {
       return res.status(404).json({ message: 'Collection not found' });
     }
 
-    const entry = collection.entries.find(
-      (e: any) => e.articleId === req.params.articleId
-    );
-
-    if (entry && !entry.flaggedBy.includes(userId)) {
-      entry.flaggedBy.push(userId);
-      collection.updatedAt = new Date().toISOString();
-      await collection.save();
+    const collection = await recordEntryFlag(req.params.id, req.params.articleId, viewer.userId);
+    if (!collection) {
+      return res.status(404).json({ message: 'Entry not found in collection' });
     }
 
-    res.json(normalizeDoc(collection));
+    res.json(await withUserSummaries(toCollectionResponse(collection, viewer)));
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
     const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
@@ -525,7 +713,7 @@ export const followCollection = async (req: Request, res: Response) => {
     }
 
     const collection = await Collection.findById(req.params.id);
-    if (!collection) {
+    if (!collection || !canViewCollection(collection, await getViewer(req))) {
       return res.status(404).json({ message: 'Collection not found' });
     }
 
@@ -536,9 +724,18 @@ export const followCollection = async (req: Request, res: Response) => {
       collection.followersCount = (collection.followersCount || 0) + 1;
       collection.updatedAt = new Date().toISOString();
       await collection.save();
+
+      await notify({
+        userId: collection.creatorId,
+        type: 'collection_follower',
+        actorId: userId,
+        message: `started following ${quoteTitle(collection.rawName, 'your collection')}`,
+        link: `/collections/${collection._id}`,
+        dedupeKey: `follower:${collection._id}:${userId}` // Follow/unfollow toggling adds one notification
+      });
     }
 
-    res.json(normalizeDoc(collection));
+    res.json(toCollectionResponse(collection, await getViewer(req)));
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
     const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
@@ -562,7 +759,7 @@ export const unfollowCollection = async (req: Request, res: Response) => {
     }
 
     const collection = await Collection.findById(req.params.id);
-    if (!collection) {
+    if (!collection || !canViewCollection(collection, await getViewer(req))) {
       return res.status(404).json({ message: 'Collection not found' });
     }
 
@@ -574,7 +771,7 @@ export const unfollowCollection = async (req: Request, res: Response) => {
       await collection.save();
     }
 
-    res.json(normalizeDoc(collection));
+    res.json(toCollectionResponse(collection, await getViewer(req)));
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
     const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
@@ -589,3 +786,668 @@ export const unfollowCollection = async (req: Request, res: Response) => {
     res.status(500).json({ message: 'Internal server error' });
   }
 };
+
+// ============================================================================
+// MEMBERSHIP & INVITATIONS
+// ============================================================================
+
+/**
+ * GET /api/collections/invitations
+ * Pending invitations for the current user
+ */
+export const getMyInvitations = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    const collections = await Collection.find({ 'invitations.userId': userId })
+      .select('rawName description type creatorId invitations')
+      .sort({ updatedAt: -1 })
+      .limit(100)
+      .lean();
+
+    const invitations = collections.map(collection => ({
+      collectionId: String(collection._id),
+      collectionName: collection.rawName,
+      description: collection.description,
+      type: collection.type,
+      ...collection.invitations.find(invitation => invitation.userId === userId)!
+    }));
+    const inviters = await getUserSummaries(invitations.map(invitation => invitation.invitedBy));
+
+    res.json({
+      data: invitations.map(invitation => ({ ...invitation, inviter: inviters.get(invitation.invitedBy) }))
+    });
+  } catch (error: any) {
+    handleCollectionError(req, res, error, '[Collections] Get invitations error');
+  }
+};
+
+/**
+ * POST /api/collections/:id/invitations
+ * Invite a user by username (owners only). Re-inviting updates the offered role.
+ */
+export const inviteMember = async (req: Request, res: Response) => {
+  try {
+    const validationResult = inviteCollectionMemberSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: validationResult.error.issues.map(err => ({ path: err.path.map(String), message: err.message }))
+      });
+    }
+    const { username, role } = validationResult.data;
+
+    const viewer = await getViewer(req);
+    const collection = await Collection.findById(req.params.id);
+    if (!collection || !canViewCollection(collection, viewer)) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+    if (!canManageCollection(collection, viewer)) {
+      return res.status(403).json({ message: 'Only collection owners can invite members' });
+    }
+
+    const invitee = await User.findOne({ 'profile.username': username.toLowerCase() }).select('_id').lean();
+    if (!invitee) {
+      return res.status(404).json({ message: `No user named @${username}` });
+    }
+    const inviteeId = String(invitee._id);
+    if (getCollectionRole(collection, inviteeId)) {
+      return res.status(409).json({ message: 'This user is already a member of the collection' });
+    }
+
+    collection.invitations = collection.invitations.filter(invitation => invitation.userId !== inviteeId);
+    collection.invitations.push({
+      userId: inviteeId,
+      role,
+      invitedBy: viewer.userId!,
+      invitedAt: new Date().toISOString()
+    });
+    collection.updatedAt = new Date().toISOString();
+    await collection.save();
+
+    await notify({
+      userId: inviteeId,
+      type: 'collection_invitation',
+      actorId: viewer.userId!,
+      message: `invited you to ${quoteTitle(collection.rawName, 'a collection')} as ${role === 'viewer' ? 'a viewer' : `an ${role}`}`,
+      link: '/collections',
+      dedupeKey: `invitation:${collection._id}`
+    });
+
+    res.status(201).json(await withUserSummaries(toCollectionResponse(collection, viewer)));
+  } catch (error: any) {
+    handleCollectionError(req, res, error, '[Collections] Invite member error');
+  }
+};
+
+/**
+ * DELETE /api/collections/:id/invitations/:userId
+ * Withdraw a pending invitation (owners only)
+ */
+export const cancelInvitation = async (req: Request, res: Response) => {
+  try {
+    const viewer = await getViewer(req);
+    const collection = await Collection.findById(req.params.id).lean();
+    if (!collection || !canViewCollection(collection, viewer)) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+    if (!canManageCollection(collection, viewer)) {
+      return res.status(403).json({ message: 'Only collection owners can manage invitations' });
+    }
+
+    const updated = await Collection.findByIdAndUpdate(
+      req.params.id,
+      { $pull: { invitations: { userId: req.params.userId } }, $set: { updatedAt: new Date().toISOString() } },
+      { new: true }
+    );
+    res.json(await withUserSummaries(toCollectionResponse(updated, viewer)));
+  } catch (error: any) {
+    handleCollectionError(req, res, error, '[Collections] Cancel invitation error');
+  }
+};
+
+/**
+ * POST /api/collections/:id/invitations/accept
+ * Join a collection with the role offered in the invitation
+ */
+export const acceptInvitation = async (req: Request, res: Response) => {
+  try {
+    const viewer = await getViewer(req);
+    const userId = viewer.userId!;
+    const collection = await Collection.findOne({ _id: req.params.id, 'invitations.userId': userId }).lean();
+    const invitation = collection?.invitations.find(item => item.userId === userId);
+    if (!collection || !invitation) {
+      return res.status(404).json({ message: 'Invitation not found' });
+    }
+
+    const member: ICollectionMember = {
+      userId,
+      role: invitation.role,
+      addedAt: new Date().toISOString(),
+      invitedBy: invitation.invitedBy
+    };
+    // Conditional update so a double submit cannot add the member twice
+    const updated = await Collection.findOneAndUpdate(
+      { _id: req.params.id, 'invitations.userId': userId, 'members.userId': { $ne: userId } },
+      {
+        $pull: { invitations: { userId } },
+        $push: { members: member },
+        $set: { updatedAt: new Date().toISOString() }
+      },
+      { new: true }
+    );
+    if (!updated) {
+      return res.status(409).json({ message: 'Invitation was already handled' });
+    }
+    res.json(await withUserSummaries(toCollectionResponse(updated, viewer)));
+  } catch (error: any) {
+    handleCollectionError(req, res, error, '[Collections] Accept invitation error');
+  }
+};
+
+/**
+ * POST /api/collections/:id/invitations/decline
+ */
+export const declineInvitation = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    const updated = await Collection.findOneAndUpdate(
+      { _id: req.params.id, 'invitations.userId': userId },
+      { $pull: { invitations: { userId } }, $set: { updatedAt: new Date().toISOString() } }
+    );
+    if (!updated) {
+      return res.status(404).json({ message: 'Invitation not found' });
+    }
+    res.status(204).send();
+  } catch (error: any) {
+    handleCollectionError(req, res, error, '[Collections] Decline invitation error');
+  }
+};
+
+/**
+ * PATCH /api/collections/:id/members/:userId
+ * Change a member's role (owners only). The creator's role is fixed.
+ */
+export const updateMemberRole = async (req: Request, res: Response) => {
+  try {
+    const validationResult = updateCollectionMemberSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: validationResult.error.issues.map(err => ({ path: err.path.map(String), message: err.message }))
+      });
+    }
+
+    const viewer = await getViewer(req);
+    const collection = await Collection.findById(req.params.id).lean();
+    if (!collection || !canViewCollection(collection, viewer)) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+    if (!canManageCollection(collection, viewer)) {
+      return res.status(403).json({ message: 'Only collection owners can change member roles' });
+    }
+
+    const updated = await Collection.findOneAndUpdate(
+      { _id: req.params.id, 'members.userId': req.params.userId },
+      { $set: { 'members.$.role': validationResult.data.role, updatedAt: new Date().toISOString() } },
+      { new: true }
+    );
+    if (!updated) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+    res.json(await withUserSummaries(toCollectionResponse(updated, viewer)));
+  } catch (error: any) {
+    handleCollectionError(req, res, error, '[Collections] Update member role error');
+  }
+};
+
+/**
+ * DELETE /api/collections/:id/members/:userId
+ * Owners remove members; any member may remove themselves (leave).
+ * Entries the member added stay in the collection.
+ */
+export const removeMember = async (req: Request, res: Response) => {
+  try {
+    const viewer = await getViewer(req);
+    const collection = await Collection.findById(req.params.id).lean();
+    if (!collection || !canViewCollection(collection, viewer)) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+    const isSelf = req.params.userId === viewer.userId;
+    if (!isSelf && !canManageCollection(collection, viewer)) {
+      return res.status(403).json({ message: 'Only collection owners can remove members' });
+    }
+    if (req.params.userId === collection.creatorId) {
+      return res.status(400).json({ message: 'The collection creator cannot be removed' });
+    }
+
+    const updated = await Collection.findOneAndUpdate(
+      { _id: req.params.id, 'members.userId': req.params.userId },
+      { $pull: { members: { userId: req.params.userId } }, $set: { updatedAt: new Date().toISOString() } },
+      { new: true }
+    );
+    if (!updated) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+    if (isSelf) {
+      return res.status(204).send();
+    }
+    res.json(await withUserSummaries(toCollectionResponse(updated, viewer)));
+  } catch (error: any) {
+    handleCollectionError(req, res, error, '[Collections] Remove member error');
+  }
+};
+
+const ARRANGE_ATTEMPTS = 3;
+
+/**
+ * Rewrite a collection's entries or sections in one update, guarded by
+ * `updatedAt` so a concurrent add, remove or move is never overwritten.
+ * Recomputes from fresh state on conflict unless the client pinned the
+ * version it arranged against, in which case the conflict is reported.
+ * Returns null when the collection is gone, 'conflict' when it changed.
+ */
+async function arrangeCollection(
+  collectionId: string,
+  expectedUpdatedAt: string | undefined,
+  compute: (collection: any) => Record<string, unknown>
+): Promise<any | null | 'conflict'> {
+  for (let attempt = 0; attempt < ARRANGE_ATTEMPTS; attempt++) {
+    const current = await Collection.findById(collectionId).lean();
+    if (!current) return null;
+    if (expectedUpdatedAt && current.updatedAt !== expectedUpdatedAt) return 'conflict';
+
+    const updated = await Collection.findOneAndUpdate(
+      { _id: collectionId, updatedAt: current.updatedAt },
+      { $set: { ...compute(current), updatedAt: new Date().toISOString() } },
+      { new: true, runValidators: true }
+    );
+    if (updated) return updated;
+    if (expectedUpdatedAt) return 'conflict';
+  }
+  return 'conflict';
+}
+
+/**
+ * Load a collection and check the viewer may arrange it, answering with
+ * 404/403 when not. Returns the collection, or null once a response was sent.
+ */
+async function loadForArranging(req: Request, res: Response, viewer: CollectionViewer) {
+  const collection = await Collection.findById(req.params.id).lean();
+  if (!collection || !canViewCollection(collection, viewer)) {
+    res.status(404).json({ message: 'Collection not found' });
+    return null;
+  }
+  if (!canArrangeEntries(collection, viewer)) {
+    res.status(403).json({ message: 'Only collection editors can arrange entries' });
+    return null;
+  }
+  return collection;
+}
+
+/**
+ * PUT /api/collections/:id/entries/:articleId/position
+ * Move an entry to a position within a section (or the top group when
+ * sectionId is null). Editors and owners only.
+ */
+export const moveCollectionEntry = async (req: Request, res: Response) => {
+  try {
+    const validationResult = moveEntrySchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: validationResult.error.issues.map(err => ({ path: err.path.map(String), message: err.message }))
+      });
+    }
+
+    const viewer = await getViewer(req);
+    if (!(await loadForArranging(req, res, viewer))) return;
+
+    const { sectionId, index, expectedUpdatedAt } = validationResult.data;
+    const result = await arrangeCollection(req.params.id, expectedUpdatedAt, current => ({
+      entries: moveEntry(current.entries, current.sections || [], { articleId: req.params.articleId, sectionId, index })
+    }));
+    if (result === null) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+    if (result === 'conflict') {
+      return res.status(409).json({ message: 'Collection was changed by someone else. Reload and try again.' });
+    }
+    res.json(await withUserSummaries(toCollectionResponse(result, viewer)));
+  } catch (error: any) {
+    if (error instanceof OrderingError) {
+      return res.status(404).json({ message: error.message });
+    }
+    handleCollectionError(req, res, error, '[Collections] Move entry error');
+  }
+};
+
+/**
+ * PATCH /api/collections/:id/entries/:articleId
+ * Set or clear the curator note on an entry. Editors and owners only.
+ */
+export const updateCollectionEntry = async (req: Request, res: Response) => {
+  try {
+    const validationResult = updateEntrySchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: validationResult.error.issues.map(err => ({ path: err.path.map(String), message: err.message }))
+      });
+    }
+
+    const viewer = await getViewer(req);
+    if (!(await loadForArranging(req, res, viewer))) return;
+
+    const now = new Date().toISOString();
+    const note = validationResult.data.note || null;
+    const update = note
+      ? { $set: { 'entries.$.note': note, 'entries.$.noteUpdatedBy': viewer.userId, 'entries.$.noteUpdatedAt': now, updatedAt: now } }
+      : {
+          $unset: { 'entries.$.note': '', 'entries.$.noteUpdatedBy': '', 'entries.$.noteUpdatedAt': '' },
+          $set: { updatedAt: now }
+        };
+
+    const updated = await Collection.findOneAndUpdate(
+      { _id: req.params.id, 'entries.articleId': req.params.articleId },
+      update,
+      { new: true }
+    );
+    if (!updated) {
+      return res.status(404).json({ message: 'Entry not found in collection' });
+    }
+    res.json(await withUserSummaries(toCollectionResponse(updated, viewer)));
+  } catch (error: any) {
+    handleCollectionError(req, res, error, '[Collections] Update entry error');
+  }
+};
+
+/**
+ * POST /api/collections/:id/sections
+ * Add a section heading at the end of the collection. Editors and owners only.
+ */
+export const createSection = async (req: Request, res: Response) => {
+  try {
+    const validationResult = createSectionSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: validationResult.error.issues.map(err => ({ path: err.path.map(String), message: err.message }))
+      });
+    }
+
+    const viewer = await getViewer(req);
+    if (!(await loadForArranging(req, res, viewer))) return;
+
+    const now = new Date().toISOString();
+    const section = { id: new mongoose.Types.ObjectId().toString(), title: validationResult.data.title, createdAt: now };
+    const updated = await Collection.findByIdAndUpdate(
+      req.params.id,
+      { $push: { sections: section }, $set: { updatedAt: now } },
+      { new: true, runValidators: true }
+    );
+    if (!updated) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+    res.status(201).json(await withUserSummaries(toCollectionResponse(updated, viewer)));
+  } catch (error: any) {
+    handleCollectionError(req, res, error, '[Collections] Create section error');
+  }
+};
+
+/**
+ * PATCH /api/collections/:id/sections/:sectionId
+ * Rename a section and/or move it to a new position. Editors and owners only.
+ */
+export const updateSection = async (req: Request, res: Response) => {
+  try {
+    const validationResult = updateSectionSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: validationResult.error.issues.map(err => ({ path: err.path.map(String), message: err.message }))
+      });
+    }
+
+    const viewer = await getViewer(req);
+    if (!(await loadForArranging(req, res, viewer))) return;
+
+    const { title, index } = validationResult.data;
+    const result = await arrangeCollection(req.params.id, undefined, current => {
+      let sections = (current.sections || []).map((section: any) =>
+        section.id === req.params.sectionId && title ? { ...section, title } : section
+      );
+      if (index !== undefined) {
+        sections = moveSection(sections, req.params.sectionId, index);
+      } else if (!sections.some((section: any) => section.id === req.params.sectionId)) {
+        throw new OrderingError('Section not found in collection');
+      }
+      return { sections };
+    });
+    if (result === null) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+    if (result === 'conflict') {
+      return res.status(409).json({ message: 'Collection was changed by someone else. Reload and try again.' });
+    }
+    res.json(await withUserSummaries(toCollectionResponse(result, viewer)));
+  } catch (error: any) {
+    if (error instanceof OrderingError) {
+      return res.status(404).json({ message: error.message });
+    }
+    handleCollectionError(req, res, error, '[Collections] Update section error');
+  }
+};
+
+/**
+ * DELETE /api/collections/:id/sections/:sectionId
+ * Remove a section heading; its entries move to the top group in the same
+ * update. Editors and owners only.
+ */
+export const deleteSection = async (req: Request, res: Response) => {
+  try {
+    const viewer = await getViewer(req);
+    if (!(await loadForArranging(req, res, viewer))) return;
+
+    const updated = await Collection.findOneAndUpdate(
+      { _id: req.params.id, 'sections.id': req.params.sectionId },
+      {
+        $pull: { sections: { id: req.params.sectionId } },
+        $unset: { 'entries.$[entry].sectionId': '' },
+        $set: { updatedAt: new Date().toISOString() }
+      },
+      { new: true, arrayFilters: [{ 'entry.sectionId': req.params.sectionId }] }
+    );
+    if (!updated) {
+      return res.status(404).json({ message: 'Section not found in collection' });
+    }
+    res.json(await withUserSummaries(toCollectionResponse(updated, viewer)));
+  } catch (error: any) {
+    handleCollectionError(req, res, error, '[Collections] Delete section error');
+  }
+};
+
+/**
+ * POST /api/collections/:id/entries/:articleId/review
+ * Decide on a flagged entry: keep it (clearing its flags) or remove it.
+ * Closes the linked moderation report. Editors and owners only.
+ */
+export const reviewCollectionEntry = async (req: Request, res: Response) => {
+  try {
+    const validationResult = reviewEntrySchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: validationResult.error.issues.map(err => ({ path: err.path.map(String), message: err.message }))
+      });
+    }
+
+    const viewer = await getViewer(req);
+    if (!(await loadForArranging(req, res, viewer))) return;
+
+    const updated = await reviewEntry(req.params.id, req.params.articleId, validationResult.data.decision, viewer.userId!);
+    if (!updated) {
+      return res.status(404).json({ message: 'Entry not found in collection' });
+    }
+    res.json(await withUserSummaries(toCollectionResponse(updated, viewer)));
+  } catch (error: any) {
+    handleCollectionError(req, res, error, '[Collections] Review entry error');
+  }
+};
+
+/**
+ * Unread entries in followed collections for a user
+ */
+async function countUnreadFollowedEntries(userId: string, viewer: CollectionViewer, readAt?: string): Promise<number> {
+  const [result] = await Collection.aggregate([
+    ...buildFollowedEntriesStages(userId, getUnreadSince(readAt), buildVisibilityFilter(viewer), Article.collection.name) as PipelineStage[],
+    { $count: 'total' }
+  ]);
+  return result?.total ?? 0;
+}
+
+/**
+ * GET /api/collections/following/feed
+ * Entries recently added to collections the user follows, newest first.
+ * `unread=true` limits the feed to entries added since the last read.
+ * Articles the user cannot see are left out of the page.
+ */
+export const getFollowingFeed = async (req: Request, res: Response) => {
+  try {
+    const viewer = await getViewer(req);
+    const userId = viewer.userId!;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 50);
+    const unreadOnly = req.query.unread === 'true';
+
+    const user = await User.findById(userId).select('appState.followingFeedReadAt').lean();
+    const readAt = user?.appState?.followingFeedReadAt;
+    const unreadSince = getUnreadSince(readAt);
+
+    const [result] = await Collection.aggregate([
+      ...buildFollowedEntriesStages(
+        userId,
+        unreadOnly ? unreadSince : getFeedWindowStart(),
+        buildVisibilityFilter(viewer),
+        Article.collection.name
+      ) as PipelineStage[],
+      { $sort: { 'entries.addedAt': -1 } },
+      {
+        $facet: {
+          items: [
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+            { $project: { _id: 1, rawName: 1, entry: '$entries' } }
+          ],
+          total: [{ $count: 'count' }]
+        }
+      }
+    ]);
+    const items: Array<{ _id: unknown; rawName: string; entry: any }> = result?.items ?? [];
+    const total: number = result?.total?.[0]?.count ?? 0;
+
+    const articleIds = [...new Set(items.map(item => item.entry.articleId))]
+      .filter(id => mongoose.Types.ObjectId.isValid(id));
+    const articles = await Article.find({
+      _id: { $in: articleIds },
+      $or: [{ visibility: 'public' }, { visibility: { $exists: false } }, { authorId: userId }]
+    });
+    const articlesById = new Map(
+      (await attachImageVariants(normalizeDocs(articles))).map(article => [article.id, article])
+    );
+    const users = await getUserSummaries(items.map(item => item.entry.addedByUserId));
+
+    const data = items
+      .filter(item => articlesById.has(item.entry.articleId))
+      .map(item => ({
+        collection: { id: String(item._id), name: item.rawName },
+        entry: {
+          articleId: item.entry.articleId,
+          addedAt: item.entry.addedAt,
+          addedByUserId: item.entry.addedByUserId,
+          user: users.get(item.entry.addedByUserId),
+          note: item.entry.note
+        },
+        article: articlesById.get(item.entry.articleId),
+        isUnread: item.entry.addedAt > unreadSince
+      }));
+
+    res.json({
+      data,
+      total,
+      page,
+      limit,
+      hasMore: page * limit < total,
+      unreadCount: unreadOnly ? total : await countUnreadFollowedEntries(userId, viewer, readAt),
+      lastReadAt: readAt ?? null
+    });
+  } catch (error: any) {
+    handleCollectionError(req, res, error, '[Collections] Get following feed error');
+  }
+};
+
+/**
+ * GET /api/collections/following/unread-count
+ * Number of unread entries in followed collections (header badge)
+ */
+export const getFollowingUnreadCount = async (req: Request, res: Response) => {
+  try {
+    const viewer = await getViewer(req);
+    const user = await User.findById(viewer.userId).select('appState.followingFeedReadAt').lean();
+    const unreadCount = await countUnreadFollowedEntries(viewer.userId!, viewer, user?.appState?.followingFeedReadAt);
+    res.json({ unreadCount });
+  } catch (error: any) {
+    handleCollectionError(req, res, error, '[Collections] Get following unread count error');
+  }
+};
+
+/**
+ * POST /api/collections/following/read
+ * Mark the following feed read up to `until` (the newest entry the client
+ * showed), defaulting to now. The marker never moves backwards.
+ */
+export const markFollowingFeedRead = async (req: Request, res: Response) => {
+  try {
+    const validationResult = markFollowingReadSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: validationResult.error.issues.map(err => ({ path: err.path.map(String), message: err.message }))
+      });
+    }
+
+    const viewer = await getViewer(req);
+    const now = new Date().toISOString();
+    const requested = validationResult.data.until;
+    const readAt = requested && requested < now ? requested : now;
+
+    await User.updateOne(
+      {
+        _id: viewer.userId,
+        $or: [
+          { 'appState.followingFeedReadAt': { $exists: false } },
+          { 'appState.followingFeedReadAt': { $lt: readAt } }
+        ]
+      },
+      { $set: { 'appState.followingFeedReadAt': readAt } }
+    );
+
+    const user = await User.findById(viewer.userId).select('appState.followingFeedReadAt').lean();
+    const lastReadAt = user?.appState?.followingFeedReadAt;
+    res.json({ lastReadAt: lastReadAt ?? null, unreadCount: await countUnreadFollowedEntries(viewer.userId!, viewer, lastReadAt) });
+  } catch (error: any) {
+    handleCollectionError(req, res, error, '[Collections] Mark following feed read error');
+  }
+};
+
+function handleCollectionError(req: Request, res: Response, error: any, msg: string) {
+  const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
+  requestLogger.error({
+    msg,
+    error: {
+      message: error.message,
+      stack: error.stack,
+    },
+  });
+  captureException(error instanceof Error ? error : new Error(String(error)), { requestId: req.id, route: req.path });
+  res.status(500).json({ message: 'Internal server error' });
+}
@@ -0,0 +1,260 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { Article } from '../models/Article.js';
+import { Comment, IComment } from '../models/Comment.js';
+import { User } from '../models/User.js';
+import { normalizeDoc, normalizeDocs } from '../utils/db.js';
+import { getOptionalViewer } from '../middleware/authenticateToken.js';
+import {
+  MAX_COMMENT_LENGTH,
+  buildCommentTree,
+  getCommentPermissions,
+  resolveReplyPlacement,
+  CommentViewer
+} from '../utils/commentThreads.js';
+import { createRequestLogger } from '../utils/logger.js';
+import { captureException } from '../utils/sentry.js';
+import {
+  sendErrorResponse,
+  sendValidationError,
+  sendUnauthorizedError,
+  sendForbiddenError,
+  sendNotFoundError,
+  sendInternalError
+} from '../utils/errorResponse.js';
+
+const commentContentSchema = z.string()
+  .trim()
+  .min(1, 'Comment cannot be empty')
+  .max(MAX_COMMENT_LENGTH, `Comment must be at most ${MAX_COMMENT_LENGTH} characters`);
+
+const createCommentSchema = z.object({
+  content: commentContentSchema,
+  parentId: z.string().optional()
+});
+
+const updateCommentSchema = z.object({
+  content: commentContentSchema
+});
+
+/**
+ * Viewer from req.user (authenticated routes) or an optional bearer token (public reads)
+ */
+async function getViewer(req: Request): Promise<CommentViewer> {
+  const user = await getOptionalViewer(req);
+  return user ? { userId: user.userId, isAdmin: user.role === 'admin' } : {};
+}
+
+/**
+ * Load an article the viewer may read; sends 404/403 and returns null otherwise
+ */
+async function findReadableArticle(req: Request, res: Response, articleId: string, viewer: CommentViewer) {
+  if (!mongoose.Types.ObjectId.isValid(articleId)) {
+    sendNotFoundError(res, 'Article not found');
+    return null;
+  }
+  const article = await Article.findById(articleId).select('authorId visibility').lean();
+  if (!article) {
+    sendNotFoundError(res, 'Article not found');
+    return null;
+  }
+  if (article.visibility === 'private' && article.authorId !== viewer.userId) {
+    sendForbiddenError(res, 'This article is private');
+    return null;
+  }
+  return article;
+}
+
+function toCommentResponse(comment: IComment, viewer: CommentViewer) {
+  const data = normalizeDoc(comment);
+  return { ...data, ...getCommentPermissions(data, viewer), replies: [] };
+}
+
+function handleCommentError(req: Request, res: Response, error: any, msg: string) {
+  const requestLogger = createRequestLogger(req.id || 'unknown', (req as any).user?.userId, req.path);
+  requestLogger.error({ msg, error: { message: error.message, stack: error.stack } });
+  captureException(error instanceof Error ? error : new Error(String(error)), { requestId: req.id, route: req.path });
+  sendInternalError(res);
+}
+
+/**
+ * GET /api/articles/:id/comments
+ * Full thread for a nugget, nested by reply
+ */
+export const getComments = async (req: Request, res: Response) => {
+  try {
+    const viewer = await getViewer(req);
+    const article = await findReadableArticle(req, res, req.params.id, viewer);
+    if (!article) return;
+
+    const comments = await Comment.find({ articleId: req.params.id }).sort({ createdAt: 1 }).lean();
+    const data = buildCommentTree(normalizeDocs(comments), viewer);
+
+    res.json({
+      data,
+      total: comments.filter(comment => comment.status === 'visible').length
+    });
+  } catch (error: any) {
+    handleCommentError(req, res, error, '[Comments] Get comments error');
+  }
+};
+
+/**
+ * POST /api/articles/:id/comments
+ * Body: { content, parentId? }
+ */
+export const createComment = async (req: Request, res: Response) => {
+  try {
+    const viewer = await getViewer(req);
+    if (!viewer.userId) {
+      return sendUnauthorizedError(res, 'Authentication required');
+    }
+
+    const validationResult = createCommentSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return sendValidationError(res, 'Validation failed', validationResult.error.issues.map(err => ({
+        path: err.path.map(String),
+        message: err.message
+      })));
+    }
+
+    const article = await findReadableArticle(req, res, req.params.id, viewer);
+    if (!article) return;
+
+    let placement: { parentId: string | null; depth: number } = { parentId: null, depth: 0 };
+    const { parentId, content } = validationResult.data;
+    if (parentId) {
+      const parent = mongoose.Types.ObjectId.isValid(parentId)
+        ? await Comment.findOne({ _id: parentId, articleId: req.params.id }).lean()
+        : null;
+      if (!parent) {
+        return sendNotFoundError(res, 'Parent comment not found');
+      }
+      if (parent.status === 'deleted') {
+        return sendErrorResponse(res, 400, 'Cannot reply to a deleted comment', 'COMMENT_DELETED');
+      }
+      placement = resolveReplyPlacement({ id: String(parent._id), parentId: parent.parentId, depth: parent.depth });
+    }
+
+    const user = await User.findById(viewer.userId).select('profile').lean();
+    if (!user) {
+      return sendUnauthorizedError(res, 'User not found');
+    }
+
+    const comment = await Comment.create({
+      articleId: req.params.id,
+      ...placement,
+      author: {
+        id: viewer.userId,
+        name: user.profile?.displayName || user.profile?.username || 'Unknown',
+        username: user.profile?.username,
+        avatarUrl: user.profile?.avatarUrl
+      },
+      content,
+      status: 'visible',
+      createdAt: new Date().toISOString()
+    });
+
+    res.status(201).json(toCommentResponse(comment, viewer));
+  } catch (error: any) {
+    handleCommentError(req, res, error, '[Comments] Create comment error');
+  }
+};
+
+/**
+ * PATCH /api/comments/:commentId
+ * Authors can edit within the edit window
+ */
+export const updateComment = async (req: Request, res: Response) => {
+  try {
+    const viewer = await getViewer(req);
+    if (!viewer.userId) {
+      return sendUnauthorizedError(res, 'Authentication required');
+    }
+
+    const validationResult = updateCommentSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return sendValidationError(res, 'Validation failed', validationResult.error.issues.map(err => ({
+        path: err.path.map(String),
+        message: err.message
+      })));
+    }
+
+    const comment = mongoose.Types.ObjectId.isValid(req.params.commentId)
+      ? await Comment.findById(req.params.commentId)
+      : null;
+    if (!comment || comment.status === 'deleted') {
+      return sendNotFoundError(res, 'Comment not found');
+    }
+
+    if (comment.author.id !== viewer.userId) {
+      return sendForbiddenError(res, 'You can only edit your own comments');
+    }
+    if (!getCommentPermissions(comment, viewer).canEdit) {
+      return sendErrorResponse(res, 403, 'The edit window for this comment has closed', 'COMMENT_EDIT_WINDOW_CLOSED');
+    }
+
+    const now = new Date().toISOString();
+    comment.content = validationResult.data.content;
+    comment.editedAt = now;
+    comment.updatedAt = now;
+    await comment.save();
+
+    res.json(toCommentResponse(comment, viewer));
+  } catch (error: any) {
+    handleCommentError(req, res, error, '[Comments] Update comment error');
+  }
+};
+
+/**
+ * DELETE /api/comments/:commentId
+ * Authors within the delete window, admins always. Comments with replies
+ * become "[deleted]" placeholders so the thread stays readable.
+ */
+export const deleteComment = async (req: Request, res: Response) => {
+  try {
+    const viewer = await getViewer(req);
+    if (!viewer.userId) {
+      return sendUnauthorizedError(res, 'Authentication required');
+    }
+
+    const comment = mongoose.Types.ObjectId.isValid(req.params.commentId)
+      ? await Comment.findById(req.params.commentId)
+      : null;
+    if (!comment || comment.status === 'deleted') {
+      return sendNotFoundError(res, 'Comment not found');
+    }
+
+    if (comment.author.id !== viewer.userId && !viewer.isAdmin) {
+      return sendForbiddenError(res, 'You can only delete your own comments');
+    }
+    if (!getCommentPermissions(comment, viewer).canDelete) {
+      return sendErrorResponse(res, 403, 'The delete window for this comment has closed', 'COMMENT_DELETE_WINDOW_CLOSED');
+    }
+
+    const hasReplies = await Comment.exists({ parentId: String(comment._id) });
+    if (hasReplies) {
+      const now = new Date().toISOString();
+      comment.status = 'deleted';
+      comment.content = '';
+      comment.deletedAt = now;
+      comment.updatedAt = now;
+      await comment.save();
+    } else {
+      await comment.deleteOne();
+      // Drop placeholders that no longer hold any replies
+      let parentId = comment.parentId;
+      while (parentId) {
+        const parent = await Comment.findById(parentId);
+        if (!parent || parent.status !== 'deleted' || await Comment.exists({ parentId })) break;
+        await parent.deleteOne();
+        parentId = parent.parentId;
+      }
+    }
+
+    res.status(204).send();
+  } catch (error: any) {
+    handleCommentError(req, res, error, '[Comments] Delete comment error');
+  }
+};
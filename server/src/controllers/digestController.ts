@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import { unsubscribeFromDigest } from '../services/digestService.js';
+import { escapeHtml } from '../utils/digestTemplates.js';
+import { buildFrontendUrl } from '../services/mailService.js';
+import { createRequestLogger } from '../utils/logger.js';
+import { captureException } from '../utils/sentry.js';
+
+/**
+ * Minimal standalone page: unsubscribe links are opened straight from the
+ * mail client, usually without a session
+ */
+function renderPage(title: string, body: string): string {
+  return `<!doctype html>
+<html>
+  <head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(title)}</title></head>
+  <body style="margin:0;padding:48px 24px;background:#f8fafc;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;">
+    <div style="max-width:420px;margin:0 auto;background:#ffffff;border-radius:16px;padding:32px;text-align:center;">
+      <h1 style="font-size:20px;color:#111827;margin:0 0 12px;">${escapeHtml(title)}</h1>
+      ${body}
+    </div>
+  </body>
+</html>`;
+}
+
+function tokenFrom(req: Request): string {
+  return typeof req.query.token === 'string' ? req.query.token : '';
+}
+
+/**
+ * GET /api/digest/unsubscribe?token=
+ * Confirmation page; the change itself is a POST so link scanners that
+ * prefetch email links cannot unsubscribe anyone
+ */
+export const showUnsubscribe = (req: Request, res: Response) => {
+  const token = tokenFrom(req);
+  res.type('html').send(renderPage('Unsubscribe from the Nuggets digest?', `
+      <p style="color:#334155;font-size:14px;">You will stop receiving the email digest of new nuggets.</p>
+      <form method="post" action="?token=${encodeURIComponent(token)}">
+        <button type="submit" style="margin-top:12px;padding:10px 20px;border:0;border-radius:8px;background:#111827;color:#ffffff;font-weight:700;cursor:pointer;">Unsubscribe</button>
+      </form>`));
+};
+
+/**
+ * POST /api/digest/unsubscribe?token=
+ * One-click unsubscribe (RFC 8058 List-Unsubscribe-Post) and the form above
+ */
+export const unsubscribe = async (req: Request, res: Response) => {
+  try {
+    const found = await unsubscribeFromDigest(tokenFrom(req));
+    if (!found) {
+      return res.status(404).type('html').send(renderPage('Link not recognised', `
+      <p style="color:#334155;font-size:14px;">This unsubscribe link is invalid. You can turn the digest off in your account settings.</p>`));
+    }
+    res.type('html').send(renderPage("You're unsubscribed", `
+      <p style="color:#334155;font-size:14px;">You will no longer receive the email digest.</p>
+      <p style="font-size:13px;"><a href="${escapeHtml(buildFrontendUrl('/account'))}" style="color:#64748b;">Manage email settings</a></p>`));
+  } catch (error: any) {
+    const requestLogger = createRequestLogger(req.id || 'unknown', undefined, req.path);
+    requestLogger.error({
+      msg: '[Digest] Unsubscribe error',
+      error: {
+        message: error.message,
+        stack: error.stack,
+      },
+    });
+    captureException(error instanceof Error ? error : new Error(String(error)), { requestId: req.id, route: req.path });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
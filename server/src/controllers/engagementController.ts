@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { getOptionalViewer } from '../middleware/authenticateToken.js';
+import { recordEngagementEvents, getAuthorEngagementTrends } from '../services/engagementService.js';
+import { createRequestLogger } from '../utils/logger.js';
+import { captureException } from '../utils/sentry.js';
+import { sendValidationError, sendUnauthorizedError, sendInternalError } from '../utils/errorResponse.js';
+
+const MAX_EVENTS_PER_BATCH = 50;
+const TREND_RANGES = [7, 30, 90];
+
+const ingestEventsSchema = z.object({
+  events: z.array(z.object({
+    type: z.enum(['view', 'share']),
+    articleId: z.string().min(1).max(64)
+  })).min(1, 'At least one event is required').max(MAX_EVENTS_PER_BATCH, `At most ${MAX_EVENTS_PER_BATCH} events per batch`)
+});
+
+/**
+ * POST /api/engagement/events
+ * Batched view/share events; responds 202 with how many were counted
+ */
+export const ingestEvents = async (req: Request, res: Response) => {
+  try {
+    const validationResult = ingestEventsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return sendValidationError(res, 'Invalid events', validationResult.error.issues.map(err => ({
+        path: err.path.map(String),
+        message: err.message
+      })));
+    }
+
+    const result = await recordEngagementEvents(validationResult.data.events, {
+      userId: (await getOptionalViewer(req))?.userId,
+      ip: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    res.status(202).json(result);
+  } catch (error: any) {
+    const requestLogger = createRequestLogger(req.id || 'unknown', undefined, '/api/engagement/events');
+    requestLogger.error({ msg: 'Ingest engagement events error', error: { message: error.message, stack: error.stack } });
+    captureException(error instanceof Error ? error : new Error(String(error)), { requestId: req.id, route: req.path });
+    sendInternalError(res);
+  }
+};
+
+/**
+ * GET /api/engagement/me/trends?days=7|30|90
+ * Daily views and shares across the current user's nuggets
+ */
+export const getMyEngagementTrends = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) {
+      return sendUnauthorizedError(res, 'Authentication required');
+    }
+
+    const requestedDays = parseInt(req.query.days as string) || 30;
+    const days = TREND_RANGES.includes(requestedDays) ? requestedDays : 30;
+    const points = await getAuthorEngagementTrends(userId, days);
+
+    res.json({
+      days,
+      points,
+      totals: points.reduce(
+        (totals, point) => ({ views: totals.views + point.views, shares: totals.shares + point.shares }),
+        { views: 0, shares: 0 }
+      )
+    });
+  } catch (error: any) {
+    const requestLogger = createRequestLogger(req.id || 'unknown', (req as any).user?.userId, '/api/engagement/me/trends');
+    requestLogger.error({ msg: 'Get engagement trends error', error: { message: error.message, stack: error.stack } });
+    captureException(error instanceof Error ? error : new Error(String(error)), { requestId: req.id, route: req.path });
+    sendInternalError(res);
+  }
+};
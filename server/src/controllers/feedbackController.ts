@@ -3,6 +3,7 @@ import { Feedback } from '../models/Feedback.js';
 import { normalizeDoc, normalizeDocs } from '../utils/db.js';
 import { z } from 'zod';
 import { createSearchRegex } from '../utils/escapeRegExp.js';
+import { notify } from '../services/notificationService.js';
 
 // Validation schemas
 const createFeedbackSchema = z.object({
@@ -124,6 +125,7 @@ export const updateFeedbackStatus = async (req: Request, res: Response) => {
     }
 
     const { status } = validationResult.data;
+    const previous = await Feedback.findById(req.params.id).select('status').lean();
     
     const feedback = await Feedback.findByIdAndUpdate(
       req.params.id,
@@ -134,6 +136,15 @@ export const updateFeedbackStatus = async (req: Request, res: Response) => {
     if (!feedback) {
       return res.status(404).json({ message: 'Feedback not found' });
     }
+
+    // Signed-in authors hear once that their feedback was looked at
+    if (previous?.status === 'new' && status !== 'new' && feedback.user?.id) {
+      await notify({
+        userId: feedback.user.id,
+        type: 'feedback_reviewed',
+        message: 'Thanks for your feedback. The team has reviewed it.'
+      });
+    }
     
     res.json(normalizeDoc(feedback));
   } catch (error: any) {
@@ -2,14 +2,15 @@ import { Request, Response } from 'express';
 import multer from 'multer';
 import { Media, IMedia } from '../models/Media.js';
 import { 
-  uploadToCloudinary, 
-  deleteFromCloudinary,
-  isCloudinaryConfigured,
+  getStorageProvider,
   sanitizeFolderPath,
-  UploadOptions
+  StorageUploadOptions
 } from '../services/cloudinaryService.js';
+import { LocalStorageProvider } from '../services/localStorageProvider.js';
 import { sendInternalError, sendValidationError, sendNotFoundError, sendUnauthorizedError } from '../utils/errorResponse.js';
-import { getUserStorageStats } from '../services/mediaCleanupService.js';
+import { getUserStorageStats, deleteMediaAssets } from '../services/mediaCleanupService.js';
+import { processImage, storeRenditions, deleteRenditions } from '../services/imageProcessingService.js';
+import { buildImageVariant, StoredRendition } from '../utils/imageRenditions.js';
 import mongoose from 'mongoose';
 import { createRequestLogger } from '../utils/logger.js';
 import { captureException } from '../utils/sentry.js';
@@ -25,13 +26,13 @@ const MAX_DAILY_UPLOADS = 100; // Maximum uploads per day per user
  * 
  * CRITICAL: MongoDB is the source of truth. All operations must:
  * 1. Validate ownership in MongoDB first
- * 2. Perform Cloudinary operations
+ * 2. Perform storage provider operations (Cloudinary, S3 or local disk)
  * 3. Update MongoDB records
- * 4. Rollback Cloudinary if MongoDB fails
+ * 4. Rollback the stored asset if MongoDB fails
  */
 
 // Configure multer for file uploads
-const storage = multer.memoryStorage(); // Store in memory for Cloudinary upload
+const storage = multer.memoryStorage(); // Store in memory for the storage provider upload
 export const upload = multer({
   storage,
   limits: {
@@ -55,9 +56,21 @@ export const upload = multer({
 });
 
 /**
- * Upload file to Cloudinary and create MongoDB record
+ * Client-facing srcset/placeholder data for an uploaded image
+ */
+function toImageVariant(media: IMedia) {
+  return buildImageVariant({
+    width: media.cloudinary.width,
+    height: media.cloudinary.height,
+    renditions: media.renditions,
+    placeholder: media.placeholder,
+  });
+}
+
+/**
+ * Upload file to the active storage provider and create MongoDB record
  * 
- * POST /api/upload/cloudinary
+ * POST /api/media/upload/cloudinary (path kept for existing clients)
  * 
  * Body: multipart/form-data
  * - file: File
@@ -67,11 +80,12 @@ export const upload = multer({
  */
 export const uploadMedia = async (req: Request, res: Response) => {
   try {
-    // Check if Cloudinary is configured
-    if (!isCloudinaryConfigured()) {
+    // Local disk is always available, so this only fails if storage was never initialized
+    const storageProvider = getStorageProvider();
+    if (!storageProvider) {
       return res.status(503).json({
         error: 'Service Unavailable',
-        message: 'Cloudinary is not configured. Please set CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY, and CLOUDINARY_API_SECRET'
+        message: 'Media storage is not available'
       });
     }
 
@@ -167,14 +181,32 @@ export const uploadMedia = async (req: Request, res: Response) => {
     const isVideo = file.mimetype.startsWith('video/');
     const resourceType: 'image' | 'video' | 'raw' = isImage ? 'image' : isVideo ? 'video' : 'raw';
 
+    // Images are oriented, stripped of EXIF/GPS metadata and rendered into
+    // responsive sizes before anything reaches the storage provider
+    let processed: Awaited<ReturnType<typeof processImage>> = null;
+    if (isImage) {
+      try {
+        processed = await processImage(file.buffer, file.mimetype);
+      } catch (processingError: any) {
+        const requestLogger = createRequestLogger(req.id || 'unknown', userId, req.path);
+        requestLogger.warn({
+          msg: '[Media] Image processing failed',
+          mimeType: file.mimetype,
+          error: { message: processingError.message },
+        });
+        // Never store an unprocessed copy: it would still carry location metadata
+        return sendValidationError(res, 'Could not process image. The file may be corrupt or unsupported.', []);
+      }
+    }
+
     // CRITICAL: Check for existing media by public_id hash or file content
-    // For now, we rely on Cloudinary's overwrite: false to prevent duplicates
-    // But we should check MongoDB first to avoid unnecessary Cloudinary calls
+    // For now, we rely on overwrite: false / random keys to prevent duplicates
+    // But we should check MongoDB first to avoid unnecessary provider calls
     
-    // Upload to Cloudinary
-    let cloudinaryResult;
+    // Upload to the storage provider
+    let uploadResult;
     try {
-      console.log(`[Media] Uploading ${resourceType} to Cloudinary:`, {
+      console.log(`[Media] Uploading ${resourceType} to ${storageProvider.name}:`, {
         fileName: file.originalname,
         size: file.size,
         mimeType: file.mimetype,
@@ -182,53 +214,73 @@ export const uploadMedia = async (req: Request, res: Response) => {
         purpose
       });
       
-      const uploadOptions: UploadOptions = {
+      const uploadOptions: StorageUploadOptions = {
         folder,
         resourceType,
         overwrite: false, // CRITICAL: Don't overwrite existing assets
-        invalidate: true
+        invalidate: true,
+        mimeType: file.mimetype,
+        originalName: file.originalname
       };
 
-      cloudinaryResult = await uploadToCloudinary(file.buffer, uploadOptions);
+      uploadResult = await storageProvider.upload(processed ? processed.original.buffer : file.buffer, uploadOptions);
       
-      console.log(`[Media] Cloudinary upload successful:`, {
-        publicId: cloudinaryResult.publicId,
-        secureUrl: cloudinaryResult.secureUrl,
-        width: cloudinaryResult.width,
-        height: cloudinaryResult.height
+      console.log(`[Media] ${storageProvider.name} upload successful:`, {
+        publicId: uploadResult.publicId,
+        secureUrl: uploadResult.secureUrl,
+        width: uploadResult.width,
+        height: uploadResult.height
       });
-    } catch (cloudinaryError: any) {
+    } catch (uploadError: any) {
       // Audit Phase-1 Fix: Use structured logging and Sentry capture
       const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
       requestLogger.error({
-        msg: '[Media] Cloudinary upload failed',
+        msg: '[Media] Storage upload failed',
+        provider: storageProvider.name,
         error: {
-          message: cloudinaryError.message,
-          stack: cloudinaryError.stack,
+          message: uploadError.message,
+          stack: uploadError.stack,
         },
       });
-      captureException(cloudinaryError instanceof Error ? cloudinaryError : new Error(String(cloudinaryError)), {
+      captureException(uploadError instanceof Error ? uploadError : new Error(String(uploadError)), {
         requestId: req.id,
         route: req.path,
       });
       return res.status(500).json({
         error: 'Upload Failed',
-        message: `Failed to upload to Cloudinary: ${cloudinaryError.message}`
+        message: `Failed to upload media: ${uploadError.message}`
       });
     }
 
+    let renditions: StoredRendition[] = [];
+    if (processed && processed.renditions.length > 0) {
+      try {
+        renditions = await storeRenditions(storageProvider, processed.renditions, folder);
+      } catch (renditionError: any) {
+        // The original is usable on its own; clients fall back to it without srcset
+        const requestLogger = createRequestLogger(req.id || 'unknown', userId, req.path);
+        requestLogger.warn({
+          msg: '[Media] Rendition upload failed, storing original only',
+          provider: storageProvider.name,
+          publicId: uploadResult.publicId,
+          error: { message: renditionError.message },
+        });
+      }
+    }
+
     // CRITICAL: Check if media with this publicId already exists (idempotency guard)
-    // This prevents duplicate Media records even if Cloudinary allows the upload
+    // This prevents duplicate Media records even if the provider allows the upload
     let existingMedia = await Media.findOne({
-      'cloudinary.publicId': cloudinaryResult.publicId,
+      'cloudinary.publicId': uploadResult.publicId,
       status: 'active'
     });
 
     if (existingMedia) {
-      console.log(`[Media] Media with publicId ${cloudinaryResult.publicId} already exists, returning existing record`);
+      console.log(`[Media] Media with publicId ${uploadResult.publicId} already exists, returning existing record`);
       
-      // ROLLBACK: Delete the duplicate Cloudinary asset (best effort)
-      await deleteFromCloudinary(cloudinaryResult.publicId, cloudinaryResult.resourceType);
+      // ROLLBACK: Delete the duplicate asset (best effort)
+      await storageProvider.delete(uploadResult.publicId, uploadResult.resourceType);
+      await deleteRenditions(storageProvider, renditions);
       
       // Return existing media record
       return res.status(200).json({
@@ -239,6 +291,7 @@ export const uploadMedia = async (req: Request, res: Response) => {
         height: existingMedia.cloudinary.height,
         duration: existingMedia.cloudinary.duration,
         resourceType: existingMedia.cloudinary.resourceType,
+        variant: toImageVariant(existingMedia),
         purpose: existingMedia.purpose,
         status: existingMedia.status
       });
@@ -251,15 +304,18 @@ export const uploadMedia = async (req: Request, res: Response) => {
         ownerId: new mongoose.Types.ObjectId(userId),
         purpose,
         cloudinary: {
-          publicId: cloudinaryResult.publicId,
-          secureUrl: cloudinaryResult.secureUrl,
-          resourceType: cloudinaryResult.resourceType,
-          format: cloudinaryResult.format,
-          width: cloudinaryResult.width,
-          height: cloudinaryResult.height,
-          duration: cloudinaryResult.duration,
-          bytes: cloudinaryResult.bytes
+          provider: storageProvider.name,
+          publicId: uploadResult.publicId,
+          secureUrl: uploadResult.secureUrl,
+          resourceType: uploadResult.resourceType,
+          format: uploadResult.format,
+          width: uploadResult.width,
+          height: uploadResult.height,
+          duration: uploadResult.duration,
+          bytes: uploadResult.bytes
         },
+        renditions: renditions.length > 0 ? renditions : undefined,
+        placeholder: processed?.placeholder,
         file: {
           mimeType: file.mimetype,
           size: file.size,
@@ -276,33 +332,34 @@ export const uploadMedia = async (req: Request, res: Response) => {
         };
       }
 
-      console.log(`[Media] Creating MongoDB record for publicId: ${cloudinaryResult.publicId}`);
+      console.log(`[Media] Creating MongoDB record for publicId: ${uploadResult.publicId}`);
       mediaDoc = await Media.create(mediaData);
       console.log(`[Media] MongoDB record created successfully: ${mediaDoc._id}`);
     } catch (mongoError: any) {
-      // ROLLBACK: Delete from Cloudinary if MongoDB insert fails
+      // ROLLBACK: Delete from storage if MongoDB insert fails
       // Audit Phase-1 Fix: Use structured logging and Sentry capture
       const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
       requestLogger.error({
-        msg: '[Media] MongoDB insert failed, rolling back Cloudinary upload',
+        msg: '[Media] MongoDB insert failed, rolling back storage upload',
         error: {
           message: mongoError.message,
           stack: mongoError.stack,
         },
-        publicId: cloudinaryResult.publicId,
+        publicId: uploadResult.publicId,
       });
       captureException(mongoError instanceof Error ? mongoError : new Error(String(mongoError)), {
         requestId: req.id,
         route: req.path,
-        publicId: cloudinaryResult.publicId,
+        publicId: uploadResult.publicId,
       });
-      await deleteFromCloudinary(cloudinaryResult.publicId, cloudinaryResult.resourceType);
+      await storageProvider.delete(uploadResult.publicId, uploadResult.resourceType);
+      await deleteRenditions(storageProvider, renditions);
       
       // Check for duplicate publicId error
       if (mongoError.code === 11000) {
         console.log('[Media] Duplicate publicId detected (unique constraint violation)');
         // Try to find existing media
-        const existing = await Media.findOne({ 'cloudinary.publicId': cloudinaryResult.publicId });
+        const existing = await Media.findOne({ 'cloudinary.publicId': uploadResult.publicId });
         if (existing) {
           return res.status(200).json({
             mediaId: existing._id.toString(),
@@ -312,6 +369,7 @@ export const uploadMedia = async (req: Request, res: Response) => {
             height: existing.cloudinary.height,
             duration: existing.cloudinary.duration,
             resourceType: existing.cloudinary.resourceType,
+            variant: toImageVariant(existing),
             purpose: existing.purpose,
             status: existing.status
           });
@@ -331,6 +389,7 @@ export const uploadMedia = async (req: Request, res: Response) => {
       height: mediaDoc.cloudinary.height,
       duration: mediaDoc.cloudinary.duration,
       resourceType: mediaDoc.cloudinary.resourceType,
+      variant: toImageVariant(mediaDoc),
       purpose: mediaDoc.purpose,
       status: mediaDoc.status
     });
@@ -454,14 +513,11 @@ export const deleteMedia = async (req: Request, res: Response) => {
     media.deletedAt = new Date();
     await media.save();
 
-    // Best-effort Cloudinary deletion (don't fail if this fails)
-    const deleted = await deleteFromCloudinary(
-      media.cloudinary.publicId,
-      media.cloudinary.resourceType
-    );
+    // Best-effort storage deletion (don't fail if this fails)
+    const deleted = await deleteMediaAssets(media);
 
     if (!deleted) {
-      console.warn(`[Media] Cloudinary deletion failed for ${media.cloudinary.publicId}, but MongoDB record marked as deleted`);
+      console.warn(`[Media] Storage deletion failed for ${media.cloudinary.publicId}, but MongoDB record marked as deleted`);
     }
 
     res.json({
@@ -514,6 +570,7 @@ export const getMedia = async (req: Request, res: Response) => {
       height: media.cloudinary.height,
       duration: media.cloudinary.duration,
       resourceType: media.cloudinary.resourceType,
+      variant: toImageVariant(media),
       purpose: media.purpose,
       usedBy: media.usedBy
     });
@@ -532,3 +589,47 @@ export const getMedia = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Serve a file from the local disk provider
+ * 
+ * GET /api/media/files/:token/*key
+ * 
+ * Public: the token is an HMAC of the key, so only URLs issued by the server resolve.
+ */
+export const serveLocalMedia = async (req: Request, res: Response) => {
+  try {
+    const provider = getStorageProvider('local');
+    const key = ([] as string[]).concat(req.params.key ?? []).join('/');
+    const filePath = provider instanceof LocalStorageProvider
+      ? provider.resolveSignedRequest(key, req.params.token)
+      : null;
+    if (!filePath) {
+      return sendNotFoundError(res, 'File not found');
+    }
+
+    // Keys are random and never reused, so non-expiring links can be cached forever
+    const isExpiring = req.params.token.includes('.');
+    res.sendFile(filePath, {
+      headers: {
+        'Cache-Control': isExpiring ? 'private, max-age=300' : 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+        'Cross-Origin-Resource-Policy': 'cross-origin' // Allow embedding when STORAGE_PUBLIC_BASE_URL is another origin
+      }
+    }, (err: any) => {
+      if (err && !res.headersSent) {
+        sendNotFoundError(res, 'File not found');
+      }
+    });
+  } catch (error: any) {
+    const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
+    requestLogger.error({
+      msg: '[Media] Serve file error',
+      error: {
+        message: error.message,
+        stack: error.stack,
+      },
+    });
+    captureException(error instanceof Error ? error : new Error(String(error)), { requestId: req.id, route: req.path });
+    sendInternalError(res);
+  }
+};
@@ -0,0 +1,224 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { User } from '../models/User.js';
+import { normalizeDoc } from '../utils/db.js';
+import { verifyMfaChallengeToken } from '../utils/jwt.js';
+import { createSession } from '../services/sessionService.js';
+import { isMfaEnrollmentRequired } from '../services/platformSettingsService.js';
+import {
+  beginEnrollment,
+  confirmEnrollment,
+  verifySecondFactor,
+  countRecoveryCodes,
+  regenerateRecoveryCodes,
+  disableMfa,
+  MfaError
+} from '../services/mfaService.js';
+import {
+  sendErrorResponse,
+  sendValidationError,
+  sendUnauthorizedError,
+  sendInternalError
+} from '../utils/errorResponse.js';
+
+// Either a TOTP code or a recovery code
+const secondFactorSchema = z.object({
+  code: z.string().trim().min(1).optional(),
+  recoveryCode: z.string().trim().min(1).optional()
+}).refine(data => !!data.code || !!data.recoveryCode, {
+  message: 'A verification code or recovery code is required'
+});
+
+const verifyLoginSchema = z.object({
+  mfaToken: z.string().min(1, 'MFA token is required'),
+  code: z.string().trim().min(1).optional(),
+  recoveryCode: z.string().trim().min(1).optional()
+}).refine(data => !!data.code || !!data.recoveryCode, {
+  message: 'A verification code or recovery code is required'
+});
+
+const enableSchema = z.object({
+  code: z.string().trim().min(1, 'Verification code is required')
+});
+
+function sendSchemaError(res: Response, error: z.ZodError) {
+  return sendValidationError(res, error.issues[0]?.message || 'Validation failed', error.issues.map(err => ({
+    path: err.path.map(String),
+    message: err.message,
+    code: err.code
+  })));
+}
+
+function handleMfaError(res: Response, error: any, context: string) {
+  if (error instanceof MfaError) {
+    return sendErrorResponse(res, error.status, error.message, error.code);
+  }
+  console.error(`[MFA] ${context} error:`, error);
+  sendInternalError(res);
+}
+
+/**
+ * GET /api/auth/mfa/status
+ * Current user's MFA state
+ */
+export const getStatus = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) {
+      return sendUnauthorizedError(res);
+    }
+
+    const user = await User.findById(userId).select('role security.mfaEnabled security.mfaEnabledAt').lean();
+    const enabled = !!user?.security?.mfaEnabled;
+    res.json({
+      enabled,
+      enabledAt: user?.security?.mfaEnabledAt,
+      recoveryCodesRemaining: enabled ? await countRecoveryCodes(userId) : 0,
+      requiredByPolicy: await isMfaEnrollmentRequired(user?.role, false)
+    });
+  } catch (error: any) {
+    handleMfaError(res, error, 'Status');
+  }
+};
+
+/**
+ * POST /api/auth/mfa/setup
+ * Start enrollment; returns the secret and a QR code for the authenticator app
+ */
+export const setup = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) {
+      return sendUnauthorizedError(res);
+    }
+
+    res.json(await beginEnrollment(userId));
+  } catch (error: any) {
+    handleMfaError(res, error, 'Setup');
+  }
+};
+
+/**
+ * POST /api/auth/mfa/enable
+ * Confirm enrollment with a code; returns one-time recovery codes
+ */
+export const enable = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) {
+      return sendUnauthorizedError(res);
+    }
+
+    const validationResult = enableSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return sendSchemaError(res, validationResult.error);
+    }
+
+    const recoveryCodes = await confirmEnrollment(userId, validationResult.data.code);
+    res.json({ message: 'Two-factor authentication enabled', recoveryCodes });
+  } catch (error: any) {
+    handleMfaError(res, error, 'Enable');
+  }
+};
+
+/**
+ * POST /api/auth/mfa/disable
+ * Turn MFA off (requires a current code)
+ */
+export const disable = async (req: Request, res: Response) => {
+  try {
+    const { userId, role } = (req as any).user || {};
+    if (!userId) {
+      return sendUnauthorizedError(res);
+    }
+
+    const validationResult = secondFactorSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return sendSchemaError(res, validationResult.error);
+    }
+
+    if (await isMfaEnrollmentRequired(role, false)) {
+      return sendErrorResponse(res, 403, 'Two-factor authentication is required for admin accounts', 'MFA_REQUIRED_BY_POLICY');
+    }
+
+    if (!(await verifySecondFactor(userId, validationResult.data))) {
+      return sendErrorResponse(res, 400, 'Invalid verification code', 'INVALID_MFA_CODE');
+    }
+
+    await disableMfa(userId);
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error: any) {
+    handleMfaError(res, error, 'Disable');
+  }
+};
+
+/**
+ * POST /api/auth/mfa/recovery-codes
+ * Replace recovery codes (requires a current code)
+ */
+export const regenerateCodes = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) {
+      return sendUnauthorizedError(res);
+    }
+
+    const validationResult = secondFactorSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return sendSchemaError(res, validationResult.error);
+    }
+
+    if (!(await verifySecondFactor(userId, validationResult.data))) {
+      return sendErrorResponse(res, 400, 'Invalid verification code', 'INVALID_MFA_CODE');
+    }
+
+    res.json({ recoveryCodes: await regenerateRecoveryCodes(userId) });
+  } catch (error: any) {
+    handleMfaError(res, error, 'Regenerate recovery codes');
+  }
+};
+
+/**
+ * POST /api/auth/mfa/verify
+ * Second login step: exchange the challenge token plus a code for a session
+ */
+export const verifyLogin = async (req: Request, res: Response) => {
+  try {
+    const validationResult = verifyLoginSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return sendSchemaError(res, validationResult.error);
+    }
+
+    const { mfaToken, code, recoveryCode } = validationResult.data;
+
+    let userId: string;
+    try {
+      userId = verifyMfaChallengeToken(mfaToken);
+    } catch {
+      return sendErrorResponse(res, 401, 'Your sign-in attempt has expired. Please sign in again.', 'MFA_CHALLENGE_EXPIRED');
+    }
+
+    if (!(await verifySecondFactor(userId, { code, recoveryCode }))) {
+      return sendErrorResponse(res, 400, 'Invalid verification code', 'INVALID_MFA_CODE');
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return sendUnauthorizedError(res);
+    }
+
+    user.appState.lastLoginAt = new Date().toISOString();
+    await user.save();
+
+    const { accessToken, refreshToken } = await createSession(user, req);
+    res.json({
+      user: normalizeDoc(user),
+      token: accessToken,
+      refreshToken,
+      // Let the client warn when the user is running out of recovery codes
+      recoveryCodesRemaining: recoveryCode ? await countRecoveryCodes(userId) : undefined
+    });
+  } catch (error: any) {
+    handleMfaError(res, error, 'Verify login');
+  }
+};
@@ -8,14 +8,17 @@ import { AdminRequest } from '../middleware/requireAdmin.js';
 import { Article } from '../models/Article.js';
 import { Collection } from '../models/Collection.js';
 import { User } from '../models/User.js';
+import { Comment } from '../models/Comment.js';
 import mongoose from 'mongoose';
 import { createRequestLogger } from '../utils/logger.js';
 import { captureException } from '../utils/sentry.js';
+import { reviewEntry } from '../services/collectionEntryReviewService.js';
+import { notifyReportOutcome } from '../services/notificationService.js';
 
 // Validation schemas
 const createReportSchema = z.object({
   targetId: z.string().min(1, 'Target ID is required'),
-  targetType: z.enum(['nugget', 'user', 'collection']),
+  targetType: z.enum(['nugget', 'user', 'collection', 'comment']),
   reason: z.enum(['spam', 'harassment', 'misinformation', 'copyright', 'other']),
   description: z.string().max(2000, 'Description too long').optional(),
   reporter: z.object({
@@ -47,7 +50,7 @@ export const getReports = async (req: Request, res: Response) => {
     // Use shared query builder - ensures consistency with stats endpoint
     const query = buildModerationQuery({
       status: status as 'open' | 'resolved' | 'dismissed' | undefined,
-      targetType: targetType as 'nugget' | 'user' | 'collection' | undefined,
+      targetType: targetType as 'nugget' | 'user' | 'collection' | 'comment' | undefined,
       targetId: targetId as string | undefined,
       searchQuery: q as string | undefined
     });
@@ -172,6 +175,11 @@ export const resolveReport = async (req: AdminRequest, res: Response) => {
     }
     await report.save();
 
+    // Resolving a flagged collection entry report removes the entry
+    if (report.collectionEntry) {
+      await reviewEntry(report.collectionEntry.collectionId, report.collectionEntry.articleId, 'remove', req.userId, reportId);
+    }
+
     // Create audit log
     await ModerationAuditLog.create({
       reportId: reportId,
@@ -185,6 +193,8 @@ export const resolveReport = async (req: AdminRequest, res: Response) => {
       }
     });
 
+    await notifyReportOutcome(report, req.userId);
+
     res.json(normalizeDoc(report));
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
@@ -245,6 +255,11 @@ export const dismissReport = async (req: AdminRequest, res: Response) => {
     }
     await report.save();
 
+    // Dismissing a flagged collection entry report keeps the entry and clears its flags
+    if (report.collectionEntry) {
+      await reviewEntry(report.collectionEntry.collectionId, report.collectionEntry.articleId, 'keep', req.userId, reportId);
+    }
+
     // Create audit log
     await ModerationAuditLog.create({
       reportId: reportId,
@@ -258,6 +273,8 @@ export const dismissReport = async (req: AdminRequest, res: Response) => {
       }
     });
 
+    await notifyReportOutcome(report, req.userId);
+
     res.json(normalizeDoc(report));
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
@@ -290,9 +307,9 @@ export const getReportedContent = async (req: AdminRequest, res: Response) => {
     const { targetType, targetId } = req.params;
 
     // Validate targetType
-    if (!['nugget', 'user', 'collection'].includes(targetType)) {
+    if (!['nugget', 'user', 'collection', 'comment'].includes(targetType)) {
       return res.status(400).json({ 
-        message: 'Invalid targetType. Must be one of: nugget, user, collection' 
+        message: 'Invalid targetType. Must be one of: nugget, user, collection, comment' 
       });
     }
 
@@ -317,6 +334,8 @@ export const getReportedContent = async (req: AdminRequest, res: Response) => {
         content = await Collection.findById(targetId).lean();
       } else if (targetType === 'user') {
         content = await User.findById(targetId).select('-password').lean();
+      } else if (targetType === 'comment') {
+        content = await Comment.findById(targetId).lean();
       }
 
       exists = content !== null;
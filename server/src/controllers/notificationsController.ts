@@ -0,0 +1,174 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Notification } from '../models/Notification.js';
+import { User } from '../models/User.js';
+import { normalizeDoc, normalizeDocs } from '../utils/db.js';
+import { markNotificationReadSchema, updateNotificationPreferencesSchema } from '../utils/validation.js';
+import { createRequestLogger } from '../utils/logger.js';
+import { captureException } from '../utils/sentry.js';
+import {
+  sendValidationError,
+  sendUnauthorizedError,
+  sendNotFoundError,
+  sendInternalError
+} from '../utils/errorResponse.js';
+
+function handleNotificationError(req: Request, res: Response, error: any, msg: string) {
+  const requestLogger = createRequestLogger(req.id || 'unknown', (req as any).user?.userId, req.path);
+  requestLogger.error({ msg, error: { message: error.message, stack: error.stack } });
+  captureException(error instanceof Error ? error : new Error(String(error)), { requestId: req.id, route: req.path });
+  sendInternalError(res);
+}
+
+function countUnread(userId: string): Promise<number> {
+  return Notification.countDocuments({ userId, readAt: { $exists: false } });
+}
+
+/**
+ * GET /api/notifications?page=&limit=&unread=true
+ * Newest first, with the unread total for the bell
+ */
+export const getNotifications = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) return sendUnauthorizedError(res, 'Authentication required');
+
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 50);
+    const query: Record<string, unknown> = { userId };
+    if (req.query.unread === 'true') {
+      query.readAt = { $exists: false };
+    }
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      Notification.find(query).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+      Notification.countDocuments(query),
+      countUnread(userId)
+    ]);
+
+    res.json({
+      data: normalizeDocs(notifications),
+      total,
+      page,
+      limit,
+      hasMore: page * limit < total,
+      unreadCount
+    });
+  } catch (error: any) {
+    handleNotificationError(req, res, error, '[Notifications] Get notifications error');
+  }
+};
+
+/**
+ * GET /api/notifications/unread-count
+ */
+export const getUnreadCount = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) return sendUnauthorizedError(res, 'Authentication required');
+
+    res.json({ unreadCount: await countUnread(userId) });
+  } catch (error: any) {
+    handleNotificationError(req, res, error, '[Notifications] Get unread count error');
+  }
+};
+
+/**
+ * PATCH /api/notifications/:id
+ * Body: { read } - mark one notification read (default) or unread again
+ */
+export const markNotification = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) return sendUnauthorizedError(res, 'Authentication required');
+
+    const validationResult = markNotificationReadSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return sendValidationError(res, 'Validation failed', validationResult.error.issues.map(err => ({
+        path: err.path.map(String),
+        message: err.message
+      })));
+    }
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return sendNotFoundError(res, 'Notification not found');
+    }
+
+    const update = validationResult.data.read
+      ? { $set: { readAt: new Date() } }
+      : { $unset: { readAt: '' } };
+    // Scoped to the recipient so one user cannot touch another's inbox
+    const notification = await Notification.findOneAndUpdate({ _id: req.params.id, userId }, update, { new: true });
+    if (!notification) return sendNotFoundError(res, 'Notification not found');
+
+    res.json({ notification: normalizeDoc(notification), unreadCount: await countUnread(userId) });
+  } catch (error: any) {
+    handleNotificationError(req, res, error, '[Notifications] Mark notification error');
+  }
+};
+
+/**
+ * POST /api/notifications/read-all
+ */
+export const markAllNotificationsRead = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) return sendUnauthorizedError(res, 'Authentication required');
+
+    const result = await Notification.updateMany(
+      { userId, readAt: { $exists: false } },
+      { $set: { readAt: new Date() } }
+    );
+    res.json({ updated: result.modifiedCount, unreadCount: 0 });
+  } catch (error: any) {
+    handleNotificationError(req, res, error, '[Notifications] Mark all read error');
+  }
+};
+
+/**
+ * GET /api/notifications/preferences
+ */
+export const getNotificationPreferences = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) return sendUnauthorizedError(res, 'Authentication required');
+
+    const user = await User.findById(userId).select('preferences.notifications');
+    if (!user) return sendNotFoundError(res, 'User not found');
+
+    res.json(user.preferences.notifications);
+  } catch (error: any) {
+    handleNotificationError(req, res, error, '[Notifications] Get preferences error');
+  }
+};
+
+/**
+ * PUT /api/notifications/preferences
+ * Body: any subset of the notification switches
+ */
+export const updateNotificationPreferences = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) return sendUnauthorizedError(res, 'Authentication required');
+
+    const validationResult = updateNotificationPreferencesSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return sendValidationError(res, 'Validation failed', validationResult.error.issues.map(err => ({
+        path: err.path.map(String),
+        message: err.message
+      })));
+    }
+
+    const updateObj: Record<string, boolean> = {};
+    for (const [key, value] of Object.entries(validationResult.data)) {
+      if (value !== undefined) updateObj[`preferences.notifications.${key}`] = value;
+    }
+
+    const user = await User.findByIdAndUpdate(userId, { $set: updateObj }, { new: true, runValidators: true })
+      .select('preferences.notifications');
+    if (!user) return sendNotFoundError(res, 'User not found');
+
+    res.json(user.preferences.notifications);
+  } catch (error: any) {
+    handleNotificationError(req, res, error, '[Notifications] Update preferences error');
+  }
+};
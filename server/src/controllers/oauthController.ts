@@ -0,0 +1,367 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { User, OAuthProvider } from '../models/User.js';
+import { normalizeDoc } from '../utils/db.js';
+import { createSession } from '../services/sessionService.js';
+import { generateMfaChallengeToken } from '../utils/jwt.js';
+import {
+  getProviderConfig,
+  getEnabledProviders,
+  getRedirectUri,
+  isOAuthProvider,
+  beginAuthorization,
+  consumeAuthorizationState,
+  exchangeCodeForProfile,
+  OAuthError,
+  OAuthProfile,
+  OAuthProviderConfig
+} from '../services/oauthService.js';
+import {
+  sendErrorResponse,
+  sendValidationError,
+  sendUnauthorizedError,
+  sendNotFoundError,
+  sendConflictError,
+  sendInternalError
+} from '../utils/errorResponse.js';
+
+const callbackSchema = z.object({
+  code: z.string().min(1, 'Authorization code is required'),
+  state: z.string().min(1, 'State is required')
+});
+
+const PROVIDER_LABELS: Record<OAuthProvider, string> = {
+  google: 'Google',
+  linkedin: 'LinkedIn'
+};
+
+/**
+ * Resolve :provider to an enabled provider config, or send the error response
+ */
+function resolveProvider(req: Request, res: Response): OAuthProviderConfig | null {
+  const provider = String(req.params.provider);
+  if (!isOAuthProvider(provider)) {
+    sendNotFoundError(res, 'Unknown sign-in provider');
+    return null;
+  }
+
+  const config = getProviderConfig(provider);
+  if (!config) {
+    sendErrorResponse(res, 503, `${PROVIDER_LABELS[provider]} sign-in is not configured`, 'OAUTH_PROVIDER_DISABLED');
+    return null;
+  }
+  return config;
+}
+
+/**
+ * Derive an unused username from the provider email or name
+ */
+async function generateUniqueUsername(profile: OAuthProfile): Promise<string> {
+  const seed = (profile.email?.split('@')[0] || profile.name || 'user')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]/g, '')
+    .slice(0, 20);
+  const base = seed.length >= 3 ? seed : `user${seed}`;
+
+  if (!(await User.exists({ 'profile.username': base }))) {
+    return base;
+  }
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const candidate = `${base}${crypto.randomInt(1000, 100000)}`;
+    if (!(await User.exists({ 'profile.username': candidate }))) {
+      return candidate;
+    }
+  }
+  return `${base}${crypto.randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * Find the account for an external identity, or register a new one
+ * An existing account with the same email is never merged implicitly - the owner
+ * has to sign in and link the provider, so one person cannot end up with two accounts
+ * and nobody can take over an account through a provider login.
+ */
+async function findOrCreateOAuthUser(provider: OAuthProvider, profile: OAuthProfile) {
+  const linkedUser = await User.findOne({
+    'auth.identities': { $elemMatch: { provider, providerUserId: profile.providerUserId } }
+  });
+  if (linkedUser) {
+    return { user: linkedUser, isNewUser: false };
+  }
+
+  if (!profile.email || !profile.emailVerified) {
+    throw new OAuthError(
+      `Your ${PROVIDER_LABELS[provider]} account has no verified email address.`,
+      'OAUTH_EMAIL_UNVERIFIED'
+    );
+  }
+
+  const existingUser = await User.findOne({ 'auth.email': profile.email }).select('auth.provider');
+  if (existingUser) {
+    const method = existingUser.auth.provider === 'email'
+      ? 'your password'
+      : PROVIDER_LABELS[existingUser.auth.provider];
+    throw new OAuthError(
+      `An account with this email already exists. Sign in with ${method}, then connect ${PROVIDER_LABELS[provider]} from Account Settings.`,
+      'ACCOUNT_EXISTS',
+      409
+    );
+  }
+
+  const now = new Date().toISOString();
+  const newUser = new User({
+    role: 'user',
+    auth: {
+      email: profile.email,
+      emailVerified: true, // Verified by the provider
+      provider,
+      identities: [{ provider, providerUserId: profile.providerUserId, email: profile.email, linkedAt: now }],
+      createdAt: now,
+      updatedAt: now
+    },
+    profile: {
+      displayName: profile.name || profile.email.split('@')[0],
+      username: await generateUniqueUsername(profile),
+      avatarUrl: profile.avatarUrl,
+      avatarColor: 'blue'
+    },
+    security: {
+      mfaEnabled: false
+    },
+    preferences: {
+      theme: 'system',
+      defaultVisibility: 'public',
+      interestedCategories: [],
+      compactMode: false,
+      richMediaPreviews: true,
+      autoFollowCollections: true,
+      notifications: {
+        emailDigest: true,
+        productUpdates: false,
+        newFollowers: true,
+        collectionActivity: true,
+        moderationUpdates: true,
+        feedbackUpdates: true
+      }
+    },
+    appState: {
+      onboardingCompleted: false
+    }
+  });
+
+  await newUser.save();
+  return { user: newUser, isNewUser: true };
+}
+
+/**
+ * Attach an external identity to an existing account
+ */
+async function linkIdentity(userId: string, provider: OAuthProvider, profile: OAuthProfile) {
+  const owner = await User.findOne({
+    'auth.identities': { $elemMatch: { provider, providerUserId: profile.providerUserId } }
+  }).select('_id');
+  if (owner && owner._id.toString() !== userId) {
+    throw new OAuthError(
+      `This ${PROVIDER_LABELS[provider]} account is already connected to another user.`,
+      'IDENTITY_IN_USE',
+      409
+    );
+  }
+
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new OAuthError('User not found', 'USER_NOT_FOUND', 404);
+  }
+  if (owner) {
+    return user; // Already linked to this account
+  }
+  if (user.auth.identities?.some(identity => identity.provider === provider)) {
+    throw new OAuthError(
+      `A different ${PROVIDER_LABELS[provider]} account is already connected. Disconnect it first.`,
+      'PROVIDER_ALREADY_LINKED',
+      409
+    );
+  }
+
+  const now = new Date().toISOString();
+  const $set: Record<string, any> = { 'auth.updatedAt': now };
+  // The provider proved ownership of the same address
+  if (profile.emailVerified && profile.email === user.auth.email) {
+    $set['auth.emailVerified'] = true;
+  }
+
+  const updated = await User.findOneAndUpdate(
+    { _id: userId, 'auth.identities.provider': { $ne: provider } },
+    {
+      $push: { 'auth.identities': { provider, providerUserId: profile.providerUserId, email: profile.email, linkedAt: now } },
+      $set
+    },
+    { new: true }
+  );
+  if (!updated) {
+    throw new OAuthError(
+      `A different ${PROVIDER_LABELS[provider]} account is already connected. Disconnect it first.`,
+      'PROVIDER_ALREADY_LINKED',
+      409
+    );
+  }
+  return updated;
+}
+
+/**
+ * GET /api/auth/oauth/providers
+ * List providers that are configured on this server
+ */
+export const getProviders = async (req: Request, res: Response) => {
+  res.json({ providers: getEnabledProviders() });
+};
+
+/**
+ * POST /api/auth/oauth/:provider/start
+ * Begin a sign-in; returns the provider URL to redirect the browser to
+ */
+export const startLogin = async (req: Request, res: Response) => {
+  try {
+    const config = resolveProvider(req, res);
+    if (!config) return;
+
+    const authorizationUrl = await beginAuthorization(config, 'login');
+    res.json({ authorizationUrl });
+  } catch (error: any) {
+    console.error('[OAuth] Start login error:', error);
+    sendInternalError(res);
+  }
+};
+
+/**
+ * POST /api/auth/oauth/:provider/link
+ * Begin connecting a provider to the signed-in account (requires authentication)
+ */
+export const startLink = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) {
+      return sendUnauthorizedError(res);
+    }
+
+    const config = resolveProvider(req, res);
+    if (!config) return;
+
+    const authorizationUrl = await beginAuthorization(config, 'link', userId);
+    res.json({ authorizationUrl });
+  } catch (error: any) {
+    console.error('[OAuth] Start link error:', error);
+    sendInternalError(res);
+  }
+};
+
+/**
+ * POST /api/auth/oauth/:provider/callback
+ * Complete the flow started by startLogin/startLink
+ * Login mode returns a session like /auth/login; link mode returns the updated user.
+ */
+export const handleCallback = async (req: Request, res: Response) => {
+  try {
+    const config = resolveProvider(req, res);
+    if (!config) return;
+
+    const validationResult = callbackSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return sendValidationError(res, 'Authorization code and state are required', validationResult.error.issues.map(err => ({
+        path: err.path.map(String),
+        message: err.message,
+        code: err.code
+      })));
+    }
+
+    const { code, state } = validationResult.data;
+    const pending = await consumeAuthorizationState(config.provider, state);
+    const profile = await exchangeCodeForProfile(config, code, pending.codeVerifier, getRedirectUri(config.provider));
+
+    if (pending.mode === 'link') {
+      const user = await linkIdentity(pending.userId!, config.provider, profile);
+      return res.json({ mode: 'link', user: normalizeDoc(user) });
+    }
+
+    const { user, isNewUser } = await findOrCreateOAuthUser(config.provider, profile);
+
+    // Provider sign-in does not replace the second factor
+    if (user.security.mfaEnabled) {
+      return res.json({ mode: 'login', mfaRequired: true, mfaToken: generateMfaChallengeToken(user._id.toString()) });
+    }
+
+    user.appState.lastLoginAt = new Date().toISOString();
+    await user.save();
+
+    const { accessToken, refreshToken } = await createSession(user, req);
+    res.status(isNewUser ? 201 : 200).json({
+      mode: 'login',
+      user: normalizeDoc(user),
+      token: accessToken,
+      refreshToken,
+      isNewUser
+    });
+  } catch (error: any) {
+    if (error instanceof OAuthError) {
+      return sendErrorResponse(res, error.status, error.message, error.code);
+    }
+    // Concurrent first logins with the same identity or email
+    if (error.code === 11000) {
+      return sendConflictError(res, 'This account is already registered. Please try signing in again.', 'ACCOUNT_EXISTS');
+    }
+    console.error('[OAuth] Callback error:', error);
+    sendInternalError(res);
+  }
+};
+
+/**
+ * DELETE /api/auth/oauth/:provider
+ * Disconnect a provider from the signed-in account
+ */
+export const unlinkProvider = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) {
+      return sendUnauthorizedError(res);
+    }
+
+    const provider = String(req.params.provider);
+    if (!isOAuthProvider(provider)) {
+      return sendNotFoundError(res, 'Unknown sign-in provider');
+    }
+
+    const user = await User.findById(userId).select('+password');
+    if (!user) {
+      return sendNotFoundError(res, 'User not found');
+    }
+
+    const identities = user.auth.identities || [];
+    if (!identities.some(identity => identity.provider === provider)) {
+      return sendNotFoundError(res, `${PROVIDER_LABELS[provider]} is not connected`);
+    }
+
+    // Never remove the last way to sign in
+    if (!user.password && identities.length <= 1) {
+      return sendErrorResponse(
+        res,
+        400,
+        'Set a password or connect another provider before disconnecting this one.',
+        'LAST_LOGIN_METHOD'
+      );
+    }
+
+    const updated = await User.findByIdAndUpdate(
+      userId,
+      {
+        $pull: { 'auth.identities': { provider } },
+        $set: { 'auth.updatedAt': new Date().toISOString() }
+      },
+      { new: true }
+    );
+    res.json({ user: normalizeDoc(updated) });
+  } catch (error: any) {
+    console.error('[OAuth] Unlink error:', error);
+    sendInternalError(res);
+  }
+};
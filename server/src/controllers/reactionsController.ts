@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Article } from '../models/Article.js';
+import { REACTION_TYPES } from '../models/Reaction.js';
+import { addReaction, removeReaction, isReactionType } from '../services/reactionService.js';
+import { createRequestLogger } from '../utils/logger.js';
+import { captureException } from '../utils/sentry.js';
+import {
+  sendValidationError,
+  sendUnauthorizedError,
+  sendForbiddenError,
+  sendNotFoundError,
+  sendInternalError
+} from '../utils/errorResponse.js';
+
+/**
+ * Shared checks for PUT/DELETE /api/articles/:id/reactions/:type
+ * Returns false after sending an error response
+ */
+async function validateReactionRequest(req: Request, res: Response): Promise<boolean> {
+  const userId = (req as any).user?.userId;
+  if (!userId) {
+    sendUnauthorizedError(res, 'Authentication required');
+    return false;
+  }
+
+  if (!isReactionType(req.params.type)) {
+    sendValidationError(res, 'Invalid reaction type', [
+      { path: ['type'], message: `Expected one of: ${REACTION_TYPES.join(', ')}` }
+    ]);
+    return false;
+  }
+
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    sendNotFoundError(res, 'Article not found');
+    return false;
+  }
+
+  const article = await Article.findById(req.params.id).select('authorId visibility').lean();
+  if (!article) {
+    sendNotFoundError(res, 'Article not found');
+    return false;
+  }
+
+  // Same privacy rule as reading: private nuggets are only visible to their author
+  if (article.visibility === 'private' && article.authorId !== userId) {
+    sendForbiddenError(res, 'This article is private');
+    return false;
+  }
+
+  return true;
+}
+
+function handleReactionError(req: Request, res: Response, error: any, msg: string) {
+  const requestLogger = createRequestLogger(req.id || 'unknown', (req as any).user?.userId, '/api/articles/:id/reactions/:type');
+  requestLogger.error({ msg, error: { message: error.message, stack: error.stack } });
+  captureException(error instanceof Error ? error : new Error(String(error)), { requestId: req.id, route: req.path });
+  sendInternalError(res);
+}
+
+/**
+ * PUT /api/articles/:id/reactions/:type
+ * Idempotent: reacting twice with the same type leaves counters unchanged
+ */
+export const putReaction = async (req: Request, res: Response) => {
+  try {
+    if (!(await validateReactionRequest(req, res))) return;
+
+    const userId = (req as any).user.userId;
+    const type = req.params.type as typeof REACTION_TYPES[number];
+    const engagement = await addReaction(userId, req.params.id, type);
+
+    res.json({ articleId: req.params.id, type, reacted: true, engagement });
+  } catch (error: any) {
+    handleReactionError(req, res, error, 'Add reaction error');
+  }
+};
+
+/**
+ * DELETE /api/articles/:id/reactions/:type
+ * Idempotent: removing a reaction that does not exist is a no-op
+ */
+export const deleteReaction = async (req: Request, res: Response) => {
+  try {
+    if (!(await validateReactionRequest(req, res))) return;
+
+    const userId = (req as any).user.userId;
+    const type = req.params.type as typeof REACTION_TYPES[number];
+    const engagement = await removeReaction(userId, req.params.id, type);
+
+    res.json({ articleId: req.params.id, type, reacted: false, engagement });
+  } catch (error: any) {
+    handleReactionError(req, res, error, 'Remove reaction error');
+  }
+};
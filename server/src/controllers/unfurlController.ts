@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import { verifyToken } from '../utils/jwt.js';
+import { getOptionalViewer } from '../middleware/authenticateToken.js';
 import { fetchUrlMetadata } from '../services/metadata.js';
 import { isUrlSafeForFetch } from '../utils/ssrfProtection.js';
 import { createRequestLogger } from '../utils/logger.js';
@@ -59,21 +59,7 @@ export async function unfurlUrl(req: Request, res: Response) {
 
     // Check if user is admin (for Microlink access)
     // Authentication is optional - silently check if token exists
-    let isAdmin = false;
-    const authHeader = req.headers['authorization'];
-    
-    if (authHeader) {
-      try {
-        const token = authHeader.split(' ')[1]; // Bearer TOKEN
-        
-        if (token) {
-          const decoded = verifyToken(token);
-          isAdmin = decoded.role === 'admin';
-        }
-      } catch {
-        // Invalid token - treat as non-admin, continue silently
-      }
-    }
+    const isAdmin = (await getOptionalViewer(req))?.role === 'admin';
 
     // Fetch metadata with tiered waterfall strategy
     const nugget = await fetchUrlMetadata(url, { isAdmin });
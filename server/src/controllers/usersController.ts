@@ -1,4 +1,5 @@
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import { User } from '../models/User.js';
 import { normalizeDoc, normalizeDocs } from '../utils/db.js';
 import { Article } from '../models/Article.js';
@@ -6,6 +7,13 @@ import { updateUserSchema } from '../utils/validation.js';
 import { createSearchRegex } from '../utils/escapeRegExp.js';
 import { createRequestLogger } from '../utils/logger.js';
 import { captureException } from '../utils/sentry.js';
+import { revokeAllSessions } from '../services/sessionService.js';
+import { followUser as addFollowEdge, unfollowUser as removeFollowEdge, getFollowStats, removeFollowEdges } from '../services/userFollowService.js';
+import { notify } from '../services/notificationService.js';
+import { getOptionalViewer } from '../middleware/authenticateToken.js';
+import { rankPersonalizedFeed } from '../services/personalizedFeedService.js';
+import { attachImageVariants } from '../services/mediaVariantService.js';
+import { resolveFeedAsOf } from '../utils/feedScoring.js';
 
 export const getUsers = async (req: Request, res: Response) => {
   try {
@@ -60,7 +68,8 @@ export const getUserById = async (req: Request, res: Response) => {
   try {
     const user = await User.findById(req.params.id).select('-password');
     if (!user) return res.status(404).json({ message: 'User not found' });
-    res.json(normalizeDoc(user));
+    const followStats = await getFollowStats(user._id.toString(), (await getOptionalViewer(req))?.userId);
+    res.json({ ...normalizeDoc(user), followStats });
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
     const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
@@ -246,6 +255,9 @@ export const deleteUser = async (req: Request, res: Response) => {
   try {
     const user = await User.findByIdAndDelete(req.params.id);
     if (!user) return res.status(404).json({ message: 'User not found' });
+    // Outstanding access/refresh tokens must stop working immediately
+    await revokeAllSessions(user._id.toString(), 'user_deleted');
+    await removeFollowEdges(user._id.toString());
     res.status(204).send();
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
@@ -262,61 +274,118 @@ export const deleteUser = async (req: Request, res: Response) => {
   }
 };
 
+export const followUser = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
+    const followeeId = req.params.id;
+    if (followeeId === userId) {
+      return res.status(400).json({ message: 'You cannot follow yourself' });
+    }
+    if (!mongoose.Types.ObjectId.isValid(followeeId)) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    const followee = await User.findById(followeeId).select('_id');
+    if (!followee) return res.status(404).json({ message: 'User not found' });
+
+    // Idempotent: only a newly created edge notifies
+    if (await addFollowEdge(userId, followeeId)) {
+      await notify({
+        userId: followeeId,
+        type: 'user_follower',
+        actorId: userId,
+        message: 'started following you',
+        link: `/profile/${userId}`,
+        dedupeKey: `user-follower:${userId}` // Follow/unfollow toggling adds one notification
+      });
+    }
+
+    res.json(await getFollowStats(followeeId, userId));
+  } catch (error: any) {
+    const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
+    requestLogger.error({
+      msg: '[Users] Follow user error',
+      error: {
+        message: error.message,
+        stack: error.stack,
+      },
+    });
+    captureException(error instanceof Error ? error : new Error(String(error)), { requestId: req.id, route: req.path });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const unfollowUser = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
+    const followeeId = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(followeeId)) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    const followee = await User.findById(followeeId).select('_id');
+    if (!followee) return res.status(404).json({ message: 'User not found' });
+
+    // Idempotent: no-op when not following
+    await removeFollowEdge(userId, followeeId);
+
+    res.json(await getFollowStats(followeeId, userId));
+  } catch (error: any) {
+    const requestLogger = createRequestLogger(req.id || 'unknown', (req as any)?.user?.userId, req.path);
+    requestLogger.error({
+      msg: '[Users] Unfollow user error',
+      error: {
+        message: error.message,
+        stack: error.stack,
+      },
+    });
+    captureException(error instanceof Error ? error : new Error(String(error)), { requestId: req.id, route: req.path });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
 export const getPersonalizedFeed = async (req: Request, res: Response) => {
   try {
     const userId = req.params.id;
-    const user = await User.findById(userId);
-    
+    const requester = (req as any).user;
+    // A feed reveals reading habits: only its owner (or an admin) may load it
+    if (requester?.userId !== userId && requester?.role !== 'admin') {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+
+    const user = await User.findById(userId).select('preferences.interestedCategories').lean();
     if (!user) {
       return res.status(404).json({ message: 'User not found' });
     }
 
-    // Get user's interested categories from nested preferences
-    const categories = user.preferences?.interestedCategories || [];
-    const lastVisit = user.appState?.lastLoginAt 
-      ? new Date(user.appState.lastLoginAt) 
-      : new Date(0);
-    
-    // Build MongoDB query for articles matching user's interests
-    // PRIVACY FIX: Only show public articles in personalized feed
-    // The $or was incorrectly structured - it would match ANY condition, including private articles
-    const articleQuery: any = {
-      visibility: 'public', // Only public articles in personalized feed
-      $or: [
-        { categories: { $in: categories } },
-        { category: { $in: categories } }
-      ]
-    };
-    
-    // If user has no categories, show all public articles
-    if (categories.length === 0) {
-      delete articleQuery.$or;
-      articleQuery.visibility = 'public';
-    }
-    
-    // Find articles matching user's interests (only public)
-    const articles = await Article.find(articleQuery)
-      .sort({ publishedAt: -1 })
-      .limit(50); // Limit to 50 articles
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 50);
+    // Frozen per feed session so the candidate set and recency do not shift while
+    // paging. Engagement counts are read live, so items can still move between pages.
+    const asOf = resolveFeedAsOf(req.query.asOf);
 
-    // Count new articles since last feed visit using MongoDB query (more efficient)
-    // PRIVACY FIX: Ensure privacy filter is applied to count query
-    const countQuery = {
-      ...articleQuery,
-      publishedAt: { $gt: lastVisit.toISOString() }
-    };
-    const newCount = await Article.countDocuments(countQuery);
+    const ranked = await rankPersonalizedFeed(userId, user.preferences?.interestedCategories || [], asOf);
 
-    // Update last feed visit using findByIdAndUpdate (atomic operation)
-    await User.findByIdAndUpdate(
-      userId,
-      { $set: { 'appState.lastLoginAt': new Date().toISOString() } },
-      { new: false } // Don't need to return updated document
-    );
+    const pageItems = ranked.slice((page - 1) * limit, page * limit);
+    const articles = await Article.find({ _id: { $in: pageItems.map(item => item.id) } });
+    const byId = new Map((await attachImageVariants(normalizeDocs(articles))).map(article => [article.id, article]));
+    const data = pageItems
+      .filter(item => byId.has(item.id)) // Deleted since ranking
+      .map(item => ({ ...byId.get(item.id), feedReason: item.reason }));
 
-    res.json({ 
-      articles: normalizeDocs(articles), 
-      newCount 
+    res.json({
+      data,
+      total: ranked.length,
+      page,
+      limit,
+      hasMore: page * limit < ranked.length,
+      asOf: asOf.toISOString()
     });
   } catch (error: any) {
     // Audit Phase-1 Fix: Use structured logging and Sentry capture
@@ -40,7 +40,18 @@ import { seedDatabase } from './utils/seed.js';
 import { clearDatabase } from './utils/clearDatabase.js';
 
 // Cloudinary
-import { initializeCloudinary } from './services/cloudinaryService.js';
+import { initializeStorage } from './services/cloudinaryService.js';
+
+// Mail
+import { initializeMailer } from './services/mailService.js';
+import { startScheduledDigest, stopScheduledDigest } from './utils/scheduledDigest.js';
+
+// Batch imports and scheduled publishing
+import { startBatchJobWorker, stopBatchJobWorker } from './utils/scheduledBatchJobs.js';
+import { startScheduledPublishing, stopScheduledPublishing } from './utils/scheduledPublishing.js';
+
+// Account data export/import
+import { startAccountDataWorker, stopAccountDataWorker } from './utils/scheduledAccountData.js';
 
 // Route Imports
 import authRouter from './routes/auth.js';
@@ -57,6 +68,11 @@ import unfurlRouter from './routes/unfurl.js';
 import bookmarkFoldersRouter from './routes/bookmarkFolders.js';
 import batchRouter from './routes/batchRoutes.js';
 import mediaRouter from './routes/media.js';
+import engagementRouter from './routes/engagement.js';
+import commentsRouter from './routes/comments.js';
+import notificationsRouter from './routes/notifications.js';
+import digestRouter from './routes/digest.js';
+import accountDataRouter from './routes/accountData.js';
 
 const app = express();
 const env = getEnv();
@@ -182,6 +198,11 @@ app.use('/api/admin', adminRouter);
 app.use('/api/bookmark-folders', bookmarkFoldersRouter);
 app.use('/api/batch', batchRouter);
 app.use('/api/media', mediaRouter);
+app.use('/api/engagement', engagementRouter);
+app.use('/api/comments', commentsRouter);
+app.use('/api/notifications', notificationsRouter);
+app.use('/api/digest', digestRouter);
+app.use('/api/account-data', accountDataRouter);
 
 // Health Check - Enhanced to verify DB connectivity
 app.get('/api/health', async (req, res) => {
@@ -393,8 +414,25 @@ async function startServer() {
       environment: env.NODE_ENV,
     });
     
-    // Initialize Cloudinary (optional - only if credentials provided)
-    initializeCloudinary();
+    // Initialize media storage (Cloudinary/S3 when configured, local disk otherwise)
+    initializeStorage();
+    
+    // Initialize outbound mail transport (console/file sink by default)
+    initializeMailer();
+    
+    // Email digest for users with notifications.emailDigest on
+    if (env.DIGEST_ENABLED) {
+      startScheduledDigest(parseInt(env.DIGEST_INTERVAL_HOURS, 10));
+    }
+    
+    // Persisted batch imports (resumes jobs interrupted by a restart)
+    startBatchJobWorker();
+    
+    // Drafts scheduled to go public
+    startScheduledPublishing();
+    
+    // Personal data exports and imports
+    startAccountDataWorker();
     
     // Seed database if empty
     // TEMPORARILY DISABLED: Seeding is disabled. Re-enable by uncommenting the line below when needed.
@@ -432,6 +470,12 @@ async function gracefulShutdown(signal: string) {
     signal,
   });
   
+  // Stop background jobs
+  stopScheduledDigest();
+  stopBatchJobWorker();
+  stopScheduledPublishing();
+  stopAccountDataWorker();
+  
   // Stop accepting new connections
   if (server) {
     server.close(() => {
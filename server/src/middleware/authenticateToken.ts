@@ -1,15 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyToken } from '../utils/jwt.js';
+import { verifyToken, JWTPayload } from '../utils/jwt.js';
 import { createRequestLogger } from '../utils/logger.js';
+import { isSessionActive } from '../services/sessionService.js';
 
 /**
  * Express middleware to authenticate JWT tokens
- * Adds req.user = { userId: string, role: string } to the request if token is valid
+ * Adds req.user = { userId: string, role: string, sessionId: string } to the request if token is valid
+ * Tokens whose login session was revoked (logout, password reset, etc.) are rejected.
  * 
  * CRITICAL: OPTIONS requests (CORS preflight) are allowed through without authentication
  * to enable cross-origin DELETE/PUT/PATCH requests with custom headers.
  */
-export function authenticateToken(req: Request, res: Response, next: NextFunction) {
+export async function authenticateToken(req: Request, res: Response, next: NextFunction) {
   // Skip authentication for OPTIONS requests (CORS preflight)
   // Browsers send OPTIONS requests before DELETE/PUT/PATCH with custom headers
   // These requests don't include Authorization headers, so we must allow them through
@@ -24,10 +26,9 @@ export function authenticateToken(req: Request, res: Response, next: NextFunctio
     return res.status(401).json({ message: 'Access token required' });
   }
 
+  let decoded;
   try {
-    const decoded = verifyToken(token);
-    (req as any).user = decoded;
-    next();
+    decoded = verifyToken(token);
   } catch (error: any) {
     if (error.name === 'TokenExpiredError') {
       // Audit Phase-2 Fix: Log token expiration using request logger
@@ -43,6 +44,43 @@ export function authenticateToken(req: Request, res: Response, next: NextFunctio
     }
     return res.status(403).json({ message: 'Invalid or expired token' });
   }
+
+  // Tokens issued before server-side sessions existed carry no sessionId and cannot be revoked
+  if (!decoded.sessionId || !(await isSessionActive(decoded.sessionId))) {
+    return res.status(401).json({ message: 'Session expired', code: 'SESSION_REVOKED' });
+  }
+
+  (req as any).user = decoded;
+  next();
+}
+
+/**
+ * Signed-in user on routes where authentication is optional (public reads)
+ * Returns req.user when authenticateToken already ran, otherwise the bearer
+ * token's payload if it is valid and its session has not been revoked.
+ * Never rejects the request: a missing or unusable token means anonymous.
+ */
+export async function getOptionalViewer(req: Request): Promise<JWTPayload | undefined> {
+  if ((req as any).user?.userId) {
+    return (req as any).user;
+  }
+
+  const token = req.headers['authorization']?.split(' ')[1]; // Bearer TOKEN
+  if (!token) {
+    return undefined;
+  }
+
+  let decoded: JWTPayload;
+  try {
+    decoded = verifyToken(token);
+  } catch {
+    return undefined;
+  }
+
+  if (!decoded.sessionId || !(await isSessionActive(decoded.sessionId))) {
+    return undefined;
+  }
+  return decoded;
 }
 
 
@@ -36,6 +36,132 @@ export const signupLimiter = rateLimit({
   }
 });
 
+/**
+ * Rate limiter for password reset endpoints
+ * Limits reset emails and token guessing
+ * 5 requests per 15 minutes per IP
+ */
+export const passwordResetLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // Limit each IP to 5 requests per windowMs
+  message: 'Too many attempts. Please try again later.',
+  standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
+  legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  handler: (req, res) => {
+    res.status(429).json({
+      message: 'Too many attempts. Please try again later.'
+    });
+  }
+});
+
+/**
+ * Rate limiter for email verification endpoints
+ * Limits verification resends and token guessing
+ * 10 requests per hour per IP
+ */
+export const verificationLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10, // Limit each IP to 10 requests per windowMs
+  message: 'Too many attempts. Please try again later.',
+  standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
+  legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  handler: (req, res) => {
+    res.status(429).json({
+      message: 'Too many attempts. Please try again later.'
+    });
+  }
+});
+
+/**
+ * Rate limiter for token refresh
+ * Clients refresh roughly once per access-token lifetime per tab
+ * 60 requests per 15 minutes per IP
+ */
+export const refreshLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 60, // Limit each IP to 60 requests per windowMs
+  message: 'Too many refresh attempts. Please try again later.',
+  standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
+  legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  handler: (req, res) => {
+    res.status(429).json({
+      message: 'Too many refresh attempts. Please try again later.'
+    });
+  }
+});
+
+/**
+ * Rate limiter for OAuth sign-in
+ * Covers starting the flow and redeeming callbacks
+ * 20 requests per 15 minutes per IP
+ */
+export const oauthLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // Limit each IP to 20 requests per windowMs
+  message: 'Too many sign-in attempts. Please try again later.',
+  standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
+  legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  handler: (req, res) => {
+    res.status(429).json({
+      message: 'Too many sign-in attempts. Please try again later.'
+    });
+  }
+});
+
+/**
+ * Rate limiter for two-factor code checks
+ * Six-digit codes are guessable without a tight limit
+ * 10 requests per 15 minutes per IP
+ */
+export const mfaLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // Limit each IP to 10 requests per windowMs
+  message: 'Too many verification attempts. Please try again later.',
+  standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
+  legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  handler: (req, res) => {
+    res.status(429).json({
+      message: 'Too many verification attempts. Please try again later.'
+    });
+  }
+});
+
+/**
+ * Rate limiter for engagement event ingestion
+ * Clients batch events, so a handful of requests per minute is normal
+ * 60 requests per minute per IP
+ */
+export const engagementLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 60, // Limit each IP to 60 requests per windowMs
+  message: 'Too many engagement events. Please try again later.',
+  standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
+  legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  handler: (req, res) => {
+    res.status(429).json({
+      message: 'Too many engagement events. Please try again later.'
+    });
+  }
+});
+
+/**
+ * Rate limiter for posting comments
+ * Slows down spam bursts without getting in the way of a conversation
+ * 10 requests per minute per IP
+ */
+export const commentLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 10, // Limit each IP to 10 requests per windowMs
+  message: 'Too many comments. Please slow down.',
+  standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
+  legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  handler: (req, res) => {
+    res.status(429).json({
+      message: 'Too many comments. Please slow down.'
+    });
+  }
+});
+
 /**
  * Rate limiter for unfurl endpoint
  * Prevents DoS attacks and resource exhaustion
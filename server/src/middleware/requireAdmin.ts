@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwt.js';
+import { isSessionActive } from '../services/sessionService.js';
+import { isMfaEnrollmentRequired } from '../services/platformSettingsService.js';
+import { User } from '../models/User.js';
 
 export interface AdminRequest extends Request {
   userId?: string;
@@ -10,8 +13,10 @@ export interface AdminRequest extends Request {
  * Middleware to require admin role
  * Must be used after authenticateToken middleware
  * Token must include userId and role (validated by verifyToken)
+ * and belong to a login session that has not been revoked.
+ * When the MFA policy requires it, admins must have two-factor enabled.
  */
-export const requireAdmin = (req: AdminRequest, res: Response, next: NextFunction) => {
+export const requireAdmin = async (req: AdminRequest, res: Response, next: NextFunction) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
@@ -19,17 +24,9 @@ export const requireAdmin = (req: AdminRequest, res: Response, next: NextFunctio
     return res.status(401).json({ message: 'Authentication required' });
   }
 
+  let decoded;
   try {
-    const decoded = verifyToken(token);
-    
-    // Check if user has admin role
-    if (decoded.role !== 'admin') {
-      return res.status(403).json({ message: 'Admin access required' });
-    }
-
-    req.userId = decoded.userId;
-    req.userRole = decoded.role;
-    next();
+    decoded = verifyToken(token);
   } catch (error: any) {
     if (error.name === 'TokenExpiredError') {
       return res.status(401).json({ message: 'Token expired' });
@@ -39,6 +36,27 @@ export const requireAdmin = (req: AdminRequest, res: Response, next: NextFunctio
     }
     return res.status(401).json({ message: 'Authentication failed' });
   }
+
+  if (!decoded.sessionId || !(await isSessionActive(decoded.sessionId))) {
+    return res.status(401).json({ message: 'Session expired', code: 'SESSION_REVOKED' });
+  }
+
+  // Check if user has admin role
+  if (decoded.role !== 'admin') {
+    return res.status(403).json({ message: 'Admin access required' });
+  }
+
+  const user = await User.findById(decoded.userId).select('security.mfaEnabled').lean();
+  if (await isMfaEnrollmentRequired(decoded.role, !!user?.security?.mfaEnabled)) {
+    return res.status(403).json({
+      message: 'Two-factor authentication is required for admin accounts. Enable it in Account Settings.',
+      code: 'MFA_ENROLLMENT_REQUIRED'
+    });
+  }
+
+  req.userId = decoded.userId;
+  req.userRole = decoded.role;
+  next();
 };
 
 
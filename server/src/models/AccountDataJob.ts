@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { AccountExportCounts } from '../utils/accountDataFormat.js';
+
+export type AccountDataJobType = 'export' | 'import';
+export type AccountDataJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface IAccountImportSectionResult {
+  imported: number;
+  skipped: number; // Already present (e.g. a nugget with the same URL) or referencing skipped items
+  failed: number;
+}
+
+export interface IAccountImportResult {
+  profile: boolean; // Any profile field or preference restored
+  nuggets: IAccountImportSectionResult;
+  collections: IAccountImportSectionResult;
+  bookmarks: IAccountImportSectionResult;
+  madePrivate: number; // Public items restored as private (unverified-account policy or name taken)
+}
+
+export interface IAccountDataJob extends Document {
+  userId: string;
+  type: AccountDataJobType;
+  status: AccountDataJobStatus;
+  fileId?: mongoose.Types.ObjectId | null; // GridFS file: the export ZIP, or the uploaded ZIP until it is imported
+  fileName?: string;
+  fileSize?: number;
+  counts?: AccountExportCounts; // Export: items written
+  importResult?: IAccountImportResult;
+  errorMessage?: string | null;
+  attempts: number;
+  lockedUntil?: Date | null; // Worker lease; an expired lease means the worker died and the job can be reclaimed
+  expiresAt?: Date | null; // Export: when the ZIP is deleted
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AccountDataJobSchema = new Schema<IAccountDataJob>({
+  userId: { type: String, required: true },
+  type: { type: String, enum: ['export', 'import'], required: true },
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    default: 'queued'
+  },
+  fileId: { type: Schema.Types.ObjectId, default: null },
+  fileName: { type: String },
+  fileSize: { type: Number },
+  counts: { type: Schema.Types.Mixed },
+  importResult: { type: Schema.Types.Mixed },
+  errorMessage: { type: String, default: null },
+  attempts: { type: Number, default: 0 },
+  lockedUntil: { type: Date, default: null },
+  expiresAt: { type: Date, default: null },
+  finishedAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+// Account settings lists a user's recent jobs
+AccountDataJobSchema.index({ userId: 1, createdAt: -1 });
+// Worker claims queued jobs, oldest first
+AccountDataJobSchema.index({ status: 1, createdAt: 1 });
+// Cleanup finds exports whose ZIP has expired
+AccountDataJobSchema.index({ expiresAt: 1 });
+// Finished jobs are kept for 30 days (their files are removed earlier)
+AccountDataJobSchema.index({ finishedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const AccountDataJob = mongoose.model<IAccountDataJob>('AccountDataJob', AccountDataJobSchema);
@@ -42,6 +42,12 @@ export interface IEngagement {
   bookmarks: number;
   shares: number;
   views: number;
+  // Counts for the non-like reactions (see models/Reaction.ts)
+  reactions?: {
+    insightful?: number;
+    celebrate?: number;
+    curious?: number;
+  };
 }
 
 export interface IDocument {
@@ -64,6 +70,7 @@ export interface IArticle extends Document {
   tags: string[];
   readTime?: number; // Estimated read time in minutes
   visibility?: 'public' | 'private'; // Default: public
+  scheduledPublishAt?: string | null; // ISO; a private nugget becomes public at this time
   
   // Media fields (matching frontend Article interface)
   media?: INuggetMedia | null;
@@ -119,7 +126,15 @@ const EngagementSchema = new Schema<IEngagement>({
   likes: { type: Number, default: 0 },
   bookmarks: { type: Number, default: 0 },
   shares: { type: Number, default: 0 },
-  views: { type: Number, default: 0 }
+  views: { type: Number, default: 0 },
+  reactions: {
+    type: {
+      insightful: { type: Number, default: 0 },
+      celebrate: { type: Number, default: 0 },
+      curious: { type: Number, default: 0 }
+    },
+    required: false
+  }
 }, { _id: false });
 
 const DocumentSchema = new Schema<IDocument>({
@@ -142,6 +157,7 @@ const ArticleSchema = new Schema<IArticle>({
   tags: { type: [String], default: [] },
   readTime: { type: Number }, // Optional read time
   visibility: { type: String, enum: ['public', 'private'], default: 'public' },
+  scheduledPublishAt: { type: String },
   
   // Media fields
   media: { type: NuggetMediaSchema, default: null },
@@ -177,6 +193,18 @@ ArticleSchema.index({ authorId: 1, visibility: 1 }); // User's articles by visib
 ArticleSchema.index({ categoryIds: 1 });
 // Audit Phase-2 Fix: Add index for media.url field (for YouTube cache lookup in AI controller)
 ArticleSchema.index({ 'media.url': 1 });
+ArticleSchema.index({ 'engagement.likes': -1, publishedAt: -1 }); // "Most liked" sort
+ArticleSchema.index({ scheduledPublishAt: 1 }); // Scheduled publishing
+// Full-text search (relevance ranking); a collection can only have one text index
+ArticleSchema.index(
+  { title: 'text', tags: 'text', excerpt: 'text', content: 'text' },
+  {
+    name: 'article_text_search',
+    weights: { title: 10, tags: 6, excerpt: 3, content: 1 },
+    default_language: 'english',
+    language_override: 'searchLanguage' // Don't let a document field switch the stemmer
+  }
+);
 
 export const Article = mongoose.model<IArticle>('Article', ArticleSchema);
 
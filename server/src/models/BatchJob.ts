@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { BatchJobRowStatus, BatchJobStatus } from '../utils/batchJobState.js';
+
+export interface IBatchJobRow {
+  rowId: string; // Client row id, so the import page can map progress back to its rows
+  url: string;
+  payload: Record<string, any>; // Validated createArticle body (author set from the job owner)
+  folder?: string; // Bookmark folder to file the created nugget into (bookmark imports)
+  status: BatchJobRowStatus;
+  attempts: number;
+  nextAttemptAt?: string | null; // ISO; set while a failed row waits for its retry
+  errorMessage?: string | null;
+  articleId?: string; // Reserved when the row is first attempted; the nugget exists once the row succeeds
+}
+
+export interface IBatchJob extends Document {
+  userId: string;
+  status: BatchJobStatus;
+  rows: IBatchJobRow[];
+  nextRunAt?: Date | null; // Earliest due pending row; null when nothing is left to run
+  lockedUntil?: Date | null; // Worker lease; an expired lease means the worker died and the job can be reclaimed
+  cancelledAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BatchJobRowSchema = new Schema<IBatchJobRow>({
+  rowId: { type: String, required: true },
+  url: { type: String, required: true },
+  payload: { type: Schema.Types.Mixed, required: true },
+  folder: { type: String },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'success', 'error', 'cancelled'],
+    default: 'pending'
+  },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: String, default: null },
+  errorMessage: { type: String, default: null },
+  articleId: { type: String }
+}, { _id: false });
+
+const BatchJobSchema = new Schema<IBatchJob>({
+  userId: { type: String, required: true },
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'completed', 'cancelled'],
+    default: 'queued'
+  },
+  rows: { type: [BatchJobRowSchema], default: [] },
+  nextRunAt: { type: Date, default: null },
+  lockedUntil: { type: Date, default: null },
+  cancelledAt: { type: Date },
+  finishedAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+// The import page lists a user's recent jobs to resume them
+BatchJobSchema.index({ userId: 1, createdAt: -1 });
+// Worker claims due jobs
+BatchJobSchema.index({ status: 1, nextRunAt: 1 });
+// Finished jobs are kept for 30 days
+BatchJobSchema.index({ finishedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const BatchJob = mongoose.model<IBatchJob>('BatchJob', BatchJobSchema);
@@ -1,10 +1,42 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import type { CollectionRole } from '../utils/collectionPermissions.js';
+import type { EntryReviewStatus } from '../utils/entryFlags.js';
 
 export interface ICollectionEntry {
   articleId: string;
   addedByUserId: string;
   addedAt: string;
   flaggedBy: string[];
+  note?: string; // Curator note shown alongside the entry
+  noteUpdatedBy?: string;
+  noteUpdatedAt?: string;
+  sectionId?: string; // Section heading the entry sits under; unset for the top group
+  reviewStatus?: EntryReviewStatus; // Set once flags reach the platform threshold
+  reviewQueuedAt?: string;
+  reportId?: string; // Moderation report opened for the flags
+}
+
+// Optional heading grouping entries; array order is display order
+export interface ICollectionSection {
+  id: string;
+  title: string;
+  createdAt: string;
+}
+
+// The creator is the implicit owner and is never listed here
+export interface ICollectionMember {
+  userId: string;
+  role: CollectionRole;
+  addedAt: string;
+  invitedBy?: string;
+}
+
+// Pending invitation; becomes a member once the invitee accepts
+export interface ICollectionInvitation {
+  userId: string;
+  role: CollectionRole;
+  invitedBy: string;
+  invitedAt: string;
 }
 
 export interface ICollection extends Document {
@@ -16,7 +48,10 @@ export interface ICollection extends Document {
   updatedAt: string;
   followersCount: number;
   followers: string[]; // Array of userIds who follow this collection
-  entries: ICollectionEntry[];
+  entries: ICollectionEntry[]; // Array order is the curated display order
+  sections: ICollectionSection[];
+  members: ICollectionMember[];
+  invitations: ICollectionInvitation[];
   validEntriesCount?: number; // Validated count of entries (computed, may be undefined for legacy data)
   type: 'private' | 'public';
   // Legacy field - kept for backward compatibility, maps to rawName
@@ -27,7 +62,34 @@ const CollectionEntrySchema = new Schema<ICollectionEntry>({
   articleId: { type: String, required: true },
   addedByUserId: { type: String, required: true },
   addedAt: { type: String, required: true },
-  flaggedBy: { type: [String], default: [] }
+  flaggedBy: { type: [String], default: [] },
+  note: { type: String },
+  noteUpdatedBy: { type: String },
+  noteUpdatedAt: { type: String },
+  sectionId: { type: String },
+  reviewStatus: { type: String, enum: ['queued', 'hidden'] },
+  reviewQueuedAt: { type: String },
+  reportId: { type: String }
+}, { _id: false });
+
+const CollectionSectionSchema = new Schema<ICollectionSection>({
+  id: { type: String, required: true },
+  title: { type: String, required: true, trim: true },
+  createdAt: { type: String, required: true }
+}, { _id: false });
+
+const CollectionMemberSchema = new Schema<ICollectionMember>({
+  userId: { type: String, required: true },
+  role: { type: String, enum: ['owner', 'editor', 'viewer'], required: true },
+  addedAt: { type: String, required: true },
+  invitedBy: { type: String }
+}, { _id: false });
+
+const CollectionInvitationSchema = new Schema<ICollectionInvitation>({
+  userId: { type: String, required: true },
+  role: { type: String, enum: ['owner', 'editor', 'viewer'], required: true },
+  invitedBy: { type: String, required: true },
+  invitedAt: { type: String, required: true }
 }, { _id: false });
 
 const CollectionSchema = new Schema<ICollection>({
@@ -40,6 +102,9 @@ const CollectionSchema = new Schema<ICollection>({
   followersCount: { type: Number, default: 0 },
   followers: { type: [String], default: [] }, // Array of userIds
   entries: { type: [CollectionEntrySchema], default: [] },
+  sections: { type: [CollectionSectionSchema], default: [] },
+  members: { type: [CollectionMemberSchema], default: [] },
+  invitations: { type: [CollectionInvitationSchema], default: [] },
   validEntriesCount: { type: Number }, // Optional validated count (computed field)
   type: { type: String, enum: ['private', 'public'], default: 'public' }
 }, {
@@ -51,6 +116,8 @@ CollectionSchema.index({ creatorId: 1 }); // Ownership queries
 CollectionSchema.index({ creatorId: 1, type: 1 }); // Compound: filtering by creator and type
 CollectionSchema.index({ createdAt: -1 }); // List sorting
 CollectionSchema.index({ type: 1, createdAt: -1 }); // Visibility filters with sorting
+CollectionSchema.index({ 'members.userId': 1 }); // Collections shared with a user
+CollectionSchema.index({ 'invitations.userId': 1 }); // Pending invitations for a user
 // Unique index on canonicalName per creator (collections can have same canonicalName if different creators)
 // Note: For private collections, we want uniqueness per creator. For public, we want global uniqueness.
 // We'll handle this in the controller logic, but add a compound index for efficient lookups
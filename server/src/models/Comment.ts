@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ICommentAuthor {
+  id: string;
+  name: string;
+  username?: string;
+  avatarUrl?: string;
+}
+
+export interface IComment extends Document {
+  articleId: string;
+  parentId: string | null; // null for top-level comments
+  depth: number; // 0 for top-level comments
+  author: ICommentAuthor;
+  content: string; // Markdown
+  // Deleted comments that still have replies stay as a placeholder to keep the thread intact
+  status: 'visible' | 'deleted';
+  createdAt: string;
+  updatedAt?: string;
+  editedAt?: string;
+  deletedAt?: string;
+}
+
+const CommentAuthorSchema = new Schema<ICommentAuthor>({
+  id: { type: String, required: true },
+  name: { type: String, required: true },
+  username: { type: String },
+  avatarUrl: { type: String }
+}, { _id: false });
+
+const CommentSchema = new Schema<IComment>({
+  articleId: { type: String, required: true },
+  parentId: { type: String, default: null },
+  depth: { type: Number, default: 0 },
+  author: { type: CommentAuthorSchema, required: true },
+  content: { type: String, default: '' },
+  status: { type: String, enum: ['visible', 'deleted'], default: 'visible' },
+  createdAt: { type: String, required: true },
+  updatedAt: { type: String },
+  editedAt: { type: String },
+  deletedAt: { type: String }
+}, {
+  timestamps: false // We manage our own timestamps
+});
+
+CommentSchema.index({ articleId: 1, createdAt: 1 }); // Thread loading
+CommentSchema.index({ parentId: 1 }); // Reply lookups
+CommentSchema.index({ 'author.id': 1 });
+
+export const Comment = mongoose.model<IComment>('Comment', CommentSchema);
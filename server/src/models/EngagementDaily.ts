@@ -0,0 +1,28 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Daily engagement rollup per nugget (UTC days)
+ * Powers the author trend charts without keeping raw events.
+ */
+export interface IEngagementDaily extends Document {
+  articleId: string;
+  authorId: string;
+  date: string; // YYYY-MM-DD (UTC)
+  views: number;
+  shares: number;
+}
+
+const EngagementDailySchema = new Schema<IEngagementDaily>({
+  articleId: { type: String, required: true },
+  authorId: { type: String, required: true },
+  date: { type: String, required: true },
+  views: { type: Number, default: 0 },
+  shares: { type: Number, default: 0 }
+}, {
+  timestamps: false
+});
+
+EngagementDailySchema.index({ articleId: 1, date: 1 }, { unique: true });
+EngagementDailySchema.index({ authorId: 1, date: 1 }); // Author trend queries
+
+export const EngagementDaily = mongoose.model<IEngagementDaily>('EngagementDaily', EngagementDailySchema);
@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type EngagementEventType = 'view' | 'share';
+
+/**
+ * De-duplication key for engagement events
+ * One document per (article, event type, actor, time window); the unique index
+ * makes repeated events inside a window no-ops and the TTL index expires keys
+ * once their window is over.
+ */
+export interface IEngagementEventKey extends Document {
+  articleId: string;
+  type: EngagementEventType;
+  actorKey: string; // "user:<id>" or "ip:<hash>"
+  window: number; // Window index (epoch ms / window length)
+  expiresAt: Date;
+}
+
+const EngagementEventKeySchema = new Schema<IEngagementEventKey>({
+  articleId: { type: String, required: true },
+  type: { type: String, enum: ['view', 'share'], required: true },
+  actorKey: { type: String, required: true },
+  window: { type: Number, required: true },
+  expiresAt: { type: Date, required: true }
+}, {
+  timestamps: false
+});
+
+EngagementEventKeySchema.index({ articleId: 1, type: 1, actorKey: 1, window: 1 }, { unique: true });
+EngagementEventKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const EngagementEventKey = mongoose.model<IEngagementEventKey>('EngagementEventKey', EngagementEventKeySchema);
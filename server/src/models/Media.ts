@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import type { StoredRendition, ImagePlaceholder } from '../utils/imageRenditions.js';
 
 /**
  * Media Purpose Types
@@ -22,6 +23,11 @@ export type MediaEntityType = 'nugget' | 'user' | 'post' | 'collection';
  */
 export type CloudinaryResourceType = 'image' | 'video' | 'raw';
 
+/**
+ * Storage backend holding the asset
+ */
+export type MediaStorageProvider = 'cloudinary' | 'local' | 's3';
+
 /**
  * Media Document Interface
  * MongoDB-first media tracking with Cloudinary integration
@@ -31,9 +37,11 @@ export interface IMedia extends Document {
   ownerId: mongoose.Types.ObjectId; // User who uploaded
   purpose: MediaPurpose; // What this media is for
   
-  // Cloudinary metadata (source of truth for storage)
+  // Storage metadata (source of truth for storage)
+  // Named for the original Cloudinary-only setup; `provider` says where the asset lives
   cloudinary: {
-    publicId: string; // Unique Cloudinary identifier
+    provider?: MediaStorageProvider; // Missing on records created before pluggable storage (= cloudinary)
+    publicId: string; // Unique identifier within the provider
     secureUrl: string; // HTTPS URL to the asset
     resourceType: CloudinaryResourceType; // image, video, or raw
     format?: string; // jpg, png, mp4, etc.
@@ -43,6 +51,10 @@ export interface IMedia extends Document {
     bytes?: number; // File size in bytes
   };
   
+  // Responsive renditions and placeholder (processed images only)
+  renditions?: StoredRendition[]; // Same provider as the original
+  placeholder?: ImagePlaceholder;
+
   // Original file metadata
   file: {
     mimeType: string; // MIME type (e.g., image/jpeg)
@@ -67,6 +79,11 @@ export interface IMedia extends Document {
  * Cloudinary subdocument schema
  */
 const CloudinarySchema = new Schema({
+  provider: {
+    type: String,
+    enum: ['cloudinary', 'local', 's3'],
+    default: 'cloudinary'
+  },
   publicId: { 
     type: String, 
     required: true,
@@ -99,6 +116,48 @@ const CloudinarySchema = new Schema({
   }
 }, { _id: false });
 
+/**
+ * Rendition subdocument schema
+ */
+const RenditionSchema = new Schema({
+  publicId: {
+    type: String,
+    required: true
+  },
+  secureUrl: {
+    type: String,
+    required: true
+  },
+  format: {
+    type: String,
+    enum: ['avif', 'webp'],
+    required: true
+  },
+  width: {
+    type: Number,
+    required: true
+  },
+  height: {
+    type: Number,
+    required: true
+  },
+  bytes: {
+    type: Number
+  }
+}, { _id: false });
+
+/**
+ * Placeholder subdocument schema
+ */
+const PlaceholderSchema = new Schema({
+  blurhash: {
+    type: String
+  },
+  dominantColor: {
+    type: String
+  }
+}, { _id: false });
+
 /**
  * File metadata subdocument schema
  */
@@ -153,6 +212,13 @@ const MediaSchema = new Schema<IMedia>({
     type: CloudinarySchema, 
     required: true 
   },
+  renditions: {
+    type: [RenditionSchema],
+    default: undefined
+  },
+  placeholder: {
+    type: PlaceholderSchema
+  },
   file: { 
     type: FileSchema, 
     required: true 
@@ -179,6 +245,7 @@ const MediaSchema = new Schema<IMedia>({
 MediaSchema.index({ ownerId: 1, status: 1 });
 MediaSchema.index({ 'usedBy.entityType': 1, 'usedBy.entityId': 1 });
 MediaSchema.index({ status: 1, deletedAt: 1 });
+MediaSchema.index({ 'cloudinary.secureUrl': 1 }); // Variant lookup for article images
 
 // Prevent duplicate publicIds
 MediaSchema.index({ 'cloudinary.publicId': 1 }, { unique: true });
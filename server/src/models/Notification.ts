@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NOTIFICATION_TYPES, NotificationType } from '../utils/notificationPreferences.js';
+
+export interface INotificationActor {
+  id: string;
+  name: string;
+  avatarUrl?: string;
+}
+
+export interface INotification extends Document {
+  userId: string; // Recipient
+  type: NotificationType;
+  actor?: INotificationActor; // Absent for system events (moderation, feedback)
+  message: string; // Shown after the actor name, or on its own without an actor
+  link?: string; // In-app path to open
+  dedupeKey?: string; // Repeat events with the same key collapse while unread
+  readAt?: Date;
+  createdAt: Date;
+}
+
+const NotificationActorSchema = new Schema<INotificationActor>({
+  id: { type: String, required: true },
+  name: { type: String, required: true },
+  avatarUrl: { type: String }
+}, { _id: false });
+
+const NotificationSchema = new Schema<INotification>({
+  userId: { type: String, required: true },
+  type: { type: String, enum: NOTIFICATION_TYPES, required: true },
+  actor: { type: NotificationActorSchema },
+  message: { type: String, required: true },
+  link: { type: String },
+  dedupeKey: { type: String },
+  readAt: { type: Date }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Inbox listing and unread counts
+NotificationSchema.index({ userId: 1, createdAt: -1 });
+NotificationSchema.index({ userId: 1, readAt: 1 });
+// Notifications are kept for 90 days
+NotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const Notification = mongoose.model<INotification>('Notification', NotificationSchema);
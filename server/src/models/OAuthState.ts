@@ -0,0 +1,33 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Pending OAuth authorization request
+ * Created when the user is sent to the provider and consumed (deleted) by the callback,
+ * so each `state` value can be redeemed exactly once.
+ */
+export interface IOAuthState extends Document {
+  stateHash: string; // Hash of the `state` parameter sent to the provider
+  provider: 'google' | 'linkedin';
+  codeVerifier: string; // PKCE verifier for the token exchange
+  mode: 'login' | 'link';
+  userId?: string; // Account to link the identity to (mode: 'link')
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+const OAuthStateSchema = new Schema<IOAuthState>({
+  stateHash: { type: String, required: true, unique: true },
+  provider: { type: String, enum: ['google', 'linkedin'], required: true },
+  codeVerifier: { type: String, required: true },
+  mode: { type: String, enum: ['login', 'link'], required: true },
+  userId: { type: String },
+  expiresAt: {
+    type: Date,
+    required: true,
+    index: { expireAfterSeconds: 0 } // TTL index removes abandoned attempts
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+export const OAuthState = mongoose.model<IOAuthState>('OAuthState', OAuthStateSchema);
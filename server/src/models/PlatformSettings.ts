@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Admin-managed platform settings
+ * Stored as a single document (key: 'global') and read through platformSettingsService
+ */
+
+export interface IUnverifiedAccountPolicy {
+  canCreatePublicNuggets: boolean;
+  canCreatePublicCollections: boolean;
+}
+
+export interface IMfaPolicy {
+  requireForAdmins: boolean; // Admins without MFA are locked out of admin endpoints until they enroll
+}
+
+// What happens to a collection entry once enough users flag it
+export interface ICollectionFlagPolicy {
+  threshold: number; // Distinct flags that put an entry up for review
+  action: 'hide' | 'queue'; // 'hide' also hides it from non-curators until reviewed
+}
+
+export interface IPlatformSettings extends Document {
+  key: string;
+  unverifiedAccountPolicy: IUnverifiedAccountPolicy;
+  mfaPolicy: IMfaPolicy;
+  collectionFlagPolicy: ICollectionFlagPolicy;
+  updatedAt: string; // ISO Date
+  updatedBy?: string; // Admin user ID
+}
+
+const UnverifiedAccountPolicySchema = new Schema<IUnverifiedAccountPolicy>({
+  canCreatePublicNuggets: { type: Boolean, default: true },
+  canCreatePublicCollections: { type: Boolean, default: true }
+}, { _id: false });
+
+const MfaPolicySchema = new Schema<IMfaPolicy>({
+  requireForAdmins: { type: Boolean, default: false }
+}, { _id: false });
+
+const CollectionFlagPolicySchema = new Schema<ICollectionFlagPolicy>({
+  threshold: { type: Number, default: 3, min: 1 },
+  action: { type: String, enum: ['hide', 'queue'], default: 'hide' }
+}, { _id: false });
+
+const PlatformSettingsSchema = new Schema<IPlatformSettings>({
+  key: { type: String, required: true, unique: true, default: 'global' },
+  unverifiedAccountPolicy: { type: UnverifiedAccountPolicySchema, default: () => ({}) },
+  mfaPolicy: { type: MfaPolicySchema, default: () => ({}) },
+  collectionFlagPolicy: { type: CollectionFlagPolicySchema, default: () => ({}) },
+  updatedAt: { type: String, required: true },
+  updatedBy: { type: String }
+}, {
+  timestamps: false
+});
+
+export const PlatformSettings = mongoose.model<IPlatformSettings>('PlatformSettings', PlatformSettingsSchema);
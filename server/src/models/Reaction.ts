@@ -0,0 +1,26 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Fixed reaction set; 'like' is counted in engagement.likes, the others in engagement.reactions
+export const REACTION_TYPES = ['like', 'insightful', 'celebrate', 'curious'] as const;
+export type ReactionType = typeof REACTION_TYPES[number];
+
+export interface IReaction extends Document {
+  userId: string;
+  articleId: string;
+  type: ReactionType;
+  createdAt: string;
+}
+
+const ReactionSchema = new Schema<IReaction>({
+  userId: { type: String, required: true },
+  articleId: { type: String, required: true, index: true },
+  type: { type: String, enum: REACTION_TYPES, required: true },
+  createdAt: { type: String, required: true }
+}, {
+  timestamps: false
+});
+
+// Compound unique index: a user reacts at most once per type on a nugget
+ReactionSchema.index({ userId: 1, articleId: 1, type: 1 }, { unique: true });
+
+export const Reaction = mongoose.model<IReaction>('Reaction', ReactionSchema);
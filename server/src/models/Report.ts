@@ -10,13 +10,23 @@ export interface IReportRespondent {
   name: string;
 }
 
+// Set on reports opened automatically when a collection entry is flagged
+// past the platform threshold; the nugget itself is the report target
+export interface IReportCollectionEntry {
+  collectionId: string;
+  collectionName: string;
+  articleId: string;
+  flagCount: number;
+}
+
 export interface IReport extends Document {
   targetId: string;
-  targetType: 'nugget' | 'user' | 'collection';
+  targetType: 'nugget' | 'user' | 'collection' | 'comment';
   reason: 'spam' | 'harassment' | 'misinformation' | 'copyright' | 'other';
   description?: string;
   reporter: IReportReporter;
   respondent?: IReportRespondent;
+  collectionEntry?: IReportCollectionEntry;
   status: 'open' | 'resolved' | 'dismissed';
   resolvedAt?: Date;
   dismissedAt?: Date;
@@ -35,11 +45,18 @@ const ReportRespondentSchema = new Schema<IReportRespondent>({
   name: { type: String, required: true }
 }, { _id: false });
 
+const ReportCollectionEntrySchema = new Schema<IReportCollectionEntry>({
+  collectionId: { type: String, required: true },
+  collectionName: { type: String, required: true },
+  articleId: { type: String, required: true },
+  flagCount: { type: Number, required: true }
+}, { _id: false });
+
 const ReportSchema = new Schema<IReport>({
   targetId: { type: String, required: true, index: true },
   targetType: { 
     type: String, 
-    enum: ['nugget', 'user', 'collection'], 
+    enum: ['nugget', 'user', 'collection', 'comment'], 
     required: true,
     index: true
   },
@@ -52,6 +69,7 @@ const ReportSchema = new Schema<IReport>({
   description: { type: String, trim: true },
   reporter: { type: ReportReporterSchema, required: true },
   respondent: { type: ReportRespondentSchema },
+  collectionEntry: { type: ReportCollectionEntrySchema },
   status: { 
     type: String, 
     enum: ['open', 'resolved', 'dismissed'], 
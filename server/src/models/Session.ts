@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Login session backing a rotating refresh token
+ * Access tokens carry the session ID so revoking a session
+ * invalidates every access token issued for it.
+ */
+export interface ISession extends Document {
+  userId: string;
+  refreshTokenHash: string; // Hash of the current refresh token
+  previousRefreshTokenHash?: string; // Hash of the token it replaced (reuse detection)
+  rotatedAt?: Date; // When the refresh token was last rotated
+  userAgent?: string;
+  ip?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date; // Refresh token expiry (TTL cleanup)
+  revokedAt?: Date;
+  revokedReason?: 'logout' | 'logout_all' | 'password_change' | 'user_deleted' | 'reuse_detected' | 'admin';
+}
+
+const SessionSchema = new Schema<ISession>({
+  userId: { type: String, required: true, index: true },
+  refreshTokenHash: { type: String, required: true },
+  previousRefreshTokenHash: { type: String },
+  rotatedAt: { type: Date },
+  userAgent: { type: String },
+  ip: { type: String },
+  lastUsedAt: { type: Date, default: Date.now },
+  expiresAt: {
+    type: Date,
+    required: true,
+    index: { expireAfterSeconds: 0 } // TTL index removes expired sessions
+  },
+  revokedAt: { type: Date },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'logout_all', 'password_change', 'user_deleted', 'reuse_detected', 'admin']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Active sessions per user (account settings list, logout-all)
+SessionSchema.index({ userId: 1, revokedAt: 1 });
+
+export const Session = mongoose.model<ISession>('Session', SessionSchema);
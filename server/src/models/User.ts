@@ -2,10 +2,21 @@ import mongoose, { Schema, Document } from 'mongoose';
 
 // Nested schemas matching the modular User interface from src/types/user.ts
 
+export type OAuthProvider = 'google' | 'linkedin';
+
+// External identity linked to the account (one per provider)
+export interface IUserIdentity {
+  provider: OAuthProvider;
+  providerUserId: string; // Provider's stable subject ID
+  email?: string; // Email reported by the provider at link time
+  linkedAt: string; // ISO Date
+}
+
 export interface IUserAuth {
   email: string;
   emailVerified: boolean;
-  provider: 'email' | 'google' | 'linkedin';
+  provider: 'email' | OAuthProvider; // Provider the account was created with
+  identities?: IUserIdentity[];
   createdAt: string; // ISO Date
   updatedAt?: string; // ISO Date
 }
@@ -36,6 +47,18 @@ export interface IUserProfile {
 export interface IUserSecurity {
   lastPasswordChangeAt?: string; // ISO Date
   mfaEnabled: boolean;
+  mfaEnabledAt?: string; // ISO Date
+  // TOTP (encrypted secrets and hashed recovery codes, never selected by default)
+  mfaSecret?: string; // Active secret
+  mfaPendingSecret?: string; // Secret awaiting confirmation during enrollment
+  mfaRecoveryCodeHashes?: string[];
+  mfaLastUsedStep?: number; // Last accepted TOTP time step (replay protection)
+  // Password reset (hash of the emailed token, never selected by default)
+  passwordResetTokenHash?: string;
+  passwordResetExpiresAt?: string; // ISO Date
+  // Email verification (hash of the emailed token, never selected by default)
+  emailVerificationTokenHash?: string;
+  emailVerificationExpiresAt?: string; // ISO Date
 }
 
 export interface IUserPreferences {
@@ -49,11 +72,17 @@ export interface IUserPreferences {
     emailDigest: boolean;
     productUpdates: boolean;
     newFollowers: boolean;
+    collectionActivity: boolean; // Nugget added to a collection, collection invitations
+    moderationUpdates: boolean; // Outcome of reports by or about the user
+    feedbackUpdates: boolean; // Feedback reviewed by the team
   };
 }
 
 export interface IUserAppState {
   lastLoginAt?: string;
+  followingFeedReadAt?: string; // Entries from followed collections added after this are unread
+  digestLastSentAt?: string; // Last email digest; the next one covers nuggets after this
+  digestUnsubscribeToken?: string; // One-click unsubscribe link token; only grants turning the digest off
   onboardingCompleted: boolean;
   featureFlags?: Record<string, boolean>;
 }
@@ -69,10 +98,18 @@ export interface IUser extends Document {
 }
 
 // Sub-schemas
+const UserIdentitySchema = new Schema<IUserIdentity>({
+  provider: { type: String, enum: ['google', 'linkedin'], required: true },
+  providerUserId: { type: String, required: true },
+  email: { type: String, lowercase: true },
+  linkedAt: { type: String, required: true }
+}, { _id: false });
+
 const UserAuthSchema = new Schema<IUserAuth>({
   email: { type: String, required: true, unique: true, lowercase: true },
   emailVerified: { type: Boolean, default: false },
   provider: { type: String, enum: ['email', 'google', 'linkedin'], default: 'email' },
+  identities: { type: [UserIdentitySchema], default: undefined },
   createdAt: { type: String, required: true },
   updatedAt: { type: String }
 }, { _id: false });
@@ -106,7 +143,16 @@ const UserProfileSchema = new Schema<IUserProfile>({
 
 const UserSecuritySchema = new Schema<IUserSecurity>({
   lastPasswordChangeAt: { type: String },
-  mfaEnabled: { type: Boolean, default: false }
+  mfaEnabled: { type: Boolean, default: false },
+  mfaEnabledAt: { type: String },
+  mfaSecret: { type: String, select: false },
+  mfaPendingSecret: { type: String, select: false },
+  mfaRecoveryCodeHashes: { type: [String], select: false, default: undefined },
+  mfaLastUsedStep: { type: Number, select: false },
+  passwordResetTokenHash: { type: String, select: false },
+  passwordResetExpiresAt: { type: String, select: false },
+  emailVerificationTokenHash: { type: String, select: false },
+  emailVerificationExpiresAt: { type: String, select: false }
 }, { _id: false });
 
 const UserPreferencesSchema = new Schema<IUserPreferences>({
@@ -127,12 +173,18 @@ const UserPreferencesSchema = new Schema<IUserPreferences>({
   notifications: {
     emailDigest: { type: Boolean, default: true },
     productUpdates: { type: Boolean, default: false },
-    newFollowers: { type: Boolean, default: true }
+    newFollowers: { type: Boolean, default: true },
+    collectionActivity: { type: Boolean, default: true },
+    moderationUpdates: { type: Boolean, default: true },
+    feedbackUpdates: { type: Boolean, default: true }
   }
 }, { _id: false });
 
 const UserAppStateSchema = new Schema<IUserAppState>({
   lastLoginAt: { type: String },
+  followingFeedReadAt: { type: String },
+  digestLastSentAt: { type: String },
+  digestUnsubscribeToken: { type: String },
   onboardingCompleted: { type: Boolean, default: false },
   featureFlags: { type: Schema.Types.Mixed, default: {} }
 }, { _id: false });
@@ -160,6 +212,14 @@ UserSchema.index({ 'auth.email': 1 }); // Already unique, but explicit for clari
 UserSchema.index({ 'profile.username': 1 }); // Already unique, but explicit for clarity
 UserSchema.index({ role: 1 }); // For admin queries
 UserSchema.index({ 'appState.lastLoginAt': -1 }); // For sorting by last login
+UserSchema.index({ 'security.passwordResetTokenHash': 1 }, { sparse: true }); // Reset token lookup
+UserSchema.index({ 'security.emailVerificationTokenHash': 1 }, { sparse: true }); // Verification token lookup
+UserSchema.index({ 'appState.digestUnsubscribeToken': 1 }, { sparse: true }); // Digest unsubscribe link lookup
+// OAuth login lookup; unique so one external identity can never back two accounts
+UserSchema.index(
+  { 'auth.identities.provider': 1, 'auth.identities.providerUserId': 1 },
+  { unique: true, partialFilterExpression: { 'auth.identities.providerUserId': { $exists: true } } }
+);
 
 export const User = mongoose.model<IUser>('User', UserSchema);
 
@@ -0,0 +1,21 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One row per follow edge; follower/following counts are counted from here
+export interface IUserFollow extends Document {
+  followerId: string;
+  followeeId: string;
+  createdAt: string;
+}
+
+const UserFollowSchema = new Schema<IUserFollow>({
+  followerId: { type: String, required: true },
+  followeeId: { type: String, required: true, index: true },
+  createdAt: { type: String, required: true }
+}, {
+  timestamps: false
+});
+
+// Compound unique index: a user follows another user at most once
+UserFollowSchema.index({ followerId: 1, followeeId: 1 }, { unique: true });
+
+export const UserFollow = mongoose.model<IUserFollow>('UserFollow', UserFollowSchema);
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import express from 'express';
+import {
+  requestAccountExport,
+  requestAccountImport,
+  listAccountDataJobs,
+  getAccountDataJob,
+  downloadAccountExport
+} from '../controllers/accountDataController.js';
+import { authenticateToken } from '../middleware/authenticateToken.js';
+import { ACCOUNT_IMPORT_MAX_BYTES } from '../services/accountDataService.js';
+
+const router = Router();
+
+/**
+ * Personal data export and import, processed by a background worker
+ *
+ * POST /api/account-data/exports              - queue an export of the user's data
+ * GET  /api/account-data/exports/:id/download - signed download link (no auth header)
+ * POST /api/account-data/imports              - upload an export ZIP to restore
+ * GET  /api/account-data/jobs                 - recent exports and imports
+ * GET  /api/account-data/jobs/:id             - one job, for polling
+ */
+router.post('/exports', authenticateToken, requestAccountExport);
+router.get('/exports/:id/download', downloadAccountExport);
+router.post(
+  '/imports',
+  authenticateToken,
+  express.raw({ type: ['application/zip', 'application/x-zip-compressed', 'application/octet-stream'], limit: ACCOUNT_IMPORT_MAX_BYTES }),
+  requestAccountImport
+);
+router.get('/jobs', authenticateToken, listAccountDataJobs);
+router.get('/jobs/:id', authenticateToken, getAccountDataJob);
+
+export default router;
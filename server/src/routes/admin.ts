@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { authenticateToken } from '../middleware/authenticateToken.js';
-import { getAdminStats } from '../controllers/adminController.js';
+import { requireAdmin } from '../middleware/requireAdmin.js';
+import { getAdminStats, getSettings, updateSettings, resetUserMfa, exportAdminData } from '../controllers/adminController.js';
 import { getKeyStatusController } from '../controllers/aiController.js';
 
 const router = Router();
@@ -8,6 +9,19 @@ const router = Router();
 // GET /api/admin/stats
 router.get('/stats', authenticateToken, getAdminStats);
 
+// GET/PATCH /api/admin/settings
+// Platform policies (e.g. what unverified accounts may do)
+router.get('/settings', requireAdmin, getSettings);
+router.patch('/settings', requireAdmin, updateSettings);
+
+// POST /api/admin/users/:id/mfa/reset
+// Clear a user's two-factor setup and sign them out everywhere
+router.post('/users/:id/mfa/reset', requireAdmin, resetUserMfa);
+
+// GET /api/admin/exports
+// Stream users or nuggets as CSV/NDJSON with selected columns and filters
+router.get('/exports', requireAdmin, exportAdminData);
+
 // GET /api/admin/key-status
 // Returns Gemini API key status for dashboard widget
 router.get('/key-status', getKeyStatusController);
@@ -1,6 +1,9 @@
 import { Router, Request, Response } from 'express';
 import * as articlesController from '../controllers/articlesController.js';
+import * as reactionsController from '../controllers/reactionsController.js';
+import * as commentsController from '../controllers/commentsController.js';
 import { authenticateToken } from '../middleware/authenticateToken.js';
+import { commentLimiter } from '../middleware/rateLimiter.js';
 
 const router = Router();
 
@@ -35,6 +38,16 @@ router.options('/:id/images', (req: Request, res: Response) => {
 // NOTE: This route must come BEFORE /:id route to ensure proper matching
 router.delete('/:id/images', authenticateToken, articlesController.deleteArticleImage);
 
+// PUT/DELETE /api/articles/:id/reactions/:type - Add or remove a reaction (idempotent, requires authentication)
+router.put('/:id/reactions/:type', authenticateToken, reactionsController.putReaction);
+router.delete('/:id/reactions/:type', authenticateToken, reactionsController.deleteReaction);
+
+// GET /api/articles/:id/comments - Comment thread (public; private nuggets only for their author)
+router.get('/:id/comments', commentsController.getComments);
+
+// POST /api/articles/:id/comments - Add a comment or reply (requires authentication)
+router.post('/:id/comments', authenticateToken, commentLimiter, commentsController.createComment);
+
 // DELETE /api/articles/:id - Delete article (requires authentication)
 router.delete('/:id', authenticateToken, articlesController.deleteArticle);
 
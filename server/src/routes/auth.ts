@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import express from 'express';
 import * as authController from '../controllers/authController.js';
+import * as oauthController from '../controllers/oauthController.js';
+import * as mfaController from '../controllers/mfaController.js';
 import { authenticateToken } from '../middleware/authenticateToken.js';
-import { loginLimiter, signupLimiter } from '../middleware/rateLimiter.js';
+import { loginLimiter, signupLimiter, passwordResetLimiter, verificationLimiter, refreshLimiter, oauthLimiter, mfaLimiter } from '../middleware/rateLimiter.js';
 
 const router = Router();
 
@@ -12,9 +14,33 @@ router.use(express.json({ limit: '1mb' }));
 // Public routes with rate limiting
 router.post('/login', loginLimiter, authController.login);
 router.post('/signup', signupLimiter, authController.signup);
+router.post('/forgot-password', passwordResetLimiter, authController.forgotPassword);
+router.post('/reset-password', passwordResetLimiter, authController.resetPassword);
+router.post('/verify-email', verificationLimiter, authController.verifyEmail);
+router.post('/refresh', refreshLimiter, authController.refresh);
+router.post('/mfa/verify', mfaLimiter, mfaController.verifyLogin);
+
+// OAuth (authorization code flow; the frontend relays code + state to /callback)
+router.get('/oauth/providers', oauthController.getProviders);
+router.post('/oauth/:provider/start', oauthLimiter, oauthController.startLogin);
+router.post('/oauth/:provider/callback', oauthLimiter, oauthController.handleCallback);
+router.post('/oauth/:provider/link', authenticateToken, oauthLimiter, oauthController.startLink);
+router.delete('/oauth/:provider', authenticateToken, oauthController.unlinkProvider);
 
 // Protected route (requires authentication middleware)
 router.get('/me', authenticateToken, authController.getMe);
+router.post('/resend-verification', authenticateToken, verificationLimiter, authController.resendVerification);
+router.post('/logout', authenticateToken, authController.logout);
+router.post('/logout-all', authenticateToken, authController.logoutAll);
+router.get('/sessions', authenticateToken, authController.getSessions);
+router.delete('/sessions/:id', authenticateToken, authController.deleteSession);
+
+// Two-factor authentication (TOTP)
+router.get('/mfa/status', authenticateToken, mfaController.getStatus);
+router.post('/mfa/setup', authenticateToken, mfaController.setup);
+router.post('/mfa/enable', authenticateToken, mfaLimiter, mfaController.enable);
+router.post('/mfa/disable', authenticateToken, mfaLimiter, mfaController.disable);
+router.post('/mfa/recovery-codes', authenticateToken, mfaLimiter, mfaController.regenerateCodes);
 
 export default router;
 
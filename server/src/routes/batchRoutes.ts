@@ -1,6 +1,13 @@
 import { Router } from 'express';
 import express from 'express';
-import { publishBatch } from '../controllers/batchController.js';
+import {
+  publishBatch,
+  previewBatchImport,
+  createBatchJob,
+  listBatchJobs,
+  getBatchJob,
+  cancelBatchJob
+} from '../controllers/batchController.js';
 import { authenticateToken } from '../middleware/authenticateToken.js';
 
 const router = Router();
@@ -11,14 +18,39 @@ router.use(express.json({ limit: '5mb' }));
 /**
  * POST /api/batch/publish
  * 
- * Publish multiple draft nuggets by setting their visibility to 'public'
+ * Publish multiple draft nuggets by setting their visibility to 'public',
+ * or schedule/unschedule their publication (author or admin only)
  * 
  * Requires authentication
  */
 router.post('/publish', authenticateToken, publishBatch);
 
-export default router;
+/**
+ * POST /api/batch/preview
+ * 
+ * Dry run of an import: reports invalid URLs and duplicates (within the
+ * import and against the user's nuggets) without creating anything
+ * 
+ * Requires authentication
+ */
+router.post('/preview', authenticateToken, previewBatchImport);
 
+/**
+ * Persisted batch imports, processed by a background worker
+ *
+ * POST /api/batch/jobs            - queue an import
+ * GET  /api/batch/jobs            - recent imports (for resuming)
+ * GET  /api/batch/jobs/:id        - progress with per-row status
+ * POST /api/batch/jobs/:id/cancel - stop an unfinished import
+ *
+ * Requires authentication
+ */
+router.post('/jobs', authenticateToken, createBatchJob);
+router.get('/jobs', authenticateToken, listBatchJobs);
+router.get('/jobs/:id', authenticateToken, getBatchJob);
+router.post('/jobs/:id/cancel', authenticateToken, cancelBatchJob);
+
+export default router;
 
 
 
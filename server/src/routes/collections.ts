@@ -5,6 +5,10 @@ import { authenticateToken } from '../middleware/authenticateToken.js';
 const router = Router();
 
 router.get('/', collectionsController.getCollections);
+router.get('/invitations', authenticateToken, collectionsController.getMyInvitations);
+router.get('/following/feed', authenticateToken, collectionsController.getFollowingFeed);
+router.get('/following/unread-count', authenticateToken, collectionsController.getFollowingUnreadCount);
+router.post('/following/read', authenticateToken, collectionsController.markFollowingFeedRead);
 router.get('/:id', collectionsController.getCollectionById);
 router.post('/', authenticateToken, collectionsController.createCollection);
 router.put('/:id', authenticateToken, collectionsController.updateCollection);
@@ -15,6 +19,22 @@ router.post('/:id/entries', authenticateToken, collectionsController.addEntry);
 router.delete('/:id/entries/:articleId', authenticateToken, collectionsController.removeEntry);
 router.post('/:id/entries/:articleId/flag', authenticateToken, collectionsController.flagEntry);
 
+// Curation: ordering, curator notes and sections (editors and owners)
+router.patch('/:id/entries/:articleId', authenticateToken, collectionsController.updateCollectionEntry);
+router.post('/:id/entries/:articleId/review', authenticateToken, collectionsController.reviewCollectionEntry);
+router.put('/:id/entries/:articleId/position', authenticateToken, collectionsController.moveCollectionEntry);
+router.post('/:id/sections', authenticateToken, collectionsController.createSection);
+router.patch('/:id/sections/:sectionId', authenticateToken, collectionsController.updateSection);
+router.delete('/:id/sections/:sectionId', authenticateToken, collectionsController.deleteSection);
+
+// Members & invitations (owners manage; invitees accept or decline)
+router.post('/:id/invitations', authenticateToken, collectionsController.inviteMember);
+router.post('/:id/invitations/accept', authenticateToken, collectionsController.acceptInvitation);
+router.post('/:id/invitations/decline', authenticateToken, collectionsController.declineInvitation);
+router.delete('/:id/invitations/:userId', authenticateToken, collectionsController.cancelInvitation);
+router.patch('/:id/members/:userId', authenticateToken, collectionsController.updateMemberRole);
+router.delete('/:id/members/:userId', authenticateToken, collectionsController.removeMember);
+
 // Follow/Unfollow (require authentication)
 router.post('/:id/follow', authenticateToken, collectionsController.followCollection);
 router.post('/:id/unfollow', authenticateToken, collectionsController.unfollowCollection);
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import * as commentsController from '../controllers/commentsController.js';
+import { authenticateToken } from '../middleware/authenticateToken.js';
+
+const router = Router();
+
+// Listing and creating comments live under /api/articles/:id/comments
+
+// PATCH /api/comments/:commentId - Edit own comment within the edit window
+router.patch('/:commentId', authenticateToken, commentsController.updateComment);
+
+// DELETE /api/comments/:commentId - Delete own comment within the delete window (admins: any)
+router.delete('/:commentId', authenticateToken, commentsController.deleteComment);
+
+export default router;
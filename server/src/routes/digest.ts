@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import * as digestController from '../controllers/digestController.js';
+
+const router = Router();
+
+// Public routes - the unsubscribe token identifies the user
+
+// GET /api/digest/unsubscribe?token= - Confirmation page linked from the digest
+router.get('/unsubscribe', digestController.showUnsubscribe);
+
+// POST /api/digest/unsubscribe?token= - Turn the digest off (one-click from mail clients)
+router.post('/unsubscribe', digestController.unsubscribe);
+
+export default router;
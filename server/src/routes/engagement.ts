@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import * as engagementController from '../controllers/engagementController.js';
+import { authenticateToken } from '../middleware/authenticateToken.js';
+import { engagementLimiter } from '../middleware/rateLimiter.js';
+
+const router = Router();
+
+// POST /api/engagement/events - Batched view/share events (authentication optional)
+router.post('/events', engagementLimiter, engagementController.ingestEvents);
+
+// GET /api/engagement/me/trends - Daily views/shares for the current user's nuggets
+router.get('/me/trends', authenticateToken, engagementController.getMyEngagementTrends);
+
+export default router;
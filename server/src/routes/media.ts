@@ -1,14 +1,17 @@
 import express from 'express';
 import { authenticateToken } from '../middleware/authenticateToken.js';
-import { uploadMedia, linkMedia, deleteMedia, getMedia, upload } from '../controllers/mediaController.js';
+import { uploadMedia, linkMedia, deleteMedia, getMedia, serveLocalMedia, upload } from '../controllers/mediaController.js';
 
 const router = express.Router();
 
 /**
  * Media Routes
- * All routes require authentication
+ * All routes require authentication, except signed local-disk file URLs
  */
 
+// Files stored by the local disk provider (signed URLs, embedded in <img> tags)
+router.get('/files/:token/*key', serveLocalMedia);
+
 // Upload media
 router.post(
   '/upload/cloudinary',
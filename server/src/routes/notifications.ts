@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import * as notificationsController from '../controllers/notificationsController.js';
+import { authenticateToken } from '../middleware/authenticateToken.js';
+
+const router = Router();
+
+// GET /api/notifications - Paginated inbox, newest first
+router.get('/', authenticateToken, notificationsController.getNotifications);
+
+// GET /api/notifications/unread-count - Unread total for the header bell
+router.get('/unread-count', authenticateToken, notificationsController.getUnreadCount);
+
+// POST /api/notifications/read-all - Mark every notification read
+router.post('/read-all', authenticateToken, notificationsController.markAllNotificationsRead);
+
+// GET/PUT /api/notifications/preferences - Per-type delivery switches
+router.get('/preferences', authenticateToken, notificationsController.getNotificationPreferences);
+router.put('/preferences', authenticateToken, notificationsController.updateNotificationPreferences);
+
+// PATCH /api/notifications/:id - Mark one notification read or unread
+router.patch('/:id', authenticateToken, notificationsController.markNotification);
+
+export default router;
@@ -8,6 +8,8 @@ router.get('/', usersController.getUsers);
 router.get('/:id', usersController.getUserById);
 router.put('/:id', authenticateToken, usersController.updateUser);
 router.delete('/:id', authenticateToken, usersController.deleteUser);
+router.post('/:id/follow', authenticateToken, usersController.followUser);
+router.delete('/:id/follow', authenticateToken, usersController.unfollowUser);
 router.get('/:id/feed', authenticateToken, usersController.getPersonalizedFeed);
 
 export default router;
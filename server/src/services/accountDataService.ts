@@ -0,0 +1,789 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { Readable } from 'stream';
+import { Article } from '../models/Article.js';
+import { Bookmark } from '../models/Bookmark.js';
+import { BookmarkFolder } from '../models/BookmarkFolder.js';
+import { BookmarkFolderLink } from '../models/BookmarkFolderLink.js';
+import { Collection, ICollectionEntry } from '../models/Collection.js';
+import { Media } from '../models/Media.js';
+import { User } from '../models/User.js';
+import {
+  AccountDataJob,
+  AccountDataJobStatus,
+  AccountDataJobType,
+  IAccountDataJob,
+  IAccountImportResult,
+  IAccountImportSectionResult
+} from '../models/AccountDataJob.js';
+import { getEnv } from '../config/envValidation.js';
+import { isAllowedForUnverified } from './platformSettingsService.js';
+import { previewBatchImport } from './batchService.js';
+import {
+  AccountExportCounts,
+  AccountExportData,
+  AccountExportFormatError,
+  ExportedCollection,
+  ExportedMedia,
+  ExportedNugget,
+  ExportedProfile,
+  buildAccountExportEntries,
+  countAccountExport,
+  parseAccountExport
+} from '../utils/accountDataFormat.js';
+import { createZipArchive, readZipArchive, ZipFormatError } from '../utils/zipArchive.js';
+import { signStorageKey, verifyStorageToken } from '../utils/storageSigning.js';
+import { resolveCategoryIds } from '../utils/tagUsageHelpers.js';
+import {
+  addNuggetToNamedFolder,
+  ensureBookmarkInGeneralFolder,
+  getOrCreateBookmark
+} from '../utils/bookmarkHelpers.js';
+import { getLogger } from '../utils/logger.js';
+
+/**
+ * Account Data Service
+ * Self-service data portability: a user's export is built by the worker
+ * (utils/scheduledAccountData.ts) into a ZIP (utils/accountDataFormat.ts)
+ * stored in GridFS, and downloaded through a short-lived signed link. An
+ * uploaded export is restored the same way, into the uploading account.
+ *
+ * Imports are safe to retry and to repeat: nuggets already present (same
+ * URL, or same title and text) are reused, collections merge by name and
+ * bookmarks are idempotent.
+ */
+
+// Largest export ZIP accepted for import
+export const ACCOUNT_IMPORT_MAX_BYTES = 50 * 1024 * 1024;
+// Uncompressed contents of an uploaded archive
+const IMPORT_READ_LIMITS = { maxEntries: 50000, maxTotalBytes: 256 * 1024 * 1024 };
+// How long a finished export can be downloaded
+const EXPORT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const DOWNLOAD_LINK_TTL_SECONDS = 60 * 60;
+// How long a worker holds a job before another may take it over
+const JOB_LEASE_MS = 10 * 60 * 1000;
+// Attempts before a job that keeps failing (or interrupting) is given up
+const MAX_JOB_ATTEMPTS = 3;
+const JOB_LIST_LIMIT = 10;
+const GRIDFS_BUCKET = 'accountData';
+
+// Profile fields restored on import, and only where the account has none yet.
+// Username and email identify the account on this instance and are never imported.
+const RESTORED_PROFILE_FIELDS = [
+  'bio', 'avatarUrl', 'avatarColor', 'location', 'city', 'country', 'website',
+  'title', 'company', 'twitter', 'linkedin', 'youtube', 'instagram', 'facebook'
+] as const;
+
+const importedPreferencesSchema = z.object({
+  theme: z.enum(['light', 'dark', 'system']),
+  defaultVisibility: z.enum(['public', 'private']),
+  interestedCategories: z.array(z.string()),
+  compactMode: z.boolean(),
+  richMediaPreviews: z.boolean(),
+  autoFollowCollections: z.boolean(),
+  notifications: z.object({
+    emailDigest: z.boolean(),
+    productUpdates: z.boolean(),
+    newFollowers: z.boolean(),
+    collectionActivity: z.boolean(),
+    moderationUpdates: z.boolean(),
+    feedbackUpdates: z.boolean()
+  }).partial()
+}).partial();
+
+export interface AccountDataJobView {
+  id: string;
+  type: AccountDataJobType;
+  status: AccountDataJobStatus;
+  fileName?: string;
+  fileSize?: number;
+  counts?: AccountExportCounts;
+  importResult?: IAccountImportResult;
+  errorMessage?: string | null;
+  createdAt: string;
+  finishedAt?: string;
+  expiresAt?: string;
+  downloadUrl?: string; // Completed, unexpired exports; valid for an hour
+}
+
+type AccountDataJobRecord = Pick<
+  IAccountDataJob,
+  'type' | 'status' | 'fileId' | 'fileName' | 'fileSize' | 'counts' | 'importResult' | 'errorMessage' | 'createdAt' | 'finishedAt' | 'expiresAt'
+> & { _id: mongoose.Types.ObjectId };
+
+function getSigningSecret(): string {
+  const env = getEnv();
+  return env.STORAGE_SIGNING_SECRET || env.JWT_SECRET;
+}
+
+function getDownloadKey(jobId: string): string {
+  return `account-export:${jobId}`;
+}
+
+function isDownloadable(job: AccountDataJobRecord, now: Date = new Date()): boolean {
+  return job.type === 'export' && job.status === 'completed' && !!job.fileId && !!job.expiresAt && job.expiresAt > now;
+}
+
+function getDownloadUrl(jobId: string, expiresAt: Date): string {
+  // The link never outlives the file
+  const linkExpiresAt = Math.min(Math.floor(Date.now() / 1000) + DOWNLOAD_LINK_TTL_SECONDS, Math.floor(expiresAt.getTime() / 1000));
+  const token = signStorageKey(getDownloadKey(jobId), getSigningSecret(), linkExpiresAt);
+  return `/api/account-data/exports/${jobId}/download?token=${encodeURIComponent(token)}`;
+}
+
+export function toAccountDataJobView(job: AccountDataJobRecord): AccountDataJobView {
+  const id = job._id.toString();
+  return {
+    id,
+    type: job.type,
+    status: job.status,
+    ...(job.fileName && { fileName: job.fileName }),
+    ...(job.fileSize !== undefined && { fileSize: job.fileSize }),
+    ...(job.counts && { counts: job.counts }),
+    ...(job.importResult && { importResult: job.importResult }),
+    errorMessage: job.errorMessage ?? null,
+    createdAt: new Date(job.createdAt).toISOString(),
+    ...(job.finishedAt && { finishedAt: new Date(job.finishedAt).toISOString() }),
+    ...(job.type === 'export' && job.expiresAt && { expiresAt: new Date(job.expiresAt).toISOString() }),
+    ...(isDownloadable(job) && { downloadUrl: getDownloadUrl(id, job.expiresAt as Date) })
+  };
+}
+
+// ============================================================================
+// FILE STORAGE (GridFS)
+// ============================================================================
+
+function getBucket(): mongoose.mongo.GridFSBucket {
+  const db = mongoose.connection.db;
+  if (!db) {
+    throw new Error('Database not connected');
+  }
+  return new mongoose.mongo.GridFSBucket(db, { bucketName: GRIDFS_BUCKET });
+}
+
+function writeFile(fileName: string, data: Buffer, metadata: Record<string, string>): Promise<mongoose.Types.ObjectId> {
+  return new Promise((resolve, reject) => {
+    const upload = getBucket().openUploadStream(fileName, { metadata });
+    upload.once('error', reject);
+    upload.once('finish', () => resolve(upload.id as mongoose.Types.ObjectId));
+    upload.end(data);
+  });
+}
+
+async function readFile(fileId: mongoose.Types.ObjectId): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of getBucket().openDownloadStream(fileId)) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Best-effort: a leftover file is only wasted space
+async function deleteFile(fileId: mongoose.Types.ObjectId): Promise<void> {
+  try {
+    await getBucket().delete(fileId);
+  } catch (error: any) {
+    getLogger().warn({ msg: '[AccountData] Could not delete file', fileId: fileId.toString(), error: error?.message });
+  }
+}
+
+// ============================================================================
+// JOBS
+// ============================================================================
+
+export async function hasPendingAccountDataJob(userId: string, type: AccountDataJobType): Promise<boolean> {
+  return !!(await AccountDataJob.exists({ userId, type, status: { $in: ['queued', 'running'] } }));
+}
+
+/**
+ * Queue an export of the user's data. A pending export is returned instead
+ * of queueing another.
+ */
+export async function requestAccountExport(userId: string): Promise<AccountDataJobView> {
+  const pending = await AccountDataJob.findOne({ userId, type: 'export', status: { $in: ['queued', 'running'] } })
+    .lean<AccountDataJobRecord>();
+  if (pending) return toAccountDataJobView(pending);
+
+  const job = await AccountDataJob.create({ userId, type: 'export' });
+  return toAccountDataJobView(job);
+}
+
+/**
+ * Check an uploaded export and queue it for import into the user's account.
+ * Throws ZipFormatError or AccountExportFormatError for unusable files.
+ */
+export async function requestAccountImport(userId: string, archive: Buffer, fileName: string): Promise<AccountDataJobView> {
+  // Validate now so the user gets the error immediately, not from the worker
+  parseAccountExport(readZipArchive(archive, IMPORT_READ_LIMITS));
+
+  const jobId = new mongoose.Types.ObjectId();
+  const fileId = await writeFile(fileName, archive, { userId, jobId: jobId.toString(), type: 'import' });
+  const job = await AccountDataJob.create({
+    _id: jobId,
+    userId,
+    type: 'import',
+    fileId,
+    fileName,
+    fileSize: archive.length
+  });
+  return toAccountDataJobView(job);
+}
+
+export async function getAccountDataJob(jobId: string, userId: string): Promise<AccountDataJobView | null> {
+  if (!mongoose.isValidObjectId(jobId)) return null;
+  const job = await AccountDataJob.findOne({ _id: jobId, userId }).lean<AccountDataJobRecord>();
+  return job ? toAccountDataJobView(job) : null;
+}
+
+/**
+ * The user's most recent exports and imports, newest first
+ */
+export async function listAccountDataJobs(userId: string): Promise<AccountDataJobView[]> {
+  const jobs = await AccountDataJob.find({ userId })
+    .sort({ createdAt: -1 })
+    .limit(JOB_LIST_LIMIT)
+    .lean<AccountDataJobRecord[]>();
+  return jobs.map(job => toAccountDataJobView(job));
+}
+
+/**
+ * Resolve a signed download link; null if the token is invalid or the export
+ * is gone
+ */
+export async function openAccountExportDownload(
+  jobId: string,
+  token: string
+): Promise<{ stream: Readable; fileName: string; fileSize?: number } | null> {
+  if (!mongoose.isValidObjectId(jobId) || !verifyStorageToken(getDownloadKey(jobId), token, getSigningSecret())) {
+    return null;
+  }
+  const job = await AccountDataJob.findById(jobId).lean<AccountDataJobRecord>();
+  if (!job || !isDownloadable(job)) return null;
+
+  return {
+    stream: getBucket().openDownloadStream(job.fileId as mongoose.Types.ObjectId),
+    fileName: job.fileName || 'export.zip',
+    fileSize: job.fileSize
+  };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const toIsoString = (value: unknown): string | undefined =>
+  value ? new Date(value as string | Date).toISOString() : undefined;
+
+async function collectAccountData(userId: string): Promise<AccountExportData> {
+  const user = await User.findById(userId).select('auth profile preferences').lean();
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const [articles, collections, folders, bookmarks, links, media] = await Promise.all([
+    Article.find({ authorId: userId }).sort({ publishedAt: 1 }).lean(),
+    Collection.find({ creatorId: userId }).sort({ createdAt: 1 }).lean(),
+    BookmarkFolder.find({ userId }).sort({ order: 1 }).lean(),
+    Bookmark.find({ userId }).sort({ createdAt: 1 }).lean(),
+    BookmarkFolderLink.find({ userId }).select('bookmarkId folderId').lean(),
+    Media.find({ ownerId: userId, status: { $ne: 'deleted' } }).sort({ createdAt: 1 }).lean()
+  ]);
+
+  const { displayName, username } = user.profile;
+  const profile: ExportedProfile = { displayName, username, email: user.auth?.email };
+  for (const field of RESTORED_PROFILE_FIELDS) {
+    const value = user.profile[field];
+    if (typeof value === 'string' && value) profile[field] = value;
+  }
+  profile.preferences = user.preferences ? JSON.parse(JSON.stringify(user.preferences)) : undefined;
+  profile.createdAt = user.auth?.createdAt;
+
+  const nuggets: ExportedNugget[] = articles.map(article => ({
+    id: article._id.toString(),
+    title: article.title,
+    excerpt: article.excerpt,
+    content: article.content || '',
+    category: article.category,
+    categories: article.categories || [],
+    tags: article.tags || [],
+    visibility: article.visibility === 'private' ? 'private' : 'public',
+    scheduledPublishAt: article.scheduledPublishAt || undefined,
+    publishedAt: article.publishedAt,
+    readTime: article.readTime,
+    source_type: article.source_type,
+    media: article.media ? JSON.parse(JSON.stringify(article.media)) : null,
+    images: article.images || [],
+    video: article.video,
+    documents: (article.documents || []).map(document => ({ ...document })),
+    themes: article.themes || [],
+    mediaIds: article.mediaIds || [],
+    created_at: article.created_at,
+    updated_at: article.updated_at
+  }));
+
+  const exportedCollections: ExportedCollection[] = collections.map(collection => ({
+    id: collection._id.toString(),
+    name: collection.rawName,
+    description: collection.description || '',
+    type: collection.type,
+    createdAt: collection.createdAt,
+    sections: (collection.sections || []).map(({ id, title, createdAt }) => ({ id, title, createdAt })),
+    entries: (collection.entries || []).map(entry => ({
+      articleId: entry.articleId,
+      addedAt: entry.addedAt,
+      ...(entry.note && { note: entry.note }),
+      ...(entry.sectionId && { sectionId: entry.sectionId })
+    }))
+  }));
+
+  const folderIdsByBookmark = new Map<string, string[]>();
+  for (const link of links) {
+    const bookmarkId = link.bookmarkId.toString();
+    folderIdsByBookmark.set(bookmarkId, [...(folderIdsByBookmark.get(bookmarkId) || []), link.folderId.toString()]);
+  }
+
+  const exportedMedia: ExportedMedia[] = media.map(item => ({
+    id: item._id.toString(),
+    purpose: item.purpose,
+    url: item.cloudinary.secureUrl,
+    provider: item.cloudinary.provider || 'cloudinary',
+    resourceType: item.cloudinary.resourceType,
+    format: item.cloudinary.format,
+    mimeType: item.file.mimeType,
+    size: item.file.size,
+    originalName: item.file.originalName,
+    width: item.cloudinary.width,
+    height: item.cloudinary.height,
+    createdAt: toIsoString(item.createdAt),
+    ...(item.usedBy && { usedBy: { entityType: item.usedBy.entityType, entityId: item.usedBy.entityId.toString() } })
+  }));
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile,
+    nuggets,
+    collections: exportedCollections,
+    bookmarks: {
+      folders: folders.map(folder => ({
+        id: folder._id.toString(),
+        name: folder.name,
+        order: folder.order,
+        isDefault: folder.isDefault
+      })),
+      bookmarks: bookmarks.map(bookmark => ({
+        nuggetId: bookmark.nuggetId,
+        createdAt: bookmark.createdAt,
+        folderIds: folderIdsByBookmark.get(bookmark._id.toString()) || []
+      }))
+    },
+    media: exportedMedia
+  };
+}
+
+async function runExportJob(job: IAccountDataJob): Promise<void> {
+  const data = await collectAccountData(job.userId);
+  const archive = createZipArchive(buildAccountExportEntries(data));
+  const fileName = `nuggets-export-${data.exportedAt.slice(0, 10)}.zip`;
+  const fileId = await writeFile(fileName, archive, { userId: job.userId, jobId: job._id.toString(), type: 'export' });
+
+  const now = new Date();
+  await AccountDataJob.updateOne(
+    { _id: job._id },
+    {
+      $set: {
+        status: 'completed',
+        fileId,
+        fileName,
+        fileSize: archive.length,
+        counts: countAccountExport(data),
+        errorMessage: null,
+        lockedUntil: null,
+        expiresAt: new Date(now.getTime() + EXPORT_RETENTION_MS),
+        finishedAt: now
+      }
+    }
+  );
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+const emptySectionResult = (): IAccountImportSectionResult => ({ imported: 0, skipped: 0, failed: 0 });
+
+const getNuggetUrl = (nugget: ExportedNugget): string =>
+  typeof nugget.media?.url === 'string' ? nugget.media.url : '';
+
+async function restoreProfile(userId: string, profile: ExportedProfile): Promise<boolean> {
+  const user = await User.findById(userId).select('profile').lean();
+  if (!user) return false;
+
+  const update: Record<string, unknown> = {};
+  for (const field of RESTORED_PROFILE_FIELDS) {
+    const value = profile[field];
+    if (value && !user.profile[field]) update[`profile.${field}`] = value;
+  }
+
+  const preferences = importedPreferencesSchema.safeParse(profile.preferences ?? {});
+  if (preferences.success) {
+    const { notifications, ...rest } = preferences.data;
+    for (const [key, value] of Object.entries(rest)) update[`preferences.${key}`] = value;
+    for (const [key, value] of Object.entries(notifications || {})) update[`preferences.notifications.${key}`] = value;
+  }
+
+  if (Object.keys(update).length === 0) return false;
+  await User.updateOne({ _id: userId }, { $set: update }, { runValidators: true });
+  return true;
+}
+
+/**
+ * Create the archive's nuggets. Returns exported id -> id on this instance,
+ * including nuggets that already existed.
+ */
+async function importNuggets(
+  userId: string,
+  authorName: string,
+  nuggets: ExportedNugget[],
+  canPublish: boolean,
+  result: IAccountImportResult
+): Promise<Map<string, string>> {
+  const idMap = new Map<string, string>();
+  const withUrl = nuggets.filter(nugget => getNuggetUrl(nugget));
+  const checks = withUrl.length > 0 ? await previewBatchImport(userId, withUrl.map(getNuggetUrl)) : [];
+  const checkById = new Map(withUrl.map((nugget, index) => [nugget.id, { check: checks[index], first: withUrl[checks[index].duplicateOfIndex ?? index] }]));
+  const now = new Date();
+
+  for (const nugget of nuggets) {
+    try {
+      const urlCheck = checkById.get(nugget.id);
+      let existingId: string | undefined;
+      if (urlCheck?.check.status === 'duplicate_existing') {
+        existingId = urlCheck.check.articleId;
+      } else if (urlCheck?.check.status === 'duplicate_in_import') {
+        existingId = idMap.get(urlCheck.first.id);
+      } else if (!urlCheck) {
+        // Notes without a URL: the same title and text count as the same nugget
+        const existing = await Article.findOne({
+          authorId: userId,
+          title: nugget.title || { $in: [null, ''] },
+          content: nugget.content
+        }).select('_id').lean();
+        existingId = existing?._id.toString();
+      }
+      if (existingId) {
+        idMap.set(nugget.id, existingId);
+        result.nuggets.skipped++;
+        continue;
+      }
+
+      const categories = nugget.categories.length > 0 ? nugget.categories : (nugget.category ? [nugget.category] : []);
+      const visibility = nugget.visibility === 'public' && !canPublish ? 'private' : nugget.visibility;
+      if (visibility !== nugget.visibility) result.madePrivate++;
+      // Only a schedule that is still ahead stays meaningful
+      const scheduledPublishAt = visibility === 'private' && nugget.scheduledPublishAt && canPublish && new Date(nugget.scheduledPublishAt) > now
+        ? nugget.scheduledPublishAt
+        : undefined;
+
+      const article = await Article.create({
+        title: nugget.title,
+        excerpt: nugget.excerpt,
+        content: nugget.content,
+        authorId: userId,
+        authorName,
+        category: nugget.category || categories[0] || 'General',
+        categories,
+        categoryIds: await resolveCategoryIds(categories),
+        publishedAt: nugget.publishedAt,
+        tags: nugget.tags,
+        readTime: nugget.readTime,
+        visibility,
+        ...(scheduledPublishAt && { scheduledPublishAt }),
+        media: nugget.media ?? null,
+        images: nugget.images,
+        video: nugget.video,
+        documents: nugget.documents,
+        themes: nugget.themes,
+        // Media ids belong to the exporting instance
+        mediaIds: [],
+        source_type: nugget.source_type,
+        created_at: nugget.created_at || now.toISOString(),
+        updated_at: now.toISOString(),
+        isCustomCreatedAt: false
+      });
+      idMap.set(nugget.id, article._id.toString());
+      result.nuggets.imported++;
+    } catch (error: any) {
+      result.nuggets.failed++;
+      getLogger().warn({ msg: '[AccountData] Nugget import failed', userId, nuggetId: nugget.id, error: error?.message });
+    }
+  }
+
+  return idMap;
+}
+
+/**
+ * Resolve an exported nugget id: one imported from the archive, or (when
+ * restoring into the same instance) a nugget that still exists
+ */
+async function resolveNuggetId(id: string, idMap: Map<string, string>): Promise<string | null> {
+  const mapped = idMap.get(id);
+  if (mapped) return mapped;
+  if (!mongoose.isValidObjectId(id)) return null;
+  const exists = await Article.exists({ _id: id });
+  return exists ? id : null;
+}
+
+async function importCollections(
+  userId: string,
+  collections: ExportedCollection[],
+  idMap: Map<string, string>,
+  canPublish: boolean,
+  result: IAccountImportResult
+): Promise<void> {
+  for (const exported of collections) {
+    try {
+      const rawName = exported.name.trim();
+      const canonicalName = rawName.toLowerCase();
+      const now = new Date().toISOString();
+
+      const sectionIds = new Set(exported.sections.map(section => section.id));
+      const entries: ICollectionEntry[] = [];
+      for (const entry of exported.entries) {
+        const articleId = await resolveNuggetId(entry.articleId, idMap);
+        if (!articleId || entries.some(existing => existing.articleId === articleId)) continue;
+        entries.push({
+          articleId,
+          addedByUserId: userId,
+          addedAt: entry.addedAt || now,
+          flaggedBy: [],
+          ...(entry.note && { note: entry.note }),
+          ...(entry.sectionId && sectionIds.has(entry.sectionId) && { sectionId: entry.sectionId })
+        });
+      }
+
+      // Merge into the user's own collection of the same name
+      const existing = await Collection.findOne({ creatorId: userId, canonicalName });
+      if (existing) {
+        const present = new Set(existing.entries.map(entry => entry.articleId));
+        const existingSectionIds = new Set(existing.sections.map(section => section.id));
+        const added = entries
+          .filter(entry => !present.has(entry.articleId))
+          .map(entry => ({ ...entry, sectionId: entry.sectionId && existingSectionIds.has(entry.sectionId) ? entry.sectionId : undefined }));
+        if (added.length > 0) {
+          await Collection.updateOne({ _id: existing._id }, { $push: { entries: { $each: added } }, $set: { updatedAt: now } });
+        }
+        result.collections.skipped++;
+        continue;
+      }
+
+      // Public names are unique across users, and the policy may require a verified email
+      let type = exported.type;
+      if (type === 'public' && (!canPublish || await Collection.exists({ canonicalName, type: 'public' }))) {
+        type = 'private';
+        result.madePrivate++;
+      }
+
+      await Collection.create({
+        rawName,
+        canonicalName,
+        description: exported.description,
+        creatorId: userId,
+        type,
+        createdAt: exported.createdAt || now,
+        updatedAt: now,
+        followersCount: 0,
+        followers: [],
+        entries,
+        sections: exported.sections,
+        members: [],
+        invitations: []
+      });
+      result.collections.imported++;
+    } catch (error: any) {
+      result.collections.failed++;
+      getLogger().warn({ msg: '[AccountData] Collection import failed', userId, collectionId: exported.id, error: error?.message });
+    }
+  }
+}
+
+async function importBookmarks(
+  userId: string,
+  bookmarks: AccountExportData['bookmarks'],
+  idMap: Map<string, string>,
+  result: IAccountImportResult
+): Promise<void> {
+  const foldersById = new Map(bookmarks.folders.map(folder => [folder.id, folder]));
+
+  for (const bookmark of bookmarks.bookmarks) {
+    try {
+      const nuggetId = await resolveNuggetId(bookmark.nuggetId, idMap);
+      if (!nuggetId) {
+        // Someone else's nugget that does not exist on this instance
+        result.bookmarks.skipped++;
+        continue;
+      }
+
+      const folderNames = bookmark.folderIds
+        .map(folderId => foldersById.get(folderId))
+        .filter(folder => folder && !folder.isDefault)
+        .map(folder => folder!.name);
+      for (const folderName of folderNames) {
+        await addNuggetToNamedFolder(userId, nuggetId, folderName);
+      }
+      if (folderNames.length === 0) {
+        await ensureBookmarkInGeneralFolder(await getOrCreateBookmark(userId, nuggetId), userId);
+      }
+      result.bookmarks.imported++;
+    } catch (error: any) {
+      result.bookmarks.failed++;
+      getLogger().warn({ msg: '[AccountData] Bookmark import failed', userId, nuggetId: bookmark.nuggetId, error: error?.message });
+    }
+  }
+}
+
+/**
+ * Restore an export into the user's account. Uploaded media is not copied;
+ * nuggets keep pointing at the original URLs.
+ */
+async function importAccountData(userId: string, data: AccountExportData): Promise<IAccountImportResult> {
+  const user = await User.findById(userId).select('role profile.displayName').lean();
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const [canPublishNuggets, canPublishCollections] = await Promise.all([
+    isAllowedForUnverified(userId, user.role, 'canCreatePublicNuggets'),
+    isAllowedForUnverified(userId, user.role, 'canCreatePublicCollections')
+  ]);
+
+  const result: IAccountImportResult = {
+    profile: false,
+    nuggets: emptySectionResult(),
+    collections: emptySectionResult(),
+    bookmarks: emptySectionResult(),
+    madePrivate: 0
+  };
+
+  result.profile = await restoreProfile(userId, data.profile);
+  const idMap = await importNuggets(userId, user.profile.displayName, data.nuggets, canPublishNuggets, result);
+  await importCollections(userId, data.collections, idMap, canPublishCollections, result);
+  await importBookmarks(userId, data.bookmarks, idMap, result);
+  return result;
+}
+
+async function runImportJob(job: IAccountDataJob): Promise<void> {
+  if (!job.fileId) {
+    throw new AccountExportFormatError('Uploaded file is missing');
+  }
+  const archive = await readFile(job.fileId);
+  const data = parseAccountExport(readZipArchive(archive, IMPORT_READ_LIMITS));
+  const importResult = await importAccountData(job.userId, data);
+
+  await deleteFile(job.fileId);
+  await AccountDataJob.updateOne(
+    { _id: job._id },
+    {
+      $set: {
+        status: 'completed',
+        fileId: null,
+        importResult,
+        errorMessage: null,
+        lockedUntil: null,
+        finishedAt: new Date()
+      }
+    }
+  );
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+/**
+ * Take the oldest queued job (or one whose worker died) under a fresh lease
+ */
+async function claimNextJob(): Promise<IAccountDataJob | null> {
+  const now = new Date();
+  return AccountDataJob.findOneAndUpdate(
+    {
+      status: { $in: ['queued', 'running'] },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }]
+    },
+    {
+      $set: { status: 'running', lockedUntil: new Date(now.getTime() + JOB_LEASE_MS) },
+      $inc: { attempts: 1 }
+    },
+    { sort: { createdAt: 1 }, new: true }
+  );
+}
+
+async function failJob(job: IAccountDataJob, errorMessage: string): Promise<void> {
+  // An import's upload is useless once it has failed
+  if (job.type === 'import' && job.fileId) {
+    await deleteFile(job.fileId);
+  }
+  await AccountDataJob.updateOne(
+    { _id: job._id },
+    { $set: { status: 'failed', fileId: null, errorMessage, lockedUntil: null, finishedAt: new Date() } }
+  );
+}
+
+async function processJob(job: IAccountDataJob): Promise<void> {
+  const logger = getLogger();
+  if (job.attempts > MAX_JOB_ATTEMPTS) {
+    await failJob(job, 'The job was interrupted too many times');
+    return;
+  }
+
+  try {
+    if (job.type === 'export') {
+      await runExportJob(job);
+    } else {
+      await runImportJob(job);
+    }
+  } catch (error: any) {
+    // A bad archive fails the same way on every attempt
+    const retryable = !(error instanceof ZipFormatError || error instanceof AccountExportFormatError);
+    logger.warn({
+      msg: '[AccountData] Job failed',
+      jobId: job._id.toString(),
+      type: job.type,
+      attempts: job.attempts,
+      willRetry: retryable && job.attempts < MAX_JOB_ATTEMPTS,
+      error: error?.message
+    });
+    if (retryable && job.attempts < MAX_JOB_ATTEMPTS) {
+      await AccountDataJob.updateOne({ _id: job._id }, { $set: { status: 'queued', lockedUntil: null } });
+    } else {
+      await failJob(job, retryable ? 'Something went wrong. Please try again.' : error.message);
+    }
+  }
+}
+
+/**
+ * Delete export files past their retention; the job stays listed as expired
+ */
+async function cleanupExpiredExports(): Promise<number> {
+  const expired = await AccountDataJob.find({ type: 'export', fileId: { $ne: null }, expiresAt: { $lte: new Date() } })
+    .select('fileId')
+    .lean();
+  for (const job of expired) {
+    await deleteFile(job.fileId as mongoose.Types.ObjectId);
+    await AccountDataJob.updateOne({ _id: job._id }, { $set: { fileId: null } });
+  }
+  return expired.length;
+}
+
+/**
+ * One worker pass: run queued jobs until none are left, then clean up
+ */
+export async function runAccountDataJobs(): Promise<{ jobs: number; expired: number }> {
+  let jobs = 0;
+  let job: IAccountDataJob | null;
+  while ((job = await claimNextJob())) {
+    jobs++;
+    await processJob(job);
+  }
+  const expired = await cleanupExpiredExports();
+  return { jobs, expired };
+}
@@ -0,0 +1,126 @@
+import type { PipelineStage } from 'mongoose';
+import { User } from '../models/User.js';
+import { Article } from '../models/Article.js';
+import { Report } from '../models/Report.js';
+import type { AdminExportEntity, AdminExportRecord } from '../utils/adminExport.js';
+
+/**
+ * Admin Export Service
+ * Aggregation cursors behind /api/admin/exports. Rows are read in batches
+ * and yielded one at a time so the controller can stream them without
+ * holding the result in memory. Derived counts are joined only when their
+ * column is selected.
+ */
+
+const CURSOR_BATCH_SIZE = 500;
+
+export interface AdminExportFilters {
+  from?: Date; // Inclusive; users by join date, nuggets by publication date
+  to?: Date; // Inclusive
+  role?: 'admin' | 'user'; // Users only
+  visibility?: 'public' | 'private'; // Nuggets only
+}
+
+function dateRange(filters: AdminExportFilters): Record<string, string> | null {
+  // Dates are stored as ISO strings, which sort chronologically
+  const range: Record<string, string> = {};
+  if (filters.from) range.$gte = filters.from.toISOString();
+  if (filters.to) range.$lte = filters.to.toISOString();
+  return Object.keys(range).length > 0 ? range : null;
+}
+
+// { $lookup } counting documents of another collection that reference this one by string id
+function countLookup(from: string, localMatch: Record<string, unknown>, foreignField: string, as: string): PipelineStage[] {
+  return [
+    {
+      $lookup: {
+        from,
+        let: { id: { $toString: '$_id' } },
+        pipeline: [
+          { $match: { ...localMatch, $expr: { $eq: [`$${foreignField}`, '$$id'] } } },
+          { $count: 'count' }
+        ],
+        as
+      }
+    },
+    { $addFields: { [as]: { $ifNull: [{ $arrayElemAt: [`$${as}.count`, 0] }, 0] } } }
+  ];
+}
+
+function buildUsersPipeline(columns: string[], filters: AdminExportFilters): PipelineStage[] {
+  const match: Record<string, unknown> = {};
+  if (filters.role) match.role = filters.role;
+  const joined = dateRange(filters);
+  if (joined) match['auth.createdAt'] = joined;
+
+  return [
+    { $match: match },
+    { $sort: { _id: 1 } },
+    ...(columns.includes('nuggets_count') ? countLookup(Article.collection.name, {}, 'authorId', 'nuggets_count') : []),
+    {
+      $project: {
+        _id: 0,
+        id: { $toString: '$_id' },
+        name: '$profile.displayName',
+        email: '$auth.email',
+        role: { $ifNull: ['$role', 'user'] },
+        // Accounts have no status field yet; matches the admin users list
+        status: 'active',
+        joinedAt: '$auth.createdAt',
+        nuggets_count: 1
+      }
+    }
+  ];
+}
+
+function buildNuggetsPipeline(columns: string[], filters: AdminExportFilters): PipelineStage[] {
+  const match: Record<string, unknown> = {};
+  // Nuggets without a visibility are public
+  if (filters.visibility) match.visibility = filters.visibility === 'public' ? { $ne: 'private' } : 'private';
+  const published = dateRange(filters);
+  if (published) match.publishedAt = published;
+
+  return [
+    { $match: match },
+    { $sort: { _id: 1 } },
+    ...(columns.includes('reports_count')
+      ? countLookup(Report.collection.name, { targetType: 'nugget' }, 'targetId', 'reports_count')
+      : []),
+    {
+      $project: {
+        _id: 0,
+        id: { $toString: '$_id' },
+        title: { $ifNull: ['$title', ''] },
+        author: '$authorName',
+        visibility: { $ifNull: ['$visibility', 'public'] },
+        createdAt: '$publishedAt',
+        reports_count: 1
+      }
+    }
+  ];
+}
+
+/**
+ * Rows for an export, in insertion order. Columns must already be
+ * normalized (utils/adminExport.ts).
+ */
+export async function* streamAdminExport(
+  entity: AdminExportEntity,
+  columns: string[],
+  filters: AdminExportFilters,
+  signal?: AbortSignal
+): AsyncGenerator<AdminExportRecord> {
+  const aggregate = entity === 'users'
+    ? User.aggregate(buildUsersPipeline(columns, filters))
+    : Article.aggregate(buildNuggetsPipeline(columns, filters));
+  const cursor = aggregate.allowDiskUse(true).cursor({ batchSize: CURSOR_BATCH_SIZE });
+
+  try {
+    for await (const record of cursor) {
+      if (signal?.aborted) break;
+      yield record as AdminExportRecord;
+    }
+  } finally {
+    await cursor.close();
+  }
+}
@@ -0,0 +1,371 @@
+import mongoose from 'mongoose';
+import { Article } from '../models/Article.js';
+import { BatchJob, IBatchJob, IBatchJobRow } from '../models/BatchJob.js';
+import { createArticleSchema } from '../utils/validation.js';
+import { resolveCategoryIds } from '../utils/tagUsageHelpers.js';
+import { addNuggetToNamedFolder } from '../utils/bookmarkHelpers.js';
+import {
+  BatchJobRowStatus,
+  BatchJobStatus,
+  BatchJobSummary,
+  getNextAttemptAt,
+  getRowStateAfterFailure,
+  isRowDue,
+  summarizeBatchJob
+} from '../utils/batchJobState.js';
+import { getLogger } from '../utils/logger.js';
+
+/**
+ * Batch Job Service
+ * Persisted queue behind bulk nugget import. A job stores every row's
+ * article payload, so the work survives the request that submitted it and
+ * server restarts: the worker (utils/scheduledBatchJobs.ts) claims due jobs
+ * with a lease, creates one nugget per row and records each row's outcome.
+ * Failed rows are retried with exponential backoff (utils/batchJobState.ts).
+ */
+
+// Matches the client-side limit for one import
+export const BATCH_JOB_MAX_ROWS = 100;
+// How long a worker holds a job before another may take it over; renewed per row
+const BATCH_JOB_LEASE_MS = 2 * 60 * 1000;
+// Jobs returned when listing a user's recent imports
+const BATCH_JOB_LIST_LIMIT = 10;
+
+export interface BatchJobRowInput {
+  rowId: string;
+  article: Record<string, unknown>; // createArticle body; author fields are taken from the job owner
+  folder?: string; // Bookmark folder for the created nugget
+}
+
+export interface BatchJobRowView {
+  rowId: string;
+  url: string;
+  title?: string;
+  categories: string[];
+  visibility: 'public' | 'private';
+  folder?: string;
+  status: BatchJobRowStatus;
+  attempts: number;
+  nextAttemptAt?: string | null;
+  errorMessage?: string | null;
+  articleId?: string;
+}
+
+export interface BatchJobView {
+  id: string;
+  status: BatchJobStatus;
+  summary: BatchJobSummary;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  rows?: BatchJobRowView[]; // Omitted in listings
+}
+
+type BatchJobRecord = Pick<IBatchJob, 'userId' | 'status' | 'rows' | 'createdAt' | 'updatedAt' | 'finishedAt'> & {
+  _id: mongoose.Types.ObjectId;
+};
+
+export function toBatchJobView(job: BatchJobRecord, includeRows: boolean = true): BatchJobView {
+  const view: BatchJobView = {
+    id: job._id.toString(),
+    status: job.status,
+    summary: summarizeBatchJob(job.rows),
+    createdAt: new Date(job.createdAt).toISOString(),
+    updatedAt: new Date(job.updatedAt).toISOString(),
+    ...(job.finishedAt && { finishedAt: new Date(job.finishedAt).toISOString() })
+  };
+  if (includeRows) {
+    view.rows = job.rows.map(row => ({
+      rowId: row.rowId,
+      url: row.url,
+      title: row.payload?.title,
+      categories: row.payload?.categories || [],
+      visibility: row.payload?.visibility === 'private' ? 'private' : 'public',
+      ...(row.folder && { folder: row.folder }),
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.nextAttemptAt,
+      errorMessage: row.errorMessage,
+      // Reserved before creation; only a succeeded row's id names an existing nugget
+      ...(row.status === 'success' && row.articleId && { articleId: row.articleId })
+    }));
+  }
+  return view;
+}
+
+function getRowUrl(article: Record<string, unknown>): string {
+  const media = article.media as { url?: unknown } | null | undefined;
+  return typeof media?.url === 'string' && media.url ? media.url : '';
+}
+
+/**
+ * Validate each row up front. Invalid rows are stored as failed rather than
+ * rejecting the whole import, so the rest still goes through.
+ */
+function buildJobRows(userId: string, rows: BatchJobRowInput[]): IBatchJobRow[] {
+  return rows.map(input => {
+    const url = getRowUrl(input.article) || input.rowId;
+    const result = createArticleSchema.safeParse({ ...input.article, authorId: userId });
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      return {
+        rowId: input.rowId,
+        url,
+        payload: input.article,
+        ...(input.folder && { folder: input.folder }),
+        status: 'error',
+        attempts: 0,
+        errorMessage: issue ? `${issue.path.map(String).join('.') || 'row'}: ${issue.message}` : 'Invalid row'
+      };
+    }
+    // Publication time is set when the row is processed; custom dates are an admin-only editor feature
+    const { publishedAt: _publishedAt, customCreatedAt: _customCreatedAt, ...payload } = result.data;
+    return {
+      rowId: input.rowId,
+      url,
+      payload,
+      ...(input.folder && { folder: input.folder }),
+      status: 'pending',
+      attempts: 0
+    };
+  });
+}
+
+export async function createBatchJob(userId: string, rows: BatchJobRowInput[]): Promise<BatchJobView> {
+  const jobRows = buildJobRows(userId, rows);
+  const nextRunAt = getNextAttemptAt(jobRows);
+  const job = await BatchJob.create({
+    userId,
+    status: nextRunAt ? 'queued' : 'completed',
+    rows: jobRows,
+    nextRunAt: nextRunAt ? new Date(nextRunAt) : null,
+    ...(!nextRunAt && { finishedAt: new Date() })
+  });
+  return toBatchJobView(job);
+}
+
+export async function getBatchJob(jobId: string, userId: string): Promise<BatchJobView | null> {
+  if (!mongoose.isValidObjectId(jobId)) return null;
+  const job = await BatchJob.findOne({ _id: jobId, userId }).lean<BatchJobRecord>();
+  return job ? toBatchJobView(job) : null;
+}
+
+/**
+ * The user's most recent jobs, newest first, without their rows
+ */
+export async function listBatchJobs(userId: string): Promise<BatchJobView[]> {
+  const jobs = await BatchJob.find({ userId })
+    .sort({ createdAt: -1 })
+    .limit(BATCH_JOB_LIST_LIMIT)
+    .lean<BatchJobRecord[]>();
+  return jobs.map(job => toBatchJobView(job, false));
+}
+
+/**
+ * Cancel an unfinished job. Rows not yet started are cancelled; a row the
+ * worker is creating right now still records its outcome. Finished jobs are
+ * returned unchanged.
+ */
+export async function cancelBatchJob(jobId: string, userId: string): Promise<BatchJobView | null> {
+  if (!mongoose.isValidObjectId(jobId)) return null;
+  const now = new Date();
+  const cancelled = await BatchJob.findOneAndUpdate(
+    { _id: jobId, userId, status: { $in: ['queued', 'running'] } },
+    {
+      $set: {
+        status: 'cancelled',
+        cancelledAt: now,
+        finishedAt: now,
+        nextRunAt: null,
+        'rows.$[row].status': 'cancelled',
+        'rows.$[row].nextAttemptAt': null
+      }
+    },
+    { arrayFilters: [{ 'row.status': 'pending' }], new: true }
+  ).lean<BatchJobRecord>();
+  if (cancelled) return toBatchJobView(cancelled);
+  return getBatchJob(jobId, userId);
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+/**
+ * Take the next due job, if any, under a fresh lease
+ */
+async function claimNextJob(): Promise<IBatchJob | null> {
+  const now = new Date();
+  return BatchJob.findOneAndUpdate(
+    {
+      status: { $in: ['queued', 'running'] },
+      nextRunAt: { $ne: null, $lte: now },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }]
+    },
+    { $set: { status: 'running', lockedUntil: new Date(now.getTime() + BATCH_JOB_LEASE_MS) } },
+    { sort: { nextRunAt: 1 }, new: true }
+  );
+}
+
+/**
+ * Create the row's nugget under its reserved id, so a retry can never create
+ * a second one
+ */
+async function createArticleFromRow(row: IBatchJobRow, articleId: string): Promise<string> {
+  const categoryIds = await resolveCategoryIds(row.payload.categories || []);
+  try {
+    await Article.create({
+      ...row.payload,
+      _id: articleId,
+      categoryIds,
+      publishedAt: new Date().toISOString(),
+      isCustomCreatedAt: false
+    });
+  } catch (error: any) {
+    // Already created by an earlier attempt whose outcome was lost
+    if (error?.code === 11000 && await Article.exists({ _id: articleId })) {
+      return articleId;
+    }
+    throw error;
+  }
+  return articleId;
+}
+
+function markRowSucceeded(row: IBatchJobRow, articleId: string): void {
+  row.articleId = articleId;
+  row.status = 'success';
+  row.attempts += 1;
+  row.nextAttemptAt = null;
+  row.errorMessage = null;
+}
+
+/**
+ * File a created nugget into its bookmark folder. The nugget already exists,
+ * so a failure here is logged rather than failing (and re-creating) the row.
+ */
+async function fileRowIntoFolder(userId: string, row: IBatchJobRow): Promise<void> {
+  if (!row.folder || !row.articleId) return;
+  try {
+    await addNuggetToNamedFolder(userId, row.articleId, row.folder);
+  } catch (error: any) {
+    getLogger().warn({
+      msg: '[BatchJobs] Could not add nugget to bookmark folder',
+      rowId: row.rowId,
+      articleId: row.articleId,
+      error: error?.message
+    });
+  }
+}
+
+async function saveRow(jobId: mongoose.Types.ObjectId, row: IBatchJobRow): Promise<void> {
+  await BatchJob.updateOne(
+    { _id: jobId, 'rows.rowId': row.rowId },
+    {
+      $set: {
+        'rows.$.status': row.status,
+        'rows.$.attempts': row.attempts,
+        'rows.$.nextAttemptAt': row.nextAttemptAt ?? null,
+        'rows.$.errorMessage': row.errorMessage ?? null,
+        ...(row.articleId && { 'rows.$.articleId': row.articleId })
+      }
+    }
+  );
+}
+
+/**
+ * Run every due row of a claimed job, then release it: completed when no
+ * rows remain, otherwise back to waiting for the next retry
+ */
+async function processJob(job: IBatchJob): Promise<number> {
+  const logger = getLogger();
+  let processed = 0;
+
+  for (const row of job.rows) {
+    // A row left "processing" was interrupted (restart or lost lease). Its
+    // nugget's id was reserved first: if the nugget exists the row finished,
+    // otherwise the attempt failed before creating it.
+    if (row.status === 'processing') {
+      if (row.articleId && await Article.exists({ _id: row.articleId })) {
+        markRowSucceeded(row, row.articleId);
+        await fileRowIntoFolder(job.userId, row);
+      } else {
+        Object.assign(row, getRowStateAfterFailure(row, 'Interrupted before finishing', new Date()));
+      }
+      await saveRow(job._id as mongoose.Types.ObjectId, row);
+    }
+    if (!isRowDue(row, new Date())) continue;
+
+    // Marking the row reserves its nugget id (kept across retries) and renews
+    // the lease; no match means the job was cancelled
+    const articleId = row.articleId || new mongoose.Types.ObjectId().toString();
+    const marked = await BatchJob.updateOne(
+      { _id: job._id, status: 'running', 'rows.rowId': row.rowId },
+      {
+        $set: {
+          'rows.$.status': 'processing',
+          'rows.$.articleId': articleId,
+          lockedUntil: new Date(Date.now() + BATCH_JOB_LEASE_MS)
+        }
+      }
+    );
+    if (marked.matchedCount === 0) break;
+    row.articleId = articleId;
+
+    try {
+      markRowSucceeded(row, await createArticleFromRow(row, articleId));
+      await fileRowIntoFolder(job.userId, row);
+    } catch (error: any) {
+      // Schema validation failures will fail the same way on every retry
+      const retryable = error?.name !== 'ValidationError';
+      Object.assign(row, getRowStateAfterFailure(row, error?.message || 'Creation failed', new Date(), retryable));
+      logger.warn({
+        msg: '[BatchJobs] Row failed',
+        jobId: job._id?.toString(),
+        rowId: row.rowId,
+        attempts: row.attempts,
+        willRetry: row.status === 'pending'
+      });
+    }
+    await saveRow(job._id as mongoose.Types.ObjectId, row);
+    processed++;
+  }
+
+  const nextAttemptAt = getNextAttemptAt(job.rows);
+  const released = await BatchJob.updateOne(
+    { _id: job._id, status: 'running' },
+    nextAttemptAt
+      ? { $set: { nextRunAt: new Date(nextAttemptAt), lockedUntil: null } }
+      : { $set: { status: 'completed', nextRunAt: null, lockedUntil: null, finishedAt: new Date() } }
+  );
+
+  // Cancelled mid-run: rows that went back to pending for a retry are cancelled too
+  if (released.matchedCount === 0) {
+    await BatchJob.updateOne(
+      { _id: job._id, status: 'cancelled' },
+      {
+        $set: {
+          lockedUntil: null,
+          'rows.$[row].status': 'cancelled',
+          'rows.$[row].nextAttemptAt': null
+        }
+      },
+      { arrayFilters: [{ 'row.status': { $in: ['pending', 'processing'] } }] }
+    );
+  }
+
+  return processed;
+}
+
+/**
+ * One worker pass: process due jobs until none are left
+ */
+export async function runBatchJobs(): Promise<{ jobs: number; rows: number }> {
+  let jobs = 0;
+  let rows = 0;
+  let job: IBatchJob | null;
+  while ((job = await claimNextJob())) {
+    jobs++;
+    rows += await processJob(job);
+  }
+  return { jobs, rows };
+}
@@ -11,6 +11,7 @@
  */
 
 import { Article, IArticle } from '../models/Article.js';
+import { checkImportUrls, ImportUrlCheck } from '../utils/importDedupe.js';
 
 // ============================================================================
 // TYPES
@@ -386,6 +387,22 @@ export async function publishDrafts(articleIds: string[]): Promise<number> {
   return result.modifiedCount;
 }
 
+/**
+ * Publish private nuggets whose scheduled time has passed. publishedAt moves
+ * to the scheduled time so they surface as new in feeds.
+ */
+export async function publishScheduledNuggets(now: Date = new Date()): Promise<number> {
+  const result = await Article.updateMany(
+    { visibility: 'private', scheduledPublishAt: { $ne: null, $lte: now.toISOString() } },
+    [
+      { $set: { visibility: 'public', publishedAt: '$scheduledPublishAt', updated_at: now.toISOString() } },
+      { $unset: 'scheduledPublishAt' }
+    ],
+    { updatePipeline: true }
+  );
+  return result.modifiedCount;
+}
+
 /**
  * Delete a draft article
  */
@@ -397,6 +414,30 @@ export async function deleteDraft(articleId: string): Promise<boolean> {
   return !!result;
 }
 
+// ============================================================================
+// IMPORT PREVIEW
+// ============================================================================
+
+// Newest nuggets checked for duplicates; older ones are not matched
+const MAX_EXISTING_URLS_CHECKED = 10000;
+
+/**
+ * Dry run of an import: classify each URL as new, repeated within the
+ * import, already saved by the user, or invalid. Nothing is written.
+ */
+export async function previewBatchImport(authorId: string, urls: string[]): Promise<ImportUrlCheck[]> {
+  const existing = await Article.find({ authorId, 'media.url': { $exists: true, $ne: null } })
+    .select('media.url')
+    .sort({ created_at: -1 })
+    .limit(MAX_EXISTING_URLS_CHECKED)
+    .lean();
+
+  return checkImportUrls(
+    urls,
+    existing.map(article => ({ url: article.media?.url || '', articleId: article._id.toString() }))
+  );
+}
+
 // ============================================================================
 // STATISTICS
 // ============================================================================
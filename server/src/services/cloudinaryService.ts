@@ -1,6 +1,11 @@
 import { v2 as cloudinary } from 'cloudinary';
+import crypto from 'crypto';
+import path from 'path';
+import probe from 'probe-image-size';
 import { getEnv } from '../config/envValidation';
 import { getLogger } from '../utils/logger.js';
+import { LocalStorageProvider } from './localStorageProvider.js';
+import { S3StorageProvider } from './s3StorageProvider.js';
 
 /**
  * Cloudinary Service
@@ -8,6 +13,10 @@ import { getLogger } from '../utils/logger.js';
  * 
  * CRITICAL: All operations must be validated against MongoDB first
  * This service only handles Cloudinary API calls, not authorization
+ * 
+ * Also hosts the storage-provider registry: Cloudinary is one of several
+ * StorageProvider implementations (local disk, S3-compatible). Controllers
+ * upload through getStorageProvider() and delete through deleteFromStorage().
  */
 
 // Initialize Cloudinary configuration
@@ -32,9 +41,8 @@ export function initializeCloudinary(): void {
     // Audit Phase-3 Fix: Use structured logger for graceful degradation warning
     const logger = getLogger();
     logger.warn({ 
-      msg: 'Cloudinary credentials not provided - media uploads will be disabled',
-      service: 'cloudinary',
-      featureDisabled: 'media_uploads'
+      msg: 'Cloudinary credentials not provided - media uploads will use another storage provider',
+      service: 'cloudinary'
     });
     isConfigured = false;
   }
@@ -219,7 +227,174 @@ export function sanitizeFolderPath(folder: string): string {
   return sanitized;
 }
 
+// ============================================================================
+// Storage providers
+// ============================================================================
+
+export type StorageProviderName = 'cloudinary' | 'local' | 's3';
+
+export interface StorageUploadOptions extends UploadOptions {
+  mimeType: string;
+  originalName?: string;
+}
+
+/**
+ * A place media files can live
+ * publicId is the provider's key for the asset; secureUrl is what clients load.
+ */
+export interface StorageProvider {
+  readonly name: StorageProviderName;
+  isConfigured(): boolean;
+  upload(file: Buffer, options: StorageUploadOptions): Promise<UploadResult>;
+  delete(publicId: string, resourceType?: UploadResult['resourceType']): Promise<boolean>; // Best-effort, never throws
+}
+
+class CloudinaryStorageProvider implements StorageProvider {
+  readonly name = 'cloudinary' as const;
+
+  isConfigured(): boolean {
+    return isConfigured;
+  }
+
+  upload(file: Buffer, options: StorageUploadOptions): Promise<UploadResult> {
+    return uploadToCloudinary(file, options);
+  }
+
+  delete(publicId: string, resourceType?: UploadResult['resourceType']): Promise<boolean> {
+    return deleteFromCloudinary(publicId, resourceType);
+  }
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'application/pdf': 'pdf',
+  'application/msword': 'doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx'
+};
+
+/**
+ * Random, collision-free key for providers that don't assign their own
+ * The extension is kept so URLs still look like files to clients.
+ */
+export function buildStorageKey(folder: string, mimeType: string, originalName?: string): { key: string; format?: string } {
+  const format = MIME_EXTENSIONS[mimeType]
+    || (originalName ? path.extname(originalName).slice(1).toLowerCase().replace(/[^a-z0-9]/g, '') : '')
+    || undefined;
+  const fileName = `${crypto.randomUUID()}${format ? `.${format}` : ''}`;
+  return { key: folder ? `${folder}/${fileName}` : fileName, format };
+}
+
+/**
+ * Width/height from the image header (Cloudinary reports these itself)
+ */
+export function getImageDimensions(file: Buffer): { width: number; height: number } | null {
+  try {
+    const result = probe.sync(file);
+    return result ? { width: result.width, height: result.height } : null;
+  } catch {
+    return null;
+  }
+}
+
+const providers = new Map<StorageProviderName, StorageProvider>();
+let activeProvider: StorageProviderName | null = null;
+
+/**
+ * Register all storage providers and pick the one used for new uploads
+ * 
+ * STORAGE_PROVIDER selects explicitly; otherwise the first configured of
+ * Cloudinary, S3 and local disk wins. Providers stay registered even when not
+ * active so media stored earlier elsewhere can still be deleted.
+ */
+export function initializeStorage(): void {
+  const env = getEnv();
+  const logger = getLogger();
+
+  initializeCloudinary();
+  providers.set('cloudinary', new CloudinaryStorageProvider());
+  providers.set('local', new LocalStorageProvider(
+    env.STORAGE_LOCAL_DIR || path.resolve(process.cwd(), 'uploads'),
+    env.STORAGE_SIGNING_SECRET || env.JWT_SECRET,
+    env.STORAGE_PUBLIC_BASE_URL
+  ));
+  providers.set('s3', new S3StorageProvider({
+    endpoint: env.S3_ENDPOINT || `https://s3.${env.S3_REGION}.amazonaws.com`,
+    region: env.S3_REGION,
+    bucket: env.S3_BUCKET || '',
+    accessKeyId: env.S3_ACCESS_KEY_ID || '',
+    secretAccessKey: env.S3_SECRET_ACCESS_KEY || '',
+    publicUrl: env.S3_PUBLIC_URL,
+    forcePathStyle: env.S3_FORCE_PATH_STYLE
+  }));
 
+  if (env.STORAGE_PROVIDER) {
+    if (!providers.get(env.STORAGE_PROVIDER)?.isConfigured()) {
+      logger.warn({
+        msg: 'Requested storage provider is not configured - falling back',
+        service: 'storage',
+        requested: env.STORAGE_PROVIDER
+      });
+    } else {
+      activeProvider = env.STORAGE_PROVIDER;
+    }
+  }
+  if (!activeProvider) {
+    activeProvider = (['cloudinary', 's3', 'local'] as const).find(name => providers.get(name)?.isConfigured()) ?? 'local';
+  }
 
+  logger.info({ msg: 'Storage initialized', service: 'storage', provider: activeProvider });
+}
 
+/**
+ * Register or replace a provider (used by tests and custom deployments)
+ */
+export function setStorageProvider(provider: StorageProvider, makeActive: boolean = true): void {
+  providers.set(provider.name, provider);
+  if (makeActive) {
+    activeProvider = provider.name;
+  }
+}
 
+/**
+ * Provider by name, or the active provider for new uploads
+ */
+export function getStorageProvider(name?: StorageProviderName): StorageProvider | null {
+  const provider = providers.get(name ?? activeProvider ?? 'cloudinary');
+  return provider && provider.isConfigured() ? provider : null;
+}
+
+/**
+ * Names of providers that can currently serve requests
+ */
+export function getConfiguredStorageProviders(): StorageProviderName[] {
+  return [...providers.values()].filter(provider => provider.isConfigured()).map(provider => provider.name);
+}
+
+/**
+ * Delete an asset from whichever provider stored it
+ * Media created before providers existed has no provider recorded and lives on Cloudinary.
+ * 
+ * Note: This is best-effort. Failures should not block MongoDB operations.
+ */
+export async function deleteFromStorage(
+  publicId: string,
+  resourceType: UploadResult['resourceType'] = 'image',
+  providerName: StorageProviderName = 'cloudinary'
+): Promise<boolean> {
+  if (providers.size === 0 && providerName === 'cloudinary') {
+    return deleteFromCloudinary(publicId, resourceType); // initializeStorage() not called (scripts)
+  }
+  const provider = getStorageProvider(providerName);
+  if (!provider) {
+    getLogger().warn({ msg: '[Storage] Delete skipped - provider not configured', service: 'storage', provider: providerName, publicId });
+    return false;
+  }
+  return provider.delete(publicId, resourceType);
+}
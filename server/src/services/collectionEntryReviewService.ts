@@ -0,0 +1,152 @@
+import { Collection } from '../models/Collection.js';
+import { Report } from '../models/Report.js';
+import { ModerationAuditLog } from '../models/ModerationAuditLog.js';
+import { User } from '../models/User.js';
+import { getPlatformSettings } from './platformSettingsService.js';
+import { getFlagReviewStatus } from '../utils/entryFlags.js';
+
+/**
+ * Collection Entry Review Service
+ * Turns entry flags into review work: past the platform threshold an entry
+ * is queued (and optionally hidden) for the collection's curators, and a
+ * moderation report is opened so admins see it in the moderation queue.
+ * Whichever side decides first closes the other.
+ */
+
+export type EntryReviewDecision = 'keep' | 'remove';
+
+const FLAG_REPORTER = { id: 'system', name: 'Collection flags' };
+
+/**
+ * Record a user's flag on an entry (idempotent per user) and start a review
+ * when the threshold is reached. Returns the collection, or null when the
+ * collection or entry does not exist.
+ */
+export async function recordEntryFlag(collectionId: string, articleId: string, userId: string) {
+  const now = new Date().toISOString();
+  const flagged = await Collection.findOneAndUpdate(
+    { _id: collectionId, entries: { $elemMatch: { articleId, flaggedBy: { $ne: userId } } } },
+    { $addToSet: { 'entries.$.flaggedBy': userId }, $set: { updatedAt: now } },
+    { new: true }
+  );
+  const collection = flagged || await Collection.findById(collectionId);
+  const entry = collection?.entries.find(item => item.articleId === articleId);
+  if (!collection || !entry) return null;
+  if (!flagged || entry.reviewStatus) return collection;
+
+  const { collectionFlagPolicy } = await getPlatformSettings();
+  const reviewStatus = getFlagReviewStatus(entry.flaggedBy.length, collectionFlagPolicy);
+  if (!reviewStatus) return collection;
+
+  // Only the request that moves the entry into review opens the report
+  const queued = await Collection.findOneAndUpdate(
+    { _id: collectionId, entries: { $elemMatch: { articleId, reviewStatus: { $exists: false } } } },
+    { $set: { 'entries.$.reviewStatus': reviewStatus, 'entries.$.reviewQueuedAt': now, updatedAt: new Date().toISOString() } },
+    { new: true }
+  );
+  if (!queued) return collection;
+
+  const contributor = await User.findById(entry.addedByUserId).select('profile.displayName').lean().catch(() => null);
+  const report = await Report.create({
+    targetId: articleId,
+    targetType: 'nugget',
+    reason: 'other',
+    description: `Flagged by ${entry.flaggedBy.length} users in the collection "${collection.rawName}"`,
+    reporter: FLAG_REPORTER,
+    respondent: contributor ? { id: entry.addedByUserId, name: contributor.profile.displayName } : undefined,
+    collectionEntry: {
+      collectionId,
+      collectionName: collection.rawName,
+      articleId,
+      flagCount: entry.flaggedBy.length
+    },
+    status: 'open'
+  });
+
+  const linked = await Collection.findOneAndUpdate(
+    { _id: collectionId, 'entries.articleId': articleId },
+    // Bumping updatedAt makes a concurrent rearrange (which guards on it) retry instead of dropping these fields
+    { $set: { 'entries.$.reportId': report._id.toString(), updatedAt: new Date().toISOString() } },
+    { new: true }
+  );
+  return linked || queued;
+}
+
+/**
+ * Apply a review decision: 'keep' clears the flags and restores the entry,
+ * 'remove' takes it out of the collection. Returns the collection, or null
+ * when the entry no longer exists.
+ *
+ * The linked report is closed as well unless the decision came from it
+ * (`fromReportId`), in which case the moderation handler closes it.
+ */
+export async function reviewEntry(
+  collectionId: string,
+  articleId: string,
+  decision: EntryReviewDecision,
+  actorId: string,
+  fromReportId?: string
+) {
+  const current = await Collection.findOne({ _id: collectionId, 'entries.articleId': articleId }).lean();
+  const entry = current?.entries.find(item => item.articleId === articleId);
+  if (!current || !entry) return null;
+
+  const now = new Date().toISOString();
+  const updated = decision === 'remove'
+    ? await Collection.findOneAndUpdate(
+        { _id: collectionId, 'entries.articleId': articleId },
+        { $pull: { entries: { articleId } }, $set: { updatedAt: now }, $inc: { validEntriesCount: -1 } },
+        { new: true }
+      )
+    : await Collection.findOneAndUpdate(
+        { _id: collectionId, 'entries.articleId': articleId },
+        {
+          $set: { 'entries.$.flaggedBy': [], updatedAt: now },
+          $unset: { 'entries.$.reviewStatus': '', 'entries.$.reviewQueuedAt': '', 'entries.$.reportId': '' }
+        },
+        { new: true }
+      );
+  if (!updated) return null;
+
+  if (decision === 'remove' && (updated.validEntriesCount ?? 0) !== updated.entries.length) {
+    updated.validEntriesCount = updated.entries.length;
+    await updated.save();
+  }
+
+  if (entry.reportId && entry.reportId !== fromReportId) {
+    await closeEntryReport(entry.reportId, decision, actorId);
+  }
+  return updated;
+}
+
+/**
+ * Close the report linked to an entry after a curator decided on it
+ */
+async function closeEntryReport(reportId: string, decision: EntryReviewDecision, actorId: string) {
+  const newStatus = decision === 'remove' ? 'resolved' : 'dismissed';
+  const now = new Date();
+  const actionReason = decision === 'remove' ? 'Removed by a collection curator' : 'Kept by a collection curator';
+  const report = await Report.findOneAndUpdate(
+    { _id: reportId, status: 'open' },
+    {
+      $set: {
+        status: newStatus,
+        actionedBy: actorId,
+        actionReason,
+        ...(newStatus === 'resolved' ? { resolvedAt: now } : { dismissedAt: now })
+      }
+    },
+    { new: true }
+  );
+  if (!report) return;
+
+  await ModerationAuditLog.create({
+    reportId,
+    action: newStatus === 'resolved' ? 'resolve' : 'dismiss',
+    performedBy: actorId,
+    previousStatus: 'open',
+    newStatus,
+    timestamp: now,
+    metadata: { actionReason, source: 'collection-review' }
+  });
+}
@@ -0,0 +1,216 @@
+import crypto from 'crypto';
+import mongoose, { PipelineStage } from 'mongoose';
+import { User } from '../models/User.js';
+import { Article } from '../models/Article.js';
+import { Collection } from '../models/Collection.js';
+import { buildVisibilityFilter } from '../utils/collectionPermissions.js';
+import { buildFollowedEntriesStages } from '../utils/followingFeed.js';
+import {
+  DigestItem,
+  DigestSection,
+  DIGEST_MAX_ITEMS_PER_SECTION,
+  getDigestSince,
+  renderDigest
+} from '../utils/digestTemplates.js';
+import { sendMail, buildFrontendUrl } from './mailService.js';
+import { getLogger } from '../utils/logger.js';
+
+/**
+ * Digest Service
+ * Compiles and sends the email digest for users with
+ * `preferences.notifications.emailDigest` on. Each user is claimed by
+ * advancing `appState.digestLastSentAt` before anything is sent, so
+ * overlapping runs (or several server instances) never send twice.
+ */
+
+export interface DigestRunResult {
+  sent: number;
+  empty: number;
+  failed: number;
+}
+
+interface DigestRecipient {
+  _id: mongoose.Types.ObjectId;
+  role: 'admin' | 'user';
+  auth: { email: string };
+  profile: { displayName: string };
+  preferences: { interestedCategories?: string[] };
+  appState: { digestLastSentAt?: string; digestUnsubscribeToken?: string };
+}
+
+const PUBLIC_ARTICLE_FILTER = { $or: [{ visibility: 'public' }, { visibility: { $exists: false } }] };
+
+function toDigestItem(article: any, meta?: string): DigestItem {
+  const categories: string[] = article.categories?.length ? article.categories : (article.category ? [article.category] : []);
+  return {
+    title: article.title || 'Untitled nugget',
+    excerpt: article.excerpt ? (article.excerpt.length > 200 ? `${article.excerpt.slice(0, 197)}…` : article.excerpt) : undefined,
+    url: buildFrontendUrl(`/feed/${article._id}`),
+    meta: meta ?? [article.authorName, categories[0]].filter(Boolean).join(' · ')
+  };
+}
+
+/**
+ * New public nuggets in the user's interested categories
+ */
+async function getCategorySection(
+  userId: string,
+  categories: string[],
+  since: string
+): Promise<{ section: DigestSection; articleIds: string[] }> {
+  if (categories.length === 0) return { section: { heading: 'In your categories', items: [] }, articleIds: [] };
+  const articles = await Article.find({
+    $and: [
+      PUBLIC_ARTICLE_FILTER,
+      { $or: [{ categories: { $in: categories } }, { category: { $in: categories } }] }
+    ],
+    authorId: { $ne: userId },
+    publishedAt: { $gt: since }
+  })
+    .sort({ publishedAt: -1 })
+    .limit(DIGEST_MAX_ITEMS_PER_SECTION)
+    .select('title excerpt authorName category categories')
+    .lean();
+  return {
+    section: { heading: 'In your categories', items: articles.map(article => toDigestItem(article)) },
+    articleIds: articles.map(article => String(article._id))
+  };
+}
+
+/**
+ * Nuggets added to collections the user follows, skipping any already
+ * listed under categories
+ */
+async function getFollowedSection(user: DigestRecipient, since: string, exclude: Set<string>): Promise<DigestSection> {
+  const userId = String(user._id);
+  const stages = buildFollowedEntriesStages(
+    userId,
+    since,
+    buildVisibilityFilter({ userId, isAdmin: user.role === 'admin' }),
+    Article.collection.name
+  );
+  const entries = await Collection.aggregate([
+    ...(stages as PipelineStage[]),
+    { $sort: { 'entries.addedAt': -1 } },
+    { $limit: DIGEST_MAX_ITEMS_PER_SECTION * 3 },
+    { $project: { _id: 0, collectionName: '$rawName', articleId: '$entries.articleId' } }
+  ]);
+
+  const collectionByArticle = new Map<string, string>();
+  for (const entry of entries) {
+    if (!exclude.has(entry.articleId) && !collectionByArticle.has(entry.articleId)) {
+      collectionByArticle.set(entry.articleId, entry.collectionName);
+    }
+  }
+  const ids = [...collectionByArticle.keys()].slice(0, DIGEST_MAX_ITEMS_PER_SECTION);
+  const articles = await Article.find({ _id: { $in: ids }, ...PUBLIC_ARTICLE_FILTER })
+    .select('title excerpt authorName')
+    .lean();
+  const byId = new Map(articles.map(article => [String(article._id), article]));
+
+  return {
+    heading: 'From collections you follow',
+    items: ids
+      .filter(id => byId.has(id))
+      .map(id => toDigestItem(byId.get(id), `${byId.get(id)!.authorName} · in ${collectionByArticle.get(id)}`))
+  };
+}
+
+/**
+ * Claim, compile and send one user's digest. Returns what happened.
+ */
+async function processRecipient(user: DigestRecipient, now: Date): Promise<'sent' | 'empty' | 'skipped'> {
+  const userId = String(user._id);
+  const previous = user.appState?.digestLastSentAt;
+  const token = user.appState?.digestUnsubscribeToken || crypto.randomBytes(24).toString('hex');
+
+  const claim = await User.updateOne(
+    { _id: user._id, 'appState.digestLastSentAt': previous ?? { $exists: false } },
+    { $set: { 'appState.digestLastSentAt': now.toISOString(), 'appState.digestUnsubscribeToken': token } }
+  );
+  if (claim.modifiedCount === 0) return 'skipped'; // Another run got there first
+
+  try {
+    const since = getDigestSince(previous, now);
+    const categories = await getCategorySection(userId, user.preferences?.interestedCategories ?? [], since);
+    const followed = await getFollowedSection(user, since, new Set(categories.articleIds));
+    const sections = [categories.section, followed].filter(section => section.items.length > 0);
+    // Nothing new: the claim still moves the window forward
+    if (sections.length === 0) return 'empty';
+
+    const unsubscribeUrl = buildFrontendUrl('/api/digest/unsubscribe', { token });
+    const digest = renderDigest({
+      recipientName: user.profile.displayName,
+      sections,
+      unsubscribeUrl,
+      settingsUrl: buildFrontendUrl('/account')
+    });
+    await sendMail({
+      to: user.auth.email,
+      ...digest,
+      headers: {
+        'List-Unsubscribe': `<${unsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+      }
+    });
+    return 'sent';
+  } catch (error) {
+    // Release the claim so the next run retries this user
+    await User.updateOne(
+      { _id: user._id, 'appState.digestLastSentAt': now.toISOString() },
+      previous ? { $set: { 'appState.digestLastSentAt': previous } } : { $unset: { 'appState.digestLastSentAt': '' } }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Send digests to every opted-in, verified user whose interval has passed
+ */
+export async function runDigestBatch(intervalHours: number, now: Date = new Date()): Promise<DigestRunResult> {
+  const logger = getLogger();
+  const cutoff = new Date(now.getTime() - intervalHours * 60 * 60 * 1000).toISOString();
+  const result: DigestRunResult = { sent: 0, empty: 0, failed: 0 };
+
+  const cursor = User.find({
+    'preferences.notifications.emailDigest': { $ne: false },
+    'auth.emailVerified': true,
+    $or: [
+      { 'appState.digestLastSentAt': { $exists: false } },
+      { 'appState.digestLastSentAt': { $lte: cutoff } }
+    ]
+  })
+    .select('role auth.email profile.displayName preferences.interestedCategories appState.digestLastSentAt appState.digestUnsubscribeToken')
+    .lean<DigestRecipient[]>()
+    .cursor();
+
+  for await (const user of cursor) {
+    try {
+      const outcome = await processRecipient(user as DigestRecipient, now);
+      if (outcome === 'sent') result.sent++;
+      else if (outcome === 'empty') result.empty++;
+    } catch (error: any) {
+      result.failed++;
+      logger.warn({
+        msg: '[Digest] Failed to send digest',
+        userId: String((user as DigestRecipient)._id),
+        error: { message: error.message }
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Turn the digest off for the user owning an unsubscribe token.
+ * Returns false when the token is unknown.
+ */
+export async function unsubscribeFromDigest(token: string): Promise<boolean> {
+  if (!token) return false;
+  const result = await User.updateOne(
+    { 'appState.digestUnsubscribeToken': token },
+    { $set: { 'preferences.notifications.emailDigest': false } }
+  );
+  return result.matchedCount > 0;
+}
@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Article } from '../models/Article.js';
+import { EngagementEventKey, EngagementEventType } from '../models/EngagementEventKey.js';
+import { EngagementDaily } from '../models/EngagementDaily.js';
+import { isLikelyBot } from '../utils/botDetection.js';
+
+/**
+ * Engagement Service
+ * View/share ingestion and daily rollups for Article.engagement
+ *
+ * Each actor (signed-in user, otherwise a hash of the IP) counts at most once
+ * per article and event type inside a window. Bots, private nuggets and
+ * authors viewing their own nuggets are dropped.
+ */
+
+export const ENGAGEMENT_WINDOWS_MS: Record<EngagementEventType, number> = {
+  view: 30 * 60 * 1000, // 30 minutes
+  share: 60 * 60 * 1000 // 1 hour
+};
+
+const COUNTER_FIELDS: Record<EngagementEventType, 'engagement.views' | 'engagement.shares'> = {
+  view: 'engagement.views',
+  share: 'engagement.shares'
+};
+
+const DAILY_FIELDS: Record<EngagementEventType, 'views' | 'shares'> = {
+  view: 'views',
+  share: 'shares'
+};
+
+export interface EngagementEventInput {
+  type: EngagementEventType;
+  articleId: string;
+}
+
+export interface EngagementContext {
+  userId?: string;
+  ip?: string;
+  userAgent?: string;
+  now?: Date;
+}
+
+export interface IngestionResult {
+  accepted: number;
+  duplicates: number;
+  dropped: number;
+}
+
+export interface EngagementTrendPoint {
+  date: string;
+  views: number;
+  shares: number;
+}
+
+function getActorKey(context: EngagementContext): string | null {
+  if (context.userId) return `user:${context.userId}`;
+  if (!context.ip) return null;
+  // Raw IPs are not stored
+  return `ip:${crypto.createHash('sha256').update(context.ip).digest('hex').slice(0, 32)}`;
+}
+
+export function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Claim the de-duplication key for one event
+ * Returns true if this is the first event of the actor in the current window.
+ */
+async function claimEventKey(event: EngagementEventInput, actorKey: string, now: Date): Promise<boolean> {
+  const windowMs = ENGAGEMENT_WINDOWS_MS[event.type];
+  const window = Math.floor(now.getTime() / windowMs);
+  try {
+    const result = await EngagementEventKey.updateOne(
+      { articleId: event.articleId, type: event.type, actorKey, window },
+      { $setOnInsert: { expiresAt: new Date((window + 1) * windowMs) } },
+      { upsert: true }
+    );
+    return result.upsertedCount === 1;
+  } catch (error: any) {
+    // Concurrent request claimed the same key first
+    if (error?.code === 11000) return false;
+    throw error;
+  }
+}
+
+/**
+ * Record a batch of view/share events
+ */
+export async function recordEngagementEvents(
+  events: EngagementEventInput[],
+  context: EngagementContext
+): Promise<IngestionResult> {
+  const actorKey = getActorKey(context);
+  if (!actorKey || isLikelyBot(context.userAgent)) {
+    return { accepted: 0, duplicates: 0, dropped: events.length };
+  }
+
+  const now = context.now || new Date();
+  let duplicates = 0;
+  let dropped = 0;
+
+  // Collapse repeats inside the batch before touching the database
+  const unique = new Map<string, EngagementEventInput>();
+  for (const event of events) {
+    if (!mongoose.Types.ObjectId.isValid(event.articleId)) {
+      dropped++;
+      continue;
+    }
+    const key = `${event.type}:${event.articleId}`;
+    if (unique.has(key)) {
+      duplicates++;
+    } else {
+      unique.set(key, event);
+    }
+  }
+
+  const articleIds = [...new Set([...unique.values()].map(event => event.articleId))];
+  const articles = await Article.find({ _id: { $in: articleIds } })
+    .select('authorId visibility')
+    .lean();
+  const articlesById = new Map(articles.map(article => [String(article._id), article]));
+
+  const counted: EngagementEventInput[] = [];
+  for (const event of unique.values()) {
+    const article = articlesById.get(event.articleId);
+    if (!article || article.visibility === 'private' || article.authorId === context.userId) {
+      dropped++;
+      continue;
+    }
+    if (await claimEventKey(event, actorKey, now)) {
+      counted.push(event);
+    } else {
+      duplicates++;
+    }
+  }
+
+  if (counted.length > 0) {
+    const date = toDayKey(now);
+    await Article.bulkWrite(counted.map(event => ({
+      updateOne: {
+        filter: { _id: new mongoose.Types.ObjectId(event.articleId) },
+        update: { $inc: { [COUNTER_FIELDS[event.type]]: 1 } }
+      }
+    })));
+    await EngagementDaily.bulkWrite(counted.map(event => ({
+      updateOne: {
+        filter: { articleId: event.articleId, date },
+        update: {
+          $inc: { [DAILY_FIELDS[event.type]]: 1 },
+          $setOnInsert: { authorId: articlesById.get(event.articleId)!.authorId }
+        },
+        upsert: true
+      }
+    })));
+  }
+
+  return { accepted: counted.length, duplicates, dropped };
+}
+
+/**
+ * Daily views/shares across all nuggets of an author, oldest day first
+ * Days without events are included with zero counts.
+ */
+export async function getAuthorEngagementTrends(
+  authorId: string,
+  days: number,
+  now: Date = new Date()
+): Promise<EngagementTrendPoint[]> {
+  const dayKeys: string[] = [];
+  for (let offset = days - 1; offset >= 0; offset--) {
+    dayKeys.push(toDayKey(new Date(now.getTime() - offset * 24 * 60 * 60 * 1000)));
+  }
+
+  const rows = await EngagementDaily.aggregate<{ _id: string; views: number; shares: number }>([
+    { $match: { authorId, date: { $gte: dayKeys[0] } } },
+    { $group: { _id: '$date', views: { $sum: '$views' }, shares: { $sum: '$shares' } } }
+  ]);
+  const byDate = new Map(rows.map(row => [row._id, row]));
+
+  return dayKeys.map(date => ({
+    date,
+    views: byDate.get(date)?.views || 0,
+    shares: byDate.get(date)?.shares || 0
+  }));
+}
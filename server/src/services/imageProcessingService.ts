@@ -0,0 +1,159 @@
+import sharp from 'sharp';
+import { encode as encodeBlurhash } from 'blurhash';
+import type { StorageProvider } from './cloudinaryService.js';
+import { getLogger } from '../utils/logger.js';
+import {
+  RENDITION_FORMATS,
+  RenditionFormat,
+  StoredRendition,
+  ImagePlaceholder,
+  getOrientedSize,
+  isProcessableImage,
+  selectRenditionWidths,
+  toHexColor
+} from '../utils/imageRenditions.js';
+
+/**
+ * Image Processing Service
+ * Runs uploaded images through sharp before they reach a storage provider:
+ * - auto-orients from EXIF and re-encodes, which drops EXIF/GPS/XMP metadata
+ * - renders responsive AVIF/WebP renditions
+ * - computes a blurhash and dominant colour so clients can show a placeholder
+ *
+ * The output is plain buffers, so every provider stores the same files.
+ */
+
+const QUALITY: Record<RenditionFormat, number> = { avif: 50, webp: 75 };
+const ORIGINAL_QUALITY = 85;
+const PLACEHOLDER_SIZE = 32; // Blurhash only needs a thumbnail
+const BLURHASH_COMPONENTS = { x: 4, y: 3 };
+const MAX_INPUT_PIXELS = 50_000_000; // Refuse decompression bombs
+
+export interface ProcessedRendition {
+  buffer: Buffer;
+  format: RenditionFormat;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImage {
+  original: {
+    buffer: Buffer; // Oriented and stripped of metadata, same format as uploaded
+    width: number;
+    height: number;
+  };
+  renditions: ProcessedRendition[];
+  placeholder: ImagePlaceholder;
+}
+
+function decode(buffer: Buffer) {
+  return sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+}
+
+async function encodeOriginal(buffer: Buffer, format: string | undefined) {
+  const image = decode(buffer);
+  const encoded = format === 'png'
+    ? image.png({ compressionLevel: 9 })
+    : format === 'webp'
+      ? image.webp({ quality: ORIGINAL_QUALITY })
+      : image.jpeg({ quality: ORIGINAL_QUALITY, mozjpeg: true });
+  return encoded.toBuffer({ resolveWithObject: true });
+}
+
+async function computePlaceholder(buffer: Buffer): Promise<ImagePlaceholder> {
+  const { data, info } = await decode(buffer)
+    .resize(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { dominant } = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).stats();
+
+  return {
+    blurhash: encodeBlurhash(new Uint8ClampedArray(data), info.width, info.height, BLURHASH_COMPONENTS.x, BLURHASH_COMPONENTS.y),
+    dominantColor: toHexColor(dominant),
+  };
+}
+
+/**
+ * Process an uploaded image.
+ * Returns null for types the pipeline leaves untouched (GIF, non-images).
+ * Throws if the file cannot be decoded.
+ */
+export async function processImage(buffer: Buffer, mimeType: string): Promise<ProcessedImage | null> {
+  if (!isProcessableImage(mimeType)) {
+    return null;
+  }
+
+  const metadata = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  if (!metadata.width || !metadata.height) {
+    throw new Error('Unable to read image dimensions');
+  }
+  const { width } = getOrientedSize(metadata.width, metadata.height, metadata.orientation);
+
+  const original = await encodeOriginal(buffer, metadata.format);
+
+  const renditions: ProcessedRendition[] = [];
+  for (const targetWidth of selectRenditionWidths(width)) {
+    for (const format of RENDITION_FORMATS) {
+      const resized = decode(buffer).resize({ width: targetWidth, withoutEnlargement: true });
+      const { data, info } = await (format === 'avif'
+        ? resized.avif({ quality: QUALITY.avif })
+        : resized.webp({ quality: QUALITY.webp })
+      ).toBuffer({ resolveWithObject: true });
+      renditions.push({ buffer: data, format, mimeType: `image/${format}`, width: info.width, height: info.height });
+    }
+  }
+
+  return {
+    original: { buffer: original.data, width: original.info.width, height: original.info.height },
+    renditions,
+    placeholder: await computePlaceholder(buffer),
+  };
+}
+
+/**
+ * Upload renditions next to the original through the same provider.
+ * All-or-nothing: anything already uploaded is removed if one upload fails.
+ */
+export async function storeRenditions(
+  provider: StorageProvider,
+  renditions: ProcessedRendition[],
+  folder: string
+): Promise<StoredRendition[]> {
+  const stored: StoredRendition[] = [];
+  try {
+    for (const rendition of renditions) {
+      const result = await provider.upload(rendition.buffer, {
+        folder: `${folder}/renditions`,
+        resourceType: 'image',
+        overwrite: false,
+        mimeType: rendition.mimeType,
+      });
+      stored.push({
+        publicId: result.publicId,
+        secureUrl: result.secureUrl,
+        format: rendition.format,
+        width: rendition.width,
+        height: rendition.height,
+        bytes: result.bytes,
+      });
+    }
+    return stored;
+  } catch (error) {
+    await deleteRenditions(provider, stored);
+    throw error;
+  }
+}
+
+/**
+ * Best-effort removal of stored renditions
+ */
+export async function deleteRenditions(provider: StorageProvider, renditions: StoredRendition[]): Promise<void> {
+  for (const rendition of renditions) {
+    const deleted = await provider.delete(rendition.publicId, 'image');
+    if (!deleted) {
+      getLogger().warn({ msg: '[ImageProcessing] Rendition delete failed', service: 'storage', publicId: rendition.publicId });
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { StorageProvider, StorageUploadOptions, UploadResult } from './cloudinaryService.js';
+import { buildStorageKey, getImageDimensions, sanitizeFolderPath } from './cloudinaryService.js';
+import { getLogger } from '../utils/logger.js';
+import { signStorageKey, verifyStorageToken } from '../utils/storageSigning.js';
+
+/**
+ * Local disk storage provider
+ * For self-hosted and offline development setups without a cloud bucket.
+ *
+ * Files are written under a root directory and served by the API at
+ * /api/media/files/:token/<key>. The token is an HMAC of the key, so only
+ * URLs handed out by the server resolve; paths cannot be guessed or
+ * traversed. Persisted URLs carry a non-expiring token (they are embedded in
+ * nuggets), while getSignedUrl() can mint short-lived ones.
+ */
+
+export const LOCAL_MEDIA_ROUTE = '/api/media/files';
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local' as const;
+  private rootDir: string;
+
+  constructor(rootDir: string, private signingSecret: string, private publicBaseUrl = '') {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  // Always available: the disk is the fallback when no cloud provider is configured
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * Absolute path for a key, or null if it would escape the storage root
+   */
+  resolvePath(key: string): string | null {
+    const filePath = path.resolve(this.rootDir, key);
+    return filePath.startsWith(this.rootDir + path.sep) ? filePath : null;
+  }
+
+  /**
+   * URL for a stored file; pass expiresInSeconds for a short-lived link
+   */
+  getSignedUrl(key: string, expiresInSeconds?: number): string {
+    const expiresAt = expiresInSeconds ? Math.floor(Date.now() / 1000) + expiresInSeconds : undefined;
+    const token = signStorageKey(key, this.signingSecret, expiresAt);
+    return `${this.publicBaseUrl.replace(/\/+$/, '')}${LOCAL_MEDIA_ROUTE}/${token}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  /**
+   * Resolve a request for /files/:token/<key>; null if the token is invalid
+   */
+  resolveSignedRequest(key: string, token: string): string | null {
+    if (!verifyStorageToken(key, token, this.signingSecret)) {
+      return null;
+    }
+    return this.resolvePath(key);
+  }
+
+  async upload(file: Buffer, options: StorageUploadOptions): Promise<UploadResult> {
+    const { key, format } = buildStorageKey(sanitizeFolderPath(options.folder), options.mimeType, options.originalName);
+    const filePath = this.resolvePath(key);
+    if (!filePath) {
+      throw new Error('Invalid storage folder');
+    }
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, file, { flag: 'wx' }); // Keys are random; never overwrite
+
+    const resourceType = options.resourceType && options.resourceType !== 'auto' ? options.resourceType : 'raw';
+    const dimensions = resourceType === 'image' ? getImageDimensions(file) : null;
+
+    return {
+      publicId: key,
+      secureUrl: this.getSignedUrl(key),
+      resourceType,
+      format,
+      width: dimensions?.width,
+      height: dimensions?.height,
+      bytes: file.length,
+    };
+  }
+
+  async delete(publicId: string): Promise<boolean> {
+    const filePath = this.resolvePath(publicId);
+    if (!filePath) {
+      return false;
+    }
+    try {
+      await fs.unlink(filePath);
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return true; // Already deleted
+      }
+      // Best-effort deletion - log but don't throw
+      getLogger().error({ msg: '[Storage] Local delete error', service: 'storage', publicId, error: error.message });
+      return false;
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getEnv } from '../config/envValidation.js';
+import { getLogger } from '../utils/logger.js';
+import { SmtpMailTransport } from './smtpMailTransport.js';
+
+/**
+ * Mail Service
+ * Sends transactional email through a pluggable transport
+ *
+ * Transports are selected by MAIL_TRANSPORT:
+ * - console: logs the message (default, safe for development)
+ * - file: writes each message as a .eml-style text file to MAIL_FILE_DIR
+ * - smtp: delivers through the SMTP server at SMTP_HOST
+ *
+ * Controllers should only call sendMail(); they never talk to a transport directly.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>; // Extra headers, e.g. List-Unsubscribe
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Logs messages instead of delivering them
+ */
+class ConsoleMailTransport implements MailTransport {
+  name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const logger = getLogger();
+    logger.info({
+      msg: 'Mail (console transport)',
+      service: 'mail',
+      to: message.to,
+      subject: message.subject,
+      body: message.text,
+    });
+  }
+}
+
+/**
+ * Writes messages to disk so they can be opened during local development
+ */
+class FileMailTransport implements MailTransport {
+  name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filePath = path.join(this.directory, `${timestamp}_${safeRecipient}.eml`);
+
+    const lines = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      ...Object.entries(message.headers ?? {}).map(([name, value]) => `${name}: ${value}`),
+      '',
+      message.text,
+    ];
+    if (message.html) {
+      lines.push('', '--- HTML ---', message.html);
+    }
+
+    await fs.writeFile(filePath, lines.join('\n'), 'utf8');
+  }
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Initialize the mail transport from environment configuration
+ */
+export function initializeMailer(): void {
+  const env = getEnv();
+  const logger = getLogger();
+
+  if (env.MAIL_TRANSPORT === 'file') {
+    const directory = env.MAIL_FILE_DIR || path.resolve(process.cwd(), 'tmp', 'mail');
+    transport = new FileMailTransport(directory);
+  } else if (env.MAIL_TRANSPORT === 'smtp' && env.SMTP_HOST) {
+    transport = new SmtpMailTransport({
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT, 10),
+      secure: env.SMTP_SECURE,
+      user: env.SMTP_USER,
+      password: env.SMTP_PASSWORD,
+      allowInsecureAuth: env.SMTP_ALLOW_INSECURE_AUTH,
+    });
+  } else {
+    if (env.MAIL_TRANSPORT === 'smtp') {
+      logger.warn({ msg: 'MAIL_TRANSPORT=smtp but SMTP_HOST is not set, falling back to console', service: 'mail' });
+    }
+    transport = new ConsoleMailTransport();
+  }
+
+  logger.info({ msg: 'Mailer initialized', service: 'mail', transport: transport.name });
+}
+
+/**
+ * Replace the active transport (used by tests and custom deployments)
+ */
+export function setMailTransport(customTransport: MailTransport): void {
+  transport = customTransport;
+}
+
+/**
+ * Send a message through the active transport
+ * Falls back to the console transport if initializeMailer() was never called
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!transport) {
+    transport = new ConsoleMailTransport();
+  }
+  const env = getEnv();
+  await transport.send({ ...message, from: env.MAIL_FROM });
+}
+
+/**
+ * Build an absolute link into the frontend (e.g. reset-password?token=...)
+ */
+export function buildFrontendUrl(pathname: string, params?: Record<string, string>): string {
+  const env = getEnv();
+  const base = env.FRONTEND_URL || 'http://localhost:3000';
+  const url = new URL(pathname, base);
+  if (params) {
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+  }
+  return url.toString();
+}
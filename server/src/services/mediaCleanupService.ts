@@ -1,16 +1,36 @@
 import mongoose from 'mongoose';
-import { Media } from '../models/Media.js';
-import { deleteFromCloudinary, isCloudinaryConfigured } from './cloudinaryService.js';
+import { Media, IMedia } from '../models/Media.js';
+import { deleteFromStorage, getConfiguredStorageProviders } from './cloudinaryService.js';
 import { getLogger } from '../utils/logger.js';
 
 /**
  * Media Cleanup Service
  * Handles orphaned media cleanup and scheduled maintenance
  * 
- * CRITICAL: MongoDB-driven cleanup. Never delete from Cloudinary
- * without checking MongoDB first.
+ * CRITICAL: MongoDB-driven cleanup. Never delete from storage
+ * (Cloudinary, S3 or local disk) without checking MongoDB first.
  */
 
+/**
+ * Delete a media record's original asset and its renditions from storage
+ * Best-effort; the result reflects the original only.
+ */
+export async function deleteMediaAssets(media: IMedia): Promise<boolean> {
+  const { publicId, resourceType, provider } = media.cloudinary;
+  for (const rendition of media.renditions || []) {
+    await deleteFromStorage(rendition.publicId, 'image', provider);
+  }
+  return deleteFromStorage(publicId, resourceType, provider);
+}
+
+/**
+ * Bytes a media record occupies in storage, renditions included
+ */
+function getStoredBytes(media: IMedia): number {
+  const renditionBytes = (media.renditions || []).reduce((sum, rendition) => sum + (rendition.bytes || 0), 0);
+  return (media.cloudinary.bytes || 0) + renditionBytes;
+}
+
 /**
  * Find and clean up orphaned media
  * 
@@ -24,10 +44,16 @@ import { getLogger } from '../utils/logger.js';
 export async function cleanupOrphanedMedia(orphanAgeMinutes: number = 60): Promise<number> {
   const logger = getLogger();
   
-  if (!isCloudinaryConfigured()) {
-    logger.warn('[MediaCleanup] Cloudinary not configured, skipping cleanup');
+  // Only touch media whose provider is reachable; the rest waits until it is configured
+  const providers = getConfiguredStorageProviders();
+  if (providers.length === 0) {
+    logger.warn('[MediaCleanup] No storage provider configured, skipping cleanup');
     return 0;
   }
+  const providerFilter: Record<string, any>[] = [{ 'cloudinary.provider': { $in: providers } }];
+  if (providers.includes('cloudinary')) {
+    providerFilter.push({ 'cloudinary.provider': { $exists: false } }); // Pre-provider records
+  }
 
   try {
     const orphanCutoff = new Date(Date.now() - orphanAgeMinutes * 60 * 1000);
@@ -36,6 +62,7 @@ export async function cleanupOrphanedMedia(orphanAgeMinutes: number = 60): Promi
     // 1. Status is 'orphaned'
     // 2. OR status is 'active' but usedBy is missing and created more than X minutes ago
     const orphanedMedia = await Media.find({
+      $and: [{ $or: providerFilter }],
       $or: [
         { status: 'orphaned' },
         {
@@ -60,18 +87,15 @@ export async function cleanupOrphanedMedia(orphanAgeMinutes: number = 60): Promi
     });
 
     let deletedCount = 0;
-    let cloudinaryDeletedCount = 0;
+    let storageDeletedCount = 0;
 
     for (const media of orphanedMedia) {
       try {
-        // Delete from Cloudinary (best-effort)
-        const cloudinaryDeleted = await deleteFromCloudinary(
-          media.cloudinary.publicId,
-          media.cloudinary.resourceType
-        );
-
-        if (cloudinaryDeleted) {
-          cloudinaryDeletedCount++;
+        // Delete from storage (best-effort)
+        const storageDeleted = await deleteMediaAssets(media);
+
+        if (storageDeleted) {
+          storageDeletedCount++;
         }
 
         // Mark as deleted in MongoDB
@@ -94,7 +118,7 @@ export async function cleanupOrphanedMedia(orphanAgeMinutes: number = 60): Promi
       msg: 'Orphaned media cleanup completed',
       total: orphanedMedia.length,
       deleted: deletedCount,
-      cloudinaryDeleted: cloudinaryDeletedCount
+      storageDeleted: storageDeletedCount
     });
 
     return deletedCount;
@@ -171,8 +195,8 @@ export async function getUserStorageStats(userId: string): Promise<{
     const allMedia = await Media.find({ ownerId: userId });
     const activeMedia = await Media.find({ ownerId: userId, status: 'active' });
 
-    const totalBytes = allMedia.reduce((sum, m) => sum + (m.cloudinary.bytes || 0), 0);
-    const activeBytes = activeMedia.reduce((sum, m) => sum + (m.cloudinary.bytes || 0), 0);
+    const totalBytes = allMedia.reduce((sum, m) => sum + getStoredBytes(m), 0);
+    const activeBytes = activeMedia.reduce((sum, m) => sum + getStoredBytes(m), 0);
 
     return {
       totalFiles: allMedia.length,
@@ -0,0 +1,68 @@
+import { Media } from '../models/Media.js';
+import { buildImageVariant, ImageVariant } from '../utils/imageRenditions.js';
+
+/**
+ * Media Variant Service
+ * Looks up renditions/placeholders for the image URLs nuggets reference, so
+ * feeds can render srcset and placeholders without changing how articles
+ * store their media (plain URLs, possibly from any storage provider).
+ */
+
+/**
+ * Image URLs an article may render
+ */
+function collectImageUrls(article: { images?: string[]; media?: { url?: string; type?: string } | null }): string[] {
+  const urls = [...(article.images || [])];
+  if (article.media?.url && article.media.type === 'image') {
+    urls.push(article.media.url);
+  }
+  return urls;
+}
+
+/**
+ * Variants keyed by the original's secure URL (URLs without a processed
+ * media record are absent)
+ */
+export async function getImageVariants(urls: string[]): Promise<Map<string, ImageVariant>> {
+  const variants = new Map<string, ImageVariant>();
+  const uniqueUrls = [...new Set(urls.filter(Boolean))];
+  if (uniqueUrls.length === 0) return variants;
+
+  const records = await Media.find({
+    'cloudinary.secureUrl': { $in: uniqueUrls },
+    status: { $ne: 'deleted' },
+    $or: [{ 'renditions.0': { $exists: true } }, { placeholder: { $exists: true } }]
+  })
+    .select('cloudinary.secureUrl cloudinary.width cloudinary.height renditions placeholder')
+    .lean();
+
+  for (const record of records) {
+    const variant = buildImageVariant({
+      width: record.cloudinary.width,
+      height: record.cloudinary.height,
+      renditions: record.renditions,
+      placeholder: record.placeholder,
+    });
+    if (variant) {
+      variants.set(record.cloudinary.secureUrl, variant);
+    }
+  }
+  return variants;
+}
+
+/**
+ * Attach `imageVariants` to normalized articles with one query for the page
+ */
+export async function attachImageVariants<T extends { images?: string[]; media?: { url?: string; type?: string } | null }>(
+  articles: T[]
+): Promise<Array<T & { imageVariants?: Record<string, ImageVariant> }>> {
+  const variants = await getImageVariants(articles.flatMap(collectImageUrls));
+  if (variants.size === 0) return articles;
+
+  return articles.map(article => {
+    const matches = collectImageUrls(article)
+      .filter(url => variants.has(url))
+      .map(url => [url, variants.get(url)!] as const);
+    return matches.length > 0 ? { ...article, imageVariants: Object.fromEntries(matches) } : article;
+  });
+}
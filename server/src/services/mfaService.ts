@@ -0,0 +1,190 @@
+import QRCode from 'qrcode';
+import { User } from '../models/User.js';
+import { hashToken } from '../utils/authTokens.js';
+import { encryptSecret, decryptSecret } from '../utils/secretEncryption.js';
+import {
+  generateTotpSecret,
+  verifyTotpCode,
+  buildOtpAuthUri,
+  generateRecoveryCodes,
+  normalizeRecoveryCode
+} from '../utils/totp.js';
+
+/**
+ * MFA Service
+ * TOTP enrollment, second-factor checks and recovery codes
+ *
+ * Secrets are stored encrypted; recovery codes are stored as hashes and removed
+ * when used. Accepted TOTP steps are recorded so a code cannot be replayed.
+ */
+
+const ISSUER = 'Nuggets';
+const RECOVERY_CODE_COUNT = 10;
+
+const MFA_FIELDS = '+security.mfaSecret +security.mfaPendingSecret +security.mfaRecoveryCodeHashes +security.mfaLastUsedStep';
+
+export interface MfaEnrollment {
+  secret: string; // For manual entry
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export interface SecondFactor {
+  code?: string; // 6-digit TOTP code
+  recoveryCode?: string;
+}
+
+export class MfaError extends Error {
+  constructor(message: string, public code: string, public status: number = 400) {
+    super(message);
+    this.name = 'MfaError';
+  }
+}
+
+function hashRecoveryCodes(codes: string[]): string[] {
+  return codes.map(code => hashToken(normalizeRecoveryCode(code)));
+}
+
+/**
+ * Start enrollment: create a pending secret the user has to confirm with a code
+ */
+export async function beginEnrollment(userId: string): Promise<MfaEnrollment> {
+  const user = await User.findById(userId).select('auth.email security.mfaEnabled');
+  if (!user) {
+    throw new MfaError('User not found', 'USER_NOT_FOUND', 404);
+  }
+  if (user.security.mfaEnabled) {
+    throw new MfaError('Two-factor authentication is already enabled', 'MFA_ALREADY_ENABLED', 409);
+  }
+
+  const secret = generateTotpSecret();
+  await User.updateOne({ _id: userId }, { $set: { 'security.mfaPendingSecret': encryptSecret(secret) } });
+
+  const otpauthUrl = buildOtpAuthUri(secret, user.auth.email, ISSUER);
+  return {
+    secret,
+    otpauthUrl,
+    qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl)
+  };
+}
+
+/**
+ * Finish enrollment with a code from the authenticator app
+ *
+ * @returns recovery codes (shown to the user once)
+ */
+export async function confirmEnrollment(userId: string, code: string): Promise<string[]> {
+  const user = await User.findById(userId).select(MFA_FIELDS);
+  if (!user) {
+    throw new MfaError('User not found', 'USER_NOT_FOUND', 404);
+  }
+  if (user.security.mfaEnabled) {
+    throw new MfaError('Two-factor authentication is already enabled', 'MFA_ALREADY_ENABLED', 409);
+  }
+  if (!user.security.mfaPendingSecret) {
+    throw new MfaError('Start two-factor setup first', 'MFA_SETUP_NOT_STARTED');
+  }
+
+  const secret = decryptSecret(user.security.mfaPendingSecret);
+  const step = verifyTotpCode(secret, code);
+  if (step === null) {
+    throw new MfaError('Invalid verification code', 'INVALID_MFA_CODE');
+  }
+
+  const recoveryCodes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+  await User.updateOne(
+    { _id: userId },
+    {
+      $set: {
+        'security.mfaEnabled': true,
+        'security.mfaEnabledAt': new Date().toISOString(),
+        'security.mfaSecret': user.security.mfaPendingSecret,
+        'security.mfaRecoveryCodeHashes': hashRecoveryCodes(recoveryCodes),
+        'security.mfaLastUsedStep': step
+      },
+      $unset: { 'security.mfaPendingSecret': '' }
+    }
+  );
+  return recoveryCodes;
+}
+
+/**
+ * Check a TOTP or recovery code for a user with MFA enabled
+ * Successful checks consume the code (TOTP step recorded / recovery code removed).
+ */
+export async function verifySecondFactor(userId: string, factor: SecondFactor): Promise<boolean> {
+  const user = await User.findById(userId).select(MFA_FIELDS);
+  if (!user || !user.security.mfaEnabled || !user.security.mfaSecret) {
+    return false;
+  }
+
+  if (factor.recoveryCode) {
+    const codeHash = hashToken(normalizeRecoveryCode(factor.recoveryCode));
+    const result = await User.updateOne(
+      { _id: userId, 'security.mfaRecoveryCodeHashes': codeHash },
+      { $pull: { 'security.mfaRecoveryCodeHashes': codeHash } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  if (!factor.code) {
+    return false;
+  }
+
+  const step = verifyTotpCode(decryptSecret(user.security.mfaSecret), factor.code, user.security.mfaLastUsedStep);
+  if (step === null) {
+    return false;
+  }
+
+  // Record the step atomically so two concurrent requests cannot both use one code
+  const result = await User.updateOne(
+    {
+      _id: userId,
+      $or: [
+        { 'security.mfaLastUsedStep': { $exists: false } },
+        { 'security.mfaLastUsedStep': { $lt: step } }
+      ]
+    },
+    { $set: { 'security.mfaLastUsedStep': step } }
+  );
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Number of unused recovery codes
+ */
+export async function countRecoveryCodes(userId: string): Promise<number> {
+  const user = await User.findById(userId).select('+security.mfaRecoveryCodeHashes');
+  return user?.security.mfaRecoveryCodeHashes?.length || 0;
+}
+
+/**
+ * Replace all recovery codes
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+  await User.updateOne(
+    { _id: userId, 'security.mfaEnabled': true },
+    { $set: { 'security.mfaRecoveryCodeHashes': hashRecoveryCodes(recoveryCodes) } }
+  );
+  return recoveryCodes;
+}
+
+/**
+ * Turn MFA off and remove all secrets (user request or admin reset)
+ */
+export async function disableMfa(userId: string): Promise<void> {
+  await User.updateOne(
+    { _id: userId },
+    {
+      $set: { 'security.mfaEnabled': false },
+      $unset: {
+        'security.mfaEnabledAt': '',
+        'security.mfaSecret': '',
+        'security.mfaPendingSecret': '',
+        'security.mfaRecoveryCodeHashes': '',
+        'security.mfaLastUsedStep': ''
+      }
+    }
+  );
+}
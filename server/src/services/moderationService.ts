@@ -9,7 +9,7 @@ import { createSearchRegex } from '../utils/escapeRegExp.js';
  */
 export interface ModerationQueryFilters {
   status?: 'open' | 'resolved' | 'dismissed';
-  targetType?: 'nugget' | 'user' | 'collection';
+  targetType?: 'nugget' | 'user' | 'collection' | 'comment';
   targetId?: string;
   searchQuery?: string;
 }
@@ -37,6 +37,7 @@ export function buildModerationQuery(filters: ModerationQueryFilters = {}): any
       { description: regex },
       { 'reporter.name': regex },
       { 'respondent.name': regex },
+      { 'collectionEntry.collectionName': regex },
       { targetId: regex }
     ];
   }
@@ -0,0 +1,109 @@
+import mongoose from 'mongoose';
+import { Notification } from '../models/Notification.js';
+import { User } from '../models/User.js';
+import { IReport } from '../models/Report.js';
+import { NotificationType, isNotificationEnabled } from '../utils/notificationPreferences.js';
+import { getLogger } from '../utils/logger.js';
+
+/**
+ * Notification Service
+ * Delivers in-app notifications for activity on a user's content. Delivery
+ * is best effort: failures are logged and never fail the request that
+ * triggered the event.
+ */
+
+export interface NotifyInput {
+  userId: string; // Recipient
+  type: NotificationType;
+  actorId?: string;
+  message: string;
+  link?: string;
+  dedupeKey?: string;
+}
+
+/**
+ * Create a notification unless the recipient is the actor, has switched
+ * the type off, or already has an unread one with the same dedupe key
+ */
+export async function notify(input: NotifyInput): Promise<void> {
+  try {
+    if (!mongoose.isValidObjectId(input.userId) || input.userId === input.actorId) return;
+
+    const recipient = await User.findById(input.userId).select('preferences.notifications').lean();
+    if (!recipient) return;
+    if (!isNotificationEnabled(input.type, recipient.preferences?.notifications as Record<string, boolean> | undefined)) return;
+
+    if (input.dedupeKey) {
+      const pending = await Notification.exists({ userId: input.userId, dedupeKey: input.dedupeKey, readAt: { $exists: false } });
+      if (pending) return;
+    }
+
+    let actor;
+    if (input.actorId) {
+      const actorUser = await User.findById(input.actorId).select('profile.displayName profile.avatarUrl').lean();
+      if (actorUser) {
+        actor = { id: input.actorId, name: actorUser.profile.displayName, avatarUrl: actorUser.profile.avatarUrl };
+      }
+    }
+
+    await Notification.create({
+      userId: input.userId,
+      type: input.type,
+      actor,
+      message: input.message,
+      link: input.link,
+      dedupeKey: input.dedupeKey
+    });
+  } catch (error: any) {
+    getLogger().warn({
+      msg: '[Notifications] Failed to deliver notification',
+      type: input.type,
+      error: { message: error?.message }
+    });
+  }
+}
+
+/**
+ * Quote user-entered titles in notification text, shortened to keep
+ * messages to one line
+ */
+export function quoteTitle(title: string | undefined, fallback: string): string {
+  const text = (title || '').trim() || fallback;
+  return `“${text.length > 60 ? `${text.slice(0, 57)}…` : text}”`;
+}
+
+const REPORT_TARGET_LABELS: Record<IReport['targetType'], string> = {
+  nugget: 'nugget',
+  user: 'profile',
+  collection: 'collection',
+  comment: 'comment'
+};
+
+/**
+ * Tell the reporter their report was reviewed, and the respondent when
+ * action was taken against their content. Moderators stay anonymous.
+ */
+export async function notifyReportOutcome(report: IReport, moderatorId: string): Promise<void> {
+  const label = REPORT_TARGET_LABELS[report.targetType] || 'item';
+  const resolved = report.status === 'resolved';
+
+  if (report.reporter?.id && report.reporter.id !== moderatorId) {
+    await notify({
+      userId: report.reporter.id,
+      type: 'report_reviewed',
+      message: resolved
+        ? `Your report about a ${label} was reviewed and action was taken`
+        : `Your report about a ${label} was reviewed; no action was needed`
+    });
+  }
+
+  if (resolved && report.respondent?.id) {
+    await notify({
+      userId: report.respondent.id,
+      type: 'report_resolved',
+      message: report.collectionEntry
+        ? `Your nugget was removed from ${quoteTitle(report.collectionEntry.collectionName, 'a collection')} after a review`
+        : `A report about your ${label} was upheld by the moderators`
+    });
+  }
+}
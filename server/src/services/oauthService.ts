@@ -0,0 +1,216 @@
+import crypto from 'crypto';
+import { OAuthState, IOAuthState } from '../models/OAuthState.js';
+import { OAuthProvider } from '../models/User.js';
+import { getEnv } from '../config/envValidation.js';
+import { hashToken } from '../utils/authTokens.js';
+import { buildFrontendUrl } from './mailService.js';
+
+/**
+ * OAuth Service
+ * Authorization-code flow (with PKCE) against OIDC-style providers
+ *
+ * The provider redirects back to the frontend (/auth/callback/:provider), which
+ * posts `code` and `state` to the API. Endpoint URLs come from the environment so
+ * a local mock identity provider can stand in for Google/LinkedIn.
+ */
+
+export const OAUTH_PROVIDERS: OAuthProvider[] = ['google', 'linkedin'];
+
+const STATE_TTL_MINUTES = 10;
+const PROVIDER_TIMEOUT_MS = 10000;
+
+export interface OAuthProviderConfig {
+  provider: OAuthProvider;
+  clientId: string;
+  clientSecret: string;
+  authUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+  scope: string;
+}
+
+// Normalized identity returned by a provider
+export interface OAuthProfile {
+  providerUserId: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+  avatarUrl?: string;
+}
+
+export class OAuthError extends Error {
+  constructor(message: string, public code: string, public status: number = 400) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+export function isOAuthProvider(value: string): value is OAuthProvider {
+  return (OAUTH_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Provider configuration, or null when the provider has no credentials configured
+ */
+export function getProviderConfig(provider: OAuthProvider): OAuthProviderConfig | null {
+  const env = getEnv();
+  const config = provider === 'google'
+    ? {
+        clientId: env.GOOGLE_CLIENT_ID,
+        clientSecret: env.GOOGLE_CLIENT_SECRET,
+        authUrl: env.GOOGLE_AUTH_URL,
+        tokenUrl: env.GOOGLE_TOKEN_URL,
+        userInfoUrl: env.GOOGLE_USERINFO_URL
+      }
+    : {
+        clientId: env.LINKEDIN_CLIENT_ID,
+        clientSecret: env.LINKEDIN_CLIENT_SECRET,
+        authUrl: env.LINKEDIN_AUTH_URL,
+        tokenUrl: env.LINKEDIN_TOKEN_URL,
+        userInfoUrl: env.LINKEDIN_USERINFO_URL
+      };
+
+  if (!config.clientId || !config.clientSecret) {
+    return null;
+  }
+
+  return {
+    provider,
+    clientId: config.clientId,
+    clientSecret: config.clientSecret,
+    authUrl: config.authUrl,
+    tokenUrl: config.tokenUrl,
+    userInfoUrl: config.userInfoUrl,
+    scope: 'openid email profile'
+  };
+}
+
+export function getEnabledProviders(): OAuthProvider[] {
+  return OAUTH_PROVIDERS.filter(provider => getProviderConfig(provider) !== null);
+}
+
+/**
+ * Frontend route the provider sends the user back to
+ */
+export function getRedirectUri(provider: OAuthProvider): string {
+  return buildFrontendUrl(`/auth/callback/${provider}`);
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Build the provider authorization URL and remember the pending request
+ *
+ * @param mode - 'login' signs in (or registers); 'link' attaches the identity to userId
+ */
+export async function beginAuthorization(
+  config: OAuthProviderConfig,
+  mode: IOAuthState['mode'],
+  userId?: string
+): Promise<string> {
+  const state = crypto.randomBytes(32).toString('hex');
+  const codeVerifier = base64Url(crypto.randomBytes(32));
+  const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+  await OAuthState.create({
+    stateHash: hashToken(state),
+    provider: config.provider,
+    codeVerifier,
+    mode,
+    userId,
+    expiresAt: new Date(Date.now() + STATE_TTL_MINUTES * 60 * 1000)
+  });
+
+  const url = new URL(config.authUrl);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', getRedirectUri(config.provider));
+  url.searchParams.set('scope', config.scope);
+  url.searchParams.set('state', state);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+/**
+ * Redeem a `state` value (single use)
+ */
+export async function consumeAuthorizationState(
+  provider: OAuthProvider,
+  state: string
+): Promise<IOAuthState> {
+  const pending = await OAuthState.findOneAndDelete({
+    stateHash: hashToken(state),
+    provider,
+    expiresAt: { $gt: new Date() }
+  });
+
+  if (!pending) {
+    throw new OAuthError('This sign-in attempt has expired. Please try again.', 'INVALID_OAUTH_STATE');
+  }
+  return pending;
+}
+
+/**
+ * Exchange an authorization code for the user's identity
+ */
+export async function exchangeCodeForProfile(
+  config: OAuthProviderConfig,
+  code: string,
+  codeVerifier: string,
+  redirectUri: string
+): Promise<OAuthProfile> {
+  const tokenResponse = await fetch(config.tokenUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      code_verifier: codeVerifier
+    }),
+    signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS)
+  });
+
+  if (!tokenResponse.ok) {
+    throw new OAuthError('The provider rejected the sign-in request. Please try again.', 'OAUTH_EXCHANGE_FAILED', 502);
+  }
+
+  const tokens = await tokenResponse.json() as { access_token?: string };
+  if (!tokens.access_token) {
+    throw new OAuthError('The provider did not return an access token.', 'OAUTH_EXCHANGE_FAILED', 502);
+  }
+
+  const userInfoResponse = await fetch(config.userInfoUrl, {
+    headers: {
+      'Authorization': `Bearer ${tokens.access_token}`,
+      'Accept': 'application/json'
+    },
+    signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS)
+  });
+
+  if (!userInfoResponse.ok) {
+    throw new OAuthError('Could not load your profile from the provider.', 'OAUTH_PROFILE_FAILED', 502);
+  }
+
+  // Standard OIDC userinfo claims (Google and LinkedIn both implement them)
+  const claims = await userInfoResponse.json() as Record<string, unknown>;
+  if (!claims.sub) {
+    throw new OAuthError('The provider did not return an account identifier.', 'OAUTH_PROFILE_FAILED', 502);
+  }
+
+  return {
+    providerUserId: String(claims.sub),
+    email: typeof claims.email === 'string' ? claims.email.toLowerCase().trim() : undefined,
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    name: typeof claims.name === 'string' ? claims.name : undefined,
+    avatarUrl: typeof claims.picture === 'string' ? claims.picture : undefined
+  };
+}
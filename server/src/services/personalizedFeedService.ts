@@ -0,0 +1,95 @@
+import mongoose from 'mongoose';
+import { Article } from '../models/Article.js';
+import { Bookmark } from '../models/Bookmark.js';
+import { Collection } from '../models/Collection.js';
+import { getFolloweeIds } from './userFollowService.js';
+import {
+  AffinitySignals,
+  ScoredFeedItem,
+  buildCategoryAffinity,
+  getFeedCandidateWindowStart,
+  rankFeed
+} from '../utils/feedScoring.js';
+
+/**
+ * Personalized Feed Service
+ * Loads a reader's signals and the candidate nuggets, then hands both to the
+ * pure scorer in utils/feedScoring.ts. Signal and candidate counts are capped
+ * so one request stays cheap however active the reader is.
+ */
+
+// Most recent nuggets considered per feed
+export const FEED_CANDIDATE_LIMIT = 500;
+// Most recent bookmarks / collected nuggets that shape category affinity
+const AFFINITY_BOOKMARK_LIMIT = 200;
+const AFFINITY_COLLECTED_LIMIT = 300;
+
+async function getCategoriesById(articleIds: string[]): Promise<string[][]> {
+  const validIds = articleIds.filter(id => mongoose.isValidObjectId(id));
+  if (validIds.length === 0) return [];
+  const articles = await Article.find({ _id: { $in: validIds } }).select('categories').lean();
+  return articles.map(article => article.categories || []);
+}
+
+async function loadAffinitySignals(userId: string, interestedCategories: string[]): Promise<AffinitySignals> {
+  const [bookmarks, collections] = await Promise.all([
+    Bookmark.find({ userId }).sort({ createdAt: -1 }).limit(AFFINITY_BOOKMARK_LIMIT).select('nuggetId').lean(),
+    Collection.find({ $or: [{ creatorId: userId }, { followers: userId }] })
+      .sort({ updatedAt: -1 })
+      .select('entries.articleId')
+      .lean()
+  ]);
+
+  const collectedIds = Array.from(new Set(
+    collections.flatMap(collection => (collection.entries || []).map(entry => entry.articleId))
+  )).slice(0, AFFINITY_COLLECTED_LIMIT);
+
+  const [bookmarkedCategories, collectedCategories] = await Promise.all([
+    getCategoriesById(bookmarks.map(bookmark => bookmark.nuggetId)),
+    getCategoriesById(collectedIds)
+  ]);
+
+  return { interestedCategories, bookmarkedCategories, collectedCategories };
+}
+
+/**
+ * Every candidate for the reader's feed at `asOf`, ranked best first
+ */
+export async function rankPersonalizedFeed(
+  userId: string,
+  interestedCategories: string[],
+  asOf: Date
+): Promise<ScoredFeedItem[]> {
+  const [signals, followedAuthorIds] = await Promise.all([
+    loadAffinitySignals(userId, interestedCategories),
+    getFolloweeIds(userId)
+  ]);
+
+  // PRIVACY: only public nuggets (missing visibility defaults to public), never the reader's own
+  const candidates = await Article.find({
+    authorId: { $ne: userId },
+    publishedAt: { $gte: getFeedCandidateWindowStart(asOf), $lte: asOf.toISOString() },
+    $or: [
+      { visibility: 'public' },
+      { visibility: { $exists: false } },
+      { visibility: null }
+    ]
+  })
+    .select('authorId authorName categories publishedAt engagement')
+    .sort({ publishedAt: -1, _id: -1 })
+    .limit(FEED_CANDIDATE_LIMIT)
+    .lean();
+
+  return rankFeed(
+    candidates.map(article => ({
+      id: article._id.toString(),
+      authorId: article.authorId,
+      authorName: article.authorName,
+      categories: article.categories,
+      publishedAt: article.publishedAt,
+      engagement: article.engagement
+    })),
+    { affinity: buildCategoryAffinity(signals), followedAuthorIds: new Set(followedAuthorIds) },
+    asOf
+  );
+}
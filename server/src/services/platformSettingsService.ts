@@ -0,0 +1,130 @@
+import { PlatformSettings, IUnverifiedAccountPolicy, IMfaPolicy, ICollectionFlagPolicy } from '../models/PlatformSettings.js';
+import { User } from '../models/User.js';
+import { LRUCache } from '../utils/lruCache.js';
+
+/**
+ * Platform Settings Service
+ * Single source of truth for admin-configurable policies
+ *
+ * Settings are read on hot paths (article/collection creation), so they are
+ * cached briefly and the cache is cleared whenever an admin saves changes.
+ */
+
+const SETTINGS_KEY = 'global';
+const settingsCache = new LRUCache<PlatformSettingsData>(1, 30 * 1000);
+
+export interface PlatformSettingsData {
+  unverifiedAccountPolicy: IUnverifiedAccountPolicy;
+  mfaPolicy: IMfaPolicy;
+  collectionFlagPolicy: ICollectionFlagPolicy;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+const DEFAULT_SETTINGS: PlatformSettingsData = {
+  unverifiedAccountPolicy: {
+    canCreatePublicNuggets: true,
+    canCreatePublicCollections: true
+  },
+  mfaPolicy: {
+    requireForAdmins: false
+  },
+  collectionFlagPolicy: {
+    threshold: 3,
+    action: 'hide'
+  }
+};
+
+export type PlatformSettingsUpdate = {
+  [Group in keyof Omit<PlatformSettingsData, 'updatedAt' | 'updatedBy'>]?: Partial<PlatformSettingsData[Group]>;
+};
+
+/**
+ * Get current settings (defaults are returned until an admin saves them)
+ */
+export async function getPlatformSettings(): Promise<PlatformSettingsData> {
+  const cached = settingsCache.get(SETTINGS_KEY);
+  if (cached) {
+    return cached;
+  }
+
+  const doc = await PlatformSettings.findOne({ key: SETTINGS_KEY }).lean();
+  const settings: PlatformSettingsData = {
+    unverifiedAccountPolicy: {
+      ...DEFAULT_SETTINGS.unverifiedAccountPolicy,
+      ...(doc?.unverifiedAccountPolicy || {})
+    },
+    mfaPolicy: {
+      ...DEFAULT_SETTINGS.mfaPolicy,
+      ...(doc?.mfaPolicy || {})
+    },
+    collectionFlagPolicy: {
+      ...DEFAULT_SETTINGS.collectionFlagPolicy,
+      ...(doc?.collectionFlagPolicy || {})
+    },
+    updatedAt: doc?.updatedAt,
+    updatedBy: doc?.updatedBy
+  };
+
+  settingsCache.set(SETTINGS_KEY, settings);
+  return settings;
+}
+
+/**
+ * Apply a partial update and return the merged settings
+ */
+export async function updatePlatformSettings(
+  updates: PlatformSettingsUpdate,
+  adminId: string
+): Promise<PlatformSettingsData> {
+  const $set: Record<string, any> = {
+    updatedAt: new Date().toISOString(),
+    updatedBy: adminId
+  };
+
+  // Dot-notation so unspecified fields of each policy group keep their values
+  for (const [group, values] of Object.entries(updates)) {
+    for (const [field, value] of Object.entries(values || {})) {
+      $set[`${group}.${field}`] = value;
+    }
+  }
+
+  await PlatformSettings.updateOne({ key: SETTINGS_KEY }, { $set }, { upsert: true });
+  settingsCache.clear();
+  return getPlatformSettings();
+}
+
+export type UnverifiedAction = keyof IUnverifiedAccountPolicy;
+
+/**
+ * Check whether a user may perform an action under the unverified-account policy
+ * Verified users and admins are always allowed.
+ */
+export async function isAllowedForUnverified(
+  userId: string,
+  role: string | undefined,
+  action: UnverifiedAction
+): Promise<boolean> {
+  if (role === 'admin') {
+    return true;
+  }
+
+  const settings = await getPlatformSettings();
+  if (settings.unverifiedAccountPolicy[action]) {
+    return true;
+  }
+
+  const user = await User.findById(userId).select('auth.emailVerified').lean();
+  return !!user?.auth?.emailVerified;
+}
+
+/**
+ * Check whether a user must enroll in MFA before using admin features
+ */
+export async function isMfaEnrollmentRequired(role: string | undefined, mfaEnabled: boolean): Promise<boolean> {
+  if (role !== 'admin' || mfaEnabled) {
+    return false;
+  }
+  const settings = await getPlatformSettings();
+  return settings.mfaPolicy.requireForAdmins;
+}
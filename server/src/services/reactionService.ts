@@ -0,0 +1,89 @@
+import { Article, IEngagement } from '../models/Article.js';
+import { Reaction, ReactionType, REACTION_TYPES } from '../models/Reaction.js';
+
+/**
+ * Reaction Service
+ * Per-user reactions on nuggets with counters kept on Article.engagement
+ *
+ * Idempotency comes from the unique (userId, articleId, type) index: a counter
+ * only moves when a reaction document was actually inserted or deleted, so
+ * repeated or concurrent requests never double count.
+ */
+
+const COUNTER_FIELDS: Record<ReactionType, string> = {
+  like: 'engagement.likes',
+  insightful: 'engagement.reactions.insightful',
+  celebrate: 'engagement.reactions.celebrate',
+  curious: 'engagement.reactions.curious'
+};
+
+export function isReactionType(value: unknown): value is ReactionType {
+  return typeof value === 'string' && (REACTION_TYPES as readonly string[]).includes(value);
+}
+
+async function getEngagement(articleId: string): Promise<IEngagement | undefined> {
+  const article = await Article.findById(articleId).select('engagement').lean();
+  return article?.engagement;
+}
+
+/**
+ * Add a reaction (no-op if the user already reacted with this type)
+ */
+export async function addReaction(userId: string, articleId: string, type: ReactionType): Promise<IEngagement | undefined> {
+  let inserted = false;
+  try {
+    const result = await Reaction.updateOne(
+      { userId, articleId, type },
+      { $setOnInsert: { createdAt: new Date().toISOString() } },
+      { upsert: true }
+    );
+    inserted = result.upsertedCount === 1;
+  } catch (error: any) {
+    // Concurrent upsert lost the race on the unique index: the reaction exists
+    if (error?.code !== 11000) throw error;
+  }
+
+  if (inserted) {
+    await Article.updateOne({ _id: articleId }, { $inc: { [COUNTER_FIELDS[type]]: 1 } });
+  }
+  return getEngagement(articleId);
+}
+
+/**
+ * Remove a reaction (no-op if the user has not reacted with this type)
+ */
+export async function removeReaction(userId: string, articleId: string, type: ReactionType): Promise<IEngagement | undefined> {
+  const result = await Reaction.deleteOne({ userId, articleId, type });
+  if (result.deletedCount === 1) {
+    const field = COUNTER_FIELDS[type];
+    // Guard keeps legacy/seeded counters from going negative
+    await Article.updateOne({ _id: articleId, [field]: { $gt: 0 } }, { $inc: { [field]: -1 } });
+  }
+  return getEngagement(articleId);
+}
+
+/**
+ * Reactions of one user on a set of nuggets, keyed by article id
+ */
+export async function getViewerReactions(userId: string, articleIds: string[]): Promise<Map<string, ReactionType[]>> {
+  const byArticle = new Map<string, ReactionType[]>();
+  if (articleIds.length === 0) return byArticle;
+
+  const reactions = await Reaction.find({ userId, articleId: { $in: articleIds } })
+    .select('articleId type')
+    .lean();
+  for (const reaction of reactions) {
+    const list = byArticle.get(reaction.articleId) || [];
+    list.push(reaction.type);
+    byArticle.set(reaction.articleId, list);
+  }
+  return byArticle;
+}
+
+/**
+ * Remove all reactions of a deleted nugget
+ */
+export async function deleteReactionsForArticle(articleId: string): Promise<number> {
+  const result = await Reaction.deleteMany({ articleId });
+  return result.deletedCount;
+}
@@ -0,0 +1,114 @@
+import type { StorageProvider, StorageUploadOptions, UploadResult } from './cloudinaryService.js';
+import { buildStorageKey, getImageDimensions, sanitizeFolderPath } from './cloudinaryService.js';
+import { getLogger } from '../utils/logger.js';
+import { encodeRfc3986, sha256Hex, signS3Request } from '../utils/storageSigning.js';
+
+/**
+ * S3-compatible storage provider
+ * Works with AWS S3 and S3-compatible servers (MinIO, R2, Wasabi, ...).
+ *
+ * Requests are signed with AWS Signature Version 4 directly so no SDK is
+ * needed. Objects are expected to be publicly readable through S3_PUBLIC_URL
+ * (a CDN or bucket website) or the bucket URL itself.
+ */
+
+export interface S3Config {
+  endpoint: string; // e.g. https://s3.eu-west-1.amazonaws.com or http://localhost:9000
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicUrl?: string; // Base URL objects are served from; defaults to the bucket URL
+  forcePathStyle?: boolean; // Required by most self-hosted servers
+}
+
+const EMPTY_PAYLOAD_HASH = sha256Hex('');
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+// fetch derives Host from the URL and refuses to let callers set it
+function withoutHost(headers: Record<string, string>): Record<string, string> {
+  const { host: _host, ...rest } = headers;
+  return rest;
+}
+
+export class S3StorageProvider implements StorageProvider {
+  readonly name = 's3' as const;
+
+  constructor(private config: S3Config) {}
+
+  isConfigured(): boolean {
+    const { endpoint, bucket, accessKeyId, secretAccessKey } = this.config;
+    return !!(endpoint && bucket && accessKeyId && secretAccessKey);
+  }
+
+  /**
+   * URL used for API requests on an object
+   */
+  getObjectUrl(key: string): URL {
+    const endpoint = new URL(this.config.endpoint);
+    const basePath = endpoint.pathname.replace(/\/+$/, '');
+    if (this.config.forcePathStyle) {
+      return new URL(`${endpoint.protocol}//${endpoint.host}${basePath}/${encodeRfc3986(this.config.bucket)}/${encodeKey(key)}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}${basePath}/${encodeKey(key)}`);
+  }
+
+  getPublicUrl(key: string): string {
+    if (this.config.publicUrl) {
+      return `${this.config.publicUrl.replace(/\/+$/, '')}/${encodeKey(key)}`;
+    }
+    return this.getObjectUrl(key).toString();
+  }
+
+  async upload(file: Buffer, options: StorageUploadOptions): Promise<UploadResult> {
+    const { key, format } = buildStorageKey(sanitizeFolderPath(options.folder), options.mimeType, options.originalName);
+    const url = this.getObjectUrl(key);
+
+    const headers = signS3Request({
+      method: 'PUT',
+      url,
+      headers: { 'content-type': options.mimeType },
+      payloadHash: sha256Hex(file),
+    }, this.config);
+
+    const response = await fetch(url, { method: 'PUT', headers: withoutHost(headers), body: new Uint8Array(file) });
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`S3 upload failed with status ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`);
+    }
+
+    const resourceType = options.resourceType && options.resourceType !== 'auto' ? options.resourceType : 'raw';
+    const dimensions = resourceType === 'image' ? getImageDimensions(file) : null;
+
+    return {
+      publicId: key,
+      secureUrl: this.getPublicUrl(key),
+      resourceType,
+      format,
+      width: dimensions?.width,
+      height: dimensions?.height,
+      bytes: file.length,
+    };
+  }
+
+  async delete(publicId: string): Promise<boolean> {
+    try {
+      const url = this.getObjectUrl(publicId);
+      const headers = signS3Request({ method: 'DELETE', url, headers: {}, payloadHash: EMPTY_PAYLOAD_HASH }, this.config);
+      const response = await fetch(url, { method: 'DELETE', headers: withoutHost(headers) });
+      // S3 answers 204 whether or not the object existed
+      if (response.ok || response.status === 404) {
+        return true;
+      }
+      getLogger().warn({ msg: '[Storage] S3 delete returned unexpected status', service: 'storage', status: response.status, publicId });
+      return false;
+    } catch (error: any) {
+      // Best-effort deletion - log but don't throw
+      getLogger().error({ msg: '[Storage] S3 delete error', service: 'storage', publicId, error: error.message });
+      return false;
+    }
+  }
+}
@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { Session, ISession } from '../models/Session.js';
+import { getEnv } from '../config/envValidation.js';
+import { generateAccessToken } from '../utils/jwt.js';
+import { hashToken } from '../utils/authTokens.js';
+import { LRUCache } from '../utils/lruCache.js';
+import { getLogger } from '../utils/logger.js';
+
+/**
+ * Session Service
+ * Issues access/refresh token pairs and tracks login sessions server-side
+ *
+ * Refresh tokens have the form `<sessionId>.<secret>` and rotate on every use.
+ * Presenting an already-rotated token outside the grace window is treated as
+ * token theft and revokes the whole session.
+ */
+
+// A refresh that races another tab may present the token that was just rotated
+const ROTATION_GRACE_MS = 30 * 1000;
+
+// Revocation checks run on every authenticated request, so cache briefly.
+// Entries are cleared on revoke in this process; other instances catch up within the TTL.
+const activeSessionCache = new LRUCache<boolean>(10000, 30 * 1000);
+
+export type SessionRevokeReason = NonNullable<ISession['revokedReason']>;
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+export interface SessionUser {
+  _id: any;
+  role: string;
+  auth?: { email?: string };
+}
+
+export interface SessionSummary {
+  id: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export class SessionError extends Error {
+  constructor(message: string, public code: 'INVALID_REFRESH_TOKEN' | 'SESSION_REVOKED' | 'SESSION_EXPIRED') {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+function getRefreshTtlMs(): number {
+  return parseInt(getEnv().REFRESH_TOKEN_TTL_DAYS, 10) * 24 * 60 * 60 * 1000;
+}
+
+function generateRefreshSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+function getClientInfo(req: Request): { userAgent?: string; ip?: string } {
+  const userAgent = req.get('user-agent');
+  return {
+    userAgent: userAgent ? userAgent.slice(0, 512) : undefined,
+    ip: req.ip
+  };
+}
+
+function parseRefreshToken(refreshToken: string): { sessionId: string; secret: string } | null {
+  const [sessionId, secret, ...rest] = refreshToken.split('.');
+  if (!sessionId || !secret || rest.length > 0 || !/^[a-f0-9]{24}$/.test(sessionId)) {
+    return null;
+  }
+  return { sessionId, secret };
+}
+
+/**
+ * Start a new session for a freshly authenticated user
+ */
+export async function createSession(user: SessionUser, req: Request): Promise<IssuedTokens> {
+  const secret = generateRefreshSecret();
+  const session = new Session({
+    userId: user._id.toString(),
+    refreshTokenHash: hashToken(secret),
+    ...getClientInfo(req),
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + getRefreshTtlMs())
+  });
+  await session.save();
+
+  const sessionId = session._id.toString();
+  activeSessionCache.set(sessionId, true);
+
+  return {
+    accessToken: generateAccessToken(user._id.toString(), user.role, sessionId, user.auth?.email),
+    refreshToken: `${sessionId}.${secret}`,
+    sessionId
+  };
+}
+
+/**
+ * Exchange a refresh token for a new access/refresh pair
+ * The user is reloaded by the caller-supplied loader so role changes take effect on refresh.
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+  req: Request,
+  loadUser: (userId: string) => Promise<SessionUser | null>
+): Promise<IssuedTokens> {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    throw new SessionError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+  }
+
+  const session = await Session.findById(parsed.sessionId);
+  if (!session) {
+    throw new SessionError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+  }
+  if (session.revokedAt) {
+    throw new SessionError('Session has been revoked', 'SESSION_REVOKED');
+  }
+  if (session.expiresAt.getTime() <= Date.now()) {
+    throw new SessionError('Session has expired', 'SESSION_EXPIRED');
+  }
+
+  const presentedHash = hashToken(parsed.secret);
+  const isCurrent = presentedHash === session.refreshTokenHash;
+  const isPrevious = presentedHash === session.previousRefreshTokenHash;
+
+  if (!isCurrent) {
+    const withinGrace = isPrevious && session.rotatedAt &&
+      Date.now() - session.rotatedAt.getTime() <= ROTATION_GRACE_MS;
+    if (!withinGrace) {
+      if (isPrevious) {
+        // An old token was replayed: assume it leaked and kill the session
+        getLogger().warn({
+          msg: 'Refresh token reuse detected, revoking session',
+          sessionId: parsed.sessionId,
+          userId: session.userId
+        });
+        await revokeSession(parsed.sessionId, 'reuse_detected');
+        throw new SessionError('Session has been revoked', 'SESSION_REVOKED');
+      }
+      throw new SessionError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+    }
+  }
+
+  const user = await loadUser(session.userId);
+  if (!user) {
+    await revokeSession(parsed.sessionId, 'user_deleted');
+    throw new SessionError('Session has been revoked', 'SESSION_REVOKED');
+  }
+
+  // Compare-and-swap on the hash we validated so concurrent refreshes cannot both rotate
+  const secret = generateRefreshSecret();
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, refreshTokenHash: session.refreshTokenHash, revokedAt: { $exists: false } },
+    {
+      $set: {
+        refreshTokenHash: hashToken(secret),
+        previousRefreshTokenHash: session.refreshTokenHash,
+        rotatedAt: new Date(),
+        lastUsedAt: new Date(),
+        ...getClientInfo(req)
+      }
+    },
+    { new: true }
+  );
+  if (!rotated) {
+    throw new SessionError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+  }
+
+  const sessionId = rotated._id.toString();
+  return {
+    accessToken: generateAccessToken(user._id.toString(), user.role, sessionId, user.auth?.email),
+    refreshToken: `${sessionId}.${secret}`,
+    sessionId
+  };
+}
+
+/**
+ * Check that an access token's session is still usable
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const cached = activeSessionCache.get(sessionId);
+  if (cached !== null) {
+    return cached;
+  }
+
+  const session = await Session.findById(sessionId).select('revokedAt expiresAt').lean();
+  const active = !!session && !session.revokedAt && new Date(session.expiresAt).getTime() > Date.now();
+  activeSessionCache.set(sessionId, active);
+  return active;
+}
+
+/**
+ * Revoke a single session
+ * When userId is given the session must belong to that user.
+ *
+ * @returns true if a session was revoked
+ */
+export async function revokeSession(
+  sessionId: string,
+  reason: SessionRevokeReason,
+  userId?: string
+): Promise<boolean> {
+  const filter: Record<string, any> = { _id: sessionId, revokedAt: { $exists: false } };
+  if (userId) {
+    filter.userId = userId;
+  }
+
+  const result = await Session.updateOne(filter, { $set: { revokedAt: new Date(), revokedReason: reason } });
+  activeSessionCache.delete(sessionId);
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Revoke every active session of a user, optionally keeping one (e.g. the current device)
+ *
+ * @returns number of sessions revoked
+ */
+export async function revokeAllSessions(
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const filter: Record<string, any> = { userId, revokedAt: { $exists: false } };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  const sessions = await Session.find(filter).select('_id').lean();
+  if (sessions.length === 0) {
+    return 0;
+  }
+
+  const ids = sessions.map(s => s._id);
+  await Session.updateMany(
+    { _id: { $in: ids }, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  ids.forEach(id => activeSessionCache.delete(id.toString()));
+  return ids.length;
+}
+
+/**
+ * List a user's active sessions, most recently used first
+ */
+export async function listActiveSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+  const sessions = await Session.find({
+    userId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() }
+  })
+    .sort({ lastUsedAt: -1 })
+    .lean();
+
+  return sessions.map(session => ({
+    id: session._id.toString(),
+    userAgent: session.userAgent,
+    ip: session.ip,
+    createdAt: new Date(session.createdAt).toISOString(),
+    lastUsedAt: new Date(session.lastUsedAt).toISOString(),
+    expiresAt: new Date(session.expiresAt).toISOString(),
+    current: session._id.toString() === currentSessionId
+  }));
+}
@@ -0,0 +1,170 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import type { MailMessage, MailTransport } from './mailService.js';
+import { buildMimeMessage, extractAddress } from '../utils/mimeMessage.js';
+
+/**
+ * SMTP mail transport
+ * A minimal SMTP client (one connection per message) covering what relay
+ * services need: implicit TLS or STARTTLS, AUTH PLAIN, and a single
+ * recipient per message.
+ */
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (usually port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  allowInsecureAuth?: boolean; // Send AUTH on a plaintext connection (local test relays only)
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+  }
+}
+
+/**
+ * Line-oriented reply reader over a socket; replies are queued so each
+ * command can await the next one
+ */
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket, timeoutMs: number) {
+    this.attach(socket);
+    socket.setTimeout(timeoutMs, () => this.fail(new SmtpError('SMTP connection timed out')));
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      this.lines.push(line);
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.lines.map(item => item.slice(4)) };
+        this.lines = [];
+        const waiter = this.waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    for (const waiter of this.waiting.splice(0)) waiter.reject(error);
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, line.split(' ')[0]);
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  /**
+   * Switch the session to TLS after STARTTLS was accepted
+   */
+  async upgrade(host: string, timeoutMs: number): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('close');
+    const secured = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const socket = tls.connect({ socket: this.socket, servername: host }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+    this.socket = secured;
+    this.attach(secured);
+    secured.setTimeout(timeoutMs, () => this.fail(new SmtpError('SMTP connection timed out')));
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+export class SmtpMailTransport implements MailTransport {
+  name = 'smtp';
+
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const { host, user, password } = this.options;
+    const timeoutMs = this.options.timeoutMs ?? 30000;
+    const session = new SmtpSession(await connect(this.options), timeoutMs);
+
+    try {
+      await session.expect([220], 'greeting');
+      const ehlo = await session.command(`EHLO ${os.hostname()}`, [250]);
+      let encrypted = this.options.secure;
+
+      if (!encrypted && ehlo.lines.some(line => line.toUpperCase().startsWith('STARTTLS'))) {
+        await session.command('STARTTLS', [220]);
+        await session.upgrade(host, timeoutMs);
+        encrypted = true;
+        await session.command(`EHLO ${os.hostname()}`, [250]);
+      }
+
+      if (user && password) {
+        if (!encrypted && !this.options.allowInsecureAuth) {
+          throw new SmtpError('SMTP server did not offer STARTTLS; refusing to send credentials over an unencrypted connection');
+        }
+        const credentials = Buffer.from(`\u0000${user}\u0000${password}`, 'utf8').toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await session.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+      await session.command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+      await session.command('DATA', [354]);
+      await session.command(`${buildMimeMessage(message)}\r\n.`, [250]);
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+}
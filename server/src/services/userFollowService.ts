@@ -0,0 +1,67 @@
+import { UserFollow } from '../models/UserFollow.js';
+
+/**
+ * User Follow Service
+ * The follow graph between users. Counts are derived from the edges rather
+ * than stored on User, so they can never drift; the unique
+ * (followerId, followeeId) index keeps follow requests idempotent.
+ */
+
+export interface FollowStats {
+  followersCount: number;
+  followingCount: number;
+  isFollowing?: boolean; // Only present when there is a viewer other than the user
+}
+
+/**
+ * Follow a user. Returns true when a new edge was created.
+ */
+export async function followUser(followerId: string, followeeId: string): Promise<boolean> {
+  try {
+    const result = await UserFollow.updateOne(
+      { followerId, followeeId },
+      { $setOnInsert: { createdAt: new Date().toISOString() } },
+      { upsert: true }
+    );
+    return result.upsertedCount === 1;
+  } catch (error: any) {
+    // Concurrent upsert lost the race on the unique index: the edge exists
+    if (error?.code !== 11000) throw error;
+    return false;
+  }
+}
+
+/**
+ * Unfollow a user (no-op if not following)
+ */
+export async function unfollowUser(followerId: string, followeeId: string): Promise<void> {
+  await UserFollow.deleteOne({ followerId, followeeId });
+}
+
+export async function getFollowStats(userId: string, viewerId?: string): Promise<FollowStats> {
+  const [followersCount, followingCount, viewerEdge] = await Promise.all([
+    UserFollow.countDocuments({ followeeId: userId }),
+    UserFollow.countDocuments({ followerId: userId }),
+    viewerId && viewerId !== userId
+      ? UserFollow.exists({ followerId: viewerId, followeeId: userId })
+      : Promise.resolve(undefined)
+  ]);
+  const stats: FollowStats = { followersCount, followingCount };
+  if (viewerId && viewerId !== userId) stats.isFollowing = !!viewerEdge;
+  return stats;
+}
+
+/**
+ * Ids of the users a user follows (for the following feed)
+ */
+export async function getFolloweeIds(followerId: string): Promise<string[]> {
+  const edges = await UserFollow.find({ followerId }).select('followeeId').lean();
+  return edges.map(edge => edge.followeeId);
+}
+
+/**
+ * Drop every edge touching a deleted account
+ */
+export async function removeFollowEdges(userId: string): Promise<void> {
+  await UserFollow.deleteMany({ $or: [{ followerId: userId }, { followeeId: userId }] });
+}
@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import type { ZipEntryInput } from './zipArchive.js';
+
+/**
+ * Account data export format
+ * Layout of the personal data ZIP a user downloads from account settings,
+ * and the parser for importing it into another instance:
+ *
+ *   manifest.json        format, version and counts
+ *   profile.json         profile fields and preferences
+ *   nuggets.json         every nugget the user authored (source of truth on import)
+ *   nuggets/*.md         the same nuggets as Markdown with YAML front-matter
+ *   collections.json     collections the user created, entries by nugget id
+ *   bookmarks.json       bookmark folders and bookmarked nugget ids
+ *   media.json           manifest of uploaded files (URLs, not the files)
+ *
+ * Ids are the exporting instance's; the importer maps them to new ones.
+ */
+
+export const ACCOUNT_EXPORT_FORMAT = 'nuggets-account-export';
+export const ACCOUNT_EXPORT_VERSION = 1;
+
+export class AccountExportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountExportFormatError';
+  }
+}
+
+const stringList = z.array(z.string()).default([]);
+
+const profileSchema = z.object({
+  displayName: z.string(),
+  username: z.string(),
+  email: z.string().optional(),
+  bio: z.string().optional(),
+  avatarUrl: z.string().optional(),
+  avatarColor: z.string().optional(),
+  location: z.string().optional(),
+  city: z.string().optional(),
+  country: z.string().optional(),
+  website: z.string().optional(),
+  title: z.string().optional(),
+  company: z.string().optional(),
+  twitter: z.string().optional(),
+  linkedin: z.string().optional(),
+  youtube: z.string().optional(),
+  instagram: z.string().optional(),
+  facebook: z.string().optional(),
+  preferences: z.record(z.string(), z.unknown()).optional(),
+  createdAt: z.string().optional()
+});
+
+const nuggetSchema = z.object({
+  id: z.string(),
+  title: z.string().optional(),
+  excerpt: z.string().optional(),
+  content: z.string().default(''),
+  category: z.string().optional(),
+  categories: stringList,
+  tags: stringList,
+  visibility: z.enum(['public', 'private']).default('public'),
+  scheduledPublishAt: z.string().optional(),
+  publishedAt: z.string(),
+  readTime: z.number().optional(),
+  source_type: z.string().optional(),
+  media: z.record(z.string(), z.unknown()).nullable().optional(),
+  images: stringList,
+  video: z.string().optional(),
+  documents: z.array(z.record(z.string(), z.unknown())).default([]),
+  themes: stringList,
+  mediaIds: stringList,
+  created_at: z.string().optional(),
+  updated_at: z.string().optional()
+});
+
+const collectionSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  type: z.enum(['public', 'private']).default('public'),
+  createdAt: z.string().optional(),
+  sections: z.array(z.object({ id: z.string(), title: z.string(), createdAt: z.string() })).default([]),
+  entries: z.array(z.object({
+    articleId: z.string(),
+    addedAt: z.string().optional(),
+    note: z.string().optional(),
+    sectionId: z.string().optional()
+  })).default([])
+});
+
+const bookmarksSchema = z.object({
+  folders: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(1),
+    order: z.number().default(0),
+    isDefault: z.boolean().default(false)
+  })).default([]),
+  bookmarks: z.array(z.object({
+    nuggetId: z.string(),
+    createdAt: z.string().optional(),
+    folderIds: stringList
+  })).default([])
+});
+
+const mediaSchema = z.object({
+  id: z.string(),
+  purpose: z.string(),
+  url: z.string(),
+  provider: z.string(),
+  resourceType: z.string(),
+  format: z.string().optional(),
+  mimeType: z.string(),
+  size: z.number(),
+  originalName: z.string().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  createdAt: z.string().optional(),
+  usedBy: z.object({ entityType: z.string(), entityId: z.string() }).optional()
+});
+
+const manifestSchema = z.object({
+  format: z.literal(ACCOUNT_EXPORT_FORMAT),
+  version: z.number().int(),
+  exportedAt: z.string()
+});
+
+export type ExportedProfile = z.infer<typeof profileSchema>;
+export type ExportedNugget = z.infer<typeof nuggetSchema>;
+export type ExportedCollection = z.infer<typeof collectionSchema>;
+export type ExportedBookmarks = z.infer<typeof bookmarksSchema>;
+export type ExportedMedia = z.infer<typeof mediaSchema>;
+
+export interface AccountExportData {
+  exportedAt: string;
+  profile: ExportedProfile;
+  nuggets: ExportedNugget[];
+  collections: ExportedCollection[];
+  bookmarks: ExportedBookmarks;
+  media: ExportedMedia[];
+}
+
+export interface AccountExportCounts {
+  nuggets: number;
+  collections: number;
+  bookmarkFolders: number;
+  bookmarks: number;
+  media: number;
+}
+
+export function countAccountExport(data: AccountExportData): AccountExportCounts {
+  return {
+    nuggets: data.nuggets.length,
+    collections: data.collections.length,
+    bookmarkFolders: data.bookmarks.folders.length,
+    bookmarks: data.bookmarks.bookmarks.length,
+    media: data.media.length
+  };
+}
+
+const json = (value: unknown): string => `${JSON.stringify(value, null, 2)}\n`;
+
+function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+}
+
+/**
+ * File name for a nugget's Markdown copy: date, title slug and id (unique)
+ */
+export function getNuggetMarkdownPath(nugget: ExportedNugget): string {
+  const date = /^\d{4}-\d{2}-\d{2}/.test(nugget.publishedAt) ? nugget.publishedAt.slice(0, 10) : 'undated';
+  const slug = slugify(nugget.title || '') || 'nugget';
+  return `nuggets/${date}-${slug}-${nugget.id}.md`;
+}
+
+/**
+ * Markdown with YAML front-matter. Values are written as JSON, which YAML
+ * parsers read as quoted scalars and flow sequences.
+ */
+export function nuggetToMarkdown(nugget: ExportedNugget): string {
+  const frontMatter: Record<string, unknown> = {
+    id: nugget.id,
+    title: nugget.title,
+    url: typeof nugget.media?.url === 'string' ? nugget.media.url : undefined,
+    visibility: nugget.visibility,
+    publishedAt: nugget.publishedAt,
+    scheduledPublishAt: nugget.scheduledPublishAt,
+    categories: nugget.categories.length > 0 ? nugget.categories : undefined,
+    tags: nugget.tags.length > 0 ? nugget.tags : undefined,
+    source_type: nugget.source_type
+  };
+  const lines = Object.entries(frontMatter)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+
+  const body = [nugget.title ? `# ${nugget.title}` : '', nugget.content.trim()].filter(Boolean).join('\n\n');
+  return `---\n${lines.join('\n')}\n---\n\n${body}\n`;
+}
+
+/**
+ * Files of the export ZIP, in archive order
+ */
+export function buildAccountExportEntries(data: AccountExportData): ZipEntryInput[] {
+  const manifest = {
+    format: ACCOUNT_EXPORT_FORMAT,
+    version: ACCOUNT_EXPORT_VERSION,
+    exportedAt: data.exportedAt,
+    counts: countAccountExport(data)
+  };
+
+  return [
+    { name: 'manifest.json', data: json(manifest) },
+    { name: 'profile.json', data: json(data.profile) },
+    { name: 'nuggets.json', data: json(data.nuggets) },
+    ...data.nuggets.map(nugget => ({ name: getNuggetMarkdownPath(nugget), data: nuggetToMarkdown(nugget) })),
+    { name: 'collections.json', data: json(data.collections) },
+    { name: 'bookmarks.json', data: json(data.bookmarks) },
+    { name: 'media.json', data: json(data.media) }
+  ];
+}
+
+function readJson(files: Map<string, Buffer>, name: string, required: boolean): unknown {
+  const file = files.get(name);
+  if (!file) {
+    if (required) throw new AccountExportFormatError(`Missing ${name}`);
+    return undefined;
+  }
+  try {
+    return JSON.parse(file.toString('utf8'));
+  } catch {
+    throw new AccountExportFormatError(`${name} is not valid JSON`);
+  }
+}
+
+function parseWith<T>(schema: z.ZodType<T>, value: unknown, name: string): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue?.path.map(String).join('.');
+    throw new AccountExportFormatError(`${name}: ${path ? `${path}: ` : ''}${issue?.message || 'invalid'}`);
+  }
+  return result.data;
+}
+
+/**
+ * Read an export ZIP's files back into data. Only the JSON files are used;
+ * optional sections may be missing. Throws AccountExportFormatError.
+ */
+export function parseAccountExport(files: Map<string, Buffer>): AccountExportData {
+  const manifest = parseWith(manifestSchema, readJson(files, 'manifest.json', true), 'manifest.json');
+  if (manifest.version > ACCOUNT_EXPORT_VERSION) {
+    throw new AccountExportFormatError(`Export version ${manifest.version} is newer than this server supports`);
+  }
+
+  return {
+    exportedAt: manifest.exportedAt,
+    profile: parseWith(profileSchema, readJson(files, 'profile.json', true), 'profile.json'),
+    nuggets: parseWith(z.array(nuggetSchema), readJson(files, 'nuggets.json', true), 'nuggets.json'),
+    collections: parseWith(z.array(collectionSchema), readJson(files, 'collections.json', false) ?? [], 'collections.json'),
+    bookmarks: parseWith(bookmarksSchema, readJson(files, 'bookmarks.json', false) ?? {}, 'bookmarks.json'),
+    media: parseWith(z.array(mediaSchema), readJson(files, 'media.json', false) ?? [], 'media.json')
+  };
+}
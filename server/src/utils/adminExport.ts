@@ -0,0 +1,68 @@
+/**
+ * Admin data exports
+ * Column sets and row formatting for /api/admin/exports; the service
+ * streams rows through these. Text cells starting with =, +, -, @, tab or
+ * carriage return are prefixed with an apostrophe so spreadsheets do not run
+ * them as formulas (CSV injection).
+ */
+
+export type AdminExportEntity = 'users' | 'nuggets';
+export type AdminExportFormat = 'csv' | 'ndjson';
+
+// Columns offered on the admin Data Export page, in file order.
+// *_count columns are derived (aggregated) and only computed when selected.
+export const ADMIN_EXPORT_COLUMNS = {
+  users: ['id', 'name', 'email', 'role', 'status', 'joinedAt', 'nuggets_count'],
+  nuggets: ['id', 'title', 'author', 'visibility', 'createdAt', 'reports_count']
+} as const satisfies Record<AdminExportEntity, readonly string[]>;
+
+export type AdminExportValue = string | number | null;
+export type AdminExportRecord = Record<string, AdminExportValue>;
+
+export const ADMIN_EXPORT_CONTENT_TYPES: Record<AdminExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8'
+};
+
+/**
+ * Keep only known columns, in the canonical order
+ */
+export function normalizeExportColumns(entity: AdminExportEntity, requested: string[]): string[] {
+  const wanted = new Set(requested.map(column => column.trim()));
+  return ADMIN_EXPORT_COLUMNS[entity].filter(column => wanted.has(column));
+}
+
+/**
+ * One CSV cell (RFC 4180). Text starting with a formula character is
+ * prefixed with an apostrophe so spreadsheets don't evaluate it.
+ */
+export function escapeCsvValue(value: AdminExportValue | undefined): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsvRow(values: Array<AdminExportValue | undefined>): string {
+  return `${values.map(escapeCsvValue).join(',')}\r\n`;
+}
+
+/**
+ * First line of the file: the CSV header row (NDJSON has none)
+ */
+export function formatExportHeader(columns: string[], format: AdminExportFormat): string {
+  return format === 'csv' ? formatCsvRow(columns) : '';
+}
+
+export function formatExportRecord(record: AdminExportRecord, columns: string[], format: AdminExportFormat): string {
+  if (format === 'csv') {
+    return formatCsvRow(columns.map(column => record[column]));
+  }
+  return `${JSON.stringify(Object.fromEntries(columns.map(column => [column, record[column] ?? null])))}\n`;
+}
+
+export function getExportFileName(entity: AdminExportEntity, format: AdminExportFormat, now: Date = new Date()): string {
+  return `${entity}-export-${now.toISOString().slice(0, 10)}.${format === 'csv' ? 'csv' : 'ndjson'}`;
+}
@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+
+/**
+ * One-time token helpers (password reset, email verification, etc.)
+ *
+ * The raw token is only ever sent to the user; the database stores a SHA-256
+ * hash so a leaked database dump cannot be replayed against the API.
+ */
+
+export interface OneTimeToken {
+  token: string; // Raw value to embed in the emailed link
+  tokenHash: string; // Value to persist
+  expiresAt: string; // ISO Date
+}
+
+/**
+ * Hash a raw token for storage or lookup
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generate a random URL-safe token with its hash and expiry
+ *
+ * @param ttlMinutes - Minutes until the token expires
+ */
+export function generateOneTimeToken(ttlMinutes: number): OneTimeToken {
+  const token = crypto.randomBytes(32).toString('hex');
+  return {
+    token,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000).toISOString(),
+  };
+}
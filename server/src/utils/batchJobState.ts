@@ -0,0 +1,98 @@
+/**
+ * Batch job state
+ * A job is queued until a worker claims it, running while it holds the
+ * lease (lockedUntil; an expired lease lets another worker take over), and
+ * completed or cancelled at the end. Rows go pending -> processing -> success,
+ * or back to pending after a failure. Retries wait 30s, doubling up to 10
+ * minutes, and a row fails for good (error) after BATCH_JOB_MAX_ATTEMPTS
+ * attempts or on an error a retry cannot fix. The worker in
+ * services/batchJobService.ts applies these rules to the stored job.
+ */
+
+export type BatchJobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+export type BatchJobRowStatus = 'pending' | 'processing' | 'success' | 'error' | 'cancelled';
+
+export interface BatchJobRowState {
+  status: BatchJobRowStatus;
+  attempts: number;
+  nextAttemptAt?: string | null;
+  errorMessage?: string | null;
+}
+
+export interface BatchJobSummary {
+  total: number;
+  pending: number; // Waiting for a (first or retry) attempt, including the row in progress
+  success: number;
+  error: number;
+  cancelled: number;
+  done: number; // Rows that reached a final status
+}
+
+// Attempts per row before it is marked as failed
+export const BATCH_JOB_MAX_ATTEMPTS = 4;
+// First retry waits this long, doubling per attempt up to the cap
+export const BATCH_JOB_RETRY_BASE_MS = 30 * 1000;
+export const BATCH_JOB_RETRY_MAX_MS = 10 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after `attempts` failed ones
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(BATCH_JOB_RETRY_MAX_MS, BATCH_JOB_RETRY_BASE_MS * Math.pow(2, exponent));
+}
+
+/**
+ * A pending row is due once its backoff (if any) has elapsed
+ */
+export function isRowDue(row: BatchJobRowState, now: Date): boolean {
+  if (row.status !== 'pending') return false;
+  if (!row.nextAttemptAt) return true;
+  return new Date(row.nextAttemptAt).getTime() <= now.getTime();
+}
+
+/**
+ * Row state after a failed attempt: back to pending with a backoff while
+ * attempts remain, otherwise a final error. Errors that cannot succeed on a
+ * retry (e.g. invalid data) pass `retryable: false` and fail right away.
+ */
+export function getRowStateAfterFailure(
+  row: BatchJobRowState,
+  errorMessage: string,
+  now: Date,
+  retryable: boolean = true
+): BatchJobRowState {
+  const attempts = row.attempts + 1;
+  if (!retryable || attempts >= BATCH_JOB_MAX_ATTEMPTS) {
+    return { status: 'error', attempts, nextAttemptAt: null, errorMessage };
+  }
+  return {
+    status: 'pending',
+    attempts,
+    nextAttemptAt: new Date(now.getTime() + getRetryDelayMs(attempts)).toISOString(),
+    errorMessage
+  };
+}
+
+export function summarizeBatchJob(rows: BatchJobRowState[]): BatchJobSummary {
+  const summary: BatchJobSummary = { total: rows.length, pending: 0, success: 0, error: 0, cancelled: 0, done: 0 };
+  for (const row of rows) {
+    if (row.status === 'pending' || row.status === 'processing') summary.pending++;
+    else summary[row.status]++;
+  }
+  summary.done = summary.total - summary.pending;
+  return summary;
+}
+
+/**
+ * Earliest moment any pending row can be attempted, or null when none wait
+ */
+export function getNextAttemptAt(rows: BatchJobRowState[]): string | null {
+  let next: string | null = null;
+  for (const row of rows) {
+    if (row.status !== 'pending') continue;
+    const at = row.nextAttemptAt || new Date(0).toISOString();
+    if (next === null || at < next) next = at;
+  }
+  return next;
+}
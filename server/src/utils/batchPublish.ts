@@ -0,0 +1,85 @@
+/**
+ * Batch publish planning
+ * Decides, per requested nugget, what a batch publish/schedule request may do:
+ * only the author (or an admin) can change a nugget, and only private nuggets
+ * can be published or scheduled. The controller applies the plan.
+ */
+
+export type BatchPublishAction =
+  | { type: 'publish' } // Make public now
+  | { type: 'schedule'; at: string } // Make public at `at` (ISO)
+  | { type: 'unschedule' }; // Drop a pending schedule, stay private
+
+export type BatchPublishOutcome =
+  | 'published'
+  | 'scheduled'
+  | 'unscheduled'
+  | 'already_public'
+  | 'not_found'
+  | 'forbidden';
+
+export interface BatchPublishCandidate {
+  id: string;
+  authorId: string;
+  visibility?: 'public' | 'private' | null; // Missing means public (model default)
+}
+
+export interface BatchPublishActor {
+  userId: string;
+  isAdmin: boolean;
+}
+
+export interface BatchPublishResult {
+  id: string;
+  outcome: BatchPublishOutcome;
+  scheduledPublishAt?: string | null; // For scheduled/unscheduled rows
+}
+
+// Schedules further out than this are almost certainly typos
+export const MAX_SCHEDULE_AHEAD_DAYS = 365;
+
+const OUTCOME_FOR_ACTION: Record<BatchPublishAction['type'], BatchPublishOutcome> = {
+  publish: 'published',
+  schedule: 'scheduled',
+  unschedule: 'unscheduled'
+};
+
+/**
+ * One result per distinct id, in request order. Ids missing from
+ * `articlesById` (unknown or malformed) are reported as not found.
+ */
+export function planBatchPublish(
+  ids: string[],
+  articlesById: Map<string, BatchPublishCandidate>,
+  actor: BatchPublishActor,
+  action: BatchPublishAction
+): BatchPublishResult[] {
+  return Array.from(new Set(ids)).map(id => {
+    const article = articlesById.get(id);
+    if (!article) return { id, outcome: 'not_found' };
+    if (!actor.isAdmin && article.authorId !== actor.userId) return { id, outcome: 'forbidden' };
+    if ((article.visibility ?? 'public') === 'public') return { id, outcome: 'already_public' };
+
+    const outcome = OUTCOME_FOR_ACTION[action.type];
+    if (action.type === 'schedule') return { id, outcome, scheduledPublishAt: action.at };
+    if (action.type === 'unschedule') return { id, outcome, scheduledPublishAt: null };
+    return { id, outcome };
+  });
+}
+
+/**
+ * Validate a requested publish time: a real date, in the future, and no
+ * more than MAX_SCHEDULE_AHEAD_DAYS out. Returns the ISO string or an error.
+ */
+export function parseScheduledPublishAt(
+  value: string,
+  now: Date = new Date()
+): { at: string } | { error: string } {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return { error: 'Invalid date format' };
+  if (date.getTime() <= now.getTime()) return { error: 'Scheduled time must be in the future' };
+  if (date.getTime() > now.getTime() + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+    return { error: `Scheduled time must be within ${MAX_SCHEDULE_AHEAD_DAYS} days` };
+  }
+  return { at: date.toISOString() };
+}
@@ -1,6 +1,7 @@
 import { BookmarkFolder } from '../models/BookmarkFolder.js';
 import { Bookmark } from '../models/Bookmark.js';
 import { BookmarkFolderLink } from '../models/BookmarkFolderLink.js';
+import { createExactMatchRegex } from './escapeRegExp.js';
 
 /**
  * Ensure default "General" folder exists for a user
@@ -103,3 +104,47 @@ export async function ensureBookmarkInGeneralFolder(bookmarkId: string, userId:
   }
 }
 
+/**
+ * Bookmark a nugget into the user's folder with this name (case-insensitive),
+ * creating the folder at the end of the list if needed. Used by imports that
+ * carry a folder per item. Idempotent.
+ */
+export async function addNuggetToNamedFolder(userId: string, nuggetId: string, folderName: string): Promise<string> {
+  const name = folderName.trim();
+  // SECURITY: createExactMatchRegex escapes user input to prevent ReDoS
+  let folder = await BookmarkFolder.findOne({ userId, name: { $regex: createExactMatchRegex(name) } });
+
+  if (!folder) {
+    const maxOrderFolder = await BookmarkFolder.findOne({ userId }).sort({ order: -1 });
+    try {
+      folder = await BookmarkFolder.create({
+        userId,
+        name,
+        order: (maxOrderFolder?.order ?? -1) + 1,
+        isDefault: false,
+        createdAt: new Date().toISOString()
+      });
+    } catch (error: any) {
+      // Created concurrently by another import row
+      if (error.code !== 11000) throw error;
+      folder = await BookmarkFolder.findOne({ userId, name: { $regex: createExactMatchRegex(name) } });
+      if (!folder) throw error;
+    }
+  }
+
+  const folderId = folder._id.toString();
+  const bookmarkId = await getOrCreateBookmark(userId, nuggetId);
+  try {
+    await BookmarkFolderLink.create({
+      userId,
+      bookmarkId,
+      folderId,
+      createdAt: new Date().toISOString()
+    });
+  } catch (error: any) {
+    // Ignore duplicate key errors (already in this folder)
+    if (error.code !== 11000) throw error;
+  }
+
+  return folderId;
+}
@@ -0,0 +1,25 @@
+/**
+ * Bot detection for engagement tracking
+ *
+ * Deliberately simple: user-agent heuristics only. Crawlers, link preview
+ * fetchers, headless browsers and HTTP libraries identify themselves in the
+ * user agent; requests without one are treated as automated too.
+ */
+
+const BOT_PATTERNS: RegExp[] = [
+  /bot\b|bot\/|crawler|spider|crawling|slurp|archiver|scraper/i,
+  /facebookexternalhit|facebookcatalog|embedly|quora link preview|outbrain|vkshare|w3c_validator/i,
+  /whatsapp|telegrambot|discordbot|slackbot|skypeuripreview|linkedinbot|twitterbot|applebot|redditbot/i,
+  /headlesschrome|phantomjs|puppeteer|playwright|selenium|lighthouse|pagespeed|pingdom|uptimerobot|statuscake/i,
+  /curl\/|wget\/|python-requests|python-urllib|aiohttp|go-http-client|java\/|okhttp|axios\/|node-fetch|undici|libwww-perl|httpclient/i
+];
+
+/**
+ * True when the user agent is missing or looks automated
+ */
+export function isLikelyBot(userAgent: string | undefined | null): boolean {
+  if (!userAgent || userAgent.trim().length < 10) {
+    return true;
+  }
+  return BOT_PATTERNS.some(pattern => pattern.test(userAgent));
+}
@@ -0,0 +1,89 @@
+/**
+ * Collection ordering helpers
+ * Entries are stored as one ordered array; sections are headings that group
+ * entries by `sectionId`. Display order is: entries without a section first,
+ * then each section in `sections` order, each group keeping array order.
+ * There are no stored positions: a move splices the entry into the array
+ * next to its new neighbours, so every index shifts and nothing needs
+ * renumbering.
+ */
+
+export interface OrderableEntry {
+  articleId: string;
+  sectionId?: string | null;
+}
+
+export interface OrderableSection {
+  id: string;
+}
+
+export interface EntryMove {
+  articleId: string;
+  sectionId: string | null; // Target section; null for the unsectioned group
+  index: number; // Position within the target group after the move
+}
+
+export class OrderingError extends Error {}
+
+/**
+ * Return entries with one entry moved into a group at a position.
+ * Throws OrderingError for unknown entries or sections.
+ */
+export function moveEntry<T extends OrderableEntry>(
+  entries: T[],
+  sections: OrderableSection[],
+  move: EntryMove
+): T[] {
+  const entry = entries.find(item => item.articleId === move.articleId);
+  if (!entry) {
+    throw new OrderingError('Entry not found in collection');
+  }
+  if (move.sectionId && !sections.some(section => section.id === move.sectionId)) {
+    throw new OrderingError('Section not found in collection');
+  }
+
+  const moved = { ...entry, sectionId: move.sectionId ?? undefined };
+  const remaining = entries.filter(item => item.articleId !== move.articleId);
+  const group = remaining.filter(item => (item.sectionId || null) === move.sectionId);
+  const index = Math.max(0, Math.min(Math.floor(move.index), group.length));
+
+  let insertAt: number;
+  if (index < group.length) {
+    insertAt = remaining.indexOf(group[index]);
+  } else if (group.length > 0) {
+    insertAt = remaining.indexOf(group[group.length - 1]) + 1;
+  } else {
+    insertAt = remaining.length;
+  }
+
+  return [...remaining.slice(0, insertAt), moved, ...remaining.slice(insertAt)];
+}
+
+/**
+ * Return sections with one section moved to a position
+ */
+export function moveSection<T extends OrderableSection>(sections: T[], sectionId: string, index: number): T[] {
+  const section = sections.find(item => item.id === sectionId);
+  if (!section) {
+    throw new OrderingError('Section not found in collection');
+  }
+  const remaining = sections.filter(item => item.id !== sectionId);
+  const insertAt = Math.max(0, Math.min(Math.floor(index), remaining.length));
+  return [...remaining.slice(0, insertAt), section, ...remaining.slice(insertAt)];
+}
+
+/**
+ * Entries grouped in display order; unknown section ids fall back to the
+ * unsectioned group so entries never disappear
+ */
+export function groupEntriesBySection<T extends OrderableEntry, S extends OrderableSection>(
+  entries: T[],
+  sections: S[]
+): Array<{ section: S | null; entries: T[] }> {
+  const known = new Set(sections.map(section => section.id));
+  const groupOf = (entry: T) => (entry.sectionId && known.has(entry.sectionId) ? entry.sectionId : null);
+  return [
+    { section: null, entries: entries.filter(entry => groupOf(entry) === null) },
+    ...sections.map(section => ({ section, entries: entries.filter(entry => groupOf(entry) === section.id) }))
+  ];
+}
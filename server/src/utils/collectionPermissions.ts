@@ -0,0 +1,92 @@
+/**
+ * Collection permission rules
+ * Each member has one role; every role can do what the ones below it can.
+ *
+ * Roles:
+ * - owner: the creator, plus any member promoted to owner. Edits settings,
+ *   manages members and invitations, deletes the collection.
+ * - editor: adds entries, removes any entry, arranges entries into order
+ *   and sections and writes curator notes.
+ * - viewer: reads private collections.
+ *
+ * Public collections stay community collections: any signed-in user may add
+ * entries and remove the ones they added themselves.
+ */
+
+export type CollectionRole = 'owner' | 'editor' | 'viewer';
+
+export const COLLECTION_ROLES: readonly CollectionRole[] = ['owner', 'editor', 'viewer'];
+
+const ROLE_RANK: Record<CollectionRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+export interface CollectionAccessSubject {
+  creatorId: string;
+  type: 'private' | 'public';
+  members?: Array<{ userId: string; role: CollectionRole }>;
+}
+
+export interface CollectionViewer {
+  userId?: string;
+  isAdmin?: boolean;
+}
+
+/**
+ * Role of a user in a collection; the creator is always an owner
+ */
+export function getCollectionRole(collection: CollectionAccessSubject, userId?: string): CollectionRole | null {
+  if (!userId) return null;
+  if (collection.creatorId === userId) return 'owner';
+  return collection.members?.find(member => member.userId === userId)?.role ?? null;
+}
+
+function hasRole(collection: CollectionAccessSubject, viewer: CollectionViewer, minimum: CollectionRole): boolean {
+  if (viewer.isAdmin) return true;
+  const role = getCollectionRole(collection, viewer.userId);
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+export function canViewCollection(collection: CollectionAccessSubject, viewer: CollectionViewer): boolean {
+  return collection.type === 'public' || hasRole(collection, viewer, 'viewer');
+}
+
+export function canAddEntries(collection: CollectionAccessSubject, viewer: CollectionViewer): boolean {
+  if (!viewer.userId) return false;
+  return collection.type === 'public' || hasRole(collection, viewer, 'editor');
+}
+
+export function canRemoveEntry(
+  collection: CollectionAccessSubject,
+  entry: { addedByUserId: string },
+  viewer: CollectionViewer
+): boolean {
+  if (!viewer.userId) return false;
+  if (hasRole(collection, viewer, 'editor')) return true;
+  // Contributors to community collections can take back their own entries
+  return collection.type === 'public' && entry.addedByUserId === viewer.userId;
+}
+
+// Ordering, sections and curator notes belong to the curators, even in
+// community collections
+export function canArrangeEntries(collection: CollectionAccessSubject, viewer: CollectionViewer): boolean {
+  if (!viewer.userId) return false;
+  return hasRole(collection, viewer, 'editor');
+}
+
+export function canManageCollection(collection: CollectionAccessSubject, viewer: CollectionViewer): boolean {
+  return hasRole(collection, viewer, 'owner');
+}
+
+/**
+ * Mongo filter limiting a collection query to what the viewer may see
+ */
+export function buildVisibilityFilter(viewer: CollectionViewer): Record<string, unknown> | null {
+  if (viewer.isAdmin) return null;
+  if (!viewer.userId) return { type: 'public' };
+  return {
+    $or: [
+      { type: 'public' },
+      { creatorId: viewer.userId },
+      { 'members.userId': viewer.userId }
+    ]
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Comment threading and author permission windows
+ *
+ * Replies nest up to MAX_COMMENT_DEPTH levels; a reply to a comment at the
+ * deepest level is stored as its sibling. Authors can edit a comment for 15
+ * minutes and delete it for 24 hours after posting; admins can always
+ * delete. Deleted comments stay in the tree as placeholders so their
+ * replies keep their place.
+ */
+
+export const MAX_COMMENT_DEPTH = 3; // Replies deeper than this attach to the deepest allowed parent
+export const MAX_COMMENT_LENGTH = 5000;
+export const COMMENT_EDIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+export const COMMENT_DELETE_WINDOW_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+export interface CommentLike {
+  id: string;
+  parentId: string | null;
+  depth: number;
+  author: { id: string; name: string; username?: string; avatarUrl?: string };
+  content: string;
+  status: 'visible' | 'deleted';
+  createdAt: string;
+  editedAt?: string;
+}
+
+export interface CommentViewer {
+  userId?: string;
+  isAdmin?: boolean;
+}
+
+export interface CommentNode extends CommentLike {
+  canEdit: boolean;
+  canDelete: boolean;
+  editableUntil?: string; // Set while the author can still edit
+  replies: CommentNode[];
+}
+
+/**
+ * Where a reply is stored: threads are capped at MAX_COMMENT_DEPTH, deeper
+ * replies become siblings of the comment they answer.
+ */
+export function resolveReplyPlacement(parent: Pick<CommentLike, 'id' | 'parentId' | 'depth'>): { parentId: string; depth: number } {
+  if (parent.depth >= MAX_COMMENT_DEPTH) {
+    return { parentId: parent.parentId ?? parent.id, depth: parent.depth };
+  }
+  return { parentId: parent.id, depth: parent.depth + 1 };
+}
+
+/**
+ * Edit/delete rights: authors inside their windows, admins always
+ */
+export function getCommentPermissions(
+  comment: Pick<CommentLike, 'author' | 'status' | 'createdAt'>,
+  viewer: CommentViewer,
+  now: Date = new Date()
+): { canEdit: boolean; canDelete: boolean; editableUntil?: string } {
+  if (comment.status === 'deleted' || !viewer.userId) {
+    return { canEdit: false, canDelete: false };
+  }
+
+  const isAuthor = comment.author.id === viewer.userId;
+  const age = now.getTime() - new Date(comment.createdAt).getTime();
+  const canEdit = isAuthor && age < COMMENT_EDIT_WINDOW_MS;
+  const canDelete = !!viewer.isAdmin || (isAuthor && age < COMMENT_DELETE_WINDOW_MS);
+
+  return {
+    canEdit,
+    canDelete,
+    editableUntil: canEdit
+      ? new Date(new Date(comment.createdAt).getTime() + COMMENT_EDIT_WINDOW_MS).toISOString()
+      : undefined
+  };
+}
+
+/**
+ * Nest a flat list of comments (oldest first within each level)
+ * Deleted placeholders keep their position but lose author and content.
+ */
+export function buildCommentTree(comments: CommentLike[], viewer: CommentViewer, now: Date = new Date()): CommentNode[] {
+  const nodes = new Map<string, CommentNode>();
+  const sorted = [...comments].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const comment of sorted) {
+    const isDeleted = comment.status === 'deleted';
+    nodes.set(comment.id, {
+      ...comment,
+      author: isDeleted ? { id: '', name: '[deleted]' } : comment.author,
+      content: isDeleted ? '' : comment.content,
+      ...getCommentPermissions(comment, viewer, now),
+      replies: []
+    });
+  }
+
+  const roots: CommentNode[] = [];
+  for (const comment of sorted) {
+    const node = nodes.get(comment.id)!;
+    const parent = comment.parentId ? nodes.get(comment.parentId) : undefined;
+    // Replies whose parent is gone are shown at the top level rather than dropped
+    (parent ? parent.replies : roots).push(node);
+  }
+  return roots;
+}
@@ -210,6 +210,7 @@ function transformArticle(doc: any): any {
     tags: rest.tags || [],
     readTime: rest.readTime || calculateReadTime(rest.content || ''),
     visibility: rest.visibility || 'public',
+    scheduledPublishAt: rest.scheduledPublishAt || undefined,
     // Preserve media and metadata fields (including masonryTitle)
     // CRITICAL: masonryTitle must flow through all layers to persist correctly
     media: rest.media ? {
@@ -0,0 +1,134 @@
+/**
+ * Email digest helpers
+ * The digest lists nuggets published in the user's interested categories
+ * and entries added to collections they follow since the last digest.
+ * A user is due once the interval has passed since their last digest (or
+ * immediately if they never had one). A digest covers everything since the
+ * previous one, but never more than DIGEST_MAX_WINDOW_DAYS back.
+ */
+
+// A user who has not had a digest for a long time gets at most this much history
+export const DIGEST_MAX_WINDOW_DAYS = 7;
+export const DIGEST_MAX_ITEMS_PER_SECTION = 10;
+
+export interface DigestItem {
+  title: string;
+  excerpt?: string;
+  url: string;
+  meta?: string; // e.g. "Jane Doe · Design"
+}
+
+export interface DigestSection {
+  heading: string;
+  items: DigestItem[];
+}
+
+export interface DigestContent {
+  recipientName: string;
+  sections: DigestSection[];
+  unsubscribeUrl: string;
+  settingsUrl: string;
+}
+
+export interface RenderedDigest {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Whether a user is due a digest: never sent, or the interval has passed
+ */
+export function isDigestDue(lastSentAt: string | undefined, now: Date, intervalHours: number): boolean {
+  if (!lastSentAt) return true;
+  return new Date(lastSentAt).getTime() <= now.getTime() - intervalHours * 60 * 60 * 1000;
+}
+
+/**
+ * Start of the period a digest covers: the last digest, clamped to the
+ * maximum window
+ */
+export function getDigestSince(lastSentAt: string | undefined, now: Date): string {
+  const windowStart = new Date(now.getTime() - DIGEST_MAX_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  return lastSentAt && lastSentAt > windowStart ? lastSentAt : windowStart;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function countItems(sections: DigestSection[]): number {
+  return sections.reduce((total, section) => total + section.items.length, 0);
+}
+
+function renderText(content: DigestContent): string {
+  const lines = [`Hi ${content.recipientName},`, '', "Here's what's new on Nuggets:"];
+  for (const section of content.sections) {
+    lines.push('', section.heading.toUpperCase(), '');
+    for (const item of section.items) {
+      lines.push(`- ${item.title}`);
+      if (item.meta) lines.push(`  ${item.meta}`);
+      if (item.excerpt) lines.push(`  ${item.excerpt}`);
+      lines.push(`  ${item.url}`);
+    }
+  }
+  lines.push(
+    '',
+    '--',
+    `Manage email settings: ${content.settingsUrl}`,
+    `Unsubscribe from this digest: ${content.unsubscribeUrl}`
+  );
+  return lines.join('\n');
+}
+
+function renderHtml(content: DigestContent): string {
+  const sections = content.sections.map(section => {
+    const items = section.items.map(item => `
+        <tr><td style="padding:12px 0;border-bottom:1px solid #f1f5f9;">
+          <a href="${escapeHtml(item.url)}" style="color:#111827;font-size:15px;font-weight:700;text-decoration:none;">${escapeHtml(item.title)}</a>
+          ${item.meta ? `<div style="color:#64748b;font-size:12px;margin-top:2px;">${escapeHtml(item.meta)}</div>` : ''}
+          ${item.excerpt ? `<div style="color:#334155;font-size:14px;margin-top:6px;">${escapeHtml(item.excerpt)}</div>` : ''}
+        </td></tr>`).join('');
+    return `
+      <h2 style="font-size:13px;letter-spacing:0.05em;text-transform:uppercase;color:#64748b;margin:28px 0 4px;">${escapeHtml(section.heading)}</h2>
+      <table role="presentation" width="100%" cellpadding="0" cellspacing="0">${items}
+      </table>`;
+  }).join('');
+
+  return `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f8fafc;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;">
+    <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:16px;padding:32px;">
+      <div style="display:inline-block;width:32px;height:32px;line-height:32px;text-align:center;background:#facc15;border-radius:8px;font-weight:700;color:#111827;">N</div>
+      <p style="color:#111827;font-size:16px;margin:24px 0 0;">Hi ${escapeHtml(content.recipientName)},</p>
+      <p style="color:#334155;font-size:14px;margin:8px 0 0;">Here's what's new on Nuggets:</p>
+      ${sections}
+      <p style="color:#94a3b8;font-size:12px;margin:32px 0 0;">
+        <a href="${escapeHtml(content.settingsUrl)}" style="color:#64748b;">Manage email settings</a>
+        &middot;
+        <a href="${escapeHtml(content.unsubscribeUrl)}" style="color:#64748b;">Unsubscribe from this digest</a>
+      </p>
+    </div>
+  </body>
+</html>`;
+}
+
+/**
+ * Subject, plain-text and HTML bodies for a digest. Empty sections are
+ * dropped; callers should not send a digest with no items.
+ */
+export function renderDigest(content: DigestContent): RenderedDigest {
+  const sections = content.sections.filter(section => section.items.length > 0);
+  const total = countItems(sections);
+  const normalized = { ...content, sections };
+  return {
+    subject: `Your Nuggets digest: ${total} new ${total === 1 ? 'nugget' : 'nuggets'}`,
+    text: renderText(normalized),
+    html: renderHtml(normalized)
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Collection entry flag rules
+ * Users flag entries they think do not belong in a collection. Once the
+ * number of distinct flags reaches the platform threshold the entry goes to
+ * the collection's review queue, and is also hidden from non-curators when
+ * the policy says so. Curators (or admins via the linked report) then keep
+ * the entry, clearing its flags, or remove it.
+ */
+
+export type EntryReviewStatus = 'queued' | 'hidden';
+
+export interface CollectionFlagPolicy {
+  threshold: number;
+  action: 'hide' | 'queue';
+}
+
+export interface FlaggableEntry {
+  flaggedBy?: string[];
+  reviewStatus?: EntryReviewStatus;
+}
+
+/**
+ * Review status an entry should enter with its current flags, or null while
+ * it is below the threshold
+ */
+export function getFlagReviewStatus(flagCount: number, policy: CollectionFlagPolicy): EntryReviewStatus | null {
+  if (flagCount < Math.max(1, policy.threshold)) return null;
+  return policy.action === 'hide' ? 'hidden' : 'queued';
+}
+
+export function isEntryAwaitingReview(entry: FlaggableEntry): boolean {
+  return entry.reviewStatus === 'queued' || entry.reviewStatus === 'hidden';
+}
+
+/**
+ * Entries a viewer may see: curators see everything so they can review,
+ * everyone else loses entries hidden by flags
+ */
+export function filterVisibleEntries<T extends FlaggableEntry>(entries: T[], isCurator: boolean): T[] {
+  return isCurator ? entries : entries.filter(entry => entry.reviewStatus !== 'hidden');
+}
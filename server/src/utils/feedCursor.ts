@@ -0,0 +1,72 @@
+import mongoose from 'mongoose';
+
+/**
+ * Opaque cursors for keyset pagination of the article feed
+ *
+ * Time-ordered sorts page on (publishedAt, _id), so nuggets published while a
+ * user scrolls never shift later pages (no duplicates, no gaps). Sorts without a
+ * stable key (title, relevance) fall back to an offset carried in the cursor.
+ * Clients must treat cursors as opaque strings.
+ */
+
+export type FeedCursor =
+  | { sort: 'latest' | 'oldest'; publishedAt: string; id: string }
+  | { sort: string; offset: number };
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid or expired cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export function isKeysetSort(sort: string): sort is 'latest' | 'oldest' {
+  return sort === 'latest' || sort === 'oldest';
+}
+
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor created for the same sort order
+ * @throws InvalidCursorError on malformed cursors or a sort mismatch
+ */
+export function decodeFeedCursor(raw: string, sort: string): FeedCursor {
+  let cursor: any;
+  try {
+    cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (!cursor || typeof cursor !== 'object' || cursor.sort !== sort) {
+    throw new InvalidCursorError();
+  }
+
+  if (isKeysetSort(sort)) {
+    if (typeof cursor.publishedAt !== 'string' || !mongoose.Types.ObjectId.isValid(cursor.id)) {
+      throw new InvalidCursorError();
+    }
+    return { sort, publishedAt: cursor.publishedAt, id: String(cursor.id) };
+  }
+
+  if (!Number.isInteger(cursor.offset) || cursor.offset < 0) {
+    throw new InvalidCursorError();
+  }
+  return { sort, offset: cursor.offset };
+}
+
+/**
+ * Query condition selecting documents strictly after the cursor position
+ */
+export function buildKeysetCondition(cursor: Extract<FeedCursor, { publishedAt: string }>): Record<string, unknown> {
+  const op = cursor.sort === 'latest' ? '$lt' : '$gt';
+  const id = new mongoose.Types.ObjectId(cursor.id);
+  return {
+    $or: [
+      { publishedAt: { [op]: cursor.publishedAt } },
+      { publishedAt: cursor.publishedAt, _id: { [op]: id } }
+    ]
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * Personalized feed scoring
+ * A nugget's score is a weighted sum of four components, each in [0, 1]:
+ * - affinity: how strongly the reader leans towards its categories, learned
+ *   from stated interests, bookmarks and collections
+ * - recency: exponential decay with a fixed half-life
+ * - follow: whether the reader follows the author
+ * - engagement: likes, reactions, bookmarks and shares on a log scale
+ *
+ * Functions take `now` explicitly, so the same inputs always rank the same way.
+ */
+
+export const FEED_WEIGHTS = {
+  affinity: 3,
+  recency: 2,
+  follow: 2.5,
+  engagement: 1
+} as const;
+
+export const FEED_RECENCY_HALF_LIFE_HOURS = 48;
+
+// Only nuggets published this recently are considered for the feed
+export const FEED_CANDIDATE_WINDOW_DAYS = 30;
+
+// Engagement at this total (or above) scores 1
+export const FEED_ENGAGEMENT_SATURATION = 100;
+
+// How much one signal adds to a category before normalization
+export const AFFINITY_SIGNAL_WEIGHTS = {
+  interest: 1,
+  bookmark: 0.6,
+  collection: 0.4
+} as const;
+
+export type AffinitySource = keyof typeof AFFINITY_SIGNAL_WEIGHTS;
+
+export interface AffinitySignals {
+  interestedCategories: string[];
+  bookmarkedCategories: string[][]; // Categories of each bookmarked nugget
+  collectedCategories: string[][]; // Categories of each nugget in the reader's or followed collections
+}
+
+export interface CategoryAffinity {
+  label: string; // Display name as first seen
+  score: number; // Normalized to [0, 1]
+  source: AffinitySource; // Strongest contributing signal, for explanations
+}
+
+export interface FeedCandidate {
+  id: string;
+  authorId: string;
+  authorName?: string;
+  categories?: string[];
+  publishedAt: string;
+  engagement?: {
+    likes?: number;
+    bookmarks?: number;
+    shares?: number;
+    reactions?: Record<string, number | undefined>;
+  };
+}
+
+export interface FeedContext {
+  affinity: Map<string, CategoryAffinity>;
+  followedAuthorIds: Set<string>;
+}
+
+export type FeedSignalType = 'followed_author' | 'category_affinity' | 'popular' | 'recent';
+
+export interface FeedSignal {
+  type: FeedSignalType;
+  label: string;
+  contribution: number; // Weighted points this signal added to the score
+}
+
+export interface FeedReason {
+  summary: string; // The strongest signal, phrased for the reader
+  signals: FeedSignal[]; // Strongest first
+}
+
+export interface ScoredFeedItem {
+  id: string;
+  score: number;
+  publishedAt: string;
+  reason: FeedReason;
+}
+
+// Components below these values are too weak to mention in the explanation
+const POPULAR_THRESHOLD = 0.3;
+const RECENT_THRESHOLD = 0.5;
+
+const canonical = (category: string) => category.trim().toLowerCase();
+
+// Round so sums of floats compare equal regardless of evaluation order
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Per-category affinity from the reader's signals. Each signal adds its
+ * weight to the categories it carries; totals are scaled so the strongest
+ * category scores 1.
+ */
+export function buildCategoryAffinity(signals: AffinitySignals): Map<string, CategoryAffinity> {
+  const totals = new Map<string, { label: string; total: number; bySource: Record<AffinitySource, number> }>();
+
+  const add = (categories: string[], source: AffinitySource) => {
+    // A nugget counts once per category even if it lists it twice
+    const labels = new Map<string, string>();
+    for (const category of categories) {
+      const key = canonical(category || '');
+      if (key && !labels.has(key)) labels.set(key, category.trim());
+    }
+    for (const [key, label] of labels) {
+      const entry = totals.get(key) || { label, total: 0, bySource: { interest: 0, bookmark: 0, collection: 0 } };
+      entry.total += AFFINITY_SIGNAL_WEIGHTS[source];
+      entry.bySource[source] += AFFINITY_SIGNAL_WEIGHTS[source];
+      totals.set(key, entry);
+    }
+  };
+
+  add(signals.interestedCategories, 'interest');
+  signals.bookmarkedCategories.forEach(categories => add(categories, 'bookmark'));
+  signals.collectedCategories.forEach(categories => add(categories, 'collection'));
+
+  const max = Math.max(0, ...Array.from(totals.values(), entry => entry.total));
+  const affinity = new Map<string, CategoryAffinity>();
+  for (const [key, entry] of totals) {
+    // Ties go to the more explicit signal (declaration order above)
+    const source = (Object.keys(entry.bySource) as AffinitySource[])
+      .reduce((best, candidate) => entry.bySource[candidate] > entry.bySource[best] ? candidate : best);
+    affinity.set(key, { label: entry.label, score: round(entry.total / max), source });
+  }
+  return affinity;
+}
+
+/**
+ * 1 at publication, halving every FEED_RECENCY_HALF_LIFE_HOURS.
+ * Future dates (clock skew) count as brand new.
+ */
+export function getRecencyScore(publishedAt: string, now: Date): number {
+  const ageHours = Math.max(0, (now.getTime() - new Date(publishedAt).getTime()) / (60 * 60 * 1000));
+  if (!Number.isFinite(ageHours)) return 0;
+  return round(Math.pow(0.5, ageHours / FEED_RECENCY_HALF_LIFE_HOURS));
+}
+
+export function getEngagementScore(engagement: FeedCandidate['engagement']): number {
+  if (!engagement) return 0;
+  const reactions = Object.values(engagement.reactions || {}).reduce<number>((sum, count) => sum + (count || 0), 0);
+  // Bookmarks and shares take more intent than a tap, so they weigh double
+  const total = (engagement.likes || 0) + reactions + 2 * (engagement.bookmarks || 0) + 2 * (engagement.shares || 0);
+  if (total <= 0) return 0;
+  return round(Math.min(1, Math.log1p(total) / Math.log1p(FEED_ENGAGEMENT_SATURATION)));
+}
+
+function describeAffinity(affinity: CategoryAffinity): string {
+  switch (affinity.source) {
+    case 'interest': return `You're interested in ${affinity.label}`;
+    case 'bookmark': return `You often bookmark ${affinity.label}`;
+    case 'collection': return `You collect nuggets about ${affinity.label}`;
+  }
+}
+
+export function scoreFeedItem(candidate: FeedCandidate, context: FeedContext, now: Date): ScoredFeedItem {
+  // Strongest category match; ties keep the first listed category
+  let topAffinity: CategoryAffinity | null = null;
+  for (const category of candidate.categories || []) {
+    const affinity = context.affinity.get(canonical(category));
+    if (affinity && (!topAffinity || affinity.score > topAffinity.score)) topAffinity = affinity;
+  }
+
+  const isFollowed = context.followedAuthorIds.has(candidate.authorId);
+  const components = {
+    affinity: topAffinity?.score ?? 0,
+    recency: getRecencyScore(candidate.publishedAt, now),
+    follow: isFollowed ? 1 : 0,
+    engagement: getEngagementScore(candidate.engagement)
+  };
+
+  const signals: FeedSignal[] = [];
+  if (isFollowed) {
+    signals.push({
+      type: 'followed_author',
+      label: candidate.authorName ? `You follow ${candidate.authorName}` : 'You follow the author',
+      contribution: round(FEED_WEIGHTS.follow * components.follow)
+    });
+  }
+  if (topAffinity) {
+    signals.push({
+      type: 'category_affinity',
+      label: describeAffinity(topAffinity),
+      contribution: round(FEED_WEIGHTS.affinity * components.affinity)
+    });
+  }
+  if (components.engagement >= POPULAR_THRESHOLD) {
+    signals.push({ type: 'popular', label: 'Popular with readers', contribution: round(FEED_WEIGHTS.engagement * components.engagement) });
+  }
+  if (components.recency >= RECENT_THRESHOLD) {
+    signals.push({ type: 'recent', label: 'Recently published', contribution: round(FEED_WEIGHTS.recency * components.recency) });
+  }
+  // Stable sort keeps the push order above for equal contributions
+  signals.sort((a, b) => b.contribution - a.contribution);
+
+  const score = round(
+    FEED_WEIGHTS.affinity * components.affinity +
+    FEED_WEIGHTS.recency * components.recency +
+    FEED_WEIGHTS.follow * components.follow +
+    FEED_WEIGHTS.engagement * components.engagement
+  );
+
+  return {
+    id: candidate.id,
+    score,
+    publishedAt: candidate.publishedAt,
+    reason: { summary: signals[0]?.label ?? 'Recent on Nuggets', signals }
+  };
+}
+
+/**
+ * Score and order candidates: score, then newest, then id, so equal scores
+ * never reorder between requests
+ */
+export function rankFeed(candidates: FeedCandidate[], context: FeedContext, now: Date): ScoredFeedItem[] {
+  return candidates
+    .map(candidate => scoreFeedItem(candidate, context, now))
+    .sort((a, b) =>
+      b.score - a.score ||
+      (a.publishedAt < b.publishedAt ? 1 : a.publishedAt > b.publishedAt ? -1 : 0) ||
+      (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+    );
+}
+
+/**
+ * Oldest publishedAt considered for a feed computed at `asOf`
+ */
+export function getFeedCandidateWindowStart(asOf: Date): string {
+  return new Date(asOf.getTime() - FEED_CANDIDATE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * The instant a feed is computed at. Later pages pass back the first page's
+ * `asOf` so recency and the candidate set stay fixed while paging; missing,
+ * malformed or future values mean "now".
+ */
+export function resolveFeedAsOf(value: unknown, now: Date = new Date()): Date {
+  if (typeof value !== 'string' || !value) return now;
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime()) || parsed > now) return now;
+  return parsed;
+}
@@ -0,0 +1,71 @@
+/**
+ * Following feed helpers
+ * The following feed lists entries added to collections a user follows.
+ * Read state is one timestamp per user: entries added after it are unread.
+ * The feed only reaches back FOLLOWING_FEED_WINDOW_DAYS; a read marker older
+ * than that (or none) counts from the window start instead.
+ */
+
+// Entries older than this never show up as unread, so a user who has never
+// opened the feed is not greeted with every entry ever added
+export const FOLLOWING_FEED_WINDOW_DAYS = 14;
+
+/**
+ * Oldest addedAt the feed covers
+ */
+export function getFeedWindowStart(now: Date = new Date()): string {
+  return new Date(now.getTime() - FOLLOWING_FEED_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Boundary after which entries count as unread: the user's read marker,
+ * clamped to the feed window
+ */
+export function getUnreadSince(readAt: string | undefined, now: Date = new Date()): string {
+  const windowStart = getFeedWindowStart(now);
+  return readAt && readAt > windowStart ? readAt : windowStart;
+}
+
+/**
+ * Aggregation stages yielding one document per entry added to a collection
+ * the user follows after `since`. Entries the user added themselves, entries
+ * hidden by flags and entries whose article the user cannot see (private or
+ * deleted) are left out, so paging and unread counts only cover what the
+ * feed shows.
+ */
+export function buildFollowedEntriesStages(
+  userId: string,
+  since: string,
+  visibilityFilter: Record<string, unknown> | null,
+  articlesCollection: string
+): Array<Record<string, any>> {
+  return [
+    { $match: { followers: userId, ...(visibilityFilter ? { $and: [visibilityFilter] } : {}) } },
+    { $unwind: '$entries' },
+    {
+      $match: {
+        'entries.addedAt': { $gt: since },
+        'entries.addedByUserId': { $ne: userId },
+        'entries.reviewStatus': { $ne: 'hidden' }
+      }
+    },
+    {
+      $lookup: {
+        from: articlesCollection,
+        // Entries store the article id as a string; converted so the lookup uses _id
+        let: { articleId: { $convert: { input: '$entries.articleId', to: 'objectId', onError: null, onNull: null } } },
+        pipeline: [
+          {
+            $match: {
+              $expr: { $eq: ['$_id', '$$articleId'] },
+              $or: [{ visibility: 'public' }, { visibility: { $exists: false } }, { authorId: userId }]
+            }
+          },
+          { $project: { _id: 1 } }
+        ],
+        as: 'visibleArticle'
+      }
+    },
+    { $match: { visibleArticle: { $ne: [] } } }
+  ];
+}
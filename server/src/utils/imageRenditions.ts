@@ -0,0 +1,114 @@
+/**
+ * Image rendition helpers
+ * JPEG, PNG and WebP uploads get AVIF and WebP renditions at 320, 640, 960,
+ * 1280 and 1920px wide, never wider than the original. Renditions are stored
+ * under "<folder>/renditions" with ids chosen by the storage provider, and
+ * recorded with their format and size; clients get them as srcset sources.
+ */
+
+// Responsive widths generated for every processed image (never upscaled)
+export const RENDITION_WIDTHS = [320, 640, 960, 1280, 1920] as const;
+
+// Listed in order of preference; browsers pick the first <source> they support
+export const RENDITION_FORMATS = ['avif', 'webp'] as const;
+export type RenditionFormat = typeof RENDITION_FORMATS[number];
+
+// Formats the pipeline re-encodes. GIFs are stored untouched so animations survive.
+const PROCESSABLE_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+
+export interface StoredRendition {
+  publicId: string;
+  secureUrl: string;
+  format: RenditionFormat;
+  width: number;
+  height: number;
+  bytes?: number;
+}
+
+export interface ImagePlaceholder {
+  blurhash?: string;
+  dominantColor?: string; // #rrggbb
+}
+
+/**
+ * Client-facing description of a processed image
+ */
+export interface ImageVariant {
+  width?: number;
+  height?: number;
+  blurhash?: string;
+  dominantColor?: string;
+  sources: Array<{ type: string; srcSet: string }>;
+}
+
+export function isProcessableImage(mimeType: string): boolean {
+  return PROCESSABLE_IMAGE_TYPES.includes(mimeType.toLowerCase());
+}
+
+/**
+ * Display size once EXIF orientation is applied (orientations 5-8 swap the axes)
+ */
+export function getOrientedSize(width: number, height: number, orientation?: number): { width: number; height: number } {
+  return orientation && orientation >= 5 && orientation <= 8
+    ? { width: height, height: width }
+    : { width, height };
+}
+
+/**
+ * Widths to render for an image of the given width.
+ * Always includes the largest size the image can fill so srcset covers it.
+ */
+export function selectRenditionWidths(originalWidth: number): number[] {
+  if (!Number.isFinite(originalWidth) || originalWidth <= 0) {
+    return [];
+  }
+  const maxWidth = RENDITION_WIDTHS[RENDITION_WIDTHS.length - 1];
+  const widths: number[] = RENDITION_WIDTHS.filter(width => width < originalWidth);
+  widths.push(Math.min(Math.round(originalWidth), maxWidth));
+  return [...new Set(widths)];
+}
+
+export function toHexColor({ r, g, b }: { r: number; g: number; b: number }): string {
+  return '#' + [r, g, b]
+    .map(channel => Math.max(0, Math.min(255, Math.round(channel))).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * srcset string for one format, smallest first
+ */
+export function buildSrcSet(renditions: StoredRendition[], format: RenditionFormat): string {
+  return renditions
+    .filter(rendition => rendition.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map(rendition => `${rendition.secureUrl} ${rendition.width}w`)
+    .join(', ');
+}
+
+/**
+ * Build the client-facing variant for a media record, or null if it has
+ * neither renditions nor a placeholder
+ */
+export function buildImageVariant(media: {
+  width?: number;
+  height?: number;
+  renditions?: StoredRendition[];
+  placeholder?: ImagePlaceholder;
+}): ImageVariant | null {
+  const renditions = media.renditions || [];
+  if (renditions.length === 0 && !media.placeholder?.blurhash && !media.placeholder?.dominantColor) {
+    return null;
+  }
+
+  const sources = RENDITION_FORMATS
+    .map(format => ({ type: `image/${format}`, srcSet: buildSrcSet(renditions, format) }))
+    .filter(source => source.srcSet.length > 0);
+
+  return {
+    width: media.width,
+    height: media.height,
+    blurhash: media.placeholder?.blurhash,
+    dominantColor: media.placeholder?.dominantColor,
+    sources,
+  };
+}
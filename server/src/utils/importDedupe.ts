@@ -0,0 +1,80 @@
+/**
+ * Import de-duplication
+ * Bookmark exports often list the same page more than once (several folders,
+ * tracking parameters, http vs https), and re-importing a file should not
+ * recreate nuggets the user already has. URLs are compared by a normalized
+ * key rather than as typed.
+ */
+
+export type ImportUrlStatus = 'new' | 'duplicate_in_import' | 'duplicate_existing' | 'invalid';
+
+export interface ImportUrlCheck {
+  url: string;
+  normalizedUrl: string | null;
+  status: ImportUrlStatus;
+  duplicateOfIndex?: number; // duplicate_in_import: first occurrence in the request
+  articleId?: string; // duplicate_existing: the user's nugget with this URL
+}
+
+export interface ExistingNuggetUrl {
+  url: string;
+  articleId: string;
+}
+
+// Query parameters that only identify the referrer, never the page
+const TRACKING_PARAM_PATTERN = /^(utm_[a-z_]+|fbclid|gclid|dclid|msclkid|igshid|mc_cid|mc_eid|_hsenc|_hsmtp)$/i;
+
+/**
+ * Comparison key for a URL: scheme, "www.", fragment, default port,
+ * trailing slash and tracking parameters are ignored; remaining query
+ * parameters are sorted. Returns null for anything that isn't http(s).
+ */
+export function normalizeImportUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const port = url.port && url.port !== '80' && url.port !== '443' ? `:${url.port}` : '';
+  const path = url.pathname.replace(/\/+$/, '');
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAM_PATTERN.test(key))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `${host}${port}${path}${query}`;
+}
+
+/**
+ * Classify each URL of an import, in request order. The first occurrence of
+ * a URL counts; later ones point back at it. Existing nuggets take priority
+ * over in-import duplicates so a re-import reports what is already saved.
+ */
+export function checkImportUrls(urls: string[], existing: ExistingNuggetUrl[]): ImportUrlCheck[] {
+  const existingByKey = new Map<string, string>();
+  for (const item of existing) {
+    const key = normalizeImportUrl(item.url);
+    if (key && !existingByKey.has(key)) existingByKey.set(key, item.articleId);
+  }
+
+  const firstIndexByKey = new Map<string, number>();
+  return urls.map((url, index) => {
+    const normalizedUrl = normalizeImportUrl(url);
+    if (!normalizedUrl) return { url, normalizedUrl, status: 'invalid' };
+
+    const articleId = existingByKey.get(normalizedUrl);
+    if (articleId) return { url, normalizedUrl, status: 'duplicate_existing', articleId };
+
+    const firstIndex = firstIndexByKey.get(normalizedUrl);
+    if (firstIndex !== undefined) {
+      return { url, normalizedUrl, status: 'duplicate_in_import', duplicateOfIndex: firstIndex };
+    }
+    firstIndexByKey.set(normalizedUrl, index);
+    return { url, normalizedUrl, status: 'new' };
+  });
+}
@@ -9,6 +9,7 @@ export interface JWTPayload {
   userId: string;
   role: string;
   email?: string; // Optional for backward compatibility
+  sessionId?: string; // Login session (see models/Session.ts); required for access tokens
 }
 
 /**
@@ -50,6 +51,36 @@ export function generateToken(
   return jwt.sign(payload, secret, { expiresIn });
 }
 
+/**
+ * Generate a short-lived access token bound to a login session
+ * Lifetime comes from ACCESS_TOKEN_TTL (default: 15m)
+ *
+ * @param userId - User ID
+ * @param role - User role
+ * @param sessionId - Session the token belongs to
+ * @param email - Optional email
+ * @returns JWT token string
+ */
+export function generateAccessToken(
+  userId: string,
+  role: string,
+  sessionId: string,
+  email?: string
+): string {
+  const payload: JWTPayload = {
+    userId,
+    role,
+    sessionId,
+  };
+
+  if (email) {
+    payload.email = email;
+  }
+
+  const env = getEnv();
+  return jwt.sign(payload, getJwtSecret(), { expiresIn: env.ACCESS_TOKEN_TTL as any });
+}
+
 /**
  * Verify JWT token and return decoded payload
  * 
@@ -73,3 +104,34 @@ export function verifyToken(token: string): JWTPayload {
 
 
 
+
+/**
+ * Payload of the short-lived token issued between the password step and the
+ * MFA step of a login. It carries no role or session, so it can never be used
+ * as an access token.
+ */
+interface MfaChallengePayload {
+  userId: string;
+  purpose: 'mfa_challenge';
+}
+
+/**
+ * Generate an MFA challenge token (valid for 5 minutes)
+ */
+export function generateMfaChallengeToken(userId: string): string {
+  const payload: MfaChallengePayload = { userId, purpose: 'mfa_challenge' };
+  return jwt.sign(payload, getJwtSecret(), { expiresIn: '5m' });
+}
+
+/**
+ * Verify an MFA challenge token and return the user ID
+ *
+ * @throws If token is invalid, expired or not a challenge token
+ */
+export function verifyMfaChallengeToken(token: string): string {
+  const decoded = jwt.verify(token, getJwtSecret()) as Partial<MfaChallengePayload>;
+  if (decoded.purpose !== 'mfa_challenge' || !decoded.userId) {
+    throw new Error('Invalid token: not an MFA challenge');
+  }
+  return decoded.userId;
+}
@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+
+/**
+ * MIME message builder for the SMTP transport
+ * Messages are UTF-8: text/plain alone, or multipart/alternative when there
+ * is an HTML part. Non-ASCII header values become RFC 2047 encoded-words.
+ * Bodies are base64 encoded, which keeps lines short and means no line of
+ * the message can start with "." (no SMTP dot-stuffing needed).
+ */
+
+export interface MimeInput {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>;
+  date?: Date;
+  messageId?: string;
+}
+
+/**
+ * Bare address from "Name <addr>" or "addr"
+ */
+export function extractAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * RFC 2047 encoded-word for non-ASCII header values
+ */
+export function encodeHeaderValue(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, ' ');
+  if (/^[ -~]*$/.test(clean)) return clean;
+  return `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+function encodeBody(content: string): string {
+  const encoded = Buffer.from(content.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64');
+  return encoded.match(/.{1,76}/g)?.join('\r\n') ?? '';
+}
+
+function bodyPart(contentType: string, content: string): string[] {
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(content)
+  ];
+}
+
+/**
+ * Full message (headers and body) with CRLF line endings, ready for DATA.
+ * Text-only messages are sent as text/plain, otherwise multipart/alternative.
+ */
+export function buildMimeMessage(input: MimeInput): string {
+  const domain = extractAddress(input.from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${encodeHeaderValue(input.from)}`,
+    `To: ${encodeHeaderValue(input.to)}`,
+    `Subject: ${encodeHeaderValue(input.subject)}`,
+    `Date: ${(input.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${input.messageId ?? `<${crypto.randomUUID()}@${domain}>`}`,
+    'MIME-Version: 1.0',
+    ...Object.entries(input.headers ?? {}).map(([name, value]) => `${name}: ${encodeHeaderValue(value)}`)
+  ];
+
+  if (!input.html) {
+    return [...headers, ...bodyPart('text/plain', input.text)].join('\r\n');
+  }
+
+  const boundary = `=_nuggets_${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...bodyPart('text/plain', input.text),
+    `--${boundary}`,
+    ...bodyPart('text/html', input.html),
+    `--${boundary}--`
+  ].join('\r\n');
+}
@@ -0,0 +1,36 @@
+/**
+ * Notification preference rules
+ * Each notification type is governed by one switch in
+ * `preferences.notifications`. Switches missing on older accounts count as
+ * on, matching the schema defaults.
+ */
+
+export const NOTIFICATION_TYPES = [
+  'collection_entry_added',
+  'collection_follower',
+  'collection_invitation',
+  'user_follower',
+  'report_resolved',
+  'report_reviewed',
+  'feedback_reviewed'
+] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export type NotificationPreferenceKey = 'collectionActivity' | 'newFollowers' | 'moderationUpdates' | 'feedbackUpdates';
+
+export const NOTIFICATION_PREFERENCE_BY_TYPE: Record<NotificationType, NotificationPreferenceKey> = {
+  collection_entry_added: 'collectionActivity',
+  collection_invitation: 'collectionActivity',
+  collection_follower: 'newFollowers',
+  user_follower: 'newFollowers',
+  report_resolved: 'moderationUpdates',
+  report_reviewed: 'moderationUpdates',
+  feedback_reviewed: 'feedbackUpdates'
+};
+
+export function isNotificationEnabled(
+  type: NotificationType,
+  preferences?: Partial<Record<string, boolean>> | null
+): boolean {
+  return preferences?.[NOTIFICATION_PREFERENCE_BY_TYPE[type]] !== false;
+}
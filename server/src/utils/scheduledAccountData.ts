@@ -0,0 +1,74 @@
+import { runAccountDataJobs } from '../services/accountDataService.js';
+import { getLogger } from './logger.js';
+
+/**
+ * Account Data Worker
+ * Builds requested exports, restores uploaded imports and removes expired
+ * export files. Jobs left running by a previous process are picked up again
+ * once their lease expires.
+ */
+
+const POLL_INTERVAL_MS = 15 * 1000;
+
+let workerInterval: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+/**
+ * Start the account data worker
+ */
+export function startAccountDataWorker(): void {
+  const logger = getLogger();
+
+  if (workerInterval) {
+    logger.warn('[AccountData] Worker already running');
+    return;
+  }
+
+  logger.info({ msg: 'Starting account data worker', pollIntervalMs: POLL_INTERVAL_MS });
+
+  // Run immediately on start to resume interrupted jobs
+  runWorker();
+
+  workerInterval = setInterval(() => {
+    runWorker();
+  }, POLL_INTERVAL_MS);
+}
+
+/**
+ * Stop the account data worker. A job in progress is resumed after restart.
+ */
+export function stopAccountDataWorker(): void {
+  const logger = getLogger();
+
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+    logger.info({ msg: 'Stopped account data worker' });
+  }
+}
+
+/**
+ * Run one worker pass; skipped while the previous pass is still working
+ */
+async function runWorker(): Promise<void> {
+  const logger = getLogger();
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const result = await runAccountDataJobs();
+    if (result.jobs > 0 || result.expired > 0) {
+      logger.info({
+        msg: 'Account data pass completed',
+        ...result
+      });
+    }
+  } catch (error: any) {
+    logger.error({
+      msg: 'Account data pass failed',
+      error: error.message
+    });
+  } finally {
+    isRunning = false;
+  }
+}
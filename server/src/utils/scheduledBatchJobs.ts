@@ -0,0 +1,74 @@
+import { runBatchJobs } from '../services/batchJobService.js';
+import { getLogger } from './logger.js';
+
+/**
+ * Batch Job Worker
+ * Polls the persisted batch import queue; jobs left running by a previous
+ * process are picked up again once their lease expires
+ */
+
+const POLL_INTERVAL_MS = 5 * 1000;
+
+let workerInterval: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+/**
+ * Start the batch job worker
+ */
+export function startBatchJobWorker(): void {
+  const logger = getLogger();
+
+  if (workerInterval) {
+    logger.warn('[BatchJobs] Worker already running');
+    return;
+  }
+
+  logger.info({ msg: 'Starting batch job worker', pollIntervalMs: POLL_INTERVAL_MS });
+
+  // Run immediately on start to resume interrupted imports
+  runWorker();
+
+  workerInterval = setInterval(() => {
+    runWorker();
+  }, POLL_INTERVAL_MS);
+}
+
+/**
+ * Stop the batch job worker. A pass in progress finishes its current row;
+ * anything left is resumed after restart.
+ */
+export function stopBatchJobWorker(): void {
+  const logger = getLogger();
+
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+    logger.info({ msg: 'Stopped batch job worker' });
+  }
+}
+
+/**
+ * Run one worker pass; skipped while the previous pass is still working
+ */
+async function runWorker(): Promise<void> {
+  const logger = getLogger();
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const result = await runBatchJobs();
+    if (result.jobs > 0) {
+      logger.info({
+        msg: 'Batch job pass completed',
+        ...result
+      });
+    }
+  } catch (error: any) {
+    logger.error({
+      msg: 'Batch job pass failed',
+      error: error.message
+    });
+  } finally {
+    isRunning = false;
+  }
+}
@@ -0,0 +1,77 @@
+import { runDigestBatch } from '../services/digestService.js';
+import { getLogger } from './logger.js';
+
+/**
+ * Scheduled Digest Job
+ * Checks hourly for users due an email digest; each user gets at most one
+ * digest per `digestIntervalHours`
+ */
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+let digestInterval: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+/**
+ * Start scheduled digests
+ *
+ * @param digestIntervalHours - Minimum time between two digests for one user (default: 24 hours)
+ */
+export function startScheduledDigest(digestIntervalHours: number = 24): void {
+  const logger = getLogger();
+
+  if (digestInterval) {
+    logger.warn('[ScheduledDigest] Digest job already running');
+    return;
+  }
+
+  logger.info({
+    msg: 'Starting scheduled email digest',
+    digestIntervalHours
+  });
+
+  // Run immediately on start
+  runDigest(digestIntervalHours);
+
+  // Then check on interval
+  digestInterval = setInterval(() => {
+    runDigest(digestIntervalHours);
+  }, CHECK_INTERVAL_MS);
+}
+
+/**
+ * Stop scheduled digests
+ */
+export function stopScheduledDigest(): void {
+  const logger = getLogger();
+
+  if (digestInterval) {
+    clearInterval(digestInterval);
+    digestInterval = null;
+    logger.info({ msg: 'Stopped scheduled email digest' });
+  }
+}
+
+/**
+ * Run one digest pass; skipped while the previous pass is still sending
+ */
+async function runDigest(digestIntervalHours: number): Promise<void> {
+  const logger = getLogger();
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const result = await runDigestBatch(digestIntervalHours);
+    logger.info({
+      msg: 'Scheduled digest completed',
+      ...result
+    });
+  } catch (error: any) {
+    logger.error({
+      msg: 'Scheduled digest failed',
+      error: error.message
+    });
+  } finally {
+    isRunning = false;
+  }
+}
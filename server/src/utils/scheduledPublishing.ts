@@ -0,0 +1,73 @@
+import { publishScheduledNuggets } from '../services/batchService.js';
+import { getLogger } from './logger.js';
+
+/**
+ * Scheduled Publishing Job
+ * Every minute, makes public the private nuggets whose scheduledPublishAt
+ * has passed (set via POST /api/batch/publish)
+ */
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+let publishInterval: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+/**
+ * Start scheduled publishing
+ */
+export function startScheduledPublishing(): void {
+  const logger = getLogger();
+
+  if (publishInterval) {
+    logger.warn('[ScheduledPublishing] Publishing job already running');
+    return;
+  }
+
+  logger.info({ msg: 'Starting scheduled publishing', checkIntervalMs: CHECK_INTERVAL_MS });
+
+  // Run immediately on start to catch up on schedules missed while down
+  runPublishing();
+
+  publishInterval = setInterval(() => {
+    runPublishing();
+  }, CHECK_INTERVAL_MS);
+}
+
+/**
+ * Stop scheduled publishing
+ */
+export function stopScheduledPublishing(): void {
+  const logger = getLogger();
+
+  if (publishInterval) {
+    clearInterval(publishInterval);
+    publishInterval = null;
+    logger.info({ msg: 'Stopped scheduled publishing' });
+  }
+}
+
+/**
+ * Run one publishing pass; skipped while the previous pass is still running
+ */
+async function runPublishing(): Promise<void> {
+  const logger = getLogger();
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const publishedCount = await publishScheduledNuggets();
+    if (publishedCount > 0) {
+      logger.info({
+        msg: 'Scheduled publishing completed',
+        publishedCount
+      });
+    }
+  } catch (error: any) {
+    logger.error({
+      msg: 'Scheduled publishing failed',
+      error: error.message
+    });
+  } finally {
+    isRunning = false;
+  }
+}
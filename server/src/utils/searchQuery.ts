@@ -0,0 +1,213 @@
+import { escapeRegExp } from './escapeRegExp.js';
+
+/**
+ * Search query parsing and result highlighting for the nugget search
+ *
+ * Supported syntax in `q`:
+ * - plain words             react hooks
+ * - quoted phrases          "server components"
+ * - exclusions              -angular  -"class components"
+ * - operators               tag:javascript  author:jane  source:youtube.com
+ *   (operator values may be quoted: tag:"machine learning")
+ */
+
+export const SEARCH_OPERATORS = ['tag', 'author', 'source'] as const;
+export type SearchOperator = typeof SEARCH_OPERATORS[number];
+
+const MAX_QUERY_LENGTH = 500;
+const MAX_TOKENS = 20;
+const MAX_TOKEN_LENGTH = 100;
+
+const SNIPPET_LENGTH = 200;
+const SNIPPET_LEAD = 60; // Characters of context shown before the first match
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  excludedTerms: string[];
+  excludedPhrases: string[];
+  tags: string[];
+  authors: string[];
+  sources: string[];
+}
+
+export type HighlightField = 'title' | 'excerpt' | 'content';
+
+// Snippet of a matching field; ranges are [start, end) offsets of matches within `text`
+export interface SearchHighlight {
+  field: HighlightField;
+  text: string;
+  ranges: Array<[number, number]>;
+}
+
+function isSearchOperator(value: string): value is SearchOperator {
+  return (SEARCH_OPERATORS as readonly string[]).includes(value);
+}
+
+/**
+ * Split a raw query into terms, phrases, exclusions and operator filters
+ * Unknown `name:` prefixes (e.g. URLs) are treated as plain terms.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    excludedPhrases: [],
+    tags: [],
+    authors: [],
+    sources: []
+  };
+
+  const tokenPattern = /(-?)(?:([a-zA-Z]+):)?(?:"([^"]*)"?|(\S+))/g;
+  const source = input.slice(0, MAX_QUERY_LENGTH);
+  let tokenCount = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(source)) !== null && tokenCount < MAX_TOKENS) {
+    const [raw, negation, prefix, quoted, bare] = match;
+    if (!raw.trim()) continue;
+    tokenCount++;
+
+    const operator = prefix?.toLowerCase();
+    if (operator && isSearchOperator(operator)) {
+      const value = (quoted ?? bare ?? '').trim().slice(0, MAX_TOKEN_LENGTH);
+      if (!value) continue;
+      if (operator === 'tag') parsed.tags.push(value);
+      if (operator === 'author') parsed.authors.push(value.replace(/^@/, ''));
+      if (operator === 'source') parsed.sources.push(value.toLowerCase());
+      continue;
+    }
+
+    // Not an operator: keep "name:" as part of the term
+    const isPhrase = quoted !== undefined;
+    const text = ((prefix ? `${prefix}:` : '') + (quoted ?? bare ?? ''))
+      .replace(/"/g, '')
+      .trim()
+      .slice(0, MAX_TOKEN_LENGTH);
+    if (!text || text === '-') continue;
+
+    const isExcluded = negation === '-';
+    if (isPhrase && text.includes(' ')) {
+      (isExcluded ? parsed.excludedPhrases : parsed.phrases).push(text);
+    } else {
+      (isExcluded ? parsed.excludedTerms : parsed.terms).push(text);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * True when the query has words or phrases to rank by
+ */
+export function hasTextCriteria(parsed: ParsedSearchQuery): boolean {
+  return parsed.terms.length > 0 || parsed.phrases.length > 0;
+}
+
+/**
+ * Build the `$text.$search` string for MongoDB
+ * Returns an empty string when there is nothing positive to search for
+ * (MongoDB rejects text searches that only contain exclusions).
+ */
+export function buildTextSearch(parsed: ParsedSearchQuery): string {
+  if (!hasTextCriteria(parsed)) {
+    return '';
+  }
+  return [
+    ...parsed.terms,
+    ...parsed.phrases.map(phrase => `"${phrase}"`),
+    ...parsed.excludedTerms.map(term => `-${term}`),
+    ...parsed.excludedPhrases.map(phrase => `-"${phrase}"`)
+  ].join(' ');
+}
+
+/**
+ * Regex matching any searched word (as a word prefix, to roughly follow stemming) or phrase
+ */
+function buildHighlightRegex(parsed: ParsedSearchQuery): RegExp | null {
+  const patterns = [
+    ...parsed.phrases.map(phrase => escapeRegExp(phrase).replace(/\s+/g, '\\s+')),
+    ...parsed.terms.map(term => `\\b${escapeRegExp(term)}`)
+  ];
+  if (patterns.length === 0) {
+    return null;
+  }
+  // Longest first so phrases win over their own words
+  patterns.sort((a, b) => b.length - a.length);
+  return new RegExp(patterns.join('|'), 'gi');
+}
+
+/**
+ * Flatten markdown into plain text for snippets
+ */
+function toPlainText(value: string): string {
+  return value
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ') // images
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // links -> label
+    .replace(/<[^>]+>/g, ' ') // html tags
+    .replace(/[#>*_`~|]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function buildSnippet(field: HighlightField, value: string, regex: RegExp): SearchHighlight | null {
+  const text = field === 'title' ? value : toPlainText(value);
+  regex.lastIndex = 0;
+  const first = regex.exec(text);
+  if (!first) {
+    return null;
+  }
+
+  let start = 0;
+  if (text.length > SNIPPET_LENGTH && first.index > SNIPPET_LEAD) {
+    start = first.index - SNIPPET_LEAD;
+    const wordBreak = text.indexOf(' ', start);
+    if (wordBreak !== -1 && wordBreak < first.index) {
+      start = wordBreak + 1;
+    }
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const window = text.slice(start, end);
+
+  const ranges: Array<[number, number]> = [];
+  regex.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(window)) !== null) {
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    ranges.push([match.index + prefix.length, match.index + prefix.length + match[0].length]);
+  }
+
+  return { field, text: `${prefix}${window}${suffix}`, ranges };
+}
+
+/**
+ * Highlighted snippet for a search result
+ * Prefers body text (cards already show the title) and falls back to the title.
+ */
+export function buildSearchHighlight(
+  doc: { title?: string; excerpt?: string; content?: string },
+  parsed: ParsedSearchQuery
+): SearchHighlight | undefined {
+  const regex = buildHighlightRegex(parsed);
+  if (!regex) {
+    return undefined;
+  }
+
+  const fields: HighlightField[] = ['excerpt', 'content', 'title'];
+  for (const field of fields) {
+    const value = doc[field];
+    if (!value) continue;
+    const snippet = buildSnippet(field, value, regex);
+    if (snippet && snippet.ranges.length > 0) {
+      return snippet;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import { getEnv } from '../config/envValidation.js';
+
+/**
+ * Symmetric encryption for secrets stored in the database (e.g. TOTP seeds)
+ *
+ * Unlike one-time tokens these must be readable again, so they cannot be hashed.
+ * AES-256-GCM with a key derived from MFA_ENCRYPTION_KEY (or JWT_SECRET when unset).
+ * Format: base64(iv).base64(authTag).base64(ciphertext)
+ */
+
+function getKey(): Buffer {
+  const env = getEnv();
+  const material = env.MFA_ENCRYPTION_KEY || env.JWT_SECRET;
+  return crypto.createHash('sha256').update(`nuggets-secret-encryption:${material}`).digest();
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+  return [iv, authTag, ciphertext].map(part => part.toString('base64')).join('.');
+}
+
+export function decryptSecret(encrypted: string): string {
+  const [iv, authTag, ciphertext] = encrypted.split('.').map(part => Buffer.from(part, 'base64'));
+  if (!iv || !authTag || !ciphertext) {
+    throw new Error('Malformed encrypted secret');
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+
+/**
+ * Request signing for storage providers
+ *
+ * - Local-disk file URLs carry an HMAC-SHA256 token over the storage key,
+ *   plus the expiry (Unix seconds) when the link is short-lived; the token
+ *   is "<expiresAt>.<hex signature>" or just the signature. Verification
+ *   recomputes it, compares in constant time and rejects expired tokens.
+ * - S3-compatible APIs are signed with AWS Signature Version 4.
+ */
+
+/**
+ * Token for a storage key: "<signature>" or "<expiresAtSeconds>.<signature>"
+ */
+export function signStorageKey(key: string, secret: string, expiresAt?: number): string {
+  const payload = expiresAt ? `${key}:${expiresAt}` : key;
+  const signature = crypto.createHmac('sha256', secret).update(payload).digest('hex');
+  return expiresAt ? `${expiresAt}.${signature}` : signature;
+}
+
+/**
+ * Check a token produced by signStorageKey (constant-time, honours expiry)
+ */
+export function verifyStorageToken(key: string, token: string, secret: string, now: Date = new Date()): boolean {
+  const [first, second] = token.split('.');
+  const expiresAt = second !== undefined ? Number(first) : undefined;
+  if (expiresAt !== undefined && (!Number.isInteger(expiresAt) || expiresAt * 1000 < now.getTime())) {
+    return false;
+  }
+
+  const expected = Buffer.from(signStorageKey(key, secret, expiresAt));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export interface SignableRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+}
+
+export interface SigningCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+}
+
+export function sha256Hex(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone)
+export function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Sign a request with AWS Signature Version 4
+ * Returns the headers to send, including Authorization.
+ */
+export function signS3Request(
+  request: SignableRequest,
+  credentials: SigningCredentials,
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${credentials.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: request.url.host,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': amzDate,
+  };
+
+  const sortedHeaderNames = Object.keys(headers).map(name => name.toLowerCase()).sort();
+  const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  const canonicalHeaders = sortedHeaderNames.map(name => `${name}:${String(lowerCased[name]).trim().replace(/\s+/g, ' ')}\n`).join('');
+  const signedHeaders = sortedHeaderNames.join(';');
+
+  const canonicalQuery = [...request.url.searchParams.entries()]
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), credentials.region), 's3'), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
@@ -1,4 +1,6 @@
 import { Article } from '../models/Article.js';
+import { Tag } from '../models/Tag.js';
+import { getLogger } from './logger.js';
 
 /**
  * Helper function to calculate tag usage counts from articles
@@ -59,3 +61,33 @@ export async function calculateTagUsageCounts(tags: any[]): Promise<Map<string,
   return usageCounts;
 }
 
+/**
+ * Phase 2: Resolve tag IDs from category names
+ * Maps category names to Tag ObjectIds for stable references
+ */
+export async function resolveCategoryIds(categoryNames: string[]): Promise<string[]> {
+  if (!categoryNames || categoryNames.length === 0) {
+    return [];
+  }
+
+  try {
+    // Find tags by canonical name (case-insensitive)
+    const canonicalNames = categoryNames.map(name => name.trim().toLowerCase());
+    const tags = await Tag.find({
+      canonicalName: { $in: canonicalNames }
+    }).lean();
+
+    // Map found tags to their ObjectIds
+    const tagMap = new Map(tags.map(tag => [tag.canonicalName, tag._id.toString()]));
+    
+    // Return IDs in the same order as input names
+    const categoryIds = canonicalNames
+      .map(canonical => tagMap.get(canonical))
+      .filter((id): id is string => id !== undefined);
+
+    return categoryIds;
+  } catch (error: any) {
+    getLogger().warn({ msg: 'Error resolving category IDs', error: { message: error.message } });
+    return []; // Fail gracefully - categoryIds is optional
+  }
+}
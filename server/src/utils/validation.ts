@@ -166,11 +166,60 @@ export const updateUserSchema = z.object({
 
 export const addEntrySchema = z.object({
   articleId: z.string().min(1, 'Article ID is required'),
-  userId: z.string().min(1, 'User ID is required')
+  userId: z.string().optional() // Ignored: entries are attributed to the authenticated user
+}).strict();
+
+export const inviteCollectionMemberSchema = z.object({
+  username: z.string().trim().min(1, 'Username is required').max(50),
+  role: z.enum(['owner', 'editor', 'viewer']).default('editor')
+}).strict();
+
+export const updateCollectionMemberSchema = z.object({
+  role: z.enum(['owner', 'editor', 'viewer'])
+}).strict();
+
+export const moveEntrySchema = z.object({
+  sectionId: z.string().min(1).nullable().default(null),
+  index: z.number().int().min(0),
+  expectedUpdatedAt: z.string().optional() // Reject the move if the collection changed since it was loaded
+}).strict();
+
+export const updateEntrySchema = z.object({
+  note: z.string().trim().max(500, 'Note too long').nullable()
+}).strict();
+
+export const createSectionSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(100, 'Title too long')
+}).strict();
+
+export const updateSectionSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(100, 'Title too long').optional(),
+  index: z.number().int().min(0).optional()
+}).strict();
+
+export const reviewEntrySchema = z.object({
+  decision: z.enum(['keep', 'remove'])
+}).strict();
+
+export const markFollowingReadSchema = z.object({
+  until: z.string().datetime().optional() // Newest entry the client showed; defaults to now
+}).strict();
+
+export const markNotificationReadSchema = z.object({
+  read: z.boolean().default(true)
+}).strict();
+
+export const updateNotificationPreferencesSchema = z.object({
+  emailDigest: z.boolean().optional(),
+  productUpdates: z.boolean().optional(),
+  newFollowers: z.boolean().optional(),
+  collectionActivity: z.boolean().optional(),
+  moderationUpdates: z.boolean().optional(),
+  feedbackUpdates: z.boolean().optional()
 }).strict();
 
 export const flagEntrySchema = z.object({
-  userId: z.string().min(1, 'User ID is required')
+  userId: z.string().optional() // Ignored: flags are attributed to the authenticated user
 }).strict();
 
 /**
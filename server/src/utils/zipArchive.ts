@@ -0,0 +1,211 @@
+import zlib from 'zlib';
+
+/**
+ * Minimal ZIP archives
+ * Enough of the format (PKWARE APPNOTE) to write and read the account data
+ * exports: deflate or stored entries, UTF-8 names, no encryption.
+ *
+ * There is no ZIP64 support, so archives hold at most 65535 entries and 4GB.
+ * The reader also caps the entry count and total uncompressed size
+ * (ZipReadLimits; 50000 entries and 512MB by default) and rejects entries
+ * whose size or CRC-32 does not match the central directory.
+ */
+
+export interface ZipEntryInput {
+  name: string; // Path inside the archive, "/"-separated
+  data: Buffer | string; // Strings are written as UTF-8
+  modifiedAt?: Date;
+}
+
+export interface ZipReadLimits {
+  maxEntries: number;
+  maxTotalBytes: number; // Sum of uncompressed sizes; guards against zip bombs
+}
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const VERSION = 20; // 2.0: deflate
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+// Without ZIP64, counts and offsets are 16/32-bit
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+const DEFAULT_READ_LIMITS: ZipReadLimits = {
+  maxEntries: 50000,
+  maxTotalBytes: 512 * 1024 * 1024
+};
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Build a ZIP archive. Entries are deflated unless that makes them larger.
+ */
+export function createZipArchive(entries: ZipEntryInput[]): Buffer {
+  if (entries.length > MAX_ENTRIES) {
+    throw new ZipFormatError(`Too many entries (max ${MAX_ENTRIES})`);
+  }
+
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name.replace(/^\/+/, ''), 'utf8');
+    const data = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf8') : entry.data;
+    const deflated = zlib.deflateRawSync(data);
+    const method = deflated.length < data.length ? METHOD_DEFLATE : METHOD_STORED;
+    const body = method === METHOD_DEFLATE ? deflated : data;
+    const crc = zlib.crc32(data);
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+
+    const local = Buffer.alloc(LOCAL_HEADER_SIZE);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(VERSION, 4);
+    local.writeUInt16LE(FLAG_UTF8, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // Extra field length
+
+    const central = Buffer.alloc(CENTRAL_HEADER_SIZE);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(VERSION, 4); // Version made by
+    central.writeUInt16LE(VERSION, 6); // Version needed
+    central.writeUInt16LE(FLAG_UTF8, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    // Extra, comment, disk number, internal and external attributes stay 0
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, body);
+    centralParts.push(central, name);
+    offset += local.length + name.length + body.length;
+    if (offset > MAX_OFFSET) {
+      throw new ZipFormatError('Archive too large');
+    }
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_SIZE);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  end.writeUInt16LE(entries.length, 8); // Entries on this disk
+  end.writeUInt16LE(entries.length, 10); // Total entries
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  // The record is last, followed only by an optional comment of up to 64KB
+  const lowest = Math.max(0, archive.length - END_OF_CENTRAL_DIRECTORY_SIZE - 0xffff);
+  for (let index = archive.length - END_OF_CENTRAL_DIRECTORY_SIZE; index >= lowest; index--) {
+    if (archive.readUInt32LE(index) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) return index;
+  }
+  throw new ZipFormatError('Not a ZIP archive');
+}
+
+/**
+ * Read every file of an archive into memory, keyed by path. Directory
+ * entries are skipped; checksums and the size limits are enforced.
+ */
+export function readZipArchive(archive: Buffer, limits: ZipReadLimits = DEFAULT_READ_LIMITS): Map<string, Buffer> {
+  if (archive.length < END_OF_CENTRAL_DIRECTORY_SIZE) {
+    throw new ZipFormatError('Not a ZIP archive');
+  }
+  const end = findEndOfCentralDirectory(archive);
+  const entryCount = archive.readUInt16LE(end + 10);
+  let cursor = archive.readUInt32LE(end + 16);
+
+  if (entryCount > limits.maxEntries) {
+    throw new ZipFormatError(`Too many entries (max ${limits.maxEntries})`);
+  }
+
+  const files = new Map<string, Buffer>();
+  let totalBytes = 0;
+
+  for (let index = 0; index < entryCount; index++) {
+    if (cursor + CENTRAL_HEADER_SIZE > archive.length || archive.readUInt32LE(cursor) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError('Corrupt central directory');
+    }
+    const flags = archive.readUInt16LE(cursor + 8);
+    const method = archive.readUInt16LE(cursor + 10);
+    const crc = archive.readUInt32LE(cursor + 16);
+    const compressedSize = archive.readUInt32LE(cursor + 20);
+    const size = archive.readUInt32LE(cursor + 24);
+    const nameLength = archive.readUInt16LE(cursor + 28);
+    const extraLength = archive.readUInt16LE(cursor + 30);
+    const commentLength = archive.readUInt16LE(cursor + 32);
+    const localOffset = archive.readUInt32LE(cursor + 42);
+    const name = archive.toString((flags & FLAG_UTF8) ? 'utf8' : 'latin1', cursor + CENTRAL_HEADER_SIZE, cursor + CENTRAL_HEADER_SIZE + nameLength);
+    cursor += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x0001) {
+      throw new ZipFormatError(`Encrypted entries are not supported (${name})`);
+    }
+
+    totalBytes += size;
+    if (totalBytes > limits.maxTotalBytes) {
+      throw new ZipFormatError('Archive contents too large');
+    }
+
+    if (localOffset + LOCAL_HEADER_SIZE > archive.length || archive.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError(`Corrupt entry (${name})`);
+    }
+    // The local header's name and extra lengths can differ from the central copy
+    const dataStart = localOffset + LOCAL_HEADER_SIZE + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+    if (compressed.length !== compressedSize) {
+      throw new ZipFormatError(`Truncated entry (${name})`);
+    }
+
+    let data: Buffer;
+    if (method === METHOD_STORED) {
+      data = Buffer.from(compressed);
+    } else if (method === METHOD_DEFLATE) {
+      try {
+        data = zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+      } catch {
+        throw new ZipFormatError(`Corrupt entry (${name})`);
+      }
+    } else {
+      throw new ZipFormatError(`Unsupported compression method ${method} (${name})`);
+    }
+
+    if (data.length !== size || zlib.crc32(data) !== crc) {
+      throw new ZipFormatError(`Checksum mismatch (${name})`);
+    }
+    files.set(name, data);
+  }
+
+  return files;
+}
@@ -38,6 +38,7 @@ const FeedLayoutPage = lazy(() => import('@/pages/FeedLayoutPage').then(module =
 const ArticleDetailPage = lazy(() => import('@/pages/ArticleDetail').then(module => ({ default: module.ArticleDetailPage })));
 const CollectionsPage = lazy(() => import('@/pages/CollectionsPage').then(module => ({ default: module.CollectionsPage })));
 const CollectionDetailPage = lazy(() => import('@/pages/CollectionDetailPage').then(module => ({ default: module.CollectionDetailPage })));
+const FollowingFeedPage = lazy(() => import('@/pages/FollowingFeedPage').then(module => ({ default: module.FollowingFeedPage })));
 const MySpacePage = lazy(() => import('@/pages/MySpacePage').then(module => ({ default: module.MySpacePage })));
 const AccountSettingsPage = lazy(() => import('@/pages/AccountSettingsPage').then(module => ({ default: module.AccountSettingsPage })));
 const AdminPanelPage = lazy(() => 
@@ -65,6 +66,7 @@ const AdminPanelPage = lazy(() =>
 );
 const VerifyEmailPage = lazy(() => import('@/pages/VerifyEmailPage').then(module => ({ default: module.VerifyEmailPage })));
 const ResetPasswordPage = lazy(() => import('@/pages/ResetPasswordPage').then(module => ({ default: module.ResetPasswordPage })));
+const OAuthCallbackPage = lazy(() => import('@/pages/OAuthCallbackPage').then(module => ({ default: module.OAuthCallbackPage })));
 const BulkCreateNuggetsPage = lazy(() => import('@/pages/BulkCreateNuggetsPage').then(module => ({ default: module.BulkCreateNuggetsPage })));
 const BulkYouTubeAnalysisPage = lazy(() => import('@/pages/BulkYouTubeAnalysisPage').then(module => ({ default: module.BulkYouTubeAnalysisPage })));
 
@@ -166,6 +168,13 @@ const AppContent: React.FC = () => {
               <CollectionsPage />
             </ErrorBoundary>
           } />
+          <Route path="/collections/following" element={
+            <ProtectedRoute>
+              <ErrorBoundary>
+                <FollowingFeedPage />
+              </ErrorBoundary>
+            </ProtectedRoute>
+          } />
           <Route path="/collections/:collectionId" element={
             <ErrorBoundary>
               <CollectionDetailPage />
@@ -227,6 +236,11 @@ const AppContent: React.FC = () => {
               <ResetPasswordPage />
             </ErrorBoundary>
           } />
+          <Route path="/auth/callback/:provider" element={
+            <ErrorBoundary>
+              <OAuthCallbackPage />
+            </ErrorBoundary>
+          } />
 
           <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
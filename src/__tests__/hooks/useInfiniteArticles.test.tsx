@@ -18,7 +18,7 @@ import * as articleService from '@/services/articleService';
 // Mock the article service
 vi.mock('@/services/articleService', () => ({
   articleService: {
-    getArticles: vi.fn(),
+    getArticleFeedPage: vi.fn(),
   },
 }));
 
@@ -53,7 +53,7 @@ describe('useInfiniteArticles Hook', () => {
   describe('Test 1: Initial Load Renders First 25 Items', () => {
     it('should load and return first 25 items on initial render', async () => {
       const page1Response = createMockPageResponse(1, 25, 75);
-      vi.mocked(articleService.articleService.getArticles).mockResolvedValueOnce(page1Response);
+      vi.mocked(articleService.articleService.getArticleFeedPage).mockResolvedValueOnce(page1Response);
 
       const { result } = renderHook(
         () => useInfiniteArticles({
@@ -71,15 +71,15 @@ describe('useInfiniteArticles Hook', () => {
       });
 
       // Verify only page 1 was requested
-      expect(articleService.articleService.getArticles).toHaveBeenCalledTimes(1);
-      expect(articleService.articleService.getArticles).toHaveBeenCalledWith(
+      expect(articleService.articleService.getArticleFeedPage).toHaveBeenCalledTimes(1);
+      expect(articleService.articleService.getArticleFeedPage).toHaveBeenCalledWith(
         expect.objectContaining({
           query: undefined,
           categories: [],
           sort: 'latest',
           limit: 25,
         }),
-        1 // page 1
+        null // first page (no cursor)
       );
 
       // Verify 25 items returned
@@ -97,7 +97,7 @@ describe('useInfiniteArticles Hook', () => {
       const page1Response = createMockPageResponse(1, 25, 75);
       const page2Response = createMockPageResponse(2, 25, 75);
 
-      vi.mocked(articleService.articleService.getArticles)
+      vi.mocked(articleService.articleService.getArticleFeedPage)
         .mockResolvedValueOnce(page1Response)
         .mockResolvedValueOnce(page2Response);
 
@@ -127,11 +127,11 @@ describe('useInfiniteArticles Hook', () => {
       });
 
       // Verify both pages were requested
-      expect(articleService.articleService.getArticles).toHaveBeenCalledTimes(2);
-      expect(articleService.articleService.getArticles).toHaveBeenNthCalledWith(
+      expect(articleService.articleService.getArticleFeedPage).toHaveBeenCalledTimes(2);
+      expect(articleService.articleService.getArticleFeedPage).toHaveBeenNthCalledWith(
         2,
         expect.any(Object),
-        2 // page 2
+        'cursor-2' // cursor returned with page 1
       );
 
       // CRITICAL: Verify items are APPENDED, not replaced
@@ -150,7 +150,7 @@ describe('useInfiniteArticles Hook', () => {
     it('should accumulate third page correctly', async () => {
       const responses = createMockPageResponses(3, 25, 75);
       
-      vi.mocked(articleService.articleService.getArticles)
+      vi.mocked(articleService.articleService.getArticleFeedPage)
         .mockResolvedValueOnce(responses[0])
         .mockResolvedValueOnce(responses[1])
         .mockResolvedValueOnce(responses[2]);
@@ -193,7 +193,7 @@ describe('useInfiniteArticles Hook', () => {
     it('should set hasNextPage to false when no more pages available', async () => {
       const page1Response = createMockPageResponse(1, 25, 25); // Only 25 total items
       
-      vi.mocked(articleService.articleService.getArticles).mockResolvedValueOnce(page1Response);
+      vi.mocked(articleService.articleService.getArticleFeedPage).mockResolvedValueOnce(page1Response);
 
       const { result } = renderHook(
         () => useInfiniteArticles({
@@ -213,21 +213,21 @@ describe('useInfiniteArticles Hook', () => {
       expect(result.current.hasNextPage).toBe(false);
 
       // Verify fetchNextPage does nothing when hasNextPage is false
-      const initialCallCount = vi.mocked(articleService.articleService.getArticles).mock.calls.length;
+      const initialCallCount = vi.mocked(articleService.articleService.getArticleFeedPage).mock.calls.length;
       result.current.fetchNextPage();
       
       // Wait a bit to ensure no additional calls
       await new Promise(resolve => setTimeout(resolve, 100));
       
       // Should not make additional requests
-      expect(articleService.articleService.getArticles).toHaveBeenCalledTimes(initialCallCount);
+      expect(articleService.articleService.getArticleFeedPage).toHaveBeenCalledTimes(initialCallCount);
     });
 
     it('should stop loading after last page', async () => {
       const page1Response = createMockPageResponse(1, 25, 50);
       const page2Response = createMockPageResponse(2, 25, 50); // Last page, hasMore: false
 
-      vi.mocked(articleService.articleService.getArticles)
+      vi.mocked(articleService.articleService.getArticleFeedPage)
         .mockResolvedValueOnce(page1Response)
         .mockResolvedValueOnce(page2Response);
 
@@ -251,10 +251,10 @@ describe('useInfiniteArticles Hook', () => {
       expect(result.current.hasNextPage).toBe(false);
 
       // Attempting to fetch again should not trigger new request
-      const callCount = vi.mocked(articleService.articleService.getArticles).mock.calls.length;
+      const callCount = vi.mocked(articleService.articleService.getArticleFeedPage).mock.calls.length;
       result.current.fetchNextPage();
       await new Promise(resolve => setTimeout(resolve, 100));
-      expect(articleService.articleService.getArticles).toHaveBeenCalledTimes(callCount);
+      expect(articleService.articleService.getArticleFeedPage).toHaveBeenCalledTimes(callCount);
     });
   });
 
@@ -262,7 +262,7 @@ describe('useInfiniteArticles Hook', () => {
     it('should maintain accumulated items after component re-render', async () => {
       const responses = createMockPageResponses(3, 25, 75);
       
-      vi.mocked(articleService.articleService.getArticles)
+      vi.mocked(articleService.articleService.getArticleFeedPage)
         .mockResolvedValueOnce(responses[0])
         .mockResolvedValueOnce(responses[1])
         .mockResolvedValueOnce(responses[2]);
@@ -299,7 +299,7 @@ describe('useInfiniteArticles Hook', () => {
       const page1Response = createMockPageResponse(1, 25, 50);
       const page2Response = createMockPageResponse(2, 25, 50);
 
-      vi.mocked(articleService.articleService.getArticles)
+      vi.mocked(articleService.articleService.getArticleFeedPage)
         .mockResolvedValueOnce(page1Response)
         .mockResolvedValueOnce(page2Response)
         .mockResolvedValueOnce(page1Response); // Refetch returns page 1 again
@@ -338,7 +338,7 @@ describe('useInfiniteArticles Hook', () => {
       const page1All = createMockPageResponse(1, 25, 75, undefined);
       const page1Tech = createMockPageResponse(1, 25, 50, 'Technology');
 
-      vi.mocked(articleService.articleService.getArticles)
+      vi.mocked(articleService.articleService.getArticleFeedPage)
         .mockResolvedValueOnce(page1All)
         .mockResolvedValueOnce(page1Tech);
 
@@ -366,12 +366,12 @@ describe('useInfiniteArticles Hook', () => {
       await waitFor(() => expect(result.current.isLoading).toBe(false));
 
       // Should reset to page 1 only (query key change triggers reset)
-      expect(articleService.articleService.getArticles).toHaveBeenCalledTimes(2);
-      expect(articleService.articleService.getArticles).toHaveBeenLastCalledWith(
+      expect(articleService.articleService.getArticleFeedPage).toHaveBeenCalledTimes(2);
+      expect(articleService.articleService.getArticleFeedPage).toHaveBeenLastCalledWith(
         expect.objectContaining({
           categories: ['Technology'],
         }),
-        1 // Back to page 1
+        null // Back to the first page
       );
 
       // Should have items from new category
@@ -382,7 +382,7 @@ describe('useInfiniteArticles Hook', () => {
       const page1Empty = createMockPageResponse(1, 25, 30);
       const page1Search = createMockPageResponse(1, 25, 10);
 
-      vi.mocked(articleService.articleService.getArticles)
+      vi.mocked(articleService.articleService.getArticleFeedPage)
         .mockResolvedValueOnce(page1Empty)
         .mockResolvedValueOnce(page1Search);
 
@@ -407,12 +407,12 @@ describe('useInfiniteArticles Hook', () => {
       await waitFor(() => expect(result.current.isLoading).toBe(false));
 
       // Should reset to page 1
-      expect(articleService.articleService.getArticles).toHaveBeenCalledTimes(2);
-      expect(articleService.articleService.getArticles).toHaveBeenLastCalledWith(
+      expect(articleService.articleService.getArticleFeedPage).toHaveBeenCalledTimes(2);
+      expect(articleService.articleService.getArticleFeedPage).toHaveBeenLastCalledWith(
         expect.objectContaining({
           query: 'test query',
         }),
-        1
+        null
       );
     });
   });
@@ -421,7 +421,7 @@ describe('useInfiniteArticles Hook', () => {
     it('should maintain consistent order across pages', async () => {
       const responses = createMockPageResponses(3, 25, 75);
       
-      vi.mocked(articleService.articleService.getArticles)
+      vi.mocked(articleService.articleService.getArticleFeedPage)
         .mockResolvedValueOnce(responses[0])
         .mockResolvedValueOnce(responses[1])
         .mockResolvedValueOnce(responses[2]);
@@ -460,7 +460,7 @@ describe('useInfiniteArticles Hook', () => {
       // This test ensures placeholderData regression doesn't occur
       const responses = createMockPageResponses(2, 25, 50);
       
-      vi.mocked(articleService.articleService.getArticles)
+      vi.mocked(articleService.articleService.getArticleFeedPage)
         .mockResolvedValueOnce(responses[0])
         .mockResolvedValueOnce(responses[1]);
 
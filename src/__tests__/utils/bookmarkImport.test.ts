@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { parseBookmarkHtml, parseBookmarkCsv } from '@/utils/bookmarkImport';
+
+const NETSCAPE_EXPORT = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>Bookmarks</H1>
+<DL><p>
+    <DT><H3 ADD_DATE="1700000000" PERSONAL_TOOLBAR_FOLDER="true">Bookmarks bar</H3>
+    <DL><p>
+        <DT><A HREF="https://example.com/top" ADD_DATE="1700000000">Top Level</A>
+        <DD>Saved for later
+        <DT><H3 ADD_DATE="1700000000">Dev</H3>
+        <DL><p>
+            <DT><H3 ADD_DATE="1700000000">JavaScript</H3>
+            <DL><p>
+                <DT><A HREF="https://example.com/js" TAGS="js,web">JS Guide</A>
+            </DL><p>
+            <DT><A HREF="https://example.com/dev">Dev Home</A>
+        </DL><p>
+        <DT><A HREF="place:sort=8&maxResults=10">Most Visited</A>
+    </DL><p>
+</DL><p>`;
+
+const POCKET_EXPORT = `<!DOCTYPE html>
+<html><head><title>Pocket Export</title></head>
+<body>
+<h1>Unread</h1>
+<ul>
+<li><a href="https://example.com/read-me" time_added="1700000000" tags="ai,research">Read Me</a></li>
+</ul>
+<h1>Read Archive</h1>
+<ul>
+<li><a href="https://example.com/done" time_added="1700000000" tags="">https://example.com/done</a></li>
+</ul>
+</body></html>`;
+
+describe('bookmarkImport', () => {
+  describe('parseBookmarkHtml', () => {
+    it('should map nested folders to a folder name, skipping browser roots', () => {
+      const { source, bookmarks } = parseBookmarkHtml(NETSCAPE_EXPORT);
+      expect(source).toBe('netscape');
+      expect(bookmarks.map(b => [b.url, b.folder])).toEqual([
+        ['https://example.com/top', undefined],
+        ['https://example.com/js', 'Dev / JavaScript'],
+        ['https://example.com/dev', 'Dev'],
+      ]);
+    });
+
+    it('should read titles, tags and descriptions', () => {
+      const { bookmarks } = parseBookmarkHtml(NETSCAPE_EXPORT);
+      expect(bookmarks[0]).toMatchObject({ title: 'Top Level', note: 'Saved for later', tags: [] });
+      expect(bookmarks[1]).toMatchObject({ title: 'JS Guide', note: '', tags: ['js', 'web'] });
+    });
+
+    it('should skip non-http bookmarks', () => {
+      const { bookmarks } = parseBookmarkHtml(NETSCAPE_EXPORT);
+      expect(bookmarks.some(b => b.url.startsWith('place:'))).toBe(false);
+    });
+
+    it('should parse Pocket exports without folders', () => {
+      const { source, bookmarks } = parseBookmarkHtml(POCKET_EXPORT);
+      expect(source).toBe('pocket');
+      expect(bookmarks).toEqual([
+        { url: 'https://example.com/read-me', title: 'Read Me', note: '', tags: ['ai', 'research'], folder: undefined },
+        { url: 'https://example.com/done', title: 'https://example.com/done', note: '', tags: [], folder: undefined },
+      ]);
+    });
+  });
+
+  describe('parseBookmarkCsv', () => {
+    it('should parse Pocket CSV with pipe-separated tags', () => {
+      const { source, bookmarks } = parseBookmarkCsv([
+        { title: 'Read Me', url: 'https://example.com/read-me', time_added: '1700000000', tags: 'ai|research', status: 'unread' },
+      ]);
+      expect(source).toBe('pocket');
+      expect(bookmarks[0]).toMatchObject({ title: 'Read Me', tags: ['ai', 'research'] });
+      expect(bookmarks[0].folder).toBeUndefined();
+    });
+
+    it('should parse Raindrop CSV with nested collections and notes', () => {
+      const { source, bookmarks } = parseBookmarkCsv([
+        { id: '1', title: 'Guide', note: 'Great intro', excerpt: 'An intro', url: 'https://example.com/guide', folder: 'Dev/JavaScript', tags: 'js, web', created: '2024-01-01T00:00:00Z' },
+        { id: '2', title: '', note: '', excerpt: 'Summary', url: 'https://example.com/other', folder: 'Unsorted', tags: '', created: '2024-01-01T00:00:00Z' },
+      ]);
+      expect(source).toBe('raindrop');
+      expect(bookmarks[0]).toEqual({
+        url: 'https://example.com/guide',
+        title: 'Guide',
+        note: 'Great intro',
+        tags: ['js', 'web'],
+        folder: 'Dev / JavaScript',
+      });
+      expect(bookmarks[1]).toMatchObject({ title: 'https://example.com/other', note: 'Summary', folder: undefined });
+    });
+
+    it('should reject unknown CSV layouts', () => {
+      expect(() => parseBookmarkCsv([{ link: 'https://example.com' }])).toThrow('Unrecognized bookmark CSV');
+    });
+  });
+});
@@ -6,7 +6,7 @@
  */
 
 import { Article } from '@/types';
-import { PaginatedArticlesResponse } from '@/services/articleService';
+import { PaginatedArticlesResponse, CursorPaginatedArticlesResponse } from '@/services/articleService';
 
 /**
  * Generate a single mock article with predictable data
@@ -78,7 +78,7 @@ export function createMockPageResponse(
   limit: number = 25,
   total: number = 75,
   category?: string
-): PaginatedArticlesResponse {
+): PaginatedArticlesResponse & CursorPaginatedArticlesResponse {
   const startId = (page - 1) * limit + 1;
   const endId = Math.min(page * limit, total);
   const itemsInPage = endId - startId + 1;
@@ -91,6 +91,8 @@ export function createMockPageResponse(
     page,
     limit,
     hasMore: page * limit < total,
+    // Cursor mode: predictable cursor for the next page
+    nextCursor: page * limit < total ? `cursor-${page + 1}` : null,
   };
 }
 
@@ -106,7 +108,7 @@ export function createMockPageResponses(
   pages: number,
   limit: number = 25,
   total?: number
-): PaginatedArticlesResponse[] {
+): Array<PaginatedArticlesResponse & CursorPaginatedArticlesResponse> {
   const totalItems = total ?? pages * limit;
   
   return Array.from({ length: pages }, (_, i) => 
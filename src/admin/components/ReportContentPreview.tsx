@@ -1,12 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { Article } from '@/types';
 import { apiClient } from '@/services/apiClient';
-import { Loader2, FileText, User, Layers, ExternalLink } from 'lucide-react';
+import { Loader2, FileText, User, Layers, ExternalLink, MessageSquare } from 'lucide-react';
 import { formatDate } from '@/utils/formatters';
 
 interface ReportContentPreviewProps {
   targetId: string;
-  targetType: 'nugget' | 'user' | 'collection';
+  targetType: 'nugget' | 'user' | 'collection' | 'comment';
 }
 
 export const ReportContentPreview: React.FC<ReportContentPreviewProps> = ({ targetId, targetType }) => {
@@ -202,6 +202,32 @@ export const ReportContentPreview: React.FC<ReportContentPreviewProps> = ({ targ
     );
   }
 
+  if (targetType === 'comment') {
+    return (
+      <div className="p-4 bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 rounded-lg space-y-2">
+        <div className="flex items-center gap-2">
+          <MessageSquare size={14} className="text-slate-400" />
+          <h4 className="text-sm font-bold text-slate-900 dark:text-white">
+            {content.author?.name || 'Unknown User'}
+          </h4>
+          {content.author?.username && (
+            <span className="text-xs text-slate-500">@{content.author.username}</span>
+          )}
+        </div>
+        {content.status === 'deleted' ? (
+          <p className="text-xs italic text-slate-500">Comment was deleted</p>
+        ) : (
+          <p className="text-xs text-slate-600 dark:text-slate-400 line-clamp-4 whitespace-pre-wrap">
+            {content.content}
+          </p>
+        )}
+        {content.createdAt && (
+          <div className="text-xs text-slate-500">{formatDate(content.createdAt, true)}</div>
+        )}
+      </div>
+    );
+  }
+
   if (targetType === 'user') {
     return (
       <div className="p-4 bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 rounded-lg">
@@ -1,12 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
-import { Megaphone, Save, Info, AlertTriangle, XCircle, CheckCircle2, Clock, Shield, Check, ToggleLeft, ToggleRight, Settings, Users, Mail, ClipboardType, Eye, EyeOff } from 'lucide-react';
+import { Megaphone, Save, Info, AlertTriangle, XCircle, CheckCircle2, Clock, Shield, Check, ToggleLeft, ToggleRight, Settings, Users, Mail, ClipboardType, Eye, EyeOff, KeyRound } from 'lucide-react';
 import { useToast } from '@/hooks/useToast';
 import { RichTextEditor } from '@/components/RichTextEditor';
 import { MarkdownRenderer } from '@/components/MarkdownRenderer';
 import { useAdminHeader } from '../layout/AdminLayout';
 import { adminConfigService, AVAILABLE_SERVICES } from '../services/adminConfigService';
-import { RolePermissions, ServiceId, AdminRole, FeatureFlags, SignupConfig } from '../types/admin';
+import { Flag } from 'lucide-react';
+import { RolePermissions, ServiceId, AdminRole, FeatureFlags, SignupConfig, PlatformSettings, UnverifiedAccountPolicy, CollectionFlagPolicy } from '../types/admin';
 
 interface SystemAnnouncement {
   active: boolean;
@@ -31,6 +32,7 @@ export const AdminConfigPage: React.FC = () => {
   const [permissions, setPermissions] = useState<RolePermissions | null>(null);
   const [flags, setFlags] = useState<FeatureFlags | null>(null);
   const [signupConfig, setSignupConfig] = useState<SignupConfig | null>(null);
+  const [platformSettings, setPlatformSettings] = useState<PlatformSettings | null>(null);
   const [isSavingPerms, setIsSavingPerms] = useState(false);
 
   useEffect(() => {
@@ -51,6 +53,13 @@ export const AdminConfigPage: React.FC = () => {
     } catch (e) {
       toast.error("Failed to load configuration");
     }
+
+    // Server-persisted policies load independently of the local config mocks
+    try {
+      setPlatformSettings(await adminConfigService.getPlatformSettings());
+    } catch (e) {
+      toast.error("Failed to load account policies");
+    }
   };
 
   const handleSaveAnnouncement = () => {
@@ -80,6 +89,54 @@ export const AdminConfigPage: React.FC = () => {
     }
   };
 
+  const handleToggleUnverifiedPolicy = async (key: keyof UnverifiedAccountPolicy) => {
+    if (!platformSettings) return;
+    const previous = platformSettings;
+    const newValue = !previous.unverifiedAccountPolicy[key];
+    setPlatformSettings({
+      ...previous,
+      unverifiedAccountPolicy: { ...previous.unverifiedAccountPolicy, [key]: newValue }
+    }); // Optimistic
+    try {
+      setPlatformSettings(await adminConfigService.updateUnverifiedAccountPolicy({ [key]: newValue }));
+      toast.success("Account policy updated");
+    } catch (e) {
+      toast.error("Failed to update account policy");
+      setPlatformSettings(previous); // Revert
+    }
+  };
+
+  const handleToggleAdminMfa = async () => {
+    if (!platformSettings) return;
+    const previous = platformSettings;
+    const requireForAdmins = !previous.mfaPolicy.requireForAdmins;
+    setPlatformSettings({ ...previous, mfaPolicy: { requireForAdmins } }); // Optimistic
+    try {
+      setPlatformSettings(await adminConfigService.updateMfaPolicy({ requireForAdmins }));
+      toast.success(requireForAdmins ? "Two-factor authentication required for admins" : "Admin two-factor requirement removed");
+    } catch (e: any) {
+      // e.g. the acting admin has not enabled two-factor yet
+      toast.error("Failed to update two-factor policy", e?.message);
+      setPlatformSettings(previous); // Revert
+    }
+  };
+
+  const handleUpdateCollectionFlagPolicy = async (changes: Partial<CollectionFlagPolicy>) => {
+    if (!platformSettings) return;
+    const previous = platformSettings;
+    setPlatformSettings({
+      ...previous,
+      collectionFlagPolicy: { ...previous.collectionFlagPolicy, ...changes }
+    }); // Optimistic
+    try {
+      setPlatformSettings(await adminConfigService.updateCollectionFlagPolicy(changes));
+      toast.success("Collection flag policy updated");
+    } catch (e) {
+      toast.error("Failed to update collection flag policy");
+      setPlatformSettings(previous); // Revert
+    }
+  };
+
   const handleUpdateSignupRule = async (field: keyof SignupConfig, ruleKey: 'show' | 'required') => {
       if (!signupConfig) return;
       const currentRule = signupConfig[field];
@@ -304,6 +361,132 @@ export const AdminConfigPage: React.FC = () => {
             ) : null}
         </section>
 
+        {/* 3b. UNVERIFIED ACCOUNTS */}
+        <section className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl p-6 shadow-sm">
+            <div className="flex items-center gap-3 mb-6">
+                <div className="p-2 bg-rose-50 text-rose-600 rounded-lg">
+                    <Mail size={20} />
+                </div>
+                <div>
+                    <h3 className="text-lg font-bold text-slate-900 dark:text-white">Unverified Accounts</h3>
+                    <p className="text-xs text-slate-500">Choose what users can do before confirming their email address.</p>
+                </div>
+            </div>
+
+            {platformSettings ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {[
+                        { key: 'canCreatePublicNuggets' as const, label: 'Publish Public Nuggets', description: 'When off, unverified users can only save private nuggets.' },
+                        { key: 'canCreatePublicCollections' as const, label: 'Create Public Collections', description: 'When off, unverified users can only create private collections.' }
+                    ].map((row) => {
+                        const enabled = platformSettings.unverifiedAccountPolicy[row.key];
+                        return (
+                            <div key={row.key} className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-100 dark:border-slate-800">
+                                <div>
+                                    <div className="text-sm font-bold text-slate-900 dark:text-white">{row.label}</div>
+                                    <div className="text-xs text-slate-500 mt-0.5">{row.description}</div>
+                                </div>
+                                <button 
+                                    onClick={() => handleToggleUnverifiedPolicy(row.key)}
+                                    className={`transition-colors ${enabled ? 'text-green-600 dark:text-green-400' : 'text-slate-300 dark:text-slate-600 hover:text-slate-500'}`}
+                                >
+                                    {enabled ? <ToggleRight size={36} /> : <ToggleLeft size={36} />}
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : (
+                <div className="text-center py-4 text-slate-400">Loading account policies...</div>
+            )}
+        </section>
+
+        {/* 3c. TWO-FACTOR AUTHENTICATION */}
+        <section className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl p-6 shadow-sm">
+            <div className="flex items-center gap-3 mb-6">
+                <div className="p-2 bg-emerald-50 text-emerald-600 rounded-lg">
+                    <KeyRound size={20} />
+                </div>
+                <div>
+                    <h3 className="text-lg font-bold text-slate-900 dark:text-white">Two-Factor Authentication</h3>
+                    <p className="text-xs text-slate-500">Admins without an authenticator app are sent to Account Settings to enroll before using admin tools.</p>
+                </div>
+            </div>
+
+            {platformSettings ? (
+                <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-100 dark:border-slate-800">
+                    <div>
+                        <div className="text-sm font-bold text-slate-900 dark:text-white">Require for Admins</div>
+                        <div className="text-xs text-slate-500 mt-0.5">Enable two-factor on your own account first.</div>
+                    </div>
+                    <button 
+                        onClick={handleToggleAdminMfa}
+                        className={`transition-colors ${platformSettings.mfaPolicy.requireForAdmins ? 'text-green-600 dark:text-green-400' : 'text-slate-300 dark:text-slate-600 hover:text-slate-500'}`}
+                    >
+                        {platformSettings.mfaPolicy.requireForAdmins ? <ToggleRight size={36} /> : <ToggleLeft size={36} />}
+                    </button>
+                </div>
+            ) : (
+                <div className="text-center py-4 text-slate-400">Loading two-factor policy...</div>
+            )}
+        </section>
+
+        {/* 3d. COLLECTION FLAGS */}
+        <section className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl p-6 shadow-sm">
+            <div className="flex items-center gap-3 mb-6">
+                <div className="p-2 bg-amber-50 text-amber-600 rounded-lg">
+                    <Flag size={20} />
+                </div>
+                <div>
+                    <h3 className="text-lg font-bold text-slate-900 dark:text-white">Collection Flags</h3>
+                    <p className="text-xs text-slate-500">When readers flag a nugget as not belonging in a collection, it goes to the collection's curators and the moderation queue.</p>
+                </div>
+            </div>
+
+            {platformSettings ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="flex items-center justify-between gap-4 p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-100 dark:border-slate-800">
+                        <div>
+                            <div className="text-sm font-bold text-slate-900 dark:text-white">Flag Threshold</div>
+                            <div className="text-xs text-slate-500 mt-0.5">Distinct flags before a nugget is sent for review.</div>
+                        </div>
+                        <input
+                            type="number"
+                            min={1}
+                            max={100}
+                            defaultValue={platformSettings.collectionFlagPolicy.threshold}
+                            key={platformSettings.collectionFlagPolicy.threshold}
+                            onBlur={(e) => {
+                                const threshold = Math.round(Number(e.target.value));
+                                if (threshold >= 1 && threshold <= 100 && threshold !== platformSettings.collectionFlagPolicy.threshold) {
+                                    handleUpdateCollectionFlagPolicy({ threshold });
+                                } else {
+                                    e.target.value = String(platformSettings.collectionFlagPolicy.threshold);
+                                }
+                            }}
+                            className="w-20 px-3 py-1.5 text-sm font-bold bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-1 focus:ring-primary-500"
+                        />
+                    </div>
+                    <div className="flex items-center justify-between gap-4 p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-100 dark:border-slate-800">
+                        <div>
+                            <div className="text-sm font-bold text-slate-900 dark:text-white">At the Threshold</div>
+                            <div className="text-xs text-slate-500 mt-0.5">Hiding removes the nugget from the collection for readers until it is reviewed.</div>
+                        </div>
+                        <select
+                            value={platformSettings.collectionFlagPolicy.action}
+                            onChange={(e) => handleUpdateCollectionFlagPolicy({ action: e.target.value as CollectionFlagPolicy['action'] })}
+                            className="px-3 py-1.5 text-sm font-bold bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-1 focus:ring-primary-500"
+                        >
+                            <option value="hide">Hide and review</option>
+                            <option value="queue">Review only</option>
+                        </select>
+                    </div>
+                </div>
+            ) : (
+                <div className="text-center py-4 text-slate-400">Loading collection flag policy...</div>
+            )}
+        </section>
+
         {/* 4. RBAC MATRIX */}
         <section className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl p-6 shadow-sm">
           <div className="flex items-center justify-between mb-6">
@@ -1,13 +1,23 @@
 
 import React, { useState, useEffect } from 'react';
-import { Download, Save, Check } from 'lucide-react';
+import { Download, Save, Check, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/useToast';
 import { useAdminHeader } from '../layout/AdminLayout';
+import { adminExportService } from '../services/adminExportService';
+import { AdminExportFormat } from '../types/admin';
+
+const selectClass = "w-full px-3 py-2 text-sm bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none dark:text-white";
 
 export const AdminDownloadsPage: React.FC = () => {
   const { setPageHeader } = useAdminHeader();
   const [entity, setEntity] = useState<'users' | 'nuggets'>('users');
   const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
+  const [format, setFormat] = useState<AdminExportFormat>('csv');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [role, setRole] = useState<'' | 'admin' | 'user'>('');
+  const [visibility, setVisibility] = useState<'' | 'public' | 'private'>('');
+  const [isDownloading, setIsDownloading] = useState(false);
   const toast = useToast();
 
   useEffect(() => {
@@ -17,8 +27,28 @@ export const AdminDownloadsPage: React.FC = () => {
   const userCols = ['id', 'name', 'email', 'role', 'status', 'joinedAt', 'nuggets_count'];
   const nuggetCols = ['id', 'title', 'author', 'visibility', 'createdAt', 'reports_count'];
 
-  const handleDownload = () => {
-      toast.success(`Downloading ${entity} report...`);
+  const handleDownload = async () => {
+      if (from && to && from > to) {
+          toast.error('Invalid date range', '"From" must be on or before "To".');
+          return;
+      }
+      setIsDownloading(true);
+      try {
+          await adminExportService.download({
+              entity,
+              columns: selectedColumns,
+              format,
+              from: from || undefined,
+              to: to || undefined,
+              role: entity === 'users' && role ? role : undefined,
+              visibility: entity === 'nuggets' && visibility ? visibility : undefined,
+          });
+          toast.success(`Downloaded ${entity} report`);
+      } catch (e: any) {
+          toast.error('Export failed', e.message);
+      } finally {
+          setIsDownloading(false);
+      }
   };
 
   const toggleCol = (c: string) => {
@@ -49,12 +79,56 @@ export const AdminDownloadsPage: React.FC = () => {
               </div>
           </div>
 
+          <div className="mb-8">
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Filters</label>
+              <div className="grid grid-cols-3 gap-3">
+                  <div>
+                      <span className="block text-xs text-slate-500 mb-1">{entity === 'users' ? 'Joined from' : 'Published from'}</span>
+                      <input type="date" value={from} onChange={e => setFrom(e.target.value)} className={selectClass} />
+                  </div>
+                  <div>
+                      <span className="block text-xs text-slate-500 mb-1">To</span>
+                      <input type="date" value={to} onChange={e => setTo(e.target.value)} className={selectClass} />
+                  </div>
+                  {entity === 'users' ? (
+                      <div>
+                          <span className="block text-xs text-slate-500 mb-1">Role</span>
+                          <select value={role} onChange={e => setRole(e.target.value as typeof role)} className={selectClass}>
+                              <option value="">All roles</option>
+                              <option value="admin">Admin</option>
+                              <option value="user">User</option>
+                          </select>
+                      </div>
+                  ) : (
+                      <div>
+                          <span className="block text-xs text-slate-500 mb-1">Visibility</span>
+                          <select value={visibility} onChange={e => setVisibility(e.target.value as typeof visibility)} className={selectClass}>
+                              <option value="">All</option>
+                              <option value="public">Public</option>
+                              <option value="private">Private</option>
+                          </select>
+                      </div>
+                  )}
+              </div>
+          </div>
+
+          <div className="mb-8">
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Format</label>
+              <div className="flex gap-3">
+                  {([{ id: 'csv', label: 'CSV' }, { id: 'ndjson', label: 'NDJSON' }] as const).map(option => (
+                      <button key={option.id} onClick={() => setFormat(option.id)} className={`flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-bold border ${format === option.id ? 'bg-primary-50 border-primary-500 text-primary-700' : 'bg-white border-slate-200 text-slate-600'}`}>
+                          {format === option.id && <Check size={14} />} {option.label}
+                      </button>
+                  ))}
+              </div>
+          </div>
+
           <div className="flex justify-between pt-6 border-t border-slate-100 dark:border-slate-800">
               <button className="flex items-center gap-2 text-slate-500 font-bold text-sm hover:text-slate-800">
                   <Save size={16} /> Save Template
               </button>
-              <button onClick={handleDownload} disabled={selectedColumns.length === 0} className="flex items-center gap-2 px-6 py-2.5 bg-slate-900 text-white rounded-xl font-bold text-sm hover:opacity-90 disabled:opacity-50">
-                  <Download size={16} /> Download CSV
+              <button onClick={handleDownload} disabled={selectedColumns.length === 0 || isDownloading} className="flex items-center gap-2 px-6 py-2.5 bg-slate-900 text-white rounded-xl font-bold text-sm hover:opacity-90 disabled:opacity-50">
+                  {isDownloading ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />} Download {format === 'csv' ? 'CSV' : 'NDJSON'}
               </button>
           </div>
       </div>
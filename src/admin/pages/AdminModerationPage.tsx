@@ -3,7 +3,7 @@ import { AdminTable, Column } from '../components/AdminTable';
 import { AdminSummaryBar } from '../components/AdminSummaryBar';
 import { AdminReport } from '../types/admin';
 import { adminModerationService } from '../services/adminModerationService';
-import { AlertCircle, CheckCircle, XCircle, FileText, User, Layers, Info, ChevronDown, ChevronRight } from 'lucide-react';
+import { AlertCircle, CheckCircle, XCircle, FileText, User, Layers, MessageSquare, Info, ChevronDown, ChevronRight } from 'lucide-react';
 import { useToast } from '@/hooks/useToast';
 import { formatDate } from '@/utils/formatters';
 import { useAdminHeader } from '../layout/AdminLayout';
@@ -303,6 +303,7 @@ export const AdminModerationPage: React.FC = () => {
         case 'nugget': return <FileText size={14} />;
         case 'user': return <User size={14} />;
         case 'collection': return <Layers size={14} />;
+        case 'comment': return <MessageSquare size={14} />;
         default: return <Info size={14} />;
     }
   };
@@ -335,9 +336,16 @@ export const AdminModerationPage: React.FC = () => {
       key: 'targetType',
       header: 'Type',
       render: (r) => (
-        <span className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-slate-100 dark:bg-slate-800 text-xs font-medium capitalize">
-            {getTargetIcon(r.targetType)} {r.targetType}
-        </span>
+        <div className="flex flex-col items-start gap-1">
+          <span className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-slate-100 dark:bg-slate-800 text-xs font-medium capitalize">
+              {getTargetIcon(r.targetType)} {r.targetType}
+          </span>
+          {r.collectionEntry && (
+            <span className="text-[10px] text-slate-500 line-clamp-1 max-w-[160px]" title={r.collectionEntry.collectionName}>
+              in {r.collectionEntry.collectionName}
+            </span>
+          )}
+        </div>
       )
     },
     {
@@ -472,6 +480,23 @@ export const AdminModerationPage: React.FC = () => {
                       <p className="text-sm text-slate-600 dark:text-slate-300">{report.description}</p>
                     </>
                   )}
+                  {report.collectionEntry && (
+                    <>
+                      <p className="text-xs font-bold text-slate-400 uppercase mt-3 mb-1">Collection</p>
+                      <a
+                        href={`/collections/${report.collectionEntry.collectionId}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        onClick={(e) => e.stopPropagation()}
+                        className="text-sm font-medium text-primary-600 hover:underline"
+                      >
+                        {report.collectionEntry.collectionName}
+                      </a>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {report.collectionEntry.flagCount} readers flagged this nugget. Resolving removes it from the collection; dismissing keeps it and clears the flags.
+                      </p>
+                    </>
+                  )}
                 </div>
               </div>
               
@@ -504,7 +529,7 @@ export const AdminModerationPage: React.FC = () => {
                   disabled={pendingActions.has(report.id)}
                   className="px-4 py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-lg text-sm font-bold hover:bg-slate-200 dark:hover:bg-slate-700 flex items-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  <XCircle size={16} /> Dismiss
+                  <XCircle size={16} /> {report.collectionEntry ? 'Keep in Collection' : 'Dismiss'}
                 </button>
                 <button
                   onClick={(e) => {
@@ -514,7 +539,7 @@ export const AdminModerationPage: React.FC = () => {
                   disabled={pendingActions.has(report.id)}
                   className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-bold hover:bg-red-700 flex items-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  <CheckCircle size={16} /> Resolve
+                  <CheckCircle size={16} /> {report.collectionEntry ? 'Remove from Collection' : 'Resolve'}
                 </button>
               </div>
             )}
@@ -5,7 +5,7 @@ import { AdminTable, Column } from '../components/AdminTable';
 import { AdminSummaryBar } from '../components/AdminSummaryBar';
 import { AdminUser, AdminRole, AdminUserStatus } from '../types/admin';
 import { adminUsersService } from '../services/adminUsersService';
-import { Shield, Ban, CheckCircle, Edit, Users, UserPlus, BarChart3, ChevronDown, Layout } from 'lucide-react';
+import { Shield, Ban, CheckCircle, Edit, Users, UserPlus, BarChart3, ChevronDown, Layout, KeyRound } from 'lucide-react';
 import { useToast } from '@/hooks/useToast';
 import { useAdminPermissions } from '../hooks/useAdminPermissions';
 import { Avatar } from '@/components/shared/Avatar';
@@ -39,6 +39,7 @@ export const AdminUsersPage: React.FC = () => {
   const [selectedUser, setSelectedUser] = useState<AdminUser | null>(null);
   const [roleChangeCandidate, setRoleChangeCandidate] = useState<{ user: AdminUser, newRole: AdminRole } | null>(null);
   const [statusChangeCandidate, setStatusChangeCandidate] = useState<{ user: AdminUser, newStatus: AdminUserStatus } | null>(null);
+  const [mfaResetCandidate, setMfaResetCandidate] = useState<AdminUser | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [editForm, setEditForm] = useState<{ name: string; username: string; email: string }>({ name: '', username: '', email: '' });
 
@@ -197,6 +198,18 @@ export const AdminUsersPage: React.FC = () => {
     }
   };
 
+  const handleMfaReset = async () => {
+    if (!mfaResetCandidate) return;
+    try {
+      await adminUsersService.resetUserMfa(mfaResetCandidate.id);
+      setUsers(prev => prev.map(u => u.id === mfaResetCandidate.id ? { ...u, mfaEnabled: false } : u));
+      toast.success("Two-factor authentication reset");
+      setMfaResetCandidate(null);
+    } catch (e: any) {
+      toast.error("Reset failed", e?.message);
+    }
+  };
+
   const handleBulkAction = (action: 'suspend' | 'activate' | 'delete') => {
       toast.info(`${action} ${selectedUserIds.length} users (Not implemented)`);
       setSelectedUserIds([]);
@@ -589,6 +602,11 @@ export const AdminUsersPage: React.FC = () => {
                                 <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-bold capitalize ${selectedUser.status === 'active' ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'}`}>
                                     {selectedUser.status}
                                 </span>
+                                {selectedUser.mfaEnabled && (
+                                    <span className="inline-flex items-center px-2.5 py-1 rounded-md text-xs font-bold border bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-300 dark:border-emerald-800">
+                                        <KeyRound size={12} className="mr-1" /> 2FA
+                                    </span>
+                                )}
                             </div>
                         )}
                     </div>
@@ -612,6 +630,22 @@ export const AdminUsersPage: React.FC = () => {
                         </div>
                     </div>
                 </div>
+
+                {/* Account Recovery */}
+                {selectedUser.mfaEnabled && can('admin.users.edit') && (
+                    <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-800">
+                        <div>
+                            <span className="block text-sm font-bold text-slate-900 dark:text-white">Two-factor authentication</span>
+                            <span className="text-xs text-slate-500">Use when the user has lost their authenticator and recovery codes.</span>
+                        </div>
+                        <button
+                            onClick={() => { setSelectedUser(null); setMfaResetCandidate(selectedUser); }}
+                            className="px-3 py-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/10 rounded-lg text-sm font-bold transition-colors"
+                        >
+                            Reset 2FA
+                        </button>
+                    </div>
+                )}
             </div>
         )}
       </AdminDrawer>
@@ -634,6 +668,17 @@ export const AdminUsersPage: React.FC = () => {
         description={`Are you sure you want to change ${roleChangeCandidate?.user?.name || 'this user'}'s role to ${roleChangeCandidate?.newRole.toUpperCase()}? This will affect their access permissions immediately.`}
         actionLabel="Update Role"
       />
+
+      <ConfirmActionModal 
+        isOpen={!!mfaResetCandidate}
+        onClose={() => setMfaResetCandidate(null)}
+        onConfirm={handleMfaReset}
+        title="Reset Two-Factor Authentication?"
+        description={`This removes the authenticator and recovery codes for ${mfaResetCandidate?.name || 'this user'} and signs them out of every device. Only do this after verifying their identity.`}
+        confirmString={mfaResetCandidate?.username}
+        actionLabel="Reset 2FA"
+        isDestructive
+      />
     </div>
   );
 };
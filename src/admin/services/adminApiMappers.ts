@@ -5,7 +5,7 @@
 import { User } from '@/types/user';
 import { Article } from '@/types';
 import { Collection } from '@/types';
-import { AdminUser, AdminNugget, AdminCollection, AdminTag, AdminReport, AdminFeedback } from '../types/admin';
+import { AdminUser, AdminNugget, AdminCollection, AdminTag, AdminReport, AdminReportCollectionEntry, AdminFeedback } from '../types/admin';
 
 /**
  * Map backend User (modular) to AdminUser
@@ -29,6 +29,7 @@ export function mapUserToAdminUser(user: User, stats?: {
     avatarUrl: user.profile.avatarUrl,
     joinedAt: user.auth.createdAt,
     lastLoginAt: user.appState.lastLoginAt,
+    mfaEnabled: user.security?.mfaEnabled,
     stats: stats || {
       nuggets: 0,
       nuggetsPublic: 0,
@@ -144,13 +145,14 @@ export interface RawTag {
 export interface RawReport {
   id: string;
   targetId: string;
-  targetType: 'nugget' | 'user' | 'collection';
+  targetType: 'nugget' | 'user' | 'collection' | 'comment';
   reason: 'spam' | 'harassment' | 'misinformation' | 'copyright' | 'other';
   description?: string;
   reporter: { id: string; name: string };
   respondent?: { id: string; name: string };
   status: 'open' | 'resolved' | 'dismissed';
   createdAt: string;
+  collectionEntry?: AdminReportCollectionEntry;
 }
 
 export interface RawFeedback {
@@ -199,7 +201,8 @@ export function mapReportToAdminReport(report: RawReport): AdminReport {
       name: ''
     },
     status: report.status,
-    createdAt: report.createdAt
+    createdAt: report.createdAt,
+    collectionEntry: report.collectionEntry
   };
 }
 
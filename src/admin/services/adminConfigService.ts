@@ -1,6 +1,7 @@
 
-import { RolePermissions, ServiceDefinition, FeatureFlags, SignupConfig } from '../types/admin';
+import { RolePermissions, ServiceDefinition, FeatureFlags, SignupConfig, PlatformSettings, UnverifiedAccountPolicy, MfaPolicy, CollectionFlagPolicy } from '../types/admin';
 import { LegalPage, LegalPageSlug, LegalConfig } from '@/types/legal';
+import { apiClient } from '@/services/apiClient';
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -185,6 +186,23 @@ class AdminConfigService {
     console.log(`[Config] Updated flag ${String(key)} to ${value}`);
   }
 
+  // --- PLATFORM SETTINGS (persisted on the server) ---
+  async getPlatformSettings(): Promise<PlatformSettings> {
+    return apiClient.get<PlatformSettings>('/admin/settings', undefined, 'adminConfigService.getPlatformSettings');
+  }
+
+  async updateUnverifiedAccountPolicy(policy: Partial<UnverifiedAccountPolicy>): Promise<PlatformSettings> {
+    return apiClient.patch<PlatformSettings>('/admin/settings', { unverifiedAccountPolicy: policy });
+  }
+
+  async updateMfaPolicy(policy: Partial<MfaPolicy>): Promise<PlatformSettings> {
+    return apiClient.patch<PlatformSettings>('/admin/settings', { mfaPolicy: policy });
+  }
+
+  async updateCollectionFlagPolicy(policy: Partial<CollectionFlagPolicy>): Promise<PlatformSettings> {
+    return apiClient.patch<PlatformSettings>('/admin/settings', { collectionFlagPolicy: policy });
+  }
+
   // --- SIGNUP CONFIG ---
   async getSignupConfig(): Promise<SignupConfig> {
     await delay(200);
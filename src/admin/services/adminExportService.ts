@@ -0,0 +1,44 @@
+import { AdminExportRequest } from '../types/admin';
+import { apiClient } from '@/services/apiClient';
+
+/**
+ * Admin data exports
+ * The server streams the file; it is fetched with the admin's token (a plain
+ * link can't send it) and handed to the browser as a download.
+ */
+class AdminExportService {
+  async download(request: AdminExportRequest): Promise<void> {
+    const params = new URLSearchParams({
+      entity: request.entity,
+      format: request.format,
+      columns: request.columns.join(',')
+    });
+    if (request.from) params.set('from', request.from);
+    if (request.to) params.set('to', request.to);
+    if (request.role) params.set('role', request.role);
+    if (request.visibility) params.set('visibility', request.visibility);
+
+    const response = await apiClient.fetchWithAuth(`/admin/exports?${params.toString()}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ message: 'Export failed' }));
+      throw new Error(errorData.message || `Export failed: ${response.statusText}`);
+    }
+
+    const blob = await response.blob();
+    const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+      || `${request.entity}-export.${request.format}`;
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoked once the browser has picked up the download
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
+
+export const adminExportService = new AdminExportService();
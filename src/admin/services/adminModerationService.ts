@@ -75,7 +75,7 @@ class AdminModerationService {
 
   async submitReport(
     targetId: string,
-    targetType: 'nugget' | 'user' | 'collection',
+    targetType: 'nugget' | 'user' | 'collection' | 'comment',
     reason: 'spam' | 'misleading' | 'abusive' | 'copyright' | 'other',
     description?: string,
     reporter?: { id: string; name: string },
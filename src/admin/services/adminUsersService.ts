@@ -64,6 +64,11 @@ class AdminUsersService {
   async deleteUser(id: string): Promise<void> {
     await apiClient.delete(`/users/${id}`);
   }
+
+  // Removes the user's authenticator and recovery codes and signs them out everywhere
+  async resetUserMfa(id: string): Promise<void> {
+    await apiClient.post(`/admin/users/${id}/mfa/reset`, {});
+  }
 }
 
 export const adminUsersService = new AdminUsersService();
@@ -49,6 +49,29 @@ export interface FeatureFlags {
   guestReports: boolean;
 }
 
+// --- Platform Settings (server-persisted) ---
+export interface UnverifiedAccountPolicy {
+  canCreatePublicNuggets: boolean;
+  canCreatePublicCollections: boolean;
+}
+
+export interface MfaPolicy {
+  requireForAdmins: boolean;
+}
+
+export interface CollectionFlagPolicy {
+  threshold: number; // Distinct flags before an entry goes to review
+  action: 'hide' | 'queue';
+}
+
+export interface PlatformSettings {
+  unverifiedAccountPolicy: UnverifiedAccountPolicy;
+  mfaPolicy: MfaPolicy;
+  collectionFlagPolicy: CollectionFlagPolicy;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
 // --- Signup Configuration Types ---
 export interface FieldRule {
   show: boolean;
@@ -77,6 +100,7 @@ export interface AdminUser {
   avatarUrl?: string;
   joinedAt: string;
   lastLoginAt?: string;
+  mfaEnabled?: boolean;
   stats: {
     nuggets: number;
     nuggetsPublic: number;
@@ -148,7 +172,7 @@ export interface AdminTagRequest {
 export interface AdminReport {
   id: string;
   targetId: string;
-  targetType: 'nugget' | 'user' | 'collection';
+  targetType: 'nugget' | 'user' | 'collection' | 'comment';
   reason: 'spam' | 'harassment' | 'misinformation' | 'copyright' | 'other';
   description?: string;
   reporter: {
@@ -161,6 +185,16 @@ export interface AdminReport {
   };
   status: 'open' | 'resolved' | 'dismissed';
   createdAt: string;
+  // Set when the report was opened by collection entry flags: resolving
+  // removes the nugget from the collection, dismissing keeps it
+  collectionEntry?: AdminReportCollectionEntry;
+}
+
+export interface AdminReportCollectionEntry {
+  collectionId: string;
+  collectionName: string;
+  articleId: string;
+  flagCount: number;
 }
 
 export interface AdminFeedback {
@@ -199,3 +233,16 @@ export interface AdminStat {
   trendUp?: boolean;
   icon?: React.ReactNode;
 }
+
+export type AdminExportEntity = 'users' | 'nuggets';
+export type AdminExportFormat = 'csv' | 'ndjson';
+
+export interface AdminExportRequest {
+  entity: AdminExportEntity;
+  columns: string[];
+  format: AdminExportFormat;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  role?: 'admin' | 'user'; // Users only
+  visibility?: 'public' | 'private'; // Nuggets only
+}
@@ -58,6 +58,8 @@ import { useRequireAuth } from '@/hooks/useRequireAuth';
 import { useAuth } from '@/hooks/useAuth';
 import { ReportModal } from './ReportModal';
 import { classifyArticleMedia } from '@/utils/mediaClassifier';
+import { engagementService } from '@/services/engagementService';
+import { CommentSection } from './comments/CommentSection';
 
 interface ArticleDetailProps {
   article: Article;
@@ -127,6 +129,11 @@ export const ArticleDetail: React.FC<ArticleDetailProps> = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Opening the detail view counts as a view (de-duplicated client and server side)
+  useEffect(() => {
+    engagementService.trackView(article.id);
+  }, [article.id]);
+
   const handleAddToCollection = () => {
       setCollectionMode('public');
       setIsCollectionModalOpen(true);
@@ -351,6 +358,14 @@ export const ArticleDetail: React.FC<ArticleDetailProps> = ({
                        <span className="text-xs font-semibold truncate flex-1">Read original source</span>
                    </a>
                )}
+
+               {/* Discussion */}
+               {article?.id && (
+                   <CommentSection
+                       articleId={article.id}
+                       className="pt-5 border-t border-slate-100 dark:border-slate-800"
+                   />
+               )}
            </div>
        </div>
 
@@ -3,15 +3,15 @@
 // Eliminates split-brain data fetching model (useArticles vs Feed.tsx).
 
 import React, { useRef, useEffect, useCallback } from 'react';
-import { Article } from '@/types';
+import { Article, SortOrder } from '@/types';
 import { NewsCard } from './NewsCard';
 import { Loader2 } from 'lucide-react';
 import { useInfiniteArticles } from '@/hooks/useInfiniteArticles';
 
 interface FeedProps {
-  activeCategory: string; // 'All', 'Today', or category name
+  activeCategory: string; // 'All', 'Today', 'Following', or category name
   searchQuery?: string;
-  sortOrder?: 'latest' | 'oldest'; // Sort order from Header UI
+  sortOrder?: SortOrder; // Sort order from Header UI
   selectedTag?: string | null; // Tag filter (client-side, backend doesn't support tag filtering)
   onArticleClick: (article: Article) => void;
   onCategoryClick: (category: string) => void;
@@ -177,7 +177,11 @@ export const Feed: React.FC<FeedProps> = ({
     return (
       <div className="w-full flex flex-col items-center justify-center py-12">
         <p className="text-gray-500">No nuggets found.</p>
-        <p className="text-sm text-gray-400 mt-2">Try adjusting your filters.</p>
+        <p className="text-sm text-gray-400 mt-2">
+          {activeCategory === 'Following'
+            ? 'Follow people from their profile to see their nuggets here.'
+            : 'Try adjusting your filters.'}
+        </p>
       </div>
     );
   }
@@ -6,9 +6,11 @@ import { Link, useLocation } from 'react-router-dom';
 import { createPortal } from 'react-dom'; // Still needed for NavigationDrawer
 import { Avatar } from './shared/Avatar';
 import { FilterPopover, FilterState } from './header/FilterPopover';
+import { NotificationBell } from './header/NotificationBell';
 import { useAuth } from '@/hooks/useAuth';
 import { useRequireAuth } from '@/hooks/useRequireAuth';
 import { useToast } from '@/hooks/useToast';
+import { useFollowingUnreadCount } from '@/hooks/useFollowingUnreadCount';
 import { adminFeedbackService } from '@/admin/services/adminFeedbackService';
 import { Z_INDEX } from '@/constants/zIndex';
 import { LAYOUT_CLASSES } from '@/constants/layout';
@@ -73,6 +75,8 @@ export const Header: React.FC<HeaderProps> = ({
   const currentPath = location.pathname;
   const isHome = currentPath === '/';
   const isCollections = currentPath === '/collections';
+  const isFollowing = currentPath === '/collections/following';
+  const followingUnreadCount = useFollowingUnreadCount();
 
   // DropdownPortal handles positioning, scroll/resize updates, and click-outside detection
   // Only keyboard shortcuts need manual handling
@@ -157,6 +161,25 @@ export const Header: React.FC<HeaderProps> = ({
               >
                 Collections
               </Link>
+              {isAuthenticated && (
+                <Link
+                  to="/collections/following"
+                  className={`px-3 py-1 text-sm font-medium rounded-md transition-all whitespace-nowrap flex-shrink-0 flex items-center gap-1.5 ${
+                    isFollowing
+                      ? 'bg-white text-gray-900'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                  aria-current={isFollowing ? 'page' : undefined}
+                  aria-label={followingUnreadCount > 0 ? `Following, ${followingUnreadCount} unread` : 'Following'}
+                >
+                  Following
+                  {followingUnreadCount > 0 && (
+                    <span className="min-w-[18px] h-[18px] px-1 rounded-full bg-yellow-400 text-gray-900 text-[10px] font-bold leading-[18px] text-center">
+                      {followingUnreadCount > 99 ? '99+' : followingUnreadCount}
+                    </span>
+                  )}
+                </Link>
+              )}
               {isAuthenticated && (
                 <Link
                   to={`/profile/${currentUser?.id || ''}`}
@@ -223,6 +246,7 @@ export const Header: React.FC<HeaderProps> = ({
                 onChange={(e) => setSearchQuery(e.target.value.trimStart())}
                 onBlur={(e) => setSearchQuery(e.target.value.trim())}
                 placeholder="Search..."
+                title={'Search tips: "exact phrase", -exclude, tag:, author:, source:'}
                 className="w-full h-9 pl-10 pr-28 text-sm font-medium bg-gray-50 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-400 focus:bg-white focus:outline-none transition-all"
                 aria-label="Search"
               />
@@ -372,6 +396,8 @@ export const Header: React.FC<HeaderProps> = ({
               {isDark ? <Sun size={16} /> : <Moon size={16} />}
             </button>
 
+            {isAuthenticated && <NotificationBell />}
+
             {isAuthenticated ? (
               <button
                 ref={avatarButtonRef}
@@ -572,6 +598,23 @@ export const Header: React.FC<HeaderProps> = ({
         >
           Oldest
         </button>
+        <button
+          onClick={() => { setSortOrder('relevance'); setIsSortOpen(false); }}
+          className={`w-full text-left px-4 py-2 text-sm font-medium hover:bg-gray-50 transition-colors ${
+            sortOrder === 'relevance' ? 'bg-gray-50' : ''
+          }`}
+          title="Best matches first when searching"
+        >
+          Relevance
+        </button>
+        <button
+          onClick={() => { setSortOrder('most-liked'); setIsSortOpen(false); }}
+          className={`w-full text-left px-4 py-2 text-sm font-medium hover:bg-gray-50 transition-colors ${
+            sortOrder === 'most-liked' ? 'bg-gray-50' : ''
+          }`}
+        >
+          Most liked
+        </button>
       </DropdownPortal>
 
       <NavigationDrawer 
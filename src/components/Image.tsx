@@ -1,30 +1,71 @@
 import React from 'react';
+import { ImageVariant } from '@/types';
+import { blurhashToDataUrl } from '@/utils/blurhash';
 
 interface ImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
   fallbackSrc?: string;
+  // Server renditions for uploaded images: adds AVIF/WebP srcset, intrinsic size and a placeholder
+  variant?: ImageVariant;
 }
 
-export const Image: React.FC<ImageProps> = ({ src, alt, className, fallbackSrc, ...props }) => {
+export const Image: React.FC<ImageProps> = ({ src, alt, className, fallbackSrc, variant, style, sizes, onLoad, ...props }) => {
   const [error, setError] = React.useState(false);
+  const [loaded, setLoaded] = React.useState(false);
 
-  const handleError = (e: React.SyntheticEvent<HTMLImageElement, Event>) => {
+  const placeholderUrl = React.useMemo(
+    () => (variant?.blurhash ? blurhashToDataUrl(variant.blurhash) : null),
+    [variant?.blurhash]
+  );
+
+  const handleError = () => {
     if (fallbackSrc && !error) {
       setError(true);
-      e.currentTarget.src = fallbackSrc;
     }
   };
 
-  return (
+  const handleLoad = (e: React.SyntheticEvent<HTMLImageElement, Event>) => {
+    setLoaded(true);
+    onLoad?.(e);
+  };
+
+  // Placeholder paints behind the image until it loads, so tiles never flash empty
+  const placeholderStyle: React.CSSProperties | undefined = variant && !loaded
+    ? {
+        backgroundColor: variant.dominantColor,
+        backgroundImage: placeholderUrl ? `url(${placeholderUrl})` : undefined,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+      }
+    : undefined;
+
+  const img = (
     <img
-      src={src}
+      src={error && fallbackSrc ? fallbackSrc : src}
       alt={alt || 'Image'}
       className={className}
       loading="lazy"
       decoding="async"
+      width={variant?.width}
+      height={variant?.height}
+      sizes={sizes}
+      onLoad={handleLoad}
       onError={handleError}
       {...props}
+      style={placeholderStyle ? { ...placeholderStyle, ...style } : style}
     />
   );
-};
 
+  if (!variant || variant.sources.length === 0 || error) {
+    return img;
+  }
 
+  // display: contents keeps <picture> out of layout so the img sizes exactly as before
+  return (
+    <picture className="contents">
+      {variant.sources.map(source => (
+        <source key={source.type} type={source.type} srcSet={source.srcSet} sizes={sizes} />
+      ))}
+      {img}
+    </picture>
+  );
+};
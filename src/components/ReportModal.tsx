@@ -15,6 +15,7 @@ interface ReportModalProps {
   onClose: () => void;
   onSubmit: (payload: ReportPayload) => Promise<void>;
   articleId: string;
+  title?: string;
 }
 
 const REASONS: { code: ReportReasonCode; label: string; icon: React.ReactNode }[] = [
@@ -25,7 +26,7 @@ const REASONS: { code: ReportReasonCode; label: string; icon: React.ReactNode }[
   { code: 'other', label: 'Other', icon: <HelpCircle size={16} /> },
 ];
 
-export const ReportModal: React.FC<ReportModalProps> = ({ isOpen, onClose, onSubmit, articleId }) => {
+export const ReportModal: React.FC<ReportModalProps> = ({ isOpen, onClose, onSubmit, articleId, title = 'Report nugget' }) => {
   const [selectedReason, setSelectedReason] = useState<ReportReasonCode | null>(null);
   const [comment, setComment] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -99,7 +100,7 @@ export const ReportModal: React.FC<ReportModalProps> = ({ isOpen, onClose, onSub
         <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100 dark:border-slate-800">
           <div className="flex items-center gap-2 text-red-600 dark:text-red-500">
             <Flag size={20} fill="currentColor" />
-            <h2 className="text-lg font-bold text-slate-900 dark:text-white">Report nugget</h2>
+            <h2 className="text-lg font-bold text-slate-900 dark:text-white">{title}</h2>
           </div>
           <button 
             onClick={(e) => { e.stopPropagation(); onClose(); }}
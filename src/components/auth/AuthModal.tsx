@@ -1,10 +1,14 @@
 
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
+import { useNavigate } from 'react-router-dom';
 import { X, Mail, Lock, Phone, ArrowRight, Loader2, Linkedin, Chrome, ChevronLeft, MapPin, AtSign, Calendar } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { authService } from '@/services/authService';
 import { Input } from '../UI/Input';
-import { ENABLED_SOCIAL_PROVIDERS } from '@/types/auth';
+import { MfaChallengeForm } from './MfaChallengeForm';
+import { useToast } from '@/hooks/useToast';
+import { ENABLED_SOCIAL_PROVIDERS, AuthProvider } from '@/types/auth';
 
 // Simple mock for Pincode lookup
 const mockPincodeLookup = async (pincode: string) => {
@@ -48,9 +52,12 @@ const checkPasswordRequirements = (password: string) => {
 };
 
 export const AuthModal: React.FC = () => {
-  const { isAuthModalOpen, closeAuthModal, authModalView, login, signup, socialLogin, featureFlags, signupConfig } = useAuth();
+  const { isAuthModalOpen, closeAuthModal, authModalView, login, completeMfaLogin, signup, socialLogin, featureFlags, signupConfig } = useAuth();
+  const navigate = useNavigate();
+  const toast = useToast();
   
-  const [view, setView] = useState<'login' | 'signup' | 'forgot' | 'verify_pending'>(authModalView);
+  const [view, setView] = useState<'login' | 'signup' | 'forgot' | 'verify_pending' | 'mfa'>(authModalView);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -77,6 +84,9 @@ export const AuthModal: React.FC = () => {
   const [dob, setDob] = useState('');
   const [isLookingUpPin, setIsLookingUpPin] = useState(false);
 
+  // Social providers configured on the server
+  const [socialProviders, setSocialProviders] = useState<AuthProvider[]>([]);
+
   // Reset state when modal opens
   useEffect(() => {
     setView(authModalView);
@@ -84,6 +94,7 @@ export const AuthModal: React.FC = () => {
     setFieldErrors({});
     setEmail('');
     setPassword('');
+    setMfaToken(null);
     // Reset Signup
     setFullName('');
     setUsername('');
@@ -95,6 +106,13 @@ export const AuthModal: React.FC = () => {
     setDob('');
   }, [isAuthModalOpen, authModalView]);
 
+  useEffect(() => {
+    if (!isAuthModalOpen) return;
+    authService.getOAuthProviders()
+      .then(providers => setSocialProviders(providers.filter(p => ENABLED_SOCIAL_PROVIDERS.includes(p))))
+      .catch(() => setSocialProviders([]));
+  }, [isAuthModalOpen]);
+
   useEffect(() => {
     if (isAuthModalOpen) document.body.style.overflow = 'hidden';
     else document.body.style.overflow = 'unset';
@@ -151,6 +169,18 @@ export const AuthModal: React.FC = () => {
       }
   };
 
+  const handleSocialLogin = async (provider: AuthProvider) => {
+    setError(null);
+    setIsLoading(true);
+    try {
+        // Navigates away on success
+        await socialLogin(provider);
+    } catch (err: any) {
+        setError(err?.message || 'Social sign-in is unavailable right now.');
+        setIsLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -197,7 +227,13 @@ export const AuthModal: React.FC = () => {
 
     try {
         if (view === 'login') {
-            await login({ email, password });
+            const outcome = await login({ email, password });
+            if (outcome.mfaRequired) {
+                setMfaToken(outcome.mfaToken);
+                setView('mfa');
+            } else if (outcome.mfaEnrollmentRequired) {
+                promptMfaEnrollment();
+            }
         } else if (view === 'signup') {
             await signup({ 
                 fullName, 
@@ -219,8 +255,8 @@ export const AuthModal: React.FC = () => {
                 // Auth context handles close
             }
         } else if (view === 'forgot') {
-            await new Promise(r => setTimeout(r, 1000));
-            alert("If an account exists, a reset link has been sent.");
+            const message = await authService.requestPasswordReset(email);
+            alert(message);
             setView('login');
         }
     } catch (err: any) {
@@ -230,6 +266,30 @@ export const AuthModal: React.FC = () => {
     }
   };
 
+  const promptMfaEnrollment = () => {
+    toast.info('Two-factor authentication required', 'Admin accounts must enable two-factor authentication before using admin tools.');
+    navigate('/account');
+  };
+
+  const handleMfaSubmit = async (factor: Parameters<typeof completeMfaLogin>[1]) => {
+    if (!mfaToken) return;
+    try {
+        const { recoveryCodesRemaining } = await completeMfaLogin(mfaToken, factor);
+        if (recoveryCodesRemaining !== undefined && recoveryCodesRemaining <= 3) {
+            toast.warning('Running low on recovery codes', `${recoveryCodesRemaining} left. Generate new ones in Account Settings.`);
+        }
+    } catch (err: any) {
+        // Expired challenge: start over from the password step
+        if (err?.response?.status === 401) {
+            setMfaToken(null);
+            setView('login');
+            setError(err.message);
+            return;
+        }
+        throw err;
+    }
+  };
+
   if (!isAuthModalOpen) return null;
 
   const inputClass = "bg-white/60 dark:bg-black/20 border-slate-200/80 dark:border-slate-700/60 focus:ring-primary-400/50 focus:border-primary-400 dark:text-white backdrop-blur-sm transition-all shadow-sm";
@@ -259,8 +319,15 @@ export const AuthModal: React.FC = () => {
             <X size={20} />
         </button>
 
-        {/* Verification Pending View */}
-        {view === 'verify_pending' ? (
+        {/* Second Factor View */}
+        {view === 'mfa' ? (
+            <div className="p-8">
+                <MfaChallengeForm
+                    onSubmit={handleMfaSubmit}
+                    onCancel={() => { setMfaToken(null); setPassword(''); setView('login'); }}
+                />
+            </div>
+        ) : view === 'verify_pending' ? (
             <div className="p-8 text-center flex flex-col items-center justify-center h-full min-h-[400px]">
                 <div className="w-16 h-16 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center mb-6">
                     <Mail size={32} />
@@ -295,13 +362,18 @@ export const AuthModal: React.FC = () => {
                     )}
 
                     {/* Social Login */}
-                    {view !== 'forgot' && (
+                    {view !== 'forgot' && socialProviders.length > 0 && (
                         <div className="space-y-3 mb-6">
-                            {ENABLED_SOCIAL_PROVIDERS.includes('google') && (
-                                <button type="button" onClick={() => socialLogin('google')} className="w-full flex items-center justify-center gap-3 py-2.5 rounded-xl border border-slate-200 dark:border-slate-700 bg-white/50 dark:bg-white/5 hover:bg-white dark:hover:bg-white/10 transition-colors font-medium text-sm text-slate-700 dark:text-slate-200 group shadow-sm">
+                            {socialProviders.includes('google') && (
+                                <button type="button" disabled={isLoading} onClick={() => handleSocialLogin('google')} className="w-full flex items-center justify-center gap-3 py-2.5 rounded-xl border border-slate-200 dark:border-slate-700 bg-white/50 dark:bg-white/5 hover:bg-white dark:hover:bg-white/10 transition-colors font-medium text-sm text-slate-700 dark:text-slate-200 group shadow-sm disabled:opacity-50">
                                     <Chrome size={18} className="text-slate-500 group-hover:text-blue-500 transition-colors" /> <span>Google</span>
                                 </button>
                             )}
+                            {socialProviders.includes('linkedin') && (
+                                <button type="button" disabled={isLoading} onClick={() => handleSocialLogin('linkedin')} className="w-full flex items-center justify-center gap-3 py-2.5 rounded-xl border border-slate-200 dark:border-slate-700 bg-white/50 dark:bg-white/5 hover:bg-white dark:hover:bg-white/10 transition-colors font-medium text-sm text-slate-700 dark:text-slate-200 group shadow-sm disabled:opacity-50">
+                                    <Linkedin size={18} className="text-slate-500 group-hover:text-blue-700 transition-colors" /> <span>LinkedIn</span>
+                                </button>
+                            )}
                             <div className="relative py-2 flex items-center justify-center mt-2">
                                 <div className="absolute inset-0 flex items-center"><div className="w-full border-t border-slate-200 dark:border-slate-700/60"></div></div>
                                 <span className="relative px-2 text-[10px] uppercase font-bold text-slate-400 bg-white/90 dark:bg-slate-900/90 rounded-full">or</span>
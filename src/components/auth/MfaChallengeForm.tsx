@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { ShieldCheck, Loader2, ArrowRight } from 'lucide-react';
+import { MfaFactor } from '@/types/auth';
+
+interface MfaChallengeFormProps {
+  onSubmit: (factor: MfaFactor) => Promise<void>;
+  onCancel?: () => void;
+  cancelLabel?: string;
+}
+
+/**
+ * Second sign-in step: authenticator code, or a recovery code as fallback
+ */
+export const MfaChallengeForm: React.FC<MfaChallengeFormProps> = ({ onSubmit, onCancel, cancelLabel = 'Back to login' }) => {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [value, setValue] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = value.trim();
+    if (!trimmed) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(useRecoveryCode ? { recoveryCode: trimmed } : { code: trimmed });
+    } catch (err: any) {
+      setError(err?.message || 'Verification failed');
+      setValue('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setUseRecoveryCode(prev => !prev);
+    setValue('');
+    setError(null);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex flex-col items-center text-center">
+        <div className="w-12 h-12 bg-primary-50 dark:bg-primary-900/20 text-primary-600 rounded-full flex items-center justify-center mb-3">
+          <ShieldCheck size={24} />
+        </div>
+        <h2 className="text-xl font-bold text-slate-900 dark:text-white">Two-factor authentication</h2>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+          {useRecoveryCode
+            ? 'Enter one of your recovery codes. Each code can only be used once.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 text-xs font-medium rounded-xl border border-red-100 dark:border-red-800">
+          {error}
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => setValue(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, '').slice(0, 6))}
+        inputMode={useRecoveryCode ? 'text' : 'numeric'}
+        autoComplete="one-time-code"
+        placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+        autoFocus
+        className="w-full px-4 py-3 text-center text-lg font-mono tracking-widest bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl focus:ring-2 focus:ring-primary-500 outline-none dark:text-white"
+      />
+
+      <button
+        type="submit"
+        disabled={isSubmitting || (!useRecoveryCode && value.length !== 6) || (useRecoveryCode && !value.trim())}
+        className="w-full py-3 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl font-bold text-sm flex items-center justify-center gap-2 disabled:opacity-50 transition-colors"
+      >
+        {isSubmitting ? <Loader2 size={16} className="animate-spin" /> : <>Verify <ArrowRight size={16} /></>}
+      </button>
+
+      <div className="flex items-center justify-between text-xs font-bold">
+        <button type="button" onClick={toggleMode} className="text-primary-600 hover:underline">
+          {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="text-slate-500 hover:text-slate-800 dark:hover:text-white">
+            {cancelLabel}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
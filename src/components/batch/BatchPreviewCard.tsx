@@ -115,12 +115,27 @@ export const BatchPreviewCard: React.FC<BatchPreviewCardProps> = ({
         </div>
       )}
       
+      {row.status === 'queued' && (
+        <div className="absolute top-2 right-2 z-10 bg-white/90 dark:bg-slate-800/90 backdrop-blur-sm rounded-lg p-2 shadow-lg flex items-center gap-2">
+          <Loader2 size={16} className="text-slate-400 animate-spin" />
+          <span className="text-xs text-slate-600 dark:text-slate-300 max-w-[200px] truncate" title={row.errorMessage}>
+            {row.errorMessage ? 'Retrying…' : 'Queued'}
+          </span>
+        </div>
+      )}
+      
       {row.status === 'success' && (
         <div className="absolute top-2 right-2 z-10 bg-green-500/90 backdrop-blur-sm rounded-lg px-2 py-1 shadow-lg">
           <span className="text-xs font-bold text-white">Saved</span>
         </div>
       )}
       
+      {row.status === 'cancelled' && (
+        <div className="absolute top-2 right-2 z-10 bg-slate-500/90 backdrop-blur-sm rounded-lg px-2 py-1 shadow-lg">
+          <span className="text-xs font-bold text-white">Cancelled</span>
+        </div>
+      )}
+      
       {/* Card wrapper with controls */}
       <div className="relative">
         {/* Selection checkbox */}
@@ -129,7 +144,7 @@ export const BatchPreviewCard: React.FC<BatchPreviewCardProps> = ({
             type="checkbox"
             checked={row.selected}
             onChange={(e) => onUpdate(row.id, { selected: e.target.checked })}
-            disabled={row.status === 'success'}
+            disabled={row.status === 'success' || row.status === 'queued'}
             className="w-5 h-5 rounded border-slate-300 dark:border-slate-600 focus:ring-primary-500 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
           />
         </div>
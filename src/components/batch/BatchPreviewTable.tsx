@@ -1,6 +1,6 @@
 import React from 'react';
 import { BatchRow } from '@/types/batch';
-import { ExternalLink, Trash2, AlertCircle, CheckCircle2, Loader2, RefreshCw } from 'lucide-react';
+import { ExternalLink, Trash2, AlertCircle, CheckCircle2, Loader2, RefreshCw, XCircle, Copy } from 'lucide-react';
 
 interface BatchPreviewTableProps {
   rows: BatchRow[];
@@ -33,6 +33,7 @@ export const BatchPreviewTable: React.FC<BatchPreviewTableProps> = ({
               <th className="px-4 py-3 min-w-[200px]">URL & Title</th>
               <th className="px-4 py-3 min-w-[200px]">Excerpt / Note</th>
               <th className="px-4 py-3 w-40">Categories</th>
+              <th className="px-4 py-3 w-40">Folder</th>
               <th className="px-4 py-3 w-28">Visibility</th>
               <th className="px-4 py-3 w-12">Action</th>
             </tr>
@@ -47,7 +48,7 @@ export const BatchPreviewTable: React.FC<BatchPreviewTableProps> = ({
                     type="checkbox" 
                     checked={row.selected}
                     onChange={(e) => onUpdateRow(row.id, { selected: e.target.checked })}
-                    disabled={row.status === 'success'}
+                    disabled={row.status === 'success' || row.status === 'queued'}
                     className="rounded border-slate-300 dark:border-slate-600 focus:ring-primary-500"
                   />
                 </td>
@@ -63,6 +64,8 @@ export const BatchPreviewTable: React.FC<BatchPreviewTableProps> = ({
                     </div>
                   )}
                   {row.status === 'pending' && <div className="w-3 h-3 rounded-full border border-slate-300" />}
+                  {row.status === 'queued' && <Loader2 size={16} className="text-slate-400 animate-spin" aria-label="Queued" />}
+                  {row.status === 'cancelled' && <XCircle size={18} className="text-slate-400" aria-label="Cancelled" />}
                 </td>
 
                 {/* URL & Title */}
@@ -81,6 +84,12 @@ export const BatchPreviewTable: React.FC<BatchPreviewTableProps> = ({
                   {row.status === 'error' && (
                       <p className="text-[10px] text-red-500">{row.errorMessage}</p>
                   )}
+                  {row.duplicate && (
+                      <p className="flex items-center gap-1 text-[10px] font-bold text-amber-600 dark:text-amber-400">
+                        <Copy size={10} className="shrink-0" />
+                        {row.duplicate === 'existing' ? 'Already in your nuggets' : 'Duplicate in this import'}
+                      </p>
+                  )}
                 </td>
 
                 {/* Content */}
@@ -105,6 +114,18 @@ export const BatchPreviewTable: React.FC<BatchPreviewTableProps> = ({
                     />
                 </td>
 
+                {/* Folder */}
+                <td className="px-4 py-3 align-top">
+                    <input 
+                        type="text" 
+                        value={row.folder || ''}
+                        onChange={(e) => onUpdateRow(row.id, { folder: e.target.value || undefined })}
+                        placeholder="No folder"
+                        maxLength={100}
+                        className="w-full bg-transparent border-b border-transparent hover:border-slate-300 focus:border-primary-500 focus:outline-none py-1 text-xs text-slate-700 dark:text-slate-300 transition-colors"
+                    />
+                </td>
+
                 {/* Visibility */}
                 <td className="px-4 py-3 align-top pt-3">
                     <select 
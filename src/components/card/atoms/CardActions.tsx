@@ -1,6 +1,8 @@
 import React from 'react';
-import { FolderPlus, MoreVertical, Flag, Trash2, Edit2, Globe, Lock } from 'lucide-react';
+import { FolderPlus, MoreVertical, Flag, Trash2, Edit2, Globe, Lock, Heart } from 'lucide-react';
 import { ShareMenu } from '@/components/shared/ShareMenu';
+import { ReactionPicker } from '@/components/shared/ReactionPicker';
+import { Engagement, ReactionType } from '@/types';
 import { twMerge } from 'tailwind-merge';
 
 interface CardActionsProps {
@@ -11,6 +13,12 @@ interface CardActionsProps {
   isOwner: boolean;
   isAdmin: boolean;
   visibility?: 'public' | 'private';
+  // Reactions (like button and reaction picker are hidden when handlers are missing)
+  isLiked?: boolean;
+  engagement?: Engagement;
+  viewerReactions?: ReactionType[];
+  onLike?: () => void;
+  onReact?: (type: ReactionType) => void;
   onAddToCollection?: () => void;
   onReport?: () => void;
   onEdit?: () => void;
@@ -32,6 +40,11 @@ export const CardActions: React.FC<CardActionsProps> = ({
   isOwner,
   isAdmin,
   visibility,
+  isLiked = false,
+  engagement,
+  viewerReactions = [],
+  onLike,
+  onReact,
   onAddToCollection,
   onReport,
   onEdit,
@@ -55,6 +68,38 @@ export const CardActions: React.FC<CardActionsProps> = ({
   return (
     // PHASE 2: 8-pt gap between action buttons
     <div className={twMerge('flex items-center gap-0.5', className)}>
+      {onLike && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onLike();
+          }}
+          className={twMerge(
+            'h-8 px-2 flex items-center justify-center gap-1 rounded-full text-xs font-medium',
+            isFeed && 'h-9',
+            hoverBg,
+            isLiked ? 'text-red-500' : textColor,
+            transitionClass
+          )}
+          title={isLiked ? 'Unlike' : 'Like'}
+          aria-label={isLiked ? 'Unlike' : 'Like'}
+          aria-pressed={isLiked}
+        >
+          <Heart size={iconSize} className={isLiked ? 'fill-current' : ''} />
+          {!!engagement?.likes && <span>{engagement.likes}</span>}
+        </button>
+      )}
+
+      {onReact && engagement && (
+        <ReactionPicker
+          viewerReactions={viewerReactions}
+          engagement={engagement}
+          onReact={onReact}
+          iconSize={iconSize}
+          buttonClassName={twMerge(isFeed ? 'h-9 min-w-9' : 'h-8 min-w-8', 'px-1', hoverBg, textColor, transitionClass)}
+        />
+      )}
+
       {/* Hide ShareMenu in preview mode (preview IDs are invalid) */}
       {!isPreview && (
         <ShareMenu
@@ -1,28 +1,49 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { twMerge } from 'tailwind-merge';
 
 interface CardContributorProps {
   contributorName: string;
+  contributorId?: string; // Links the name to the contributor's profile (where they can be followed)
+  note?: string; // Curator note from the collection entry
   className?: string;
 }
 
 export const CardContributor: React.FC<CardContributorProps> = ({
   contributorName,
+  contributorId,
+  note,
   className,
 }) => {
   return (
     <div
       className={twMerge(
-        '-mx-4 -mb-4 -mt-3 px-4 py-1.5 bg-slate-50 dark:bg-slate-800/50 border-t border-slate-100 dark:border-slate-800 rounded-b-2xl flex items-center',
+        '-mx-4 -mb-4 -mt-3 px-4 py-1.5 bg-slate-50 dark:bg-slate-800/50 border-t border-slate-100 dark:border-slate-800 rounded-b-2xl flex flex-col',
         className
       )}
     >
       <span
-        className="text-[10px] text-slate-500 dark:text-slate-400 font-medium truncate flex-1 min-w-0"
+        className="text-[10px] text-slate-500 dark:text-slate-400 font-medium truncate min-w-0"
         title={`Added by ${contributorName}`}
       >
-        Added by <span className="text-slate-600 dark:text-slate-300">{contributorName}</span>
+        Added by{' '}
+        {contributorId ? (
+          <Link
+            to={`/profile/${contributorId}`}
+            onClick={(e) => e.stopPropagation()}
+            className="text-slate-600 dark:text-slate-300 hover:underline"
+          >
+            {contributorName}
+          </Link>
+        ) : (
+          <span className="text-slate-600 dark:text-slate-300">{contributorName}</span>
+        )}
       </span>
+      {note && (
+        <p className="mt-0.5 text-[11px] italic text-slate-600 dark:text-slate-300 line-clamp-3" title={note}>
+          {note}
+        </p>
+      )}
     </div>
   );
 };
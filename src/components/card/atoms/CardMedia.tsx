@@ -224,6 +224,7 @@ export const CardMedia: React.FC<CardMediaProps> = React.memo(({
       {shouldRenderMultiImageGrid ? (
         <CardThumbnailGrid
           images={allImageUrls}
+          variants={article.imageVariants}
           articleTitle={article.title}
           onGridClick={onMediaClick}
         />
@@ -261,6 +262,8 @@ export const CardMedia: React.FC<CardMediaProps> = React.memo(({
             <div className="w-full h-full flex items-center justify-center">
               <Image
                 src={thumbnailUrl}
+                variant={article.imageVariants?.[thumbnailUrl]}
+                sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
                 alt={article.title || 'Nugget thumbnail'}
                 className={
                   primaryMedia?.type === 'youtube'
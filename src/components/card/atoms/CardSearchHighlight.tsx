@@ -0,0 +1,25 @@
+import React from 'react';
+import { twMerge } from 'tailwind-merge';
+import { SearchHighlight } from '@/types';
+import { HighlightedText } from '@/components/shared/HighlightedText';
+
+interface CardSearchHighlightProps {
+  highlight?: SearchHighlight;
+  className?: string;
+}
+
+/**
+ * CardSearchHighlight: matching snippet shown on cards in search results
+ * Title matches are already visible in the card title, so only body matches render.
+ */
+export const CardSearchHighlight: React.FC<CardSearchHighlightProps> = ({ highlight, className }) => {
+  if (!highlight || highlight.field === 'title' || highlight.ranges.length === 0) {
+    return null;
+  }
+
+  return (
+    <p className={twMerge('text-xs leading-relaxed text-slate-500 dark:text-slate-400 line-clamp-3', className)}>
+      <HighlightedText highlight={highlight} />
+    </p>
+  );
+};
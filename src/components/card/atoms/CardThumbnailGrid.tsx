@@ -28,15 +28,21 @@
 
 import React from 'react';
 import { Image } from '@/components/Image';
+import { ImageVariant } from '@/types';
+
+// Grid cells are a fraction of the card, so smaller renditions suffice
+const CELL_SIZES = '(min-width: 1024px) 17vw, 50vw';
 
 interface CardThumbnailGridProps {
   images: string[];
+  variants?: Record<string, ImageVariant>;
   articleTitle?: string;
   onGridClick?: (e: React.MouseEvent) => void;
 }
 
 export const CardThumbnailGrid: React.FC<CardThumbnailGridProps> = React.memo(({
   images,
+  variants,
   articleTitle,
   onGridClick,
 }) => {
@@ -68,6 +74,8 @@ export const CardThumbnailGrid: React.FC<CardThumbnailGridProps> = React.memo(({
           >
             <Image
               src={imageUrl}
+              variant={variants?.[imageUrl]}
+              sizes={CELL_SIZES}
               alt={getAltText(idx)}
               className="w-full h-full object-contain transition-transform duration-300 group-hover/media:scale-105"
             />
@@ -92,6 +100,8 @@ export const CardThumbnailGrid: React.FC<CardThumbnailGridProps> = React.memo(({
         >
           <Image
             src={images[0]}
+            variant={variants?.[images[0]]}
+            sizes={CELL_SIZES}
             alt={getAltText(0)}
             className="w-full h-full object-contain transition-transform duration-300 group-hover/media:scale-105"
           />
@@ -105,6 +115,8 @@ export const CardThumbnailGrid: React.FC<CardThumbnailGridProps> = React.memo(({
           >
             <Image
               src={imageUrl}
+              variant={variants?.[imageUrl]}
+              sizes={CELL_SIZES}
               alt={getAltText(idx + 1)}
               className="w-full h-full object-contain transition-transform duration-300 group-hover/media:scale-105"
             />
@@ -132,6 +144,8 @@ export const CardThumbnailGrid: React.FC<CardThumbnailGridProps> = React.memo(({
         >
           <Image
             src={imageUrl}
+            variant={variants?.[imageUrl]}
+            sizes={CELL_SIZES}
             alt={getAltText(idx)}
             className="w-full h-full object-contain transition-transform duration-300 group-hover/media:scale-105"
           />
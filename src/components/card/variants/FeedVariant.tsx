@@ -6,6 +6,7 @@ import { CardMeta } from '../atoms/CardMeta';
 import { CardTags } from '../atoms/CardTags';
 import { CardActions } from '../atoms/CardActions';
 import { CardContent } from '../atoms/CardContent';
+import { CardSearchHighlight } from '../atoms/CardSearchHighlight';
 import { CardContributor } from '../atoms/CardContributor';
 import { CardBadge } from '../atoms/CardBadge';
 import { CardGradientFallback } from '../atoms/CardGradientFallback';
@@ -164,6 +165,7 @@ export const FeedVariant: React.FC<FeedVariantProps> = ({
               cardType="hybrid"
               title={data.shouldShowTitle ? data.title : undefined}
             />
+            <CardSearchHighlight highlight={data.searchHighlight} className="mt-2" />
           </div>
         </>
       )}
@@ -190,6 +192,11 @@ export const FeedVariant: React.FC<FeedVariantProps> = ({
           isOwner={isOwner}
           isAdmin={isAdmin}
           visibility={data.visibility}
+          isLiked={logic.flags.isLiked}
+          engagement={data.engagement}
+          viewerReactions={data.viewerReactions}
+          onLike={handlers.onLike}
+          onReact={handlers.onReact}
           onAddToCollection={handlers.onAddToCollection}
           onReport={handlers.onReport}
           onEdit={handlers.onEdit}
@@ -204,7 +211,7 @@ export const FeedVariant: React.FC<FeedVariantProps> = ({
       </div>
 
       {data.showContributor && data.contributorName && (
-        <CardContributor contributorName={data.contributorName} />
+        <CardContributor contributorName={data.contributorName} contributorId={data.contributorId} note={data.contributorNote} />
       )}
     </div>
   );
@@ -7,6 +7,7 @@ import { CardMeta } from '../atoms/CardMeta';
 import { CardTags } from '../atoms/CardTags';
 import { CardActions } from '../atoms/CardActions';
 import { CardContent } from '../atoms/CardContent';
+import { CardSearchHighlight } from '../atoms/CardSearchHighlight';
 import { CardContributor } from '../atoms/CardContributor';
 import { CardBadge } from '../atoms/CardBadge';
 import { CardGradientFallback } from '../atoms/CardGradientFallback';
@@ -251,6 +252,7 @@ export const GridVariant: React.FC<GridVariantProps> = ({
               cardType={data.cardType}
               title={data.shouldShowTitle ? data.title : undefined}
             />
+            <CardSearchHighlight highlight={data.searchHighlight} className="mt-2" />
           </div>
         </>
       )}
@@ -284,6 +286,11 @@ export const GridVariant: React.FC<GridVariantProps> = ({
           isOwner={isOwner}
           isAdmin={isAdmin}
           visibility={data.visibility}
+          isLiked={logic.flags.isLiked}
+          engagement={data.engagement}
+          viewerReactions={data.viewerReactions}
+          onLike={handlers.onLike}
+          onReact={handlers.onReact}
           onAddToCollection={handlers.onAddToCollection}
           onReport={handlers.onReport}
           onEdit={handlers.onEdit}
@@ -298,7 +305,7 @@ export const GridVariant: React.FC<GridVariantProps> = ({
 
       {/* Contributor badge (if applicable) */}
       {data.showContributor && data.contributorName && (
-        <CardContributor contributorName={data.contributorName} />
+        <CardContributor contributorName={data.contributorName} contributorId={data.contributorId} note={data.contributorNote} />
       )}
     </article>
   );
@@ -192,6 +192,11 @@ export const MasonryVariant: React.FC<MasonryVariantProps> = ({
             isOwner={isOwner}
             isAdmin={isAdmin}
             visibility={data.visibility}
+            isLiked={logic.flags.isLiked}
+            engagement={data.engagement}
+            viewerReactions={data.viewerReactions}
+            onLike={handlers.onLike}
+            onReact={handlers.onReact}
             onAddToCollection={handlers.onAddToCollection}
             onReport={handlers.onReport}
             onEdit={handlers.onEdit}
@@ -205,7 +210,7 @@ export const MasonryVariant: React.FC<MasonryVariantProps> = ({
       </div>
 
       {data.showContributor && data.contributorName && (
-        <CardContributor contributorName={data.contributorName} />
+        <CardContributor contributorName={data.contributorName} contributorId={data.contributorId} note={data.contributorNote} />
       )}
     </div>
   );
@@ -6,6 +6,7 @@ import { CardMeta } from '../atoms/CardMeta';
 import { CardTags } from '../atoms/CardTags';
 import { CardActions } from '../atoms/CardActions';
 import { CardContent } from '../atoms/CardContent';
+import { CardSearchHighlight } from '../atoms/CardSearchHighlight';
 import { CardContributor } from '../atoms/CardContributor';
 import { CardBadge } from '../atoms/CardBadge';
 import { CardGradientFallback } from '../atoms/CardGradientFallback';
@@ -198,6 +199,7 @@ export const UtilityVariant: React.FC<UtilityVariantProps> = ({
             cardType="hybrid"
             title={data.shouldShowTitle ? data.title : undefined}
           />
+          <CardSearchHighlight highlight={data.searchHighlight} />
               
               {/* 4. Media anchored to bottom for uniformity across cards (or gradient fallback) */}
               {data.hasMedia ? (
@@ -240,6 +242,11 @@ export const UtilityVariant: React.FC<UtilityVariantProps> = ({
           isOwner={isOwner}
           isAdmin={isAdmin}
           visibility={data.visibility}
+          isLiked={logic.flags.isLiked}
+          engagement={data.engagement}
+          viewerReactions={data.viewerReactions}
+          onLike={handlers.onLike}
+          onReact={handlers.onReact}
           onAddToCollection={handlers.onAddToCollection}
           onReport={handlers.onReport}
           onEdit={handlers.onEdit}
@@ -253,7 +260,7 @@ export const UtilityVariant: React.FC<UtilityVariantProps> = ({
       </div>
 
       {data.showContributor && data.contributorName && (
-        <CardContributor contributorName={data.contributorName} />
+        <CardContributor contributorName={data.contributorName} contributorId={data.contributorId} note={data.contributorNote} />
       )}
     </article>
   );
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { Mail, Check, X } from 'lucide-react';
+import { collectionMemberService } from '@/services/collectionMemberService';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/useToast';
+
+const ROLE_LABELS = { owner: 'an owner', editor: 'an editor', viewer: 'a viewer' } as const;
+
+/**
+ * Pending collection invitations for the signed-in user
+ * Renders nothing when there are none.
+ */
+export const CollectionInvitations: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const toast = useToast();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const queryKey = ['collectionInvitations'];
+  const { data: invitations = [] } = useQuery({
+    queryKey,
+    queryFn: () => collectionMemberService.getMyInvitations(),
+    enabled: isAuthenticated,
+  });
+
+  if (invitations.length === 0) return null;
+
+  const respond = async (collectionId: string, accept: boolean) => {
+    setBusyId(collectionId);
+    try {
+      if (accept) {
+        await collectionMemberService.acceptInvitation(collectionId);
+        navigate(`/collections/${collectionId}`);
+      } else {
+        await collectionMemberService.declineInvitation(collectionId);
+      }
+    } catch {
+      toast.error(accept ? 'Could not accept invitation' : 'Could not decline invitation');
+    } finally {
+      setBusyId(null);
+      queryClient.invalidateQueries({ queryKey });
+    }
+  };
+
+  return (
+    <div className="mb-6 space-y-2">
+      {invitations.map(invitation => (
+        <div
+          key={invitation.collectionId}
+          className="flex items-center gap-3 px-4 py-3 rounded-xl border border-yellow-200 dark:border-yellow-900/30 bg-yellow-50 dark:bg-yellow-900/10"
+        >
+          <Mail size={16} className="shrink-0 text-yellow-700 dark:text-yellow-400" />
+          <p className="flex-1 min-w-0 text-sm text-gray-700 dark:text-slate-200">
+            <span className="font-bold">{invitation.inviter?.name || 'Someone'}</span> invited you to join{' '}
+            <span className="font-bold">{invitation.collectionName}</span> as {ROLE_LABELS[invitation.role]}.
+          </p>
+          <button
+            type="button"
+            disabled={busyId === invitation.collectionId}
+            onClick={() => respond(invitation.collectionId, true)}
+            className="flex items-center gap-1 px-3 py-1.5 bg-gray-900 dark:bg-white text-white dark:text-gray-900 rounded-lg text-xs font-bold hover:bg-gray-800 dark:hover:bg-gray-100 transition-colors disabled:opacity-50"
+          >
+            <Check size={14} /> Accept
+          </button>
+          <button
+            type="button"
+            disabled={busyId === invitation.collectionId}
+            onClick={() => respond(invitation.collectionId, false)}
+            className="p-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-white transition-colors disabled:opacity-50"
+            aria-label="Decline invitation"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
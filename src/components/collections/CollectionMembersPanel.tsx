@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { UserPlus, X, Loader2, LogOut } from 'lucide-react';
+import { Collection, CollectionRole } from '@/types';
+import { collectionMemberService } from '@/services/collectionMemberService';
+import { Avatar } from '@/components/shared/Avatar';
+import { useToast } from '@/hooks/useToast';
+
+interface CollectionMembersPanelProps {
+  collection: Collection;
+  currentUserId?: string;
+  onMembersChange: (updated: Pick<Collection, 'members' | 'invitations'>) => void;
+  onLeave: () => void;
+}
+
+const ROLE_LABELS: Record<CollectionRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.response?.data?.message || err?.message || fallback;
+
+/**
+ * Members of a collection with their roles
+ * Owners invite by username and manage roles; other members can leave.
+ */
+export const CollectionMembersPanel: React.FC<CollectionMembersPanelProps> = ({
+  collection,
+  currentUserId,
+  onMembersChange,
+  onLeave,
+}) => {
+  const toast = useToast();
+  const [username, setUsername] = useState('');
+  const [inviteRole, setInviteRole] = useState<CollectionRole>('editor');
+  const [isInviting, setIsInviting] = useState(false);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+
+  const isOwner = collection.viewerRole === 'owner';
+  const members = collection.members || [];
+  const invitations = collection.invitations || [];
+  const isMember = !!currentUserId && members.some(member => member.userId === currentUserId);
+
+  const applyUpdate = (updated: Collection) => {
+    onMembersChange({ members: updated.members, invitations: updated.invitations });
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = username.trim().replace(/^@/, '');
+    if (!name || isInviting) return;
+    setIsInviting(true);
+    try {
+      applyUpdate(await collectionMemberService.invite(collection.id, name, inviteRole));
+      setUsername('');
+      toast.success(`Invited @${name}`);
+    } catch (err: any) {
+      toast.error('Could not send invitation', getErrorMessage(err, 'Please try again.'));
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const runMemberAction = async (userId: string, action: () => Promise<Collection>, failure: string) => {
+    setBusyUserId(userId);
+    try {
+      applyUpdate(await action());
+    } catch (err: any) {
+      toast.error(failure, getErrorMessage(err, 'Please try again.'));
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!currentUserId || !window.confirm(`Leave "${collection.name}"?`)) return;
+    try {
+      await collectionMemberService.leave(collection.id, currentUserId);
+      toast.info(`You left "${collection.name}"`);
+      onLeave();
+    } catch (err: any) {
+      toast.error('Could not leave collection', getErrorMessage(err, 'Please try again.'));
+    }
+  };
+
+  const roleSelectClass = 'text-xs font-semibold bg-transparent border border-gray-200 dark:border-slate-700 rounded-lg px-2 py-1 text-gray-600 dark:text-slate-300 focus:outline-none focus:border-yellow-400';
+
+  return (
+    <section className="rounded-2xl border border-gray-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-sm font-bold text-gray-900 dark:text-white">Members</h2>
+        {isMember && !isOwner && (
+          <button
+            type="button"
+            onClick={handleLeave}
+            className="flex items-center gap-1.5 text-xs font-bold text-gray-400 hover:text-red-600 transition-colors"
+          >
+            <LogOut size={14} /> Leave
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-3">
+        {collection.creator && (
+          <li className="flex items-center gap-3">
+            <Avatar name={collection.creator.name} src={collection.creator.avatarUrl} size="sm" />
+            <span className="flex-1 min-w-0 truncate text-sm text-gray-700 dark:text-slate-200">{collection.creator.name}</span>
+            <span className="text-xs font-semibold text-gray-400">Creator</span>
+          </li>
+        )}
+        {members.map(member => (
+          <li key={member.userId} className="flex items-center gap-3">
+            <Avatar name={member.user?.name || 'Member'} src={member.user?.avatarUrl} size="sm" />
+            <span className="flex-1 min-w-0 truncate text-sm text-gray-700 dark:text-slate-200">
+              {member.user?.name || 'Unknown user'}
+              {member.user?.username && <span className="ml-1 text-xs text-gray-400">@{member.user.username}</span>}
+            </span>
+            {isOwner ? (
+              <>
+                <select
+                  value={member.role}
+                  disabled={busyUserId === member.userId}
+                  onChange={(e) => runMemberAction(
+                    member.userId,
+                    () => collectionMemberService.updateRole(collection.id, member.userId, e.target.value as CollectionRole),
+                    'Could not change role'
+                  )}
+                  className={roleSelectClass}
+                >
+                  {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                    <option key={role} value={role}>{label}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  aria-label={`Remove ${member.user?.name || 'member'}`}
+                  disabled={busyUserId === member.userId}
+                  onClick={() => runMemberAction(
+                    member.userId,
+                    () => collectionMemberService.removeMember(collection.id, member.userId),
+                    'Could not remove member'
+                  )}
+                  className="p-1 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                >
+                  <X size={14} />
+                </button>
+              </>
+            ) : (
+              <span className="text-xs font-semibold text-gray-400">{ROLE_LABELS[member.role]}</span>
+            )}
+          </li>
+        ))}
+        {!collection.creator && members.length === 0 && (
+          <li className="text-xs text-gray-400">No members yet.</li>
+        )}
+      </ul>
+
+      {isOwner && invitations.length > 0 && (
+        <div className="mt-5">
+          <h3 className="text-[10px] font-semibold uppercase tracking-wide text-gray-400 mb-2">Pending invitations</h3>
+          <ul className="space-y-2">
+            {invitations.map(invitation => (
+              <li key={invitation.userId} className="flex items-center gap-3 text-sm text-gray-500 dark:text-slate-400">
+                <span className="flex-1 min-w-0 truncate">
+                  {invitation.user?.username ? `@${invitation.user.username}` : invitation.user?.name || 'Unknown user'}
+                </span>
+                <span className="text-xs font-semibold">{ROLE_LABELS[invitation.role]}</span>
+                <button
+                  type="button"
+                  aria-label="Cancel invitation"
+                  disabled={busyUserId === invitation.userId}
+                  onClick={() => runMemberAction(
+                    invitation.userId,
+                    () => collectionMemberService.cancelInvitation(collection.id, invitation.userId),
+                    'Could not cancel invitation'
+                  )}
+                  className="p-1 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                >
+                  <X size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isOwner && (
+        <form onSubmit={handleInvite} className="mt-5 flex items-center gap-2">
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Invite by username"
+            className="flex-1 min-w-0 px-3 py-2 bg-gray-50 dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-xl text-sm text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:border-yellow-400"
+          />
+          <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value as CollectionRole)} className={roleSelectClass}>
+            {Object.entries(ROLE_LABELS).map(([role, label]) => (
+              <option key={role} value={role}>{label}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!username.trim() || isInviting}
+            className="p-2 bg-gray-900 dark:bg-white text-white dark:text-gray-900 rounded-xl hover:bg-gray-800 dark:hover:bg-gray-100 transition-colors disabled:opacity-50"
+            aria-label="Send invitation"
+          >
+            {isInviting ? <Loader2 size={16} className="animate-spin" /> : <UserPlus size={16} />}
+          </button>
+        </form>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Flag, Check, Trash2, EyeOff } from 'lucide-react';
+import { Article, Collection } from '@/types';
+import { formatDate } from '@/utils/formatters';
+
+interface CollectionReviewQueueProps {
+  collection: Collection;
+  articles: Record<string, Article>;
+  onReview: (articleId: string, decision: 'keep' | 'remove') => Promise<void>;
+  onArticleClick: (article: Article) => void;
+}
+
+/**
+ * Entries flagged past the platform threshold, for curators to keep or remove
+ * Renders nothing when the queue is empty.
+ */
+export const CollectionReviewQueue: React.FC<CollectionReviewQueueProps> = ({
+  collection,
+  articles,
+  onReview,
+  onArticleClick,
+}) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const queue = collection.entries.filter(entry => entry.reviewStatus);
+
+  if (queue.length === 0) return null;
+
+  const review = async (articleId: string, decision: 'keep' | 'remove') => {
+    setBusyId(articleId);
+    try {
+      await onReview(articleId, decision);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <section className="mb-6 rounded-2xl border border-amber-200 dark:border-amber-900/30 bg-amber-50 dark:bg-amber-900/10 p-5">
+      <div className="flex items-center gap-2 mb-3">
+        <Flag size={16} className="text-amber-600 dark:text-amber-400" />
+        <h2 className="text-sm font-bold text-gray-900 dark:text-white">Needs review</h2>
+        <span className="text-xs text-gray-500 dark:text-slate-400">
+          {queue.length} flagged {queue.length === 1 ? 'nugget' : 'nuggets'}
+        </span>
+      </div>
+      <ul className="divide-y divide-amber-100 dark:divide-amber-900/20">
+        {queue.map(entry => {
+          const article = articles[entry.articleId];
+          return (
+            <li key={entry.articleId} className="flex items-center gap-3 py-2.5">
+              <div className="flex-1 min-w-0">
+                <button
+                  type="button"
+                  disabled={!article}
+                  onClick={() => article && onArticleClick(article)}
+                  className="block max-w-full text-left text-sm font-semibold text-gray-800 dark:text-slate-100 truncate hover:underline disabled:no-underline"
+                >
+                  {article?.title || article?.excerpt || 'Unavailable nugget'}
+                </button>
+                <p className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-slate-400">
+                  {entry.flaggedBy.length} {entry.flaggedBy.length === 1 ? 'flag' : 'flags'}
+                  {entry.reviewQueuedAt && <> · since {formatDate(entry.reviewQueuedAt, false)}</>}
+                  {entry.reviewStatus === 'hidden' && (
+                    <span className="inline-flex items-center gap-1"> · <EyeOff size={12} /> Hidden from readers</span>
+                  )}
+                </p>
+              </div>
+              <button
+                type="button"
+                disabled={busyId === entry.articleId}
+                onClick={() => review(entry.articleId, 'keep')}
+                className="flex items-center gap-1 px-3 py-1.5 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 text-gray-700 dark:text-slate-200 rounded-lg text-xs font-bold hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+              >
+                <Check size={14} /> Keep
+              </button>
+              <button
+                type="button"
+                disabled={busyId === entry.articleId}
+                onClick={() => review(entry.articleId, 'remove')}
+                className="flex items-center gap-1 px-3 py-1.5 bg-red-600 text-white rounded-lg text-xs font-bold hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                <Trash2 size={14} /> Remove
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
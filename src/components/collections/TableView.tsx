@@ -1,8 +1,10 @@
-import React from 'react';
-import { Collection } from '@/types';
+import React, { useState } from 'react';
+import { Article, Collection, CollectionSection } from '@/types';
 import { formatDate } from '@/utils/formatters';
+import { groupCollectionEntries } from '@/utils/collectionSections';
 import { Tooltip } from '../UI/Tooltip';
 import { Info, Lock, Folder, ChevronRight } from 'lucide-react';
+import { GripVertical, ArrowUp, ArrowDown, Pencil, Trash2, Plus, StickyNote, Flag } from 'lucide-react';
 
 interface TableViewProps {
   collections: Collection[];
@@ -66,3 +68,299 @@ export const TableView: React.FC<TableViewProps> = ({ collections, onClick }) =>
         </div>
     );
 };
+
+interface CollectionEntriesTableViewProps {
+  collection: Collection;
+  articles: Record<string, Article>; // Loaded nuggets by id; missing ones were deleted
+  canArrange: boolean; // Editors and owners reorder, annotate and manage sections
+  currentUserId?: string;
+  onArticleClick: (article: Article) => void;
+  onMoveEntry: (articleId: string, sectionId: string | null, index: number) => void;
+  onNoteChange: (articleId: string, note: string | null) => void;
+  onCreateSection: (title: string) => void;
+  onUpdateSection: (sectionId: string, changes: { title?: string; index?: number }) => void;
+  onDeleteSection: (section: CollectionSection) => void;
+  onFlagEntry: (articleId: string) => void; // Readers flag entries that do not belong
+}
+
+/**
+ * Entries of one collection in curated order, grouped under section headings
+ * Curators drag rows (or use arrow keys on the handle) to reorder, and edit
+ * notes and headings inline.
+ */
+export const CollectionEntriesTableView: React.FC<CollectionEntriesTableViewProps> = ({
+    collection,
+    articles,
+    canArrange,
+    currentUserId,
+    onArticleClick,
+    onMoveEntry,
+    onNoteChange,
+    onCreateSection,
+    onUpdateSection,
+    onDeleteSection,
+    onFlagEntry,
+}) => {
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+    const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+    const [noteDraft, setNoteDraft] = useState('');
+    const [editingSectionId, setEditingSectionId] = useState<string | null>(null);
+    const [sectionDraft, setSectionDraft] = useState('');
+    const [newSectionTitle, setNewSectionTitle] = useState('');
+
+    const sections = collection.sections || [];
+    const groups = groupCollectionEntries(
+        collection.entries.filter(entry => articles[entry.articleId]),
+        sections
+    );
+
+    // Index within the target group once the dragged row has been taken out
+    const dropAt = (sectionId: string | null, targetIndex: number) => {
+        if (!draggingId) return;
+        const group = groups.find(item => (item.section?.id ?? null) === sectionId);
+        const from = group?.entries.findIndex(entry => entry.articleId === draggingId) ?? -1;
+        const index = from !== -1 && from < targetIndex ? targetIndex - 1 : targetIndex;
+        if (from !== index || from === -1) {
+            onMoveEntry(draggingId, sectionId, index);
+        }
+        setDraggingId(null);
+        setDropTarget(null);
+    };
+
+    const dropHandlers = (key: string, sectionId: string | null, index: number) => canArrange ? {
+        onDragOver: (e: React.DragEvent) => {
+            if (!draggingId) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            if (dropTarget !== key) setDropTarget(key);
+        },
+        onDragLeave: () => setDropTarget(prev => prev === key ? null : prev),
+        onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            dropAt(sectionId, index);
+        },
+    } : {};
+
+    const handleKeyMove = (e: React.KeyboardEvent, articleId: string, sectionId: string | null, index: number, size: number) => {
+        if (e.key === 'ArrowUp' && index > 0) {
+            e.preventDefault();
+            onMoveEntry(articleId, sectionId, index - 1);
+        } else if (e.key === 'ArrowDown' && index < size - 1) {
+            e.preventDefault();
+            onMoveEntry(articleId, sectionId, index + 1);
+        }
+    };
+
+    const saveNote = (articleId: string, previous?: string) => {
+        const note = noteDraft.trim();
+        setEditingNoteId(null);
+        if (note !== (previous || '')) onNoteChange(articleId, note || null);
+    };
+
+    const saveSectionTitle = (section: CollectionSection) => {
+        const title = sectionDraft.trim();
+        setEditingSectionId(null);
+        if (title && title !== section.title) onUpdateSection(section.id, { title });
+    };
+
+    const handleCreateSection = (e: React.FormEvent) => {
+        e.preventDefault();
+        const title = newSectionTitle.trim();
+        if (!title) return;
+        onCreateSection(title);
+        setNewSectionTitle('');
+    };
+
+    // Curators act on flags directly, so only other signed-in readers flag
+    const canFlag = !!currentUserId && !canArrange;
+    const columnCount = 4 + (canArrange ? 1 : 0) + (canFlag ? 1 : 0);
+    const dropIndicator = (key: string) => dropTarget === key ? 'shadow-[inset_0_2px_0_0_theme(colors.yellow.400)]' : '';
+    const iconButtonClass = 'p-1 text-slate-400 hover:text-slate-700 dark:hover:text-white transition-colors disabled:opacity-30';
+
+    return (
+        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl overflow-hidden shadow-sm">
+            <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                    <thead className="bg-slate-50 dark:bg-slate-800/50 border-b border-slate-200 dark:border-slate-800 text-xs uppercase text-slate-500 font-bold tracking-wider">
+                        <tr>
+                            {canArrange && <th className="px-2 py-3 w-8" aria-label="Reorder" />}
+                            <th className="px-4 py-3 w-10 text-center">#</th>
+                            <th className="px-4 py-3">Nugget</th>
+                            <th className="px-4 py-3 w-40">Added By</th>
+                            <th className="px-4 py-3 w-32">Added</th>
+                            {canFlag && <th className="px-4 py-3 w-12" aria-label="Flag" />}
+                        </tr>
+                    </thead>
+                    {groups.map(({ section, entries }) => {
+                        const sectionId = section?.id ?? null;
+                        const sectionIndex = section ? sections.indexOf(section) : -1;
+                        if (!section && entries.length === 0 && sections.length > 0 && !draggingId) return null;
+                        return (
+                            <tbody key={sectionId ?? 'top'} className="divide-y divide-slate-100 dark:divide-slate-800 border-b border-slate-100 dark:border-slate-800 last:border-b-0">
+                                {section && (
+                                    <tr {...dropHandlers(`head:${section.id}`, section.id, 0)} className={`bg-slate-50/70 dark:bg-slate-800/30 ${dropIndicator(`head:${section.id}`)}`}>
+                                        <td colSpan={columnCount} className="px-4 py-2">
+                                            <div className="flex items-center gap-2">
+                                                {editingSectionId === section.id ? (
+                                                    <input
+                                                        autoFocus
+                                                        value={sectionDraft}
+                                                        maxLength={100}
+                                                        onChange={(e) => setSectionDraft(e.target.value)}
+                                                        onBlur={() => saveSectionTitle(section)}
+                                                        onKeyDown={(e) => {
+                                                            if (e.key === 'Enter') saveSectionTitle(section);
+                                                            if (e.key === 'Escape') setEditingSectionId(null);
+                                                        }}
+                                                        className="flex-1 min-w-0 px-2 py-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-md text-sm font-bold text-slate-900 dark:text-white focus:outline-none focus:border-yellow-400"
+                                                    />
+                                                ) : (
+                                                    <h3 className="flex-1 min-w-0 truncate text-sm font-bold text-slate-900 dark:text-white">{section.title}</h3>
+                                                )}
+                                                <span className="text-xs text-slate-400">{entries.length}</span>
+                                                {canArrange && (
+                                                    <div className="flex items-center">
+                                                        <button type="button" aria-label="Move section up" disabled={sectionIndex === 0} onClick={() => onUpdateSection(section.id, { index: sectionIndex - 1 })} className={iconButtonClass}>
+                                                            <ArrowUp size={14} />
+                                                        </button>
+                                                        <button type="button" aria-label="Move section down" disabled={sectionIndex === sections.length - 1} onClick={() => onUpdateSection(section.id, { index: sectionIndex + 1 })} className={iconButtonClass}>
+                                                            <ArrowDown size={14} />
+                                                        </button>
+                                                        <button type="button" aria-label="Rename section" onClick={() => { setEditingSectionId(section.id); setSectionDraft(section.title); }} className={iconButtonClass}>
+                                                            <Pencil size={14} />
+                                                        </button>
+                                                        <button type="button" aria-label="Delete section" onClick={() => onDeleteSection(section)} className="p-1 text-slate-400 hover:text-red-600 transition-colors">
+                                                            <Trash2 size={14} />
+                                                        </button>
+                                                    </div>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                )}
+                                {entries.map((entry, index) => {
+                                    const article = articles[entry.articleId];
+                                    const key = `row:${entry.articleId}`;
+                                    return (
+                                        <tr
+                                            key={entry.articleId}
+                                            {...dropHandlers(key, sectionId, index)}
+                                            className={`group hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors ${draggingId === entry.articleId ? 'opacity-40' : ''} ${dropIndicator(key)}`}
+                                        >
+                                            {canArrange && (
+                                                <td className="px-2 py-3 align-top">
+                                                    <button
+                                                        type="button"
+                                                        draggable
+                                                        onDragStart={(e) => {
+                                                            e.dataTransfer.effectAllowed = 'move';
+                                                            e.dataTransfer.setData('text/plain', entry.articleId);
+                                                            setDraggingId(entry.articleId);
+                                                        }}
+                                                        onDragEnd={() => { setDraggingId(null); setDropTarget(null); }}
+                                                        onKeyDown={(e) => handleKeyMove(e, entry.articleId, sectionId, index, entries.length)}
+                                                        aria-label={`Reorder ${article.title || 'nugget'} (use arrow keys)`}
+                                                        className="p-1 text-slate-300 hover:text-slate-600 dark:hover:text-slate-200 cursor-grab active:cursor-grabbing"
+                                                    >
+                                                        <GripVertical size={16} />
+                                                    </button>
+                                                </td>
+                                            )}
+                                            <td className="px-4 py-3 text-center text-slate-400 font-mono text-xs align-top">{index + 1}</td>
+                                            <td className="px-4 py-3 align-top">
+                                                <div className="flex items-center gap-2">
+                                                    <button type="button" onClick={() => onArticleClick(article)} className="text-left font-bold text-slate-900 dark:text-white hover:text-primary-600 transition-colors text-sm line-clamp-1">
+                                                        {article.title || article.excerpt || 'Untitled nugget'}
+                                                    </button>
+                                                    {canArrange && entry.reviewStatus && (
+                                                        <span className="shrink-0 inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 text-[10px] font-bold">
+                                                            <Flag size={10} /> {entry.reviewStatus === 'hidden' ? 'Hidden' : 'In review'}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                                {editingNoteId === entry.articleId ? (
+                                                    <textarea
+                                                        autoFocus
+                                                        rows={2}
+                                                        maxLength={500}
+                                                        value={noteDraft}
+                                                        onChange={(e) => setNoteDraft(e.target.value)}
+                                                        onBlur={() => saveNote(entry.articleId, entry.note)}
+                                                        onKeyDown={(e) => {
+                                                            if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); saveNote(entry.articleId, entry.note); }
+                                                            if (e.key === 'Escape') setEditingNoteId(null);
+                                                        }}
+                                                        placeholder="Why this nugget belongs here"
+                                                        className="mt-1 w-full px-2 py-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-md text-xs text-slate-700 dark:text-slate-200 focus:outline-none focus:border-yellow-400 resize-none"
+                                                    />
+                                                ) : entry.note ? (
+                                                    <p
+                                                        onClick={canArrange ? () => { setEditingNoteId(entry.articleId); setNoteDraft(entry.note || ''); } : undefined}
+                                                        className={`mt-1 text-xs italic text-slate-500 dark:text-slate-400 ${canArrange ? 'cursor-text hover:text-slate-700 dark:hover:text-slate-200' : ''}`}
+                                                    >
+                                                        {entry.note}
+                                                    </p>
+                                                ) : canArrange && (
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => { setEditingNoteId(entry.articleId); setNoteDraft(''); }}
+                                                        className="mt-1 flex items-center gap-1 text-[11px] font-medium text-slate-400 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-slate-700 dark:hover:text-slate-200 transition-opacity"
+                                                    >
+                                                        <StickyNote size={12} /> Add note
+                                                    </button>
+                                                )}
+                                            </td>
+                                            <td className="px-4 py-3 text-slate-500 text-xs align-top truncate">{entry.user?.name || '—'}</td>
+                                            <td className="px-4 py-3 text-slate-500 text-xs align-top">{formatDate(entry.addedAt, false)}</td>
+                                            {canFlag && (
+                                                <td className="px-4 py-3 text-right align-top">
+                                                    {entry.flaggedBy.includes(currentUserId!) ? (
+                                                        <Flag size={14} className="ml-auto text-amber-500" aria-label="You flagged this nugget" />
+                                                    ) : (
+                                                        <Tooltip content="Flag as not belonging in this collection">
+                                                            <button type="button" aria-label="Flag nugget" onClick={() => onFlagEntry(entry.articleId)} className="p-1 text-slate-300 hover:text-amber-600 transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100">
+                                                                <Flag size={14} />
+                                                            </button>
+                                                        </Tooltip>
+                                                    )}
+                                                </td>
+                                            )}
+                                        </tr>
+                                    );
+                                })}
+                                {canArrange && draggingId && (
+                                    <tr {...dropHandlers(`end:${sectionId ?? 'top'}`, sectionId, entries.length)} className={dropIndicator(`end:${sectionId ?? 'top'}`)}>
+                                        <td colSpan={columnCount} className="px-4 py-2 text-center text-[11px] text-slate-400">
+                                            {entries.length === 0 ? 'Drop here' : 'Drop at end'}
+                                        </td>
+                                    </tr>
+                                )}
+                                {!canArrange && section && entries.length === 0 && (
+                                    <tr>
+                                        <td colSpan={columnCount} className="px-4 py-3 text-xs text-slate-400">No nuggets in this section yet.</td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        );
+                    })}
+                </table>
+            </div>
+            {canArrange && (
+                <form onSubmit={handleCreateSection} className="flex items-center gap-2 px-4 py-3 border-t border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50">
+                    <input
+                        type="text"
+                        value={newSectionTitle}
+                        maxLength={100}
+                        onChange={(e) => setNewSectionTitle(e.target.value)}
+                        placeholder="New section heading"
+                        className="flex-1 min-w-0 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:border-yellow-400"
+                    />
+                    <button type="submit" disabled={!newSectionTitle.trim()} className="flex items-center gap-1 px-3 py-1.5 bg-gray-900 dark:bg-white text-white dark:text-gray-900 rounded-lg text-xs font-bold hover:bg-gray-800 dark:hover:bg-gray-100 transition-colors disabled:opacity-50">
+                        <Plus size={14} /> Add section
+                    </button>
+                </form>
+            )}
+        </div>
+    );
+};
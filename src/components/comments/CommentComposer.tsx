@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+
+const MAX_COMMENT_LENGTH = 5000; // Mirrors the server limit
+
+interface CommentComposerProps {
+  initialValue?: string;
+  placeholder?: string;
+  submitLabel?: string;
+  autoFocus?: boolean;
+  onSubmit: (content: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+/**
+ * Textarea for new comments, replies and edits (markdown supported)
+ * Clears itself after a successful new comment; Cmd/Ctrl+Enter submits.
+ */
+export const CommentComposer: React.FC<CommentComposerProps> = ({
+  initialValue = '',
+  placeholder = 'Add a comment…',
+  submitLabel = 'Comment',
+  autoFocus,
+  onSubmit,
+  onCancel,
+}) => {
+  const [value, setValue] = useState(initialValue);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const trimmed = value.trim();
+
+  const handleSubmit = async () => {
+    if (!trimmed || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit(trimmed);
+      if (!initialValue) setValue('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      <textarea
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        maxLength={MAX_COMMENT_LENGTH}
+        className="w-full rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-black/20 p-3 text-xs focus:outline-none focus:ring-2 focus:ring-primary-500/50 min-h-[64px] resize-y dark:text-white placeholder:text-slate-400"
+      />
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-slate-400">Markdown supported</span>
+        <div className="flex items-center gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-3 py-1.5 text-xs font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!trimmed || isSubmitting}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-white bg-primary-600 hover:bg-primary-700 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSubmitting && <Loader2 size={12} className="animate-spin" />}
+            {submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Reply, Edit2, Trash2, Flag } from 'lucide-react';
+import { NuggetComment } from '@/types';
+import { Avatar } from '../shared/Avatar';
+import { MarkdownRenderer } from '../MarkdownRenderer';
+import { formatDate } from '@/utils/formatters';
+import { useRequireAuth } from '@/hooks/useRequireAuth';
+import { CommentComposer } from './CommentComposer';
+
+const MAX_DEPTH = 3; // Mirrors the server cap; deeper replies are attached as siblings
+
+interface CommentItemProps {
+  comment: NuggetComment;
+  currentUserId?: string;
+  onReply: (parent: NuggetComment, content: string) => Promise<void>;
+  onEdit: (comment: NuggetComment, content: string) => Promise<void>;
+  onDelete: (comment: NuggetComment) => void;
+  onReport: (comment: NuggetComment) => void;
+}
+
+export const CommentItem: React.FC<CommentItemProps> = ({
+  comment,
+  currentUserId,
+  onReply,
+  onEdit,
+  onDelete,
+  onReport,
+}) => {
+  const [isReplying, setIsReplying] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const { withAuth } = useRequireAuth();
+  const isDeleted = comment.status === 'deleted';
+  const isOwn = !!currentUserId && comment.author.id === currentUserId;
+
+  const actionClass = 'inline-flex items-center gap-1 text-[11px] font-semibold text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 transition-colors';
+
+  return (
+    <div className="flex gap-2.5">
+      {isDeleted ? (
+        <div className="w-6 h-6 shrink-0 rounded-full bg-slate-100 dark:bg-slate-800" />
+      ) : (
+        <Avatar name={comment.author.name} src={comment.author.avatarUrl} size="sm" className="shrink-0" />
+      )}
+
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-1.5 text-[11px]">
+          <span className={`font-bold ${isDeleted ? 'text-slate-400 italic' : 'text-slate-900 dark:text-white'}`}>
+            {comment.author.name}
+          </span>
+          <span className="text-slate-400">{formatDate(comment.createdAt, false)}</span>
+          {comment.editedAt && !isDeleted && <span className="text-slate-400">· edited</span>}
+        </div>
+
+        {isEditing ? (
+          <div className="mt-1.5">
+            <CommentComposer
+              initialValue={comment.content}
+              submitLabel="Save"
+              autoFocus
+              onSubmit={async (content) => {
+                await onEdit(comment, content);
+                setIsEditing(false);
+              }}
+              onCancel={() => setIsEditing(false)}
+            />
+          </div>
+        ) : isDeleted ? (
+          <p className="mt-0.5 text-xs italic text-slate-400">This comment was deleted.</p>
+        ) : (
+          <div className="mt-0.5 text-xs text-slate-700 dark:text-slate-300 leading-relaxed break-words">
+            <MarkdownRenderer content={comment.content} />
+          </div>
+        )}
+
+        {!isDeleted && !isEditing && (
+          <div className="flex items-center gap-3 mt-1">
+            <button type="button" className={actionClass} onClick={withAuth(() => setIsReplying(!isReplying))}>
+              <Reply size={12} /> Reply
+            </button>
+            {comment.canEdit && (
+              <button type="button" className={actionClass} onClick={() => setIsEditing(true)}>
+                <Edit2 size={12} /> Edit
+              </button>
+            )}
+            {comment.canDelete && (
+              <button type="button" className={`${actionClass} hover:!text-red-600`} onClick={() => onDelete(comment)}>
+                <Trash2 size={12} /> Delete
+              </button>
+            )}
+            {!isOwn && (
+              <button type="button" className={actionClass} onClick={() => onReport(comment)}>
+                <Flag size={12} /> Report
+              </button>
+            )}
+          </div>
+        )}
+
+        {isReplying && (
+          <div className="mt-2">
+            <CommentComposer
+              placeholder={`Reply to ${comment.author.name}…`}
+              submitLabel="Reply"
+              autoFocus
+              onSubmit={async (content) => {
+                await onReply(comment, content);
+                setIsReplying(false);
+              }}
+              onCancel={() => setIsReplying(false)}
+            />
+          </div>
+        )}
+
+        {comment.replies.length > 0 && (
+          <div className={`mt-3 space-y-3 ${comment.depth < MAX_DEPTH ? 'pl-3 border-l border-slate-100 dark:border-slate-800' : ''}`}>
+            {comment.replies.map(reply => (
+              <CommentItem
+                key={reply.id}
+                comment={reply}
+                currentUserId={currentUserId}
+                onReply={onReply}
+                onEdit={onEdit}
+                onDelete={onDelete}
+                onReport={onReport}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { MessageSquare, Loader2 } from 'lucide-react';
+import { NuggetComment } from '@/types';
+import { commentService } from '@/services/commentService';
+import { adminModerationService } from '@/admin/services/adminModerationService';
+import { useAuth } from '@/hooks/useAuth';
+import { useRequireAuth } from '@/hooks/useRequireAuth';
+import { useToast } from '@/hooks/useToast';
+import { ReportModal, ReportPayload } from '../ReportModal';
+import { CommentComposer } from './CommentComposer';
+import { CommentItem } from './CommentItem';
+
+interface CommentSectionProps {
+  articleId: string;
+  className?: string;
+}
+
+/**
+ * Threaded discussion under a nugget
+ * Reading is public; posting goes through withAuth so guests get the login prompt.
+ */
+export const CommentSection: React.FC<CommentSectionProps> = ({ articleId, className = '' }) => {
+  const queryClient = useQueryClient();
+  const { currentUser, isAuthenticated } = useAuth();
+  const { withAuth } = useRequireAuth();
+  const toast = useToast();
+  const [reportTarget, setReportTarget] = useState<NuggetComment | null>(null);
+
+  const queryKey = ['comments', articleId];
+  const { data, isLoading, isError } = useQuery({
+    queryKey,
+    queryFn: () => commentService.getComments(articleId),
+    enabled: !!articleId,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey });
+
+  const showError = (err: any, fallback: string) => {
+    const status = err?.response?.status;
+    if (status === 403) {
+      toast.error('This comment can no longer be changed');
+    } else if (status === 429) {
+      toast.error('You are commenting too quickly', 'Please wait a moment and try again.');
+    } else {
+      toast.error(fallback);
+    }
+  };
+
+  const handleCreate = async (content: string, parentId?: string) => {
+    try {
+      await commentService.createComment(articleId, content, parentId);
+      await refresh();
+    } catch (err) {
+      showError(err, 'Could not post comment');
+      throw err;
+    }
+  };
+
+  const handleEdit = async (comment: NuggetComment, content: string) => {
+    try {
+      await commentService.updateComment(comment.id, content);
+      await refresh();
+    } catch (err) {
+      showError(err, 'Could not update comment');
+      refresh();
+      throw err;
+    }
+  };
+
+  const handleDelete = async (comment: NuggetComment) => {
+    if (!window.confirm('Delete this comment?')) return;
+    try {
+      await commentService.deleteComment(comment.id);
+      await refresh();
+    } catch (err) {
+      showError(err, 'Could not delete comment');
+      refresh();
+    }
+  };
+
+  const handleReport = async (payload: ReportPayload) => {
+    if (!reportTarget) return;
+    await adminModerationService.submitReport(
+      reportTarget.id,
+      'comment',
+      payload.reason,
+      payload.comment?.trim() || undefined,
+      currentUser ? { id: currentUser.id, name: currentUser.name } : undefined,
+      { id: reportTarget.author.id, name: reportTarget.author.name }
+    );
+    toast.success('Report submitted', 'Thanks for helping keep the community safe.');
+  };
+
+  const total = data?.total ?? 0;
+
+  return (
+    <section className={className} onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-1.5 mb-3 text-[10px] font-semibold text-slate-400 dark:text-slate-500 uppercase tracking-wide">
+        <MessageSquare size={12} />
+        {total > 0 ? `${total} ${total === 1 ? 'comment' : 'comments'}` : 'Comments'}
+      </div>
+
+      {isAuthenticated ? (
+        <CommentComposer onSubmit={(content) => handleCreate(content)} />
+      ) : (
+        <button
+          type="button"
+          onClick={withAuth(() => {})}
+          className="w-full text-left rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-black/20 p-3 text-xs text-slate-400 hover:border-slate-300 dark:hover:border-slate-600 transition-colors"
+        >
+          Sign in to join the discussion…
+        </button>
+      )}
+
+      <div className="mt-4 space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 size={16} className="animate-spin text-slate-400" />
+          </div>
+        ) : isError ? (
+          <p className="py-4 text-center text-xs text-slate-400">Could not load comments.</p>
+        ) : data && data.data.length > 0 ? (
+          data.data.map(comment => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              currentUserId={currentUser?.id}
+              onReply={(parent, content) => handleCreate(content, parent.id)}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+              onReport={(target) => withAuth(() => setReportTarget(target))()}
+            />
+          ))
+        ) : (
+          <p className="py-2 text-xs text-slate-400">No comments yet. Start the conversation.</p>
+        )}
+      </div>
+
+      <ReportModal
+        isOpen={!!reportTarget}
+        onClose={() => setReportTarget(null)}
+        onSubmit={handleReport}
+        articleId={reportTarget?.id ?? ''}
+        title="Report comment"
+      />
+    </section>
+  );
+};
@@ -7,7 +7,7 @@
  * - Sticky bottom positioning
  * - Safe-area insets (mobile-first)
  * - Thumb-reachable actions
- * - Like, Bookmark, Share actions
+ * - Like (with count), reactions, Bookmark, Share actions
  * - Source link
  * 
  * ============================================================================
@@ -17,6 +17,9 @@ import React from 'react';
 import { Heart, Bookmark, Share2, ExternalLink } from 'lucide-react';
 import { Article } from '@/types';
 import { SourceBadge } from '../shared/SourceBadge';
+import { ReactionPicker } from '../shared/ReactionPicker';
+import { useArticleReactions } from '@/hooks/useArticleReactions';
+import { useRequireAuth } from '@/hooks/useRequireAuth';
 import { twMerge } from 'tailwind-merge';
 
 export interface ActionDockProps {
@@ -24,7 +27,7 @@ export interface ActionDockProps {
   article: Article;
   /** Source URL */
   sourceUrl?: string;
-  /** Like handler */
+  /** Called after the like state was toggled (reactions are handled by the dock) */
   onLike?: () => void;
   /** Bookmark handler */
   onBookmark?: () => void;
@@ -39,9 +42,15 @@ export const ActionDock: React.FC<ActionDockProps> = ({
   onBookmark,
   onShare,
 }) => {
-  // Check if article is liked/bookmarked (placeholder - replace with actual state)
-  const isLiked = false;
+  const { withAuth } = useRequireAuth();
+  const { isLiked, likeCount, engagement, viewerReactions, toggleReaction } = useArticleReactions(article);
+  // Bookmark state is not tracked here yet (placeholder)
   const isBookmarked = false;
+
+  const handleLike = withAuth(async () => {
+    await toggleReaction('like');
+    onLike?.();
+  });
   
   const handleSourceClick = () => {
     if (sourceUrl) {
@@ -91,24 +100,33 @@ export const ActionDock: React.FC<ActionDockProps> = ({
       {/* Action Buttons */}
       <div className="flex items-center gap-2 shrink-0">
         {/* Like */}
-        {onLike && (
-          <button
-            onClick={onLike}
-            className={twMerge(
-              'p-3 rounded-full',
-              'transition-colors',
-              isLiked
-                ? 'text-red-500 bg-red-50 dark:bg-red-950/30'
-                : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'
-            )}
-            aria-label={isLiked ? 'Unlike' : 'Like'}
-          >
-            <Heart
-              size={20}
-              className={isLiked ? 'fill-current' : ''}
-            />
-          </button>
-        )}
+        <button
+          onClick={handleLike}
+          className={twMerge(
+            'flex items-center gap-1.5 p-3 rounded-full',
+            'transition-colors',
+            isLiked
+              ? 'text-red-500 bg-red-50 dark:bg-red-950/30'
+              : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'
+          )}
+          aria-label={isLiked ? 'Unlike' : 'Like'}
+          aria-pressed={isLiked}
+        >
+          <Heart
+            size={20}
+            className={isLiked ? 'fill-current' : ''}
+          />
+          {likeCount > 0 && <span className="text-sm font-medium">{likeCount}</span>}
+        </button>
+
+        {/* Reactions */}
+        <ReactionPicker
+          viewerReactions={viewerReactions}
+          engagement={engagement}
+          onReact={withAuth(toggleReaction)}
+          iconSize={20}
+          buttonClassName="min-w-11 h-11 p-3 text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+        />
         
         {/* Bookmark */}
         {onBookmark && (
@@ -10,6 +10,7 @@
  * - Zoom + pan support for tall infographics
  * - Sticky DetailHeader (Close button)
  * - Sticky ActionDock (safe-area insets)
+ * - Collapsible comments panel above the ActionDock
  * - Focus trap + ESC to close
  * - ARIA labels for accessibility
  * 
@@ -25,12 +26,14 @@
 import React, { useEffect, useState, useCallback, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { X, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
+import { MessageSquare, ChevronDown, ChevronUp } from 'lucide-react';
 import { Article } from '@/types';
 import { ImageLayer } from './ImageLayer';
 import { DetailHeader } from './DetailHeader';
 import { ActionDock } from './ActionDock';
 import { twMerge } from 'tailwind-merge';
 import { getThumbnailUrl } from '@/utils/mediaClassifier';
+import { CommentSection } from '../comments/CommentSection';
 
 export interface DetailViewBottomSheetProps {
   /** Article to display */
@@ -114,6 +117,7 @@ export const DetailViewBottomSheet: React.FC<DetailViewBottomSheetProps> = ({
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [initialPan, setInitialPan] = useState({ x: 0, y: 0 });
+  const [showComments, setShowComments] = useState(false);
   
   const imageContainerRef = useRef<HTMLDivElement>(null);
   const lastTouchDistanceRef = useRef<number | null>(null);
@@ -128,6 +132,7 @@ export const DetailViewBottomSheet: React.FC<DetailViewBottomSheetProps> = ({
       setZoom(1);
       setPan({ x: 0, y: 0 });
       setImageLoaded(false);
+      setShowComments(false);
     }
   }, [article?.id]);
   
@@ -391,6 +396,26 @@ export const DetailViewBottomSheet: React.FC<DetailViewBottomSheetProps> = ({
           </div>
         </div>
         
+        {/* Comments Panel - collapsed by default so the image keeps the space */}
+        <div className="border-t border-slate-100 dark:border-slate-800">
+          <button
+            type="button"
+            onClick={() => setShowComments((prev) => !prev)}
+            className="flex items-center justify-between w-full px-4 py-2 text-xs font-semibold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-900 transition-colors"
+            aria-expanded={showComments}
+          >
+            <span className="flex items-center gap-1.5">
+              <MessageSquare size={14} /> Comments
+            </span>
+            {showComments ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+          </button>
+          {showComments && (
+            <div className="max-h-[50vh] overflow-y-auto px-4 pb-4">
+              <CommentSection articleId={article.id} />
+            </div>
+          )}
+        </div>
+        
         {/* Sticky Action Dock */}
         {article && (
           <ActionDock
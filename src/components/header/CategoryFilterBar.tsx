@@ -11,6 +11,7 @@ interface CategoryFilterBarProps {
   categories: Category[];
   activeCategory: string; // Default 'All'
   onSelect: (categoryLabel: string) => void;
+  showFollowing?: boolean; // Pins "Following" (nuggets by followed authors) for signed-in users
 }
 
 /**
@@ -31,12 +32,14 @@ export const CategoryFilterBar: React.FC<CategoryFilterBarProps> = ({
   categories,
   activeCategory = 'All',
   onSelect,
+  showFollowing = false,
 }) => {
-  // Smart sort logic: Pin "All" and "Today", then sort by count (high to low), then alphabetically
+  // Smart sort logic: Pin "All", "Today" and "Following", then sort by count (high to low), then alphabetically
   const sortedCategories = useMemo(() => {
-    // Filter out "All" and "Today" from incoming categories to avoid duplicates
+    // Filter out pinned labels from incoming categories to avoid duplicates
+    const pinnedLabels = ['all', 'today', 'following'];
     const filteredCategories = categories.filter(
-      (cat) => cat.label.toLowerCase() !== 'all' && cat.label.toLowerCase() !== 'today'
+      (cat) => !pinnedLabels.includes(cat.label.toLowerCase())
     );
 
     // Sort the rest: Primary by count (high to low), secondary by alphabetical (A-Z)
@@ -49,15 +52,18 @@ export const CategoryFilterBar: React.FC<CategoryFilterBarProps> = ({
       return a.label.localeCompare(b.label);
     });
 
-    // Build final display list: "All" first, "Today" second, then sorted rest
+    // Build final display list: "All" first, "Today" second, "Following" third, then sorted rest
     const displayList: Array<{ label: string; count?: number }> = [
       { label: 'All' },
       { label: 'Today' },
+      ...(showFollowing ? [{ label: 'Following' }] : []),
       ...sorted,
     ];
 
     return displayList;
-  }, [categories]);
+  }, [categories, showFollowing]);
+
+  const pinnedCount = showFollowing ? 3 : 2;
 
   const handleSelect = (label: string, e?: React.MouseEvent) => {
     e?.stopPropagation();
@@ -98,8 +104,8 @@ export const CategoryFilterBar: React.FC<CategoryFilterBarProps> = ({
           {sortedCategories.map((category, index) => {
             const isActive = activeCategory === category.label;
             const isToday = category.label === 'Today';
-            // Show divider after "Today" (index 1) and before first category (index 2)
-            const showDivider = index === 2;
+            // Show divider after the pinned pills and before the first category
+            const showDivider = index === pinnedCount;
 
             return (
               <React.Fragment key={`${category.label}-${index}`}>
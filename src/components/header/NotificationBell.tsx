@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { Bell, CheckCheck } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { AppNotification } from '@/types';
+import { notificationService } from '@/services/notificationService';
+import { queryClient } from '@/queryClient';
+import { NOTIFICATION_UNREAD_QUERY_KEY, useNotificationUnreadCount } from '@/hooks/useNotificationUnreadCount';
+import { Avatar } from '../shared/Avatar';
+import { DropdownPortal } from '../UI/DropdownPortal';
+import { formatRelativeTime } from '@/utils/relativeTime';
+
+/**
+ * Header bell with an unread badge; the dropdown loads the latest
+ * notifications each time it opens
+ */
+export const NotificationBell: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const unreadCount = useNotificationUnreadCount();
+  const navigate = useNavigate();
+
+  const setUnreadCount = (count: number) => queryClient.setQueryData(NOTIFICATION_UNREAD_QUERY_KEY, count);
+
+  const open = async () => {
+    setIsOpen(true);
+    setIsLoading(true);
+    setLoadFailed(false);
+    try {
+      const page = await notificationService.getNotifications(1);
+      setNotifications(page.data);
+      setUnreadCount(page.unreadCount);
+    } catch {
+      setLoadFailed(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleRead = async (notification: AppNotification, read: boolean) => {
+    const readAt = read ? new Date().toISOString() : undefined;
+    setNotifications(prev => prev.map(item => (item.id === notification.id ? { ...item, readAt } : item)));
+    try {
+      setUnreadCount(await notificationService.setRead(notification.id, read));
+    } catch {
+      setNotifications(prev => prev.map(item => (item.id === notification.id ? notification : item)));
+    }
+  };
+
+  const markAllRead = async () => {
+    const previous = notifications;
+    const now = new Date().toISOString();
+    setNotifications(prev => prev.map(item => ({ ...item, readAt: item.readAt || now })));
+    try {
+      await notificationService.markAllRead();
+      setUnreadCount(0);
+    } catch {
+      setNotifications(previous);
+    }
+  };
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.readAt) toggleRead(notification, true);
+    if (notification.link) {
+      setIsOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        onClick={(e) => {
+          e.stopPropagation();
+          if (isOpen) setIsOpen(false);
+          else open();
+        }}
+        className="relative p-2 text-gray-500 hover:text-gray-700 transition-colors"
+        title="Notifications"
+        aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+      >
+        <Bell size={16} />
+        {unreadCount > 0 && (
+          <span className="absolute top-0.5 right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-yellow-400 text-gray-900 text-[10px] font-bold leading-4 text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      <DropdownPortal
+        isOpen={isOpen}
+        anchorRef={buttonRef}
+        onClickOutside={() => setIsOpen(false)}
+        className="w-80 bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden"
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+          <p className="text-sm font-medium text-gray-900">Notifications</p>
+          <button
+            onClick={markAllRead}
+            disabled={!notifications.some(item => !item.readAt)}
+            className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-gray-900 disabled:opacity-40 disabled:hover:text-gray-500 transition-colors"
+          >
+            <CheckCheck size={14} /> Mark all read
+          </button>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading && notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-xs text-gray-500">Loading…</p>
+          ) : loadFailed ? (
+            <p className="px-4 py-6 text-center text-xs text-gray-500">Could not load notifications</p>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-xs text-gray-500">You're all caught up</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {notifications.map(notification => (
+                <li
+                  key={notification.id}
+                  className={`flex items-start gap-3 px-4 py-3 ${notification.readAt ? '' : 'bg-yellow-50'}`}
+                >
+                  {notification.actor ? (
+                    <Avatar name={notification.actor.name} src={notification.actor.avatarUrl} size="sm" />
+                  ) : (
+                    <span className="w-6 h-6 rounded-full bg-gray-100 flex items-center justify-center shrink-0">
+                      <Bell size={12} className="text-gray-500" />
+                    </span>
+                  )}
+                  <button
+                    onClick={() => openNotification(notification)}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <p className="text-sm text-gray-700">
+                      {notification.actor && <span className="font-medium text-gray-900">{notification.actor.name} </span>}
+                      {notification.message}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-0.5">{formatRelativeTime(notification.createdAt)}</p>
+                  </button>
+                  <button
+                    onClick={() => toggleRead(notification, !notification.readAt)}
+                    className={`mt-1.5 w-2.5 h-2.5 rounded-full shrink-0 border transition-colors ${
+                      notification.readAt ? 'border-gray-300 hover:bg-gray-200' : 'border-yellow-400 bg-yellow-400'
+                    }`}
+                    title={notification.readAt ? 'Mark as unread' : 'Mark as read'}
+                    aria-label={notification.readAt ? 'Mark as unread' : 'Mark as read'}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DropdownPortal>
+    </>
+  );
+};
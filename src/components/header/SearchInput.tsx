@@ -1,24 +1,64 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Search } from 'lucide-react';
+import { Article } from '@/types';
+import { HighlightedText } from '@/components/shared/HighlightedText';
+
+type SearchResult = Pick<Article, 'id' | 'title' | 'excerpt' | 'searchHighlight'>;
 
 interface SearchInputProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
+  // Optional quick results shown under the input while it has focus
+  results?: SearchResult[];
+  onSelectResult?: (result: SearchResult) => void;
 }
 
-export const SearchInput: React.FC<SearchInputProps> = ({ value, onChange, placeholder = "Search..." }) => {
+export const SearchInput: React.FC<SearchInputProps> = ({ value, onChange, placeholder = "Search...", results, onSelectResult }) => {
+  const [isFocused, setIsFocused] = useState(false);
+  const showResults = isFocused && !!value.trim() && !!results && results.length > 0;
+
   return (
-    <div className="flex items-center px-3 transition-colors cursor-text w-full overflow-hidden">
-      <Search size={18} className="text-slate-400 mr-3 shrink-0" />
-      <input 
-        className="flex-1 bg-transparent py-2.5 text-sm font-medium focus:outline-none text-slate-700 dark:text-slate-200 min-w-[50px] placeholder-slate-400 w-full" 
-        value={value} 
-        onChange={(e) => onChange(e.target.value)} 
-        placeholder={placeholder} 
-      />
+    <div className="relative w-full">
+      <div className="flex items-center px-3 transition-colors cursor-text w-full overflow-hidden">
+        <Search size={18} className="text-slate-400 mr-3 shrink-0" />
+        <input
+          className="flex-1 bg-transparent py-2.5 text-sm font-medium focus:outline-none text-slate-700 dark:text-slate-200 min-w-[50px] placeholder-slate-400 w-full"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onFocus={() => setIsFocused(true)}
+          // Delay so a click on a result registers before the list closes
+          onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+          placeholder={placeholder}
+          title={'Search tips: "exact phrase", -exclude, tag:, author:, source:'}
+        />
+      </div>
+
+      {showResults && (
+        <ul className="absolute left-0 right-0 top-full mt-1 z-50 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-xl shadow-xl overflow-hidden">
+          {results!.map(result => (
+            <li key={result.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => onSelectResult?.(result)}
+                className="w-full text-left px-4 py-2.5 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
+              >
+                <div className="text-sm font-bold text-slate-900 dark:text-white truncate">
+                  {result.searchHighlight?.field === 'title'
+                    ? <HighlightedText highlight={result.searchHighlight} />
+                    : (result.title || result.excerpt)}
+                </div>
+                {result.searchHighlight && result.searchHighlight.field !== 'title' && (
+                  <div className="text-xs text-slate-500 dark:text-slate-400 line-clamp-2 mt-0.5">
+                    <HighlightedText highlight={result.searchHighlight} />
+                  </div>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
-
-
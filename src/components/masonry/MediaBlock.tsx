@@ -172,6 +172,8 @@ export const MediaBlock: React.FC<MediaBlockProps> = ({
                   
                   <Image
                     src={item.url}
+                    variant={article.imageVariants?.[item.url]}
+                    sizes="(min-width: 1280px) 25vw, (min-width: 768px) 33vw, 50vw"
                     alt={article.title ? `Image ${index + 1} for ${article.title}` : `Article image ${index + 1}`}
                     className="w-full h-auto object-contain"
                   />
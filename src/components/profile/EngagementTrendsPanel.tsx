@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Eye, Share2, Loader2 } from 'lucide-react';
+import { engagementService, EngagementTrendPoint } from '@/services/engagementService';
+
+const RANGES = [7, 30, 90];
+const CHART_HEIGHT = 120;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+// Views as light bars with shares drawn over them; one column per day
+const TrendChart: React.FC<{ points: EngagementTrendPoint[] }> = ({ points }) => {
+  const max = Math.max(1, ...points.map(point => Math.max(point.views, point.shares)));
+  const columnWidth = 100 / points.length;
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 100 ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-32"
+        role="img"
+        aria-label="Daily views and shares"
+      >
+        {points.map((point, index) => {
+          const x = index * columnWidth + columnWidth * 0.15;
+          const width = columnWidth * 0.7;
+          const viewsHeight = (point.views / max) * CHART_HEIGHT;
+          const sharesHeight = (point.shares / max) * CHART_HEIGHT;
+          return (
+            <g key={point.date}>
+              <title>{`${formatDay(point.date)}: ${point.views} views, ${point.shares} shares`}</title>
+              <rect x={x} y={CHART_HEIGHT - viewsHeight} width={width} height={viewsHeight} className="fill-yellow-300 dark:fill-yellow-500/60" />
+              <rect x={x} y={CHART_HEIGHT - sharesHeight} width={width} height={sharesHeight} className="fill-indigo-500" />
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex justify-between mt-1 text-[10px] text-gray-400 dark:text-slate-500">
+        <span>{formatDay(points[0].date)}</span>
+        <span>{formatDay(points[points.length - 1].date)}</span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Views and shares across the current user's nuggets (owner-only on MySpacePage)
+ */
+export const EngagementTrendsPanel: React.FC = () => {
+  const [days, setDays] = useState(30);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['engagement', 'trends', days],
+    queryFn: () => engagementService.getMyTrends(days),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  return (
+    <div className="bg-white dark:bg-slate-900 border border-gray-200 dark:border-slate-700 rounded-2xl p-5 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-6">
+          <div>
+            <div className="flex items-center gap-1.5 text-xs font-bold text-gray-500 dark:text-slate-400">
+              <span className="w-2 h-2 rounded-sm bg-yellow-300 dark:bg-yellow-500/60" />
+              <Eye size={12} /> Views
+            </div>
+            <div className="text-2xl font-bold text-gray-900 dark:text-white">{data?.totals.views ?? 0}</div>
+          </div>
+          <div>
+            <div className="flex items-center gap-1.5 text-xs font-bold text-gray-500 dark:text-slate-400">
+              <span className="w-2 h-2 rounded-sm bg-indigo-500" />
+              <Share2 size={12} /> Shares
+            </div>
+            <div className="text-2xl font-bold text-gray-900 dark:text-white">{data?.totals.shares ?? 0}</div>
+          </div>
+        </div>
+
+        <div className="flex bg-gray-100 dark:bg-slate-800 p-1 rounded-xl border border-gray-200 dark:border-slate-700">
+          {RANGES.map(range => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`px-3 py-1 text-xs font-bold rounded-lg transition-all ${days === range ? 'bg-white dark:bg-slate-700 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 hover:text-gray-700 dark:hover:text-slate-300'}`}
+            >
+              {range}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="animate-spin text-slate-400" />
+        </div>
+      ) : isError || !data ? (
+        <p className="py-12 text-center text-sm text-gray-400">Could not load engagement trends.</p>
+      ) : (
+        <TrendChart points={data.points} />
+      )}
+    </div>
+  );
+};
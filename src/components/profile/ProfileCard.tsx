@@ -7,6 +7,7 @@ import { Avatar } from '../shared/Avatar';
 import { adminConfigService } from '@/admin/services/adminConfigService';
 import { LAYOUT_CLASSES } from '@/constants/layout';
 import { useMediaUpload } from '@/hooks/useMediaUpload';
+import { UserCheck, UserPlus } from 'lucide-react';
 
 // Simple Instagram and Facebook icons (not in lucide-react)
 const InstagramIcon: React.FC<{ size?: number; className?: string }> = ({ size = 18, className = '' }) => (
@@ -46,11 +47,13 @@ interface ProfileCardProps {
   isOwner: boolean;
   nuggetCount: number;
   onUpdate: (updatedUser: User) => void;
+  onToggleFollow?: () => Promise<void>; // Shown to signed-in visitors of someone else's profile
 }
 
-export const ProfileCard: React.FC<ProfileCardProps> = ({ user, isOwner, nuggetCount, onUpdate }) => {
+export const ProfileCard: React.FC<ProfileCardProps> = ({ user, isOwner, nuggetCount, onUpdate, onToggleFollow }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [isTogglingFollow, setIsTogglingFollow] = useState(false);
   const [allowUpload, setAllowUpload] = useState(false);
   const toast = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -294,13 +297,25 @@ export const ProfileCard: React.FC<ProfileCardProps> = ({ user, isOwner, nuggetC
         )}
       </div>
 
-      {/* 3. Stats - Followers removed for MVP, Centered, Sentence Case */}
+      {/* 3. Stats - Centered, Sentence Case */}
       {!isEditing && (
-        <div className="flex items-center justify-center py-4 border-t border-b border-slate-100 dark:border-slate-800">
+        <div className="flex items-center justify-center gap-6 py-4 border-t border-b border-slate-100 dark:border-slate-800">
             <div className="text-center">
                 <div className="text-lg font-bold text-slate-900 dark:text-white">{nuggetCount}</div>
                 <div className="text-[10px] font-bold text-slate-400 tracking-wider">Nuggets</div>
             </div>
+            {user.followStats && (
+                <>
+                    <div className="text-center">
+                        <div className="text-lg font-bold text-slate-900 dark:text-white">{user.followStats.followersCount}</div>
+                        <div className="text-[10px] font-bold text-slate-400 tracking-wider">Followers</div>
+                    </div>
+                    <div className="text-center">
+                        <div className="text-lg font-bold text-slate-900 dark:text-white">{user.followStats.followingCount}</div>
+                        <div className="text-[10px] font-bold text-slate-400 tracking-wider">Following</div>
+                    </div>
+                </>
+            )}
         </div>
       )}
 
@@ -371,6 +386,27 @@ export const ProfileCard: React.FC<ProfileCardProps> = ({ user, isOwner, nuggetC
       </div>
 
       {/* 5. Action Buttons (Always Last) */}
+      {!isOwner && onToggleFollow && (
+        <div className="pt-2">
+            <button
+                onClick={async () => {
+                    setIsTogglingFollow(true);
+                    try {
+                        await onToggleFollow();
+                    } finally {
+                        setIsTogglingFollow(false);
+                    }
+                }}
+                disabled={isTogglingFollow}
+                className={user.followStats?.isFollowing
+                    ? 'w-full py-2.5 px-4 rounded-xl border border-slate-200 dark:border-slate-700 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors flex items-center justify-center gap-2 disabled:opacity-50'
+                    : 'w-full py-2.5 px-4 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-sm font-bold hover:opacity-90 transition-opacity flex items-center justify-center gap-2 disabled:opacity-50'}
+            >
+                {user.followStats?.isFollowing ? <UserCheck size={16} /> : <UserPlus size={16} />}
+                {user.followStats?.isFollowing ? 'Following' : 'Follow'}
+            </button>
+        </div>
+      )}
       {isOwner && (
         <div className="pt-2">
             {isEditing ? (
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { CalendarClock, Loader2 } from 'lucide-react';
+
+interface SchedulePublishModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  count: number; // Nuggets being scheduled
+  scheduledPublishAt?: string; // Current schedule (ISO), when editing a single nugget
+  onSchedule: (scheduledPublishAt: string) => Promise<void>;
+  onClear?: () => Promise<void>; // Shown when there is a schedule to remove
+}
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInputValue = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// Default suggestion: the next full hour
+const getDefaultValue = (): string => {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return toLocalInputValue(date);
+};
+
+export const SchedulePublishModal: React.FC<SchedulePublishModalProps> = ({
+  isOpen,
+  onClose,
+  count,
+  scheduledPublishAt,
+  onSchedule,
+  onClear,
+}) => {
+  const [value, setValue] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setValue(scheduledPublishAt ? toLocalInputValue(new Date(scheduledPublishAt)) : getDefaultValue());
+    }
+  }, [isOpen, scheduledPublishAt]);
+
+  if (!isOpen) return null;
+
+  const selected = value ? new Date(value) : null;
+  const isValid = !!selected && !Number.isNaN(selected.getTime()) && selected.getTime() > Date.now();
+
+  const run = async (action: () => Promise<void>) => {
+    setIsProcessing(true);
+    try {
+      await action();
+      onClose();
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200"
+        onClick={() => !isProcessing && onClose()}
+      />
+
+      <div className="relative w-full max-w-md bg-white dark:bg-slate-900 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-800 p-6 animate-in zoom-in-95 duration-200">
+        <div className="w-12 h-12 rounded-full flex items-center justify-center mb-4 bg-blue-50 text-blue-600 dark:bg-blue-900/20 dark:text-blue-400">
+          <CalendarClock size={24} />
+        </div>
+
+        <h3 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Schedule Publishing</h3>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mb-6 leading-relaxed">
+          {count === 1 ? 'This nugget stays private' : `These ${count} nuggets stay private`} until the time below, then {count === 1 ? 'becomes' : 'become'} public automatically.
+        </p>
+
+        <div className="mb-6">
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">
+            Publish at
+          </label>
+          <input
+            type="datetime-local"
+            className="w-full px-4 py-2 bg-slate-50 dark:bg-black/20 border border-slate-200 dark:border-slate-700 rounded-lg focus:outline-none focus:border-primary-500 transition-colors text-sm text-slate-900 dark:text-white"
+            value={value}
+            min={toLocalInputValue(new Date())}
+            onChange={(e) => setValue(e.target.value)}
+          />
+          {value && !isValid && (
+            <p className="mt-2 text-xs text-red-500">Pick a time in the future.</p>
+          )}
+        </div>
+
+        <div className="flex gap-3 justify-end">
+          {onClear && (
+            <button
+              onClick={() => run(onClear)}
+              disabled={isProcessing}
+              className="mr-auto px-4 py-2 text-sm font-bold text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Remove Schedule
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            disabled={isProcessing}
+            className="px-4 py-2 text-sm font-bold text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => selected && run(() => onSchedule(selected.toISOString()))}
+            disabled={!isValid || isProcessing}
+            className="flex items-center gap-2 px-6 py-2 rounded-lg text-sm font-bold text-white shadow-sm transition-all bg-primary-500 hover:bg-primary-600 disabled:opacity-50"
+          >
+            {isProcessing && <Loader2 size={16} className="animate-spin" />}
+            Schedule
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
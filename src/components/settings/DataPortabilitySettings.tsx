@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Upload, Loader2, FileArchive, CheckCircle2, XCircle } from 'lucide-react';
+import { accountDataService } from '@/services/accountDataService';
+import { useToast } from '@/hooks/useToast';
+import { formatDate } from '@/utils/formatters';
+import { formatFileSize } from '@/utils/imageOptimizer';
+import { AccountDataJob, AccountImportSectionResult } from '@/types/accountData';
+
+const POLL_INTERVAL_MS = 3000;
+
+const isPending = (job?: AccountDataJob) => job?.status === 'queued' || job?.status === 'running';
+
+const describeSection = (label: string, result: AccountImportSectionResult) => {
+  const parts = [`${result.imported} ${label}`];
+  if (result.skipped > 0) parts.push(`${result.skipped} already present`);
+  if (result.failed > 0) parts.push(`${result.failed} failed`);
+  return parts.join(', ');
+};
+
+const JobStatusIcon: React.FC<{ job: AccountDataJob }> = ({ job }) => {
+  if (isPending(job)) return <Loader2 size={18} className="mt-0.5 animate-spin text-primary-500" />;
+  if (job.status === 'failed') return <XCircle size={18} className="mt-0.5 text-red-500" />;
+  return <CheckCircle2 size={18} className="mt-0.5 text-green-600" />;
+};
+
+/**
+ * "Your Data" section of Account Settings
+ * Export everything as a ZIP (built in the background, then downloaded via a
+ * short-lived link) and restore such a ZIP from this or another instance.
+ */
+export const DataPortabilitySettings: React.FC = () => {
+  const toast = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [jobs, setJobs] = useState<AccountDataJob[] | null>(null);
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const latestExport = jobs?.find(job => job.type === 'export');
+  const latestImport = jobs?.find(job => job.type === 'import');
+  const hasPendingJob = isPending(latestExport) || isPending(latestImport);
+
+  const loadJobs = async () => {
+    try {
+      setJobs(await accountDataService.listJobs());
+    } catch (e: any) {
+      if (e.message !== 'Request cancelled') setJobs(prev => prev ?? []);
+    }
+  };
+
+  useEffect(() => {
+    loadJobs();
+  }, []);
+
+  // Poll while a job is running; download links are issued with the finished job
+  useEffect(() => {
+    if (!hasPendingJob) return;
+    const timer = setTimeout(loadJobs, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [hasPendingJob, jobs]);
+
+  const handleRequestExport = async () => {
+    setIsRequesting(true);
+    try {
+      await accountDataService.requestExport();
+      toast.success('Export started', "We'll have your download ready in a moment.");
+      await loadJobs();
+    } catch (e: any) {
+      toast.error('Could not start export', e.message);
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      await accountDataService.importArchive(file);
+      toast.success('Import started', 'Your data is being restored in the background.');
+      await loadJobs();
+    } catch (err: any) {
+      toast.error('Could not import file', err.message);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (!jobs) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-500 p-4">
+        <Loader2 size={14} className="animate-spin" /> Loading...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Export */}
+      <div className="p-4 bg-slate-50 dark:bg-black/20 rounded-xl space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <Download size={18} className="mt-0.5 text-slate-400" />
+            <div>
+              <div className="text-sm font-bold text-slate-900 dark:text-white">Export your data</div>
+              <div className="text-xs text-slate-500 mt-0.5">
+                A ZIP with your profile, nuggets (JSON and Markdown), collections, bookmarks and a list of your uploads.
+              </div>
+            </div>
+          </div>
+          <button
+            onClick={handleRequestExport}
+            disabled={isRequesting || isPending(latestExport)}
+            className="shrink-0 px-3 py-1.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-lg text-xs font-bold hover:opacity-90 disabled:opacity-50"
+          >
+            {isRequesting ? 'Starting...' : 'Request export'}
+          </button>
+        </div>
+
+        {latestExport && (
+          <div className="flex items-start gap-3 pt-3 border-t border-slate-200 dark:border-slate-700">
+            <JobStatusIcon job={latestExport} />
+            <div className="flex-1 min-w-0 text-xs text-slate-500">
+              {isPending(latestExport) && <div className="font-bold text-slate-700 dark:text-slate-300">Preparing your export...</div>}
+              {latestExport.status === 'failed' && (
+                <div className="font-bold text-red-600">Export failed{latestExport.errorMessage ? `: ${latestExport.errorMessage}` : ''}</div>
+              )}
+              {latestExport.status === 'completed' && (
+                <>
+                  <div className="font-bold text-slate-700 dark:text-slate-300">
+                    {latestExport.fileName}{latestExport.fileSize !== undefined && ` • ${formatFileSize(latestExport.fileSize)}`}
+                  </div>
+                  {latestExport.counts && (
+                    <div className="mt-0.5">
+                      {latestExport.counts.nuggets} nuggets • {latestExport.counts.collections} collections • {latestExport.counts.bookmarks} bookmarks • {latestExport.counts.media} uploads
+                    </div>
+                  )}
+                  <div className="mt-0.5">
+                    {latestExport.downloadUrl && latestExport.expiresAt
+                      ? `Available until ${formatDate(latestExport.expiresAt)}`
+                      : 'This export has expired. Request a new one.'}
+                  </div>
+                </>
+              )}
+            </div>
+            {latestExport.downloadUrl && (
+              <a
+                href={latestExport.downloadUrl}
+                download={latestExport.fileName}
+                className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 bg-primary-500 text-white rounded-lg text-xs font-bold hover:bg-primary-600"
+              >
+                <FileArchive size={14} /> Download
+              </a>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Import */}
+      <div className="p-4 bg-slate-50 dark:bg-black/20 rounded-xl space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <Upload size={18} className="mt-0.5 text-slate-400" />
+            <div>
+              <div className="text-sm font-bold text-slate-900 dark:text-white">Import an export</div>
+              <div className="text-xs text-slate-500 mt-0.5">
+                Restore a ZIP from this or another Nuggets instance. Nuggets you already have are skipped; your username and email stay as they are.
+              </div>
+            </div>
+          </div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading || isPending(latestImport)}
+            className="shrink-0 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 rounded-lg text-xs font-bold hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50"
+          >
+            {isUploading ? 'Uploading...' : 'Choose ZIP'}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+        </div>
+
+        {latestImport && (
+          <div className="flex items-start gap-3 pt-3 border-t border-slate-200 dark:border-slate-700">
+            <JobStatusIcon job={latestImport} />
+            <div className="flex-1 min-w-0 text-xs text-slate-500">
+              {isPending(latestImport) && <div className="font-bold text-slate-700 dark:text-slate-300">Importing your data...</div>}
+              {latestImport.status === 'failed' && (
+                <div className="font-bold text-red-600">Import failed{latestImport.errorMessage ? `: ${latestImport.errorMessage}` : ''}</div>
+              )}
+              {latestImport.status === 'completed' && latestImport.importResult && (
+                <>
+                  <div className="font-bold text-slate-700 dark:text-slate-300">
+                    Imported {latestImport.finishedAt ? formatDate(latestImport.finishedAt) : ''}
+                  </div>
+                  <div className="mt-0.5">{describeSection('nuggets', latestImport.importResult.nuggets)}</div>
+                  <div>{describeSection('collections', latestImport.importResult.collections)}</div>
+                  <div>{describeSection('bookmarks', latestImport.importResult.bookmarks)}</div>
+                  {latestImport.importResult.madePrivate > 0 && (
+                    <div className="mt-0.5 text-amber-600">
+                      {latestImport.importResult.madePrivate} public items were restored as private (verify your email or rename to publish them).
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
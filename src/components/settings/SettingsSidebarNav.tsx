@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { User, Shield, Sliders, AlertTriangle, CreditCard } from 'lucide-react';
+import { User, Shield, Sliders, AlertTriangle, CreditCard, Bell, Archive } from 'lucide-react';
 
 interface NavItem {
   id: string;
@@ -13,6 +13,8 @@ const ITEMS: NavItem[] = [
   { id: 'account', label: 'Account Info', icon: <CreditCard size={18} /> },
   { id: 'security', label: 'Security', icon: <Shield size={18} /> },
   { id: 'preferences', label: 'Preferences', icon: <Sliders size={18} /> },
+  { id: 'notifications', label: 'Notifications', icon: <Bell size={18} /> },
+  { id: 'data', label: 'Your Data', icon: <Archive size={18} /> },
   { id: 'danger', label: 'Danger Zone', icon: <AlertTriangle size={18} /> },
 ];
 
@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, ShieldOff, KeyRound, Loader2, Copy } from 'lucide-react';
+import { authService } from '@/services/authService';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/useToast';
+import { formatDate } from '@/utils/formatters';
+import { MfaEnrollment, MfaStatus } from '@/types/auth';
+
+type PendingAction = 'disable' | 'regenerate' | null;
+
+const codeInputClass = "w-40 px-3 py-2 text-center font-mono tracking-widest text-sm bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none dark:text-white";
+
+/**
+ * Two-factor authentication section of Account Settings
+ * Enrollment (QR code + confirmation), recovery codes, and turning MFA off.
+ */
+export const TwoFactorSettings: React.FC = () => {
+  const { refreshUser } = useAuth();
+  const toast = useToast();
+
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [code, setCode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await authService.getMfaStatus());
+    } catch {
+      setStatus(null);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const resetForm = () => {
+    setCode('');
+    setPendingAction(null);
+  };
+
+  const handleStartSetup = async () => {
+    setIsBusy(true);
+    try {
+      setEnrollment(await authService.startMfaSetup());
+      setRecoveryCodes(null);
+      setCode('');
+    } catch (e: any) {
+      toast.error('Could not start setup', e.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleConfirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    try {
+      setRecoveryCodes(await authService.enableMfa(code));
+      setEnrollment(null);
+      setCode('');
+      toast.success('Two-factor authentication enabled');
+      await Promise.all([loadStatus(), refreshUser()]);
+    } catch (e: any) {
+      toast.error('Verification failed', e.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Disable and regenerate both require a current code (or a recovery code)
+  const handleConfirmAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = code.trim();
+    const factor = /^\d{6}$/.test(trimmed) ? { code: trimmed } : { recoveryCode: trimmed };
+
+    setIsBusy(true);
+    try {
+      if (pendingAction === 'disable') {
+        await authService.disableMfa(factor);
+        setRecoveryCodes(null);
+        toast.success('Two-factor authentication disabled');
+        await refreshUser();
+      } else if (pendingAction === 'regenerate') {
+        setRecoveryCodes(await authService.regenerateRecoveryCodes(factor));
+        toast.success('New recovery codes generated');
+      }
+      resetForm();
+      await loadStatus();
+    } catch (e: any) {
+      toast.error('Verification failed', e.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  if (!status) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-500 p-4">
+        <Loader2 size={14} className="animate-spin" /> Loading two-factor settings...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-black/20 rounded-xl">
+        <div className="flex items-start gap-3">
+          {status.enabled
+            ? <ShieldCheck size={18} className="mt-0.5 text-green-600" />
+            : <ShieldOff size={18} className="mt-0.5 text-slate-400" />}
+          <div>
+            <div className="text-sm font-bold text-slate-900 dark:text-white">
+              {status.enabled ? 'Authenticator app enabled' : 'Authenticator app'}
+            </div>
+            <div className="text-xs text-slate-500 mt-0.5">
+              {status.enabled
+                ? `Enabled ${status.enabledAt ? formatDate(status.enabledAt) : ''} • ${status.recoveryCodesRemaining} recovery codes left`
+                : 'Require a code from your authenticator app when signing in.'}
+            </div>
+            {status.requiredByPolicy && !status.enabled && (
+              <div className="text-xs font-bold text-amber-600 mt-1">Required for admin accounts</div>
+            )}
+          </div>
+        </div>
+
+        {!status.enabled && !enrollment && (
+          <button
+            onClick={handleStartSetup}
+            disabled={isBusy}
+            className="px-3 py-1.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-lg text-xs font-bold hover:opacity-90 disabled:opacity-50"
+          >
+            {isBusy ? 'Starting...' : 'Set up'}
+          </button>
+        )}
+        {status.enabled && !pendingAction && (
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setPendingAction('regenerate')}
+              className="text-xs font-bold text-slate-500 hover:text-slate-800 dark:hover:text-white"
+            >
+              New recovery codes
+            </button>
+            {!status.requiredByPolicy && (
+              <button
+                onClick={() => setPendingAction('disable')}
+                className="text-xs font-bold text-red-600 hover:text-red-700"
+              >
+                Disable
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {enrollment && (
+        <form onSubmit={handleConfirmSetup} className="p-4 border border-slate-200 dark:border-slate-700 rounded-xl space-y-4">
+          <p className="text-xs text-slate-600 dark:text-slate-300">
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex flex-col sm:flex-row items-center gap-4">
+            <img src={enrollment.qrCodeDataUrl} alt="Two-factor QR code" className="w-40 h-40 rounded-lg bg-white p-2" />
+            <div className="text-xs text-slate-500 break-all">
+              Can't scan it? Enter this key manually:
+              <div className="mt-1 font-mono text-sm text-slate-900 dark:text-white">{enrollment.secret}</div>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              className={codeInputClass}
+            />
+            <button
+              type="submit"
+              disabled={isBusy || code.length !== 6}
+              className="px-4 py-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-lg text-xs font-bold hover:opacity-90 disabled:opacity-50"
+            >
+              {isBusy ? 'Verifying...' : 'Verify & enable'}
+            </button>
+            <button
+              type="button"
+              onClick={() => { setEnrollment(null); setCode(''); }}
+              className="text-xs font-bold text-slate-500 hover:text-slate-800 dark:hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {pendingAction && (
+        <form onSubmit={handleConfirmAction} className="p-4 border border-slate-200 dark:border-slate-700 rounded-xl space-y-3">
+          <p className="text-xs text-slate-600 dark:text-slate-300">
+            {pendingAction === 'disable'
+              ? 'Enter a code from your authenticator app (or a recovery code) to turn off two-factor authentication.'
+              : 'Enter a code from your authenticator app (or a recovery code). Your existing recovery codes will stop working.'}
+          </p>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="one-time-code"
+              placeholder="Code"
+              className={codeInputClass}
+            />
+            <button
+              type="submit"
+              disabled={isBusy || !code.trim()}
+              className={`px-4 py-2 rounded-lg text-xs font-bold text-white disabled:opacity-50 ${pendingAction === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-slate-900 dark:bg-white dark:text-slate-900 hover:opacity-90'}`}
+            >
+              {isBusy ? 'Verifying...' : pendingAction === 'disable' ? 'Disable' : 'Generate'}
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              className="text-xs font-bold text-slate-500 hover:text-slate-800 dark:hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {recoveryCodes && (
+        <div className="p-4 bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800 rounded-xl">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-xs font-bold text-amber-800 dark:text-amber-300 flex items-center gap-1.5">
+              <KeyRound size={14} /> Save your recovery codes
+            </div>
+            <button onClick={handleCopyCodes} className="text-xs font-bold text-amber-800 dark:text-amber-300 flex items-center gap-1 hover:underline">
+              <Copy size={12} /> Copy
+            </button>
+          </div>
+          <p className="text-xs text-amber-700 dark:text-amber-400 mb-3">
+            Each code can be used once if you lose access to your authenticator app. They won't be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-1.5 font-mono text-sm text-slate-900 dark:text-white">
+            {recoveryCodes.map(recoveryCode => <div key={recoveryCode}>{recoveryCode}</div>)}
+          </div>
+          <button
+            onClick={() => setRecoveryCodes(null)}
+            className="mt-3 text-xs font-bold text-amber-800 dark:text-amber-300 hover:underline"
+          >
+            I've saved them
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { SearchHighlight } from '@/types';
+
+interface HighlightedTextProps {
+  highlight: Pick<SearchHighlight, 'text' | 'ranges'>;
+  className?: string;
+  markClassName?: string;
+}
+
+/**
+ * Renders a search snippet with its matches wrapped in <mark>
+ * Ranges come from the server; text is rendered as plain text (never HTML).
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  highlight,
+  className,
+  markClassName = 'bg-yellow-100 dark:bg-yellow-500/30 text-inherit rounded-sm px-0.5',
+}) => {
+  const { text, ranges } = highlight;
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([start, end], index) => {
+      // Skip malformed or overlapping ranges
+      if (start < cursor || end <= start || end > text.length) return;
+      if (start > cursor) parts.push(text.slice(cursor, start));
+      parts.push(<mark key={index} className={markClassName}>{text.slice(start, end)}</mark>);
+      cursor = end;
+    });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <span className={className}>{parts}</span>;
+};
@@ -0,0 +1,104 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { twMerge } from 'tailwind-merge';
+import { Engagement, ReactionType } from '@/types';
+import { getReactionCount } from '@/hooks/useArticleReactions';
+
+// Reactions besides 'like' (which has its own heart button)
+export const REACTION_OPTIONS: Array<{ type: Exclude<ReactionType, 'like'>; emoji: string; label: string }> = [
+  { type: 'insightful', emoji: '💡', label: 'Insightful' },
+  { type: 'celebrate', emoji: '🎉', label: 'Celebrate' },
+  { type: 'curious', emoji: '🤔', label: 'Curious' },
+];
+
+interface ReactionPickerProps {
+  viewerReactions: ReactionType[];
+  engagement: Engagement;
+  onReact: (type: ReactionType) => void;
+  buttonClassName?: string;
+  iconSize?: number;
+  /** Open the popover above (cards) or below the trigger */
+  placement?: 'top' | 'bottom';
+}
+
+export const ReactionPicker: React.FC<ReactionPickerProps> = ({
+  viewerReactions,
+  engagement,
+  onReact,
+  buttonClassName,
+  iconSize = 16,
+  placement = 'top',
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  // Reactions with a count are shown next to the trigger
+  const summary = REACTION_OPTIONS.filter(option => getReactionCount(engagement, option.type) > 0);
+
+  return (
+    <div className="relative flex items-center" ref={containerRef}>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(!isOpen);
+        }}
+        className={twMerge('flex items-center justify-center gap-1 rounded-full', buttonClassName)}
+        title="React"
+        aria-label="React"
+        aria-expanded={isOpen}
+      >
+        {summary.length > 0 ? (
+          <span className="text-xs leading-none">{summary.map(option => option.emoji).join('')}</span>
+        ) : (
+          <SmilePlus size={iconSize} />
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          className={twMerge(
+            'absolute right-0 z-20 flex items-center gap-1 p-1 bg-white dark:bg-slate-800 rounded-full shadow-xl border border-slate-200 dark:border-slate-700',
+            placement === 'top' ? 'bottom-full mb-1' : 'top-full mt-1'
+          )}
+        >
+          {REACTION_OPTIONS.map(option => {
+            const isActive = viewerReactions.includes(option.type);
+            const count = getReactionCount(engagement, option.type);
+            return (
+              <button
+                key={option.type}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onReact(option.type);
+                  setIsOpen(false);
+                }}
+                className={twMerge(
+                  'flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium transition-colors',
+                  isActive
+                    ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
+                    : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+                )}
+                title={option.label}
+                aria-pressed={isActive}
+              >
+                <span className="text-sm leading-none">{option.emoji}</span>
+                {count > 0 && <span>{count}</span>}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
 import { Share2 } from 'lucide-react';
+import { engagementService } from '@/services/engagementService';
 
 interface ShareItemData {
   type: 'nugget' | 'collection';
@@ -24,17 +25,28 @@ export const ShareMenu: React.FC<ShareMenuProps> = ({
     e.stopPropagation();
     
     // Perform share action only - never open drawer
+    let shared = false;
     if (navigator.share) {
       try {
         await navigator.share({
           title: data.title || '',
           url: data.shareUrl
         });
+        shared = true;
       } catch (e) {
         // User cancelled
       }
     } else {
-      navigator.clipboard.writeText(data.shareUrl);
+      try {
+        await navigator.clipboard.writeText(data.shareUrl);
+        shared = true;
+      } catch (e) {
+        // Clipboard unavailable (permissions / insecure context)
+      }
+    }
+
+    if (shared && data.type === 'nugget') {
+      engagementService.trackShare(data.id);
     }
   };
 
@@ -2,10 +2,11 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
 import { User as LegacyUser } from '@/types';
 import { User as ModularUser } from '@/types/user';
-import { LoginPayload, SignupPayload, AuthProvider as AuthProviderType } from '@/types/auth';
+import { LoginPayload, SignupPayload, AuthProvider as AuthProviderType, MfaFactor } from '@/types/auth';
 import { authService } from '@/services/authService';
 import { FeatureFlags, SignupConfig } from '@/admin/types/admin';
 import { adminConfigService } from '@/admin/services/adminConfigService';
+import { AUTH_TOKENS_REFRESHED_EVENT } from '@/services/apiClient';
 
 interface AuthContextType {
   user: LegacyUser | null; // Backward compatibility
@@ -15,16 +16,28 @@ interface AuthContextType {
   token: string | null;
   featureFlags: FeatureFlags | null;
   signupConfig: SignupConfig | null;
-  login: (payload: LoginPayload) => Promise<void>;
+  login: (payload: LoginPayload) => Promise<LoginOutcome>;
+  completeMfaLogin: (mfaToken: string, factor: MfaFactor) => Promise<{ recoveryCodesRemaining?: number }>;
   signup: (payload: SignupPayload) => Promise<void>;
   socialLogin: (provider: AuthProviderType) => Promise<void>;
+  completeSocialLogin: (provider: AuthProviderType, code: string, state: string) => Promise<SocialLoginOutcome>;
   logout: () => Promise<void>;
+  refreshUser: () => Promise<void>;
   isAuthModalOpen: boolean;
   openAuthModal: (view?: 'login' | 'signup') => void;
   closeAuthModal: () => void;
   authModalView: 'login' | 'signup';
 }
 
+// A login either signs in directly or asks for a second factor
+export type LoginOutcome =
+  | { mfaRequired: false; mfaEnrollmentRequired: boolean }
+  | { mfaRequired: true; mfaToken: string };
+
+export type SocialLoginOutcome =
+  | { mode: 'login' | 'link' }
+  | { mode: 'mfa'; mfaToken: string };
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 const AUTH_STORAGE_KEY = 'nuggets_auth_data_v2'; // Bumped version for schema change
@@ -78,10 +91,27 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     init();
   }, []);
 
-  const persistAuth = (u: ModularUser, t: string) => {
+  // apiClient refreshes expired access tokens in storage; mirror the new token in state
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const handleRefreshed = (event: Event) => {
+      const { token: refreshedToken } = (event as CustomEvent<{ token: string }>).detail || {};
+      if (refreshedToken) setToken(refreshedToken);
+    };
+    window.addEventListener(AUTH_TOKENS_REFRESHED_EVENT, handleRefreshed);
+    return () => window.removeEventListener(AUTH_TOKENS_REFRESHED_EVENT, handleRefreshed);
+  }, []);
+
+  // refreshToken is omitted when only the user changed; the stored one is kept
+  const persistAuth = (u: ModularUser, t: string, refreshToken?: string) => {
     try {
       if (typeof window !== 'undefined' && window.localStorage) {
-        localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify({ user: u, token: t }));
+        let storedRefreshToken = refreshToken;
+        if (storedRefreshToken === undefined) {
+          const stored = localStorage.getItem(AUTH_STORAGE_KEY);
+          storedRefreshToken = stored ? JSON.parse(stored).refreshToken : undefined;
+        }
+        localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify({ user: u, token: t, refreshToken: storedRefreshToken }));
       }
     } catch (e) {
       console.warn('Failed to persist auth to storage:', e);
@@ -112,22 +142,45 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, [modularUser]);
 
-  const login = async (payload: LoginPayload) => {
+  const login = async (payload: LoginPayload): Promise<LoginOutcome> => {
     const response = await authService.loginWithEmail(payload);
-    persistAuth(response.user, response.token);
+    if (response.status === 'mfa_required') {
+      return { mfaRequired: true, mfaToken: response.mfaToken };
+    }
+    persistAuth(response.user, response.token, response.refreshToken);
+    closeAuthModal();
+    return { mfaRequired: false, mfaEnrollmentRequired: !!response.mfaEnrollmentRequired };
+  };
+
+  const completeMfaLogin = async (mfaToken: string, factor: MfaFactor) => {
+    const response = await authService.verifyMfaLogin(mfaToken, factor);
+    persistAuth(response.user, response.token, response.refreshToken);
     closeAuthModal();
+    return { recoveryCodesRemaining: response.recoveryCodesRemaining };
   };
 
   const signup = async (payload: SignupPayload) => {
     const response = await authService.signupWithEmail(payload);
-    persistAuth(response.user, response.token);
+    persistAuth(response.user, response.token, response.refreshToken);
     closeAuthModal();
   };
 
+  // Leaves the app for the provider; completeSocialLogin finishes on return
   const socialLogin = async (provider: AuthProviderType) => {
-    const response = await authService.loginWithProvider(provider);
-    persistAuth(response.user, response.token);
-    closeAuthModal();
+    await authService.loginWithProvider(provider);
+  };
+
+  const completeSocialLogin = async (provider: AuthProviderType, code: string, state: string): Promise<SocialLoginOutcome> => {
+    const result = await authService.completeOAuthCallback(provider, code, state);
+    if (result.mode === 'mfa') {
+      return { mode: 'mfa', mfaToken: result.mfaToken };
+    }
+    if (result.mode === 'login') {
+      persistAuth(result.user, result.token, result.refreshToken);
+    } else if (token) {
+      persistAuth(result.user, token);
+    }
+    return { mode: result.mode };
   };
 
   const logout = async () => {
@@ -147,6 +200,21 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setToken(null);
   };
 
+  // Re-fetch the current user (e.g. after email verification) and keep the session tokens
+  const refreshUser = useCallback(async () => {
+    if (!token) return;
+    const freshUser = await authService.getCurrentUser();
+    // The request may itself have refreshed the access token; read the latest from storage
+    let latestToken = token;
+    try {
+      const stored = localStorage.getItem(AUTH_STORAGE_KEY);
+      if (stored) latestToken = JSON.parse(stored).token || token;
+    } catch (e) {
+      // Fall back to the token in state
+    }
+    persistAuth(freshUser, latestToken);
+  }, [token]);
+
   const openAuthModal = useCallback((view: 'login' | 'signup' = 'login') => {
       setAuthModalView(view);
       setIsAuthModalOpen(true);
@@ -166,9 +234,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       featureFlags,
       signupConfig,
       login,
+      completeMfaLogin,
       signup,
       socialLogin,
+      completeSocialLogin,
       logout,
+      refreshUser,
       isAuthModalOpen,
       openAuthModal,
       closeAuthModal,
@@ -0,0 +1,106 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Article, Engagement, ReactionType } from '@/types';
+import { reactionService } from '@/services/reactionService';
+import { queryClient } from '@/queryClient';
+import { useToast } from './useToast';
+
+const EMPTY_ENGAGEMENT: Engagement = { likes: 0, bookmarks: 0, shares: 0, views: 0 };
+
+export function getReactionCount(engagement: Engagement | undefined, type: ReactionType): number {
+  if (!engagement) return 0;
+  return type === 'like' ? engagement.likes || 0 : engagement.reactions?.[type] || 0;
+}
+
+function withCountDelta(engagement: Engagement, type: ReactionType, delta: number): Engagement {
+  const count = Math.max(0, getReactionCount(engagement, type) + delta);
+  return type === 'like'
+    ? { ...engagement, likes: count }
+    : { ...engagement, reactions: { ...engagement.reactions, [type]: count } };
+}
+
+/**
+ * Patch one article wherever it is cached (infinite feed pages, paginated lists, arrays, detail)
+ * so remounted cards show the same reaction state.
+ */
+function patchCachedArticle(articleId: string, patch: Partial<Article>) {
+  const patchList = (list: Article[]) =>
+    list.map(a => (a && a.id === articleId ? { ...a, ...patch } : a));
+
+  queryClient.setQueriesData({ queryKey: ['articles'] }, (oldData: any) => {
+    if (!oldData) return oldData;
+    if (Array.isArray(oldData.pages)) {
+      return {
+        ...oldData,
+        pages: oldData.pages.map((page: any) =>
+          page && Array.isArray(page.data) ? { ...page, data: patchList(page.data) } : page
+        ),
+      };
+    }
+    if (Array.isArray(oldData.data)) {
+      return { ...oldData, data: patchList(oldData.data) };
+    }
+    if (Array.isArray(oldData)) {
+      return patchList(oldData);
+    }
+    return oldData;
+  });
+
+  queryClient.setQueryData(['article', articleId], (oldData: any) =>
+    oldData ? { ...oldData, ...patch } : oldData
+  );
+}
+
+/**
+ * Like/reaction state for one nugget with optimistic updates
+ * Callers are responsible for requiring authentication before toggling.
+ */
+export const useArticleReactions = (article: Article) => {
+  const toast = useToast();
+  const [viewerReactions, setViewerReactions] = useState<ReactionType[]>(article.viewerReactions || []);
+  const [engagement, setEngagement] = useState<Engagement>(article.engagement || EMPTY_ENGAGEMENT);
+  const pending = useRef(new Set<ReactionType>());
+
+  // Resync when the card is reused for another article or fresh data arrives
+  useEffect(() => {
+    setViewerReactions(article.viewerReactions || []);
+    setEngagement(article.engagement || EMPTY_ENGAGEMENT);
+  }, [article.id, article.viewerReactions, article.engagement]);
+
+  const toggleReaction = useCallback(async (type: ReactionType) => {
+    if (pending.current.has(type)) return;
+    pending.current.add(type);
+
+    const previousReactions = viewerReactions;
+    const previousEngagement = engagement;
+    const isActive = previousReactions.includes(type);
+
+    const optimisticReactions = isActive
+      ? previousReactions.filter(r => r !== type)
+      : [...previousReactions, type];
+    setViewerReactions(optimisticReactions);
+    setEngagement(withCountDelta(previousEngagement, type, isActive ? -1 : 1));
+
+    try {
+      const response = isActive
+        ? await reactionService.removeReaction(article.id, type)
+        : await reactionService.addReaction(article.id, type);
+      const serverEngagement = { ...EMPTY_ENGAGEMENT, ...previousEngagement, ...response.engagement };
+      setEngagement(serverEngagement);
+      patchCachedArticle(article.id, { viewerReactions: optimisticReactions, engagement: serverEngagement });
+    } catch (error: any) {
+      setViewerReactions(previousReactions);
+      setEngagement(previousEngagement);
+      toast.error(error?.response?.status === 403 ? 'This nugget is private' : 'Failed to update reaction');
+    } finally {
+      pending.current.delete(type);
+    }
+  }, [article.id, viewerReactions, engagement, toast]);
+
+  return {
+    viewerReactions,
+    engagement,
+    isLiked: viewerReactions.includes('like'),
+    likeCount: engagement.likes || 0,
+    toggleReaction,
+  };
+};
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { followingFeedService } from '@/services/followingFeedService';
+import { useAuth } from './useAuth';
+
+export const FOLLOWING_UNREAD_QUERY_KEY = ['followingFeed', 'unreadCount'];
+
+/**
+ * Unread entries in followed collections, polled for the header badge
+ */
+export function useFollowingUnreadCount(): number {
+  const { isAuthenticated } = useAuth();
+  const { data = 0 } = useQuery({
+    queryKey: FOLLOWING_UNREAD_QUERY_KEY,
+    queryFn: () => followingFeedService.getUnreadCount(),
+    enabled: isAuthenticated,
+    refetchInterval: 60000, // New entries from followed collections within a minute
+    refetchOnWindowFocus: true,
+  });
+  return isAuthenticated ? data : 0;
+}
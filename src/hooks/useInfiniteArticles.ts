@@ -1,11 +1,11 @@
 import { useInfiniteQuery } from '@tanstack/react-query';
 import { useMemo } from 'react';
-import { articleService, PaginatedArticlesResponse } from '@/services/articleService';
+import { articleService, CursorPaginatedArticlesResponse } from '@/services/articleService';
 import { FilterState, SortOrder, Article } from '@/types';
 
 interface UseInfiniteArticlesOptions {
   searchQuery: string;
-  activeCategory: string; // 'All', 'Today', or category name
+  activeCategory: string; // 'All', 'Today', 'Following', or category name
   sortOrder?: SortOrder;
   limit?: number;
 }
@@ -14,7 +14,8 @@ interface UseInfiniteArticlesOptions {
  * Unified infinite scroll hook using React Query's useInfiniteQuery
  * 
  * Phase 3: Replaces manual state management in Feed.tsx
- * - Handles pagination automatically
+ * - Handles pagination automatically (opaque server cursors, so items published
+ *   mid-scroll never cause duplicates or gaps)
  * - Accumulates pages across fetches
  * - Resets on filter changes via query key
  * - Provides fetchNextPage for infinite scroll
@@ -40,13 +41,15 @@ export const useInfiniteArticles = ({
   // - Reset on query key change (category/search/sort changes)
   // - Caching
   // - Race condition protection
-  const query = useInfiniteQuery<PaginatedArticlesResponse>({
+  const query = useInfiniteQuery<CursorPaginatedArticlesResponse>({
     queryKey: ['articles', 'infinite', searchQuery.trim(), activeCategory, sortOrder, limit],
-    queryFn: async ({ pageParam = 1 }) => {
+    queryFn: async ({ pageParam = null }) => {
       // Build filters inside queryFn to avoid stale closures
       // Determine category parameter for backend
       // "Today" is now handled by backend, so pass it through
-      const categoryParam = activeCategory === 'All'
+      // "Following" is not a category: it filters by followed authors
+      const isFollowing = activeCategory === 'Following';
+      const categoryParam = activeCategory === 'All' || isFollowing
         ? []
         : [activeCategory]; // Include "Today" or any other category
 
@@ -57,15 +60,16 @@ export const useInfiniteArticles = ({
         tag: null,
         sort: sortOrder,
         limit,
+        following: isFollowing,
       };
 
-      return articleService.getArticles(filters, pageParam as number);
+      return articleService.getArticleFeedPage(filters, pageParam as string | null);
     },
     getNextPageParam: (lastPage) => {
-      // Return next page number if there are more pages
-      return lastPage.hasMore ? lastPage.page + 1 : undefined;
+      // Continue from the server cursor if there are more items
+      return lastPage.hasMore && lastPage.nextCursor ? lastPage.nextCursor : undefined;
     },
-    initialPageParam: 1,
+    initialPageParam: null as string | null,
     staleTime: 1000 * 30, // 30 seconds
     // CRITICAL FIX: Removed placeholderData - it interferes with page accumulation in infinite queries
     // React Query handles data persistence naturally without placeholderData
@@ -1,22 +1,6 @@
 import { useState, useCallback, useRef } from 'react';
-
-const AUTH_STORAGE_KEY = 'nuggets_auth_data_v2';
-
-/**
- * Get auth token from localStorage
- */
-function getAuthToken(): string | null {
-  try {
-    const stored = localStorage.getItem(AUTH_STORAGE_KEY);
-    if (stored) {
-      const { token } = JSON.parse(stored);
-      return token || null;
-    }
-  } catch (e) {
-    console.warn('Failed to get auth token:', e);
-  }
-  return null;
-}
+import { apiClient } from '@/services/apiClient';
+import { ImageVariant } from '@/types';
 
 export interface MediaUploadResult {
   mediaId: string;
@@ -25,6 +9,7 @@ export interface MediaUploadResult {
   height?: number;
   publicId?: string;
   resourceType?: string;
+  variant?: ImageVariant | null; // Renditions/placeholder for processed images
 }
 
 export interface UseMediaUploadOptions {
@@ -135,18 +120,10 @@ export function useMediaUpload(options: UseMediaUploadOptions = {}): UseMediaUpl
         formData.append('entityId', options.entityId);
       }
 
-      // Get auth token for request
-      const token = getAuthToken();
-      const headers: Record<string, string> = {};
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-
-      // Upload to backend
-      const response = await fetch('/api/media/upload/cloudinary', {
+      // Upload to backend (refreshes an expired access token once and retries)
+      const response = await apiClient.fetchWithAuth('/media/upload/cloudinary', {
         method: 'POST',
         body: formData,
-        headers,
         signal,
       });
 
@@ -1,9 +1,10 @@
 import { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Article } from '@/types';
+import { Article, Engagement, ReactionType } from '@/types';
 import { useToast } from './useToast';
 import { useAuth } from './useAuth';
 import { useRequireAuth } from './useRequireAuth';
+import { useArticleReactions } from './useArticleReactions';
 import { storageService } from '@/services/storageService';
 import { queryClient } from '@/queryClient';
 import { sanitizeArticle, hasValidAuthor, logError } from '@/utils/errorHandler';
@@ -33,11 +34,16 @@ export interface NewsCardData {
   visibility: 'public' | 'private' | undefined;
   showContributor: boolean;
   contributorName?: string;
+  contributorId?: string;
+  contributorNote?: string;
   shouldShowTitle: boolean;
   media: Article['media'];
   images: string[] | undefined;
   video: string | undefined;
   cardType: 'hybrid' | 'media-only'; // Two-card architecture: Hybrid (default) or Media-Only
+  searchHighlight?: Article['searchHighlight']; // Matching snippet when shown as a search result
+  engagement: Engagement; // Live counters (optimistically updated on reactions)
+  viewerReactions: ReactionType[];
 }
 
 export interface NewsCardFlags {
@@ -47,6 +53,7 @@ export interface NewsCardFlags {
 
 export interface NewsCardHandlers {
   onLike: (() => void) | undefined;
+  onReact: ((type: ReactionType) => void) | undefined;
   onShare: (() => void) | undefined;
   onClick: (() => void) | undefined;
   onMediaClick: (e: React.MouseEvent, imageIndex?: number) => void;
@@ -90,6 +97,7 @@ export const useNewsCard = ({
   const toast = useToast();
   const { isAdmin = false } = useAuth(); // Phase 3: Default to false to ensure boolean type
   const { withAuth } = useRequireAuth();
+  const reactions = useArticleReactions(article);
 
   // ────────────────────────────────────────
   // STATE
@@ -172,7 +180,8 @@ export const useNewsCard = ({
   const isLink = article.source_type === 'link';
   const isNoteOrIdea = article.source_type === 'note' || article.source_type === 'idea';
   const isTextNugget = !hasMedia && !isLink;
-  const showContributor = !!(article.addedBy && article.addedBy.userId !== article.author.id); // Phase 3: Ensure boolean type
+  // Inside collections every entry names who added it, including authors curating their own nuggets
+  const showContributor = !!article.addedBy;
 
   // ────────────────────────────────────────
   // TITLE RESOLUTION (Priority: User title > Metadata title > None)
@@ -470,19 +479,23 @@ export const useNewsCard = ({
     visibility: article.visibility,
     showContributor,
     contributorName: article.addedBy?.name,
+    contributorId: article.addedBy?.userId,
+    contributorNote: article.addedBy?.note,
     shouldShowTitle,
     media: article.media,
     images: article.images,
     video: article.video,
     cardType, // Two-card architecture: 'hybrid' | 'media-only'
+    searchHighlight: article.searchHighlight,
+    engagement: reactions.engagement,
+    viewerReactions: reactions.viewerReactions,
   };
 
   // ────────────────────────────────────────
   // FLAGS
   // ────────────────────────────────────────
   const flags: NewsCardFlags = {
-    // Deferred feature — backend support pending
-    isLiked: false, // TODO: Implement like functionality if needed
+    isLiked: reactions.isLiked,
     // Deferred feature — backend support pending
     isRead: false, // TODO: Implement read tracking if needed
   };
@@ -701,6 +714,7 @@ export const useNewsCard = ({
   const handlers: NewsCardHandlers = isPreview
     ? {
         onLike: undefined,
+        onReact: undefined,
         onShare: undefined,
         onClick: undefined,
         onMediaClick: (e: React.MouseEvent) => handleMediaClick(e), // Allow media click for preview (opens URL)
@@ -717,10 +731,8 @@ export const useNewsCard = ({
         onReadMore: () => setShowFullModal(true), // Allow read more (modal only)
       }
     : {
-        // Deferred feature — backend support pending
-        onLike: () => {
-          // TODO: Implement like functionality
-        },
+        onLike: withAuth(() => reactions.toggleReaction('like')),
+        onReact: withAuth((type: ReactionType) => reactions.toggleReaction(type)),
         onShare: handleShare,
         onClick: handleClick,
         onMediaClick: handleMediaClick,
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { notificationService } from '@/services/notificationService';
+import { useAuth } from './useAuth';
+
+export const NOTIFICATION_UNREAD_QUERY_KEY = ['notifications', 'unreadCount'];
+
+/**
+ * Unread notifications, polled for the header bell
+ */
+export function useNotificationUnreadCount(): number {
+  const { isAuthenticated } = useAuth();
+  const { data = 0 } = useQuery({
+    queryKey: NOTIFICATION_UNREAD_QUERY_KEY,
+    queryFn: () => notificationService.getUnreadCount(),
+    enabled: isAuthenticated,
+    refetchInterval: 60000,
+    refetchOnWindowFocus: true,
+  });
+  return isAuthenticated ? data : 0;
+}
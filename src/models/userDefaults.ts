@@ -43,6 +43,9 @@ export const createDefaultUserPreferences = (overrides?: DeepPartial<UserPrefere
       emailDigest: true,
       productUpdates: false,
       newFollowers: true,
+      collectionActivity: true,
+      moderationUpdates: true,
+      feedbackUpdates: true,
       ...notifications,
     },
   };
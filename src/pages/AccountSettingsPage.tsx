@@ -3,21 +3,27 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '../hooks/useAuth';
 import { useToast } from '../hooks/useToast';
 import { userSettingsService } from '../services/userSettingsService';
+import { authService } from '../services/authService';
+import { notificationService, NotificationPreferences } from '../services/notificationService';
 import { SettingsSectionCard } from '../components/settings/SettingsSectionCard';
 import { SettingsSidebarNav } from '../components/settings/SettingsSidebarNav';
 import { AvatarSelectorModal } from '../components/settings/AvatarSelectorModal';
 import { ConfirmActionModal } from '../components/settings/ConfirmActionModal';
+import { TwoFactorSettings } from '../components/settings/TwoFactorSettings';
+import { DataPortabilitySettings } from '../components/settings/DataPortabilitySettings';
 import { Input } from '../components/UI/Input';
 import { TextArea } from '../components/UI/TextArea';
-import { getInitials } from '../utils/formatters';
-import { User, Mail, Shield, Check, Loader2, Camera, Eye, EyeOff, LayoutTemplate, Globe, Link as LinkIcon, UserPlus, AlertTriangle, ChevronDown } from 'lucide-react';
+import { getInitials, formatDate } from '../utils/formatters';
+import { User, Mail, Shield, Check, Loader2, Camera, Eye, EyeOff, LayoutTemplate, Globe, Link as LinkIcon, UserPlus, AlertTriangle, ChevronDown, Monitor, LogOut, Chrome, Linkedin } from 'lucide-react';
 import { ProfileFormData, UserPreferences, AVATAR_COLORS } from '../types/settings';
+import { ActiveSession, AuthProvider } from '../types/auth';
 import { userToProfileForm, userToPreferencesForm } from '../models/userFormMappers';
 import { Avatar } from '../components/shared/Avatar';
 import { adminConfigService } from '../admin/services/adminConfigService';
 import { HeaderSpacer } from '../components/layouts/HeaderSpacer';
 import { LAYOUT_CLASSES } from '../constants/layout';
 import { Z_INDEX } from '../constants/zIndex';
+import { Bell, Flag, FolderPlus, MessageSquare, Archive } from 'lucide-react';
 
 const Label: React.FC<{ children: React.ReactNode }> = ({ children }) => (
   <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-1.5 ml-1">
@@ -51,8 +57,25 @@ const Toggle: React.FC<ToggleProps> = ({ label, description, checked, onChange,
   </div>
 );
 
+// Short device label from a user-agent string ("Chrome on macOS")
+const describeUserAgent = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device';
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS';
+  return `${browser} on ${os}`;
+};
+
 export const AccountSettingsPage: React.FC<{ userId: string }> = ({ userId }) => {
-  const { modularUser, currentUser } = useAuth();
+  const { modularUser, currentUser, logout, refreshUser } = useAuth();
   const toast = useToast();
   
   // --- STATE ---
@@ -60,6 +83,13 @@ export const AccountSettingsPage: React.FC<{ userId: string }> = ({ userId }) =>
   const [isSavingProfile, setIsSavingProfile] = useState(false);
   const [isSavingSecurity, setIsSavingSecurity] = useState(false);
   const [isDangerZoneOpen, setIsDangerZoneOpen] = useState(false);
+  const [isResendingVerification, setIsResendingVerification] = useState(false);
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(true);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+  const [showLogoutAllModal, setShowLogoutAllModal] = useState(false);
+  const [oauthProviders, setOauthProviders] = useState<AuthProvider[]>([]);
+  const [pendingProvider, setPendingProvider] = useState<AuthProvider | null>(null);
   
   // Config State
   const [enableAvatarUpload, setEnableAvatarUpload] = useState(false);
@@ -94,9 +124,12 @@ export const AccountSettingsPage: React.FC<{ userId: string }> = ({ userId }) =>
     autoFollowCollections: false,
     theme: 'system',
     interestedCategories: [],
-    notifications: { emailDigest: true, productUpdates: false, newFollowers: true }
+    notifications: { emailDigest: true, productUpdates: false, newFollowers: true, collectionActivity: true, moderationUpdates: true, feedbackUpdates: true }
   });
 
+  // Notification switches live on the server; undefined while loading, null if unavailable
+  const [notificationPrefs, setNotificationPrefs] = useState<NotificationPreferences | null | undefined>(undefined);
+
   // --- INIT ---
   useEffect(() => {
     // PREFER MODULAR USER if available
@@ -125,6 +158,25 @@ export const AccountSettingsPage: React.FC<{ userId: string }> = ({ userId }) =>
     });
   }, [modularUser, currentUser]);
 
+  useEffect(() => {
+    authService.getOAuthProviders()
+      .then(setOauthProviders)
+      .catch(() => setOauthProviders([]));
+  }, []);
+
+  useEffect(() => {
+    notificationService.getPreferences()
+      .then(setNotificationPrefs)
+      .catch(() => setNotificationPrefs(null));
+  }, []);
+
+  useEffect(() => {
+    authService.listSessions()
+      .then(setSessions)
+      .catch(() => setSessions([]))
+      .finally(() => setIsLoadingSessions(false));
+  }, []);
+
   // --- HANDLERS ---
 
   const scrollToSection = (id: string) => {
@@ -166,6 +218,67 @@ export const AccountSettingsPage: React.FC<{ userId: string }> = ({ userId }) =>
     }
   };
 
+  const handleResendVerification = async () => {
+    setIsResendingVerification(true);
+    try {
+      const message = await authService.resendVerification();
+      toast.success(message);
+    } catch (e: any) {
+      toast.error(e?.message || "Failed to send verification email");
+    } finally {
+      setIsResendingVerification(false);
+    }
+  };
+
+  const handleConnectProvider = async (provider: AuthProvider) => {
+    setPendingProvider(provider);
+    try {
+      // Navigates to the provider; returns to /auth/callback/:provider
+      await authService.linkProvider(provider);
+    } catch (e: any) {
+      toast.error(e?.message || "Failed to connect account");
+      setPendingProvider(null);
+    }
+  };
+
+  const handleDisconnectProvider = async (provider: AuthProvider) => {
+    setPendingProvider(provider);
+    try {
+      await authService.unlinkProvider(provider);
+      await refreshUser();
+      toast.success("Account disconnected");
+    } catch (e: any) {
+      toast.error(e?.message || "Failed to disconnect account");
+    } finally {
+      setPendingProvider(null);
+    }
+  };
+
+  const handleRevokeSession = async (sessionId: string) => {
+    setRevokingSessionId(sessionId);
+    try {
+      await authService.revokeSession(sessionId);
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+      toast.success("Device signed out");
+    } catch (e: any) {
+      toast.error(e?.message || "Failed to sign out device");
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
+
+  const handleLogoutAllDevices = async () => {
+    try {
+      await authService.logoutAllDevices();
+    } catch (e: any) {
+      toast.error(e?.message || "Failed to sign out of all devices");
+      return;
+    }
+    // This session was revoked too - clear local auth and go home
+    await logout();
+    window.location.href = '/';
+  };
+
   const togglePreference = (key: keyof UserPreferences) => {
     if (!currentUser) return;
     const newPrefs = { ...preferences, [key]: !preferences[key] };
@@ -173,6 +286,18 @@ export const AccountSettingsPage: React.FC<{ userId: string }> = ({ userId }) =>
     userSettingsService.updatePreferences(currentUser.id, newPrefs);
   };
 
+  const toggleNotification = async (key: keyof NotificationPreferences) => {
+    if (!notificationPrefs) return;
+    const previous = notificationPrefs;
+    setNotificationPrefs({ ...previous, [key]: !previous[key] });
+    try {
+      setNotificationPrefs(await notificationService.updatePreferences({ [key]: !previous[key] }));
+    } catch {
+      setNotificationPrefs(previous);
+      toast.error("Failed to update notification settings");
+    }
+  };
+
   const handleDeleteAccount = async () => {
     await userSettingsService.deleteAccount(currentUser!.id);
     toast.error("Account deleted. Redirecting...");
@@ -306,21 +431,67 @@ export const AccountSettingsPage: React.FC<{ userId: string }> = ({ userId }) =>
                   <Label>Email Address</Label>
                   <div className="flex items-center gap-2">
                     <span className="text-sm font-bold text-slate-900 dark:text-white">{currentUser?.email}</span>
-                    <span className="inline-flex items-center px-2 py-0.5 rounded-md text-[10px] font-bold bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
-                      <Check size={10} className="mr-1" /> Verified
-                    </span>
+                    {currentUser?.emailVerified ? (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-md text-[10px] font-bold bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                        <Check size={10} className="mr-1" /> Verified
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-md text-[10px] font-bold bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+                        <AlertTriangle size={10} className="mr-1" /> Not verified
+                      </span>
+                    )}
                   </div>
+                  {!currentUser?.emailVerified && (
+                    <button
+                      onClick={handleResendVerification}
+                      disabled={isResendingVerification}
+                      className="mt-2 text-xs font-bold text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isResendingVerification ? 'Sending...' : 'Resend verification email'}
+                    </button>
+                  )}
                 </div>
                 {/* Stub Button */}
                 <button disabled className="text-xs font-bold text-slate-400 cursor-not-allowed">Change</button>
               </div>
+
+              {/* Connected sign-in providers */}
+              {(oauthProviders.length > 0 || (modularUser?.auth.identities?.length ?? 0) > 0) && (
+                <div className="mt-4 space-y-2">
+                  <Label>Connected Accounts</Label>
+                  {(['google', 'linkedin'] as const).map(provider => {
+                    const identity = modularUser?.auth.identities?.find(i => i.provider === provider);
+                    if (!identity && !oauthProviders.includes(provider)) return null;
+                    return (
+                      <div key={provider} className="flex items-center justify-between p-4 bg-slate-50 dark:bg-black/20 rounded-xl">
+                        <div className="flex items-center gap-3">
+                          {provider === 'google' ? <Chrome size={16} className="text-slate-400" /> : <Linkedin size={16} className="text-slate-400" />}
+                          <div>
+                            <div className="text-sm font-bold text-slate-900 dark:text-white">{provider === 'google' ? 'Google' : 'LinkedIn'}</div>
+                            <div className="text-xs text-slate-500">
+                              {identity ? `Connected${identity.email ? ` as ${identity.email}` : ''}` : 'Not connected'}
+                            </div>
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => identity ? handleDisconnectProvider(provider) : handleConnectProvider(provider)}
+                          disabled={pendingProvider !== null}
+                          className="text-xs font-bold text-slate-500 hover:text-slate-900 dark:hover:text-white disabled:opacity-50"
+                        >
+                          {pendingProvider === provider ? 'Please wait...' : identity ? 'Disconnect' : 'Connect'}
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </SettingsSectionCard>
 
             {/* 3. SECURITY */}
             <SettingsSectionCard 
               id="security" 
               title="Security" 
-              description="Update your password to keep your account safe."
+              description="Update your password and manage signed-in devices."
               icon={<Shield size={20} />}
             >
               <form onSubmit={handlePasswordUpdate} className="max-w-md space-y-4">
@@ -374,6 +545,64 @@ export const AccountSettingsPage: React.FC<{ userId: string }> = ({ userId }) =>
                   </button>
                 </div>
               </form>
+
+              <div className="mt-8 pt-6 border-t border-slate-100 dark:border-slate-800">
+                <Label>Two-Factor Authentication</Label>
+                <TwoFactorSettings />
+              </div>
+
+              <div className="mt-8 pt-6 border-t border-slate-100 dark:border-slate-800">
+                <div className="flex items-center justify-between mb-3">
+                  <Label>Active Sessions</Label>
+                  <button
+                    onClick={() => setShowLogoutAllModal(true)}
+                    disabled={sessions.length === 0}
+                    className="text-xs font-bold text-red-600 hover:text-red-700 flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <LogOut size={14} /> Log out all devices
+                  </button>
+                </div>
+
+                {isLoadingSessions ? (
+                  <div className="flex items-center gap-2 text-xs text-slate-500 p-4">
+                    <Loader2 size={14} className="animate-spin" /> Loading sessions...
+                  </div>
+                ) : sessions.length === 0 ? (
+                  <p className="text-xs text-slate-500 p-4">No active sessions found.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {sessions.map(session => (
+                      <div key={session.id} className="flex items-center justify-between p-4 bg-slate-50 dark:bg-black/20 rounded-xl">
+                        <div className="flex items-start gap-3">
+                          <Monitor size={16} className="mt-0.5 text-slate-400" />
+                          <div>
+                            <div className="text-sm font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                              {describeUserAgent(session.userAgent)}
+                              {session.current && (
+                                <span className="text-[10px] font-bold text-green-700 bg-green-100 dark:bg-green-900/30 dark:text-green-400 px-1.5 py-0.5 rounded">
+                                  This device
+                                </span>
+                              )}
+                            </div>
+                            <div className="text-xs text-slate-500 mt-0.5">
+                              {session.ip ? `${session.ip} • ` : ''}Last active {formatDate(session.lastUsedAt)}
+                            </div>
+                          </div>
+                        </div>
+                        {!session.current && (
+                          <button
+                            onClick={() => handleRevokeSession(session.id)}
+                            disabled={revokingSessionId === session.id}
+                            className="text-xs font-bold text-slate-500 hover:text-red-600 disabled:opacity-50"
+                          >
+                            {revokingSessionId === session.id ? 'Signing out...' : 'Sign out'}
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
             </SettingsSectionCard>
 
             {/* 4. PREFERENCES */}
@@ -439,7 +668,73 @@ export const AccountSettingsPage: React.FC<{ userId: string }> = ({ userId }) =>
               </div>
             </SettingsSectionCard>
 
-            {/* 5. DANGER ZONE */}
+            {/* 5. NOTIFICATIONS */}
+            <SettingsSectionCard 
+              id="notifications" 
+              title="Notifications" 
+              description="Choose what reaches your inbox and the bell."
+              icon={<Bell size={20} />}
+            >
+              {notificationPrefs ? (
+                <div className="space-y-4">
+                  <Toggle 
+                    label="Email Digest" 
+                    description="A regular email with new nuggets in your categories and followed collections."
+                    checked={notificationPrefs.emailDigest} 
+                    onChange={() => toggleNotification('emailDigest')}
+                    icon={<Mail size={18} />}
+                  />
+
+                  <Toggle 
+                    label="New Followers" 
+                    description="Someone follows one of your collections."
+                    checked={notificationPrefs.newFollowers} 
+                    onChange={() => toggleNotification('newFollowers')}
+                    icon={<UserPlus size={18} />}
+                  />
+
+                  <Toggle 
+                    label="Collection Activity" 
+                    description="Your nugget is added to a collection, or you are invited to one."
+                    checked={notificationPrefs.collectionActivity} 
+                    onChange={() => toggleNotification('collectionActivity')}
+                    icon={<FolderPlus size={18} />}
+                  />
+
+                  <Toggle 
+                    label="Moderation Updates" 
+                    description="Outcomes of reports you filed or reports about your content."
+                    checked={notificationPrefs.moderationUpdates} 
+                    onChange={() => toggleNotification('moderationUpdates')}
+                    icon={<Flag size={18} />}
+                  />
+
+                  <Toggle 
+                    label="Feedback Updates" 
+                    description="The team has reviewed feedback you sent."
+                    checked={notificationPrefs.feedbackUpdates} 
+                    onChange={() => toggleNotification('feedbackUpdates')}
+                    icon={<MessageSquare size={18} />}
+                  />
+                </div>
+              ) : notificationPrefs === null ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">Notification settings are unavailable right now.</p>
+              ) : (
+                <Loader2 size={20} className="animate-spin text-slate-400" />
+              )}
+            </SettingsSectionCard>
+
+            {/* 6. YOUR DATA */}
+            <SettingsSectionCard 
+              id="data" 
+              title="Your Data" 
+              description="Download a copy of your data, or bring it over from another instance."
+              icon={<Archive size={20} />}
+            >
+              <DataPortabilitySettings />
+            </SettingsSectionCard>
+
+            {/* 7. DANGER ZONE */}
             <div id="danger" className="border border-red-200 dark:border-red-900/30 rounded-2xl overflow-hidden bg-red-50/30 dark:bg-red-900/10">
               <button
                 onClick={() => setIsDangerZoneOpen(!isDangerZoneOpen)}
@@ -498,6 +793,16 @@ export const AccountSettingsPage: React.FC<{ userId: string }> = ({ userId }) =>
         isDestructive={true}
       />
 
+      <ConfirmActionModal 
+        isOpen={showLogoutAllModal}
+        onClose={() => setShowLogoutAllModal(false)}
+        onConfirm={handleLogoutAllDevices}
+        title="Log out of all devices?"
+        description="Every device signed in to your account, including this one, will be signed out."
+        actionLabel="Log Out Everywhere"
+        isDestructive={true}
+      />
+
     </div>
   );
 };
@@ -5,27 +5,33 @@
  * - Pasted links (one per line)
  * - CSV files
  * - Excel files
+ * - Bookmark exports (browser HTML, Pocket, Raindrop), previewed as a dry run
+ *   with duplicates flagged before anything is created
  * 
  * NO AI features - just metadata fetching and batch creation.
+ * Creation runs as a server-side job, so an import keeps going (and can be
+ * resumed here) after the tab is closed.
  * For AI-powered YouTube analysis, use /youtube-analysis instead.
  */
 
 import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
-import { BatchRow, ImportMode } from '@/types/batch';
+import { BatchRow, BatchJob, ImportMode } from '@/types/batch';
 import { batchService } from '@/services/batchService';
 import { BatchPreviewCard } from '@/components/batch/BatchPreviewCard';
+import { BatchPreviewTable } from '@/components/batch/BatchPreviewTable';
 import { LayoutPreviewToggle, LayoutMode } from '@/components/admin/LayoutPreviewToggle';
-import { FileSpreadsheet, FileText, Link as LinkIcon, Download, ChevronRight, Loader2, CheckCircle2, ArrowLeft } from 'lucide-react';
+import { FileSpreadsheet, FileText, Link as LinkIcon, Download, ChevronRight, Loader2, CheckCircle2, ArrowLeft, XCircle, Bookmark, LayoutGrid, Table } from 'lucide-react';
 import { useToast } from '@/hooks/useToast';
 import { queryClient } from '@/queryClient';
 import { HeaderSpacer } from '@/components/layouts/HeaderSpacer';
 import { LAYOUT_CLASSES } from '@/constants/layout';
 import { Z_INDEX } from '@/constants/zIndex';
 
-// Helper for small delays
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// The job being shown, so it can be picked up again after the tab is closed
+const ACTIVE_JOB_STORAGE_KEY = 'nuggets_batch_job_id';
+const JOB_POLL_INTERVAL_MS = 2000;
 
 export const BulkCreateNuggetsPage: React.FC = () => {
   const { currentUserId, currentUser } = useAuth();
@@ -39,10 +45,15 @@ export const BulkCreateNuggetsPage: React.FC = () => {
   const [rows, setRows] = useState<BatchRow[]>([]);
   const [step, setStep] = useState<'input' | 'review'>('input');
   const [previewLayout, setPreviewLayout] = useState<LayoutMode>('grid');
+  // Cards preview the nuggets; the table suits long bookmark lists
+  const [reviewView, setReviewView] = useState<'cards' | 'table'>('cards');
   
   const [linkInput, setLinkInput] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
-  const [batchProgress, setBatchProgress] = useState<{ current: number; total: number } | null>(null);
+  const [activeJob, setActiveJob] = useState<BatchJob | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const isJobRunning = !!activeJob && !batchService.isBatchJobFinished(activeJob);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -52,6 +63,98 @@ export const BulkCreateNuggetsPage: React.FC = () => {
     };
   }, []);
 
+  // Resume the last import: the job this browser submitted, otherwise the
+  // newest unfinished one (e.g. started on another device)
+  useEffect(() => {
+    if (!currentUserId) return;
+    let cancelled = false;
+
+    const resume = async () => {
+      try {
+        let jobId = localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+        if (!jobId) {
+          const jobs = await batchService.listBatchJobs();
+          jobId = jobs.find(job => !batchService.isBatchJobFinished(job))?.id || null;
+        }
+        if (!jobId) return;
+
+        const job = await batchService.getBatchJob(jobId);
+        if (cancelled || !isMountedRef.current) return;
+        setActiveJob(job);
+        setRows(batchService.rowsFromBatchJob(job));
+        setStep('review');
+      } catch (e: any) {
+        // A job that no longer exists (expired or another account) is simply forgotten
+        if (e?.message !== 'Request cancelled') {
+          localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+        }
+      }
+    };
+
+    resume();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUserId]);
+
+  // Poll an unfinished job until every row has a final status
+  const activeJobId = activeJob?.id;
+  useEffect(() => {
+    if (!activeJobId || !isJobRunning) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const job = await batchService.getBatchJob(activeJobId);
+        if (!isMountedRef.current) return;
+        setActiveJob(job);
+        setRows(prev => batchService.applyBatchJob(prev, job));
+      } catch (e: any) {
+        if (e?.message !== 'Request cancelled') {
+          console.error('Failed to refresh import progress:', e);
+        }
+      }
+    }, JOB_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [activeJobId, isJobRunning]);
+
+  // Report the outcome once when a job finishes while the page is open
+  const previousJobRef = useRef<BatchJob | null>(null);
+  useEffect(() => {
+    const previous = previousJobRef.current;
+    previousJobRef.current = activeJob;
+    if (!activeJob || !previous || previous.id !== activeJob.id) return;
+    if (batchService.isBatchJobFinished(previous) || !batchService.isBatchJobFinished(activeJob)) return;
+
+    const { success: successCount, error: errorCount, cancelled: cancelledCount } = activeJob.summary;
+    if (successCount > 0) {
+      const message = `Successfully created ${successCount} nugget${successCount > 1 ? 's' : ''}`;
+      if (errorCount > 0 || cancelledCount > 0) {
+        const parts = [
+          errorCount > 0 ? `${errorCount} failed` : '',
+          cancelledCount > 0 ? `${cancelledCount} cancelled` : '',
+        ].filter(Boolean);
+        toast.warning(`${message}. ${parts.join(', ')}.`);
+      } else {
+        toast.success(message + '!');
+      }
+      
+      // Invalidate and refetch articles query to refresh feed
+      queryClient.invalidateQueries({ 
+        queryKey: ['articles'],
+        refetchType: 'all'
+      });
+    } else if (activeJob.status === 'cancelled') {
+      toast.info('Import cancelled');
+    } else {
+      const message = errorCount > 0 
+        ? `Failed to create nuggets. ${errorCount} error${errorCount > 1 ? 's' : ''}.`
+        : 'Failed to create nuggets.';
+      toast.error(message);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeJob]);
+
   // --- Handlers ---
 
   const handleLinksParse = async () => {
@@ -157,6 +260,82 @@ export const BulkCreateNuggetsPage: React.FC = () => {
     }
   };
 
+  const handleBookmarksUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    
+    if (!currentUserId) {
+      toast.error("You must be logged in to batch upload");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const parsed = await batchService.parseBookmarks(file);
+      // Dry run: flag duplicates before anything is created; no metadata fetch yet
+      const previewed = await batchService.previewImport(parsed);
+      if (!isMountedRef.current) return;
+      
+      setRows(previewed);
+      setReviewView('table');
+      setStep('review');
+      
+      const duplicateCount = previewed.filter(r => r.duplicate).length;
+      const newCount = previewed.filter(r => !r.duplicate && r.status === 'ready').length;
+      const selectedCount = previewed.filter(r => r.selected).length;
+      const summary = `Found ${previewed.length} bookmark${previewed.length !== 1 ? 's' : ''}: ${newCount} new, ${duplicateCount} duplicate${duplicateCount !== 1 ? 's' : ''}.`;
+      if (selectedCount < newCount) {
+        toast.warning(`${summary} The first ${selectedCount} are selected; import the rest in another batch.`);
+      } else {
+        toast.info(summary);
+      }
+    } catch (e: any) {
+      // Ignore cancellation errors
+      if (e?.message === 'Request cancelled') {
+        return;
+      }
+      if (isMountedRef.current) {
+        console.error(e);
+        toast.error(e?.message || 'Failed to parse bookmarks file');
+      }
+    } finally {
+      if (isMountedRef.current) {
+        setIsProcessing(false);
+        // Reset input
+        e.target.value = '';
+      }
+    }
+  };
+
+  const handleRetryRow = async (id: string) => {
+    const row = rows.find(r => r.id === id);
+    if (!row || !isMountedRef.current || !currentUserId) return;
+    try {
+      const { rows: updatedRows } = await batchService.fetchMetadataForRows(
+        [{ ...row, status: 'pending' as const, errorMessage: undefined }],
+        currentUserId,
+        authorName
+      );
+      if (isMountedRef.current && updatedRows.length > 0) {
+        setRows(prev => prev.map(r => r.id === id ? updatedRows[0] : r));
+        toast.success('Metadata refreshed');
+      }
+    } catch (e: any) {
+      if (e?.message !== 'Request cancelled' && isMountedRef.current) {
+        console.error('Retry failed:', e);
+        toast.error(e?.message || 'Failed to retry metadata fetch');
+      }
+    }
+  };
+
+  const handleUpdateRow = (id: string, updates: Partial<BatchRow>) => {
+    setRows(prev => prev.map(r => r.id === id ? { ...r, ...updates } : r));
+  };
+
+  const handleRemoveRow = (id: string) => {
+    setRows(prev => prev.filter(r => r.id !== id));
+  };
+
   const handleImport = async () => {
     if (!currentUserId) {
       toast.error("You must be logged in to import nuggets");
@@ -170,59 +349,20 @@ export const BulkCreateNuggetsPage: React.FC = () => {
       return;
     }
     
-    console.log(`Starting batch creation: ${selectedRows.length} rows selected`);
-    
     setIsProcessing(true);
-    setBatchProgress({ current: 0, total: selectedRows.length });
     
     try {
-      const result = await batchService.createBatch(rows, currentUserId, authorName, (current, total) => {
-        if (isMountedRef.current) {
-          setBatchProgress({ current, total });
-        }
-      });
-      
+      const job = await batchService.submitBatchJob(rows, currentUserId, authorName);
       if (!isMountedRef.current) return;
       
-      const successCount = result.filter(r => r.status === 'success').length;
-      const errorCount = result.filter(r => r.status === 'error').length;
-      
-      console.log(`Batch creation complete: ${successCount} success, ${errorCount} errors`);
-      
-      // Clear preview data to free memory
-      const cleanedRows = result.map(row => ({
+      localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, job.id);
+      setActiveJob(job);
+      // Clear preview data to free memory; the cards fall back to the row fields
+      setRows(prev => batchService.applyBatchJob(prev, job).map(row => ({
         ...row,
         previewArticle: undefined,
-      }));
-      setRows(cleanedRows);
-      
-      if (isMountedRef.current) {
-        if (successCount > 0) {
-          let message = `Successfully created ${successCount} nugget${successCount > 1 ? 's' : ''}`;
-          if (errorCount > 0) {
-            message += `. ${errorCount} failed.`;
-            toast.warning(message);
-          } else {
-            toast.success(message + '!');
-          }
-          
-          // Invalidate and refetch articles query to refresh feed
-          await delay(500);
-          await queryClient.invalidateQueries({ 
-            queryKey: ['articles'],
-            refetchType: 'all'
-          });
-          await queryClient.refetchQueries({ 
-            queryKey: ['articles'],
-            type: 'active'
-          });
-        } else {
-          const message = errorCount > 0 
-            ? `Failed to create nuggets. ${errorCount} error${errorCount > 1 ? 's' : ''}.`
-            : 'Failed to create nuggets.';
-          toast.error(message);
-        }
-      }
+      })));
+      toast.info(`Importing ${job.summary.total} nugget${job.summary.total !== 1 ? 's' : ''}. You can leave this page; the import keeps running.`);
     } catch (e: any) {
       if (e?.message === 'Request cancelled') {
         return;
@@ -233,11 +373,37 @@ export const BulkCreateNuggetsPage: React.FC = () => {
     } finally {
       if (isMountedRef.current) {
         setIsProcessing(false);
-        setBatchProgress(null);
       }
     }
   };
 
+  const handleCancelJob = async () => {
+    if (!activeJob) return;
+    setIsCancelling(true);
+    try {
+      const job = await batchService.cancelBatchJob(activeJob.id);
+      if (!isMountedRef.current) return;
+      setActiveJob(job);
+      setRows(prev => batchService.applyBatchJob(prev, job));
+    } catch (e: any) {
+      if (e?.message !== 'Request cancelled' && isMountedRef.current) {
+        toast.error(e?.message || 'Failed to cancel import');
+      }
+    } finally {
+      if (isMountedRef.current) {
+        setIsCancelling(false);
+      }
+    }
+  };
+
+  const handleDiscard = () => {
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    setActiveJob(null);
+    setRows([]);
+    setReviewView('cards');
+    setStep('input');
+  };
+
   // --- Render Helpers ---
 
   const downloadTemplate = (type: 'csv' | 'excel') => {
@@ -289,7 +455,7 @@ export const BulkCreateNuggetsPage: React.FC = () => {
               <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
                 Batch Import
               </h1>
-              <p className="text-gray-500 dark:text-slate-400 mt-1">Import multiple nuggets from links, CSV, or Excel files.</p>
+              <p className="text-gray-500 dark:text-slate-400 mt-1">Import multiple nuggets from links, CSV or Excel files, or bookmark exports.</p>
             </div>
             {step === 'review' && (
               <div className="flex items-center gap-3">
@@ -297,17 +463,29 @@ export const BulkCreateNuggetsPage: React.FC = () => {
                   {rows.filter(r => r.selected).length} items selected
                 </div>
                 <div className="flex items-center gap-3">
-                  {batchProgress && (
+                  {activeJob && (
                     <div className="text-xs text-gray-500 dark:text-slate-400">
-                      {batchProgress.current} / {batchProgress.total}
+                      {isJobRunning
+                        ? `Importing ${activeJob.summary.done} / ${activeJob.summary.total}`
+                        : `${activeJob.summary.success} / ${activeJob.summary.total} imported`}
                     </div>
                   )}
+                  {isJobRunning && (
+                    <button
+                      onClick={handleCancelJob}
+                      disabled={isCancelling}
+                      className="px-4 py-2 border border-gray-200 dark:border-slate-700 text-gray-700 dark:text-slate-200 rounded-xl font-bold text-sm hover:bg-gray-50 dark:hover:bg-slate-800 disabled:opacity-50 flex items-center gap-2 transition-all"
+                    >
+                      {isCancelling ? <Loader2 size={16} className="animate-spin" /> : <XCircle size={16} />}
+                      Cancel Import
+                    </button>
+                  )}
                   <button 
                     onClick={handleImport}
-                    disabled={isProcessing || readyCount === 0}
+                    disabled={isProcessing || isJobRunning || readyCount === 0}
                     className="px-6 py-2 bg-yellow-400 text-gray-900 rounded-xl font-bold text-sm hover:bg-yellow-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 shadow-sm transition-all"
                   >
-                    {isProcessing ? <Loader2 size={16} className="animate-spin" /> : <CheckCircle2 size={16} />}
+                    {isProcessing || isJobRunning ? <Loader2 size={16} className="animate-spin" /> : <CheckCircle2 size={16} />}
                     Import Selected ({readyCount})
                   </button>
                 </div>
@@ -340,6 +518,12 @@ export const BulkCreateNuggetsPage: React.FC = () => {
               >
                 <FileSpreadsheet size={18} /> Import Excel
               </button>
+              <button 
+                onClick={() => setActiveTab('bookmarks')}
+                className={`flex-1 py-4 text-sm font-bold flex items-center justify-center gap-2 border-b-2 transition-colors ${activeTab === 'bookmarks' ? 'border-yellow-400 text-gray-900 dark:text-white bg-yellow-50/50 dark:bg-yellow-900/10' : 'border-transparent text-gray-500 hover:text-gray-700 hover:bg-gray-50 dark:hover:bg-slate-800/50'}`}
+              >
+                <Bookmark size={18} /> Import Bookmarks
+              </button>
             </div>
 
             <div className="p-8 flex-1 flex flex-col">
@@ -402,6 +586,35 @@ export const BulkCreateNuggetsPage: React.FC = () => {
                   {isProcessing && <div className="flex items-center gap-2 text-sm font-bold text-gray-500"><Loader2 size={16} className="animate-spin" /> Parsing file...</div>}
                 </div>
               )}
+
+              {/* BOOKMARKS MODE */}
+              {activeTab === 'bookmarks' && (
+                <div className="flex flex-col items-center justify-center h-full gap-6 max-w-xl mx-auto w-full text-center">
+                  <div className="w-20 h-20 bg-gray-100 dark:bg-slate-800 rounded-full flex items-center justify-center text-gray-400 mb-2">
+                    <Bookmark size={40} />
+                  </div>
+                  
+                  <div>
+                    <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-2">Upload a bookmarks export</h3>
+                    <p className="text-sm text-gray-500 dark:text-slate-400">
+                      Browser bookmarks (HTML from Chrome, Firefox, Edge or Safari), a Pocket export (HTML or CSV) or a Raindrop CSV.
+                      Folders become bookmark folders and tags become categories. You can review everything, including duplicates, before importing.
+                    </p>
+                  </div>
+
+                  <div className="flex flex-col gap-4 w-full max-w-sm">
+                    <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-gray-300 dark:border-slate-700 border-dashed rounded-xl cursor-pointer bg-gray-50 dark:bg-slate-800/50 hover:bg-gray-100 dark:hover:bg-slate-800 hover:border-yellow-400 transition-colors group">
+                      <div className="flex flex-col items-center justify-center pt-5 pb-6">
+                        <p className="mb-2 text-sm text-gray-500 dark:text-slate-400 group-hover:text-yellow-600 transition-colors font-bold">Click to upload</p>
+                        <p className="text-xs text-gray-500 dark:text-slate-400">.html or .csv</p>
+                      </div>
+                      <input type="file" className="hidden" accept=".html,.htm,.csv" onChange={handleBookmarksUpload} />
+                    </label>
+                  </div>
+                  
+                  {isProcessing && <div className="flex items-center gap-2 text-sm font-bold text-gray-500"><Loader2 size={16} className="animate-spin" /> Checking bookmarks...</div>}
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -413,57 +626,74 @@ export const BulkCreateNuggetsPage: React.FC = () => {
                 Review & Edit ({rows.length} items)
               </h2>
               <button 
-                onClick={() => { setRows([]); setStep('input'); }} 
-                className="text-sm font-bold text-red-500 hover:text-red-600 transition-colors"
+                onClick={handleDiscard} 
+                disabled={isJobRunning}
+                title={isJobRunning ? 'Cancel the running import first' : undefined}
+                className="text-sm font-bold text-red-500 hover:text-red-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
-                Discard All
+                {activeJob && !isJobRunning ? 'Start New Import' : 'Discard All'}
               </button>
             </div>
             
             {/* Layout Preview Toggle */}
-            <div className="flex items-center justify-between">
-              <LayoutPreviewToggle
-                currentLayout={previewLayout}
-                onLayoutChange={setPreviewLayout}
-              />
+            <div className="flex items-center justify-between gap-3">
+              {reviewView === 'cards' ? (
+                <LayoutPreviewToggle
+                  currentLayout={previewLayout}
+                  onLayoutChange={setPreviewLayout}
+                />
+              ) : <div />}
+              <div className="flex items-center gap-1 p-1 bg-gray-100 dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700">
+                {[
+                  { view: 'cards' as const, icon: <LayoutGrid size={16} />, label: 'Cards' },
+                  { view: 'table' as const, icon: <Table size={16} />, label: 'Table' },
+                ].map(({ view, icon, label }) => (
+                  <button
+                    key={view}
+                    onClick={() => setReviewView(view)}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${
+                      reviewView === view
+                        ? 'bg-yellow-400 text-gray-900 shadow-sm'
+                        : 'text-gray-600 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-slate-700'
+                    }`}
+                    aria-pressed={reviewView === view}
+                  >
+                    {icon}
+                    <span>{label}</span>
+                  </button>
+                ))}
+              </div>
             </div>
             
+            {/* Table Preview */}
+            {reviewView === 'table' && rows.length > 0 && (
+              <BatchPreviewTable
+                rows={rows}
+                onUpdateRow={handleUpdateRow}
+                onRemoveRow={handleRemoveRow}
+                onRetryRow={handleRetryRow}
+              />
+            )}
+            
             {/* Card Grid Preview */}
-            <div className={
-              previewLayout === 'feed'
-                ? 'flex flex-col gap-8 max-w-2xl mx-auto'
-                : 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6'
-            }>
-              {rows.map((row) => (
-                <BatchPreviewCard
-                  key={row.id}
-                  row={row}
-                  layoutMode={previewLayout}
-                  onRemove={(id) => setRows(prev => prev.filter(r => r.id !== id))}
-                  onRetry={async (id) => {
-                    const row = rows.find(r => r.id === id);
-                    if (!row || !isMountedRef.current || !currentUserId) return;
-                    try {
-                      const { rows: updatedRows } = await batchService.fetchMetadataForRows(
-                        [{ ...row, status: 'pending' as const, errorMessage: undefined }],
-                        currentUserId,
-                        authorName
-                      );
-                      if (isMountedRef.current && updatedRows.length > 0) {
-                        setRows(prev => prev.map(r => r.id === id ? updatedRows[0] : r));
-                        toast.success('Metadata refreshed');
-                      }
-                    } catch (e: any) {
-                      if (e?.message !== 'Request cancelled' && isMountedRef.current) {
-                        console.error('Retry failed:', e);
-                        toast.error(e?.message || 'Failed to retry metadata fetch');
-                      }
-                    }
-                  }}
-                  onUpdate={(id, updates) => setRows(prev => prev.map(r => r.id === id ? { ...r, ...updates } : r))}
-                />
-              ))}
-            </div>
+            {reviewView === 'cards' && (
+              <div className={
+                previewLayout === 'feed'
+                  ? 'flex flex-col gap-8 max-w-2xl mx-auto'
+                  : 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6'
+              }>
+                {rows.map((row) => (
+                  <BatchPreviewCard
+                    key={row.id}
+                    row={row}
+                    layoutMode={previewLayout}
+                    onRemove={handleRemoveRow}
+                    onRetry={handleRetryRow}
+                    onUpdate={handleUpdateRow}
+                  />
+                ))}
+              </div>
+            )}
             
             {rows.length === 0 && (
               <div className="text-center py-12 text-gray-500 dark:text-slate-400">
@@ -1,8 +1,10 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Collection, Article, Contributor } from '@/types';
+import { Collection, Article, Contributor, CollectionSection } from '@/types';
 import { storageService } from '@/services/storageService';
+import { collectionCurationService } from '@/services/collectionCurationService';
 import { ArrowLeft, Folder, Users, Layers, Plus, Info } from 'lucide-react';
+import { LayoutGrid, List } from 'lucide-react';
 import { ArticleGrid } from '@/components/ArticleGrid';
 import { useToast } from '@/hooks/useToast';
 import { ArticleModal } from '@/components/ArticleModal';
@@ -12,6 +14,13 @@ import { useAuth } from '@/hooks/useAuth';
 import { HeaderSpacer } from '@/components/layouts/HeaderSpacer';
 import { LAYOUT_CLASSES } from '@/constants/layout';
 import { Z_INDEX } from '@/constants/zIndex';
+import { CollectionMembersPanel } from '@/components/collections/CollectionMembersPanel';
+import { CollectionEntriesTableView } from '@/components/collections/TableView';
+import { CollectionReviewQueue } from '@/components/collections/CollectionReviewQueue';
+import { groupCollectionEntries, moveCollectionEntry } from '@/utils/collectionSections';
+
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.response?.data?.message || err?.message || fallback;
 
 export const CollectionDetailPage: React.FC = () => {
   // URL params are the single source of truth for selected collection
@@ -21,9 +30,10 @@ export const CollectionDetailPage: React.FC = () => {
   const { currentUserId } = useAuth();
 
   const [collection, setCollection] = useState<Collection | null>(null);
-  const [nuggets, setNuggets] = useState<Article[]>([]);
+  const [articles, setArticles] = useState<Record<string, Article>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [selectedArticle, setSelectedArticle] = useState<Article | null>(null);
+  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
 
   // URL-driven fetching: collectionId from useParams is the ONLY fetch trigger
   // Effect depends ONLY on collectionId to prevent render loops
@@ -36,7 +46,7 @@ export const CollectionDetailPage: React.FC = () => {
 
     // Clear previous state when collectionId changes (prevents stale data)
     setCollection(null);
-    setNuggets([]);
+    setArticles({});
     setIsLoading(true);
     setSelectedArticle(null);
 
@@ -57,36 +67,11 @@ export const CollectionDetailPage: React.FC = () => {
           return; 
         }
         
-        // Extract unique user IDs needed for contributor resolution
-        const uniqueUserIds = [...new Set(col.entries.map(entry => entry.addedByUserId))];
-        
-        // Fetch only required users in parallel
-        const userPromises = uniqueUserIds.map(userId => 
-          storageService.getUserById(userId).catch(() => undefined)
-        );
-        const users = await Promise.all(userPromises);
-        const userMap = new Map(users.filter((u): u is NonNullable<typeof u> => u !== undefined).map(u => [u.id, u]));
-
         // Fetch specific articles in parallel using Promise.all
+        // (contributor and note details are attached per entry at render time)
         const articlePromises = col.entries.map(async (entry) => {
           try {
-            const article = await storageService.getArticleById(entry.articleId);
-            if (!article) return null;
-            
-            // Inject addedBy data for display
-            const adder = userMap.get(entry.addedByUserId);
-            const contributor: Contributor | undefined = adder ? {
-                userId: adder.id,
-                name: adder.name,
-                username: adder.username || (adder.email ? adder.email.split('@')[0] : undefined), 
-                avatarUrl: adder.avatarUrl,
-                addedAt: entry.addedAt
-            } : undefined;
-
-            return {
-                ...article,
-                addedBy: contributor
-            };
+            return await storageService.getArticleById(entry.articleId);
           } catch (error) {
             // Handle case where article was deleted but entry still exists
             console.warn(`Failed to fetch article ${entry.articleId}:`, error);
@@ -96,12 +81,15 @@ export const CollectionDetailPage: React.FC = () => {
 
         // Wait for all article fetches to complete and filter out nulls
         const articleResults = await Promise.all(articlePromises);
-        const collectionNuggets = articleResults.filter((article): article is Article => article !== null);
+        const collectionArticles: Record<string, Article> = {};
+        articleResults.forEach(article => {
+          if (article) collectionArticles[article.id] = article;
+        });
 
         // Only update state if still mounted and collectionId hasn't changed
         if (isMounted && collectionId === id) {
           setCollection(col);
-          setNuggets(collectionNuggets);
+          setArticles(collectionArticles);
         }
       } catch (e) { 
         // Only show error if still mounted and collectionId hasn't changed
@@ -136,6 +124,79 @@ export const CollectionDetailPage: React.FC = () => {
       });
   };
 
+  // Apply a curation change optimistically, then take the server's copy;
+  // on failure fall back to the copy from before the change
+  const runCuration = async (
+    optimistic: ((col: Collection) => Collection) | null,
+    request: (col: Collection) => Promise<Collection>,
+    failure: string
+  ) => {
+    if (!collection) return;
+    const previous = collection;
+    if (optimistic) setCollection(optimistic(previous));
+    try {
+      const updated = await request(previous);
+      setCollection(prev => prev ? { ...prev, ...updated } : prev);
+    } catch (err: any) {
+      setCollection(previous);
+      if (err?.response?.status === 409) {
+        toast.error('Collection changed', { description: 'Someone else rearranged it. Reload to see the latest order.' });
+      } else {
+        toast.error(failure, { description: getErrorMessage(err, 'Please try again.') });
+      }
+    }
+  };
+
+  const handleMoveEntry = (articleId: string, sectionId: string | null, index: number) => runCuration(
+    col => ({ ...col, entries: moveCollectionEntry(col.entries, articleId, sectionId, index) }),
+    col => collectionCurationService.moveEntry(col.id, articleId, { sectionId, index }, col.updatedAt),
+    'Could not move nugget'
+  );
+
+  const handleNoteChange = (articleId: string, note: string | null) => runCuration(
+    col => ({ ...col, entries: col.entries.map(entry => entry.articleId === articleId ? { ...entry, note: note ?? undefined } : entry) }),
+    col => collectionCurationService.updateNote(col.id, articleId, note),
+    'Could not save note'
+  );
+
+  const handleCreateSection = (title: string) => runCuration(
+    null,
+    col => collectionCurationService.createSection(col.id, title),
+    'Could not add section'
+  );
+
+  const handleUpdateSection = (sectionId: string, changes: { title?: string; index?: number }) => runCuration(
+    null,
+    col => collectionCurationService.updateSection(col.id, sectionId, changes),
+    'Could not update section'
+  );
+
+  const handleFlagEntry = (articleId: string) => runCuration(
+    col => ({
+      ...col,
+      entries: col.entries.map(entry => entry.articleId === articleId && currentUserId
+        ? { ...entry, flaggedBy: [...entry.flaggedBy, currentUserId] }
+        : entry)
+    }),
+    col => collectionCurationService.flagEntry(col.id, articleId),
+    'Could not flag nugget'
+  );
+
+  const handleReviewEntry = (articleId: string, decision: 'keep' | 'remove') => runCuration(
+    null,
+    col => collectionCurationService.reviewEntry(col.id, articleId, decision),
+    decision === 'keep' ? 'Could not keep nugget' : 'Could not remove nugget'
+  );
+
+  const handleDeleteSection = (section: CollectionSection) => {
+    if (!window.confirm(`Delete the section "${section.title}"? Its nuggets move to the top of the collection.`)) return;
+    runCuration(
+      null,
+      col => collectionCurationService.deleteSection(col.id, section.id),
+      'Could not delete section'
+    );
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-slate-50 dark:bg-slate-950">
@@ -149,6 +210,32 @@ export const CollectionDetailPage: React.FC = () => {
   if (!collection) return null;
 
   const theme = getCollectionTheme(collection.id);
+  // Private collections only take nuggets from editors and owners; public ones from anyone
+  const canAddNuggets = collection.type === 'public' || collection.viewerRole === 'owner' || collection.viewerRole === 'editor';
+  const showMembers = collection.viewerRole === 'owner' || (collection.members?.length ?? 0) > 0;
+  const canArrange = collection.viewerRole === 'owner' || collection.viewerRole === 'editor';
+
+  // Nuggets in curated order with who added them and the curator note
+  const toNugget = (entry: Collection['entries'][number]): Article | null => {
+    const article = articles[entry.articleId];
+    if (!article) return null;
+    const contributor: Contributor | undefined = entry.user ? {
+      userId: entry.addedByUserId,
+      name: entry.user.name,
+      username: entry.user.username,
+      avatarUrl: entry.user.avatarUrl,
+      addedAt: entry.addedAt,
+      note: entry.note
+    } : undefined;
+    return { ...article, addedBy: contributor };
+  };
+  const nuggetGroups = groupCollectionEntries(collection.entries, collection.sections)
+    .map(group => ({
+      section: group.section,
+      nuggets: group.entries.map(toNugget).filter((article): article is Article => article !== null)
+    }))
+    .filter(group => group.section || group.nuggets.length > 0);
+  const nuggetCount = nuggetGroups.reduce((total, group) => total + group.nuggets.length, 0);
 
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-950 pb-20">
@@ -173,13 +260,35 @@ export const CollectionDetailPage: React.FC = () => {
                         </h1>
                         <p className="text-gray-500 dark:text-slate-400 max-w-2xl leading-relaxed">{collection.description || "No description provided."}</p>
                         <div className="flex items-center gap-6 mt-4 text-sm text-gray-500 dark:text-slate-400 font-medium">
-                            <span className="flex items-center gap-1.5"><Layers size={16} /> {nuggets.length} nuggets</span>
+                            <span className="flex items-center gap-1.5"><Layers size={16} /> {nuggetCount} nuggets</span>
                             <span className="flex items-center gap-1.5"><Users size={16} /> {collection.followersCount} followers</span>
-                            <span className="flex items-center gap-1.5"><Info size={16} /> Created by u1</span>
+                            {collection.creator && (
+                              <span className="flex items-center gap-1.5"><Info size={16} /> Created by {collection.creator.name}</span>
+                            )}
                         </div>
                     </div>
                 </div>
                 <div className="flex gap-3 shrink-0 items-center">
+                    <div className="flex items-center bg-gray-100 dark:bg-slate-800 rounded-xl p-1" role="group" aria-label="View">
+                        <button
+                          type="button"
+                          onClick={() => setViewMode('grid')}
+                          aria-pressed={viewMode === 'grid'}
+                          aria-label="Grid view"
+                          className={`p-1.5 rounded-lg transition-colors ${viewMode === 'grid' ? 'bg-white dark:bg-slate-700 text-gray-900 dark:text-white shadow-sm' : 'text-gray-400 hover:text-gray-700 dark:hover:text-white'}`}
+                        >
+                          <LayoutGrid size={16} />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setViewMode('list')}
+                          aria-pressed={viewMode === 'list'}
+                          aria-label={canArrange ? 'List view (arrange)' : 'List view'}
+                          className={`p-1.5 rounded-lg transition-colors ${viewMode === 'list' ? 'bg-white dark:bg-slate-700 text-gray-900 dark:text-white shadow-sm' : 'text-gray-400 hover:text-gray-700 dark:hover:text-white'}`}
+                        >
+                          <List size={16} />
+                        </button>
+                    </div>
                     <ShareMenu 
                         data={{
                             type: 'collection',
@@ -193,24 +302,89 @@ export const CollectionDetailPage: React.FC = () => {
                         className="hover:bg-gray-100 dark:hover:bg-slate-800 text-gray-400 hover:text-gray-600 dark:hover:text-white w-10 h-10"
                         iconSize={20}
                     />
-                    <button onClick={handleAddNugget} className="px-4 py-2 bg-gray-900 dark:bg-white text-white dark:text-gray-900 rounded-xl text-sm font-bold hover:bg-gray-800 dark:hover:bg-gray-100 transition-colors flex items-center gap-2 shadow-sm">
-                        <Plus size={16} /> Add Nugget
-                    </button>
+                    {canAddNuggets && (
+                      <button onClick={handleAddNugget} className="px-4 py-2 bg-gray-900 dark:bg-white text-white dark:text-gray-900 rounded-xl text-sm font-bold hover:bg-gray-800 dark:hover:bg-gray-100 transition-colors flex items-center gap-2 shadow-sm">
+                          <Plus size={16} /> Add Nugget
+                      </button>
+                    )}
                 </div>
             </div>
         </div>
       </div>
-      <div className="max-w-[1800px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <ArticleGrid 
-            articles={nuggets}
-            viewMode="grid"
-            isLoading={false}
-            onArticleClick={setSelectedArticle}
-            onCategoryClick={() => {}}
-            emptyTitle="Empty Collection"
-            emptyMessage="This collection has no nuggets yet. Be the first to add one!"
-            currentUserId={currentUserId}
-        />
+      <div className={`max-w-[1800px] mx-auto px-4 sm:px-6 lg:px-8 py-8 ${showMembers ? 'lg:grid lg:grid-cols-[minmax(0,1fr)_300px] lg:gap-8 lg:items-start' : ''}`}>
+        <div className="min-w-0">
+          {canArrange && (
+            <CollectionReviewQueue
+              collection={collection}
+              articles={articles}
+              onReview={handleReviewEntry}
+              onArticleClick={setSelectedArticle}
+            />
+          )}
+          {viewMode === 'list' ? (
+            <CollectionEntriesTableView
+              collection={collection}
+              articles={articles}
+              canArrange={canArrange}
+              currentUserId={currentUserId}
+              onArticleClick={(article) => {
+                const entry = collection.entries.find(item => item.articleId === article.id);
+                setSelectedArticle((entry && toNugget(entry)) || article);
+              }}
+              onMoveEntry={handleMoveEntry}
+              onNoteChange={handleNoteChange}
+              onCreateSection={handleCreateSection}
+              onUpdateSection={handleUpdateSection}
+              onDeleteSection={handleDeleteSection}
+              onFlagEntry={handleFlagEntry}
+            />
+          ) : nuggetGroups.length === 0 || (nuggetGroups.length === 1 && !nuggetGroups[0].section) ? (
+            <ArticleGrid 
+                articles={nuggetGroups[0]?.nuggets || []}
+                viewMode="grid"
+                isLoading={false}
+                onArticleClick={setSelectedArticle}
+                onCategoryClick={() => {}}
+                emptyTitle="Empty Collection"
+                emptyMessage="This collection has no nuggets yet. Be the first to add one!"
+                currentUserId={currentUserId}
+            />
+          ) : (
+            <div className="space-y-10">
+              {nuggetGroups.map(group => (
+                <section key={group.section?.id ?? 'top'}>
+                  {group.section && (
+                    <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-4 pb-2 border-b border-gray-200 dark:border-slate-800">
+                      {group.section.title}
+                    </h2>
+                  )}
+                  {group.nuggets.length > 0 ? (
+                    <ArticleGrid
+                        articles={group.nuggets}
+                        viewMode="grid"
+                        isLoading={false}
+                        onArticleClick={setSelectedArticle}
+                        onCategoryClick={() => {}}
+                        currentUserId={currentUserId}
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-400">No nuggets in this section yet.</p>
+                  )}
+                </section>
+              ))}
+            </div>
+          )}
+        </div>
+        {showMembers && (
+          <div className="mt-8 lg:mt-0">
+            <CollectionMembersPanel
+              collection={collection}
+              currentUserId={currentUserId}
+              onMembersChange={(updated) => setCollection(prev => prev ? { ...prev, ...updated } : prev)}
+              onLeave={() => navigate('/collections')}
+            />
+          </div>
+        )}
       </div>
       {selectedArticle && <ArticleModal isOpen={!!selectedArticle} onClose={() => setSelectedArticle(null)} article={selectedArticle} />}
     </div>
@@ -6,6 +6,7 @@ import { EmptyState } from '@/components/UI/EmptyState';
 import { useNavigate } from 'react-router-dom';
 import { CollectionCard } from '@/components/collections/CollectionCard';
 import { TableView } from '@/components/collections/TableView';
+import { CollectionInvitations } from '@/components/collections/CollectionInvitations';
 import { createPortal } from 'react-dom';
 import { useToast } from '@/hooks/useToast';
 import { Tooltip } from '@/components/UI/Tooltip';
@@ -352,6 +353,7 @@ export const CollectionsPage: React.FC = () => {
       </div>
 
       <div className="max-w-[1280px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <CollectionInvitations />
         {processedCollections.length === 0 ? (
             <EmptyState icon={<Search />} title="No collections found" description={searchQuery ? `We couldn't find anything matching "${searchQuery}".` : "Be the first to create a community collection!"} />
         ) : (
@@ -73,12 +73,7 @@ export const FeedPage: React.FC = () => {
     }
   }, [navigate, fromFeed]);
   
-  // Handle article actions (like, bookmark, share)
-  const handleLike = useCallback((article: Article) => {
-    // TODO: Implement like functionality
-    console.log('Like article:', article.id);
-  }, []);
-  
+  // Handle article actions (bookmark, share); likes are handled by the cards and ActionDock
   const handleBookmark = useCallback((article: Article) => {
     // TODO: Implement bookmark functionality
     console.log('Bookmark article:', article.id);
@@ -99,7 +94,6 @@ export const FeedPage: React.FC = () => {
         isLoading={isLoading}
         gap={16}
         overscan={3}
-        onLike={handleLike}
         onBookmark={handleBookmark}
         onShare={handleShare}
       />
@@ -110,8 +104,7 @@ export const FeedPage: React.FC = () => {
           article={detailArticle}
           isOpen={isDetailOpen}
           onClose={handleDetailClose}
-          onLike={handleLike}
-          onBookmark={handleBookmark}
+            onBookmark={handleBookmark}
           onShare={handleShare}
         />
       )}
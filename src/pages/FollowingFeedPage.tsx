@@ -0,0 +1,174 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Folder, Rss } from 'lucide-react';
+import { Article, FollowingFeedItem } from '@/types';
+import { followingFeedService } from '@/services/followingFeedService';
+import { queryClient } from '@/queryClient';
+import { FOLLOWING_UNREAD_QUERY_KEY } from '@/hooks/useFollowingUnreadCount';
+import { useToast } from '@/hooks/useToast';
+import { ArticleModal } from '@/components/ArticleModal';
+import { Avatar } from '@/components/shared/Avatar';
+import { HeaderSpacer } from '@/components/layouts/HeaderSpacer';
+import { LAYOUT_CLASSES } from '@/constants/layout';
+import { Z_INDEX } from '@/constants/zIndex';
+import { formatRelativeTime } from '@/utils/relativeTime';
+
+/**
+ * New entries in the collections the user follows, newest first.
+ * Opening the page marks everything up to the newest entry as read;
+ * entries that were unread on arrival stay highlighted until the next visit.
+ */
+export const FollowingFeedPage: React.FC = () => {
+  const [items, setItems] = useState<FollowingFeedItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [selectedArticle, setSelectedArticle] = useState<Article | null>(null);
+  const toast = useToast();
+
+  const markRead = useCallback(async (until: string) => {
+    try {
+      const result = await followingFeedService.markRead(until);
+      queryClient.setQueryData(FOLLOWING_UNREAD_QUERY_KEY, result.unreadCount);
+    } catch {
+      // Read state is best effort; the badge catches up on its next poll
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const response = await followingFeedService.getFeed(1);
+        if (cancelled) return;
+        setItems(response.data);
+        setHasMore(response.hasMore);
+        setPage(1);
+        if (response.unreadCount > 0 && response.data.length > 0) {
+          markRead(response.data[0].entry.addedAt);
+        }
+      } catch {
+        if (!cancelled) toast.error('Could not load your following feed');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- useToast returns a new object each render
+  }, [markRead]);
+
+  const loadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      const response = await followingFeedService.getFeed(page + 1);
+      setItems(prev => [...prev, ...response.data]);
+      setHasMore(response.hasMore);
+      setPage(page + 1);
+    } catch {
+      toast.error('Could not load more entries');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-950 pb-20">
+      <HeaderSpacer />
+      <div
+        className={`sticky ${LAYOUT_CLASSES.STICKY_BELOW_HEADER} ${LAYOUT_CLASSES.PAGE_TOOLBAR}`}
+        style={{ zIndex: Z_INDEX.CATEGORY_BAR }}
+      >
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Rss size={22} className="text-yellow-500" /> Following
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">
+            New nuggets in the collections you follow
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-yellow-400"></div>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-20 text-gray-500 dark:text-slate-400">
+            <Folder size={40} strokeWidth={1.5} className="mx-auto mb-3 text-gray-300 dark:text-slate-600" />
+            <p className="text-sm font-medium">Nothing new in the collections you follow.</p>
+            <Link to="/collections" className="text-sm font-bold text-gray-900 dark:text-white hover:underline">
+              Browse collections
+            </Link>
+          </div>
+        ) : (
+          <>
+            <ul className="space-y-3">
+              {items.map(item => (
+                <li
+                  key={`${item.collection.id}:${item.entry.articleId}`}
+                  className={`rounded-2xl border p-4 transition-colors ${
+                    item.isUnread
+                      ? 'border-yellow-300 bg-yellow-50 dark:border-yellow-900/40 dark:bg-yellow-900/10'
+                      : 'border-gray-200 bg-white dark:border-slate-800 dark:bg-slate-900'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-slate-400 mb-2">
+                    {item.entry.user && (
+                      <Avatar name={item.entry.user.name} src={item.entry.user.avatarUrl} size="xs" />
+                    )}
+                    <span className="font-semibold text-gray-700 dark:text-slate-200">
+                      {item.entry.user?.name || 'Someone'}
+                    </span>
+                    <span>added to</span>
+                    <Link
+                      to={`/collections/${item.collection.id}`}
+                      className="font-semibold text-gray-700 dark:text-slate-200 hover:underline truncate"
+                    >
+                      {item.collection.name}
+                    </Link>
+                    <span className="ml-auto shrink-0">{formatRelativeTime(item.entry.addedAt)}</span>
+                    {item.isUnread && <span className="w-2 h-2 rounded-full bg-yellow-400 shrink-0" aria-label="Unread" />}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedArticle(item.article)}
+                    className="block w-full text-left"
+                  >
+                    <p className="text-sm font-bold text-gray-900 dark:text-white hover:underline">
+                      {item.article.title || 'Untitled nugget'}
+                    </p>
+                    {item.article.excerpt && (
+                      <p className="text-sm text-gray-600 dark:text-slate-300 line-clamp-2 mt-0.5">{item.article.excerpt}</p>
+                    )}
+                  </button>
+                  {item.entry.note && (
+                    <p className="mt-2 text-xs italic text-gray-500 dark:text-slate-400 border-l-2 border-gray-200 dark:border-slate-700 pl-2">
+                      {item.entry.note}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {hasMore && (
+              <div className="flex justify-center mt-6">
+                <button
+                  type="button"
+                  onClick={loadMore}
+                  disabled={isLoadingMore}
+                  className="px-4 py-2 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 text-gray-700 dark:text-slate-200 rounded-lg text-sm font-bold hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+                >
+                  {isLoadingMore ? 'Loading…' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {selectedArticle && <ArticleModal isOpen={!!selectedArticle} onClose={() => setSelectedArticle(null)} article={selectedArticle} />}
+    </div>
+  );
+};
@@ -119,8 +119,10 @@ export const HomePage: React.FC<HomePageProps> = ({
   const activeCategory = useMemo(() => {
     if (selectedCategories.length === 0) return 'All';
     if (selectedCategories.includes('Today')) return 'Today';
+    // Following needs a signed-in user; fall back to everything after logout
+    if (selectedCategories.includes('Following')) return currentUserId ? 'Following' : 'All';
     return selectedCategories[0] || 'All';
-  }, [selectedCategories]);
+  }, [selectedCategories, currentUserId]);
 
   // CRITICAL FIX: Use infinite scroll for ALL view modes (grid, feed, masonry, utility)
   // This ensures consistent pagination behavior and allows loading more than 25 items
@@ -360,6 +362,7 @@ export const HomePage: React.FC<HomePageProps> = ({
               categories={categoriesWithCounts}
               activeCategory={activeCategory}
               onSelect={handleCategorySelect}
+              showFollowing={!!currentUserId}
             />
           }
           mainContent={
@@ -519,6 +522,8 @@ export const HomePage: React.FC<HomePageProps> = ({
                     hasNextPage={hasNextPage}
                     isFetchingNextPage={isFetchingNextPage}
                     onLoadMore={fetchNextPage}
+                    emptyTitle={activeCategory === 'Following' ? 'Nothing from people you follow yet' : undefined}
+                    emptyMessage={activeCategory === 'Following' ? 'Follow people from their profile to see their nuggets here.' : undefined}
                 />
                 </div>
               )}
@@ -6,7 +6,8 @@ import { ProfileCard } from '@/components/profile/ProfileCard';
 import { TabsBar } from '@/components/profile/TabsBar';
 import { NewsCard } from '@/components/NewsCard';
 import { CollectionsGrid } from '@/components/profile/CollectionsGrid';
-import { Loader2, Layers, CheckSquare, X, Trash2, Lock, Globe, FolderPlus, ChevronDown, Info, Plus } from 'lucide-react';
+import { EngagementTrendsPanel } from '@/components/profile/EngagementTrendsPanel';
+import { Loader2, Layers, CheckSquare, X, Trash2, Lock, Globe, FolderPlus, ChevronDown, Info, Plus, CalendarClock } from 'lucide-react';
 import { ArticleModal } from '@/components/ArticleModal';
 import { AddToCollectionModal } from '@/components/AddToCollectionModal';
 import { useToast } from '@/hooks/useToast';
@@ -17,6 +18,10 @@ import { HeaderSpacer } from '@/components/layouts/HeaderSpacer';
 import { useInfiniteQuery } from '@tanstack/react-query';
 import { PaginatedArticlesResponse } from '@/services/adapters/IAdapter';
 import { apiClient } from '@/services/apiClient';
+import { userFollowService } from '@/services/userFollowService';
+import { batchService } from '@/services/batchService';
+import { SchedulePublishModal } from '@/components/profile/SchedulePublishModal';
+import { formatDate } from '@/utils/formatters';
 
 interface MySpacePageProps {
   currentUserId: string;
@@ -25,6 +30,7 @@ interface MySpacePageProps {
 // Dynamic descriptions based on state
 const getDescription = (tab: string, visibility: 'public' | 'private') => {
   if (tab === 'collections') return "Thematic lists you have curated for the community.";
+  if (tab === 'insights') return "Views and shares of your public nuggets over time.";
   if (tab === 'nuggets') {
       return visibility === 'public' 
         ? "Your nuggets that you've shared with the community."
@@ -120,6 +126,8 @@ export const MySpacePage: React.FC<MySpacePageProps> = ({ currentUserId }) => {
   const [isActionMenuOpen, setIsActionMenuOpen] = useState(false);
   const actionMenuRef = useRef<HTMLDivElement>(null);
   const [isUpdatingVisibility, setIsUpdatingVisibility] = useState(false);
+  // Private nuggets being scheduled (one from its card, or the selection)
+  const [scheduleTarget, setScheduleTarget] = useState<{ ids: string[]; scheduledPublishAt?: string } | null>(null);
   
   // Context
   const targetUserId = userId || currentUserId;
@@ -290,10 +298,26 @@ export const MySpacePage: React.FC<MySpacePageProps> = ({ currentUserId }) => {
         label: 'Community Collections', 
         count: publicCollections.length 
     },
+    // Engagement trends are private to the author
+    ...(isOwner ? [{ id: 'insights', label: 'Insights' }] : []),
   ];
 
   const handleUpdateProfile = (updated: User) => setProfileUser(updated);
 
+  const handleToggleFollow = async () => {
+    if (!profileUser) return;
+    try {
+      const followStats = profileUser.followStats?.isFollowing
+        ? await userFollowService.unfollow(profileUser.id)
+        : await userFollowService.follow(profileUser.id);
+      setProfileUser(prev => prev ? { ...prev, followStats } : prev);
+      // The home "Following" tab depends on who is followed
+      queryClient.invalidateQueries({ queryKey: ['articles', 'infinite'] });
+    } catch {
+      toast.error('Could not update follow');
+    }
+  };
+
   const toggleSelectionMode = () => {
       const newMode = !selectionMode;
       setSelectionMode(newMode);
@@ -471,6 +495,31 @@ export const MySpacePage: React.FC<MySpacePageProps> = ({ currentUserId }) => {
       }
   };
 
+  const handleSchedulePublish = async (ids: string[], scheduledPublishAt: string | null) => {
+      try {
+          const response = await batchService.publishNuggets(ids, scheduledPublishAt);
+          const changedCount = response.results.filter(r => r.outcome === 'scheduled' || r.outcome === 'unscheduled').length;
+          const skippedCount = response.results.length - changedCount;
+          
+          await queryClient.invalidateQueries({ queryKey: ['articles', 'myspace', targetUserId] });
+          
+          const label = `${changedCount} nugget${changedCount !== 1 ? 's' : ''}`;
+          const message = scheduledPublishAt
+              ? `Scheduled ${label} for ${formatDate(scheduledPublishAt)}`
+              : `Removed schedule from ${label}`;
+          if (skippedCount > 0) {
+              toast.warning(`${message}. ${skippedCount} could not be changed.`);
+          } else {
+              toast.success(message);
+          }
+          
+          setSelectionMode(false);
+          setSelectedIds([]);
+      } catch (error: any) {
+          toast.error(error?.message || 'Failed to update schedule');
+      }
+  };
+
   const handleBulkFollow = async (action: 'follow' | 'unfollow') => {
       if (selectedIds.length === 0 || activeTab !== 'collections') return;
       
@@ -573,6 +622,7 @@ export const MySpacePage: React.FC<MySpacePageProps> = ({ currentUserId }) => {
                 nuggetCount={isOwner ? (articleCounts?.public ?? 0) : 0} 
                 isOwner={isOwner}
                 onUpdate={handleUpdateProfile}
+                onToggleFollow={currentUserId && !isOwner ? handleToggleFollow : undefined}
             />
           </div>
 
@@ -643,6 +693,14 @@ export const MySpacePage: React.FC<MySpacePageProps> = ({ currentUserId }) => {
                                                         >
                                                             <Lock size={14} className="text-amber-500" /> Make Private
                                                         </button>
+                                                        {nuggetVisibility === 'private' && (
+                                                            <button 
+                                                                onClick={() => { setScheduleTarget({ ids: selectedIds }); setIsActionMenuOpen(false); }} 
+                                                                className="w-full flex items-center gap-2 px-4 py-2.5 text-xs font-bold text-gray-600 dark:text-slate-300 hover:bg-gray-50 dark:hover:bg-slate-800 transition-colors"
+                                                            >
+                                                                <CalendarClock size={14} className="text-blue-500" /> Schedule Publish
+                                                            </button>
+                                                        )}
                                                         <button onClick={() => { setShowAddToCollection(true); setIsActionMenuOpen(false); }} className="w-full flex items-center gap-2 px-4 py-2.5 text-xs font-bold text-gray-600 dark:text-slate-300 hover:bg-gray-50 dark:hover:bg-slate-800 transition-colors">
                                                             <FolderPlus size={14} className="text-indigo-500" /> Add to Collection
                                                         </button>
@@ -738,7 +796,9 @@ export const MySpacePage: React.FC<MySpacePageProps> = ({ currentUserId }) => {
             </div>
 
             {/* Content Grid */}
-              {activeTab === 'collections' ? (
+              {activeTab === 'insights' ? (
+                <EngagementTrendsPanel />
+              ) : activeTab === 'collections' ? (
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
                   <div className="col-span-full">
                     <CollectionsGrid 
@@ -765,18 +825,33 @@ export const MySpacePage: React.FC<MySpacePageProps> = ({ currentUserId }) => {
                 >
                   <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 pr-2">
                     {currentList.map(item => (
-                      <NewsCard 
-                        key={item.id} 
-                        article={item as Article}
-                        viewMode="grid"
-                        onTagClick={() => {}}
-                        onCategoryClick={() => {}}
-                        onClick={() => setSelectedArticle(item as Article)}
-                        currentUserId={currentUserId}
-                        selectionMode={selectionMode}
-                        isSelected={selectedIds.includes(item.id)}
-                        onSelect={handleSelect}
-                      />
+                      <div key={item.id} className="flex flex-col gap-2">
+                        <NewsCard 
+                          article={item as Article}
+                          viewMode="grid"
+                          onTagClick={() => {}}
+                          onCategoryClick={() => {}}
+                          onClick={() => setSelectedArticle(item as Article)}
+                          currentUserId={currentUserId}
+                          selectionMode={selectionMode}
+                          isSelected={selectedIds.includes(item.id)}
+                          onSelect={handleSelect}
+                        />
+                        {/* Drafts: scheduled publish time, click to edit */}
+                        {isOwner && nuggetVisibility === 'private' && !selectionMode && (
+                          <button
+                            onClick={() => setScheduleTarget({ ids: [item.id], scheduledPublishAt: item.scheduledPublishAt })}
+                            className={`flex items-center gap-1.5 self-start px-2.5 py-1 rounded-lg text-[11px] font-bold transition-colors ${
+                              item.scheduledPublishAt
+                                ? 'bg-blue-50 text-blue-700 hover:bg-blue-100 dark:bg-blue-900/20 dark:text-blue-300'
+                                : 'text-gray-400 hover:text-gray-700 hover:bg-gray-100 dark:hover:text-slate-200 dark:hover:bg-slate-800'
+                            }`}
+                          >
+                            <CalendarClock size={12} />
+                            {item.scheduledPublishAt ? `Publishes ${formatDate(item.scheduledPublishAt)}` : 'Schedule publish'}
+                          </button>
+                        )}
+                      </div>
                     ))}
                     
                     {/* Infinite Scroll Trigger - inside container */}
@@ -822,6 +897,15 @@ export const MySpacePage: React.FC<MySpacePageProps> = ({ currentUserId }) => {
         isDestructive
       />
 
+      <SchedulePublishModal
+        isOpen={!!scheduleTarget}
+        onClose={() => setScheduleTarget(null)}
+        count={scheduleTarget?.ids.length ?? 0}
+        scheduledPublishAt={scheduleTarget?.scheduledPublishAt}
+        onSchedule={(at) => handleSchedulePublish(scheduleTarget?.ids ?? [], at)}
+        onClear={scheduleTarget?.scheduledPublishAt ? () => handleSchedulePublish(scheduleTarget.ids, null) : undefined}
+      />
+
       <AddToCollectionModal 
         isOpen={showAddToCollection}
         onClose={() => {
@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useParams, useSearchParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { AuthProvider, ENABLED_SOCIAL_PROVIDERS, MfaFactor } from '@/types/auth';
+import { MfaChallengeForm } from '@/components/auth/MfaChallengeForm';
+import { XCircle, Loader2 } from 'lucide-react';
+
+export const OAuthCallbackPage: React.FC = () => {
+  const { provider } = useParams<{ provider: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { isLoading, completeSocialLogin, completeMfaLogin } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  // Authorization codes are single-use: never submit the same one twice (e.g. StrictMode double effects)
+  const submittedCode = useRef<string | null>(null);
+
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+  const providerError = searchParams.get('error');
+
+  useEffect(() => {
+    // Wait for the stored session to load so account linking keeps it
+    if (isLoading) return;
+
+    if (providerError) {
+        setError(providerError === 'access_denied' ? 'Sign-in was cancelled.' : 'The provider could not complete sign-in.');
+        return;
+    }
+    if (!provider || !ENABLED_SOCIAL_PROVIDERS.includes(provider as AuthProvider) || !code || !state) {
+        setError('This sign-in link is invalid.');
+        return;
+    }
+    if (submittedCode.current === code) return;
+    submittedCode.current = code;
+
+    const complete = async () => {
+        try {
+            const outcome = await completeSocialLogin(provider as AuthProvider, code, state);
+            if (outcome.mode === 'mfa') {
+                setMfaToken(outcome.mfaToken);
+                return;
+            }
+            navigate(outcome.mode === 'link' ? '/account' : '/', { replace: true });
+        } catch (e: any) {
+            setError(e?.message || 'Sign-in failed. Please try again.');
+        }
+    };
+    complete();
+  }, [isLoading, provider, code, state, providerError, navigate]);
+
+  const handleMfaSubmit = async (factor: MfaFactor) => {
+    if (!mfaToken) return;
+    try {
+        await completeMfaLogin(mfaToken, factor);
+        navigate('/', { replace: true });
+    } catch (e: any) {
+        if (e?.response?.status === 401) {
+            setMfaToken(null);
+            setError(e.message);
+            return;
+        }
+        throw e;
+    }
+  };
+
+  if (mfaToken && !error) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center px-4">
+        <div className="w-full max-w-sm">
+          <MfaChallengeForm onSubmit={handleMfaSubmit} onCancel={() => navigate('/')} cancelLabel="Cancel" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-[60vh] flex flex-col items-center justify-center text-center px-4">
+      {!error ? (
+          <>
+            <Loader2 className="w-12 h-12 text-primary-500 animate-spin mb-4" />
+            <h1 className="text-xl font-bold">Signing you in...</h1>
+          </>
+      ) : (
+          <>
+            <XCircle className="w-16 h-16 text-red-500 mb-4" />
+            <h1 className="text-2xl font-bold mb-2">Sign-in Failed</h1>
+            <p className="text-slate-500 max-w-md">{error}</p>
+            <button onClick={() => navigate('/')} className="mt-6 px-6 py-2 bg-slate-900 text-white rounded-xl font-bold">Go Home</button>
+          </>
+      )}
+    </div>
+  );
+};
@@ -29,8 +29,8 @@ export const ResetPasswordPage: React.FC = () => {
           await authService.resetPassword(token, password);
           setIsSuccess(true);
           setTimeout(() => navigate('/'), 3000);
-      } catch (err) {
-          setError("Failed to reset password. Token may be expired.");
+      } catch (err: any) {
+          setError(err?.message || "Failed to reset password. Token may be expired.");
       } finally {
           setIsSubmitting(false);
       }
@@ -1,23 +1,33 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { authService } from '@/services/authService';
+import { useAuth } from '@/hooks/useAuth';
 import { CheckCircle2, XCircle, Loader2 } from 'lucide-react';
 
 export const VerifyEmailPage: React.FC = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const token = searchParams.get('token');
+  const { isAuthenticated, refreshUser } = useAuth();
   const [status, setStatus] = useState<'verifying' | 'success' | 'error'>('verifying');
+  // Tokens are single-use: never submit the same token twice (e.g. StrictMode double effects)
+  const submittedToken = useRef<string | null>(null);
 
   useEffect(() => {
     if (!token) {
         setStatus('error');
         return;
     }
+    if (submittedToken.current === token) return;
+    submittedToken.current = token;
     const verify = async () => {
         try {
             await authService.verifyEmail(token);
             setStatus('success');
+            // Update the stored session so the verified badge shows immediately
+            if (isAuthenticated) {
+                refreshUser().catch(() => undefined);
+            }
             setTimeout(() => navigate('/'), 3000);
         } catch (e) {
             setStatus('error');
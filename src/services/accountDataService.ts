@@ -0,0 +1,44 @@
+import { apiClient } from './apiClient';
+import { AccountDataJob } from '@/types/accountData';
+
+// Matches the server's upload limit
+export const MAX_IMPORT_FILE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Personal data export and import
+ * Both run in the background on the server; poll the jobs until they finish.
+ */
+class AccountDataService {
+  async listJobs(): Promise<AccountDataJob[]> {
+    const response = await apiClient.get<{ data: AccountDataJob[] }>('/account-data/jobs');
+    return response.data;
+  }
+
+  async requestExport(): Promise<AccountDataJob> {
+    return apiClient.post<AccountDataJob>('/account-data/exports', {});
+  }
+
+  /**
+   * Upload an export ZIP. Sent as the raw request body, which apiClient's
+   * JSON helpers can't send.
+   */
+  async importArchive(file: File): Promise<AccountDataJob> {
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      throw new Error(`File is too large. Maximum size is ${MAX_IMPORT_FILE_SIZE / 1024 / 1024}MB`);
+    }
+
+    const response = await apiClient.fetchWithAuth('/account-data/imports', {
+      method: 'POST',
+      body: file,
+      headers: { 'Content-Type': 'application/zip' }
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ message: 'Import failed' }));
+      throw new Error(errorData.message || `Import failed: ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
+
+export const accountDataService = new AccountDataService();
@@ -1,4 +1,4 @@
-import { Article, User, Collection } from '@/types';
+import { Article, User, Collection, PersonalizedFeedPage } from '@/types';
 
 export interface PaginatedArticlesResponse {
   data: Article[];
@@ -8,6 +8,22 @@ export interface PaginatedArticlesResponse {
   hasMore: boolean;
 }
 
+// Cursor mode (infinite scroll): no total or page numbers, pass nextCursor back to continue
+export interface CursorPaginatedArticlesResponse {
+  data: Article[];
+  limit: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+export interface ArticleListParams {
+  q?: string;
+  limit: number;
+  category?: string;
+  sort?: string;
+  following?: boolean; // Only nuggets by authors the current user follows
+}
+
 export interface ArticleCountsResponse {
   total: number;
   public: number;
@@ -17,7 +33,8 @@ export interface ArticleCountsResponse {
 export interface IAdapter {
   // Articles
   getAllArticles(params?: { q?: string; page?: number; limit?: number }): Promise<Article[]>;
-  getArticlesPaginated(params: { q?: string; page: number; limit: number; category?: string; sort?: string }): Promise<PaginatedArticlesResponse>;
+  getArticlesPaginated(params: ArticleListParams & { page: number }): Promise<PaginatedArticlesResponse>;
+  getArticlesPaginated(params: ArticleListParams & { cursor: string | null }): Promise<CursorPaginatedArticlesResponse>;
   getArticleById(id: string): Promise<Article | undefined>;
   getArticlesByAuthor(authorId: string): Promise<Article[]>;
   getMyArticleCounts(): Promise<ArticleCountsResponse>;
@@ -34,7 +51,7 @@ export interface IAdapter {
   // Personalization
   updateUserPreferences(userId: string, interestedCategories: string[]): Promise<void>;
   updateLastFeedVisit(userId: string): Promise<void>;
-  getPersonalizedFeed(userId: string): Promise<{ articles: Article[], newCount: number }>;
+  getPersonalizedFeed(userId: string, page?: number, asOf?: string): Promise<PersonalizedFeedPage>;
 
   // Categories
   getCategories(): Promise<string[]>;
@@ -1,4 +1,4 @@
-import { Article, User, Collection, CollectionEntry } from '@/types';
+import { Article, User, Collection, CollectionEntry, PersonalizedFeedPage } from '@/types';
 import { ARTICLES as INITIAL_DATA } from '@/data/articles';
 import { IAdapter } from './IAdapter';
 
@@ -120,7 +120,7 @@ export class LocalAdapter implements IAdapter {
     }
   }
 
-  async getArticlesPaginated(): Promise<import('./IAdapter').PaginatedArticlesResponse> {
+  async getArticlesPaginated(): Promise<never> {
     throw new Error('Pagination not supported by LocalAdapter. Use RestAdapter for paginated queries.');
   }
 
@@ -268,18 +268,31 @@ export class LocalAdapter implements IAdapter {
     await this.updateUser(userId, { lastFeedVisit: new Date().toISOString() });
   }
 
-  async getPersonalizedFeed(userId: string): Promise<{ articles: Article[], newCount: number }> {
+  // Local mode has no scoring: interest matches first, then newest
+  async getPersonalizedFeed(userId: string, page: number = 1, asOf?: string): Promise<PersonalizedFeedPage> {
+    const limit = 20;
+    const feedAsOf = asOf || new Date().toISOString();
     const articles = await this.getAllArticles();
     const user = await this.getUserById(userId);
-    if (!user) return { articles: [], newCount: 0 };
+    if (!user) return { data: [], total: 0, page, limit, hasMore: false, asOf: feedAsOf };
     const interests = user.preferences?.interestedCategories || [];
-    const lastVisit = user.lastFeedVisit ? new Date(user.lastFeedVisit).getTime() : 0;
-    let filtered = interests.length === 0 
-      ? articles 
-      : articles.filter(a => a.categories.some(c => interests.includes(c)));
-    filtered.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
-    const newCount = filtered.reduce((acc, a) => new Date(a.publishedAt).getTime() > lastVisit ? acc + 1 : acc, 0);
-    return { articles: filtered, newCount };
+    const matches = (a: Article) => a.categories.some(c => interests.includes(c));
+    const ranked = articles
+      .filter(a => a.author.id !== userId && a.publishedAt <= feedAsOf)
+      .sort((a, b) => Number(matches(b)) - Number(matches(a)) || new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
+      .map(a => {
+        const match = a.categories.find(c => interests.includes(c));
+        const label = match ? `You're interested in ${match}` : 'Recent on Nuggets';
+        return { ...a, feedReason: { summary: label, signals: match ? [{ type: 'category_affinity' as const, label, contribution: 3 }] : [] } };
+      });
+    return {
+      data: ranked.slice((page - 1) * limit, page * limit),
+      total: ranked.length,
+      page,
+      limit,
+      hasMore: page * limit < ranked.length,
+      asOf: feedAsOf
+    };
   }
 
   async getCategories(): Promise<string[]> {
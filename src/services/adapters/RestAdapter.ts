@@ -1,5 +1,5 @@
-import { IAdapter, PaginatedArticlesResponse, ArticleCountsResponse } from './IAdapter';
-import { Article, User, Collection } from '@/types';
+import { IAdapter, PaginatedArticlesResponse, CursorPaginatedArticlesResponse, ArticleListParams, ArticleCountsResponse } from './IAdapter';
+import { Article, User, Collection, PersonalizedFeedPage } from '@/types';
 import { apiClient } from '@/services/apiClient';
 
 export class RestAdapter implements IAdapter {
@@ -15,16 +15,27 @@ export class RestAdapter implements IAdapter {
       .then(response => response.data);
   }
 
-  // Paginated articles method - returns full pagination metadata
-  getArticlesPaginated(params: { q?: string; page: number; limit: number; category?: string; sort?: string }): Promise<PaginatedArticlesResponse> {
+  // Paginated articles method
+  // - page mode: full pagination metadata (total, page) for tables
+  // - cursor mode: stable infinite scroll; pass null for the first page, then nextCursor
+  getArticlesPaginated(params: ArticleListParams & { page: number }): Promise<PaginatedArticlesResponse>;
+  getArticlesPaginated(params: ArticleListParams & { cursor: string | null }): Promise<CursorPaginatedArticlesResponse>;
+  getArticlesPaginated(
+    params: ArticleListParams & { page?: number; cursor?: string | null }
+  ): Promise<PaginatedArticlesResponse | CursorPaginatedArticlesResponse> {
     const queryParams = new URLSearchParams();
     if (params.q) queryParams.set('q', params.q);
     if (params.category) queryParams.set('category', params.category);
     if (params.sort) queryParams.set('sort', params.sort);
-    queryParams.set('page', params.page.toString());
+    if (params.following) queryParams.set('following', 'true');
+    if (params.cursor !== undefined) {
+      queryParams.set('cursor', params.cursor ?? '');
+    } else {
+      queryParams.set('page', (params.page ?? 1).toString());
+    }
     queryParams.set('limit', params.limit.toString());
     
-    return apiClient.get<PaginatedArticlesResponse>(`/articles?${queryParams}`);
+    return apiClient.get<PaginatedArticlesResponse | CursorPaginatedArticlesResponse>(`/articles?${queryParams}`);
   }
 
   getArticleById(id: string): Promise<Article | undefined> {
@@ -179,8 +190,10 @@ export class RestAdapter implements IAdapter {
     await this.updateUser(userId, { lastFeedVisit: new Date().toISOString() });
   }
 
-  async getPersonalizedFeed(userId: string): Promise<{ articles: Article[], newCount: number }> {
-    return apiClient.get(`/users/${userId}/feed`);
+  async getPersonalizedFeed(userId: string, page: number = 1, asOf?: string): Promise<PersonalizedFeedPage> {
+    const params = new URLSearchParams({ page: String(page) });
+    if (asOf) params.set('asOf', asOf);
+    return apiClient.get<PersonalizedFeedPage>(`/users/${userId}/feed?${params}`);
   }
 
   // --- Categories ---
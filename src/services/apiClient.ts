@@ -6,6 +6,17 @@ const BASE_URL = '/api';
 
 const AUTH_STORAGE_KEY = 'nuggets_auth_data_v2';
 
+// Auth endpoints that never represent an authenticated session
+const PUBLIC_AUTH_ENDPOINTS = [
+  '/auth/login',
+  '/auth/signup',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+  '/auth/verify-email',
+  '/auth/refresh',
+  '/auth/mfa/verify',
+];
+
 // Helper to extract error message and details from response
 async function extractError(response: Response): Promise<{ message: string; errors?: any[] }> {
   try {
@@ -21,17 +32,23 @@ async function extractError(response: Response): Promise<{ message: string; erro
   }
 }
 
+// Fired on window after the access token was refreshed so AuthContext can sync its state
+export const AUTH_TOKENS_REFRESHED_EVENT = 'nuggets:auth-tokens-refreshed';
+
 class ApiClient {
   // Track active AbortControllers by request key to cancel previous requests
   private activeControllers = new Map<string, AbortController>();
 
+  // Single in-flight refresh shared by every request that hits an expired token
+  private refreshPromise: Promise<boolean> | null = null;
+
   /**
-   * Check if endpoint is a public auth endpoint (login/signup)
+   * Check if endpoint is a public auth endpoint (login/signup/password reset)
    * These endpoints return 401 for invalid credentials, NOT expired tokens
    * CRITICAL: Never logout on 401 from these endpoints
    */
   private isPublicAuthEndpoint(endpoint: string): boolean {
-    return endpoint === '/auth/login' || endpoint === '/auth/signup';
+    return PUBLIC_AUTH_ENDPOINTS.includes(endpoint);
   }
 
   /**
@@ -70,6 +87,75 @@ class ApiClient {
     return {};
   }
 
+  /**
+   * Exchange the stored refresh token for a new access token
+   * Concurrent callers share one request: refresh tokens rotate on use, so
+   * sending the same token twice would look like token theft to the server.
+   *
+   * @returns true if new tokens were stored
+   */
+  refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<boolean> {
+    if (typeof window === 'undefined' || !window.localStorage) {
+      return false;
+    }
+
+    let stored: any;
+    try {
+      const raw = localStorage.getItem(AUTH_STORAGE_KEY);
+      stored = raw ? JSON.parse(raw) : null;
+    } catch (e) {
+      return false;
+    }
+    if (!stored?.refreshToken) {
+      return false;
+    }
+
+    try {
+      const response = await fetch(`${BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken: stored.refreshToken }),
+      });
+      if (!response.ok) {
+        return false;
+      }
+
+      const { token, refreshToken } = await response.json();
+      localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify({ ...stored, token, refreshToken }));
+      window.dispatchEvent(new CustomEvent(AUTH_TOKENS_REFRESHED_EVENT, { detail: { token } }));
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * fetch() for bodies and responses request() can't handle (file uploads,
+   * downloads). Attaches the access token and, like request(), refreshes it
+   * once on 401 and retries. The response is returned as-is.
+   */
+  async fetchWithAuth(endpoint: string, init: Omit<RequestInit, 'headers'> & { headers?: Record<string, string> } = {}): Promise<Response> {
+    const send = () => fetch(`${BASE_URL}${endpoint}`, {
+      ...init,
+      headers: { ...this.getAuthHeader(), ...init.headers },
+    });
+
+    const response = await send();
+    if (response.status === 401 && this.hasAuthenticatedSession() && await this.refreshSession()) {
+      return send();
+    }
+    return response;
+  }
+
   /**
    * Cancel previous request for the same key and create a new AbortController
    */
@@ -94,11 +180,11 @@ class ApiClient {
     return `${method}:${endpoint}`;
   }
 
-  private async request<T>(endpoint: string, options?: RequestInit & { cancelKey?: string }): Promise<T> {
+  private async request<T>(endpoint: string, options?: RequestInit & { cancelKey?: string; isRetry?: boolean }): Promise<T> {
     const method = options?.method || 'GET';
     const cancelKey = options?.cancelKey || this.getRequestKey(endpoint, method);
     const abortController = this.getAbortController(cancelKey);
-    const { cancelKey: _, ...requestOptions } = options || {};
+    const { cancelKey: _, isRetry, ...requestOptions } = options || {};
     const startedAt = (typeof performance !== 'undefined' && performance.now) ? performance.now() : Date.now();
     let statusCode: number | undefined;
     let success = false;
@@ -200,6 +286,11 @@ class ApiClient {
           // - Invalid tokens on protected endpoints → logout ✅
           // - Missing tokens (no session) → don't logout (user not logged in) ✅
           if (hasSession && tokenWasSent) {
+            // Access tokens are short-lived: try the refresh token once before giving up
+            if (!isRetry && await this.refreshSession()) {
+              return this.request<T>(endpoint, { ...options, isRetry: true });
+            }
+
             // Authenticated session with expired/invalid token → logout
             if (typeof window !== 'undefined') {
               // Clear auth data
@@ -1,7 +1,7 @@
 
 import { User as LegacyUser } from '../types';
 import { User as ModularUser } from '../types/user';
-import { LoginPayload, SignupPayload, AuthProvider } from '../types/auth';
+import { LoginPayload, SignupPayload, AuthProvider, AuthSession, ActiveSession, OAuthCallbackResult, LoginResult, MfaFactor, MfaStatus, MfaEnrollment } from '../types/auth';
 import { apiClient } from './apiClient';
 import { createDefaultUser } from '../models/userDefaults';
 import { mapAuthError } from '../utils/errorMessages';
@@ -58,17 +58,25 @@ const normalizeUserFromBackend = (user: any): ModularUser => {
 };
 
 class AuthService {
-  async loginWithEmail(payload: LoginPayload): Promise<{ user: ModularUser; token: string }> {
+  async loginWithEmail(payload: LoginPayload): Promise<LoginResult> {
     try {
       // Call real backend API - backend now returns modular User structure
-      const response = await apiClient.post<{ user: any; token: string }>('/auth/login', payload);
+      const response = await apiClient.post<any>('/auth/login', payload);
+
+      // Two-factor accounts get a challenge instead of a session
+      if (response.mfaRequired) {
+        return { status: 'mfa_required', mfaToken: response.mfaToken };
+      }
       
       // Normalize backend user to frontend ModularUser format
       const modularUser = normalizeUserFromBackend(response.user);
 
       return {
+        status: 'authenticated',
         user: modularUser,
-        token: response.token
+        token: response.token,
+        refreshToken: response.refreshToken,
+        mfaEnrollmentRequired: !!response.mfaEnrollmentRequired
       };
     } catch (error: any) {
       // Map backend error to user-friendly message
@@ -77,17 +85,18 @@ class AuthService {
     }
   }
 
-  async signupWithEmail(payload: SignupPayload): Promise<{ user: ModularUser; token: string }> {
+  async signupWithEmail(payload: SignupPayload): Promise<AuthSession> {
     try {
       // Call real backend API - backend now returns modular User structure
-      const response = await apiClient.post<{ user: any; token: string }>('/auth/signup', payload);
+      const response = await apiClient.post<{ user: any; token: string; refreshToken: string }>('/auth/signup', payload);
       
       // Normalize backend user to frontend ModularUser format
       const modularUser = normalizeUserFromBackend(response.user);
 
       return {
         user: modularUser,
-        token: response.token
+        token: response.token,
+        refreshToken: response.refreshToken
       };
     } catch (error: any) {
       // Map backend error to user-friendly message
@@ -96,23 +105,54 @@ class AuthService {
     }
   }
 
-  async loginWithProvider(provider: AuthProvider): Promise<{ user: ModularUser; token: string }> {
-    // Deferred feature — backend support pending
-    // TODO: Implement social login when backend endpoints are ready
-    // For now, throw an error indicating it's not implemented
-    throw new Error(`Social login with ${provider} is not yet implemented`);
+  async getOAuthProviders(): Promise<AuthProvider[]> {
+    const response = await apiClient.get<{ providers: AuthProvider[] }>('/auth/oauth/providers', undefined, 'authService.getOAuthProviders');
+    return response.providers;
   }
 
-  async requestPasswordReset(email: string): Promise<void> {
-    // Deferred feature — backend support pending
-    // TODO: Implement when backend endpoint is ready
-    throw new Error('Password reset is not yet implemented');
+  // Redirects the browser to the provider; the flow resumes on /auth/callback/:provider
+  async loginWithProvider(provider: AuthProvider): Promise<void> {
+    const { authorizationUrl } = await apiClient.post<{ authorizationUrl: string }>(`/auth/oauth/${provider}/start`, {});
+    window.location.assign(authorizationUrl);
+  }
+
+  // Same as loginWithProvider, but connects the provider to the signed-in account
+  async linkProvider(provider: AuthProvider): Promise<void> {
+    const { authorizationUrl } = await apiClient.post<{ authorizationUrl: string }>(`/auth/oauth/${provider}/link`, {});
+    window.location.assign(authorizationUrl);
+  }
+
+  async unlinkProvider(provider: AuthProvider): Promise<ModularUser> {
+    const response = await apiClient.delete<{ user: any }>(`/auth/oauth/${provider}`);
+    return normalizeUserFromBackend(response.user);
+  }
+
+  async completeOAuthCallback(provider: AuthProvider, code: string, state: string): Promise<OAuthCallbackResult> {
+    const response = await apiClient.post<any>(`/auth/oauth/${provider}/callback`, { code, state });
+    if (response.mfaRequired) {
+      return { mode: 'mfa', mfaToken: response.mfaToken };
+    }
+    const user = normalizeUserFromBackend(response.user);
+    if (response.mode === 'link') {
+      return { mode: 'link', user };
+    }
+    return {
+      mode: 'login',
+      user,
+      token: response.token,
+      refreshToken: response.refreshToken,
+      isNewUser: !!response.isNewUser
+    };
+  }
+
+  async requestPasswordReset(email: string): Promise<string> {
+    // Backend always responds with a generic message (no account enumeration)
+    const response = await apiClient.post<{ message: string }>('/auth/forgot-password', { email });
+    return response.message;
   }
 
   async resetPassword(token: string, newPassword: string): Promise<void> {
-    // Deferred feature — backend support pending
-    // TODO: Implement when backend endpoint is ready
-    throw new Error('Password reset is not yet implemented');
+    await apiClient.post<{ message: string }>('/auth/reset-password', { token, password: newPassword });
   }
 
   async changePassword(current: string, next: string): Promise<void> {
@@ -122,15 +162,68 @@ class AuthService {
   }
 
   async verifyEmail(token: string): Promise<void> {
-    // Deferred feature — backend support pending
-    // TODO: Implement when backend endpoint is ready
-    throw new Error('Email verification is not yet implemented');
+    await apiClient.post<{ message: string; user: any }>('/auth/verify-email', { token });
+  }
+
+  async resendVerification(): Promise<string> {
+    const response = await apiClient.post<{ message: string }>('/auth/resend-verification', {});
+    return response.message;
+  }
+
+  async getCurrentUser(): Promise<ModularUser> {
+    const response = await apiClient.get<any>('/auth/me');
+    return normalizeUserFromBackend(response);
+  }
+
+  async verifyMfaLogin(mfaToken: string, factor: MfaFactor): Promise<AuthSession & { recoveryCodesRemaining?: number }> {
+    const response = await apiClient.post<any>('/auth/mfa/verify', { mfaToken, ...factor });
+    return {
+      user: normalizeUserFromBackend(response.user),
+      token: response.token,
+      refreshToken: response.refreshToken,
+      recoveryCodesRemaining: response.recoveryCodesRemaining
+    };
+  }
+
+  async getMfaStatus(): Promise<MfaStatus> {
+    return apiClient.get<MfaStatus>('/auth/mfa/status', undefined, 'authService.getMfaStatus');
+  }
+
+  async startMfaSetup(): Promise<MfaEnrollment> {
+    return apiClient.post<MfaEnrollment>('/auth/mfa/setup', {});
+  }
+
+  // Returns the recovery codes (shown once)
+  async enableMfa(code: string): Promise<string[]> {
+    const response = await apiClient.post<{ recoveryCodes: string[] }>('/auth/mfa/enable', { code });
+    return response.recoveryCodes;
+  }
+
+  async disableMfa(factor: MfaFactor): Promise<void> {
+    await apiClient.post<{ message: string }>('/auth/mfa/disable', factor);
+  }
+
+  async regenerateRecoveryCodes(factor: MfaFactor): Promise<string[]> {
+    const response = await apiClient.post<{ recoveryCodes: string[] }>('/auth/mfa/recovery-codes', factor);
+    return response.recoveryCodes;
   }
 
   async logoutApi(): Promise<void> {
-    // Logout is handled client-side by clearing localStorage
-    // No backend call needed unless you want to invalidate tokens server-side
-    return Promise.resolve();
+    // Revoke the session server-side so the refresh token cannot be reused
+    await apiClient.post<{ message: string }>('/auth/logout', {});
+  }
+
+  async logoutAllDevices(): Promise<void> {
+    await apiClient.post<{ message: string; revoked: number }>('/auth/logout-all', {});
+  }
+
+  async listSessions(): Promise<ActiveSession[]> {
+    const response = await apiClient.get<{ sessions: ActiveSession[] }>('/auth/sessions', undefined, 'authService.listSessions');
+    return response.sessions;
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await apiClient.delete(`/auth/sessions/${sessionId}`);
   }
 }
 
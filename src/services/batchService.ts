@@ -5,26 +5,28 @@
  * - Pasted links
  * - CSV files
  * - Excel files
+ * - Bookmark exports (browser HTML, Pocket, Raindrop)
  * 
  * NO AI features - just metadata fetching and article creation.
  */
 
-import { BatchRow } from '@/types/batch';
-import { storageService } from './storageService';
+import { BatchRow, BatchJob, BatchJobRow, BatchPublishResponse, ImportUrlCheck } from '@/types/batch';
+import { apiClient } from './apiClient';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
 import { detectProviderFromUrl } from '@/utils/urlUtils';
 import { normalizeCategoryLabel } from '@/utils/formatters';
+import { parseBookmarkHtml, parseBookmarkCsv, BookmarkImport } from '@/utils/bookmarkImport';
 import { unfurlUrl } from './unfurlService';
 import type { Article } from '@/types';
 import type { NuggetMedia } from '@/types';
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 // Constants for validation
 const MAX_URLS_PER_BATCH = 100;
 const MAX_URL_LENGTH = 2048;
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+// Bookmark files are previewed whole; imports still go MAX_URLS_PER_BATCH at a time
+const MAX_BOOKMARKS_PER_FILE = 1000;
 
 /**
  * Extract URLs from text (one per line, or from pasted blocks)
@@ -148,6 +150,73 @@ async function processWithConcurrency<T>(
   await Promise.all(executing);
 }
 
+/**
+ * Create-nugget payload for a row, in the shape POST /api/articles expects
+ * (the server validates it the same way when the job is queued)
+ */
+function buildArticlePayload(row: BatchRow, currentUserId: string, authorName: string): Record<string, unknown> {
+  const articleData = row.previewArticle || nuggetToArticle(
+    row.url,
+    null,
+    currentUserId,
+    authorName,
+    row.title,
+    row.content,
+    row.categories
+  );
+  
+  const resolvedTitle = row.title && row.title.trim() ? row.title : undefined;
+  const batchTags = row.categories.map(c => normalizeCategoryLabel(c).replace('#', '')).filter(Boolean);
+  
+  let media = articleData.media;
+  if (!media) {
+    const detectedType = detectProviderFromUrl(row.url);
+    const fallbackMedia: any = {
+      type: detectedType,
+      url: row.url,
+      previewMetadata: {
+        url: row.url,
+        title: resolvedTitle,
+        providerName: new URL(row.url).hostname,
+      },
+    };
+    
+    // Set aspect ratio for video providers
+    if (detectedType === 'youtube') {
+      fallbackMedia.aspect_ratio = '16/9';
+    }
+    media = fallbackMedia;
+  }
+  
+  return {
+    title: resolvedTitle,
+    content: row.content || articleData.content,
+    excerpt: articleData.excerpt,
+    authorId: currentUserId,
+    authorName,
+    // Server requires 'category' (singular); use first category or 'General'
+    category: batchTags[0] || 'General',
+    categories: batchTags,
+    tags: batchTags,
+    readTime: articleData.readTime,
+    visibility: row.visibility || 'public',
+    source_type: 'link',
+    media,
+  };
+}
+
+/**
+ * Review row status for a job row; anything not final shows as queued
+ */
+function toRowStatus(jobRow: BatchJobRow): BatchRow['status'] {
+  switch (jobRow.status) {
+    case 'success': return 'success';
+    case 'error': return 'error';
+    case 'cancelled': return 'cancelled';
+    default: return 'queued';
+  }
+}
+
 export const batchService = {
   // --- Generators ---
   generateId: () => Math.random().toString(36).substr(2, 9),
@@ -283,6 +352,75 @@ export const batchService = {
     });
   },
 
+  /**
+   * Parse a bookmark export: Netscape HTML (browsers), Pocket HTML/CSV or Raindrop CSV.
+   * Bookmarks are personal, so rows start private.
+   */
+  async parseBookmarks(file: File): Promise<BatchRow[]> {
+    if (file.size > MAX_FILE_SIZE) {
+      throw new Error(`File size exceeds maximum of ${MAX_FILE_SIZE / (1024 * 1024)}MB`);
+    }
+    
+    const text = await file.text();
+    let parsed: BookmarkImport;
+    if (/\.csv$/i.test(file.name)) {
+      const results = Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: true });
+      parsed = parseBookmarkCsv(results.data);
+    } else {
+      parsed = parseBookmarkHtml(text);
+    }
+    
+    if (parsed.bookmarks.length === 0) {
+      throw new Error('No bookmarks found in file.');
+    }
+    
+    if (parsed.bookmarks.length > MAX_BOOKMARKS_PER_FILE) {
+      throw new Error(`Maximum ${MAX_BOOKMARKS_PER_FILE} bookmarks allowed per file. Found ${parsed.bookmarks.length}.`);
+    }
+    
+    return parsed.bookmarks.map(bookmark => ({
+      id: this.generateId(),
+      url: bookmark.url,
+      title: bookmark.title,
+      content: bookmark.note,
+      categories: bookmark.tags,
+      visibility: 'private',
+      folder: bookmark.folder,
+      status: 'ready',
+      selected: true,
+      errorMessage: undefined,
+      previewArticle: undefined,
+    }));
+  },
+
+  /**
+   * Dry run: ask the server which rows are invalid or duplicates (within the
+   * import, or of the user's existing nuggets). Those rows are deselected, and
+   * only the first MAX_URLS_PER_BATCH new rows stay selected.
+   */
+  async previewImport(rows: BatchRow[]): Promise<BatchRow[]> {
+    const { results } = await apiClient.post<{ results: ImportUrlCheck[] }>('/batch/preview', {
+      urls: rows.map(row => row.url),
+    });
+    
+    let selectedCount = 0;
+    return rows.map((row, index) => {
+      const check = results[index];
+      if (check?.status === 'invalid') {
+        return { ...row, status: 'error' as const, errorMessage: 'Invalid URL', selected: false };
+      }
+      if (check?.status === 'duplicate_existing') {
+        return { ...row, duplicate: 'existing' as const, duplicateArticleId: check.articleId, selected: false };
+      }
+      if (check?.status === 'duplicate_in_import') {
+        return { ...row, duplicate: 'import' as const, selected: false };
+      }
+      const selected = selectedCount < MAX_URLS_PER_BATCH;
+      if (selected) selectedCount++;
+      return { ...row, duplicate: undefined, duplicateArticleId: undefined, selected };
+    });
+  },
+
   // --- Processing ---
 
   /**
@@ -386,132 +524,96 @@ export const batchService = {
   },
 
   /**
-   * Create articles from batch rows
+   * Queue the selected ready rows as a server-side import job.
+   * The server creates the nuggets in the background; poll getBatchJob for progress.
    */
-  async createBatch(
+  async submitBatchJob(
     rows: BatchRow[],
     currentUserId: string,
-    authorName: string,
-    onProgress?: (current: number, total: number) => void
-  ): Promise<BatchRow[]> {
-    const results = [...rows];
-    const rowsToCreate = results.filter(r => r.selected && r.status === 'ready');
-    let completed = 0;
-
-    for (const row of rowsToCreate) {
-      try {
-        const articleData = row.previewArticle || nuggetToArticle(
-          row.url,
-          null,
-          currentUserId,
-          authorName,
-          row.title,
-          row.content,
-          row.categories
-        );
-        
-        const resolvedTitle = row.title && row.title.trim() ? row.title : undefined;
-        const batchTags = row.categories.map(c => normalizeCategoryLabel(c).replace('#', '')).filter(Boolean);
-        
-        const createdArticle = await storageService.createArticle({
-          title: resolvedTitle,
-          content: row.content || articleData.content,
-          excerpt: articleData.excerpt,
-          author: { id: currentUserId, name: authorName },
-          categories: batchTags,
-          tags: batchTags,
-          readTime: articleData.readTime,
-          visibility: row.visibility || 'public',
-          source_type: 'link',
-          media: (() => {
-            if (articleData.media) {
-              return articleData.media;
-            }
-            const detectedType = detectProviderFromUrl(row.url);
-            const fallbackMedia: any = {
-              type: detectedType,
-              url: row.url,
-              previewMetadata: {
-                url: row.url,
-                title: resolvedTitle,
-                providerName: new URL(row.url).hostname,
-              },
-            };
-            
-            // Set aspect ratio for video providers
-            if (detectedType === 'youtube') {
-              fallbackMedia.aspect_ratio = '16/9';
-            }
-            
-            return fallbackMedia;
-          })(),
-        });
-
-        row.articleId = createdArticle.id;
-        row.status = 'success';
-        completed++;
-        
-        if (onProgress) {
-          onProgress(completed, rowsToCreate.length);
-        }
-        
-        await delay(100);
-      } catch (e: any) {
-        row.status = 'error';
-        const errorMsg = e?.message || 'Creation failed';
-        row.errorMessage = errorMsg;
-        console.error(`Failed to create nugget for ${row.url}:`, errorMsg, e);
-        completed++;
-        
-        if (onProgress) {
-          onProgress(completed, rowsToCreate.length);
-        }
-      }
+    authorName: string
+  ): Promise<BatchJob> {
+    const rowsToCreate = rows.filter(r => r.selected && r.status === 'ready');
+    if (rowsToCreate.length > MAX_URLS_PER_BATCH) {
+      throw new Error(`Maximum ${MAX_URLS_PER_BATCH} items per import. ${rowsToCreate.length} are selected.`);
     }
+    return apiClient.post<BatchJob>('/batch/jobs', {
+      rows: rowsToCreate.map(row => ({
+        rowId: row.id,
+        article: buildArticlePayload(row, currentUserId, authorName),
+        ...(row.folder?.trim() && { folder: row.folder.trim() }),
+      })),
+    });
+  },
 
-    return results;
+  async getBatchJob(jobId: string): Promise<BatchJob> {
+    return apiClient.get<BatchJob>(`/batch/jobs/${jobId}`);
   },
 
   /**
-   * Publish multiple draft nuggets by setting their visibility to 'public'
+   * The current user's recent jobs, newest first (summaries only)
    */
-  async publishNuggets(ids: string[]): Promise<{ success: boolean; message: string; updatedCount: number }> {
-    if (!ids || ids.length === 0) {
-      throw new Error('Array of nugget IDs is required');
-    }
+  async listBatchJobs(): Promise<BatchJob[]> {
+    const response = await apiClient.get<{ data: BatchJob[] }>('/batch/jobs');
+    return response.data;
+  },
 
-    const API_BASE = import.meta.env.VITE_API_URL || '/api';
-    
-    // Extract token from localStorage (stored as JSON object)
-    let token = '';
-    try {
-      if (typeof window !== 'undefined' && window.localStorage) {
-        const stored = localStorage.getItem('nuggets_auth_data_v2');
-        if (stored) {
-          const parsed = JSON.parse(stored);
-          token = parsed.token || '';
-        }
-      }
-    } catch (e) {
-      console.warn('[BatchService] Failed to parse auth token from storage', e);
-    }
-    
-    const authHeader = token ? { Authorization: `Bearer ${token}` } : {};
+  async cancelBatchJob(jobId: string): Promise<BatchJob> {
+    return apiClient.post<BatchJob>(`/batch/jobs/${jobId}/cancel`, {});
+  },
 
-    const response = await fetch(`${API_BASE}/batch/publish`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...authHeader,
-      },
-      body: JSON.stringify({ ids }),
+  /**
+   * Merge job progress into the review rows; rows outside the job keep their state
+   */
+  applyBatchJob(rows: BatchRow[], job: BatchJob): BatchRow[] {
+    const jobRows = new Map((job.rows || []).map(jobRow => [jobRow.rowId, jobRow]));
+    return rows.map(row => {
+      const jobRow = jobRows.get(row.id);
+      if (!jobRow) return row;
+      return {
+        ...row,
+        status: toRowStatus(jobRow),
+        errorMessage: jobRow.errorMessage || undefined,
+        articleId: jobRow.articleId,
+      };
     });
+  },
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ message: 'Failed to publish nuggets' }));
-      throw new Error(errorData.message || `HTTP ${response.status}`);
+  /**
+   * Rebuild review rows from a job when coming back to it in a new session
+   */
+  rowsFromBatchJob(job: BatchJob): BatchRow[] {
+    return (job.rows || []).map(jobRow => ({
+      id: jobRow.rowId,
+      url: jobRow.url,
+      title: jobRow.title || '',
+      content: '',
+      categories: jobRow.categories,
+      visibility: jobRow.visibility,
+      folder: jobRow.folder,
+      status: toRowStatus(jobRow),
+      errorMessage: jobRow.errorMessage || undefined,
+      articleId: jobRow.articleId,
+      selected: true,
+    }));
+  },
+
+  isBatchJobFinished(job: BatchJob): boolean {
+    return job.status === 'completed' || job.status === 'cancelled';
+  },
+
+  /**
+   * Publish multiple draft nuggets now, or schedule their publication.
+   * Pass an ISO time to schedule, null to clear a schedule, or omit to publish now.
+   * Nuggets the current user doesn't own come back as 'forbidden' in `results`.
+   */
+  async publishNuggets(ids: string[], scheduledPublishAt?: string | null): Promise<BatchPublishResponse> {
+    if (!ids || ids.length === 0) {
+      throw new Error('Array of nugget IDs is required');
     }
 
-    return await response.json();
+    return apiClient.post<BatchPublishResponse>('/batch/publish', {
+      ids,
+      ...(scheduledPublishAt !== undefined && { scheduledPublishAt }),
+    });
   }
 };
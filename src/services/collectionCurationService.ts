@@ -0,0 +1,59 @@
+import { apiClient } from './apiClient';
+import { Collection } from '@/types';
+
+/**
+ * Collection curation: entry order, curator notes, section headings and
+ * review of flagged entries. Editors and owners only, except flagging which
+ * any signed-in viewer may do. Every call returns the updated collection.
+ */
+class CollectionCurationService {
+  /**
+   * Move an entry to `index` within a section (null for the top group).
+   * Pass the collection's updatedAt to get a 409 instead of applying the
+   * move on top of someone else's change.
+   */
+  async moveEntry(
+    collectionId: string,
+    articleId: string,
+    target: { sectionId: string | null; index: number },
+    expectedUpdatedAt?: string
+  ): Promise<Collection> {
+    return apiClient.put<Collection>(`/collections/${collectionId}/entries/${articleId}/position`, {
+      ...target,
+      expectedUpdatedAt,
+    });
+  }
+
+  async updateNote(collectionId: string, articleId: string, note: string | null): Promise<Collection> {
+    return apiClient.patch<Collection>(`/collections/${collectionId}/entries/${articleId}`, { note });
+  }
+
+  async flagEntry(collectionId: string, articleId: string): Promise<Collection> {
+    return apiClient.post<Collection>(`/collections/${collectionId}/entries/${articleId}/flag`, {});
+  }
+
+  /**
+   * Decide on a flagged entry; also closes its moderation report
+   */
+  async reviewEntry(collectionId: string, articleId: string, decision: 'keep' | 'remove'): Promise<Collection> {
+    return apiClient.post<Collection>(`/collections/${collectionId}/entries/${articleId}/review`, { decision });
+  }
+
+  async createSection(collectionId: string, title: string): Promise<Collection> {
+    return apiClient.post<Collection>(`/collections/${collectionId}/sections`, { title });
+  }
+
+  async updateSection(
+    collectionId: string,
+    sectionId: string,
+    changes: { title?: string; index?: number }
+  ): Promise<Collection> {
+    return apiClient.patch<Collection>(`/collections/${collectionId}/sections/${sectionId}`, changes);
+  }
+
+  async deleteSection(collectionId: string, sectionId: string): Promise<Collection> {
+    return apiClient.delete<Collection>(`/collections/${collectionId}/sections/${sectionId}`);
+  }
+}
+
+export const collectionCurationService = new CollectionCurationService();
@@ -0,0 +1,47 @@
+import { apiClient } from './apiClient';
+import { Collection, CollectionRole, ReceivedCollectionInvitation } from '@/types';
+
+/**
+ * Collection membership: invitations by username and member roles
+ * Owners manage members; invitees accept or decline.
+ */
+class CollectionMemberService {
+  async getMyInvitations(): Promise<ReceivedCollectionInvitation[]> {
+    const response = await apiClient.get<{ data: ReceivedCollectionInvitation[] }>(
+      '/collections/invitations',
+      undefined,
+      'collectionMemberService.getMyInvitations'
+    );
+    return response.data;
+  }
+
+  async invite(collectionId: string, username: string, role: CollectionRole): Promise<Collection> {
+    return apiClient.post<Collection>(`/collections/${collectionId}/invitations`, { username, role });
+  }
+
+  async cancelInvitation(collectionId: string, userId: string): Promise<Collection> {
+    return apiClient.delete<Collection>(`/collections/${collectionId}/invitations/${userId}`);
+  }
+
+  async acceptInvitation(collectionId: string): Promise<Collection> {
+    return apiClient.post<Collection>(`/collections/${collectionId}/invitations/accept`, {});
+  }
+
+  async declineInvitation(collectionId: string): Promise<void> {
+    await apiClient.post<void>(`/collections/${collectionId}/invitations/decline`, {});
+  }
+
+  async updateRole(collectionId: string, userId: string, role: CollectionRole): Promise<Collection> {
+    return apiClient.patch<Collection>(`/collections/${collectionId}/members/${userId}`, { role });
+  }
+
+  async removeMember(collectionId: string, userId: string): Promise<Collection> {
+    return apiClient.delete<Collection>(`/collections/${collectionId}/members/${userId}`);
+  }
+
+  async leave(collectionId: string, userId: string): Promise<void> {
+    await apiClient.delete<void>(`/collections/${collectionId}/members/${userId}`);
+  }
+}
+
+export const collectionMemberService = new CollectionMemberService();
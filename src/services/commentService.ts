@@ -0,0 +1,30 @@
+import { apiClient } from './apiClient';
+import { NuggetComment } from '@/types';
+
+export interface CommentThreadResponse {
+  data: NuggetComment[];
+  total: number; // Visible comments, excluding deleted placeholders
+}
+
+/**
+ * Threaded comments on nuggets
+ */
+class CommentService {
+  async getComments(articleId: string): Promise<CommentThreadResponse> {
+    return apiClient.get<CommentThreadResponse>(`/articles/${articleId}/comments`, undefined, `commentService.getComments.${articleId}`);
+  }
+
+  async createComment(articleId: string, content: string, parentId?: string): Promise<NuggetComment> {
+    return apiClient.post<NuggetComment>(`/articles/${articleId}/comments`, { content, parentId });
+  }
+
+  async updateComment(commentId: string, content: string): Promise<NuggetComment> {
+    return apiClient.patch<NuggetComment>(`/comments/${commentId}`, { content });
+  }
+
+  async deleteComment(commentId: string): Promise<void> {
+    return apiClient.delete<void>(`/comments/${commentId}`);
+  }
+}
+
+export const commentService = new CommentService();
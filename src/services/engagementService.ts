@@ -0,0 +1,103 @@
+import { apiClient } from './apiClient';
+
+export type EngagementEventType = 'view' | 'share';
+
+export interface EngagementTrendPoint {
+  date: string; // YYYY-MM-DD (UTC)
+  views: number;
+  shares: number;
+}
+
+export interface EngagementTrends {
+  days: number;
+  points: EngagementTrendPoint[];
+  totals: { views: number; shares: number };
+}
+
+interface QueuedEvent {
+  type: EngagementEventType;
+  articleId: string;
+}
+
+const FLUSH_DELAY_MS = 5000;
+const MAX_BATCH_SIZE = 50; // Server limit per request
+
+/**
+ * View/share tracking
+ * Events are queued and sent in batches; the server de-duplicates per user/IP
+ * window, so the client only drops repeats within the current page session.
+ */
+class EngagementService {
+  private queue: QueuedEvent[] = [];
+  private seenViews = new Set<string>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      // Last chance to deliver queued events when the tab is hidden or closed
+      window.addEventListener('pagehide', () => this.flushWithBeacon());
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') this.flushWithBeacon();
+      });
+    }
+  }
+
+  trackView(articleId: string): void {
+    if (!articleId || this.seenViews.has(articleId)) return;
+    this.seenViews.add(articleId);
+    this.enqueue({ type: 'view', articleId });
+  }
+
+  trackShare(articleId: string): void {
+    if (!articleId) return;
+    this.enqueue({ type: 'share', articleId });
+  }
+
+  async getMyTrends(days: number): Promise<EngagementTrends> {
+    return apiClient.get<EngagementTrends>(`/engagement/me/trends?days=${days}`, undefined, 'engagementService.getMyTrends');
+  }
+
+  private enqueue(event: QueuedEvent): void {
+    this.queue.push(event);
+    if (this.queue.length >= MAX_BATCH_SIZE) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), FLUSH_DELAY_MS);
+    }
+  }
+
+  private takeBatch(): QueuedEvent[] {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const batch = this.queue.slice(0, MAX_BATCH_SIZE);
+    this.queue = this.queue.slice(MAX_BATCH_SIZE);
+    if (this.queue.length > 0) {
+      this.flushTimer = setTimeout(() => void this.flush(), FLUSH_DELAY_MS);
+    }
+    return batch;
+  }
+
+  private async flush(): Promise<void> {
+    const events = this.takeBatch();
+    if (events.length === 0) return;
+    try {
+      await apiClient.post('/engagement/events', { events });
+    } catch {
+      // Analytics are best effort: never surface tracking failures to the user
+    }
+  }
+
+  private flushWithBeacon(): void {
+    if (this.queue.length === 0 || typeof navigator === 'undefined' || !navigator.sendBeacon) return;
+    while (this.queue.length > 0) {
+      const events = this.takeBatch();
+      // Beacons cannot carry the auth header, so these count per IP instead of per user
+      const body = new Blob([JSON.stringify({ events })], { type: 'application/json' });
+      navigator.sendBeacon('/api/engagement/events', body);
+    }
+  }
+}
+
+export const engagementService = new EngagementService();
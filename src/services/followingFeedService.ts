@@ -0,0 +1,36 @@
+import { apiClient } from './apiClient';
+import { FollowingFeedPage } from '@/types';
+
+/**
+ * Following feed: entries recently added to collections the user follows,
+ * with a per-user read marker
+ */
+class FollowingFeedService {
+  async getFeed(page: number = 1, unreadOnly: boolean = false): Promise<FollowingFeedPage> {
+    const params = new URLSearchParams({ page: String(page) });
+    if (unreadOnly) params.append('unread', 'true');
+    return apiClient.get<FollowingFeedPage>(
+      `/collections/following/feed?${params.toString()}`,
+      undefined,
+      'followingFeedService.getFeed'
+    );
+  }
+
+  async getUnreadCount(): Promise<number> {
+    const response = await apiClient.get<{ unreadCount: number }>(
+      '/collections/following/unread-count',
+      undefined,
+      'followingFeedService.getUnreadCount'
+    );
+    return response.unreadCount;
+  }
+
+  /**
+   * Mark entries up to `until` (the newest one shown) as read
+   */
+  async markRead(until?: string): Promise<{ lastReadAt: string | null; unreadCount: number }> {
+    return apiClient.post<{ lastReadAt: string | null; unreadCount: number }>('/collections/following/read', { until });
+  }
+}
+
+export const followingFeedService = new FollowingFeedService();
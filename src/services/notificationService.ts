@@ -0,0 +1,49 @@
+import { apiClient } from './apiClient';
+import { NotificationsPage } from '@/types';
+import { UserPreferences } from '@/types/user';
+
+export type NotificationPreferences = UserPreferences['notifications'];
+
+/**
+ * In-app notifications for the signed-in user, and the per-type switches
+ * that control which ones are delivered
+ */
+class NotificationService {
+  async getNotifications(page: number = 1, unreadOnly: boolean = false): Promise<NotificationsPage> {
+    const params = new URLSearchParams({ page: String(page) });
+    if (unreadOnly) params.append('unread', 'true');
+    return apiClient.get<NotificationsPage>(
+      `/notifications?${params.toString()}`,
+      undefined,
+      'notificationService.getNotifications'
+    );
+  }
+
+  async getUnreadCount(): Promise<number> {
+    const response = await apiClient.get<{ unreadCount: number }>(
+      '/notifications/unread-count',
+      undefined,
+      'notificationService.getUnreadCount'
+    );
+    return response.unreadCount;
+  }
+
+  async setRead(notificationId: string, read: boolean = true): Promise<number> {
+    const response = await apiClient.patch<{ unreadCount: number }>(`/notifications/${notificationId}`, { read });
+    return response.unreadCount;
+  }
+
+  async markAllRead(): Promise<void> {
+    await apiClient.post('/notifications/read-all', {});
+  }
+
+  async getPreferences(): Promise<NotificationPreferences> {
+    return apiClient.get<NotificationPreferences>('/notifications/preferences');
+  }
+
+  async updatePreferences(changes: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    return apiClient.put<NotificationPreferences>('/notifications/preferences', changes);
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,25 @@
+import { apiClient } from './apiClient';
+import { Engagement, ReactionType } from '@/types';
+
+export interface ReactionResponse {
+  articleId: string;
+  type: ReactionType;
+  reacted: boolean;
+  engagement?: Engagement;
+}
+
+/**
+ * Reactions on nuggets
+ * Both calls are idempotent on the server, so retries are safe.
+ */
+class ReactionService {
+  async addReaction(articleId: string, type: ReactionType): Promise<ReactionResponse> {
+    return apiClient.put<ReactionResponse>(`/articles/${articleId}/reactions/${type}`, {});
+  }
+
+  async removeReaction(articleId: string, type: ReactionType): Promise<ReactionResponse> {
+    return apiClient.delete<ReactionResponse>(`/articles/${articleId}/reactions/${type}`);
+  }
+}
+
+export const reactionService = new ReactionService();
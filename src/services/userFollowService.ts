@@ -0,0 +1,19 @@
+import { apiClient } from './apiClient';
+import { UserFollowStats } from '@/types/user';
+
+/**
+ * Following people
+ * Both calls are idempotent on the server and return the followee's
+ * updated counts.
+ */
+class UserFollowService {
+  async follow(userId: string): Promise<UserFollowStats> {
+    return apiClient.post<UserFollowStats>(`/users/${userId}/follow`, {});
+  }
+
+  async unfollow(userId: string): Promise<UserFollowStats> {
+    return apiClient.delete<UserFollowStats>(`/users/${userId}/follow`);
+  }
+}
+
+export const userFollowService = new UserFollowService();
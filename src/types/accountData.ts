@@ -0,0 +1,43 @@
+/**
+ * Personal data export / import jobs (Account Settings > Your Data)
+ */
+
+export type AccountDataJobType = 'export' | 'import';
+export type AccountDataJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface AccountExportCounts {
+  nuggets: number;
+  collections: number;
+  bookmarkFolders: number;
+  bookmarks: number;
+  media: number;
+}
+
+export interface AccountImportSectionResult {
+  imported: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface AccountImportResult {
+  profile: boolean;
+  nuggets: AccountImportSectionResult;
+  collections: AccountImportSectionResult;
+  bookmarks: AccountImportSectionResult;
+  madePrivate: number; // Public items restored as private
+}
+
+export interface AccountDataJob {
+  id: string;
+  type: AccountDataJobType;
+  status: AccountDataJobStatus;
+  fileName?: string;
+  fileSize?: number;
+  counts?: AccountExportCounts;
+  importResult?: AccountImportResult;
+  errorMessage?: string | null;
+  createdAt: string;
+  finishedAt?: string;
+  expiresAt?: string;
+  downloadUrl?: string; // Set for completed exports that can still be downloaded; valid for an hour
+}
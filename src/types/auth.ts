@@ -1,3 +1,5 @@
+import { User } from './user';
+
 
 export type AuthProvider = "email" | "google" | "linkedin";
 
@@ -19,4 +21,52 @@ export interface SignupPayload {
   dateOfBirth?: string; // Format: YYYY-MM-DD
 }
 
+// Tokens returned by login/signup: a short-lived access token plus a rotating refresh token
+export interface AuthSession {
+  user: User;
+  token: string;
+  refreshToken: string;
+}
+
+// A signed-in device as listed in account settings
+export interface ActiveSession {
+  id: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+// Outcome of the password (or provider) step of a login
+export type LoginResult =
+  | ({ status: 'authenticated'; mfaEnrollmentRequired?: boolean } & AuthSession)
+  | { status: 'mfa_required'; mfaToken: string };
+
+// Second factor for MFA checks: a TOTP code or a single-use recovery code
+export interface MfaFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  recoveryCodesRemaining: number;
+  requiredByPolicy: boolean;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+// Result of completing an OAuth redirect: a new session, or an identity linked to the current account
+export type OAuthCallbackResult =
+  | ({ mode: 'login'; isNewUser: boolean } & AuthSession)
+  | { mode: 'mfa'; mfaToken: string }
+  | { mode: 'link'; user: User };
+
 export const ENABLED_SOCIAL_PROVIDERS: AuthProvider[] = ["google", "linkedin"];
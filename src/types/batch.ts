@@ -13,11 +13,93 @@ export interface BatchRow {
   content: string;
   categories: string[];
   visibility: 'public' | 'private';
-  status: 'pending' | 'fetching' | 'ready' | 'success' | 'error';
+  status: 'pending' | 'fetching' | 'ready' | 'queued' | 'success' | 'error' | 'cancelled';
   errorMessage?: string;
   selected?: boolean;
   previewArticle?: Article;
   articleId?: string;
+  folder?: string; // Bookmark folder the created nugget is filed into (bookmark imports)
+  duplicate?: 'import' | 'existing'; // Set by the import preview; such rows start unselected
+  duplicateArticleId?: string; // The user's existing nugget with the same URL
 }
 
-export type ImportMode = 'links' | 'csv' | 'excel';
+export type ImportMode = 'links' | 'csv' | 'excel' | 'bookmarks';
+
+/**
+ * Import preview (dry run) - per-URL result from POST /api/batch/preview
+ */
+export type ImportUrlStatus = 'new' | 'duplicate_in_import' | 'duplicate_existing' | 'invalid';
+
+export interface ImportUrlCheck {
+  url: string;
+  normalizedUrl: string | null;
+  status: ImportUrlStatus;
+  duplicateOfIndex?: number;
+  articleId?: string;
+}
+
+/**
+ * BatchJob - A persisted import processed by the server's background worker
+ *
+ * Progress survives closing the tab: the import page resumes the newest
+ * unfinished job and polls it until every row has a final status.
+ */
+export type BatchJobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+
+export interface BatchJobSummary {
+  total: number;
+  pending: number; // Not yet attempted, waiting for a retry, or in progress
+  success: number;
+  error: number;
+  cancelled: number;
+  done: number;
+}
+
+export interface BatchJobRow {
+  rowId: string;
+  url: string;
+  title?: string;
+  categories: string[];
+  visibility: 'public' | 'private';
+  folder?: string;
+  status: 'pending' | 'processing' | 'success' | 'error' | 'cancelled';
+  attempts: number;
+  nextAttemptAt?: string | null; // Set while a failed row waits for its retry
+  errorMessage?: string | null;
+  articleId?: string;
+}
+
+export interface BatchJob {
+  id: string;
+  status: BatchJobStatus;
+  summary: BatchJobSummary;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  rows?: BatchJobRow[]; // Omitted in listings
+}
+
+/**
+ * Batch publish - per-nugget outcome of publishing or scheduling
+ */
+export type BatchPublishOutcome =
+  | 'published'
+  | 'scheduled'
+  | 'unscheduled'
+  | 'already_public'
+  | 'not_found'
+  | 'forbidden';
+
+export interface BatchPublishResult {
+  id: string;
+  outcome: BatchPublishOutcome;
+  scheduledPublishAt?: string | null;
+}
+
+export interface BatchPublishResponse {
+  success: boolean;
+  message: string;
+  updatedCount: number;
+  requestedCount: number;
+  results: BatchPublishResult[];
+}
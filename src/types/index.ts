@@ -1,4 +1,5 @@
 import type { AuthProvider } from './auth';
+import type { UserFollowStats } from './user';
 
 // --- Domain Models ---
 
@@ -52,14 +53,19 @@ export interface Engagement {
   bookmarks: number;
   shares: number;
   views: number;
+  reactions?: Partial<Record<Exclude<ReactionType, 'like'>, number>>;
 }
 
+// Fixed reaction set; 'like' is counted in engagement.likes
+export type ReactionType = 'like' | 'insightful' | 'celebrate' | 'curious';
+
 export interface Contributor {
   userId: string;
   name: string;
   username?: string;
   avatarUrl?: string;
   addedAt?: string;
+  note?: string; // Curator note on the collection entry
 }
 
 export interface DisplayAuthor {
@@ -159,6 +165,7 @@ export interface Article {
   tags: string[];
   readTime: number; 
   visibility?: 'public' | 'private';
+  scheduledPublishAt?: string; // ISO; private nugget goes public at this time (owner only)
   
   // ============================================================================
   // MEDIA FIELDS (NEW ARCHITECTURE)
@@ -196,6 +203,62 @@ export interface Article {
   
   // Contextual
   addedBy?: Contributor; // When inside a collection
+  searchHighlight?: SearchHighlight; // Present on search results
+  viewerReactions?: ReactionType[]; // Current user's reactions (authenticated requests only)
+  feedReason?: FeedReason; // Why the nugget is in the personalized feed
+  imageVariants?: Record<string, ImageVariant>; // Responsive renditions keyed by image URL (uploaded images only)
+}
+
+// "Why am I seeing this" for a personalized feed item
+export interface FeedReason {
+  summary: string;
+  signals: Array<{
+    type: 'followed_author' | 'category_affinity' | 'popular' | 'recent';
+    label: string;
+    contribution: number; // Points added to the score; strongest first
+  }>;
+}
+
+export interface PersonalizedFeedPage {
+  data: Article[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+  asOf: string; // Pass back when paging so the ranking stays fixed
+}
+
+// Server-generated renditions and placeholder for an uploaded image
+export interface ImageVariant {
+  width?: number;
+  height?: number;
+  blurhash?: string;
+  dominantColor?: string; // #rrggbb
+  sources: Array<{ type: string; srcSet: string }>; // Preferred format first
+}
+
+// Matching snippet returned with search results; ranges are [start, end) offsets into `text`
+export interface SearchHighlight {
+  field: 'title' | 'excerpt' | 'content';
+  text: string;
+  ranges: Array<[number, number]>;
+}
+
+// Threaded comment on a nugget, as returned by GET /articles/:id/comments
+export interface NuggetComment {
+  id: string;
+  articleId: string;
+  parentId: string | null;
+  depth: number;
+  author: { id: string; name: string; username?: string; avatarUrl?: string };
+  content: string; // Markdown; empty for deleted placeholders
+  status: 'visible' | 'deleted';
+  createdAt: string;
+  editedAt?: string;
+  canEdit: boolean;
+  canDelete: boolean;
+  editableUntil?: string;
+  replies: NuggetComment[];
 }
 
 // Alias
@@ -230,6 +293,7 @@ export interface User {
       interestedCategories: string[];
   };
   lastFeedVisit?: string;
+  followStats?: UserFollowStats; // Attached by GET /users/:id
 }
 
 export interface Collection {
@@ -241,15 +305,21 @@ export interface Collection {
   updatedAt?: string;
   followersCount: number;
   followers?: string[]; // Array of userIds who follow this collection
-  entries: CollectionEntry[];
+  entries: CollectionEntry[]; // Curated display order (grouped by section)
+  sections?: CollectionSection[]; // Optional headings, in display order
   validEntriesCount?: number; // Backend-validated count (preferred over entries.length)
   type: 'public' | 'private';
+  members?: CollectionMember[]; // Excludes the creator, who is always an owner
+  invitations?: CollectionInvitation[]; // Pending; only returned to owners
+  viewerRole?: CollectionRole | null; // Current user's role (null when not a member)
   
   // Display
   creator?: {
     id: string;
     name: string;
     avatar?: string;
+    avatarUrl?: string;
+    username?: string;
   };
 }
 
@@ -258,12 +328,112 @@ export interface CollectionEntry {
   addedByUserId: string;
   addedAt: string;
   flaggedBy: string[];
+  user?: UserSummary; // Who added it (collection detail only)
+  note?: string; // Curator note
+  noteUpdatedBy?: string;
+  noteUpdatedAt?: string;
+  sectionId?: string; // Unset for entries above the first section
+  reviewStatus?: 'queued' | 'hidden'; // Flagged past the threshold; hidden ones are only returned to curators
+  reviewQueuedAt?: string;
+}
+
+export interface CollectionSection {
+  id: string;
+  title: string;
+  createdAt: string;
+}
+
+// In-app notifications (header bell)
+export type NotificationType =
+  | 'collection_entry_added'
+  | 'collection_follower'
+  | 'collection_invitation'
+  | 'user_follower'
+  | 'report_resolved'
+  | 'report_reviewed'
+  | 'feedback_reviewed';
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  actor?: { id: string; name: string; avatarUrl?: string }; // Absent for system events
+  message: string; // Follows the actor name when there is one
+  link?: string;
+  readAt?: string;
+  createdAt: string;
+}
+
+export interface NotificationsPage {
+  data: AppNotification[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+  unreadCount: number;
+}
+
+// Entry added to a followed collection (following feed)
+export interface FollowingFeedItem {
+  collection: { id: string; name: string };
+  entry: {
+    articleId: string;
+    addedAt: string;
+    addedByUserId: string;
+    user?: UserSummary;
+    note?: string;
+  };
+  article: Article;
+  isUnread: boolean;
+}
+
+export interface FollowingFeedPage {
+  data: FollowingFeedItem[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+  unreadCount: number;
+  lastReadAt: string | null;
+}
+
+export type CollectionRole = 'owner' | 'editor' | 'viewer';
+
+// Display info the server attaches to collection members and entries
+export interface UserSummary {
+  name: string;
+  username?: string;
+  avatarUrl?: string;
+}
+
+export interface CollectionMember {
+  userId: string;
+  role: CollectionRole;
+  addedAt: string;
+  invitedBy?: string;
+  user?: UserSummary;
+}
+
+export interface CollectionInvitation {
+  userId: string;
+  role: CollectionRole;
+  invitedBy: string;
+  invitedAt: string;
+  user?: UserSummary;
+}
+
+// Pending invitation as listed for the invitee
+export interface ReceivedCollectionInvitation extends CollectionInvitation {
+  collectionId: string;
+  collectionName: string;
+  description?: string;
+  type: 'public' | 'private';
+  inviter?: UserSummary;
 }
 
 // --- UI & State ---
 
 export type Theme = 'light' | 'dark';
-export type SortOrder = 'latest' | 'oldest';
+export type SortOrder = 'latest' | 'oldest' | 'relevance' | 'most-liked';
 
 export interface FilterState {
   query: string;
@@ -271,6 +441,7 @@ export interface FilterState {
   tag: string | null;
   sort: SortOrder;
   limit?: number;
+  following?: boolean;
 }
 
 
@@ -4,10 +4,19 @@ export type ThemePreference = 'light' | 'dark' | 'system';
 export type Visibility = 'public' | 'private';
 export type AvatarColor = 'blue' | 'green' | 'purple' | 'amber' | 'rose' | 'teal' | 'indigo' | 'slate';
 
+// External sign-in identity connected to the account
+export interface UserIdentity {
+  provider: 'google' | 'linkedin';
+  providerUserId: string;
+  email?: string;
+  linkedAt: string; // ISO Date
+}
+
 export interface UserAuth {
   readonly email: string;
   readonly emailVerified: boolean;
   readonly provider: 'email' | 'google' | 'linkedin';
+  identities?: UserIdentity[];
   readonly createdAt: string; // ISO Date
   updatedAt?: string; // ISO Date
 }
@@ -40,6 +49,7 @@ export interface UserProfile {
 export interface UserSecurity {
   lastPasswordChangeAt?: string; // ISO Date
   mfaEnabled: boolean;
+  mfaEnabledAt?: string; // ISO Date
 }
 
 export interface UserPreferences {
@@ -58,6 +68,9 @@ export interface UserPreferences {
     emailDigest: boolean;
     productUpdates: boolean;
     newFollowers: boolean;
+    collectionActivity: boolean;
+    moderationUpdates: boolean;
+    feedbackUpdates: boolean;
   };
 }
 
@@ -77,4 +90,11 @@ export interface User {
   security: UserSecurity;
   preferences: UserPreferences;
   appState: UserAppState;
+  followStats?: UserFollowStats; // Attached by GET /users/:id
+}
+
+export interface UserFollowStats {
+  followersCount: number;
+  followingCount: number;
+  isFollowing?: boolean; // Present when a signed-in viewer looks at someone else's profile
 }
@@ -0,0 +1,112 @@
+/**
+ * Blurhash decoding for image placeholders
+ * The server stores a blurhash for every processed upload (see Media.placeholder);
+ * decoding it here avoids shipping another dependency for a 32px preview.
+ * Reference algorithm: https://github.com/woltapp/blurhash
+ */
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+const decode83 = (value: string): number => {
+  let result = 0;
+  for (const char of value) {
+    const digit = DIGITS.indexOf(char);
+    if (digit === -1) return NaN;
+    result = result * 83 + digit;
+  }
+  return result;
+};
+
+const sRGBToLinear = (value: number): number => {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const linearToSRGB = (value: number): number => {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.trunc(v * 12.92 * 255 + 0.5)
+    : Math.trunc((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+};
+
+const signPow = (value: number, exp: number): number => Math.sign(value) * Math.pow(Math.abs(value), exp);
+
+/**
+ * Decode a blurhash into RGBA pixels, or null if the hash is malformed
+ */
+export function decodeBlurhash(hash: string, width: number, height: number): Uint8ClampedArray | null {
+  if (!hash || hash.length < 6) return null;
+
+  const sizeFlag = decode83(hash[0]);
+  const numY = Math.floor(sizeFlag / 9) + 1;
+  const numX = (sizeFlag % 9) + 1;
+  if (Number.isNaN(sizeFlag) || hash.length !== 4 + 2 * numX * numY) return null;
+
+  const maximumValue = (decode83(hash[1]) + 1) / 166;
+  const colors: number[][] = [];
+
+  for (let i = 0; i < numX * numY; i++) {
+    if (i === 0) {
+      const value = decode83(hash.substring(2, 6));
+      colors.push([sRGBToLinear(value >> 16), sRGBToLinear((value >> 8) & 255), sRGBToLinear(value & 255)]);
+    } else {
+      const value = decode83(hash.substring(4 + i * 2, 6 + i * 2));
+      colors.push([
+        signPow((Math.floor(value / (19 * 19)) - 9) / 9, 2) * maximumValue,
+        signPow(((Math.floor(value / 19) % 19) - 9) / 9, 2) * maximumValue,
+        signPow(((value % 19) - 9) / 9, 2) * maximumValue,
+      ]);
+    }
+  }
+  if (colors.some(color => color.some(Number.isNaN))) return null;
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let j = 0; j < numY; j++) {
+        for (let i = 0; i < numX; i++) {
+          const basis = Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+          const color = colors[i + j * numX];
+          r += color[0] * basis;
+          g += color[1] * basis;
+          b += color[2] * basis;
+        }
+      }
+      const offset = 4 * (x + y * width);
+      pixels[offset] = linearToSRGB(r);
+      pixels[offset + 1] = linearToSRGB(g);
+      pixels[offset + 2] = linearToSRGB(b);
+      pixels[offset + 3] = 255;
+    }
+  }
+  return pixels;
+}
+
+// Placeholders repeat across feed re-renders; decode each hash once
+const dataUrlCache = new Map<string, string | null>();
+const PLACEHOLDER_SIZE = 32;
+
+/**
+ * Render a blurhash to a small PNG data URL for use as a CSS background
+ */
+export function blurhashToDataUrl(hash: string): string | null {
+  if (dataUrlCache.has(hash)) return dataUrlCache.get(hash)!;
+
+  let url: string | null = null;
+  const pixels = decodeBlurhash(hash, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+  if (pixels && typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = PLACEHOLDER_SIZE;
+    canvas.height = PLACEHOLDER_SIZE;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.putImageData(new ImageData(pixels, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE), 0, 0);
+      url = canvas.toDataURL();
+    }
+  }
+  dataUrlCache.set(hash, url);
+  return url;
+}
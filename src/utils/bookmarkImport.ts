@@ -0,0 +1,143 @@
+/**
+ * Bookmark Import Parsers
+ *
+ * Turns bookmark exports into a flat list for the batch import:
+ * - Netscape bookmark HTML (Chrome, Firefox, Edge, Safari exports)
+ * - Pocket export (HTML or CSV)
+ * - Raindrop.io CSV export
+ *
+ * Folders become a single folder name ("Dev / JavaScript") and tags are
+ * kept as-is. Duplicates are not removed here; the server's import preview
+ * compares normalized URLs against the file and the user's nuggets.
+ */
+
+export type BookmarkImportSource = 'netscape' | 'pocket' | 'raindrop';
+
+export interface ImportedBookmark {
+  url: string;
+  title: string;
+  note: string;
+  tags: string[];
+  folder?: string;
+}
+
+export interface BookmarkImport {
+  source: BookmarkImportSource;
+  bookmarks: ImportedBookmark[];
+}
+
+// Folder names are stored as bookmark folders, which allow 100 characters
+const MAX_FOLDER_NAME_LENGTH = 100;
+const FOLDER_SEPARATOR = ' / ';
+
+// Browser root folders that say nothing about the bookmark itself
+const ROOT_FOLDER_NAMES = new Set([
+  'bookmarks bar',
+  'bookmarks toolbar',
+  'bookmarks menu',
+  'favorites bar',
+  'other bookmarks',
+  'mobile bookmarks',
+  'unsorted',
+]);
+
+const isHttpUrl = (url: string): boolean => /^https?:\/\//i.test(url.trim());
+
+const splitTags = (value: string | null | undefined, separator: RegExp): string[] =>
+  Array.from(new Set((value || '').split(separator).map(tag => tag.trim()).filter(Boolean)));
+
+function toFolderName(path: string[]): string | undefined {
+  const segments = path.map(segment => segment.trim()).filter(segment => segment && !ROOT_FOLDER_NAMES.has(segment.toLowerCase()));
+  if (segments.length === 0) return undefined;
+  return segments.join(FOLDER_SEPARATOR).slice(0, MAX_FOLDER_NAME_LENGTH).trim();
+}
+
+/**
+ * Folder path of a Netscape bookmark: every enclosing <DL> list is preceded
+ * by the <H3> heading that names it
+ */
+function getFolderPath(anchor: Element): string[] {
+  const path: string[] = [];
+  for (let node = anchor.parentElement; node; node = node.parentElement) {
+    if (node.tagName !== 'DL') continue;
+    const heading = node.previousElementSibling;
+    if (heading?.tagName === 'H3') {
+      // Firefox marks its root folders instead of relying on their (localized) names
+      const isRoot = heading.hasAttribute('PERSONAL_TOOLBAR_FOLDER') || heading.hasAttribute('UNFILED_BOOKMARKS_FOLDER');
+      if (!isRoot) path.unshift(heading.textContent || '');
+    }
+  }
+  return path;
+}
+
+/**
+ * Parse a Netscape bookmark file or a Pocket HTML export
+ */
+export function parseBookmarkHtml(html: string): BookmarkImport {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const anchors = Array.from(doc.querySelectorAll('a[href]'));
+  // Pocket's export is a plain list of links with time_added attributes
+  const source: BookmarkImportSource = doc.querySelector('dl') || !anchors.some(a => a.hasAttribute('time_added'))
+    ? 'netscape'
+    : 'pocket';
+
+  const bookmarks = anchors
+    .filter(anchor => isHttpUrl(anchor.getAttribute('href') || ''))
+    .map(anchor => {
+      const url = (anchor.getAttribute('href') || '').trim();
+      // <DD> after the bookmark's <DT> holds its description
+      const next = anchor.closest('dt')?.nextElementSibling;
+      return {
+        url,
+        title: (anchor.textContent || '').trim() || url,
+        note: next?.tagName === 'DD' ? (next.textContent || '').trim() : '',
+        tags: splitTags(anchor.getAttribute('tags'), /,/),
+        folder: source === 'netscape' ? toFolderName(getFolderPath(anchor)) : undefined,
+      };
+    });
+
+  return { source, bookmarks };
+}
+
+/**
+ * Parse CSV records (header row already applied) from a Pocket or Raindrop export
+ */
+export function parseBookmarkCsv(records: Array<Record<string, string>>): BookmarkImport {
+  const headers = new Set(Object.keys(records[0] || {}).map(header => header.trim().toLowerCase()));
+  const get = (record: Record<string, string>, key: string): string => {
+    const match = Object.keys(record).find(header => header.trim().toLowerCase() === key);
+    return match ? (record[match] || '').trim() : '';
+  };
+
+  if (headers.has('url') && headers.has('folder') && (headers.has('note') || headers.has('excerpt'))) {
+    return {
+      source: 'raindrop',
+      bookmarks: records
+        .filter(record => isHttpUrl(get(record, 'url')))
+        .map(record => ({
+          url: get(record, 'url'),
+          title: get(record, 'title') || get(record, 'url'),
+          note: get(record, 'note') || get(record, 'excerpt'),
+          tags: splitTags(get(record, 'tags'), /,/),
+          // Nested collections are exported as "Parent/Child"
+          folder: toFolderName(get(record, 'folder').split('/')),
+        })),
+    };
+  }
+
+  if (headers.has('url') && headers.has('time_added')) {
+    return {
+      source: 'pocket',
+      bookmarks: records
+        .filter(record => isHttpUrl(get(record, 'url')))
+        .map(record => ({
+          url: get(record, 'url'),
+          title: get(record, 'title') || get(record, 'url'),
+          note: '',
+          tags: splitTags(get(record, 'tags'), /[|,]/),
+        })),
+    };
+  }
+
+  throw new Error('Unrecognized bookmark CSV. Expected a Pocket or Raindrop export.');
+}
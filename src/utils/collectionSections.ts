@@ -0,0 +1,44 @@
+import { CollectionEntry, CollectionSection } from '@/types';
+
+export interface CollectionEntryGroup {
+  section: CollectionSection | null; // null for entries above the first section
+  entries: CollectionEntry[];
+}
+
+/**
+ * Entries grouped in display order: unsectioned entries first, then each
+ * section in order. Mirrors the server's collectionOrdering helpers.
+ */
+export function groupCollectionEntries(
+  entries: CollectionEntry[],
+  sections: CollectionSection[] = []
+): CollectionEntryGroup[] {
+  const known = new Set(sections.map(section => section.id));
+  const groupOf = (entry: CollectionEntry) => (entry.sectionId && known.has(entry.sectionId) ? entry.sectionId : null);
+  return [
+    { section: null, entries: entries.filter(entry => groupOf(entry) === null) },
+    ...sections.map(section => ({ section, entries: entries.filter(entry => groupOf(entry) === section.id) })),
+  ];
+}
+
+/**
+ * Entries with one entry moved to `index` within a group, for optimistic
+ * updates while the server applies the same move
+ */
+export function moveCollectionEntry(
+  entries: CollectionEntry[],
+  articleId: string,
+  sectionId: string | null,
+  index: number
+): CollectionEntry[] {
+  const entry = entries.find(item => item.articleId === articleId);
+  if (!entry) return entries;
+  const moved = { ...entry, sectionId: sectionId ?? undefined };
+  const remaining = entries.filter(item => item.articleId !== articleId);
+  const group = remaining.filter(item => (item.sectionId || null) === sectionId);
+  const position = Math.max(0, Math.min(index, group.length));
+  const insertAt = position < group.length
+    ? remaining.indexOf(group[position])
+    : group.length > 0 ? remaining.indexOf(group[group.length - 1]) + 1 : remaining.length;
+  return [...remaining.slice(0, insertAt), moved, ...remaining.slice(insertAt)];
+}